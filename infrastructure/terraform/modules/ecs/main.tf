@@ -157,6 +157,11 @@ resource "aws_ecs_task_definition" "backend" {
         {
           name  = "NODE_ENV"
           value = var.environment
+        },
+        {
+          # The ALB is the only proxy, so the client's address is the last X-Forwarded-For entry
+          name  = "TRUST_PROXY_HOPS"
+          value = "1"
         }
       ]
       secrets = [
@@ -174,7 +179,8 @@ resource "aws_ecs_task_definition" "backend" {
         }
       }
       healthCheck = {
-        command     = ["CMD-SHELL", "curl -f http://localhost:${var.container_port}${var.health_check_path} || exit 1"]
+        # The container is only restarted when the process stops responding, not when a dependency is down
+        command     = ["CMD-SHELL", "curl -f http://localhost:${var.container_port}/health/live || exit 1"]
         interval    = 30
         timeout     = 5
         retries     = 3
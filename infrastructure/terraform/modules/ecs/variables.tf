@@ -92,8 +92,8 @@ variable "max_count" {
 
 variable "health_check_path" {
   type        = string
-  description = "Path for health check endpoint"
-  default     = "/health"
+  description = "Path for the load balancer health check (readiness) endpoint"
+  default     = "/health/ready"
 }
 
 variable "container_port" {
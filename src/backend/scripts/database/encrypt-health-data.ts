@@ -0,0 +1,68 @@
+/**
+ * Health Data Encryption Migration
+ *
+ * Encrypts health records stored before health data encryption was introduced, and keeps
+ * stored records up to date when keys are rotated. Records can be read throughout, so the
+ * API can stay up while this runs, and it is safe to run again if it was interrupted.
+ *
+ * Usage: npm run db:encrypt-health-data -- [--rewrap-keys] [--rotate-data-keys] [--reindex]
+ *
+ *   --rewrap-keys       Rewrap every data key with HEALTH_DATA_MASTER_KEY_ID, after the
+ *                       master key was rotated. Keep the old master key configured until
+ *                       this has finished.
+ *   --rotate-data-keys  Give every user with health data a new data key version and
+ *                       re-encrypt their records with it
+ *   --reindex           Rebuild the blind indexes of every record, after
+ *                       HEALTH_DATA_BLIND_INDEX_KEY was changed or the
+ *                       indexed values were extended, e.g. by the word
+ *                       pairs quoted phrases are matched on
+ *
+ * The migration also replaces the indexes of the health data collection, dropping the
+ * text index over the fields that are now encrypted.
+ */
+
+import { connectToDatabase, disconnectFromDatabase } from '../../src/config/database';
+import logger from '../../src/config/logger';
+import { HealthDataModel } from '../../src/models/health-data.model';
+import { HealthRepository } from '../../src/repositories/health.repository';
+import { getDataKeyService } from '../../src/services/data-key.service';
+
+/**
+ * Runs the migration with the options given on the command line
+ */
+async function main(): Promise<void> {
+  const args = process.argv.slice(2);
+  const connection = await connectToDatabase();
+
+  try {
+    const dataKeyService = getDataKeyService();
+    const healthRepository = new HealthRepository(connection, dataKeyService);
+
+    await HealthDataModel.syncIndexes();
+    logger.info('Health data indexes synchronized');
+
+    if (args.includes('--rewrap-keys')) {
+      await dataKeyService.rewrapDataKeys();
+    }
+
+    if (args.includes('--rotate-data-keys')) {
+      const userIds = await healthRepository.findUserIdsWithHealthData();
+      for (const userId of userIds) {
+        await dataKeyService.rotateDataKey(userId);
+      }
+      logger.info('Data keys rotated', { users: userIds.length });
+    }
+
+    const summary = await healthRepository.encryptAllHealthData({ reindex: args.includes('--reindex') });
+    logger.info('Health data encryption migration completed', { ...summary });
+  } finally {
+    await disconnectFromDatabase();
+  }
+}
+
+main().catch((error: unknown) => {
+  logger.error('Health data encryption migration failed', {
+    error: error instanceof Error ? error.message : String(error)
+  });
+  process.exit(1);
+});
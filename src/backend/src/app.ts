@@ -14,7 +14,9 @@ import mongoSanitize from 'express-mongo-sanitize'; // Sanitize user input to pr
 
 import { environment, logger, db, security } from './config';
 import createRoutes from './routes';
-import { errorMiddleware, notFoundMiddleware, uncaughtExceptionHandler, unhandledRejectionHandler, rateLimitMiddleware } from './middlewares';
+import { checkLiveness, checkReadiness } from './services/health-check.service';
+import { ServiceStatus } from './types/health-check.types';
+import { errorMiddleware, notFoundMiddleware, uncaughtExceptionHandler, unhandledRejectionHandler, rateLimitMiddleware, metricsMiddleware } from './middlewares';
 
 /**
  * Sets up global handlers for uncaught exceptions and unhandled promise rejections
@@ -31,26 +33,32 @@ function setupGlobalHandlers(): void {
 }
 
 /**
- * Sets up a health check endpoint to verify API and database status
+ * Sets up liveness and readiness endpoints for container orchestration and monitoring
  * @param app - Express application instance
  * @returns void
  */
 function setupHealthCheck(app: express.Application): void {
-  // Create a GET endpoint at /health
-  app.get('/health', async (req, res) => {
-    // Check database connection status
-    const dbStatus = db.getStatus();
-
-    // Return health status with uptime and database connection information
-    res.status(200).json({
-      status: 'ok',
-      uptime: process.uptime(),
-      database: dbStatus
-    });
-
-    // Log that health check endpoint has been configured
-    logger.info('Health check endpoint configured');
+  // Liveness only shows the process is serving requests, so dependencies are not checked
+  app.get('/health/live', (req, res) => {
+    res.status(200).json(checkLiveness());
   });
+
+  // Readiness checks MongoDB, GridFS and the LLM provider; 503 takes the instance out of rotation
+  const readinessHandler = async (req: express.Request, res: express.Response): Promise<void> => {
+    try {
+      const report = await checkReadiness();
+      res.status(report.status === ServiceStatus.UNAVAILABLE ? 503 : 200).json(report);
+    } catch (error) {
+      logger.error('Readiness check failed', { error: (error as Error).message });
+      res.status(503).json({ status: ServiceStatus.UNAVAILABLE, error: (error as Error).message });
+    }
+  };
+  app.get('/health/ready', readinessHandler);
+
+  // The original endpoint reports readiness for existing monitors (scripts/monitoring/health-check.js)
+  app.get('/health', readinessHandler);
+
+  logger.info('Health check endpoints configured');
 }
 
 /**
@@ -61,9 +69,15 @@ async function createApp(): Promise<express.Application> {
   // Create a new Express application instance
   const app = express();
 
+  // Take req.ip from X-Forwarded-For as reported by the load balancer, not the balancer's own address
+  app.set('trust proxy', security.trustProxy);
+
   // Register global exception handlers
   setupGlobalHandlers();
 
+  // Record request latency and status for Prometheus, including rejected requests
+  app.use(metricsMiddleware);
+
   // Configure security middleware (helmet, cors, rate limiting)
   app.use(helmet(security.helmetOptions));
   app.use(cors(security.corsOptions));
@@ -90,7 +104,7 @@ async function createApp(): Promise<express.Application> {
   // Register API routes with the API_PREFIX
   app.use(environment.API_PREFIX, createRoutes(db.connect));
 
-  // Add health check endpoint
+  // Add liveness and readiness endpoints
   setupHealthCheck(app);
 
   // Add 404 handler for undefined routes
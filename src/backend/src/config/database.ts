@@ -233,4 +233,19 @@ export function getConnectionStatus(): {
   }
   
   return status;
-}
\ No newline at end of file
+}
+/**
+ * Sends a ping command to MongoDB to verify that the server is responding
+ * 
+ * @returns A promise that resolves to the round-trip time in milliseconds
+ * @throws Error if the connection is not open or the server does not respond
+ */
+export async function pingDatabase(): Promise<number> {
+  if (mongoose.connection.readyState !== 1) {
+    throw new Error('MongoDB connection is not open');
+  }
+
+  const startedAt = Date.now();
+  await mongoose.connection.db.admin().ping();
+  return Date.now() - startedAt;
+}
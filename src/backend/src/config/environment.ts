@@ -62,10 +62,14 @@ export function validateEnvironmentVariables(): void {
     'JWT_SECRET',
     'JWT_EXPIRATION',
     'REFRESH_TOKEN_EXPIRATION',
-    'LLM_PROVIDER_API_KEY',
     'LLM_PROVIDER_URL',
   ];
   
+  // Local LLM servers do not require an API key
+  if (!['ollama', 'llamacpp'].includes(process.env.LLM_PROVIDER || 'openai')) {
+    requiredEnvVars.push('LLM_PROVIDER_API_KEY');
+  }
+  
   // Check for missing required variables
   const missingEnvVars = requiredEnvVars.filter(envVar => !process.env[envVar]);
   
@@ -75,6 +79,24 @@ export function validateEnvironmentVariables(): void {
     );
   }
   
+  // The other transports keep emails, and the password reset codes in them, on the server
+  if (process.env.NODE_ENV === 'production' && (process.env.EMAIL_TRANSPORT || 'console').toLowerCase() !== 'smtp') {
+    throw new Error('EMAIL_TRANSPORT must be smtp in production');
+  }
+  
+  // Authenticator secrets would otherwise be encrypted with a key that is public in the source
+  if (process.env.NODE_ENV === 'production' && !process.env.SECRET_ENCRYPTION_KEY) {
+    throw new Error('SECRET_ENCRYPTION_KEY must be set in production');
+  }
+  
+  // Health data would otherwise be encrypted and indexed with development keys that are public in the source
+  const missingHealthDataKeys = ['HEALTH_DATA_MASTER_KEYS', 'HEALTH_DATA_BLIND_INDEX_KEY']
+    .filter((envVar) => !process.env[envVar]);
+  
+  if (process.env.NODE_ENV === 'production' && missingHealthDataKeys.length > 0) {
+    throw new Error(`${missingHealthDataKeys.join(' and ')} must be set in production`);
+  }
+  
   console.log('All required environment variables are present');
 }
 
@@ -104,13 +126,71 @@ const environment = {
   JWT_EXPIRATION: process.env.JWT_EXPIRATION || '',
   REFRESH_TOKEN_EXPIRATION: process.env.REFRESH_TOKEN_EXPIRATION || '',
   
+  // Two-factor authentication configuration
+  TWO_FACTOR_ISSUER: process.env.TWO_FACTOR_ISSUER || 'Health Advisor',
+  TWO_FACTOR_CHALLENGE_EXPIRATION: process.env.TWO_FACTOR_CHALLENGE_EXPIRATION || '5m',
+  SECRET_ENCRYPTION_KEY: process.env.SECRET_ENCRYPTION_KEY || '',
+  
+  // Health data encryption configuration
+  HEALTH_DATA_KMS_PROVIDER: process.env.HEALTH_DATA_KMS_PROVIDER || 'local',
+  HEALTH_DATA_MASTER_KEYS: process.env.HEALTH_DATA_MASTER_KEYS || '',
+  HEALTH_DATA_MASTER_KEY_ID: process.env.HEALTH_DATA_MASTER_KEY_ID || '',
+  HEALTH_DATA_BLIND_INDEX_KEY: process.env.HEALTH_DATA_BLIND_INDEX_KEY || '',
+  
   // LLM provider configuration
+  LLM_PROVIDER: process.env.LLM_PROVIDER || 'openai',
   LLM_PROVIDER_API_KEY: process.env.LLM_PROVIDER_API_KEY || '',
   LLM_PROVIDER_URL: process.env.LLM_PROVIDER_URL || '',
   LLM_MODEL: process.env.LLM_MODEL || 'gpt-3.5-turbo',
+  LLM_SUMMARY_MODEL: process.env.LLM_SUMMARY_MODEL || '',
+  LLM_CONTEXT_TOKENS: parseInt(process.env.LLM_CONTEXT_TOKENS || '8192', 10),
+  LLM_CONTEXT_RECORDS: parseInt(process.env.LLM_CONTEXT_RECORDS || '15', 10),
+  LLM_TOOLS_ENABLED: process.env.LLM_TOOLS_ENABLED !== 'false',
+  LLM_TOOL_MAX_ITERATIONS: parseInt(process.env.LLM_TOOL_MAX_ITERATIONS || '4', 10),
+  
+  // Embedding configuration
+  EMBEDDING_PROVIDER: process.env.EMBEDDING_PROVIDER || 'hashing',
+  EMBEDDING_PROVIDER_URL: process.env.EMBEDDING_PROVIDER_URL || '',
+  EMBEDDING_PROVIDER_API_KEY: process.env.EMBEDDING_PROVIDER_API_KEY || '',
+  EMBEDDING_MODEL: process.env.EMBEDDING_MODEL || '',
+  EMBEDDING_TIMEOUT: parseInt(process.env.EMBEDDING_TIMEOUT || '30000', 10),
+  
+  // OCR configuration
+  OCR_LANGUAGE: process.env.OCR_LANGUAGE || 'eng',
+  OCR_LANG_PATH: process.env.OCR_LANG_PATH || '',
+  
+  // Speech-to-text configuration
+  TRANSCRIPTION_ENGINE: process.env.TRANSCRIPTION_ENGINE || 'stub',
+  TRANSCRIPTION_LANGUAGE: process.env.TRANSCRIPTION_LANGUAGE || 'en',
+  TRANSCRIPTION_TIMEOUT: parseInt(process.env.TRANSCRIPTION_TIMEOUT || '120000', 10),
+  WHISPER_CPP_PATH: process.env.WHISPER_CPP_PATH || 'whisper-cli',
+  WHISPER_CPP_MODEL: process.env.WHISPER_CPP_MODEL || '',
+  FFMPEG_PATH: process.env.FFMPEG_PATH || 'ffmpeg',
+  
+  // Email configuration
+  EMAIL_TRANSPORT: process.env.EMAIL_TRANSPORT || 'console',
+  EMAIL_FROM: process.env.EMAIL_FROM || 'Health Advisor <noreply@healthadvisor.local>',
+  EMAIL_FILE_DIR: process.env.EMAIL_FILE_DIR || 'mail',
+  SMTP_HOST: process.env.SMTP_HOST || 'localhost',
+  SMTP_PORT: parseInt(process.env.SMTP_PORT || '587', 10),
+  SMTP_SECURE: process.env.SMTP_SECURE === 'true',
+  SMTP_USER: process.env.SMTP_USER || '',
+  SMTP_PASSWORD: process.env.SMTP_PASSWORD || '',
+  
+  // Password reset configuration
+  PASSWORD_RESET_TOKEN_TTL_MS: parseInt(process.env.PASSWORD_RESET_TOKEN_TTL_MS || '3600000', 10),
+  PASSWORD_RESET_URL: process.env.PASSWORD_RESET_URL || '',
+  
+  // Login lockout configuration
+  LOGIN_MAX_FAILED_ATTEMPTS: parseInt(process.env.LOGIN_MAX_FAILED_ATTEMPTS || '5', 10),
+  LOGIN_MAX_FAILED_ATTEMPTS_PER_IP: parseInt(process.env.LOGIN_MAX_FAILED_ATTEMPTS_PER_IP || '20', 10),
+  LOGIN_FAILURE_WINDOW_MS: parseInt(process.env.LOGIN_FAILURE_WINDOW_MS || '900000', 10),
+  LOGIN_LOCKOUT_DURATION_MS: parseInt(process.env.LOGIN_LOCKOUT_DURATION_MS || '1800000', 10),
+  LOGIN_MAX_LOCKOUT_DURATION_MS: parseInt(process.env.LOGIN_MAX_LOCKOUT_DURATION_MS || '86400000', 10),
   
   // Security configuration
   CORS_ORIGIN: process.env.CORS_ORIGIN || '*',
+  TRUST_PROXY_HOPS: parseInt(process.env.TRUST_PROXY_HOPS || '0', 10),
   
   // Logging configuration
   LOG_LEVEL: process.env.LOG_LEVEL || 'info',
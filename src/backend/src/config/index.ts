@@ -10,22 +10,15 @@
  * @module config
  */
 
-import { 
-  environment,
-  NODE_ENV,
-  PORT,
-  API_PREFIX,
-  IS_PRODUCTION,
-  IS_DEVELOPMENT,
-  IS_TEST
-} from './environment';
+import { environment } from './environment';
 
 import logger from './logger';
 
 import {
   connectToDatabase,
   disconnectFromDatabase,
-  getConnectionStatus
+  getConnectionStatus,
+  pingDatabase
 } from './database';
 
 import { securityConfig } from './security';
@@ -54,7 +47,14 @@ const db = {
    * 
    * @returns An object containing connection status information
    */
-  getStatus: getConnectionStatus
+  getStatus: getConnectionStatus,
+  
+  /**
+   * Ping the MongoDB server
+   * 
+   * @returns A promise that resolves to the round-trip time in milliseconds
+   */
+  ping: pingDatabase
 };
 
 /**
@@ -6,9 +6,14 @@
  * configurations for optimal interaction with the LLM API.
  * 
  * The configuration includes:
- * - Provider API connection details (API key, URL, headers, timeout)
+ * - Provider adapter selection and API connection details (API key, URL, timeout)
  * - Model specification for the LLM
  * - Default request parameters that control response generation
+ * - Parameters for short summarization requests, such as conversation titles
+ * - The token budget for the context sent with each message, and how many health records
+ *   it draws on
+ * - The tools the model can call to look up the user's health history, and how many rounds
+ *   of tool calls a message may take
  * 
  * These settings are specifically tuned for generating health advice that is
  * factual, clear, and appropriately detailed.
@@ -18,6 +23,24 @@
 
 import { environment } from './environment';
 import logger from './logger';
+import { LLMProviderType } from '../types/chat.types';
+
+/**
+ * Resolves the provider adapter type configured for the current environment
+ * 
+ * @returns The configured provider type, defaulting to an OpenAI-compatible provider
+ */
+function resolveProviderType(): LLMProviderType {
+  const providerTypes = Object.values(LLMProviderType) as string[];
+  const configuredType = environment.LLM_PROVIDER.toLowerCase();
+
+  if (!providerTypes.includes(configuredType)) {
+    logger.warn(`Unknown LLM_PROVIDER "${environment.LLM_PROVIDER}", falling back to ${LLMProviderType.OPENAI}`);
+    return LLMProviderType.OPENAI;
+  }
+
+  return configuredType as LLMProviderType;
+}
 
 /**
  * Validates that all required LLM configuration parameters are present
@@ -28,7 +51,11 @@ import logger from './logger';
 export function validateLLMConfig(): void {
   const missingParams: string[] = [];
   
-  if (!environment.LLM_PROVIDER_API_KEY) {
+  // Local LLM servers do not require an API key
+  const isLocalProvider = [LLMProviderType.OLLAMA, LLMProviderType.LLAMA_CPP]
+    .includes(llmConfig.provider.type);
+
+  if (!environment.LLM_PROVIDER_API_KEY && !isLocalProvider) {
     missingParams.push('LLM_PROVIDER_API_KEY');
   }
   
@@ -45,6 +72,15 @@ export function validateLLMConfig(): void {
   } else {
     logger.debug('All LLM configuration parameters are present');
   }
+  
+  if (llmConfig.context.maxTokens <= llmConfig.requestDefaults.maxTokens) {
+    logger.warn(`LLM_CONTEXT_TOKENS (${llmConfig.context.maxTokens}) leaves no room for context next to ` +
+      `responses of up to ${llmConfig.requestDefaults.maxTokens} tokens`);
+  } else if (llmConfig.tools.enabled &&
+    llmConfig.context.maxTokens <= llmConfig.requestDefaults.maxTokens + llmConfig.tools.resultTokens) {
+    logger.warn(`LLM_CONTEXT_TOKENS (${llmConfig.context.maxTokens}) leaves no room for context next to ` +
+      `responses and ${llmConfig.tools.resultTokens} tokens of tool results`);
+  }
 }
 
 /**
@@ -56,22 +92,21 @@ export const llmConfig = {
    */
   provider: {
     /**
-     * API key for authenticating with the LLM provider
+     * Adapter used to talk to the LLM provider (openai, anthropic, ollama or llamacpp)
+     * Selected per environment through LLM_PROVIDER
      */
-    apiKey: environment.LLM_PROVIDER_API_KEY,
+    type: resolveProviderType(),
     
     /**
-     * Base URL for the LLM provider API
+     * API key for authenticating with the LLM provider
      */
-    baseUrl: environment.LLM_PROVIDER_URL,
+    apiKey: environment.LLM_PROVIDER_API_KEY,
     
     /**
-     * HTTP headers for API requests
+     * Endpoint URL for the LLM provider API
+     * Request headers are set by the provider adapter
      */
-    headers: {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${environment.LLM_PROVIDER_API_KEY}`
-    },
+    baseUrl: environment.LLM_PROVIDER_URL,
     
     /**
      * Request timeout in milliseconds
@@ -125,5 +160,99 @@ export const llmConfig = {
      * Default: 0.1 (slight presence penalty)
      */
     presencePenalty: 0.1
+  },
+  
+  /**
+   * Parameters for short summarization requests, such as titling conversations
+   * These run in the background after a response has been sent, so a cheaper model can be used
+   */
+  summarization: {
+    /**
+     * Model used for summarization, from LLM_SUMMARY_MODEL
+     * Default: the model used for responses
+     */
+    model: environment.LLM_SUMMARY_MODEL || environment.LLM_MODEL,
+    
+    /**
+     * Maximum number of tokens in a summary
+     * Conversation titles are only a few words long; conversation summaries use context.summaryMaxTokens
+     * Default: 24 tokens
+     */
+    maxTokens: 24,
+    
+    /**
+     * Controls randomness in summaries (0.0-1.0)
+     * Default: 0.3 (mostly deterministic, with some variety in wording)
+     */
+    temperature: 0.3
+  },
+  
+  /**
+   * Token budget for the prompt sent with each message
+   * Context is added by priority until the budget is used up: system prompt, user profile,
+   * the health records most relevant to the message, then the summary of earlier messages
+   * and as many recent messages as fit
+   */
+  context: {
+    /**
+     * Size of the model's context window in tokens, from LLM_CONTEXT_TOKENS
+     * Room for a response of requestDefaults.maxTokens is kept free
+     * Default: 8192 tokens
+     */
+    maxTokens: environment.LLM_CONTEXT_TOKENS,
+    
+    /**
+     * Tokens of messages not yet summarized above which older messages are compacted into
+     * the conversation summary; about half of this is kept as recent messages
+     * Default: 2000 tokens
+     */
+    recentMessagesTokens: 2000,
+    
+    /**
+     * Maximum number of tokens in a conversation summary
+     * Default: 400 tokens
+     */
+    summaryMaxTokens: 400,
+    
+    /**
+     * Maximum number of health records added to the context, from LLM_CONTEXT_RECORDS
+     * The records most similar to the message are chosen by their embeddings
+     * Default: 15 records
+     */
+    relevantRecords: environment.LLM_CONTEXT_RECORDS,
+    
+    /**
+     * Age in days at which a record counts for three quarters of its similarity to the message
+     * Older records keep at least half, so e.g. last year's lab results can still be chosen
+     * Default: 180 days
+     */
+    recencyHalfLifeDays: 180
+  },
+  
+  /**
+   * Server-side tools the model can call to look up the user's health history, such as the
+   * trend of a lab analyte, in addition to the records chosen for the context
+   */
+  tools: {
+    /**
+     * Whether tools are offered to the model, from LLM_TOOLS_ENABLED
+     * Disable for models that don't support tool calling
+     * Default: true
+     */
+    enabled: environment.LLM_TOOLS_ENABLED,
+    
+    /**
+     * Maximum number of rounds of tool calls per message, from LLM_TOOL_MAX_ITERATIONS
+     * The model is asked to answer without further tools once they are used up
+     * Default: 4 rounds
+     */
+    maxIterations: environment.LLM_TOOL_MAX_ITERATIONS,
+    
+    /**
+     * Tokens kept free in the prompt for tool calls and their results
+     * Results are shortened to fit what is left of this budget
+     * Default: 2000 tokens
+     */
+    resultTokens: 2000
   }
 };
\ No newline at end of file
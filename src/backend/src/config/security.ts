@@ -2,7 +2,8 @@
  * Security Configuration Module
  * 
  * This module centralizes security-related configurations for the Health Advisor backend,
- * including CORS settings, HTTP security headers via Helmet, and rate limiting options.
+ * including CORS settings, HTTP security headers via Helmet, rate limiting options and the
+ * proxies trusted to report the client's IP address.
  * It provides consistent security settings across the application and can be customized
  * for different environments.
  * 
@@ -12,7 +13,9 @@
 import cors from 'cors'; // ^2.8.5
 import helmet from 'helmet'; // ^6.0.1
 import { RateLimitOptions } from 'express-rate-limit'; // ^6.7.0
-import { CORS_ORIGIN, IS_PRODUCTION, RATE_LIMIT_WINDOW_MS, RATE_LIMIT_MAX } from './environment';
+import { environment } from './environment';
+
+const { CORS_ORIGIN, IS_PRODUCTION, RATE_LIMIT_WINDOW_MS, RATE_LIMIT_MAX } = environment;
 
 /**
  * Creates CORS configuration options based on environment settings.
@@ -147,6 +150,20 @@ export function getRateLimitOptions(): RateLimitOptions {
   return rateLimitOptions;
 }
 
+/**
+ * Determines how many proxies in front of the API are trusted to report the client's IP address
+ * 
+ * Behind a load balancer every request comes from the load balancer's address, so the client's
+ * address is taken from the X-Forwarded-For entry appended by the outermost trusted proxy. Entries
+ * before it are set by the client and are ignored, so a client can't pass as another address
+ * to get around the login lockout or rate limiting.
+ * 
+ * @returns Number of trusted proxies for Express's 'trust proxy' setting; 0 trusts none
+ */
+export function getTrustProxy(): number {
+  return environment.TRUST_PROXY_HOPS;
+}
+
 /**
  * Centralized security configuration object.
  * 
@@ -156,5 +173,6 @@ export function getRateLimitOptions(): RateLimitOptions {
 export const securityConfig = {
   corsOptions: getCorsOptions(),
   helmetOptions: getHelmetOptions(),
-  rateLimitOptions: getRateLimitOptions()
+  rateLimitOptions: getRateLimitOptions(),
+  trustProxy: getTrustProxy()
 };
\ No newline at end of file
@@ -0,0 +1,51 @@
+/**
+ * Admin Controller Module
+ *
+ * This module handles HTTP requests for administrators of the Health Advisor application,
+ * such as querying the audit log of access to health records and files across all users.
+ * Routes using it must be restricted to administrators.
+ *
+ * @module controllers/admin.controller
+ */
+
+import { Response, NextFunction } from 'express'; // express version ^4.18.2
+import { queryAuditLog } from '../services/audit.service';
+import { AuthenticatedRequest } from '../types/auth.types';
+import { AdminAuditLogRequest } from '../types/audit.types';
+import { sendPaginated } from '../utils/response.util';
+import logger from '../config/logger';
+
+/**
+ * Namespace containing admin controller functions
+ */
+export const AdminController = {
+  /**
+   * Queries the audit log across all users, newest first
+   *
+   * @param req - Express request object with authenticated administrator and filters
+   * @param res - Express response object
+   * @param next - Express next function
+   */
+  getAuditLog: async (
+    req: AuthenticatedRequest,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      // Query parameters have already been converted by the validation middleware
+      const request = req.query as unknown as AdminAuditLogRequest;
+      const { items, total, page, limit } = await queryAuditLog(request);
+
+      logger.info('Audit log queried', { adminId: req.user.id, filters: req.query });
+
+      sendPaginated(res, items, total, page, limit, 'Audit log retrieved successfully');
+    } catch (error) {
+      logger.error('Error querying audit log', {
+        error: error instanceof Error ? error.message : String(error),
+        adminId: req.user?.id
+      });
+
+      next(error);
+    }
+  }
+};
@@ -1,7 +1,8 @@
 /**
  * Authentication Controller
  * 
- * Handles authentication-related HTTP requests including user signup, login, and token validation.
+ * Handles authentication-related HTTP requests including user signup, login, token validation,
+ * two-factor authentication, and password changes and resets.
  * Acts as an intermediary between the routes and the authentication service, handling request/response
  * formatting and error management.
  * 
@@ -13,12 +14,30 @@ import Joi from 'joi'; // ^17.9.1
 import {
   signup,
   login,
+  refresh,
+  logout,
   validateToken,
-  formatUserResponse
+  formatUserResponse,
+  changePassword,
+  requestPasswordReset,
+  resetPassword,
+  verifyTwoFactorLogin
 } from '../services/auth.service';
+import {
+  setupTwoFactor,
+  enableTwoFactor,
+  disableTwoFactor
+} from '../services/two-factor.service';
 import {
   LoginRequest,
   SignupRequest,
+  RefreshTokenRequest,
+  ChangePasswordRequest,
+  ForgotPasswordRequest,
+  ResetPasswordRequest,
+  TwoFactorLoginRequest,
+  EnableTwoFactorRequest,
+  DisableTwoFactorRequest,
   AuthenticatedRequest
 } from '../types/auth.types';
 import { 
@@ -28,6 +47,8 @@ import {
 import {
   sendSuccess,
   sendCreated,
+  sendAccepted,
+  sendNoContent,
   sendError
 } from '../utils/response.util';
 import logger from '../config/logger';
@@ -79,8 +100,14 @@ export async function loginHandler(
   try {
     const { email, password } = req.body as LoginRequest;
     
-    // Call auth service to handle login
-    const result = await login({ email, password });
+    // Call auth service to handle login, passing the IP address failed logins are counted for
+    const result = await login({ email, password }, req.ip);
+    
+    // With two-factor authentication the password only yields a challenge
+    if ('twoFactorRequired' in result) {
+      sendSuccess(res, result, 'Two-factor authentication code required');
+      return;
+    }
     
     // Log successful login (exclude sensitive data)
     logger.info('User logged in successfully', {
@@ -96,6 +123,238 @@ export async function loginHandler(
   }
 }
 
+/**
+ * Handles the second step of a login with two-factor authentication
+ * 
+ * @param req - Express request object
+ * @param res - Express response object
+ * @param next - Express next function
+ */
+export async function twoFactorLoginHandler(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { challengeToken, code } = req.body as TwoFactorLoginRequest;
+    
+    // Call auth service to check the code, passing the IP address failed logins are counted for
+    const result = await verifyTwoFactorLogin({ challengeToken, code }, req.ip);
+    
+    // Send success response with token and user data
+    sendSuccess(res, result, 'User logged in successfully');
+  } catch (error) {
+    // Forward any errors to error handling middleware
+    next(error);
+  }
+}
+
+/**
+ * Handles refresh token exchange HTTP requests
+ * 
+ * @param req - Express request object
+ * @param res - Express response object
+ * @param next - Express next function
+ */
+export async function refreshHandler(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { refreshToken } = req.body as RefreshTokenRequest;
+    
+    // Call auth service to rotate the refresh token
+    const result = await refresh(refreshToken);
+    
+    // Send success response with the new token pair
+    sendSuccess(res, result, 'Token refreshed successfully');
+  } catch (error) {
+    // Forward any errors to error handling middleware
+    next(error);
+  }
+}
+
+/**
+ * Handles user logout HTTP requests
+ * 
+ * @param req - Express request object
+ * @param res - Express response object
+ * @param next - Express next function
+ */
+export async function logoutHandler(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { refreshToken } = req.body as RefreshTokenRequest;
+    
+    // Call auth service to revoke the session's refresh tokens
+    await logout(refreshToken);
+    
+    // Send empty response, logging out twice is not an error
+    sendNoContent(res);
+  } catch (error) {
+    // Forward any errors to error handling middleware
+    next(error);
+  }
+}
+
+/**
+ * Handles password change HTTP requests from signed-in users
+ * 
+ * @param req - Express request object with authenticated user
+ * @param res - Express response object
+ * @param next - Express next function
+ */
+export async function changePasswordHandler(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { currentPassword, newPassword } = req.body as ChangePasswordRequest;
+    
+    // Call auth service to change the password and sign out other sessions
+    const result = await changePassword(req.user.id, { currentPassword, newPassword });
+    
+    // Send success response with the token pair that replaces the revoked one
+    sendSuccess(res, result, 'Password changed successfully');
+  } catch (error) {
+    // Forward any errors to error handling middleware
+    next(error);
+  }
+}
+
+/**
+ * Handles forgot password HTTP requests
+ * 
+ * @param req - Express request object
+ * @param res - Express response object
+ * @param next - Express next function
+ */
+export async function forgotPasswordHandler(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { email } = req.body as ForgotPasswordRequest;
+    
+    // Call auth service to email a reset code if the account exists
+    await requestPasswordReset(email);
+    
+    // Send the same response whether or not the email is registered
+    sendAccepted(res, null, 'If an account exists for this email, a reset code has been sent');
+  } catch (error) {
+    // Forward any errors to error handling middleware
+    next(error);
+  }
+}
+
+/**
+ * Handles password reset HTTP requests
+ * 
+ * @param req - Express request object
+ * @param res - Express response object
+ * @param next - Express next function
+ */
+export async function resetPasswordHandler(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { token, newPassword } = req.body as ResetPasswordRequest;
+    
+    // Call auth service to set the new password and revoke every session
+    await resetPassword(token, newPassword);
+    
+    // Send success response, the user signs in again with the new password
+    sendSuccess(res, null, 'Password reset successfully');
+  } catch (error) {
+    // Forward any errors to error handling middleware
+    next(error);
+  }
+}
+
+/**
+ * Handles requests starting two-factor enrollment of signed-in users
+ * 
+ * @param req - Express request object with authenticated user
+ * @param res - Express response object
+ * @param next - Express next function
+ */
+export async function setupTwoFactorHandler(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    // Call two-factor service to generate a new authenticator secret
+    const result = await setupTwoFactor(req.user.id);
+    
+    // Send success response with the secret and its QR code
+    sendSuccess(res, result, 'Scan the QR code with your authenticator app');
+  } catch (error) {
+    // Forward any errors to error handling middleware
+    next(error);
+  }
+}
+
+/**
+ * Handles requests enabling two-factor authentication for signed-in users
+ * 
+ * @param req - Express request object with authenticated user
+ * @param res - Express response object
+ * @param next - Express next function
+ */
+export async function enableTwoFactorHandler(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { code } = req.body as EnableTwoFactorRequest;
+    
+    // Call two-factor service to confirm the setup and issue recovery codes
+    const result = await enableTwoFactor(req.user.id, code);
+    
+    // Send success response with the recovery codes, which are only shown once
+    sendSuccess(res, result, 'Two-factor authentication enabled');
+  } catch (error) {
+    // Forward any errors to error handling middleware
+    next(error);
+  }
+}
+
+/**
+ * Handles requests disabling two-factor authentication for signed-in users
+ * 
+ * @param req - Express request object with authenticated user
+ * @param res - Express response object
+ * @param next - Express next function
+ */
+export async function disableTwoFactorHandler(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { password, code } = req.body as DisableTwoFactorRequest;
+    
+    // Call two-factor service, which checks the password and the code first
+    await disableTwoFactor(req.user.id, password, code);
+    
+    // Send success response
+    sendSuccess(res, null, 'Two-factor authentication disabled');
+  } catch (error) {
+    // Forward any errors to error handling middleware
+    next(error);
+  }
+}
+
 /**
  * Middleware to validate signup request data
  * 
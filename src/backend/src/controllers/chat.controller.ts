@@ -14,15 +14,20 @@ import { ChatService } from '../services/chat.service';
 import { 
   SendMessageRequest, 
   GetChatHistoryRequest,
-  GetConversationsRequest
+  GetConversationsRequest,
+  UpdateConversationRequest
 } from '../types/chat.types';
 import { AuthenticatedRequest } from '../types/auth.types';
 import { 
   sendSuccess, 
   sendCreated, 
   sendPaginated,
-  sendError
+  sendNoContent,
+  sendError,
+  initEventStream,
+  sendEvent
 } from '../utils/response.util';
+import { AppError } from '../utils/error.util';
 import logger from '../config/logger';
 import { connection } from '../config/database';
 
@@ -65,6 +70,84 @@ export async function handleSendMessage(
   }
 }
 
+/**
+ * Handles requests to send a message to the LLM and stream the response as Server-Sent Events
+ * 
+ * Emits 'delta' events with chunks of the response as they are generated, followed by a
+ * single 'done' event with the stored message details. Errors raised before anything has been
+ * streamed are passed to the error middleware; later errors are sent as an 'error' event.
+ * 
+ * @param req - Express request object with authenticated user
+ * @param res - Express response object
+ * @param next - Express next function
+ */
+export async function handleStreamMessage(
+  req: AuthenticatedRequest, 
+  res: Response, 
+  next: NextFunction
+): Promise<void> {
+  // Abort the LLM request if the client disconnects before the response is complete
+  const abortController = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) {
+      abortController.abort();
+    }
+  });
+  
+  // Open the event stream lazily so early errors still get a regular error response
+  const ensureStream = (): void => {
+    if (!res.headersSent) {
+      initEventStream(res);
+    }
+  };
+  
+  try {
+    logger.info('Processing streaming message request', { userId: req.user.id });
+    
+    // Extract message request data from request body
+    const messageRequest: SendMessageRequest = req.body;
+    
+    // Extract user ID from authenticated request
+    const userId = req.user.id;
+    
+    // Initialize ChatService with database connection
+    const chatService = new ChatService(connection);
+    
+    // Stream the LLM response to the client as it arrives
+    const result = await chatService.streamMessage(
+      messageRequest,
+      userId,
+      (delta: string) => {
+        ensureStream();
+        sendEvent(res, 'delta', { content: delta });
+      },
+      abortController.signal
+    );
+    
+    // Send the final event with the stored message and close the stream
+    ensureStream();
+    sendEvent(res, 'done', result);
+    res.end();
+  } catch (error) {
+    logger.error('Error processing streaming message request', { 
+      error: (error as Error).message,
+      stack: (error as Error).stack,
+      userId: req.user.id 
+    });
+    
+    // Nothing has been streamed yet, so use the regular error handling
+    if (!res.headersSent) {
+      return next(error);
+    }
+    
+    sendEvent(res, 'error', {
+      message: error instanceof AppError ? error.message : 'Failed to generate response',
+      code: error instanceof AppError ? error.errorCode : 'INTERNAL_SERVER_ERROR'
+    });
+    res.end();
+  }
+}
+
 /**
  * Handles requests to retrieve a user's conversation history
  * 
@@ -84,6 +167,9 @@ export async function handleGetConversations(
     const page = req.query.page ? parseInt(req.query.page as string) : 1;
     const limit = req.query.limit ? parseInt(req.query.limit as string) : 10;
     
+    // List archived conversations only when asked to
+    const archived = String(req.query.archived) === 'true';
+    
     // Extract user ID from authenticated request
     const userId = req.user.id;
     
@@ -93,7 +179,7 @@ export async function handleGetConversations(
     // Get user conversations with pagination
     const { conversations, total, page: currentPage } = await chatService.getUserConversations(
       userId, 
-      { page, limit }
+      { page, limit, archived }
     );
     
     // Send paginated response with conversations
@@ -212,6 +298,82 @@ export async function handleGetConversation(
   }
 }
 
+/**
+ * Handles requests to rename, archive or pin a conversation
+ * 
+ * @param req - Express request object with authenticated user
+ * @param res - Express response object
+ * @param next - Express next function
+ */
+export async function handleUpdateConversation(
+  req: AuthenticatedRequest, 
+  res: Response, 
+  next: NextFunction
+): Promise<void> {
+  try {
+    logger.info('Processing update conversation request', { 
+      userId: req.user.id,
+      conversationId: req.params.id
+    });
+    
+    // Extract the fields to update from request body
+    const updates: UpdateConversationRequest = req.body;
+    
+    // Initialize ChatService with database connection
+    const chatService = new ChatService(connection);
+    
+    // Update the conversation
+    const conversation = await chatService.updateConversation(req.params.id, req.user.id, updates);
+    
+    // Send success response with the updated conversation
+    sendSuccess(res, conversation, 'Conversation updated successfully');
+  } catch (error) {
+    logger.error('Error updating conversation', { 
+      error: (error as Error).message,
+      stack: (error as Error).stack,
+      userId: req.user.id,
+      conversationId: req.params.id
+    });
+    next(error);
+  }
+}
+
+/**
+ * Handles requests to delete a conversation together with its messages
+ * 
+ * @param req - Express request object with authenticated user
+ * @param res - Express response object
+ * @param next - Express next function
+ */
+export async function handleDeleteConversation(
+  req: AuthenticatedRequest, 
+  res: Response, 
+  next: NextFunction
+): Promise<void> {
+  try {
+    logger.info('Processing delete conversation request', { 
+      userId: req.user.id,
+      conversationId: req.params.id
+    });
+    
+    // Initialize ChatService with database connection
+    const chatService = new ChatService(connection);
+    
+    // Delete the conversation and its messages
+    await chatService.deleteConversation(req.params.id, req.user.id);
+    
+    sendNoContent(res);
+  } catch (error) {
+    logger.error('Error deleting conversation', { 
+      error: (error as Error).message,
+      stack: (error as Error).stack,
+      userId: req.user.id,
+      conversationId: req.params.id
+    });
+    next(error);
+  }
+}
+
 /**
  * Handles requests to retrieve message history for a specific conversation
  * 
@@ -0,0 +1,145 @@
+/**
+ * File Controller Module
+ *
+ * This module handles HTTP requests for downloading files stored in GridFS, such as meal
+ * photos, lab result images and symptom voice recordings. Files are streamed to the client
+ * with caching and byte range support so audio and large images can be fetched in parts.
+ *
+ * @module controllers/file.controller
+ */
+
+import { Response, NextFunction } from 'express'; // express version ^4.18.2
+import { Readable } from 'stream';
+import { FileService } from '../services/file.service';
+import { recordAuditEvent } from '../services/audit.service';
+import { AuthenticatedRequest } from '../types/auth.types';
+import { AuditAction, AuditResourceType } from '../types/audit.types';
+import { AppError } from '../utils/error.util';
+import { getAuditContext } from '../utils/audit.util';
+import logger from '../config/logger';
+
+/**
+ * Namespace containing file controller functions
+ */
+export const FileController = {
+  /**
+   * Streams a file owned by the authenticated user
+   *
+   * Supports ?thumbnail=true for images, conditional requests via ETag and single
+   * byte ranges via the Range header. Downloads are recorded in the audit log.
+   *
+   * @param req - Express request object with authenticated user data
+   * @param res - Express response object
+   * @param next - Express next function
+   */
+  getFile: async (
+    req: AuthenticatedRequest,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      // Extract user ID, file ID and options from the request
+      const userId = req.user.id;
+      const fileId = req.params.id;
+      const thumbnail = String(req.query.thumbnail) === 'true';
+
+      // Resolve the file to serve, checking that it belongs to the user
+      const fileService = new FileService();
+      const file = await fileService.getFileForUser(fileId, userId, thumbnail);
+
+      // Stored files never change, so the ID and length identify the content
+      const etag = `"${file._id.toString()}-${file.length}"`;
+      res.setHeader('ETag', etag);
+
+      // Answer conditional requests for content the client already has
+      if (req.fresh) {
+        res.status(304).end();
+        return;
+      }
+
+      // Honour a single byte range, unless If-Range shows the client's copy is outdated
+      const ifRange = req.headers['if-range'];
+      const ranges = !ifRange || ifRange === etag ? req.range(file.length) : undefined;
+
+      if (ranges === -1) {
+        res.setHeader('Content-Range', `bytes */${file.length}`);
+        throw new AppError('Requested range not satisfiable', 416, 'RANGE_NOT_SATISFIABLE');
+      }
+
+      // Malformed or multi-part ranges are ignored and the whole file is served
+      const range = Array.isArray(ranges) && ranges.type === 'bytes' && ranges.length === 1
+        ? ranges[0]
+        : undefined;
+
+      // Open the download stream for the resolved file (already the thumbnail if requested)
+      // before committing to a status, so retrieval errors still get a JSON error response
+      let stream: Readable | undefined;
+      if (req.method !== 'HEAD') {
+        const result = await fileService.getFileById(file._id.toString(), {
+          asStream: true,
+          thumbnail: false,
+          width: 0,
+          height: 0,
+          ...(range && { start: range.start, end: range.end })
+        }) as { file: unknown; stream: Readable };
+        stream = result.stream;
+
+        // Players fetch audio in many ranges, so only the first one counts as a download
+        if (!range || range.start === 0) {
+          await recordAuditEvent(getAuditContext(req), {
+            action: AuditAction.DOWNLOAD,
+            resourceType: AuditResourceType.FILE,
+            resourceId: fileId,
+            ownerId: userId,
+            ...(file.metadata.healthDataId && { healthDataId: file.metadata.healthDataId.toString() })
+          });
+        }
+      }
+
+      res.setHeader('Content-Type', file.contentType || file.metadata.mimetype || 'application/octet-stream');
+      res.setHeader('Cache-Control', 'private, max-age=86400');
+      res.setHeader('Accept-Ranges', 'bytes');
+
+      if (range) {
+        res.status(206);
+        res.setHeader('Content-Range', `bytes ${range.start}-${range.end}/${file.length}`);
+        res.setHeader('Content-Length', range.end - range.start + 1);
+      } else {
+        res.status(200);
+        res.setHeader('Content-Length', file.length);
+      }
+
+      // HEAD requests only need the headers
+      if (!stream) {
+        res.end();
+        return;
+      }
+
+      // Stop reading from GridFS if the client goes away, e.g. when seeking in audio
+      res.on('close', () => stream.destroy());
+
+      stream.on('error', (error: Error) => {
+        logger.error('Error streaming file', {
+          error: error.message,
+          fileId,
+          userId
+        });
+
+        // Headers are already sent, so the only option left is to abort the response
+        res.destroy(error);
+      });
+
+      stream.pipe(res);
+    } catch (error) {
+      // Log error
+      logger.error('Error retrieving file', {
+        error: error instanceof Error ? error.message : String(error),
+        fileId: req.params?.id,
+        userId: req.user?.id
+      });
+
+      // Pass error to next middleware for centralized error handling
+      next(error);
+    }
+  }
+};
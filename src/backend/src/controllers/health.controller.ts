@@ -5,7 +5,9 @@ import {
   CreateHealthDataRequest,
   GetHealthDataRequest,
   HealthDataResponse,
-  HealthContext
+  HealthContext,
+  HealthInsightsRequest,
+  AnalyteHistoryRequest
 } from '../types/health.types';
 import { AuthenticatedRequest } from '../types/auth.types';
 import {
@@ -16,7 +18,8 @@ import {
   sendError
 } from '../utils/response.util';
 import { NotFoundError, BadRequestError } from '../utils/error.util';
-import { logger } from '../config/logger';
+import { getAuditContext } from '../utils/audit.util';
+import { logger } from '../config';
 
 /**
  * Controller class that handles HTTP requests for health data operations
@@ -31,6 +34,18 @@ export class HealthController {
    */
   constructor(connection: mongoose.Connection) {
     this.healthService = new HealthService(connection);
+    
+    // Bind handlers so they can be passed to the router directly
+    this.createHealthData = this.createHealthData.bind(this);
+    this.getHealthDataById = this.getHealthDataById.bind(this);
+    this.getHealthData = this.getHealthData.bind(this);
+    this.updateHealthData = this.updateHealthData.bind(this);
+    this.deleteHealthData = this.deleteHealthData.bind(this);
+    this.getHealthContext = this.getHealthContext.bind(this);
+    this.getHealthInsights = this.getHealthInsights.bind(this);
+    this.getAnalyteHistory = this.getAnalyteHistory.bind(this);
+    this.extractLabResult = this.extractLabResult.bind(this);
+    
     logger.info('Health controller initialized');
   }
 
@@ -56,7 +71,8 @@ export class HealthController {
       const createdHealthData = await this.healthService.createHealthData(
         healthDataRequest,
         userId,
-        files
+        files,
+        getAuditContext(req)
       );
       
       sendCreated(res, createdHealthData, 'Health data created successfully');
@@ -83,7 +99,7 @@ export class HealthController {
       
       logger.info('Getting health data by ID', { id, userId });
       
-      const healthData = await this.healthService.getHealthDataById(id, userId);
+      const healthData = await this.healthService.getHealthDataById(id, userId, getAuditContext(req));
       
       if (!healthData) {
         throw new NotFoundError(`Health data with ID ${id} not found`, 'healthData');
@@ -111,19 +127,14 @@ export class HealthController {
       logger.info('Getting health data list', { userId: req.user.id });
       
       const userId = req.user.id;
-      const { date, type, search, page, limit } = req.query;
       
-      const options: GetHealthDataRequest = {
-        date: date as string,
-        type: type as any,
-        search: search as string,
-        page: page ? parseInt(page as string, 10) : undefined,
-        limit: limit ? parseInt(limit as string, 10) : undefined
-      };
+      // Query parameters have already been converted by the validation middleware
+      const options = req.query as unknown as GetHealthDataRequest;
       
       const { items, total, page: currentPage } = await this.healthService.getHealthData(
         options,
-        userId
+        userId,
+        getAuditContext(req)
       );
       
       sendPaginated(
@@ -164,7 +175,8 @@ export class HealthController {
         id,
         userId,
         updateData,
-        files
+        files,
+        getAuditContext(req)
       );
       
       if (!updatedHealthData) {
@@ -195,7 +207,7 @@ export class HealthController {
       
       logger.info('Deleting health data', { id, userId });
       
-      const deleted = await this.healthService.deleteHealthData(id, userId);
+      const deleted = await this.healthService.deleteHealthData(id, userId, getAuditContext(req));
       
       if (!deleted) {
         throw new NotFoundError(`Health data with ID ${id} not found`, 'healthData');
@@ -232,4 +244,94 @@ export class HealthController {
       next(error);
     }
   }
+
+  /**
+   * Retrieves aggregated health insights for charts over a date range
+   * 
+   * @param req - Authenticated request object
+   * @param res - Express response object
+   * @param next - Express next function
+   */
+  async getHealthInsights(
+    req: AuthenticatedRequest,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const userId = req.user.id;
+      
+      // Query parameters have already been converted by the validation middleware
+      const { startDate, endDate, timezone } = req.query as unknown as HealthInsightsRequest;
+      
+      logger.info('Getting health insights', { userId, startDate, endDate, timezone });
+      
+      const insights = await this.healthService.getHealthInsights(userId, {
+        startDate,
+        endDate,
+        timezone
+      });
+      
+      sendSuccess(res, insights, 'Health insights retrieved successfully');
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Retrieves the history of a single lab analyte across the user's lab results
+   * 
+   * @param req - Authenticated request object
+   * @param res - Express response object
+   * @param next - Express next function
+   */
+  async getAnalyteHistory(
+    req: AuthenticatedRequest,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const userId = req.user.id;
+      const analyteKey = req.params.analyte;
+      
+      // Query parameters have already been converted by the validation middleware
+      const { startDate, endDate } = req.query as unknown as AnalyteHistoryRequest;
+      
+      logger.info('Getting analyte history', { userId, analyteKey, startDate, endDate });
+      
+      const history = await this.healthService.getAnalyteHistory(userId, analyteKey, {
+        startDate,
+        endDate
+      });
+      
+      sendSuccess(res, history, 'Analyte history retrieved successfully');
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Reads the analytes from a lab result's photo with OCR and returns them as a draft
+   * 
+   * @param req - Authenticated request object
+   * @param res - Express response object
+   * @param next - Express next function
+   */
+  async extractLabResult(
+    req: AuthenticatedRequest,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const id = req.params.id;
+      const userId = req.user.id;
+      
+      logger.info('Extracting lab result', { id, userId });
+      
+      const draft = await this.healthService.extractLabResult(id, userId, getAuditContext(req));
+      
+      sendSuccess(res, draft, 'Lab result extracted successfully');
+    } catch (error) {
+      next(error);
+    }
+  }
 }
\ No newline at end of file
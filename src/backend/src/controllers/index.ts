@@ -8,6 +8,9 @@
  * @module controllers
  */
 
+// Import admin controller namespace
+import { AdminController } from './admin.controller';
+
 // Import authentication controller functions
 import {
   signupHandler,
@@ -23,12 +26,20 @@ import {
   handleGetConversations,
   handleCreateConversation,
   handleGetConversation,
+  handleUpdateConversation,
+  handleDeleteConversation,
   handleGetChatHistory
 } from './chat.controller';
 
+// Import file controller namespace
+import { FileController } from './file.controller';
+
 // Import health data controller class
 import { HealthController } from './health.controller';
 
+// Import metrics controller namespace
+import { MetricsController } from './metrics.controller';
+
 // Import user controller namespace
 import { UserController } from './user.controller';
 
@@ -53,11 +64,22 @@ export const ChatController = {
   handleGetConversations,
   handleCreateConversation,
   handleGetConversation,
+  handleUpdateConversation,
+  handleDeleteConversation,
   handleGetChatHistory
 };
 
+// Re-export AdminController namespace
+export { AdminController };
+
+// Re-export FileController namespace
+export { FileController };
+
 // Re-export HealthController class
 export { HealthController };
 
+// Re-export MetricsController namespace
+export { MetricsController };
+
 // Re-export UserController namespace
 export { UserController };
\ No newline at end of file
@@ -0,0 +1,104 @@
+/**
+ * Metrics Controller Module
+ *
+ * This module handles HTTP requests for Prometheus metrics. It exposes the metrics recorded
+ * by the backend and those reported by the mobile app in the Prometheus text format, and
+ * records timing beacons sent by the mobile app.
+ *
+ * @module controllers/metrics.controller
+ */
+
+import { Request, Response, NextFunction } from 'express'; // express version ^4.18.2
+import { Registry } from 'prom-client'; // ^14.2.0
+import { metricsRegistry, mobileMetricsRegistry, recordMobileBeacons } from '../utils/metrics.util';
+import { sendNoContent } from '../utils/response.util';
+import { MobileMetricsRequest } from '../types/metrics.types';
+import logger from '../config/logger';
+
+/**
+ * Sends the current values of a registry in the Prometheus text format
+ *
+ * @param registry - Registry to expose
+ * @param res - Express response object
+ */
+async function sendRegistry(registry: Registry, res: Response): Promise<void> {
+  const metrics = await registry.metrics();
+  res.set('Content-Type', registry.contentType);
+  res.status(200).send(metrics);
+}
+
+/**
+ * Namespace containing metrics controller functions
+ */
+export const MetricsController = {
+  /**
+   * Exposes the backend's metrics for Prometheus to scrape
+   *
+   * @param req - Express request object
+   * @param res - Express response object
+   * @param next - Express next function
+   */
+  getMetrics: async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      await sendRegistry(metricsRegistry, res);
+    } catch (error) {
+      logger.error('Error collecting metrics', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+      next(error);
+    }
+  },
+
+  /**
+   * Exposes the metrics reported by the mobile app for Prometheus to scrape
+   *
+   * @param req - Express request object
+   * @param res - Express response object
+   * @param next - Express next function
+   */
+  getMobileMetrics: async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      await sendRegistry(mobileMetricsRegistry, res);
+    } catch (error) {
+      logger.error('Error collecting mobile metrics', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+      next(error);
+    }
+  },
+
+  /**
+   * Records a batch of timing beacons sent by the mobile app
+   *
+   * @param req - Express request object with validated beacons in the body
+   * @param res - Express response object
+   * @param next - Express next function
+   */
+  reportMobileMetrics: (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): void => {
+    try {
+      const { beacons } = req.body as MobileMetricsRequest;
+
+      recordMobileBeacons(beacons);
+      logger.debug('Mobile metrics recorded', { count: beacons.length });
+
+      sendNoContent(res);
+    } catch (error) {
+      logger.error('Error recording mobile metrics', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+      next(error);
+    }
+  }
+};
@@ -2,16 +2,24 @@
  * User Controller Module
  * 
  * This module handles HTTP requests for user profile management in the Health Advisor
- * application. It implements API endpoints for retrieving user profile information and
- * serves as the interface between Express routes and the user service layer.
+ * application. It implements API endpoints for retrieving and updating user profile information,
+ * exporting the user's data, viewing its access history and deleting the account, and serves
+ * as the interface between Express routes and the user, data export, audit and account
+ * deletion service layers.
  * 
  * @module controllers/user.controller
  */
 
 import { Request, Response, NextFunction } from 'express'; // express version ^4.18.2
-import { getUserProfile } from '../services/user.service';
+import { getUserProfile, updateUserProfile } from '../services/user.service';
+import { requestDataExport, getDataExport, getDataExportArchive } from '../services/data-export.service';
+import { deleteAccount } from '../services/account-deletion.service';
+import { getUserAuditLog } from '../services/audit.service';
 import { AuthenticatedRequest } from '../types/auth.types';
-import { sendSuccess, sendError } from '../utils/response.util';
+import { DeleteAccountRequest } from '../types/account-deletion.types';
+import { UpdateUserProfileRequest } from '../types/user.types';
+import { GetAuditLogRequest } from '../types/audit.types';
+import { sendSuccess, sendAccepted, sendNoContent, sendPaginated } from '../utils/response.util';
 import logger from '../config/logger';
 
 /**
@@ -50,6 +58,196 @@ export const UserController = {
       });
       
       // Pass error to next middleware for centralized error handling
+      next(error);
+    }
+  },
+
+  /**
+   * Updates the authenticated user's profile with the validated fields of the request body
+   * 
+   * @param req - Express request object with authenticated user data and profile fields
+   * @param res - Express response object
+   * @param next - Express next function
+   */
+  updateProfile: async (
+    req: AuthenticatedRequest,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const userProfile = await updateUserProfile(req.user.id, req.body as UpdateUserProfileRequest);
+      
+      sendSuccess(res, userProfile, 'User profile updated successfully');
+    } catch (error) {
+      logger.error('Error updating user profile', {
+        error: error instanceof Error ? error.message : String(error),
+        userId: req.user?.id
+      });
+      
+      next(error);
+    }
+  },
+
+  /**
+   * Starts an export of the authenticated user's data, or returns the export already
+   * in progress. The client polls the export status until the archive is ready.
+   * 
+   * @param req - Express request object with authenticated user data
+   * @param res - Express response object
+   * @param next - Express next function
+   */
+  requestExport: async (
+    req: AuthenticatedRequest,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const dataExport = await requestDataExport(req.user.id);
+      
+      sendAccepted(res, dataExport, 'Data export started');
+    } catch (error) {
+      logger.error('Error requesting data export', {
+        error: error instanceof Error ? error.message : String(error),
+        userId: req.user?.id
+      });
+      
+      next(error);
+    }
+  },
+
+  /**
+   * Retrieves the status of one of the authenticated user's data exports
+   * 
+   * @param req - Express request object with authenticated user data and export ID
+   * @param res - Express response object
+   * @param next - Express next function
+   */
+  getExport: async (
+    req: AuthenticatedRequest,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const dataExport = await getDataExport(req.user.id, req.params.id);
+      
+      sendSuccess(res, dataExport, 'Data export retrieved successfully');
+    } catch (error) {
+      logger.error('Error retrieving data export', {
+        error: error instanceof Error ? error.message : String(error),
+        exportId: req.params?.id,
+        userId: req.user?.id
+      });
+      
+      next(error);
+    }
+  },
+
+  /**
+   * Streams the ZIP archive of a completed data export as an attachment
+   * 
+   * @param req - Express request object with authenticated user data and export ID
+   * @param res - Express response object
+   * @param next - Express next function
+   */
+  downloadExport: async (
+    req: AuthenticatedRequest,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const userId = req.user.id;
+      const { stream, filename, size } = await getDataExportArchive(userId, req.params.id);
+      
+      res.status(200);
+      res.setHeader('Content-Type', 'application/zip');
+      res.setHeader('Content-Length', size);
+      res.setHeader('Cache-Control', 'private, no-store');
+      res.attachment(filename);
+      
+      // Stop reading from GridFS if the client goes away
+      res.on('close', () => stream.destroy());
+      
+      stream.on('error', (error: Error) => {
+        logger.error('Error streaming data export', {
+          error: error.message,
+          exportId: req.params.id,
+          userId
+        });
+        
+        // Headers are already sent, so the only option left is to abort the response
+        res.destroy(error);
+      });
+      
+      logger.info('Data export downloaded', { userId, exportId: req.params.id });
+      stream.pipe(res);
+    } catch (error) {
+      logger.error('Error downloading data export', {
+        error: error instanceof Error ? error.message : String(error),
+        exportId: req.params?.id,
+        userId: req.user?.id
+      });
+      
+      next(error);
+    }
+  },
+
+  /**
+   * Retrieves the access history of the authenticated user's health records and files:
+   * who read, created, changed, deleted or downloaded them, when and from where
+   * 
+   * @param req - Express request object with authenticated user data and filters
+   * @param res - Express response object
+   * @param next - Express next function
+   */
+  getAuditLog: async (
+    req: AuthenticatedRequest,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      // Query parameters have already been converted by the validation middleware
+      const request = req.query as unknown as GetAuditLogRequest;
+      const { items, total, page, limit } = await getUserAuditLog(req.user.id, request);
+      
+      sendPaginated(res, items, total, page, limit, 'Audit log retrieved successfully');
+    } catch (error) {
+      logger.error('Error retrieving audit log', {
+        error: error instanceof Error ? error.message : String(error),
+        userId: req.user?.id
+      });
+      
+      next(error);
+    }
+  },
+
+  /**
+   * Permanently deletes the authenticated user's account and all of their data after
+   * the password has been re-entered. Repeating the request after a failure resumes
+   * the deletion.
+   * 
+   * @param req - Express request object with authenticated user data and password
+   * @param res - Express response object
+   * @param next - Express next function
+   */
+  deleteAccount: async (
+    req: AuthenticatedRequest,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const { password } = req.body as DeleteAccountRequest;
+      
+      await deleteAccount(req.user.id, password);
+      
+      logger.info('User account deleted', { userId: req.user.id });
+      
+      sendNoContent(res);
+    } catch (error) {
+      logger.error('Error deleting user account', {
+        error: error instanceof Error ? error.message : String(error),
+        userId: req.user?.id
+      });
+      
       next(error);
     }
   }
@@ -3,15 +3,17 @@
  * 
  * Provides middleware functions for authenticating requests using JWT tokens.
  * Includes both required and optional authentication mechanisms for different
- * route security needs.
+ * route security needs, and role checks for routes restricted to administrators.
  * 
  * @module middlewares/auth.middleware
  */
 
-import { Request, Response, NextFunction } from 'express'; // ^4.18.2
-import { verifyToken, extractTokenFromHeader } from '../utils/jwt.util';
-import { AuthenticatedRequest, AuthErrorType } from '../types/auth.types';
-import { AuthenticationError } from '../utils/error.util';
+import { Request, RequestHandler, Response, NextFunction } from 'express'; // ^4.18.2
+import { verifyToken, extractTokenFromHeader, isTokenIssuedBefore } from '../utils/jwt.util';
+import { AuthenticatedRequest, AuthErrorType, TokenType } from '../types/auth.types';
+import { UserRole } from '../types/user.types';
+import { AuthenticationError, ForbiddenError } from '../utils/error.util';
+import { findById } from '../repositories/user.repository';
 import logger from '../config/logger';
 
 /**
@@ -20,6 +22,8 @@ import logger from '../config/logger';
  * This middleware extracts the JWT token from the Authorization header,
  * verifies it, and attaches the user information to the request object.
  * If authentication fails, it returns an appropriate error response.
+ * Tokens of deleted users and tokens issued before the user's last password
+ * change are rejected, so the user is looked up on every request.
  * 
  * @param req - Express request object
  * @param res - Express response object
@@ -47,9 +51,31 @@ export async function authenticate(
     // Verify the token
     const payload = await verifyToken(token);
     
+    // Refresh tokens and two-factor challenges can only be exchanged for access tokens,
+    // not used in their place
+    if (payload.tokenType && payload.tokenType !== TokenType.ACCESS) {
+      logger.debug('Authentication failed: Non-access token used as access token', {
+        tokenType: payload.tokenType
+      });
+      throw new AuthenticationError(
+        'Invalid token',
+        AuthErrorType.INVALID_TOKEN
+      );
+    }
+    
     // Extract user information from the token payload
     const { userId, email } = payload;
     
+    // Changing or resetting the password ends every session started before it
+    const user = await findById(userId);
+    if (!user || isTokenIssuedBefore(payload, user.passwordChangedAt)) {
+      logger.debug('Authentication failed: Token issued before password change or user deleted', { userId });
+      throw new AuthenticationError(
+        'Session has ended, please log in again',
+        AuthErrorType.TOKEN_EXPIRED
+      );
+    }
+    
     // Attach user object to the request for use in subsequent middleware/handlers
     (req as AuthenticatedRequest).user = {
       id: userId,
@@ -99,9 +125,23 @@ export async function optionalAuthenticate(
       // Attempt to verify the token
       const payload = await verifyToken(token);
       
+      // Refresh tokens and two-factor challenges can only be exchanged for access tokens,
+      // not used in their place
+      if (payload.tokenType && payload.tokenType !== TokenType.ACCESS) {
+        logger.debug('Optional authentication: Non-access token ignored');
+        return next();
+      }
+      
       // Extract user information from the token payload
       const { userId, email } = payload;
       
+      // Sessions ended by a password change count as unauthenticated
+      const user = await findById(userId);
+      if (!user || isTokenIssuedBefore(payload, user.passwordChangedAt)) {
+        logger.debug('Optional authentication: Token issued before password change ignored');
+        return next();
+      }
+      
       // Attach user object to the request
       (req as AuthenticatedRequest).user = {
         id: userId,
@@ -126,4 +166,48 @@ export async function optionalAuthenticate(
     });
     next(error);
   }
-}
\ No newline at end of file
+}
+/**
+ * Creates middleware that only lets users with one of the given roles through
+ * 
+ * Must run after authenticate. Roles aren't part of the token, so the user is looked up
+ * on every request and a role change takes effect immediately.
+ * 
+ * @param roles - Roles allowed to access the route
+ * @returns Middleware that passes a ForbiddenError on for users without one of the roles
+ */
+export function requireRole(...roles: UserRole[]) {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const { id } = (req as AuthenticatedRequest).user;
+      const user = await findById(id);
+      
+      if (!user || !roles.includes(user.role)) {
+        logger.warn('Access denied: missing role', { userId: id, roles });
+        throw new ForbiddenError('You do not have permission to access this resource');
+      }
+      
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+/**
+ * Adapts a handler of authenticated requests to the handler type Express expects
+ * 
+ * Must run after authenticate. Express types the user of a request as optional, while
+ * handlers behind authenticate can rely on it being set.
+ * 
+ * @param handler - Handler that reads the authenticated user from the request
+ * @returns The handler as Express middleware
+ */
+export function withAuthenticatedUser(
+  handler: (req: AuthenticatedRequest, res: Response, next: NextFunction) => Promise<void>
+): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    // Handlers pass their errors to next, so the promise is not awaited
+    void handler(req as AuthenticatedRequest, res, next);
+  };
+}
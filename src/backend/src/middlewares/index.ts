@@ -12,7 +12,8 @@
 // Authentication middleware - JWT token verification and user extraction
 import { 
   authenticate, 
-  optionalAuthenticate 
+  optionalAuthenticate,
+  requireRole
 } from './auth.middleware';
 
 // Error handling middleware - Centralized error processing
@@ -32,6 +33,9 @@ import {
   handleUploadError 
 } from './file.middleware';
 
+// Metrics middleware - Request latency and status for Prometheus
+import { metricsMiddleware } from './metrics.middleware';
+
 // Rate limiting middleware - Preventing API abuse
 import { 
   rateLimitMiddleware, 
@@ -53,6 +57,7 @@ export {
   // Authentication middleware
   authenticate,
   optionalAuthenticate,
+  requireRole,
   
   // Error handling middleware
   errorMiddleware,
@@ -67,6 +72,9 @@ export {
   healthDataUpload,
   handleUploadError,
   
+  // Metrics middleware
+  metricsMiddleware,
+  
   // Rate limiting middleware
   rateLimitMiddleware,
   authRateLimitMiddleware,
@@ -0,0 +1,52 @@
+/**
+ * Metrics Middleware
+ * 
+ * This middleware records the latency and status code of every HTTP request in the
+ * http_request_duration_seconds histogram scraped from /api/metrics. Requests are labelled
+ * with their route pattern rather than their path, so that e.g. every health record
+ * lookup is counted under /api/health/:id.
+ * 
+ * @module middlewares/metrics.middleware
+ */
+
+import { Request, Response, NextFunction } from 'express'; // ^4.18.2
+import { httpRequestDuration } from '../utils/metrics.util';
+
+// Route label for requests that did not match any route, e.g. 404s from scanners
+const UNMATCHED_ROUTE = 'unmatched';
+
+/**
+ * Gets the route pattern that handled a request
+ * 
+ * @param req - Express request object
+ * @returns Route pattern including the router mount path, e.g. /api/health/:id
+ */
+export function getRouteLabel(req: Request): string {
+  if (!req.route) {
+    return UNMATCHED_ROUTE;
+  }
+
+  const routePath = String((req.route as { path: string | RegExp }).path);
+  return `${req.baseUrl}${routePath === '/' && req.baseUrl ? '' : routePath}`;
+}
+
+/**
+ * Starts a timer for each request and records it once the response has been sent
+ * 
+ * @param req - Express request object
+ * @param res - Express response object
+ * @param next - Express next function
+ */
+export function metricsMiddleware(req: Request, res: Response, next: NextFunction): void {
+  const endTimer = httpRequestDuration.startTimer();
+
+  res.on('finish', () => {
+    endTimer({
+      method: req.method,
+      route: getRouteLabel(req),
+      status_code: String(res.statusCode)
+    });
+  });
+
+  next();
+}
@@ -0,0 +1,85 @@
+/**
+ * Account Deletion Model for MongoDB
+ *
+ * This module defines the Mongoose schema and model for account deletions. Each document
+ * tracks the steps of one user's data purge, so that a deletion interrupted by a failure
+ * resumes where it stopped, and remains afterwards as the audit record of the deletion.
+ *
+ * @module models/account-deletion.model
+ */
+
+import mongoose, { Schema } from 'mongoose'; // ^7.0.0
+import {
+  AccountDeletionDocument,
+  AccountDeletionStatus,
+  AccountDeletionStep
+} from '../types/account-deletion.types';
+
+/**
+ * Mongoose schema for the AccountDeletion collection
+ */
+export const accountDeletionSchema = new Schema<AccountDeletionDocument>(
+  {
+    // User whose account is deleted - one record per user
+    userId: {
+      type: Schema.Types.ObjectId,
+      required: true,
+      unique: true
+    },
+
+    // SHA-256 hash of the user's email address, so the record holds no personal data
+    emailHash: {
+      type: String,
+      required: true,
+      index: true
+    },
+
+    // Overall state of the deletion
+    status: {
+      type: String,
+      enum: Object.values(AccountDeletionStatus),
+      required: true,
+      default: AccountDeletionStatus.IN_PROGRESS
+    },
+
+    // Steps that have finished and are skipped when the deletion resumes
+    completedSteps: {
+      type: [String],
+      enum: Object.values(AccountDeletionStep),
+      default: []
+    },
+
+    // Number of documents or files removed by each step
+    deletedCounts: {
+      type: Schema.Types.Mixed,
+      default: {}
+    },
+
+    // Number of times the deletion was started or resumed
+    attempts: {
+      type: Number,
+      default: 0
+    },
+
+    // Reason the last attempt failed
+    error: {
+      type: String
+    },
+
+    // When the last step finished
+    completedAt: {
+      type: Date
+    }
+  },
+  {
+    timestamps: true,
+    minimize: false
+  }
+);
+
+/**
+ * AccountDeletion model for the MongoDB accountdeletions collection
+ */
+const AccountDeletion = mongoose.model<AccountDeletionDocument>('AccountDeletion', accountDeletionSchema);
+
+export default AccountDeletion;
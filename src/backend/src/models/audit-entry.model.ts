@@ -0,0 +1,128 @@
+/**
+ * Audit Entry Model for MongoDB
+ *
+ * This module defines the Mongoose schema and model for the audit log of access to and
+ * changes of health records and their files. The collection is append-only: entries can
+ * be inserted but not changed or removed through the model, and they are kept when the
+ * records or the account they describe are deleted. Entries hold no record contents,
+ * only which fields an update changed.
+ *
+ * @module models/audit-entry.model
+ */
+
+import mongoose, { Schema } from 'mongoose'; // ^7.0.0
+import { AuditAction, AuditEntryDocument, AuditResourceType } from '../types/audit.types';
+import { ForbiddenError } from '../utils/error.util';
+
+/**
+ * Mongoose schema for a field changed by an update
+ */
+const auditFieldChangeSchema = new Schema(
+  {
+    field: {
+      type: String,
+      required: true
+    },
+    before: {
+      type: Schema.Types.Mixed
+    },
+    after: {
+      type: Schema.Types.Mixed
+    }
+  },
+  { _id: false }
+);
+
+/**
+ * Mongoose schema for the AuditEntry collection
+ */
+export const auditEntrySchema = new Schema<AuditEntryDocument>(
+  {
+    // User who performed the action
+    actorId: {
+      type: Schema.Types.ObjectId,
+      required: true
+    },
+
+    // User the resource belongs to, whose access history the entry is part of
+    ownerId: {
+      type: Schema.Types.ObjectId,
+      required: true
+    },
+
+    action: {
+      type: String,
+      enum: Object.values(AuditAction),
+      required: true
+    },
+
+    resourceType: {
+      type: String,
+      enum: Object.values(AuditResourceType),
+      required: true
+    },
+
+    resourceId: {
+      type: Schema.Types.ObjectId,
+      required: true
+    },
+
+    // Health record a file is attached to
+    healthDataId: {
+      type: Schema.Types.ObjectId
+    },
+
+    ip: {
+      type: String
+    },
+
+    userAgent: {
+      type: String,
+      maxlength: 500
+    },
+
+    changes: {
+      type: [auditFieldChangeSchema],
+      default: []
+    }
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false }
+  }
+);
+
+// Access history of a user, newest first
+auditEntrySchema.index({ ownerId: 1, createdAt: -1 });
+// History of a single record or file
+auditEntrySchema.index({ resourceId: 1, createdAt: -1 });
+// Actions of a user, e.g. an administrator
+auditEntrySchema.index({ actorId: 1, createdAt: -1 });
+
+// Entries are append-only, so refuse any change to stored ones
+auditEntrySchema.pre('save', function (next) {
+  next(this.isNew ? undefined : new ForbiddenError('Audit entries cannot be changed'));
+});
+
+auditEntrySchema.pre(
+  [
+    'updateOne',
+    'updateMany',
+    'findOneAndUpdate',
+    'replaceOne',
+    'findOneAndReplace',
+    'deleteOne',
+    'deleteMany',
+    'findOneAndDelete',
+    'findOneAndRemove'
+  ],
+  function (next) {
+    next(new ForbiddenError('Audit entries cannot be changed'));
+  }
+);
+
+/**
+ * AuditEntry model for the MongoDB auditentries collection
+ */
+const AuditEntry = mongoose.model<AuditEntryDocument>('AuditEntry', auditEntrySchema);
+
+export default AuditEntry;
@@ -1,5 +1,5 @@
 import mongoose, { Schema, Model } from 'mongoose'; // ^7.0.3
-import { ChatConversation } from '../types/chat.types';
+import { ChatConversation, ConversationTitleSource, UpdateConversationRequest } from '../types/chat.types';
 
 /**
  * MongoDB schema for chat conversations between users and the LLM health advisor
@@ -17,6 +17,25 @@ const ChatConversationSchema = new Schema<ChatConversation>({
     required: true,
     trim: true
   },
+  titleSource: {
+    type: String,
+    enum: Object.values(ConversationTitleSource),
+    required: true,
+    default: ConversationTitleSource.DEFAULT
+  },
+  titleMessageCount: {
+    type: Number,
+    required: true,
+    default: 0 // Number of messages in the conversation when its title was generated
+  },
+  summary: {
+    type: String,
+    default: '' // Rolling summary of the messages too old to be sent to the LLM in full
+  },
+  summarizedUntil: {
+    type: Date,
+    default: null // Timestamp of the newest message included in the summary
+  },
   startedAt: {
     type: Date,
     required: true,
@@ -27,6 +46,16 @@ const ChatConversationSchema = new Schema<ChatConversation>({
     required: true,
     default: Date.now,
     index: true // Index for sorting by last message time
+  },
+  archived: {
+    type: Boolean,
+    required: true,
+    default: false
+  },
+  pinned: {
+    type: Boolean,
+    required: true,
+    default: false
   }
 }, {
   timestamps: true // Automatically adds createdAt and updatedAt fields
@@ -35,35 +64,69 @@ const ChatConversationSchema = new Schema<ChatConversation>({
 // Add compound index for more efficient queries with sorting
 ChatConversationSchema.index({ userId: 1, lastMessageAt: -1 });
 
+// Index for listing active or archived conversations with pinned ones first
+ChatConversationSchema.index({ userId: 1, archived: 1, pinned: -1, lastMessageAt: -1 });
+
+/**
+ * Builds the filter matching archived or active conversations
+ * Conversations created before archiving was added have no archived field and count as active
+ * @param archived - Whether to match archived conversations instead of active ones
+ * @returns Filter on the archived field
+ */
+function archivedFilter(archived?: boolean): boolean | { $ne: boolean } {
+  return archived ? true : { $ne: true };
+}
+
 /**
  * Interface for the ChatConversation model with static methods
  */
 interface ChatConversationModel extends Model<ChatConversation> {
-  findByUserId(userId: string, options?: { page?: number; limit?: number }): Promise<ChatConversation[]>;
+  findByUserId(
+    userId: string,
+    options?: { page?: number; limit?: number; archived?: boolean }
+  ): Promise<ChatConversation[]>;
   findById(conversationId: string, userId: string): Promise<ChatConversation | null>;
   createConversation(userId: string, title: string): Promise<ChatConversation>;
   updateLastMessageTime(conversationId: string): Promise<ChatConversation | null>;
   updateTitle(conversationId: string, userId: string, title: string): Promise<ChatConversation | null>;
-  countUserConversations(userId: string): Promise<number>;
+  updateGeneratedTitle(
+    conversationId: string,
+    userId: string,
+    title: string,
+    messageCount: number
+  ): Promise<ChatConversation | null>;
+  updateConversation(
+    conversationId: string,
+    userId: string,
+    updates: UpdateConversationRequest
+  ): Promise<ChatConversation | null>;
+  updateSummary(
+    conversationId: string,
+    userId: string,
+    summary: string,
+    summarizedUntil: Date,
+    previousSummarizedUntil: Date | null
+  ): Promise<ChatConversation | null>;
+  countUserConversations(userId: string, archived?: boolean): Promise<number>;
 }
 
 /**
- * Finds all conversations for a specific user with pagination
+ * Finds all conversations for a specific user with pagination, pinned conversations first
  * @param userId - The ID of the user to find conversations for
- * @param options - Pagination options (page, limit)
+ * @param options - Pagination options (page, limit) and whether to find archived conversations
  * @returns Promise resolving to an array of conversation documents
  */
 ChatConversationSchema.statics.findByUserId = async function(
   userId: string,
-  options: { page?: number; limit?: number } = {}
+  options: { page?: number; limit?: number; archived?: boolean } = {}
 ): Promise<ChatConversation[]> {
-  const query = { userId };
+  const query = { userId, archived: archivedFilter(options.archived) };
   const page = options.page || 1;
   const limit = options.limit || 10;
   const skip = (page - 1) * limit;
 
   return this.find(query)
-    .sort({ lastMessageAt: -1 }) // Sort by most recent message
+    .sort({ pinned: -1, lastMessageAt: -1 }) // Pinned first, then by most recent message
     .skip(skip)
     .limit(limit)
     .exec();
@@ -139,14 +202,84 @@ ChatConversationSchema.statics.updateTitle = async function(
 };
 
 /**
- * Counts the total number of conversations for a user
+ * Replaces the title of a conversation with a generated one, unless the user has set the title
+ * @param conversationId - The ID of the conversation to update
+ * @param userId - The ID of the user who owns the conversation
+ * @param title - The generated title
+ * @param messageCount - The number of messages the title was generated after
+ * @returns Promise resolving to the updated conversation document, or null if the title was kept
+ */
+ChatConversationSchema.statics.updateGeneratedTitle = async function(
+  conversationId: string,
+  userId: string,
+  title: string,
+  messageCount: number
+): Promise<ChatConversation | null> {
+  return this.findOneAndUpdate(
+    { _id: conversationId, userId, titleSource: { $ne: ConversationTitleSource.USER } },
+    { title, titleSource: ConversationTitleSource.GENERATED, titleMessageCount: messageCount },
+    { new: true } // Return the updated document
+  ).exec();
+};
+
+/**
+ * Updates the title, archived state and pinned state of a conversation
+ * A title set here is marked as set by the user, so it is never replaced by a generated one
+ * @param conversationId - The ID of the conversation to update
+ * @param userId - The ID of the user who owns the conversation
+ * @param updates - The fields to update
+ * @returns Promise resolving to the updated conversation document
+ */
+ChatConversationSchema.statics.updateConversation = async function(
+  conversationId: string,
+  userId: string,
+  updates: UpdateConversationRequest
+): Promise<ChatConversation | null> {
+  const update = updates.title === undefined
+    ? updates
+    : { ...updates, titleSource: ConversationTitleSource.USER };
+
+  return this.findOneAndUpdate(
+    { _id: conversationId, userId },
+    update,
+    { new: true, runValidators: true } // Return the updated document
+  ).exec();
+};
+
+/**
+ * Replaces the rolling summary of a conversation, unless it was updated since it was read
+ * @param conversationId - The ID of the conversation to update
+ * @param userId - The ID of the user who owns the conversation
+ * @param summary - The updated summary
+ * @param summarizedUntil - Timestamp of the newest message included in the updated summary
+ * @param previousSummarizedUntil - Timestamp of the newest message included in the summary it replaces
+ * @returns Promise resolving to the updated conversation document, or null if the summary was updated meanwhile
+ */
+ChatConversationSchema.statics.updateSummary = async function(
+  conversationId: string,
+  userId: string,
+  summary: string,
+  summarizedUntil: Date,
+  previousSummarizedUntil: Date | null
+): Promise<ChatConversation | null> {
+  return this.findOneAndUpdate(
+    { _id: conversationId, userId, summarizedUntil: previousSummarizedUntil },
+    { summary, summarizedUntil },
+    { new: true } // Return the updated document
+  ).exec();
+};
+
+/**
+ * Counts the conversations of a user
  * @param userId - The ID of the user to count conversations for
+ * @param archived - Whether to count archived conversations instead of active ones
  * @returns Promise resolving to the count of conversations
  */
 ChatConversationSchema.statics.countUserConversations = async function(
-  userId: string
+  userId: string,
+  archived = false
 ): Promise<number> {
-  return this.countDocuments({ userId }).exec();
+  return this.countDocuments({ userId, archived: archivedFilter(archived) }).exec();
 };
 
 // Create the model
@@ -60,7 +60,7 @@ interface ChatMessageModel extends Model<ChatMessage> {
   findByConversationId(conversationId: string, options?: { page?: number; limit?: number }): Promise<ChatMessage[]>;
   createMessage(conversationId: string, userId: string, role: ChatRole, content: string, metadata?: Record<string, any>): Promise<ChatMessage>;
   countConversationMessages(conversationId: string): Promise<number>;
-  getConversationHistory(conversationId: string, limit?: number): Promise<ChatMessage[]>;
+  getConversationHistory(conversationId: string, limit?: number, since?: Date | null): Promise<ChatMessage[]>;
 }
 
 /**
@@ -133,13 +133,15 @@ ChatMessageSchema.statics.countConversationMessages = async function(
  * Gets the conversation history for context building
  * @param conversationId - The ID of the conversation to get history for
  * @param limit - Maximum number of messages to retrieve (default: 10)
+ * @param since - Only retrieve messages sent after this time, e.g. those not yet summarized
  * @returns Promise resolving to the most recent messages in the conversation
  */
 ChatMessageSchema.statics.getConversationHistory = async function(
   conversationId: string,
-  limit: number = 10
+  limit: number = 10,
+  since?: Date | null
 ): Promise<ChatMessage[]> {
-  return this.find({ conversationId })
+  return this.find({ conversationId, ...(since && { timestamp: { $gt: since } }) })
     .sort({ timestamp: -1 }) // Sort by timestamp in descending order (newest first)
     .limit(limit)
     .exec();
@@ -0,0 +1,74 @@
+/**
+ * Data Export Model for MongoDB
+ *
+ * This module defines the Mongoose schema and model for personal data exports. Each
+ * document tracks one background export job and, once it completes, the GridFS archive
+ * the user can download until the export expires.
+ *
+ * @module models/data-export.model
+ */
+
+import mongoose, { Schema } from 'mongoose'; // ^7.0.0
+import { DataExportDocument, ExportStatus } from '../types/export.types';
+
+/**
+ * Mongoose schema for the DataExport collection
+ */
+export const dataExportSchema = new Schema<DataExportDocument>(
+  {
+    // User whose data is exported
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+      index: true
+    },
+
+    // State of the background job building the archive
+    status: {
+      type: String,
+      enum: Object.values(ExportStatus),
+      required: true,
+      default: ExportStatus.PENDING
+    },
+
+    // GridFS ID of the ZIP archive, set when the export completes
+    fileId: {
+      type: Schema.Types.ObjectId
+    },
+
+    // Size of the archive in bytes
+    size: {
+      type: Number
+    },
+
+    // Reason the export failed, shown to the user
+    error: {
+      type: String
+    },
+
+    // When the archive was stored
+    completedAt: {
+      type: Date
+    },
+
+    // After this time the archive is no longer offered for download
+    expiresAt: {
+      type: Date,
+      required: true
+    }
+  },
+  {
+    timestamps: true
+  }
+);
+
+// Index for finding a user's exports, newest first
+dataExportSchema.index({ userId: 1, createdAt: -1 });
+
+/**
+ * DataExport model for the MongoDB dataexports collection
+ */
+const DataExport = mongoose.model<DataExportDocument>('DataExport', dataExportSchema);
+
+export default DataExport;
@@ -0,0 +1,59 @@
+/**
+ * Data Key Model for MongoDB
+ *
+ * This module defines the Mongoose schema and model for the per-user keys that health
+ * data is encrypted with. Keys are only stored wrapped by a master key of the key
+ * management provider; a new version is added each time a user's key is rotated.
+ *
+ * @module models/data-key.model
+ */
+
+import mongoose, { Schema } from 'mongoose'; // ^7.0.0
+import { DataKeyDocument } from '../types/encryption.types';
+
+/**
+ * Mongoose schema for the DataKey collection
+ */
+export const dataKeySchema = new Schema<DataKeyDocument>(
+  {
+    // User whose health data the key encrypts
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true
+    },
+
+    // Version of the user's key, starting at 1 - records store the version they use
+    version: {
+      type: Number,
+      required: true,
+      min: 1
+    },
+
+    // Master key the data key is wrapped with
+    masterKeyId: {
+      type: String,
+      required: true,
+      index: true
+    },
+
+    // The data key, encrypted with the master key - the key itself is never stored
+    wrappedKey: {
+      type: String,
+      required: true
+    }
+  },
+  {
+    timestamps: true
+  }
+);
+
+// One key per version, with the latest version of a user found first
+dataKeySchema.index({ userId: 1, version: -1 }, { unique: true });
+
+/**
+ * DataKey model for the MongoDB datakeys collection
+ */
+const DataKey = mongoose.model<DataKeyDocument>('DataKey', dataKeySchema);
+
+export default DataKey;
@@ -1,4 +1,4 @@
-import mongoose, { Schema, Model, Document, Types } from 'mongoose'; // v7.0.0
+import mongoose, { Schema, Model, Document, Types, FilterQuery } from 'mongoose'; // v7.0.0
 import {
   HealthData,
   HealthDataType,
@@ -6,13 +6,24 @@ import {
   LabResultData,
   SymptomData,
   HealthDataMetadata,
+  HealthDataFilters,
   InputSource
 } from '../types/health.types';
+import { EncryptedHealthFields, HealthDataBlindIndex } from '../types/encryption.types';
+import { BlindIndexScope, computeBlindIndexes } from '../utils/health-encryption.util';
+import { parseSearchQuery, tokenizeSearchBigrams, tokenizeSearchText } from '../utils/search.util';
 
 /**
  * Interface for the HealthData document (extends both HealthData and Document)
+ *
+ * Records are stored with their sensitive fields encrypted in encryption, leaving only
+ * the fields queries need in data and metadata; HealthRepository encrypts and decrypts
+ * them. Records without encryption are stored in plaintext and have yet to be migrated.
  */
-interface HealthDataDocument extends HealthData, Document {}
+export interface HealthDataDocument extends HealthData, Document {
+  encryption?: EncryptedHealthFields;
+  blindIndex?: HealthDataBlindIndex;
+}
 
 /**
  * Interface for the HealthData model (defines static methods)
@@ -23,6 +34,7 @@ interface HealthDataModel extends Model<HealthDataDocument> {
   findByDateRange(userId: Types.ObjectId, startDate: Date, endDate: Date, page?: number, limit?: number): Promise<{ items: HealthDataDocument[], total: number }>;
   findByType(userId: Types.ObjectId, type: HealthDataType, page?: number, limit?: number): Promise<{ items: HealthDataDocument[], total: number }>;
   searchByText(userId: Types.ObjectId, searchText: string, page?: number, limit?: number): Promise<{ items: HealthDataDocument[], total: number }>;
+  findByFilters(userId: Types.ObjectId, filters: HealthDataFilters, page?: number, limit?: number): Promise<{ items: HealthDataDocument[], total: number }>;
 }
 
 /**
@@ -55,6 +67,9 @@ const healthDataSchema = new Schema<HealthDataDocument, HealthDataModel>(
         validator: function(this: HealthDataDocument, value: any) {
           if (!value) return false;
           
+          // Encrypted records were validated before their fields were encrypted
+          if (this.encryption) return true;
+          
           const type = this.type;
           
           if (type === HealthDataType.MEAL) {
@@ -79,14 +94,36 @@ const healthDataSchema = new Schema<HealthDataDocument, HealthDataModel>(
       type: Schema.Types.Mixed,
       required: true,
       validate: {
-        validator: function(value: any) {
+        validator: function(this: HealthDataDocument, value: any) {
           return value && 
                  Object.values(InputSource).includes(value.source) && 
-                 Array.isArray(value.tags);
+                 (Boolean(this.encryption) || Array.isArray(value.tags));
         },
         message: 'Metadata must include a valid source and tags array'
       }
     },
+    encryption: {
+      type: new Schema<EncryptedHealthFields>(
+        {
+          keyVersion: { type: Number, required: true },
+          data: { type: String, required: true },
+          metadata: { type: String, required: true }
+        },
+        { _id: false }
+      ),
+      default: undefined
+    },
+    blindIndex: {
+      type: new Schema<HealthDataBlindIndex>(
+        {
+          terms: { type: [String], default: [] },
+          tags: { type: [String], default: [] },
+          analyteKeys: { type: [String], default: [] }
+        },
+        { _id: false }
+      ),
+      default: undefined
+    },
   },
   {
     timestamps: true,
@@ -96,7 +133,13 @@ const healthDataSchema = new Schema<HealthDataDocument, HealthDataModel>(
 // Create compound indexes for common query patterns
 healthDataSchema.index({ userId: 1, timestamp: -1 }); // For date-based queries by user
 healthDataSchema.index({ userId: 1, type: 1 }); // For type filtering by user
-healthDataSchema.index({ userId: 1, 'metadata.tags': 1 }); // For tag-based search
+healthDataSchema.index({ userId: 1, 'blindIndex.tags': 1 }); // For tag-based search
+healthDataSchema.index({ userId: 1, 'blindIndex.analyteKeys': 1, 'data.testDate': 1 }); // For analyte history
+
+// Full-text search over the stems of descriptions, test types, tags, notes and
+// transcriptions and the pairs of neighbouring stems, which are encrypted and can only be
+// matched through their blind indexes
+healthDataSchema.index({ userId: 1, 'blindIndex.terms': 1 });
 
 /**
  * Find all health data entries for a specific user with pagination
@@ -184,7 +227,7 @@ healthDataSchema.statics.findByType = async function(
 
 /**
  * Search health data entries by text for a specific user
- * Searches across multiple fields including description, test type, notes, and transcription
+ * Searches across multiple fields including description, test type, notes, transcription and tags
  */
 healthDataSchema.statics.searchByText = async function(
   userId: Types.ObjectId,
@@ -192,35 +235,119 @@ healthDataSchema.statics.searchByText = async function(
   page: number = 1,
   limit: number = 20
 ): Promise<{ items: HealthDataDocument[], total: number }> {
-  const skip = (page - 1) * limit;
-  
   // If searchText is empty, return all items
   if (!searchText || searchText.trim() === '') {
     return this.findByUserId(userId, page, limit);
   }
   
-  // Create a regex search query across multiple fields
-  const query = {
-    userId,
-    $or: [
-      { 'data.description': { $regex: searchText, $options: 'i' } },
-      { 'data.testType': { $regex: searchText, $options: 'i' } },
-      { 'data.notes': { $regex: searchText, $options: 'i' } },
-      { 'data.transcription': { $regex: searchText, $options: 'i' } },
-      { 'metadata.tags': { $in: [new RegExp(searchText, 'i')] } }
-    ]
-  };
+  return this.findByFilters(userId, { search: searchText }, page, limit);
+};
+
+/**
+ * Builds a query matching all of the given filters for a specific user, along with the
+ * blind indexes of the search words that count towards the relevance of a result
+ */
+function buildFilterQuery(
+  userId: Types.ObjectId,
+  filters: HealthDataFilters
+): { query: FilterQuery<HealthDataDocument>; searchTerms?: string[] } {
+  const { startDate, endDate, types, tags, severity, mealType, search } = filters;
+  const query: FilterQuery<HealthDataDocument> = { userId };
+  let searchTerms: string[] | undefined;
   
-  const [items, total] = await Promise.all([
-    this.find(query)
-      .sort({ timestamp: -1 })
-      .skip(skip)
-      .limit(limit)
-      .exec(),
+  if (startDate || endDate) {
+    query.timestamp = {
+      ...(startDate && { $gte: startDate }),
+      ...(endDate && { $lte: endDate })
+    };
+  }
+  
+  if (types && types.length > 0) {
+    query.type = { $in: types };
+  }
+  
+  if (tags && tags.length > 0) {
+    query['blindIndex.tags'] = { $in: computeBlindIndexes(userId.toString(), BlindIndexScope.TAG, tags) };
+  }
+  
+  if (severity && severity.length > 0) {
+    query['data.severity'] = { $in: severity };
+  }
+  
+  if (mealType && mealType.length > 0) {
+    query['data.mealType'] = { $in: mealType };
+  }
+  
+  const searchText = search?.trim();
+  if (searchText) {
+    // Records match any of the words, must have every pair of neighbouring words of "quoted
+    // phrases" next to each other and in order, and none of the -excluded words
+    const { terms, phrases, excluded } = parseSearchQuery(searchText);
+    const hash = (words: string[]): string[] => computeBlindIndexes(
+      userId.toString(),
+      BlindIndexScope.TERM,
+      tokenizeSearchText(words.join(' '))
+    );
+    // A phrase of one word has no pairs and must have that word
+    const phraseTerms = Array.from(new Set(phrases.flatMap((phrase) => {
+      const bigrams = tokenizeSearchBigrams(phrase);
+      return bigrams.length > 0
+        ? computeBlindIndexes(userId.toString(), BlindIndexScope.BIGRAM, bigrams)
+        : hash([phrase]);
+    })));
+    const excludedTerms = hash(excluded);
+    // Matching phrases also count towards the relevance
+    searchTerms = Array.from(new Set([...hash(terms), ...hash(phrases), ...phraseTerms]));
+    
+    query['blindIndex.terms'] = {
+      $in: searchTerms,
+      ...(phraseTerms.length > 0 && { $all: phraseTerms }),
+      ...(excludedTerms.length > 0 && { $nin: excludedTerms })
+    };
+  }
+  
+  return { query, searchTerms };
+}
+
+/**
+ * Find health data entries matching all of the given filters for a specific user
+ * Search results are ordered by relevance, the number of search words they contain,
+ * with their score in searchScore, and everything else by time, newest first
+ */
+healthDataSchema.statics.findByFilters = async function(
+  userId: Types.ObjectId,
+  filters: HealthDataFilters,
+  page: number = 1,
+  limit: number = 20
+): Promise<{ items: HealthDataDocument[], total: number }> {
+  const skip = (page - 1) * limit;
+  const { query, searchTerms } = buildFilterQuery(userId, filters);
+  
+  if (!searchTerms) {
+    const [items, total] = await Promise.all([
+      this.find(query)
+        .sort({ timestamp: -1 })
+        .skip(skip)
+        .limit(limit)
+        .exec(),
+      this.countDocuments(query)
+    ]);
+    
+    return { items, total };
+  }
+  
+  const [results, total] = await Promise.all([
+    this.aggregate([
+      { $match: query },
+      { $addFields: { searchScore: { $size: { $setIntersection: ['$blindIndex.terms', searchTerms] } } } },
+      { $sort: { searchScore: -1, timestamp: -1 } },
+      { $skip: skip },
+      { $limit: limit }
+    ]),
     this.countDocuments(query)
   ]);
   
-  return { items, total };
+  return { items: results.map((result) => this.hydrate(result)), total };
 };
 
 // Create the HealthData model
@@ -0,0 +1,108 @@
+/**
+ * Health Embedding Model for MongoDB
+ *
+ * This module defines the Mongoose schema and model for the embeddings of health
+ * records, which are compared with the embedding of a chat message to find the records
+ * relevant to it. Each record has at most one embedding, computed by the provider and
+ * model in use when the record last changed.
+ *
+ * Embeddings can reveal much of the text they were computed from, so vectors are
+ * encrypted with the data key of the user like the records themselves, and are only
+ * compared once decrypted.
+ *
+ * @module models/health-embedding.model
+ */
+
+import mongoose, { Schema, Document, Types } from 'mongoose'; // ^7.0.0
+import { EmbeddingProviderType, HealthDataType } from '../types/health.types';
+
+/**
+ * Interface for a health embedding document
+ */
+export interface HealthEmbeddingDocument extends Document {
+  _id: Types.ObjectId;
+  healthDataId: Types.ObjectId;
+  userId: Types.ObjectId;
+  type: HealthDataType;
+  timestamp: Date;
+  provider: EmbeddingProviderType;
+  embeddingModel: string;
+  keyVersion: number;
+  vector: string;
+  sourceUpdatedAt: Date;
+}
+
+/**
+ * Mongoose schema for the HealthEmbedding collection
+ */
+export const healthEmbeddingSchema = new Schema<HealthEmbeddingDocument>(
+  {
+    // Record the embedding was computed from
+    healthDataId: {
+      type: Schema.Types.ObjectId,
+      ref: 'HealthData',
+      required: true,
+      unique: true
+    },
+
+    // User who owns the record
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true
+    },
+
+    // Type and time of the record, copied so records can be ranked without reading them
+    type: {
+      type: String,
+      enum: Object.values(HealthDataType),
+      required: true
+    },
+    timestamp: {
+      type: Date,
+      required: true
+    },
+
+    // Provider and model the embedding was computed with
+    provider: {
+      type: String,
+      enum: Object.values(EmbeddingProviderType),
+      required: true
+    },
+    embeddingModel: {
+      type: String,
+      required: true
+    },
+
+    // Version of the user's data key the vector is encrypted with
+    keyVersion: {
+      type: Number,
+      required: true
+    },
+
+    // The vector as 32-bit floats, encrypted
+    vector: {
+      type: String,
+      required: true
+    },
+
+    // When the record was last updated before the embedding was computed, to tell when it is stale
+    sourceUpdatedAt: {
+      type: Date,
+      required: true
+    }
+  },
+  {
+    timestamps: true
+  }
+);
+
+// A user's embeddings of the current model are read together
+healthEmbeddingSchema.index({ userId: 1, provider: 1, embeddingModel: 1 });
+
+/**
+ * HealthEmbedding model for the MongoDB healthembeddings collection
+ */
+const HealthEmbedding = mongoose.model<HealthEmbeddingDocument>('HealthEmbedding', healthEmbeddingSchema);
+
+export default HealthEmbedding;
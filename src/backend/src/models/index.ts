@@ -11,6 +11,14 @@
 
 import mongoose from 'mongoose'; // ^7.0.0
 import User from './user.model';
+import RefreshToken from './refresh-token.model';
+import PasswordResetToken from './password-reset-token.model';
+import LoginAttempt from './login-attempt.model';
+import DataExport from './data-export.model';
+import AccountDeletion from './account-deletion.model';
+import DataKey from './data-key.model';
+import AuditEntry from './audit-entry.model';
+import HealthEmbedding from './health-embedding.model';
 import { ChatConversation } from './chat-conversation.model';
 import { HealthDataModel } from './health-data.model';
 
@@ -54,5 +62,13 @@ export function getHealthDataModel(): typeof HealthDataModel {
 
 // Direct exports of models for standard use cases
 export { User };
+export { RefreshToken };
+export { PasswordResetToken };
+export { LoginAttempt };
+export { DataExport };
+export { AccountDeletion };
+export { DataKey };
+export { AuditEntry };
+export { HealthEmbedding };
 export { ChatConversation };
 export { HealthDataModel as HealthData };
\ No newline at end of file
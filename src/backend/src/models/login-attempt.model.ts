@@ -0,0 +1,75 @@
+/**
+ * Login Attempt Model for MongoDB
+ *
+ * This module defines the Mongoose schema and model for the failed login counters of IP
+ * addresses and of emails that belong to no account. Failed logins from one address are
+ * counted across all accounts, so that guessing passwords for many accounts from the same
+ * address is slowed down as well. Unknown emails are locked like accounts are, so that a
+ * lockout does not tell which emails are registered.
+ *
+ * @module models/login-attempt.model
+ */
+
+import mongoose, { Schema } from 'mongoose'; // ^7.0.0
+import { LoginAttemptDocument } from '../types/auth.types';
+
+/**
+ * Mongoose schema for the LoginAttempt collection
+ */
+export const loginAttemptSchema = new Schema<LoginAttemptDocument>(
+  {
+    // IP address the failed logins came from, for the counters of an address
+    ip: {
+      type: String,
+      unique: true,
+      sparse: true
+    },
+
+    // Normalized email the failed logins were for, for the counters of an unknown email
+    email: {
+      type: String,
+      unique: true,
+      sparse: true
+    },
+
+    // Failed logins since the last lockout
+    failedLoginAttempts: {
+      type: Number,
+      default: 0
+    },
+
+    lastFailedLoginAt: {
+      type: Date
+    },
+
+    // Number of lockouts so far, each lasting twice as long as the one before
+    lockoutCount: {
+      type: Number,
+      default: 0
+    },
+
+    // Logins from the address are refused until this time
+    lockedUntil: {
+      type: Date
+    },
+
+    // Time after which MongoDB removes the document, forgetting earlier lockouts
+    expiresAt: {
+      type: Date,
+      required: true
+    }
+  },
+  {
+    timestamps: true
+  }
+);
+
+// TTL index so counters of addresses and emails that stopped failing are cleaned up automatically
+loginAttemptSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+/**
+ * LoginAttempt model for the MongoDB loginattempts collection
+ */
+const LoginAttempt = mongoose.model<LoginAttemptDocument>('LoginAttempt', loginAttemptSchema);
+
+export default LoginAttempt;
@@ -0,0 +1,58 @@
+/**
+ * Password Reset Token Model for MongoDB
+ *
+ * This module defines the Mongoose schema and model for password reset tokens. Tokens
+ * are emailed to the user, stored only as SHA-256 hashes, and can be used once before
+ * they expire.
+ *
+ * @module models/password-reset-token.model
+ */
+
+import mongoose, { Schema } from 'mongoose'; // ^7.0.0
+import { PasswordResetTokenDocument } from '../types/auth.types';
+
+/**
+ * Mongoose schema for the PasswordResetToken collection
+ */
+export const passwordResetTokenSchema = new Schema<PasswordResetTokenDocument>(
+  {
+    // User whose password the token resets
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+      index: true
+    },
+
+    // SHA-256 hash of the emailed token - the token itself is never stored
+    tokenHash: {
+      type: String,
+      required: true,
+      unique: true
+    },
+
+    // Expiry of the token, after which MongoDB removes the document
+    expiresAt: {
+      type: Date,
+      required: true
+    },
+
+    // Set when the token is used to reset the password
+    usedAt: {
+      type: Date
+    }
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false }
+  }
+);
+
+// TTL index so expired tokens are cleaned up automatically
+passwordResetTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+/**
+ * PasswordResetToken model for the MongoDB passwordresettokens collection
+ */
+const PasswordResetToken = mongoose.model<PasswordResetTokenDocument>('PasswordResetToken', passwordResetTokenSchema);
+
+export default PasswordResetToken;
@@ -0,0 +1,70 @@
+/**
+ * Refresh Token Model for MongoDB
+ *
+ * This module defines the Mongoose schema and model for persisted refresh tokens.
+ * Tokens are stored as SHA-256 hashes and grouped into families so that a rotated
+ * token presented again can revoke every token descended from the same login.
+ *
+ * @module models/refresh-token.model
+ */
+
+import mongoose, { Schema } from 'mongoose'; // ^7.0.0
+import { RefreshTokenDocument } from '../types/auth.types';
+
+/**
+ * Mongoose schema for the RefreshToken collection
+ */
+export const refreshTokenSchema = new Schema<RefreshTokenDocument>(
+  {
+    // Owner of the token
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+      index: true
+    },
+
+    // SHA-256 hash of the issued token - the token itself is never stored
+    tokenHash: {
+      type: String,
+      required: true,
+      unique: true
+    },
+
+    // Identifier shared by all tokens rotated from the same login
+    familyId: {
+      type: String,
+      required: true,
+      index: true
+    },
+
+    // Expiry of the token, after which MongoDB removes the document
+    expiresAt: {
+      type: Date,
+      required: true
+    },
+
+    // Set when the token is revoked by logout or reuse detection
+    revokedAt: {
+      type: Date
+    },
+
+    // Hash of the token issued when this one was rotated
+    replacedBy: {
+      type: String
+    }
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false }
+  }
+);
+
+// TTL index so expired tokens are cleaned up automatically
+refreshTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+/**
+ * RefreshToken model for the MongoDB refreshtokens collection
+ */
+const RefreshToken = mongoose.model<RefreshTokenDocument>('RefreshToken', refreshTokenSchema);
+
+export default RefreshToken;
@@ -2,14 +2,16 @@
  * User Model for MongoDB
  * 
  * This module defines the Mongoose schema and model for the User collection.
- * It includes fields for email, password, and role, with appropriate validation.
+ * It includes fields for email, password, role and two-factor authentication, with appropriate validation, and the
+ * optional health profile the advisor takes into account, as well as the failed login
+ * counters used to lock the account after repeated failures.
  * Password hashing is automatically performed via middleware before saving.
  * 
  * @module models/user.model
  */
 
 import mongoose, { Schema, Model } from 'mongoose'; // ^7.0.0
-import { UserDocument, UserRole } from '../types/user.types';
+import { UserDocument, UserRole, Sex, UnitsPreference } from '../types/user.types';
 import { hashPassword, verifyPassword } from '../utils/encryption.util';
 
 /**
@@ -42,14 +44,123 @@ export const userSchema = new Schema<UserDocument>(
       type: String,
       enum: Object.values(UserRole),
       default: UserRole.USER
+    },
+
+    // Whether logins need a code from an authenticator app after the password
+    twoFactorEnabled: {
+      type: Boolean,
+      default: false
+    },
+
+    // Authenticator secret, encrypted; set when enrollment starts, before it is enabled
+    twoFactorSecret: {
+      type: String
+    },
+
+    // SHA-256 hashes of the unused recovery codes
+    twoFactorRecoveryCodes: {
+      type: [String],
+      default: []
+    },
+
+    // Time step of the last accepted authenticator code, so a code can't be used twice
+    twoFactorLastUsedStep: {
+      type: Number
+    },
+
+    // Name shown in the app and used by the advisor
+    displayName: {
+      type: String,
+      trim: true,
+      maxlength: [50, 'Display name cannot exceed 50 characters']
+    },
+
+    // Date of birth, from which the advisor works out the user's age
+    dateOfBirth: {
+      type: Date
+    },
+
+    sex: {
+      type: String,
+      enum: Object.values(Sex)
+    },
+
+    // Height and weight are stored in metric units regardless of the units preference
+    heightCm: {
+      type: Number,
+      min: [30, 'Height must be at least 30 cm'],
+      max: [300, 'Height cannot exceed 300 cm']
+    },
+
+    weightKg: {
+      type: Number,
+      min: [1, 'Weight must be at least 1 kg'],
+      max: [500, 'Weight cannot exceed 500 kg']
+    },
+
+    // Known medical conditions, e.g. type 2 diabetes
+    conditions: {
+      type: [String],
+      default: []
+    },
+
+    allergies: {
+      type: [String],
+      default: []
+    },
+
+    medications: {
+      type: [String],
+      default: []
+    },
+
+    // Dietary preferences and restrictions, e.g. vegetarian, low sodium
+    dietaryPreferences: {
+      type: [String],
+      default: []
+    },
+
+    // Units measurements are shown in
+    unitsPreference: {
+      type: String,
+      enum: Object.values(UnitsPreference),
+      default: UnitsPreference.METRIC
+    },
+
+    // Failed logins since the last lockout or successful login
+    failedLoginAttempts: {
+      type: Number,
+      default: 0
+    },
+
+    lastFailedLoginAt: {
+      type: Date
+    },
+
+    // Number of lockouts so far, each lasting twice as long as the one before
+    lockoutCount: {
+      type: Number,
+      default: 0
+    },
+
+    // Logins are refused until this time
+    lockedUntil: {
+      type: Date
+    },
+
+    // Tokens issued before this time are no longer accepted
+    passwordChangedAt: {
+      type: Date
     }
   },
   { 
     timestamps: true, // Automatically add createdAt and updatedAt fields
     toJSON: { 
-      // Exclude password when converting to JSON
+      // Exclude password and two-factor secrets when converting to JSON
       transform: (doc, ret) => {
         delete ret.password;
+        delete ret.twoFactorSecret;
+        delete ret.twoFactorRecoveryCodes;
         return ret;
       }
     }
@@ -0,0 +1,136 @@
+/**
+ * Account Deletion Repository Module
+ *
+ * Provides data access functions for account deletion records. Each completed step is
+ * recorded as soon as it finishes, so that a deletion that fails partway through can be
+ * resumed without repeating the steps that already ran.
+ *
+ * @module repositories/account-deletion.repository
+ */
+
+import { Types } from 'mongoose'; // ^7.0.3
+import AccountDeletion from '../models/account-deletion.model';
+import {
+  AccountDeletionDocument,
+  AccountDeletionStatus,
+  AccountDeletionStep
+} from '../types/account-deletion.types';
+import logger from '../config/logger';
+
+/**
+ * Finds the account deletion record of a user
+ *
+ * @param userId - ID of the user
+ * @returns Promise resolving to the account deletion document or null if none exists
+ */
+export async function findAccountDeletionByUserId(userId: string): Promise<AccountDeletionDocument | null> {
+  try {
+    return await AccountDeletion.findOne({ userId: new Types.ObjectId(userId) });
+  } catch (error) {
+    logger.error('Error finding account deletion', {
+      userId,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    throw error;
+  }
+}
+
+/**
+ * Starts the deletion of a user's account, or resumes the deletion already recorded
+ * for the user, keeping the steps it has completed
+ *
+ * @param userId - ID of the user whose account is deleted
+ * @param emailHash - SHA-256 hash of the user's email address
+ * @returns Promise resolving to the account deletion document
+ */
+export async function startAccountDeletion(userId: string, emailHash: string): Promise<AccountDeletionDocument> {
+  try {
+    return await AccountDeletion.findOneAndUpdate(
+      { userId: new Types.ObjectId(userId) },
+      {
+        $setOnInsert: { emailHash, completedSteps: [], deletedCounts: {} },
+        $set: { status: AccountDeletionStatus.IN_PROGRESS },
+        $unset: { error: '' },
+        $inc: { attempts: 1 }
+      },
+      { upsert: true, new: true }
+    );
+  } catch (error) {
+    logger.error('Error starting account deletion', {
+      userId,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    throw error;
+  }
+}
+
+/**
+ * Records that a step of an account deletion has finished
+ *
+ * @param deletionId - ID of the account deletion
+ * @param step - Step that finished
+ * @param deletedCount - Number of documents or files the step removed
+ */
+export async function markAccountDeletionStepCompleted(
+  deletionId: string,
+  step: AccountDeletionStep,
+  deletedCount: number
+): Promise<void> {
+  try {
+    await AccountDeletion.updateOne(
+      { _id: new Types.ObjectId(deletionId) },
+      {
+        $addToSet: { completedSteps: step },
+        $set: { [`deletedCounts.${step}`]: deletedCount }
+      }
+    );
+  } catch (error) {
+    logger.error('Error recording account deletion step', {
+      deletionId,
+      step,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    throw error;
+  }
+}
+
+/**
+ * Marks an account deletion as completed
+ *
+ * @param deletionId - ID of the account deletion
+ */
+export async function markAccountDeletionCompleted(deletionId: string): Promise<void> {
+  try {
+    await AccountDeletion.updateOne(
+      { _id: new Types.ObjectId(deletionId) },
+      { $set: { status: AccountDeletionStatus.COMPLETED, completedAt: new Date() } }
+    );
+  } catch (error) {
+    logger.error('Error marking account deletion as completed', {
+      deletionId,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    throw error;
+  }
+}
+
+/**
+ * Marks an account deletion as failed, leaving its completed steps in place
+ *
+ * @param deletionId - ID of the account deletion
+ * @param reason - Reason the deletion failed
+ */
+export async function markAccountDeletionFailed(deletionId: string, reason: string): Promise<void> {
+  try {
+    await AccountDeletion.updateOne(
+      { _id: new Types.ObjectId(deletionId) },
+      { $set: { status: AccountDeletionStatus.FAILED, error: reason } }
+    );
+  } catch (error) {
+    logger.error('Error marking account deletion as failed', {
+      deletionId,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    throw error;
+  }
+}
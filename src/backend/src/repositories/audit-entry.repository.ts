@@ -0,0 +1,90 @@
+/**
+ * Audit Entry Repository Module
+ *
+ * Provides data access functions for the audit log. Entries can only be inserted and
+ * queried; the model refuses updates and deletes.
+ *
+ * @module repositories/audit-entry.repository
+ */
+
+import { FilterQuery, Types } from 'mongoose'; // ^7.0.3
+import AuditEntry from '../models/audit-entry.model';
+import { AuditEntry as AuditEntryData, AuditEntryDocument, AuditLogFilters } from '../types/audit.types';
+import logger from '../config/logger';
+
+/**
+ * Appends entries to the audit log
+ *
+ * @param entries - Entries to insert
+ * @returns Promise resolving when the entries have been stored
+ */
+export async function createAuditEntries(entries: Omit<AuditEntryData, 'createdAt'>[]): Promise<void> {
+  try {
+    await AuditEntry.insertMany(entries);
+  } catch (error) {
+    logger.error('Error creating audit entries', {
+      count: entries.length,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    throw error;
+  }
+}
+
+/**
+ * Finds audit log entries matching all of the given filters, newest first
+ *
+ * @param filters - Filters on the entries
+ * @param page - Page number, starting at 1
+ * @param limit - Number of entries per page
+ * @returns Promise resolving to the entries of the page and the total number of matches
+ */
+export async function findAuditEntries(
+  filters: AuditLogFilters,
+  page: number,
+  limit: number
+): Promise<{ items: AuditEntryDocument[]; total: number }> {
+  try {
+    const query: FilterQuery<AuditEntryDocument> = {};
+
+    if (filters.ownerId) {
+      query.ownerId = new Types.ObjectId(filters.ownerId);
+    }
+    if (filters.actorId) {
+      query.actorId = new Types.ObjectId(filters.actorId);
+    }
+    if (filters.resourceId) {
+      query.resourceId = new Types.ObjectId(filters.resourceId);
+    }
+    if (filters.action) {
+      query.action = filters.action;
+    }
+    if (filters.resourceType) {
+      query.resourceType = filters.resourceType;
+    }
+    if (filters.ip) {
+      query.ip = filters.ip;
+    }
+    if (filters.startDate || filters.endDate) {
+      query.createdAt = {
+        ...(filters.startDate && { $gte: filters.startDate }),
+        ...(filters.endDate && { $lte: filters.endDate })
+      };
+    }
+
+    const [items, total] = await Promise.all([
+      AuditEntry.find(query)
+        .sort({ createdAt: -1, _id: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit),
+      AuditEntry.countDocuments(query)
+    ]);
+
+    return { items, total };
+  } catch (error) {
+    logger.error('Error finding audit entries', {
+      filters,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    throw error;
+  }
+}
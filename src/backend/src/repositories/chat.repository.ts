@@ -9,26 +9,27 @@
  */
 
 import { Types } from 'mongoose'; // ^7.0.3
-import { ChatConversation, ChatMessage, ChatRole } from '../types/chat.types';
+import { ChatConversation, ChatMessage, ChatRole, UpdateConversationRequest } from '../types/chat.types';
 import { ChatConversation as ChatConversationModel, getChatMessageModel } from '../models';
 import { NotFoundError } from '../utils/error.util';
 
 /**
- * Retrieves all conversations for a specific user with pagination
+ * Retrieves the active or archived conversations of a user with pagination, pinned conversations first
  * 
  * @param userId - The ID of the user to retrieve conversations for
- * @param options - Pagination options (page, limit)
+ * @param options - Pagination options (page, limit) and whether to retrieve archived conversations
  * @returns Promise resolving to paginated conversations and metadata
  */
 export async function getUserConversations(
   userId: string,
-  options: { page?: number; limit?: number } = {}
+  options: { page?: number; limit?: number; archived?: boolean } = {}
 ): Promise<{ conversations: ChatConversation[]; total: number; page: number }> {
   const page = options.page || 1;
   const limit = options.limit || 10;
+  const archived = options.archived || false;
   
-  const conversations = await ChatConversationModel.findByUserId(userId, { page, limit });
-  const total = await ChatConversationModel.countUserConversations(userId);
+  const conversations = await ChatConversationModel.findByUserId(userId, { page, limit, archived });
+  const total = await ChatConversationModel.countUserConversations(userId, archived);
   
   return {
     conversations,
@@ -72,6 +73,101 @@ export async function createConversation(
   return ChatConversationModel.createConversation(userId, title);
 }
 
+/**
+ * Renames, archives or pins a conversation of a user
+ * 
+ * @param conversationId - The ID of the conversation to update
+ * @param userId - The ID of the user who should own the conversation
+ * @param updates - The fields to update
+ * @returns Promise resolving to the updated conversation
+ * @throws NotFoundError if the conversation doesn't exist or doesn't belong to the user
+ */
+export async function updateConversation(
+  conversationId: string,
+  userId: string,
+  updates: UpdateConversationRequest
+): Promise<ChatConversation> {
+  const conversation = await ChatConversationModel.updateConversation(conversationId, userId, updates);
+  
+  if (!conversation) {
+    throw new NotFoundError('Conversation not found or does not belong to the user', 'ChatConversation');
+  }
+  
+  return conversation;
+}
+
+/**
+ * Replaces the title of a conversation with a generated one, unless the user has set the title
+ * 
+ * @param conversationId - The ID of the conversation to update
+ * @param userId - The ID of the user who should own the conversation
+ * @param title - The generated title
+ * @param messageCount - The number of messages the title was generated after
+ * @returns Promise resolving to the updated conversation, or null if the title was kept
+ */
+export async function updateGeneratedTitle(
+  conversationId: string,
+  userId: string,
+  title: string,
+  messageCount: number
+): Promise<ChatConversation | null> {
+  return ChatConversationModel.updateGeneratedTitle(conversationId, userId, title, messageCount);
+}
+
+/**
+ * Replaces the rolling summary of a conversation, unless another update got there first
+ * 
+ * @param conversationId - The ID of the conversation to update
+ * @param userId - The ID of the user who owns the conversation
+ * @param summary - The updated summary
+ * @param summarizedUntil - Timestamp of the newest message included in the updated summary
+ * @param previousSummarizedUntil - Timestamp of the newest message included in the summary it replaces
+ * @returns Promise resolving to the updated conversation, or null if the summary was updated meanwhile
+ */
+export async function updateConversationSummary(
+  conversationId: string,
+  userId: string,
+  summary: string,
+  summarizedUntil: Date,
+  previousSummarizedUntil: Date | null
+): Promise<ChatConversation | null> {
+  return ChatConversationModel.updateSummary(
+    conversationId,
+    userId,
+    summary,
+    summarizedUntil,
+    previousSummarizedUntil
+  );
+}
+
+/**
+ * Deletes a conversation of a user together with all of its messages
+ * 
+ * @param conversationId - The ID of the conversation to delete
+ * @param userId - The ID of the user who should own the conversation
+ * @returns Promise resolving to the number of messages deleted
+ * @throws NotFoundError if the conversation doesn't exist or doesn't belong to the user
+ */
+export async function deleteConversation(
+  conversationId: string,
+  userId: string
+): Promise<{ messages: number }> {
+  // Verify ownership before deleting any messages
+  await getConversationById(conversationId, userId);
+  
+  try {
+    const ChatMessageModel = await getChatMessageModel();
+    
+    // Messages go first, so that a failure never leaves messages without their conversation
+    const messages = await ChatMessageModel.deleteMany({ conversationId }).exec();
+    await ChatConversationModel.deleteOne({ _id: conversationId, userId }).exec();
+    
+    return { messages: messages.deletedCount };
+  } catch (error) {
+    throw new Error(`Failed to delete conversation: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
 /**
  * Retrieves all messages for a specific conversation with pagination
  * 
@@ -103,6 +199,21 @@ export async function getConversationMessages(
   }
 }
 
+/**
+ * Counts the messages of a conversation
+ * 
+ * @param conversationId - The ID of the conversation
+ * @returns Promise resolving to the number of messages
+ */
+export async function countConversationMessages(conversationId: string): Promise<number> {
+  try {
+    const ChatMessageModel = await getChatMessageModel();
+    return ChatMessageModel.countDocuments({ conversationId }).exec();
+  } catch (error) {
+    throw new Error(`Failed to count conversation messages: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
 /**
  * Creates a new message in a conversation
  * 
@@ -190,16 +301,76 @@ export async function createSystemMessage(
  * 
  * @param conversationId - The ID of the conversation
  * @param limit - Maximum number of messages to retrieve
- * @returns Promise resolving to recent messages
+ * @param since - Only retrieve messages sent after this time, e.g. those not yet summarized
+ * @returns Promise resolving to recent messages, newest first
  */
 export async function getConversationHistory(
   conversationId: string,
-  limit: number = 10
+  limit: number = 10,
+  since?: Date | null
 ): Promise<ChatMessage[]> {
   try {
     const ChatMessageModel = await getChatMessageModel();
-    return ChatMessageModel.getConversationHistory(conversationId, limit);
+    return ChatMessageModel.getConversationHistory(conversationId, limit, since);
   } catch (error) {
     throw new Error(`Failed to get conversation history: ${error instanceof Error ? error.message : String(error)}`);
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Retrieves every conversation of a user together with all of its messages,
+ * e.g. for a personal data export
+ * 
+ * @param userId - The ID of the user
+ * @returns Promise resolving to the conversations, oldest first, each with its messages in order
+ */
+export async function getAllUserConversationsWithMessages(
+  userId: string
+): Promise<{ conversation: ChatConversation; messages: ChatMessage[] }[]> {
+  try {
+    const ChatMessageModel = await getChatMessageModel();
+    const userObjectId = new Types.ObjectId(userId);
+    
+    const conversations: ChatConversation[] = await ChatConversationModel.find({ userId: userObjectId })
+      .sort({ startedAt: 1 })
+      .lean()
+      .exec();
+    
+    return await Promise.all(conversations.map(async (conversation) => ({
+      conversation,
+      messages: await ChatMessageModel.find({ conversationId: conversation._id })
+        .sort({ timestamp: 1 })
+        .lean()
+        .exec() as ChatMessage[]
+    })));
+  } catch (error) {
+    throw new Error(`Failed to get user conversations: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Deletes every conversation of a user together with all of its messages
+ * 
+ * @param userId - The ID of the user
+ * @returns Promise resolving to the number of conversations and messages deleted
+ */
+export async function deleteAllUserConversations(
+  userId: string
+): Promise<{ conversations: number; messages: number }> {
+  try {
+    const ChatMessageModel = await getChatMessageModel();
+    const userObjectId = new Types.ObjectId(userId);
+    
+    const conversationIds = await ChatConversationModel.find({ userId: userObjectId })
+      .distinct('_id')
+      .exec() as Types.ObjectId[];
+    
+    // Messages go first, so that a failure never leaves messages without their conversation
+    const messages = await ChatMessageModel.deleteMany({ conversationId: { $in: conversationIds } }).exec();
+    const conversations = await ChatConversationModel.deleteMany({ _id: { $in: conversationIds } }).exec();
+    
+    return { conversations: conversations.deletedCount, messages: messages.deletedCount };
+  } catch (error) {
+    throw new Error(`Failed to delete user conversations: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
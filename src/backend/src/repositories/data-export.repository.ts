@@ -0,0 +1,178 @@
+/**
+ * Data Export Repository Module
+ *
+ * Provides data access functions for personal data export jobs. Status changes are
+ * written with conditional updates so that a job is only ever picked up once.
+ *
+ * @module repositories/data-export.repository
+ */
+
+import { Types } from 'mongoose'; // ^7.0.3
+import DataExport from '../models/data-export.model';
+import { DataExportDocument, ExportStatus } from '../types/export.types';
+import logger from '../config/logger';
+
+/**
+ * Creates a pending export job for a user
+ *
+ * @param userId - ID of the user whose data is exported
+ * @param expiresAt - Time after which the archive can no longer be downloaded
+ * @returns Promise resolving to the created export document
+ */
+export async function createDataExport(userId: string, expiresAt: Date): Promise<DataExportDocument> {
+  try {
+    return await DataExport.create({
+      userId: new Types.ObjectId(userId),
+      status: ExportStatus.PENDING,
+      expiresAt
+    });
+  } catch (error) {
+    logger.error('Error creating data export', {
+      userId,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    throw error;
+  }
+}
+
+/**
+ * Finds an export job belonging to a user
+ *
+ * @param exportId - ID of the export
+ * @param userId - ID of the user who should own the export
+ * @returns Promise resolving to the export document or null if not found
+ */
+export async function findDataExportById(exportId: string, userId: string): Promise<DataExportDocument | null> {
+  if (!Types.ObjectId.isValid(exportId)) {
+    return null;
+  }
+
+  try {
+    return await DataExport.findOne({
+      _id: new Types.ObjectId(exportId),
+      userId: new Types.ObjectId(userId)
+    });
+  } catch (error) {
+    logger.error('Error finding data export', {
+      exportId,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    throw error;
+  }
+}
+
+/**
+ * Finds all export jobs belonging to a user
+ *
+ * @param userId - ID of the user
+ * @returns Promise resolving to the user's exports, newest first
+ */
+export async function findDataExportsByUserId(userId: string): Promise<DataExportDocument[]> {
+  try {
+    return await DataExport.find({ userId: new Types.ObjectId(userId) }).sort({ createdAt: -1 });
+  } catch (error) {
+    logger.error('Error finding data exports for user', {
+      userId,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    throw error;
+  }
+}
+
+/**
+ * Moves a pending export job to processing
+ *
+ * @param exportId - ID of the export
+ * @returns Promise resolving to true if the job was claimed, false if it was no longer pending
+ */
+export async function markDataExportProcessing(exportId: string): Promise<boolean> {
+  try {
+    const result = await DataExport.updateOne(
+      { _id: new Types.ObjectId(exportId), status: ExportStatus.PENDING },
+      { $set: { status: ExportStatus.PROCESSING } }
+    );
+
+    return result.modifiedCount === 1;
+  } catch (error) {
+    logger.error('Error claiming data export', {
+      exportId,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    throw error;
+  }
+}
+
+/**
+ * Records the archive of a finished export job
+ *
+ * @param exportId - ID of the export
+ * @param fileId - GridFS ID of the stored archive
+ * @param size - Size of the archive in bytes
+ * @returns Promise resolving to the updated export document or null if not found
+ */
+export async function markDataExportCompleted(
+  exportId: string,
+  fileId: string,
+  size: number
+): Promise<DataExportDocument | null> {
+  try {
+    return await DataExport.findByIdAndUpdate(
+      exportId,
+      {
+        $set: {
+          status: ExportStatus.COMPLETED,
+          fileId: new Types.ObjectId(fileId),
+          size,
+          completedAt: new Date()
+        }
+      },
+      { new: true }
+    );
+  } catch (error) {
+    logger.error('Error completing data export', {
+      exportId,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    throw error;
+  }
+}
+
+/**
+ * Records why an export job failed
+ *
+ * @param exportId - ID of the export
+ * @param reason - Reason shown to the user
+ * @returns Promise resolving when the export has been updated
+ */
+export async function markDataExportFailed(exportId: string, reason: string): Promise<void> {
+  try {
+    await DataExport.updateOne(
+      { _id: new Types.ObjectId(exportId) },
+      { $set: { status: ExportStatus.FAILED, error: reason } }
+    );
+  } catch (error) {
+    logger.error('Error marking data export as failed', {
+      exportId,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    throw error;
+  }
+}
+
+/**
+ * Deletes export jobs by ID
+ *
+ * @param exportIds - IDs of the exports to delete
+ * @returns Promise resolving to the number of exports deleted
+ */
+export async function deleteDataExports(exportIds: Types.ObjectId[]): Promise<number> {
+  try {
+    const result = await DataExport.deleteMany({ _id: { $in: exportIds } });
+    return result.deletedCount;
+  } catch (error) {
+    logger.error('Error deleting data exports', {
+      error: error instanceof Error ? error.message : String(error)
+    });
+    throw error;
+  }
+}
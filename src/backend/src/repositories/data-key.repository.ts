@@ -0,0 +1,152 @@
+/**
+ * Data Key Repository Module
+ *
+ * Provides data access functions for the wrapped per-user keys health data is
+ * encrypted with. A user's key versions are numbered from 1, and a unique index on the
+ * user and version lets only one of two concurrent requests create the same version.
+ *
+ * @module repositories/data-key.repository
+ */
+
+import { Types } from 'mongoose'; // ^7.0.3
+import DataKey from '../models/data-key.model';
+import { DataKeyDocument, WrappedDataKey } from '../types/encryption.types';
+import logger from '../config/logger';
+
+// MongoDB error code of a unique index violation
+const DUPLICATE_KEY_ERROR_CODE = 11000;
+
+/**
+ * Finds the latest version of a user's data key
+ *
+ * @param userId - ID of the user
+ * @returns Promise resolving to the data key, or null if the user has none yet
+ */
+export async function findLatestDataKey(userId: string): Promise<DataKeyDocument | null> {
+  try {
+    return await DataKey.findOne({ userId: new Types.ObjectId(userId) }).sort({ version: -1 });
+  } catch (error) {
+    logger.error('Error finding latest data key', {
+      userId,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    throw error;
+  }
+}
+
+/**
+ * Finds a specific version of a user's data key
+ *
+ * @param userId - ID of the user
+ * @param version - Version of the key
+ * @returns Promise resolving to the data key, or null if there is no such version
+ */
+export async function findDataKey(userId: string, version: number): Promise<DataKeyDocument | null> {
+  try {
+    return await DataKey.findOne({ userId: new Types.ObjectId(userId), version });
+  } catch (error) {
+    logger.error('Error finding data key', {
+      userId,
+      version,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    throw error;
+  }
+}
+
+/**
+ * Stores a new version of a user's data key
+ *
+ * @param userId - ID of the user
+ * @param version - Version of the key
+ * @param wrapped - The key wrapped by a master key
+ * @returns Promise resolving to the data key, or null if the version was created
+ *          concurrently by another request
+ */
+export async function createDataKey(
+  userId: string,
+  version: number,
+  wrapped: WrappedDataKey
+): Promise<DataKeyDocument | null> {
+  try {
+    return await DataKey.create({
+      userId: new Types.ObjectId(userId),
+      version,
+      masterKeyId: wrapped.masterKeyId,
+      wrappedKey: wrapped.wrappedKey
+    });
+  } catch (error) {
+    if ((error as { code?: number }).code === DUPLICATE_KEY_ERROR_CODE) {
+      return null;
+    }
+
+    logger.error('Error creating data key', {
+      userId,
+      version,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    throw error;
+  }
+}
+
+/**
+ * Finds data keys that are wrapped by a master key other than the given one
+ *
+ * @param masterKeyId - ID of the current master key
+ * @param limit - Maximum number of keys to return
+ * @returns Promise resolving to the data keys
+ */
+export async function findDataKeysNotWrappedWith(masterKeyId: string, limit: number): Promise<DataKeyDocument[]> {
+  try {
+    return await DataKey.find({ masterKeyId: { $ne: masterKeyId } }).limit(limit);
+  } catch (error) {
+    logger.error('Error finding data keys to rewrap', {
+      masterKeyId,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    throw error;
+  }
+}
+
+/**
+ * Replaces the wrapped form of a data key, e.g. after the master key was rotated
+ *
+ * @param id - ID of the data key document
+ * @param wrapped - The key wrapped by the new master key
+ * @returns Promise resolving once the key has been updated
+ */
+export async function updateWrappedDataKey(id: Types.ObjectId, wrapped: WrappedDataKey): Promise<void> {
+  try {
+    await DataKey.updateOne(
+      { _id: id },
+      { $set: { masterKeyId: wrapped.masterKeyId, wrappedKey: wrapped.wrappedKey } }
+    );
+  } catch (error) {
+    logger.error('Error updating wrapped data key', {
+      id: id.toString(),
+      error: error instanceof Error ? error.message : String(error)
+    });
+    throw error;
+  }
+}
+
+/**
+ * Deletes every version of a user's data key, which leaves any of their health data
+ * still stored unreadable
+ *
+ * @param userId - ID of the user
+ * @returns Promise resolving to the number of keys deleted
+ */
+export async function deleteDataKeysByUserId(userId: string): Promise<number> {
+  try {
+    const result = await DataKey.deleteMany({ userId: new Types.ObjectId(userId) });
+
+    return result.deletedCount;
+  } catch (error) {
+    logger.error('Error deleting data keys for user', {
+      userId,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    throw error;
+  }
+}
@@ -201,10 +201,7 @@ export class FileRepository {
       // If thumbnail requested and file is an image, try to find thumbnail
       let fileIdToRetrieve = fileObjectId;
       if (options.thumbnail && file.metadata.fileType === FileType.IMAGE) {
-        // Look for thumbnail with naming pattern: originalFileId-thumbnail
-        const thumbnailFile = await this.db.collection(`${BUCKET_NAME}.files`).findOne({
-          'metadata.originalFileId': fileId
-        }) as unknown as FileDocument;
+        const thumbnailFile = await this.getThumbnailMetadata(fileId);
 
         if (thumbnailFile) {
           fileIdToRetrieve = thumbnailFile._id;
@@ -213,8 +210,12 @@ export class FileRepository {
         }
       }
 
-      // Create a download stream for the file
-      const downloadStream = this.bucket.openDownloadStream(fileIdToRetrieve);
+      // Create a download stream for the file, limited to the requested byte range if any
+      // (GridFS treats the end offset as exclusive)
+      const downloadStream = this.bucket.openDownloadStream(fileIdToRetrieve, {
+        start: options.start,
+        end: options.end !== undefined ? options.end + 1 : undefined
+      });
 
       // If asStream option is true, return file document and stream
       if (options.asStream) {
@@ -239,6 +240,32 @@ export class FileRepository {
     }
   }
 
+  /**
+   * Retrieves metadata for the thumbnail generated from an image file
+   * 
+   * @param fileId - ID of the original image file
+   * @returns Thumbnail file document, or null if no thumbnail exists
+   * @throws InternalServerError if thumbnail lookup fails
+   */
+  async getThumbnailMetadata(fileId: string): Promise<FileDocument | null> {
+    try {
+      // Thumbnails reference the file they were generated from in their metadata
+      const thumbnailFile = await this.db.collection(`${BUCKET_NAME}.files`).findOne({
+        'metadata.originalFileId': fileId
+      }) as unknown as FileDocument | null;
+
+      return thumbnailFile;
+    } catch (error) {
+      logger.error('Error retrieving thumbnail metadata', {
+        fileId,
+        error: (error as Error).message,
+        stack: (error as Error).stack
+      });
+
+      throw new InternalServerError(`Failed to retrieve thumbnail metadata: ${(error as Error).message}`);
+    }
+  }
+
   /**
    * Retrieves all files associated with a health data entry
    * 
@@ -449,6 +476,48 @@ export class FileRepository {
     }
   }
 
+  /**
+   * Deletes every file uploaded by a user, including thumbnails and export archives
+   * 
+   * @param userId - ID of the user
+   * @returns Number of files deleted
+   * @throws BadRequestError if user ID is invalid
+   * @throws InternalServerError if file deletion fails
+   */
+  async deleteFilesByUserId(userId: string): Promise<number> {
+    try {
+      // Validate the user ID
+      if (!userId || !ObjectId.isValid(userId)) {
+        throw new BadRequestError('Invalid user ID');
+      }
+
+      // Thumbnails copy the metadata of their original, so they match the user as well
+      const files = await this.db.collection(`${BUCKET_NAME}.files`)
+        .find({ 'metadata.userId': new ObjectId(userId) }, { projection: { _id: 1 } })
+        .toArray();
+
+      for (const file of files) {
+        await this.bucket.delete(file._id);
+      }
+
+      logger.info(`Deleted ${files.length} files uploaded by user ${userId}`);
+
+      return files.length;
+    } catch (error) {
+      logger.error('Error deleting files by user ID', {
+        userId,
+        error: (error as Error).message,
+        stack: (error as Error).stack
+      });
+
+      if (error instanceof BadRequestError) {
+        throw error;
+      }
+
+      throw new InternalServerError(`Failed to delete user files: ${(error as Error).message}`);
+    }
+  }
+
   /**
    * Creates a thumbnail version of an image file
    * 
@@ -648,4 +717,90 @@ export class FileRepository {
       throw new InternalServerError(`Failed to update file metadata: ${(error as Error).message}`);
     }
   }
+
+  /**
+   * Stores a generated archive, such as a personal data export, from a stream.
+   * Unlike uploaded files the archive is not attached to a health data entry.
+   *
+   * @param stream - Stream producing the archive contents
+   * @param filename - Name the archive is downloaded as
+   * @param userId - ID of the user the archive belongs to
+   * @returns The GridFS ID and size in bytes of the stored archive
+   * @throws InternalServerError if the archive cannot be produced or stored
+   */
+  async uploadArchive(stream: Readable, filename: string, userId: string): Promise<{ fileId: string; size: number }> {
+    const uploadStream = this.bucket.openUploadStream(filename, {
+      metadata: {
+        userId: new mongoose.Types.ObjectId(userId),
+        originalname: filename,
+        filename,
+        mimetype: 'application/zip',
+        fileType: FileType.DOCUMENT,
+        uploadDate: new Date(),
+        tags: ['export']
+      },
+      contentType: 'application/zip'
+    });
+
+    try {
+      await new Promise<void>((resolve, reject) => {
+        uploadStream.on('finish', () => resolve());
+        uploadStream.on('error', reject);
+        // pipe() does not forward errors from the source, so a failed archive is handled here
+        stream.on('error', reject);
+        stream.pipe(uploadStream);
+      });
+
+      return { fileId: uploadStream.id.toString(), size: uploadStream.length };
+    } catch (error) {
+      logger.error('Error storing archive', {
+        filename,
+        error: (error as Error).message
+      });
+
+      // Remove the chunks written before the failure
+      await uploadStream.abort().catch(() => undefined);
+      throw new InternalServerError(`Failed to store archive: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Verifies that GridFS is writable and readable by storing a small probe file,
+   * reading it back and deleting it
+   * 
+   * @returns A promise that resolves to the round-trip time in milliseconds
+   * @throws InternalServerError if the probe file cannot be stored, read back or deleted
+   */
+  async verifyStorage(): Promise<number> {
+    const startedAt = Date.now();
+    const content = Buffer.from(`readiness probe ${startedAt}`);
+    const uploadStream = this.bucket.openUploadStream(`readiness-probe-${startedAt}`, {
+      metadata: { probe: true }
+    });
+
+    try {
+      // Store the probe file
+      await new Promise<void>((resolve, reject) => {
+        uploadStream.on('finish', () => resolve());
+        uploadStream.on('error', reject);
+        bufferToStream(content).pipe(uploadStream);
+      });
+
+      // Read it back and compare the contents
+      const stored = await streamToBuffer(this.bucket.openDownloadStream(uploadStream.id));
+      if (!stored.equals(content)) {
+        throw new Error('Probe file read back with different contents');
+      }
+
+      return Date.now() - startedAt;
+    } catch (error) {
+      logger.error('GridFS storage check failed', {
+        error: (error as Error).message
+      });
+      throw new InternalServerError(`GridFS storage check failed: ${(error as Error).message}`);
+    } finally {
+      // Remove the probe file even if reading it back failed
+      await this.bucket.delete(uploadStream.id).catch(() => undefined);
+    }
+  }
 }
\ No newline at end of file
@@ -1,12 +1,60 @@
 import mongoose, { Types } from 'mongoose'; // ^7.0.3
-import { HealthDataModel } from '../models/health-data.model';
-import { HealthData, HealthDataType } from '../types/health.types';
+import { HealthDataModel, HealthDataDocument } from '../models/health-data.model';
+import HealthEmbedding from '../models/health-embedding.model';
+import {
+  HealthData,
+  GetHealthDataRequest,
+  HealthDataType,
+  MealType,
+  SymptomSeverity,
+  LabTestHistoryInsight,
+  AnalyteHistoryEntry,
+  LabResultData,
+  LabAnalyte,
+  HealthDataMetadata,
+  HealthDataEmbedding,
+  EmbeddingProviderType
+} from '../types/health.types';
+import {
+  EncryptedHealthFields,
+  HealthDataBlindIndex,
+  HealthDataEncryptionSummary
+} from '../types/encryption.types';
 import { FileRepository } from './file.repository';
+import { DataKeyService, getDataKeyService } from '../services/data-key.service';
 import { NotFoundError } from '../utils/error.util';
-import { logger } from '../config/logger';
+import {
+  BlindIndexScope,
+  buildHealthDataBlindIndex,
+  computeBlindIndexes,
+  decryptJson,
+  encryptJson,
+  openHealthFields,
+  sealHealthFields
+} from '../utils/health-encryption.util';
+import { decodeVector, encodeVector } from '../utils/embedding.util';
+import { logger } from '../config';
+
+/**
+ * A health data record as stored, with its sensitive fields encrypted unless it has yet
+ * to be migrated
+ */
+type StoredHealthData = HealthData & {
+  _id: Types.ObjectId;
+  encryption?: EncryptedHealthFields;
+  blindIndex?: HealthDataBlindIndex;
+};
+
+// MongoDB error code of a unique index violation
+const DUPLICATE_KEY_ERROR_CODE = 11000;
 
 /**
  * Repository class that provides an abstraction layer for health data operations in MongoDB
+ * 
+ * Sensitive fields of health data are encrypted with the data key of the user who owns
+ * them before they are stored, and decrypted as they are read, so callers only ever see
+ * plaintext records. Records stored before encryption was introduced are read as they
+ * are until encryptAllHealthData migrates them.
  */
 export class HealthRepository {
   private fileRepository: FileRepository;
@@ -15,8 +63,9 @@ export class HealthRepository {
    * Initializes the HealthRepository with database connection
    * 
    * @param connection - MongoDB connection
+   * @param dataKeyService - Service providing the data keys of users, shared by default
    */
-  constructor(private connection: mongoose.Connection) {
+  constructor(private connection: mongoose.Connection, private dataKeyService: DataKeyService = getDataKeyService()) {
     this.fileRepository = new FileRepository();
     logger.info('Health repository initialized');
   }
@@ -34,7 +83,10 @@ export class HealthRepository {
         type: healthData.type 
       });
       
+      // Validate the plaintext fields, which can't be checked once encrypted
       const newHealthData = new HealthDataModel(healthData);
+      await newHealthData.validate();
+      await this.sealHealthData(newHealthData);
       await newHealthData.save();
       
       logger.info('Health data created successfully', { 
@@ -43,7 +95,7 @@ export class HealthRepository {
         type: healthData.type
       });
       
-      return newHealthData.toObject();
+      return await this.openHealthData(newHealthData.toObject());
     } catch (error) {
       logger.error('Error creating health data', {
         error: (error as Error).message,
@@ -76,7 +128,7 @@ export class HealthRepository {
       }
       
       logger.debug('Health data found successfully', { id, userId });
-      return healthData.toObject();
+      return await this.openHealthData(healthData.toObject());
     } catch (error) {
       logger.error('Error finding health data by ID', {
         error: (error as Error).message,
@@ -92,30 +144,23 @@ export class HealthRepository {
   /**
    * Finds health data records for a user with filtering and pagination
    * 
+   * All filters given are combined into a single query, so e.g. symptoms in a date
+   * range that mention a search term can be found at once.
+   * 
    * @param userId - ID of the user
    * @param options - Options for filtering and pagination
    * @returns Paginated health data records with total count
    */
   async findHealthDataByUserId(
     userId: string,
-    options: {
-      date?: string;
-      type?: HealthDataType;
-      search?: string;
-      page?: number;
-      limit?: number;
-    } = {}
+    options: GetHealthDataRequest = {}
   ): Promise<{ items: HealthData[]; total: number }> {
     try {
       logger.debug('Finding health data for user', { userId, options });
       
-      const { date, type, search, page = 1, limit = 20 } = options;
+      const { date, page = 1, limit = 20, ...filters } = options;
       const userObjectId = new Types.ObjectId(userId);
       
-      // Initialize result to hold query results
-      let result: { items: HealthData[]; total: number };
-      
-      // Apply filters based on options
       if (date) {
         // Convert date string to date range (start of day to end of day)
         const startDate = new Date(date);
@@ -124,15 +169,12 @@ export class HealthRepository {
         const endDate = new Date(date);
         endDate.setHours(23, 59, 59, 999);
         
-        result = await HealthDataModel.findByDateRange(userObjectId, startDate, endDate, page, limit);
-      } else if (type) {
-        result = await HealthDataModel.findByType(userObjectId, type, page, limit);
-      } else if (search) {
-        result = await HealthDataModel.searchByText(userObjectId, search, page, limit);
-      } else {
-        result = await HealthDataModel.findByUserId(userObjectId, page, limit);
+        filters.startDate = startDate;
+        filters.endDate = endDate;
       }
       
+      const result = await HealthDataModel.findByFilters(userObjectId, filters, page, limit);
+      
       logger.debug('Health data found successfully', { 
         userId, 
         count: result.items.length,
@@ -140,7 +182,7 @@ export class HealthRepository {
       });
       
       return {
-        items: result.items.map(item => item.toObject()),
+        items: await Promise.all(result.items.map((item) => this.openHealthData(item.toObject()))),
         total: result.total
       };
     } catch (error) {
@@ -155,9 +197,64 @@ export class HealthRepository {
     }
   }
 
+  /**
+   * Finds every health data record of a user, e.g. for a personal data export
+   *
+   * @param userId - ID of the user
+   * @returns All of the user's health data records, oldest first
+   */
+  async findAllHealthDataByUserId(userId: string): Promise<HealthData[]> {
+    try {
+      const items = await HealthDataModel.find({ userId: new Types.ObjectId(userId) })
+        .sort({ timestamp: 1 })
+        .lean<StoredHealthData[]>()
+        .exec();
+
+      logger.debug('All health data found for user', { userId, count: items.length });
+
+      return await Promise.all(items.map((item) => this.openHealthData(item)));
+    } catch (error) {
+      logger.error('Error finding all health data for user', {
+        error: (error as Error).message,
+        stack: (error as Error).stack,
+        userId
+      });
+
+      throw error;
+    }
+  }
+
+  /**
+   * Deletes every health data record of a user, e.g. when the account is deleted, along
+   * with their embeddings and the user's data keys. Associated files are left in place
+   * and must be removed separately.
+   *
+   * @param userId - ID of the user
+   * @returns Number of records deleted
+   */
+  async deleteAllHealthDataByUserId(userId: string): Promise<number> {
+    try {
+      const result = await HealthDataModel.deleteMany({ userId: new Types.ObjectId(userId) }).exec();
+      await HealthEmbedding.deleteMany({ userId: new Types.ObjectId(userId) }).exec();
+      const deletedKeys = await this.dataKeyService.deleteDataKeys(userId);
+
+      logger.info('All health data deleted for user', { userId, count: result.deletedCount, deletedKeys });
+
+      return result.deletedCount;
+    } catch (error) {
+      logger.error('Error deleting all health data for user', {
+        error: (error as Error).message,
+        stack: (error as Error).stack,
+        userId
+      });
+
+      throw error;
+    }
+  }
+
   /**
    * Updates an existing health data record
-   * 
+   *
    * @param id - ID of the health data record
    * @param userId - ID of the user who owns the record
    * @param updateData - Partial health data for update
@@ -182,13 +279,17 @@ export class HealthRepository {
         return null;
       }
       
-      // Update the record with the new data
-      Object.assign(healthData, updateData);
+      // Update the plaintext record with the new data, validate it and encrypt it again
+      const current = await this.openHealthData(healthData.toObject());
+      healthData.set({ encryption: undefined, blindIndex: undefined });
+      Object.assign(healthData, { data: current.data, metadata: current.metadata }, updateData);
+      await healthData.validate();
+      await this.sealHealthData(healthData);
       await healthData.save();
       
       logger.info('Health data updated successfully', { id, userId });
       
-      return healthData.toObject();
+      return await this.openHealthData(healthData.toObject());
     } catch (error) {
       logger.error('Error updating health data', {
         error: (error as Error).message,
@@ -222,8 +323,9 @@ export class HealthRepository {
         return false;
       }
       
-      // Delete the health data record
+      // Delete the health data record and its embedding
       await healthData.deleteOne();
+      await HealthEmbedding.deleteOne({ healthDataId: healthData._id }).exec();
       
       logger.info('Health data deleted successfully', { id, userId });
       
@@ -354,10 +456,14 @@ export class HealthRepository {
         symptomCount: symptoms.items.length
       });
       
+      const open = (items: HealthDataDocument[]): Promise<HealthData[]> => (
+        Promise.all(items.map((item) => this.openHealthData(item.toObject())))
+      );
+      
       return {
-        meals: meals.items.map(item => item.toObject()),
-        labResults: labResults.items.map(item => item.toObject()),
-        symptoms: symptoms.items.map(item => item.toObject())
+        meals: await open(meals.items),
+        labResults: await open(labResults.items),
+        symptoms: await open(symptoms.items)
       };
     } catch (error) {
       logger.error('Error getting recent health data', {
@@ -369,4 +475,572 @@ export class HealthRepository {
       throw error;
     }
   }
-}
\ No newline at end of file
+
+  /**
+   * Counts meals per day and meal type within a date range
+   * 
+   * @param userId - ID of the user
+   * @param startDate - Start of the date range (inclusive)
+   * @param endDate - End of the date range (inclusive)
+   * @param timezone - IANA time zone used to determine the day of each meal
+   * @returns Meal counts per day (YYYY-MM-DD) and meal type, ordered by day
+   */
+  async aggregateMealsPerDay(
+    userId: string,
+    startDate: Date,
+    endDate: Date,
+    timezone: string
+  ): Promise<{ date: string; mealType: MealType; count: number }[]> {
+    try {
+      logger.debug('Aggregating meals per day', { userId, startDate, endDate, timezone });
+      
+      return await HealthDataModel.aggregate([
+        {
+          $match: {
+            userId: new Types.ObjectId(userId),
+            type: HealthDataType.MEAL,
+            timestamp: { $gte: startDate, $lte: endDate }
+          }
+        },
+        {
+          $group: {
+            _id: {
+              date: { $dateToString: { format: '%Y-%m-%d', date: '$timestamp', timezone } },
+              mealType: '$data.mealType'
+            },
+            count: { $sum: 1 }
+          }
+        },
+        {
+          $project: {
+            _id: 0,
+            date: '$_id.date',
+            mealType: '$_id.mealType',
+            count: 1
+          }
+        },
+        { $sort: { date: 1 } }
+      ]);
+    } catch (error) {
+      logger.error('Error aggregating meals per day', {
+        error: (error as Error).message,
+        stack: (error as Error).stack,
+        userId
+      });
+      
+      throw error;
+    }
+  }
+
+  /**
+   * Counts symptoms per week and severity within a date range
+   * 
+   * @param userId - ID of the user
+   * @param startDate - Start of the date range (inclusive)
+   * @param endDate - End of the date range (inclusive)
+   * @param timezone - IANA time zone used to determine the week of each symptom
+   * @returns Symptom counts per week (Monday as YYYY-MM-DD) and severity, ordered by week
+   */
+  async aggregateSymptomsPerWeek(
+    userId: string,
+    startDate: Date,
+    endDate: Date,
+    timezone: string
+  ): Promise<{ weekStart: string; severity: SymptomSeverity; count: number }[]> {
+    try {
+      logger.debug('Aggregating symptoms per week', { userId, startDate, endDate, timezone });
+      
+      return await HealthDataModel.aggregate([
+        {
+          $match: {
+            userId: new Types.ObjectId(userId),
+            type: HealthDataType.SYMPTOM,
+            timestamp: { $gte: startDate, $lte: endDate }
+          }
+        },
+        {
+          $group: {
+            _id: {
+              weekStart: {
+                $dateToString: {
+                  format: '%Y-%m-%d',
+                  date: {
+                    $dateTrunc: { date: '$timestamp', unit: 'week', startOfWeek: 'monday', timezone }
+                  },
+                  timezone
+                }
+              },
+              severity: '$data.severity'
+            },
+            count: { $sum: 1 }
+          }
+        },
+        {
+          $project: {
+            _id: 0,
+            weekStart: '$_id.weekStart',
+            severity: '$_id.severity',
+            count: 1
+          }
+        },
+        { $sort: { weekStart: 1 } }
+      ]);
+    } catch (error) {
+      logger.error('Error aggregating symptoms per week', {
+        error: (error as Error).message,
+        stack: (error as Error).stack,
+        userId
+      });
+      
+      throw error;
+    }
+  }
+
+  /**
+   * Groups lab results within a date range by test type
+   * 
+   * @param userId - ID of the user
+   * @param startDate - Start of the date range (inclusive)
+   * @param endDate - End of the date range (inclusive)
+   * @returns Lab test history per test type ordered by test type, with entries oldest first
+   */
+  async aggregateLabTestHistory(
+    userId: string,
+    startDate: Date,
+    endDate: Date
+  ): Promise<LabTestHistoryInsight[]> {
+    try {
+      logger.debug('Aggregating lab test history', { userId, startDate, endDate });
+      
+      // Test types and results are encrypted, so records are grouped once decrypted
+      const labResults = await HealthDataModel.find({
+        userId: new Types.ObjectId(userId),
+        type: HealthDataType.LAB_RESULT,
+        timestamp: { $gte: startDate, $lte: endDate }
+      })
+        .sort({ 'data.testDate': 1 })
+        .lean<StoredHealthData[]>()
+        .exec();
+      
+      const history = new Map<string, LabTestHistoryInsight>();
+      for (const stored of labResults) {
+        const labResult = await this.openHealthData(stored);
+        const data = labResult.data as LabResultData;
+        
+        const insight = history.get(data.testType) || { testType: data.testType, count: 0, entries: [] };
+        insight.count++;
+        insight.entries.push({
+          id: stored._id.toString(),
+          testDate: new Date(data.testDate).toISOString(),
+          results: data.results || {}
+        });
+        history.set(data.testType, insight);
+      }
+      
+      return Array.from(history.values())
+        .sort((a, b) => (a.testType < b.testType ? -1 : a.testType > b.testType ? 1 : 0));
+    } catch (error) {
+      logger.error('Error aggregating lab test history', {
+        error: (error as Error).message,
+        stack: (error as Error).stack,
+        userId
+      });
+      
+      throw error;
+    }
+  }
+
+  /**
+   * Finds every measurement of an analyte across a user's lab results
+   * 
+   * @param userId - ID of the user
+   * @param analyteKey - Key of the analyte
+   * @param startDate - Optional start of the lab test date range (inclusive)
+   * @param endDate - Optional end of the lab test date range (inclusive)
+   * @returns Measurements ordered by lab test date, oldest first, each with the analyte
+   *          name as entered
+   */
+  async findAnalyteHistory(
+    userId: string,
+    analyteKey: string,
+    startDate?: Date,
+    endDate?: Date
+  ): Promise<Array<Omit<AnalyteHistoryEntry, 'testDate'> & { testDate: Date; name: string }>> {
+    try {
+      logger.debug('Finding analyte history', { userId, analyteKey, startDate, endDate });
+      
+      // Build the lab test date filter from whichever bounds were provided
+      const testDateFilter: Record<string, Date> = {};
+      if (startDate) {
+        testDateFilter.$gte = startDate;
+      }
+      if (endDate) {
+        testDateFilter.$lte = endDate;
+      }
+      
+      // Analytes are encrypted, so lab results are found by the blind index of the key
+      const [analyteKeyIndex] = computeBlindIndexes(userId, BlindIndexScope.ANALYTE_KEY, [analyteKey]);
+      const labResults = await HealthDataModel.find({
+        userId: new Types.ObjectId(userId),
+        type: HealthDataType.LAB_RESULT,
+        'blindIndex.analyteKeys': analyteKeyIndex,
+        ...(Object.keys(testDateFilter).length > 0 && { 'data.testDate': testDateFilter })
+      })
+        .sort({ 'data.testDate': 1, timestamp: 1 })
+        .lean<StoredHealthData[]>()
+        .exec();
+      
+      const history: Array<Omit<AnalyteHistoryEntry, 'testDate'> & { testDate: Date; name: string }> = [];
+      for (const stored of labResults) {
+        const labResult = await this.openHealthData(stored);
+        const data = labResult.data as LabResultData;
+        
+        (data.analytes || [])
+          .filter((analyte: LabAnalyte) => analyte.key === analyteKey)
+          .forEach((analyte: LabAnalyte) => {
+            history.push({
+              healthDataId: stored._id.toString(),
+              testDate: data.testDate,
+              testType: data.testType,
+              name: analyte.name,
+              value: analyte.value,
+              unit: analyte.unit,
+              ...(analyte.referenceLow !== undefined && { referenceLow: analyte.referenceLow }),
+              ...(analyte.referenceHigh !== undefined && { referenceHigh: analyte.referenceHigh }),
+              outOfRange: analyte.outOfRange ?? false
+            });
+          });
+      }
+      
+      return history;
+    } catch (error) {
+      logger.error('Error finding analyte history', {
+        error: (error as Error).message,
+        stack: (error as Error).stack,
+        userId,
+        analyteKey
+      });
+      
+      throw error;
+    }
+  }
+
+  /**
+   * Finds the IDs of all users who have health data, e.g. to rotate their data keys
+   *
+   * @returns IDs of the users
+   */
+  async findUserIdsWithHealthData(): Promise<string[]> {
+    try {
+      const userIds = await HealthDataModel.distinct<Types.ObjectId>('userId').exec();
+
+      return userIds.map((userId) => userId.toString());
+    } catch (error) {
+      logger.error('Error finding users with health data', {
+        error: (error as Error).message,
+        stack: (error as Error).stack
+      });
+
+      throw error;
+    }
+  }
+
+  /**
+   * Finds health data records by their IDs, e.g. those most relevant to a chat message
+   *
+   * @param ids - IDs of the records
+   * @param userId - ID of the user who owns the records
+   * @returns The records found, in the order of the IDs
+   */
+  async findHealthDataByIds(ids: string[], userId: string): Promise<HealthData[]> {
+    try {
+      const items = await HealthDataModel.find({
+        _id: { $in: ids.map((id) => new Types.ObjectId(id)) },
+        userId: new Types.ObjectId(userId)
+      })
+        .lean<StoredHealthData[]>()
+        .exec();
+
+      const itemsById = new Map(items.map((item) => [item._id.toString(), item]));
+      const ordered = ids
+        .map((id) => itemsById.get(id))
+        .filter((item): item is StoredHealthData => item !== undefined);
+
+      return await Promise.all(ordered.map((item) => this.openHealthData(item)));
+    } catch (error) {
+      logger.error('Error finding health data by IDs', {
+        error: (error as Error).message,
+        stack: (error as Error).stack,
+        userId,
+        count: ids.length
+      });
+
+      throw error;
+    }
+  }
+
+  /**
+   * Finds a user's health data records that have no embedding of the given model yet, or
+   * were updated after it was computed
+   *
+   * @param userId - ID of the user
+   * @param provider - Embedding provider in use
+   * @param model - Embedding model in use
+   * @param limit - Maximum number of records to return
+   * @returns The records, newest first
+   */
+  async findHealthDataToEmbed(
+    userId: string,
+    provider: EmbeddingProviderType,
+    model: string,
+    limit: number
+  ): Promise<HealthData[]> {
+    try {
+      const userObjectId = new Types.ObjectId(userId);
+      const [records, embeddings] = await Promise.all([
+        HealthDataModel.find({ userId: userObjectId })
+          .select('_id updatedAt')
+          .sort({ timestamp: -1 })
+          .lean<{ _id: Types.ObjectId; updatedAt: Date }[]>()
+          .exec(),
+        HealthEmbedding.find({ userId: userObjectId, provider, embeddingModel: model })
+          .select('healthDataId sourceUpdatedAt')
+          .lean<{ healthDataId: Types.ObjectId; sourceUpdatedAt: Date }[]>()
+          .exec()
+      ]);
+
+      const embeddedAt = new Map(embeddings.map((embedding) => [
+        embedding.healthDataId.toString(),
+        embedding.sourceUpdatedAt.getTime()
+      ]));
+      const ids = records
+        .filter((record) => {
+          const sourceUpdatedAt = embeddedAt.get(record._id.toString());
+          return sourceUpdatedAt === undefined || sourceUpdatedAt < record.updatedAt.getTime();
+        })
+        .slice(0, limit)
+        .map((record) => record._id.toString());
+
+      return ids.length > 0 ? await this.findHealthDataByIds(ids, userId) : [];
+    } catch (error) {
+      logger.error('Error finding health data to embed', {
+        error: (error as Error).message,
+        stack: (error as Error).stack,
+        userId
+      });
+
+      throw error;
+    }
+  }
+
+  /**
+   * Stores the embedding of a health data record, encrypted with the latest data key of
+   * its user, in place of any earlier one
+   *
+   * An embedding computed from an older version of the record than the one stored is
+   * discarded, so a slow provider can't overwrite a newer embedding with a stale one.
+   *
+   * @param healthData - Record the embedding was computed from, as read
+   * @param provider - Embedding provider the vector was computed with
+   * @param model - Embedding model the vector was computed with
+   * @param vector - The embedding
+   * @returns True if the embedding was stored
+   */
+  async saveHealthDataEmbedding(
+    healthData: HealthData,
+    provider: EmbeddingProviderType,
+    model: string,
+    vector: number[]
+  ): Promise<boolean> {
+    const { _id: healthDataId, updatedAt } = healthData as StoredHealthData & { updatedAt?: Date };
+    const userId = healthData.userId.toString();
+
+    try {
+      const sourceUpdatedAt = updatedAt || new Date();
+      const { version, key } = await this.dataKeyService.getActiveDataKey(userId);
+
+      await HealthEmbedding.updateOne(
+        { healthDataId, sourceUpdatedAt: { $lte: sourceUpdatedAt } },
+        {
+          $set: {
+            userId: healthData.userId,
+            type: healthData.type,
+            timestamp: healthData.timestamp,
+            provider,
+            embeddingModel: model,
+            keyVersion: version,
+            vector: encryptJson(key, encodeVector(vector), `${userId}:${healthDataId.toString()}:embedding`),
+            sourceUpdatedAt
+          }
+        },
+        { upsert: true }
+      ).exec();
+
+      return true;
+    } catch (error) {
+      // The upsert finds no embedding old enough to replace, and collides with the newer one
+      if ((error as { code?: number }).code === DUPLICATE_KEY_ERROR_CODE) {
+        return false;
+      }
+
+      logger.error('Error saving health data embedding', {
+        error: (error as Error).message,
+        stack: (error as Error).stack,
+        id: healthDataId.toString(),
+        userId
+      });
+
+      throw error;
+    }
+  }
+
+  /**
+   * Finds the embeddings of a user's health data records computed with a given model
+   *
+   * @param userId - ID of the user
+   * @param provider - Embedding provider in use
+   * @param model - Embedding model in use
+   * @returns The embeddings, with their vectors decrypted
+   */
+  async findHealthDataEmbeddings(
+    userId: string,
+    provider: EmbeddingProviderType,
+    model: string
+  ): Promise<HealthDataEmbedding[]> {
+    try {
+      const embeddings = await HealthEmbedding.find({
+        userId: new Types.ObjectId(userId),
+        provider,
+        embeddingModel: model
+      })
+        .lean()
+        .exec();
+
+      return await Promise.all(embeddings.map(async (embedding) => {
+        const key = await this.dataKeyService.getDataKey(userId, embedding.keyVersion);
+        const encoded = decryptJson<string>(
+          key,
+          embedding.vector,
+          `${userId}:${embedding.healthDataId.toString()}:embedding`
+        );
+
+        return {
+          healthDataId: embedding.healthDataId,
+          type: embedding.type,
+          timestamp: embedding.timestamp,
+          vector: decodeVector(encoded)
+        };
+      }));
+    } catch (error) {
+      logger.error('Error finding health data embeddings', {
+        error: (error as Error).message,
+        stack: (error as Error).stack,
+        userId
+      });
+
+      throw error;
+    }
+  }
+
+  /**
+   * Brings every stored health data record up to date with the current keys: records
+   * stored in plaintext are encrypted, and records encrypted with an older data key
+   * version of their user are re-encrypted with the latest one. Safe to run again, e.g.
+   * after it was interrupted.
+   *
+   * @param options - reindex rebuilds the blind indexes of records that are otherwise
+   *                  up to date, needed after the blind index key has changed
+   * @returns Numbers of records encrypted, re-encrypted, reindexed and left unchanged
+   */
+  async encryptAllHealthData(options: { reindex?: boolean } = {}): Promise<HealthDataEncryptionSummary> {
+    const summary: HealthDataEncryptionSummary = { encrypted: 0, reencrypted: 0, reindexed: 0, unchanged: 0 };
+    const activeVersions = new Map<string, number>();
+
+    try {
+      const cursor = HealthDataModel.find().sort({ _id: 1 }).cursor();
+
+      for await (const healthData of cursor) {
+        const userId = healthData.userId.toString();
+        let activeVersion = activeVersions.get(userId);
+        if (activeVersion === undefined) {
+          activeVersion = (await this.dataKeyService.getActiveDataKey(userId)).version;
+          activeVersions.set(userId, activeVersion);
+        }
+
+        if (!healthData.encryption) {
+          summary.encrypted++;
+        } else if (healthData.encryption.keyVersion !== activeVersion) {
+          summary.reencrypted++;
+        } else if (options.reindex) {
+          summary.reindexed++;
+        } else {
+          summary.unchanged++;
+          continue;
+        }
+
+        const current = await this.openHealthData(healthData.toObject());
+        healthData.set({ data: current.data, metadata: current.metadata, encryption: undefined });
+        await this.sealHealthData(healthData);
+        await healthData.save();
+      }
+
+      logger.info('Health data encryption migrated', { ...summary });
+
+      return summary;
+    } catch (error) {
+      logger.error('Error encrypting health data', {
+        error: (error as Error).message,
+        stack: (error as Error).stack,
+        ...summary
+      });
+
+      throw error;
+    }
+  }
+
+  /**
+   * Encrypts the sensitive fields of a plaintext record with the latest data key of its
+   * user, and builds its blind indexes
+   *
+   * @param healthData - Record about to be saved, with its fields in plaintext
+   */
+  private async sealHealthData(healthData: HealthDataDocument): Promise<void> {
+    const userId = healthData.userId.toString();
+    const plaintext = { data: healthData.data, metadata: healthData.metadata };
+    const { version, key } = await this.dataKeyService.getActiveDataKey(userId);
+    const sealed = sealHealthFields(key, version, `${userId}:${String(healthData._id)}`, plaintext);
+
+    healthData.set({
+      data: sealed.data,
+      metadata: sealed.metadata,
+      encryption: sealed.encryption,
+      blindIndex: buildHealthDataBlindIndex(userId, plaintext)
+    });
+    healthData.markModified('data');
+    healthData.markModified('metadata');
+  }
+
+  /**
+   * Decrypts a stored record, leaving out its encrypted fields and blind indexes
+   *
+   * @param stored - Record as stored
+   * @returns The record with all of its fields in plaintext
+   */
+  private async openHealthData(stored: StoredHealthData): Promise<HealthData> {
+    const { encryption, ...healthData } = stored;
+    delete healthData.blindIndex;
+    if (!encryption) {
+      return healthData;
+    }
+
+    const userId = healthData.userId.toString();
+    const key = await this.dataKeyService.getDataKey(userId, encryption.keyVersion);
+    const { data, metadata } = openHealthFields<HealthData['data'], HealthDataMetadata>(
+      key,
+      `${userId}:${healthData._id.toString()}`,
+      { data: healthData.data, metadata: healthData.metadata, encryption }
+    );
+
+    return { ...healthData, data, metadata };
+  }
+}
@@ -14,20 +14,101 @@ export {
   findById, 
   findByEmail, 
   createUser, 
-  getUserById 
+  getUserById,
+  updateUserProfileById,
+  updateUserPassword,
+  recordFailedLogin,
+  lockUserLogin,
+  resetFailedLogins,
+  setTwoFactorSecret,
+  enableTwoFactorForUser,
+  recordTwoFactorStep,
+  consumeRecoveryCode,
+  disableTwoFactorForUser,
+  deleteUserById
 } from './user.repository';
 
+// Re-export refresh token repository functions
+export {
+  createRefreshToken,
+  findRefreshTokenByHash,
+  rotateRefreshToken,
+  revokeTokenFamily,
+  revokeRefreshTokensByUserId,
+  deleteRefreshTokensByUserId
+} from './refresh-token.repository';
+
+// Re-export password reset token repository functions
+export {
+  createPasswordResetToken,
+  consumePasswordResetToken,
+  deletePasswordResetTokensByUserId
+} from './password-reset-token.repository';
+
+// Re-export login attempt repository functions
+export {
+  findLoginAttemptByIp,
+  findLoginAttemptByEmail,
+  recordFailedLoginForIp,
+  recordFailedLoginForEmail,
+  lockIp,
+  lockEmail
+} from './login-attempt.repository';
+
+// Re-export account deletion repository functions
+export {
+  findAccountDeletionByUserId,
+  startAccountDeletion,
+  markAccountDeletionStepCompleted,
+  markAccountDeletionCompleted,
+  markAccountDeletionFailed
+} from './account-deletion.repository';
+
+// Re-export data export repository functions
+export {
+  createDataExport,
+  findDataExportById,
+  findDataExportsByUserId,
+  markDataExportProcessing,
+  markDataExportCompleted,
+  markDataExportFailed,
+  deleteDataExports
+} from './data-export.repository';
+
+// Re-export data key repository functions
+export {
+  findLatestDataKey,
+  findDataKey,
+  createDataKey,
+  findDataKeysNotWrappedWith,
+  updateWrappedDataKey,
+  deleteDataKeysByUserId
+} from './data-key.repository';
+
+// Re-export audit log repository functions
+export {
+  createAuditEntries,
+  findAuditEntries
+} from './audit-entry.repository';
+
 // Re-export chat repository functions
 export { 
   getUserConversations, 
   getConversationById, 
   createConversation, 
+  updateConversation,
+  updateGeneratedTitle,
+  updateConversationSummary,
+  deleteConversation,
   getConversationMessages, 
+  countConversationMessages,
   createMessage, 
   createUserMessage, 
   createAssistantMessage, 
   createSystemMessage, 
-  getConversationHistory 
+  getConversationHistory,
+  getAllUserConversationsWithMessages,
+  deleteAllUserConversations
 } from './chat.repository';
 
 // Re-export repository classes
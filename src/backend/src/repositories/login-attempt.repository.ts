@@ -0,0 +1,190 @@
+/**
+ * Login Attempt Repository Module
+ *
+ * Provides data access functions for the failed login counters of IP addresses and of
+ * emails that belong to no account. Counters are updated atomically, so concurrent login
+ * attempts from the same address or for the same email cannot get past the failed
+ * attempt limit.
+ *
+ * @module repositories/login-attempt.repository
+ */
+
+import LoginAttempt from '../models/login-attempt.model';
+import { LoginAttemptDocument } from '../types/auth.types';
+import logger from '../config/logger';
+
+/**
+ * What a set of counters belongs to: an IP address or a normalized email
+ */
+type LoginAttemptKey = { ip: string } | { email: string };
+
+/**
+ * Finds the failed login counters of an IP address
+ *
+ * @param ip - IP address the login came from
+ * @returns Promise resolving to the counters, or null if the address has none
+ */
+export async function findLoginAttemptByIp(ip: string): Promise<LoginAttemptDocument | null> {
+  return findLoginAttempt({ ip });
+}
+
+/**
+ * Finds the failed login counters of an email that belongs to no account
+ *
+ * @param email - Normalized email the login was for
+ * @returns Promise resolving to the counters, or null if the email has none
+ */
+export async function findLoginAttemptByEmail(email: string): Promise<LoginAttemptDocument | null> {
+  return findLoginAttempt({ email });
+}
+
+/**
+ * Counts a failed login from an IP address
+ *
+ * Failures from before the start of the window are forgotten, so the count restarts at 1.
+ *
+ * @param ip - IP address the login came from
+ * @param windowStart - Start of the window failed logins are counted in
+ * @param expiresAt - Time after which the counters are removed if nothing else fails
+ * @returns Promise resolving to the updated counters
+ */
+export async function recordFailedLoginForIp(
+  ip: string,
+  windowStart: Date,
+  expiresAt: Date
+): Promise<LoginAttemptDocument> {
+  return recordFailedLoginAttempt({ ip }, windowStart, expiresAt);
+}
+
+/**
+ * Counts a failed login for an email that belongs to no account
+ *
+ * Failures from before the start of the window are forgotten, so the count restarts at 1.
+ *
+ * @param email - Normalized email the login was for
+ * @param windowStart - Start of the window failed logins are counted in
+ * @param expiresAt - Time after which the counters are removed if nothing else fails
+ * @returns Promise resolving to the updated counters
+ */
+export async function recordFailedLoginForEmail(
+  email: string,
+  windowStart: Date,
+  expiresAt: Date
+): Promise<LoginAttemptDocument> {
+  return recordFailedLoginAttempt({ email }, windowStart, expiresAt);
+}
+
+/**
+ * Locks logins from an IP address and starts counting failures from zero again
+ *
+ * @param ip - IP address to lock
+ * @param lockedUntil - Time the lockout ends
+ * @param expiresAt - Time after which the counters are removed, forgetting the lockout
+ * @returns Promise resolving when the address has been locked
+ */
+export async function lockIp(ip: string, lockedUntil: Date, expiresAt: Date): Promise<void> {
+  return lockLoginAttempt({ ip }, lockedUntil, expiresAt);
+}
+
+/**
+ * Locks logins for an email that belongs to no account and starts counting failures
+ * from zero again
+ *
+ * @param email - Normalized email to lock
+ * @param lockedUntil - Time the lockout ends
+ * @param expiresAt - Time after which the counters are removed, forgetting the lockout
+ * @returns Promise resolving when the email has been locked
+ */
+export async function lockEmail(email: string, lockedUntil: Date, expiresAt: Date): Promise<void> {
+  return lockLoginAttempt({ email }, lockedUntil, expiresAt);
+}
+
+/**
+ * Finds the failed login counters of an IP address or email
+ *
+ * @param key - IP address or email the counters belong to
+ * @returns Promise resolving to the counters, or null if there are none
+ */
+async function findLoginAttempt(key: LoginAttemptKey): Promise<LoginAttemptDocument | null> {
+  try {
+    return await LoginAttempt.findOne(key);
+  } catch (error) {
+    logger.error('Error finding login attempts', {
+      ...key,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    throw error;
+  }
+}
+
+/**
+ * Counts a failed login for an IP address or email
+ *
+ * @param key - IP address or email the counters belong to
+ * @param windowStart - Start of the window failed logins are counted in
+ * @param expiresAt - Time after which the counters are removed if nothing else fails
+ * @returns Promise resolving to the updated counters
+ */
+async function recordFailedLoginAttempt(
+  key: LoginAttemptKey,
+  windowStart: Date,
+  expiresAt: Date
+): Promise<LoginAttemptDocument> {
+  try {
+    const now = new Date();
+
+    // An update pipeline reads the previous failure time and increments in one step
+    const loginAttempt = await LoginAttempt.findOneAndUpdate(
+      key,
+      [{
+        $set: {
+          failedLoginAttempts: {
+            $cond: [
+              { $gte: ['$lastFailedLoginAt', windowStart] },
+              { $add: [{ $ifNull: ['$failedLoginAttempts', 0] }, 1] },
+              1
+            ]
+          },
+          lastFailedLoginAt: now,
+          lockoutCount: { $ifNull: ['$lockoutCount', 0] },
+          expiresAt
+        }
+      }],
+      { new: true, upsert: true }
+    );
+
+    return loginAttempt as LoginAttemptDocument;
+  } catch (error) {
+    logger.error('Error recording failed login', {
+      ...key,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    throw error;
+  }
+}
+
+/**
+ * Locks logins for an IP address or email and starts counting failures from zero again
+ *
+ * @param key - IP address or email to lock
+ * @param lockedUntil - Time the lockout ends
+ * @param expiresAt - Time after which the counters are removed, forgetting the lockout
+ * @returns Promise resolving when the lockout has been stored
+ */
+async function lockLoginAttempt(key: LoginAttemptKey, lockedUntil: Date, expiresAt: Date): Promise<void> {
+  try {
+    await LoginAttempt.updateOne(
+      key,
+      {
+        $set: { lockedUntil, failedLoginAttempts: 0, expiresAt },
+        $inc: { lockoutCount: 1 }
+      }
+    );
+  } catch (error) {
+    logger.error('Error locking login', {
+      ...key,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    throw error;
+  }
+}
@@ -0,0 +1,87 @@
+/**
+ * Password Reset Token Repository Module
+ *
+ * Provides data access functions for password reset tokens. Tokens are looked up by
+ * their SHA-256 hash and consumed with a conditional update, so that a token can only
+ * reset a password once even when it is presented twice at the same time.
+ *
+ * @module repositories/password-reset-token.repository
+ */
+
+import { Types } from 'mongoose'; // ^7.0.3
+import PasswordResetToken from '../models/password-reset-token.model';
+import { PasswordResetTokenDocument } from '../types/auth.types';
+import logger from '../config/logger';
+
+/**
+ * Persists a newly issued password reset token
+ *
+ * @param tokenData - Owner, token hash and expiry of the token
+ * @returns Promise resolving to the created password reset token document
+ */
+export async function createPasswordResetToken(tokenData: {
+  userId: string;
+  tokenHash: string;
+  expiresAt: Date;
+}): Promise<PasswordResetTokenDocument> {
+  try {
+    return await PasswordResetToken.create({
+      ...tokenData,
+      userId: new Types.ObjectId(tokenData.userId)
+    });
+  } catch (error) {
+    logger.error('Error creating password reset token', {
+      userId: tokenData.userId,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    throw error;
+  }
+}
+
+/**
+ * Marks a password reset token as used, provided it is unused and has not expired
+ *
+ * @param tokenHash - SHA-256 hash of the token
+ * @returns Promise resolving to the token document, or null if the token is unknown,
+ *          already used or expired
+ */
+export async function consumePasswordResetToken(tokenHash: string): Promise<PasswordResetTokenDocument | null> {
+  try {
+    const now = new Date();
+
+    return await PasswordResetToken.findOneAndUpdate(
+      {
+        tokenHash,
+        usedAt: { $exists: false },
+        expiresAt: { $gt: now }
+      },
+      { $set: { usedAt: now } },
+      { new: true }
+    );
+  } catch (error) {
+    logger.error('Error consuming password reset token', {
+      error: error instanceof Error ? error.message : String(error)
+    });
+    throw error;
+  }
+}
+
+/**
+ * Deletes every password reset token issued to a user, used or not
+ *
+ * @param userId - ID of the user
+ * @returns Promise resolving to the number of tokens deleted
+ */
+export async function deletePasswordResetTokensByUserId(userId: string): Promise<number> {
+  try {
+    const result = await PasswordResetToken.deleteMany({ userId: new Types.ObjectId(userId) });
+
+    return result.deletedCount;
+  } catch (error) {
+    logger.error('Error deleting password reset tokens for user', {
+      userId,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    throw error;
+  }
+}
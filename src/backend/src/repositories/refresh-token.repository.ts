@@ -0,0 +1,154 @@
+/**
+ * Refresh Token Repository Module
+ *
+ * Provides data access functions for persisted refresh tokens. Tokens are looked up by
+ * their SHA-256 hash and rotated or revoked with conditional updates so that two
+ * concurrent refreshes with the same token cannot both succeed.
+ *
+ * @module repositories/refresh-token.repository
+ */
+
+import { Types } from 'mongoose'; // ^7.0.3
+import RefreshToken from '../models/refresh-token.model';
+import { RefreshTokenDocument } from '../types/auth.types';
+import logger from '../config/logger';
+
+/**
+ * Persists a newly issued refresh token
+ *
+ * @param tokenData - Owner, token hash, family ID and expiry of the token
+ * @returns Promise resolving to the created refresh token document
+ */
+export async function createRefreshToken(tokenData: {
+  userId: string | Types.ObjectId;
+  tokenHash: string;
+  familyId: string;
+  expiresAt: Date;
+}): Promise<RefreshTokenDocument> {
+  try {
+    return await RefreshToken.create({
+      ...tokenData,
+      userId: typeof tokenData.userId === 'string'
+        ? new Types.ObjectId(tokenData.userId)
+        : tokenData.userId
+    });
+  } catch (error) {
+    logger.error('Error creating refresh token', {
+      userId: tokenData.userId.toString(),
+      familyId: tokenData.familyId,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    throw error;
+  }
+}
+
+/**
+ * Finds a refresh token by the hash of its value
+ *
+ * @param tokenHash - SHA-256 hash of the refresh token
+ * @returns Promise resolving to the refresh token document or null if not found
+ */
+export async function findRefreshTokenByHash(tokenHash: string): Promise<RefreshTokenDocument | null> {
+  try {
+    return await RefreshToken.findOne({ tokenHash });
+  } catch (error) {
+    logger.error('Error finding refresh token', {
+      error: error instanceof Error ? error.message : String(error)
+    });
+    throw error;
+  }
+}
+
+/**
+ * Marks a refresh token as rotated, provided it is still active
+ *
+ * @param tokenHash - SHA-256 hash of the token being rotated
+ * @param replacedBy - SHA-256 hash of the token replacing it
+ * @returns Promise resolving to true if the token was rotated, false if it had already
+ *          been rotated or revoked
+ */
+export async function rotateRefreshToken(tokenHash: string, replacedBy: string): Promise<boolean> {
+  try {
+    const result = await RefreshToken.updateOne(
+      {
+        tokenHash,
+        replacedBy: { $exists: false },
+        revokedAt: { $exists: false }
+      },
+      { $set: { replacedBy } }
+    );
+
+    return result.modifiedCount === 1;
+  } catch (error) {
+    logger.error('Error rotating refresh token', {
+      error: error instanceof Error ? error.message : String(error)
+    });
+    throw error;
+  }
+}
+
+/**
+ * Revokes every active token in a refresh token family
+ *
+ * @param familyId - Family ID shared by the tokens to revoke
+ * @returns Promise resolving to the number of tokens revoked
+ */
+export async function revokeTokenFamily(familyId: string): Promise<number> {
+  try {
+    const result = await RefreshToken.updateMany(
+      { familyId, revokedAt: { $exists: false } },
+      { $set: { revokedAt: new Date() } }
+    );
+
+    return result.modifiedCount;
+  } catch (error) {
+    logger.error('Error revoking refresh token family', {
+      familyId,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    throw error;
+  }
+}
+
+/**
+ * Revokes every active refresh token of a user, ending all of their sessions
+ *
+ * @param userId - ID of the user
+ * @returns Promise resolving to the number of tokens revoked
+ */
+export async function revokeRefreshTokensByUserId(userId: string): Promise<number> {
+  try {
+    const result = await RefreshToken.updateMany(
+      { userId: new Types.ObjectId(userId), revokedAt: { $exists: false } },
+      { $set: { revokedAt: new Date() } }
+    );
+
+    return result.modifiedCount;
+  } catch (error) {
+    logger.error('Error revoking refresh tokens for user', {
+      userId,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    throw error;
+  }
+}
+
+/**
+ * Deletes every refresh token issued to a user, revoked or not
+ *
+ * @param userId - ID of the user
+ * @returns Promise resolving to the number of tokens deleted
+ */
+export async function deleteRefreshTokensByUserId(userId: string): Promise<number> {
+  try {
+    const result = await RefreshToken.deleteMany({ userId: new Types.ObjectId(userId) });
+
+    return result.deletedCount;
+  } catch (error) {
+    logger.error('Error deleting refresh tokens for user', {
+      userId,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    throw error;
+  }
+}
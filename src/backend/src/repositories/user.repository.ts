@@ -10,7 +10,13 @@
 
 import { Types } from 'mongoose'; // ^7.0.3
 import User from '../models/user.model';
-import { UserDocument, CreateUserInput, UserRole, UserErrorType } from '../types/user.types';
+import {
+  UserDocument,
+  CreateUserInput,
+  UpdateUserProfileRequest,
+  UserRole,
+  UserErrorType
+} from '../types/user.types';
 import { NotFoundError } from '../utils/error.util';
 import logger from '../config/logger';
 
@@ -103,4 +109,338 @@ export async function getUserById(id: string | Types.ObjectId): Promise<UserDocu
   }
   
   return user;
-}
\ No newline at end of file
+}
+
+/**
+ * Updates the profile fields of a user. Fields set to null are removed.
+ * 
+ * @param id - User's ObjectId or string representation
+ * @param profileData - Profile fields to change
+ * @returns Promise resolving to the updated user document or null if not found
+ */
+export async function updateUserProfileById(
+  id: string | Types.ObjectId,
+  profileData: UpdateUserProfileRequest
+): Promise<UserDocument | null> {
+  try {
+    const userId = typeof id === 'string' ? new Types.ObjectId(id) : id;
+    
+    const $set: Record<string, unknown> = {};
+    const $unset: Record<string, ''> = {};
+    Object.entries(profileData).forEach(([field, value]) => {
+      if (value === null) {
+        $unset[field] = '';
+      } else if (value !== undefined) {
+        $set[field] = value;
+      }
+    });
+    
+    return await User.findByIdAndUpdate(
+      userId,
+      { $set, $unset },
+      { new: true, runValidators: true }
+    );
+  } catch (error) {
+    logger.error('Error updating user profile', { 
+      id: typeof id === 'string' ? id : id.toString(),
+      error: error instanceof Error ? error.message : String(error)
+    });
+    throw error;
+  }
+}
+
+/**
+ * Sets a new password for a user, hashing it before it is stored
+ * 
+ * Access tokens issued before the change are no longer accepted.
+ * 
+ * @param user - User document whose password changes
+ * @param password - The new plaintext password
+ * @returns Promise resolving to the saved user document
+ */
+export async function updateUserPassword(user: UserDocument, password: string): Promise<UserDocument> {
+  try {
+    // Saving the document runs the pre-save hook that hashes the password
+    user.password = password;
+    user.passwordChangedAt = new Date();
+    return await user.save();
+  } catch (error) {
+    logger.error('Error updating user password', { 
+      id: user._id.toString(),
+      error: error instanceof Error ? error.message : String(error)
+    });
+    throw error;
+  }
+}
+
+/**
+ * Counts a failed login for a user
+ * 
+ * Failures from before the start of the window are forgotten, so the count restarts at 1.
+ * 
+ * @param id - User's ObjectId or string representation
+ * @param windowStart - Start of the window failed logins are counted in
+ * @returns Promise resolving to the updated user document, or null if not found
+ */
+export async function recordFailedLogin(
+  id: string | Types.ObjectId,
+  windowStart: Date
+): Promise<UserDocument | null> {
+  try {
+    const userId = typeof id === 'string' ? new Types.ObjectId(id) : id;
+
+    // An update pipeline reads the previous failure time and increments in one step
+    return await User.findByIdAndUpdate(
+      userId,
+      [{
+        $set: {
+          failedLoginAttempts: {
+            $cond: [
+              { $gte: ['$lastFailedLoginAt', windowStart] },
+              { $add: [{ $ifNull: ['$failedLoginAttempts', 0] }, 1] },
+              1
+            ]
+          },
+          lastFailedLoginAt: new Date()
+        }
+      }],
+      { new: true }
+    );
+  } catch (error) {
+    logger.error('Error recording failed login', { 
+      id: typeof id === 'string' ? id : id.toString(),
+      error: error instanceof Error ? error.message : String(error)
+    });
+    throw error;
+  }
+}
+
+/**
+ * Locks logins to a user's account and starts counting failures from zero again
+ * 
+ * @param id - User's ObjectId or string representation
+ * @param lockedUntil - Time the lockout ends
+ * @returns Promise resolving when the account has been locked
+ */
+export async function lockUserLogin(id: string | Types.ObjectId, lockedUntil: Date): Promise<void> {
+  try {
+    const userId = typeof id === 'string' ? new Types.ObjectId(id) : id;
+
+    await User.updateOne(
+      { _id: userId },
+      {
+        $set: { lockedUntil, failedLoginAttempts: 0 },
+        $inc: { lockoutCount: 1 }
+      }
+    );
+  } catch (error) {
+    logger.error('Error locking user login', { 
+      id: typeof id === 'string' ? id : id.toString(),
+      error: error instanceof Error ? error.message : String(error)
+    });
+    throw error;
+  }
+}
+
+/**
+ * Clears the failed logins and lockouts of a user, e.g. after a successful login
+ * 
+ * @param id - User's ObjectId or string representation
+ * @returns Promise resolving when the counters have been cleared
+ */
+export async function resetFailedLogins(id: string | Types.ObjectId): Promise<void> {
+  try {
+    const userId = typeof id === 'string' ? new Types.ObjectId(id) : id;
+
+    await User.updateOne(
+      { _id: userId },
+      {
+        $set: { failedLoginAttempts: 0, lockoutCount: 0 },
+        $unset: { lastFailedLoginAt: 1, lockedUntil: 1 }
+      }
+    );
+  } catch (error) {
+    logger.error('Error resetting failed logins', { 
+      id: typeof id === 'string' ? id : id.toString(),
+      error: error instanceof Error ? error.message : String(error)
+    });
+    throw error;
+  }
+}
+
+/**
+ * Stores a new, encrypted authenticator secret for a user starting two-factor enrollment
+ * 
+ * Two-factor authentication stays off until a code generated from the secret has been
+ * confirmed.
+ * 
+ * @param id - User's ObjectId or string representation
+ * @param encryptedSecret - Encrypted authenticator secret
+ * @returns Promise resolving when the secret has been stored
+ */
+export async function setTwoFactorSecret(
+  id: string | Types.ObjectId,
+  encryptedSecret: string
+): Promise<void> {
+  try {
+    const userId = typeof id === 'string' ? new Types.ObjectId(id) : id;
+
+    await User.updateOne(
+      { _id: userId },
+      {
+        $set: { twoFactorSecret: encryptedSecret, twoFactorEnabled: false, twoFactorRecoveryCodes: [] },
+        $unset: { twoFactorLastUsedStep: 1 }
+      }
+    );
+  } catch (error) {
+    logger.error('Error storing two-factor secret', { 
+      id: typeof id === 'string' ? id : id.toString(),
+      error: error instanceof Error ? error.message : String(error)
+    });
+    throw error;
+  }
+}
+
+/**
+ * Turns two-factor authentication on for a user
+ * 
+ * @param id - User's ObjectId or string representation
+ * @param recoveryCodeHashes - Hashes of the recovery codes issued to the user
+ * @param usedStep - Time step of the code that confirmed the setup
+ * @returns Promise resolving when two-factor authentication is on
+ */
+export async function enableTwoFactorForUser(
+  id: string | Types.ObjectId,
+  recoveryCodeHashes: string[],
+  usedStep: number
+): Promise<void> {
+  try {
+    const userId = typeof id === 'string' ? new Types.ObjectId(id) : id;
+
+    await User.updateOne(
+      { _id: userId },
+      {
+        $set: {
+          twoFactorEnabled: true,
+          twoFactorRecoveryCodes: recoveryCodeHashes,
+          twoFactorLastUsedStep: usedStep
+        }
+      }
+    );
+  } catch (error) {
+    logger.error('Error enabling two-factor authentication', { 
+      id: typeof id === 'string' ? id : id.toString(),
+      error: error instanceof Error ? error.message : String(error)
+    });
+    throw error;
+  }
+}
+
+/**
+ * Records the time step of an accepted authenticator code, unless a code of the same or
+ * a later step was accepted already
+ * 
+ * The condition is part of the update, so a code can't be used twice, even concurrently.
+ * 
+ * @param id - User's ObjectId or string representation
+ * @param step - Time step of the accepted code
+ * @returns Promise resolving to true if the step was recorded, false if it was used up
+ */
+export async function recordTwoFactorStep(id: string | Types.ObjectId, step: number): Promise<boolean> {
+  try {
+    const userId = typeof id === 'string' ? new Types.ObjectId(id) : id;
+
+    const result = await User.updateOne(
+      {
+        _id: userId,
+        $or: [
+          { twoFactorLastUsedStep: { $exists: false } },
+          { twoFactorLastUsedStep: { $lt: step } }
+        ]
+      },
+      { $set: { twoFactorLastUsedStep: step } }
+    );
+
+    return result.modifiedCount === 1;
+  } catch (error) {
+    logger.error('Error recording two-factor code', { 
+      id: typeof id === 'string' ? id : id.toString(),
+      error: error instanceof Error ? error.message : String(error)
+    });
+    throw error;
+  }
+}
+
+/**
+ * Uses up a recovery code of a user
+ * 
+ * @param id - User's ObjectId or string representation
+ * @param codeHash - Hash of the recovery code
+ * @returns Promise resolving to true if the code was unused and is now used up
+ */
+export async function consumeRecoveryCode(id: string | Types.ObjectId, codeHash: string): Promise<boolean> {
+  try {
+    const userId = typeof id === 'string' ? new Types.ObjectId(id) : id;
+
+    const result = await User.updateOne(
+      { _id: userId, twoFactorRecoveryCodes: codeHash },
+      { $pull: { twoFactorRecoveryCodes: codeHash } }
+    );
+
+    return result.modifiedCount === 1;
+  } catch (error) {
+    logger.error('Error using recovery code', { 
+      id: typeof id === 'string' ? id : id.toString(),
+      error: error instanceof Error ? error.message : String(error)
+    });
+    throw error;
+  }
+}
+
+/**
+ * Turns two-factor authentication off for a user and forgets their secret and recovery codes
+ * 
+ * @param id - User's ObjectId or string representation
+ * @returns Promise resolving when two-factor authentication is off
+ */
+export async function disableTwoFactorForUser(id: string | Types.ObjectId): Promise<void> {
+  try {
+    const userId = typeof id === 'string' ? new Types.ObjectId(id) : id;
+
+    await User.updateOne(
+      { _id: userId },
+      {
+        $set: { twoFactorEnabled: false, twoFactorRecoveryCodes: [] },
+        $unset: { twoFactorSecret: 1, twoFactorLastUsedStep: 1 }
+      }
+    );
+  } catch (error) {
+    logger.error('Error disabling two-factor authentication', { 
+      id: typeof id === 'string' ? id : id.toString(),
+      error: error instanceof Error ? error.message : String(error)
+    });
+    throw error;
+  }
+}
+
+/**
+ * Deletes a user by ID
+ * 
+ * @param id - User's ObjectId or string representation
+ * @returns Promise resolving to true if the user was deleted, false if not found
+ */
+export async function deleteUserById(id: string | Types.ObjectId): Promise<boolean> {
+  try {
+    const userId = typeof id === 'string' ? new Types.ObjectId(id) : id;
+    
+    const result = await User.deleteOne({ _id: userId });
+    
+    return result.deletedCount === 1;
+  } catch (error) {
+    logger.error('Error deleting user', { 
+      id: typeof id === 'string' ? id : id.toString(),
+      error: error instanceof Error ? error.message : String(error)
+    });
+    throw error;
+  }
+}
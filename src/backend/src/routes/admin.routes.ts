@@ -0,0 +1,35 @@
+/**
+ * Admin Routes Module
+ *
+ * This module defines API endpoints for administrators of the Health Advisor application.
+ * Every route requires an authenticated user with the admin role.
+ *
+ * @module routes/admin.routes
+ */
+
+import express, { Router } from 'express'; // ^4.18.2
+import { AdminController } from '../controllers/admin.controller';
+import { authenticate, requireRole, withAuthenticatedUser } from '../middlewares/auth.middleware';
+import { validateQuery } from '../middlewares/validation.middleware';
+import { validateAdminAuditLogSchema } from '../validators/audit.validator';
+import { UserRole } from '../types/user.types';
+
+// Create a new router instance
+const router: Router = express.Router();
+
+// Every admin route requires an authenticated administrator
+router.use(authenticate, requireRole(UserRole.ADMIN));
+
+/**
+ * @route GET /api/admin/audit
+ * @desc Query the audit log of access to health records and files across all users,
+ *       newest first. Filterable by actor, owner, resource, action, IP address and date range.
+ * @access Admin
+ */
+router.get(
+  '/audit',
+  validateQuery(validateAdminAuditLogSchema()),
+  withAuthenticatedUser(AdminController.getAuditLog)
+);
+
+export default router;
@@ -2,17 +2,42 @@
  * Authentication Routes Module
  * 
  * Defines Express routes for authentication operations including user signup, login,
- * and token validation. This module configures API endpoints with appropriate
- * middleware for data validation and request handling.
+ * token refresh, logout, token validation, two-factor authentication, and password changes
+ * and resets. This module configures API endpoints with appropriate
+ * middleware for data validation and request handling. Endpoints that accept credentials or reset
+ * codes are rate limited per IP address against brute force attacks.
  * 
  * @module routes/auth.routes
  */
 
 import express, { Router } from 'express'; // ^4.18.2
-import { signupHandler, loginHandler } from '../controllers/auth.controller';
-import { validateSignupSchema, validateLoginSchema } from '../validators/auth.validator';
+import {
+  signupHandler,
+  loginHandler,
+  twoFactorLoginHandler,
+  refreshHandler,
+  logoutHandler,
+  changePasswordHandler,
+  forgotPasswordHandler,
+  resetPasswordHandler,
+  setupTwoFactorHandler,
+  enableTwoFactorHandler,
+  disableTwoFactorHandler
+} from '../controllers/auth.controller';
+import {
+  validateSignupSchema,
+  validateLoginSchema,
+  validateRefreshTokenSchema,
+  validateChangePasswordSchema,
+  validateForgotPasswordSchema,
+  validateResetPasswordSchema,
+  validateTwoFactorLoginSchema,
+  validateEnableTwoFactorSchema,
+  validateDisableTwoFactorSchema
+} from '../validators/auth.validator';
 import { validateBody } from '../middlewares/validation.middleware';
-import { authenticate } from '../middlewares/auth.middleware';
+import { authenticate, withAuthenticatedUser } from '../middlewares/auth.middleware';
+import { authRateLimitMiddleware } from '../middlewares/rate-limit.middleware';
 import logger from '../config/logger';
 
 /**
@@ -27,6 +52,7 @@ function createAuthRouter(): Router {
   // POST /signup - User registration
   router.post(
     '/signup',
+    authRateLimitMiddleware,
     validateBody(validateSignupSchema()),
     signupHandler
   );
@@ -34,10 +60,83 @@ function createAuthRouter(): Router {
   // POST /login - User authentication
   router.post(
     '/login',
+    authRateLimitMiddleware,
     validateBody(validateLoginSchema()),
     loginHandler
   );
   
+  // POST /login/2fa - Second login step for users with two-factor authentication
+  router.post(
+    '/login/2fa',
+    authRateLimitMiddleware,
+    validateBody(validateTwoFactorLoginSchema()),
+    twoFactorLoginHandler
+  );
+  
+  // POST /refresh - Exchange a refresh token for a new token pair
+  router.post(
+    '/refresh',
+    validateBody(validateRefreshTokenSchema()),
+    refreshHandler
+  );
+  
+  // POST /logout - Revoke the session's refresh tokens
+  // Does not require authentication since the access token may already have expired
+  router.post(
+    '/logout',
+    validateBody(validateRefreshTokenSchema()),
+    logoutHandler
+  );
+  
+  // POST /password/change - Change the password of the signed-in user
+  // Requires the current password and revokes every other session
+  router.post(
+    '/password/change',
+    authenticate,
+    validateBody(validateChangePasswordSchema()),
+    withAuthenticatedUser(changePasswordHandler)
+  );
+  
+  // POST /password/forgot - Email a single-use reset code
+  router.post(
+    '/password/forgot',
+    authRateLimitMiddleware,
+    validateBody(validateForgotPasswordSchema()),
+    forgotPasswordHandler
+  );
+  
+  // POST /password/reset - Set a new password with a reset code
+  router.post(
+    '/password/reset',
+    authRateLimitMiddleware,
+    validateBody(validateResetPasswordSchema()),
+    resetPasswordHandler
+  );
+  
+  // POST /2fa/setup - Generate an authenticator secret for the signed-in user
+  router.post(
+    '/2fa/setup',
+    authenticate,
+    withAuthenticatedUser(setupTwoFactorHandler)
+  );
+  
+  // POST /2fa/enable - Confirm the authenticator app and turn two-factor authentication on
+  router.post(
+    '/2fa/enable',
+    authenticate,
+    validateBody(validateEnableTwoFactorSchema()),
+    withAuthenticatedUser(enableTwoFactorHandler)
+  );
+  
+  // POST /2fa/disable - Turn two-factor authentication off
+  // Requires the password and a code, so a stolen session alone can't turn it off
+  router.post(
+    '/2fa/disable',
+    authenticate,
+    validateBody(validateDisableTwoFactorSchema()),
+    withAuthenticatedUser(disableTwoFactorHandler)
+  );
+  
   // GET /validate - Validate authentication token
   // This route simply returns success if the token is valid
   router.get(
@@ -10,7 +10,7 @@
  */
 
 import express from 'express'; // ^4.18.2
-import { authenticate } from '../middlewares/auth.middleware';
+import { authenticate, withAuthenticatedUser } from '../middlewares/auth.middleware';
 import { 
   validateBody,
   validateQuery,
@@ -20,13 +20,17 @@ import {
   validateSendMessageSchema,
   validateGetChatHistorySchema,
   validateGetConversationsSchema,
+  validateUpdateConversationSchema,
   validateConversationIdSchema
 } from '../validators/chat.validator';
 import {
   handleSendMessage,
+  handleStreamMessage,
   handleGetConversations,
   handleCreateConversation,
   handleGetConversation,
+  handleUpdateConversation,
+  handleDeleteConversation,
   handleGetChatHistory
 } from '../controllers/chat.controller';
 
@@ -54,7 +58,20 @@ function createChatRouter(): express.Router {
   router.post(
     '/message',
     validateBody(validateSendMessageSchema()),
-    handleSendMessage
+    withAuthenticatedUser(handleSendMessage)
+  );
+
+  /**
+   * POST /message/stream
+   * 
+   * Streaming variant of POST /message. Accepts the same request body, but relays the
+   * LLM response as Server-Sent Events while it is generated: 'delta' events carry chunks
+   * of text, and a final 'done' event carries the stored message and conversation ID.
+   */
+  router.post(
+    '/message/stream',
+    validateBody(validateSendMessageSchema()),
+    withAuthenticatedUser(handleStreamMessage)
   );
 
   /**
@@ -67,7 +84,7 @@ function createChatRouter(): express.Router {
   router.post(
     '/conversations',
     validateBody(validateSendMessageSchema()), // Reusing the schema as it needs initial message
-    handleCreateConversation
+    withAuthenticatedUser(handleCreateConversation)
   );
 
   /**
@@ -76,11 +93,13 @@ function createChatRouter(): express.Router {
    * Retrieves a paginated list of the user's conversations.
    * Each conversation includes metadata such as title, creation date, and last message time.
    * Useful for displaying a history of health discussions with the LLM.
+   * 
+   * Lists active conversations unless archived=true is passed; pinned conversations come first.
    */
   router.get(
     '/conversations',
     validateQuery(validateGetConversationsSchema()),
-    handleGetConversations
+    withAuthenticatedUser(handleGetConversations)
   );
 
   /**
@@ -92,7 +111,31 @@ function createChatRouter(): express.Router {
   router.get(
     '/conversations/:id',
     validateParams(validateConversationIdSchema()),
-    handleGetConversation
+    withAuthenticatedUser(handleGetConversation)
+  );
+
+  /**
+   * PATCH /conversations/:id
+   * 
+   * Renames, archives or pins a conversation. Accepts any of title, archived and pinned,
+   * and returns the updated conversation.
+   */
+  router.patch(
+    '/conversations/:id',
+    validateParams(validateConversationIdSchema()),
+    validateBody(validateUpdateConversationSchema()),
+    withAuthenticatedUser(handleUpdateConversation)
+  );
+
+  /**
+   * DELETE /conversations/:id
+   * 
+   * Permanently deletes a conversation together with all of its messages.
+   */
+  router.delete(
+    '/conversations/:id',
+    validateParams(validateConversationIdSchema()),
+    withAuthenticatedUser(handleDeleteConversation)
   );
 
   /**
@@ -106,7 +149,7 @@ function createChatRouter(): express.Router {
     '/conversations/:id/messages',
     validateParams(validateConversationIdSchema()),
     validateQuery(validateGetChatHistorySchema()),
-    handleGetChatHistory
+    withAuthenticatedUser(handleGetChatHistory)
   );
 
   return router;
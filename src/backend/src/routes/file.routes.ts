@@ -0,0 +1,34 @@
+/**
+ * File Routes Module
+ * 
+ * This module defines API endpoints for downloading files attached to health data in the
+ * Health Advisor application, such as meal photos, lab result images and symptom voice
+ * recordings. These are the URLs returned for health records by the file service.
+ * 
+ * @module routes/file.routes
+ */
+
+import express, { Router } from 'express'; // ^4.18.2
+import { FileController } from '../controllers/file.controller';
+import { authenticate, withAuthenticatedUser } from '../middlewares/auth.middleware';
+import { validateParams, validateQuery } from '../middlewares/validation.middleware';
+import { validateFileIdSchema, validateFileQuerySchema } from '../validators/file.validator';
+
+// Create a new router instance
+const router: Router = express.Router();
+
+/**
+ * @route GET /api/files/:id
+ * @desc Stream a file owned by the current user, optionally its thumbnail (?thumbnail=true).
+ *       Supports ETag conditional requests and byte ranges for seeking in audio.
+ * @access Private (requires authentication)
+ */
+router.get(
+  '/:id',
+  authenticate,
+  validateParams(validateFileIdSchema()),
+  validateQuery(validateFileQuerySchema()),
+  withAuthenticatedUser(FileController.getFile)
+);
+
+export default router;
@@ -1,7 +1,7 @@
 import express, { Router } from 'express'; // ^4.18.2
 import mongoose from 'mongoose';
 import { HealthController } from '../controllers/health.controller';
-import { authenticate } from '../middlewares/auth.middleware';
+import { authenticate, withAuthenticatedUser } from '../middlewares/auth.middleware';
 import {
   validateBody,
   validateQuery,
@@ -14,7 +14,10 @@ import {
 import {
   validateCreateHealthDataSchema,
   validateGetHealthDataSchema,
-  validateHealthDataIdSchema
+  validateHealthDataIdSchema,
+  validateHealthInsightsSchema,
+  validateAnalyteParamSchema,
+  validateAnalyteHistorySchema
 } from '../validators/health.validator';
 
 /**
@@ -41,7 +44,7 @@ function createHealthRouter(connection: mongoose.Connection): Router {
     healthDataUpload().array('files', 5), // Allow up to 5 files
     handleUploadError,
     validateBody(validateCreateHealthDataSchema()),
-    healthController.createHealthData
+    withAuthenticatedUser(healthController.createHealthData)
   );
   
   // GET /health - Get all health data with filtering and pagination
@@ -49,7 +52,7 @@ function createHealthRouter(connection: mongoose.Connection): Router {
     '/',
     authenticate,
     validateQuery(validateGetHealthDataSchema()),
-    healthController.getHealthData
+    withAuthenticatedUser(healthController.getHealthData)
   );
   
   // GET /health/llm-context - Get health context for LLM
@@ -57,7 +60,25 @@ function createHealthRouter(connection: mongoose.Connection): Router {
   router.get(
     '/llm-context',
     authenticate,
-    healthController.getHealthContext
+    withAuthenticatedUser(healthController.getHealthContext)
+  );
+  
+  // GET /health/insights - Get aggregated health insights over a date range
+  // This must be defined before the :id route to avoid route conflicts
+  router.get(
+    '/insights',
+    authenticate,
+    validateQuery(validateHealthInsightsSchema()),
+    withAuthenticatedUser(healthController.getHealthInsights)
+  );
+  
+  // GET /health/analytes/:analyte/history - Get the history of a lab analyte
+  router.get(
+    '/analytes/:analyte/history',
+    authenticate,
+    validateParams(validateAnalyteParamSchema()),
+    validateQuery(validateAnalyteHistorySchema()),
+    withAuthenticatedUser(healthController.getAnalyteHistory)
   );
   
   // GET /health/:id - Get specific health data by ID
@@ -65,7 +86,7 @@ function createHealthRouter(connection: mongoose.Connection): Router {
     '/:id',
     authenticate,
     validateParams(validateHealthDataIdSchema()),
-    healthController.getHealthDataById
+    withAuthenticatedUser(healthController.getHealthDataById)
   );
   
   // PUT /health/:id - Update health data
@@ -76,7 +97,15 @@ function createHealthRouter(connection: mongoose.Connection): Router {
     handleUploadError,
     validateBody(validateCreateHealthDataSchema()),
     validateParams(validateHealthDataIdSchema()),
-    healthController.updateHealthData
+    withAuthenticatedUser(healthController.updateHealthData)
+  );
+  
+  // POST /health/:id/extract - Read a lab result's photo into a draft with OCR
+  router.post(
+    '/:id/extract',
+    authenticate,
+    validateParams(validateHealthDataIdSchema()),
+    withAuthenticatedUser(healthController.extractLabResult)
   );
   
   // DELETE /health/:id - Delete health data
@@ -84,7 +113,7 @@ function createHealthRouter(connection: mongoose.Connection): Router {
     '/:id',
     authenticate,
     validateParams(validateHealthDataIdSchema()),
-    healthController.deleteHealthData
+    withAuthenticatedUser(healthController.deleteHealthData)
   );
   
   return router;
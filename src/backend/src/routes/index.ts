@@ -1,15 +1,18 @@
 /**
  * Central routing module that aggregates and exports all API routes for the Health Advisor backend application.
- * This file imports individual route modules (auth, chat, health, user) and combines them into a single Express router
+ * This file imports individual route modules (admin, auth, chat, file, health, metrics, user) and combines them into a single Express router
  * with appropriate path prefixes.
  *
  * @module routes/index
  */
 
 import express, { Router } from 'express'; // ^4.18.2
+import adminRoutes from './admin.routes';
 import authRoutes from './auth.routes';
 import chatRoutes from './chat.routes';
+import fileRoutes from './file.routes';
 import healthRoutes from './health.routes';
+import metricsRoutes from './metrics.routes';
 import userRoutes from './user.routes';
 import logger from '../config/logger';
 
@@ -28,12 +31,21 @@ function createRoutes(connection: mongoose.Connection): Router {
   // Import and initialize chat routes under /chat
   router.use('/chat', chatRoutes());
 
+  // Import and mount file download routes under /files
+  router.use('/files', fileRoutes);
+
   // Import and initialize health routes with database connection under /health
   router.use('/health', healthRoutes(connection));
 
   // Import and mount user routes under /users
   router.use('/users', userRoutes);
 
+  // Import and mount administrator routes under /admin
+  router.use('/admin', adminRoutes);
+
+  // Import and mount Prometheus metrics routes at /metrics and /mobile-metrics
+  router.use(metricsRoutes);
+
   // Log registration of all route modules
   logger.info('Route modules registered');
 
@@ -0,0 +1,44 @@
+/**
+ * Metrics Routes Module
+ *
+ * This module defines the endpoints scraped by Prometheus (see
+ * infrastructure/monitoring/prometheus/prometheus.yml) and the endpoint the mobile app
+ * sends its timing beacons to.
+ *
+ * @module routes/metrics.routes
+ */
+
+import express, { Router } from 'express'; // ^4.18.2
+import { MetricsController } from '../controllers/metrics.controller';
+import { validateBody } from '../middlewares/validation.middleware';
+import { validateMobileMetricsSchema } from '../validators/metrics.validator';
+
+// Create a new router instance
+const router: Router = express.Router();
+
+/**
+ * @route GET /api/metrics
+ * @desc Backend metrics in the Prometheus text format
+ * @access Public (scraped by Prometheus on the internal network)
+ */
+router.get('/metrics', MetricsController.getMetrics);
+
+/**
+ * @route GET /api/mobile-metrics
+ * @desc Metrics reported by the mobile app in the Prometheus text format
+ * @access Public (scraped by Prometheus on the internal network)
+ */
+router.get('/mobile-metrics', MetricsController.getMobileMetrics);
+
+/**
+ * @route POST /api/mobile-metrics
+ * @desc Record a batch of timing beacons from the mobile app
+ * @access Public (beacons are sent before sign in, e.g. app launch time)
+ */
+router.post(
+  '/mobile-metrics',
+  validateBody(validateMobileMetricsSchema()),
+  MetricsController.reportMobileMetrics
+);
+
+export default router;
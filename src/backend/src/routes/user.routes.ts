@@ -2,7 +2,8 @@
  * User Routes Module
  * 
  * This module defines API endpoints for user profile management in the Health Advisor
- * application. It configures routes for retrieving user profile information and applies
+ * application. It configures routes for retrieving and updating user profile information,
+ * exporting the user's data, viewing its access history and deleting the account, and applies
  * appropriate middleware for authentication and validation.
  * 
  * @module routes/user.routes
@@ -10,7 +11,14 @@
 
 import express, { Router } from 'express'; // ^4.18.2
 import { UserController } from '../controllers/user.controller';
-import { authenticate } from '../middlewares/auth.middleware';
+import { authenticate, withAuthenticatedUser } from '../middlewares/auth.middleware';
+import { validateBody, validateParams, validateQuery } from '../middlewares/validation.middleware';
+import {
+  validateDeleteAccountSchema,
+  validateExportIdSchema,
+  validateUserProfileSchema
+} from '../validators/user.validator';
+import { validateGetAuditLogSchema } from '../validators/audit.validator';
 
 // Create a new router instance
 const router: Router = express.Router();
@@ -20,6 +28,79 @@ const router: Router = express.Router();
  * @desc Get current user profile information
  * @access Private (requires authentication)
  */
-router.get('/me', authenticate, UserController.getCurrentUser);
+router.get('/me', authenticate, withAuthenticatedUser(UserController.getCurrentUser));
 
-export default router;
\ No newline at end of file
+/**
+ * @route PUT /api/users/me
+ * @desc Update the current user's profile: display name and the health profile the
+ *       advisor takes into account. Omitted fields are left unchanged; null clears a field.
+ * @access Private (requires authentication)
+ */
+router.put(
+  '/me',
+  authenticate,
+  validateBody(validateUserProfileSchema()),
+  withAuthenticatedUser(UserController.updateProfile)
+);
+
+/**
+ * @route DELETE /api/users/me
+ * @desc Permanently delete the current user's account with all of their health data,
+ *       files and conversations. Requires the password to be re-entered. Repeating the
+ *       request after a failure resumes the deletion.
+ * @access Private (requires authentication)
+ */
+router.delete(
+  '/me',
+  authenticate,
+  validateBody(validateDeleteAccountSchema()),
+  withAuthenticatedUser(UserController.deleteAccount)
+);
+
+/**
+ * @route POST /api/users/me/export
+ * @desc Start an export of all of the current user's data as a ZIP archive, built in the
+ *       background. Returns the export already in progress if there is one.
+ * @access Private (requires authentication)
+ */
+router.post('/me/export', authenticate, withAuthenticatedUser(UserController.requestExport));
+
+/**
+ * @route GET /api/users/me/export/:id
+ * @desc Get the status of a data export, including its download URL once completed
+ * @access Private (requires authentication)
+ */
+router.get(
+  '/me/export/:id',
+  authenticate,
+  validateParams(validateExportIdSchema()),
+  withAuthenticatedUser(UserController.getExport)
+);
+
+/**
+ * @route GET /api/users/me/export/:id/download
+ * @desc Download the ZIP archive of a completed data export
+ * @access Private (requires authentication)
+ */
+router.get(
+  '/me/export/:id/download',
+  authenticate,
+  validateParams(validateExportIdSchema()),
+  withAuthenticatedUser(UserController.downloadExport)
+);
+
+/**
+ * @route GET /api/users/me/audit
+ * @desc Get the access history of the current user's health records and files: who read,
+ *       created, changed, deleted or downloaded them, when and from where. Newest first,
+ *       paginated, and filterable by action, resource and date range.
+ * @access Private (requires authentication)
+ */
+router.get(
+  '/me/audit',
+  authenticate,
+  validateQuery(validateGetAuditLogSchema()),
+  withAuthenticatedUser(UserController.getAuditLog)
+);
+
+export default router;
@@ -8,6 +8,7 @@
 import http from 'http'; // Create HTTP server for the Express application, version ^0.0.1-security
 import { createApp } from './app'; // Import function to create and configure the Express application
 import { environment, logger, db } from './config'; // Import environment configuration including server port
+import { OcrService } from './services/ocr.service';
 
 /**
  * Initializes and starts the Express application server
@@ -69,9 +70,10 @@ async function gracefulShutdown(server: http.Server, signal: string): Promise<vo
       process.exitCode = 1;
     }
 
-    // Disconnect from database
+    // Stop the OCR worker (if one was started) and disconnect from database
     logger.info('Disconnecting from database...');
-    db.disconnect()
+    new OcrService().terminate()
+      .then(() => db.disconnect())
       .then(() => {
         // Log successful shutdown
         logger.info('Successful shutdown');
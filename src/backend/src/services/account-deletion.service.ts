@@ -0,0 +1,188 @@
+/**
+ * Account Deletion Service Module
+ *
+ * This module permanently deletes a user's account together with everything the Health
+ * Advisor application stores about them. The purge runs as a fixed sequence of steps:
+ * - data exports and their archives
+ * - files attached to health records and any other files the user uploaded
+ * - health data records
+ * - chat conversations and their messages
+ * - refresh tokens and password reset codes
+ * - the user account itself
+ *
+ * Each finished step is recorded in the user's account deletion record. If a step fails,
+ * repeating the request resumes with the first unfinished step, and the account is only
+ * removed once everything else is gone, so the user can still sign in to retry. The
+ * record is kept after the account is gone as the audit trail of the deletion.
+ *
+ * @module services/account-deletion.service
+ */
+
+import mongoose, { Types } from 'mongoose'; // ^7.0.3
+import {
+  findAccountDeletionByUserId,
+  startAccountDeletion,
+  markAccountDeletionStepCompleted,
+  markAccountDeletionCompleted,
+  markAccountDeletionFailed
+} from '../repositories/account-deletion.repository';
+import { deleteAllUserConversations } from '../repositories/chat.repository';
+import { deleteRefreshTokensByUserId } from '../repositories/refresh-token.repository';
+import { deletePasswordResetTokensByUserId } from '../repositories/password-reset-token.repository';
+import { findById, deleteUserById } from '../repositories/user.repository';
+import { HealthRepository } from '../repositories/health.repository';
+import { FileRepository } from '../repositories/file.repository';
+import {
+  AccountDeletionDocument,
+  AccountDeletionStatus,
+  AccountDeletionStep
+} from '../types/account-deletion.types';
+import { HealthData } from '../types/health.types';
+import { UserErrorType } from '../types/user.types';
+import { BadRequestError, InternalServerError, NotFoundError } from '../utils/error.util';
+import { hashToken } from '../utils/encryption.util';
+import { deleteAllDataExports } from './data-export.service';
+import logger from '../config/logger';
+
+// Message shown to the user when a step of the deletion fails
+const DELETION_FAILED_MESSAGE = 'Your account could not be fully deleted. Please try again.';
+
+// Health data records as read from the database, with their IDs
+type StoredHealthData = HealthData & { _id: Types.ObjectId };
+
+/**
+ * Deletes the account of a user after confirming their password
+ *
+ * Deleting an account that is already gone succeeds, and a deletion that failed before
+ * resumes where it stopped.
+ *
+ * @param userId - ID of the user deleting their account
+ * @param password - The user's current password, re-entered to confirm the deletion
+ * @throws BadRequestError if the password is incorrect
+ * @throws NotFoundError if the user doesn't exist and was never deleted
+ * @throws InternalServerError if a step of the deletion fails
+ */
+export async function deleteAccount(userId: string, password: string): Promise<void> {
+  const user = await findById(userId);
+
+  if (!user) {
+    // The account may be gone because an earlier request deleted it
+    const deletion = await findAccountDeletionByUserId(userId);
+    if (!deletion) {
+      throw new NotFoundError(`User with ID ${userId} not found`, UserErrorType.USER_NOT_FOUND);
+    }
+
+    if (deletion.status !== AccountDeletionStatus.COMPLETED) {
+      await runAccountDeletion(await startAccountDeletion(userId, deletion.emailHash));
+    }
+    return;
+  }
+
+  // Not an AuthenticationError: a 401 would sign the user out of the app
+  if (!await user.comparePassword(password)) {
+    logger.warn('Account deletion refused: incorrect password', { userId });
+    throw new BadRequestError('Password is incorrect', 'INVALID_PASSWORD');
+  }
+
+  const deletion = await startAccountDeletion(userId, hashToken(user.email.toLowerCase()));
+  logger.info('Account deletion started', {
+    userId,
+    deletionId: deletion._id.toString(),
+    attempt: deletion.attempts,
+    completedSteps: deletion.completedSteps
+  });
+
+  await runAccountDeletion(deletion);
+}
+
+/**
+ * Runs the steps of an account deletion that have not completed yet, recording each
+ * step as it finishes
+ *
+ * @param deletion - Account deletion record of the user
+ * @throws InternalServerError if a step fails, after recording the failure
+ */
+async function runAccountDeletion(deletion: AccountDeletionDocument): Promise<void> {
+  const deletionId = deletion._id.toString();
+  const userId = deletion.userId.toString();
+  const fileRepository = new FileRepository();
+  const healthRepository = new HealthRepository(mongoose.connection);
+
+  // Files go before the health records that reference them, and the account goes last
+  const steps: { step: AccountDeletionStep; run: () => Promise<number> }[] = [
+    {
+      step: AccountDeletionStep.DATA_EXPORTS,
+      run: () => deleteAllDataExports(userId)
+    },
+    {
+      step: AccountDeletionStep.FILES,
+      run: async (): Promise<number> => {
+        let deleted = 0;
+        const healthData = await healthRepository.findAllHealthDataByUserId(userId) as StoredHealthData[];
+        for (const item of healthData) {
+          if (item.fileIds?.length) {
+            deleted += await fileRepository.deleteFilesByHealthDataId(item._id.toString());
+          }
+        }
+
+        // Files no longer linked to a record
+        return deleted + await fileRepository.deleteFilesByUserId(userId);
+      }
+    },
+    {
+      step: AccountDeletionStep.HEALTH_DATA,
+      run: () => healthRepository.deleteAllHealthDataByUserId(userId)
+    },
+    {
+      step: AccountDeletionStep.CHATS,
+      run: async (): Promise<number> => {
+        const { conversations, messages } = await deleteAllUserConversations(userId);
+        return conversations + messages;
+      }
+    },
+    {
+      step: AccountDeletionStep.TOKENS,
+      run: async (): Promise<number> => {
+        const refreshTokens = await deleteRefreshTokensByUserId(userId);
+        return refreshTokens + await deletePasswordResetTokensByUserId(userId);
+      }
+    },
+    {
+      step: AccountDeletionStep.USER,
+      run: async () => (await deleteUserById(userId) ? 1 : 0)
+    }
+  ];
+
+  const startedAt = Date.now();
+  const deletedCounts = { ...deletion.deletedCounts };
+
+  for (const { step, run } of steps) {
+    if (deletion.completedSteps.includes(step)) {
+      continue;
+    }
+
+    try {
+      deletedCounts[step] = await run();
+      await markAccountDeletionStepCompleted(deletionId, step, deletedCounts[step]);
+    } catch (error) {
+      logger.error('Account deletion step failed', {
+        userId,
+        deletionId,
+        step,
+        error: error instanceof Error ? error.message : String(error)
+      });
+
+      await markAccountDeletionFailed(deletionId, `Step ${step} failed`).catch(() => undefined);
+      throw new InternalServerError(DELETION_FAILED_MESSAGE, error instanceof Error ? error : undefined);
+    }
+  }
+
+  await markAccountDeletionCompleted(deletionId);
+
+  logger.info('Account deletion completed', {
+    userId,
+    deletionId,
+    deletedCounts,
+    durationMs: Date.now() - startedAt
+  });
+}
@@ -0,0 +1,143 @@
+/**
+ * Audit Service Module
+ *
+ * This module records who read, created, changed or deleted health records and their
+ * files, and lets users see the access history of their own data and administrators
+ * query the whole audit log.
+ *
+ * Recording an action never fails the request that performed it: if the audit log can't
+ * be written, the error is logged instead.
+ *
+ * @module services/audit.service
+ */
+
+import { Types } from 'mongoose'; // ^7.0.3
+import { createAuditEntries, findAuditEntries } from '../repositories/audit-entry.repository';
+import {
+  AdminAuditLogRequest,
+  AuditContext,
+  AuditEntryDocument,
+  AuditEntryResponse,
+  AuditEvent,
+  GetAuditLogRequest
+} from '../types/audit.types';
+import logger from '../config/logger';
+
+// Default number of entries per page
+const DEFAULT_PAGE_SIZE = 20;
+
+/**
+ * Formats an audit log entry for API responses
+ *
+ * @param entry - Audit log entry document
+ * @returns The entry with string IDs
+ */
+export function formatAuditEntry(entry: AuditEntryDocument): AuditEntryResponse {
+  return {
+    id: entry._id.toString(),
+    actorId: entry.actorId.toString(),
+    ownerId: entry.ownerId.toString(),
+    action: entry.action,
+    resourceType: entry.resourceType,
+    resourceId: entry.resourceId.toString(),
+    ...(entry.healthDataId && { healthDataId: entry.healthDataId.toString() }),
+    ...(entry.ip && { ip: entry.ip }),
+    ...(entry.userAgent && { userAgent: entry.userAgent }),
+    changes: entry.changes,
+    createdAt: entry.createdAt
+  };
+}
+
+/**
+ * Records actions performed by one request in the audit log
+ *
+ * @param context - Who performed the actions, and from where
+ * @param events - Actions performed
+ * @returns Promise resolving once the entries are stored, or the failure is logged
+ */
+export async function recordAuditEvents(context: AuditContext, events: AuditEvent[]): Promise<void> {
+  if (events.length === 0) {
+    return;
+  }
+
+  try {
+    await createAuditEntries(events.map((event) => ({
+      actorId: new Types.ObjectId(context.actorId),
+      ownerId: new Types.ObjectId(event.ownerId),
+      action: event.action,
+      resourceType: event.resourceType,
+      resourceId: new Types.ObjectId(event.resourceId),
+      ...(event.healthDataId && { healthDataId: new Types.ObjectId(event.healthDataId) }),
+      ...(context.ip && { ip: context.ip }),
+      ...(context.userAgent && { userAgent: context.userAgent }),
+      changes: event.changes || []
+    })));
+  } catch (error) {
+    logger.error('Error recording audit events', {
+      actorId: context.actorId,
+      actions: events.map((event) => `${event.action} ${event.resourceType} ${event.resourceId}`),
+      error: error instanceof Error ? error.message : String(error)
+    });
+  }
+}
+
+/**
+ * Records an action in the audit log
+ *
+ * @param context - Who performed the action, and from where
+ * @param event - Action performed
+ * @returns Promise resolving once the entry is stored, or the failure is logged
+ */
+export async function recordAuditEvent(context: AuditContext, event: AuditEvent): Promise<void> {
+  await recordAuditEvents(context, [event]);
+}
+
+/**
+ * Retrieves the access history of a user's health records and files, newest first
+ *
+ * @param userId - ID of the user whose data was accessed
+ * @param request - Filters and pagination
+ * @returns The entries of the page and the total number of matching entries
+ */
+export async function getUserAuditLog(
+  userId: string,
+  request: GetAuditLogRequest
+): Promise<{ items: AuditEntryResponse[]; total: number; page: number; limit: number }> {
+  const { page = 1, limit = DEFAULT_PAGE_SIZE, ...filters } = request;
+
+  try {
+    const { items, total } = await findAuditEntries({ ...filters, ownerId: userId }, page, limit);
+
+    return { items: items.map(formatAuditEntry), total, page, limit };
+  } catch (error) {
+    logger.error('Error retrieving user audit log', {
+      userId,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    throw error;
+  }
+}
+
+/**
+ * Queries the audit log across all users, for administrators
+ *
+ * @param request - Filters and pagination
+ * @returns The entries of the page and the total number of matching entries
+ */
+export async function queryAuditLog(
+  request: AdminAuditLogRequest
+): Promise<{ items: AuditEntryResponse[]; total: number; page: number; limit: number }> {
+  const { page = 1, limit = DEFAULT_PAGE_SIZE, ...filters } = request;
+
+  try {
+    const { items, total } = await findAuditEntries(filters, page, limit);
+
+    return { items: items.map(formatAuditEntry), total, page, limit };
+  } catch (error) {
+    logger.error('Error querying audit log', {
+      filters,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    throw error;
+  }
+}
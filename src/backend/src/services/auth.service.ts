@@ -2,43 +2,81 @@
  * Authentication Service
  * 
  * Provides functionality for user registration, authentication, and token validation.
- * Handles secure password storage, JWT token generation, and user verification.
+ * Handles secure password storage, JWT token generation, and user verification, as well
+ * as password changes and resets through single-use codes sent by email. Users with
+ * two-factor authentication log in in two steps: the password yields a short-lived
+ * challenge token, which a code from their authenticator app turns into the token pair.
  * 
  * @module services/auth.service
  */
 
-import { Types } from 'mongoose'; // ^7.0.3
+import { randomUUID } from 'crypto';
 import { 
+  findById,
   findByEmail, 
   createUser, 
-  getUserById 
+  getUserById,
+  updateUserPassword
 } from '../repositories/user.repository';
+import {
+  createRefreshToken,
+  findRefreshTokenByHash,
+  rotateRefreshToken,
+  revokeTokenFamily,
+  revokeRefreshTokensByUserId
+} from '../repositories/refresh-token.repository';
+import {
+  createPasswordResetToken,
+  consumePasswordResetToken,
+  deletePasswordResetTokensByUserId
+} from '../repositories/password-reset-token.repository';
 import { 
-  hashPassword, 
-  verifyPassword 
+  hashToken,
+  generateSecureToken
 } from '../utils/encryption.util';
 import { 
   generateToken, 
   verifyToken, 
-  createTokenPayload 
+  createTokenPayload,
+  decodeToken,
+  isTokenIssuedBefore
 } from '../utils/jwt.util';
 import { 
   AuthenticationError, 
+  BadRequestError,
   ConflictError 
 } from '../utils/error.util';
 import { 
   LoginRequest, 
   SignupRequest, 
   AuthResponse, 
+  LoginResponse,
+  TwoFactorLoginRequest,
+  RefreshTokenResponse,
+  ChangePasswordRequest,
   JwtPayload,
   TokenType, 
   AuthErrorType 
 } from '../types/auth.types';
-import { 
-  CreateUserInput,
-  UserDocument 
-} from '../types/user.types';
+import { UserDocument } from '../types/user.types';
+import { environment } from '../config/environment';
 import logger from '../config/logger';
+import { MailService } from './mail.service';
+import {
+  assertLoginAllowed,
+  registerFailedLogin,
+  clearFailedLogins
+} from './login-lockout.service';
+import { verifyTwoFactorCode } from './two-factor.service';
+
+// Sends password reset codes
+const mailService = new MailService();
+
+// Message for reset codes that are unknown, used or expired, without saying which
+const INVALID_RESET_TOKEN_MESSAGE = 'This reset code is invalid or has expired. Please request a new one.';
+
+// Message for two-factor challenges that expired or are invalid, which the user can only start over
+const EXPIRED_CHALLENGE_MESSAGE = 'Your login has expired. Please log in again.';
 
 /**
  * Registers a new user with email and password
@@ -73,6 +111,9 @@ export async function signup(signupData: SignupRequest): Promise<AuthResponse> {
     );
     const token = generateToken(payload, TokenType.ACCESS);
 
+    // Start a new refresh token family for this session
+    const refreshToken = await issueRefreshToken(payload, randomUUID());
+
     // Format and return the response
     const userResponse = formatUserResponse(newUser);
     
@@ -83,6 +124,7 @@ export async function signup(signupData: SignupRequest): Promise<AuthResponse> {
 
     return {
       token,
+      refreshToken,
       user: userResponse
     };
   } catch (error) {
@@ -97,54 +139,393 @@ export async function signup(signupData: SignupRequest): Promise<AuthResponse> {
 /**
  * Authenticates a user with email and password
  * 
+ * Failed logins are counted for the account and the IP address, and too many of them
+ * lock further logins for a while. For a user with two-factor authentication the
+ * password alone isn't enough: instead of tokens, a challenge token is returned that
+ * verifyTwoFactorLogin exchanges for them together with a code.
+ * 
  * @param loginData - User login data containing email and password
- * @returns Promise resolving to authentication response with token and user data
+ * @param ip - IP address the login comes from, if known
+ * @returns Promise resolving to authentication response with token and user data, or to
+ * a two-factor challenge
  * @throws AuthenticationError if credentials are invalid
+ * @throws AccountLockedError if the account, unknown email or IP address is locked
  */
-export async function login(loginData: LoginRequest): Promise<AuthResponse> {
+export async function login(loginData: LoginRequest, ip?: string): Promise<LoginResponse> {
   try {
     const { email, password } = loginData;
 
     // Find user by email
     const user = await findByEmail(email);
-    if (!user) {
+
+    // A locked account or unknown email is refused without checking the password
+    await assertLoginAllowed(email, user, ip);
+
+    // Verify password using the user model's comparePassword method
+    const isPasswordValid = user ? await user.comparePassword(password) : false;
+    if (!user || !isPasswordValid) {
+      await registerFailedLogin(email, user, ip);
       throw new AuthenticationError(
         'Invalid email or password',
         AuthErrorType.INVALID_CREDENTIALS
       );
     }
 
-    // Verify password using the user model's comparePassword method
-    const isPasswordValid = await user.comparePassword(password);
-    if (!isPasswordValid) {
-      throw new AuthenticationError(
-        'Invalid email or password',
-        AuthErrorType.INVALID_CREDENTIALS
+    // The failed logins are only cleared once the second step succeeds too
+    if (user.twoFactorEnabled) {
+      const challengeToken = generateToken(
+        {
+          ...createTokenPayload(user._id.toString(), user.email),
+          tokenType: TokenType.TWO_FACTOR_CHALLENGE,
+          jti: randomUUID()
+        },
+        TokenType.TWO_FACTOR_CHALLENGE
       );
+
+      logger.info('Password accepted, two-factor code required', { 
+        userId: user._id.toString()
+      });
+
+      return {
+        twoFactorRequired: true,
+        challengeToken
+      };
     }
 
-    // Generate token payload and token
-    const payload = createTokenPayload(
-      user._id.toString(),
-      user.email
-    );
-    const token = generateToken(payload, TokenType.ACCESS);
+    await clearFailedLogins(user);
 
-    // Format and return the response
-    const userResponse = formatUserResponse(user);
+    const response = await issueSession(user);
     
     logger.info('User logged in successfully', { 
       userId: user._id.toString(),
       email: user.email
     });
 
+    return response;
+  } catch (error) {
+    logger.error('User login failed', {
+      email: loginData.email,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    throw error;
+  }
+}
+
+/**
+ * Completes the login of a user with two-factor authentication
+ * 
+ * Wrong codes count as failed logins, so guessing codes locks the account like
+ * guessing passwords does.
+ * 
+ * @param twoFactorData - Challenge token from the password step and the code
+ * @param ip - IP address the login comes from, if known
+ * @returns Promise resolving to authentication response with token and user data
+ * @throws AuthenticationError if the challenge token or the code is invalid
+ * @throws AccountLockedError if the account or IP address is locked
+ */
+export async function verifyTwoFactorLogin(
+  twoFactorData: TwoFactorLoginRequest,
+  ip?: string
+): Promise<AuthResponse> {
+  try {
+    // Verify signature and expiry, and make sure no other kind of token is used in its place
+    const decoded = await verifyToken(twoFactorData.challengeToken).catch(() => null);
+    if (!decoded || decoded.tokenType !== TokenType.TWO_FACTOR_CHALLENGE) {
+      throw new AuthenticationError(EXPIRED_CHALLENGE_MESSAGE, AuthErrorType.INVALID_TOKEN);
+    }
+
+    // A challenge for the old password ends with the password change, like a session
+    const user = await findById(decoded.userId);
+    if (!user || !user.twoFactorEnabled || isTokenIssuedBefore(decoded, user.passwordChangedAt)) {
+      throw new AuthenticationError(EXPIRED_CHALLENGE_MESSAGE, AuthErrorType.INVALID_TOKEN);
+    }
+
+    await assertLoginAllowed(user.email, user, ip);
+
+    const isCodeValid = await verifyTwoFactorCode(user, twoFactorData.code);
+    if (!isCodeValid) {
+      await registerFailedLogin(user.email, user, ip);
+      throw new AuthenticationError(
+        'Invalid verification code',
+        AuthErrorType.INVALID_TWO_FACTOR_CODE
+      );
+    }
+
+    await clearFailedLogins(user);
+
+    const response = await issueSession(user);
+
+    logger.info('User logged in successfully with two-factor authentication', { 
+      userId: user._id.toString(),
+      email: user.email
+    });
+
+    return response;
+  } catch (error) {
+    logger.error('Two-factor login failed', {
+      error: error instanceof Error ? error.message : String(error)
+    });
+    throw error;
+  }
+}
+
+/**
+ * Exchanges a refresh token for a new access token and refresh token
+ * 
+ * The presented token is rotated: it can only be used once. Presenting a token that has
+ * already been rotated or revoked indicates it was stolen, so the whole token family is
+ * revoked and the user has to log in again.
+ * 
+ * @param refreshToken - Refresh token issued at login, signup or a previous refresh
+ * @returns Promise resolving to the new access token and refresh token
+ * @throws AuthenticationError if the refresh token is invalid, expired, rotated or revoked
+ */
+export async function refresh(refreshToken: string): Promise<RefreshTokenResponse> {
+  try {
+    // Verify signature and expiry, and make sure an access token isn't used in its place
+    const decoded = await verifyToken(refreshToken);
+    if (decoded.tokenType !== TokenType.REFRESH || !decoded.familyId) {
+      throw new AuthenticationError(
+        'Invalid refresh token',
+        AuthErrorType.INVALID_TOKEN
+      );
+    }
+
+    // Look up the persisted token
+    const tokenHash = hashToken(refreshToken);
+    const storedToken = await findRefreshTokenByHash(tokenHash);
+    if (!storedToken) {
+      throw new AuthenticationError(
+        'Invalid refresh token',
+        AuthErrorType.INVALID_TOKEN
+      );
+    }
+
+    // A rotated or revoked token being presented again means the token was reused
+    if (storedToken.replacedBy || storedToken.revokedAt) {
+      await revokeReusedFamily(storedToken.familyId, decoded.userId);
+    }
+
+    // Generate the replacement tokens within the same family
+    const payload = createTokenPayload(decoded.userId, decoded.email);
+    const token = generateToken(payload, TokenType.ACCESS);
+    const newRefreshToken = generateRefreshToken(payload, storedToken.familyId);
+
+    // Rotate atomically, so a concurrent refresh with the same token counts as reuse
+    const rotated = await rotateRefreshToken(tokenHash, hashToken(newRefreshToken));
+    if (!rotated) {
+      await revokeReusedFamily(storedToken.familyId, decoded.userId);
+    }
+
+    await persistRefreshToken(newRefreshToken, payload.userId, storedToken.familyId);
+
+    logger.info('Refresh token rotated', {
+      userId: decoded.userId,
+      familyId: storedToken.familyId
+    });
+
     return {
       token,
-      user: userResponse
+      refreshToken: newRefreshToken
     };
   } catch (error) {
-    logger.error('User login failed', {
-      email: loginData.email,
+    logger.error('Token refresh failed', {
+      error: error instanceof Error ? error.message : String(error)
+    });
+    throw error;
+  }
+}
+
+/**
+ * Logs a session out by revoking the family of the given refresh token
+ * 
+ * Unknown, expired or already revoked tokens are ignored, so logging out is idempotent.
+ * 
+ * @param refreshToken - Refresh token of the session to end
+ * @returns Promise resolving when the session's tokens have been revoked
+ */
+export async function logout(refreshToken: string): Promise<void> {
+  try {
+    const storedToken = await findRefreshTokenByHash(hashToken(refreshToken));
+    if (!storedToken) {
+      return;
+    }
+
+    const revokedCount = await revokeTokenFamily(storedToken.familyId);
+
+    logger.info('User logged out', {
+      userId: storedToken.userId.toString(),
+      familyId: storedToken.familyId,
+      revokedCount
+    });
+  } catch (error) {
+    logger.error('Logout failed', {
+      error: error instanceof Error ? error.message : String(error)
+    });
+    throw error;
+  }
+}
+
+/**
+ * Changes the password of a signed-in user after checking their current password
+ * 
+ * Every session of the user is revoked, including other devices, and a new token pair
+ * is issued for the session that made the change. Outstanding reset codes stop working.
+ * 
+ * @param userId - ID of the user changing their password
+ * @param passwordData - The current and the new password
+ * @returns Promise resolving to a new token pair and the user data
+ * @throws BadRequestError if the current password is incorrect
+ * @throws NotFoundError if the user doesn't exist
+ */
+export async function changePassword(
+  userId: string,
+  passwordData: ChangePasswordRequest
+): Promise<AuthResponse> {
+  try {
+    const user = await getUserById(userId);
+
+    // Not an AuthenticationError: a 401 would sign the user out of the app
+    const isPasswordValid = await user.comparePassword(passwordData.currentPassword);
+    if (!isPasswordValid) {
+      throw new BadRequestError('Current password is incorrect', 'INVALID_PASSWORD');
+    }
+
+    await updateUserPassword(user, passwordData.newPassword);
+
+    // Access tokens from before the change are rejected from now on; refresh tokens and
+    // reset codes are revoked so they cannot be exchanged for new ones
+    const revokedCount = await revokeRefreshTokensByUserId(userId);
+    await deletePasswordResetTokensByUserId(userId);
+
+    const payload = createTokenPayload(user._id.toString(), user.email);
+    const token = generateToken(payload, TokenType.ACCESS);
+    const refreshToken = await issueRefreshToken(payload, randomUUID());
+
+    logger.info('Password changed', { userId, revokedCount });
+
+    return {
+      token,
+      refreshToken,
+      user: formatUserResponse(user)
+    };
+  } catch (error) {
+    logger.error('Password change failed', {
+      userId,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    throw error;
+  }
+}
+
+/**
+ * Emails a single-use password reset code to the user with the given email address
+ * 
+ * Requesting a code for an unknown address succeeds without sending anything, so the
+ * response doesn't reveal which addresses are registered. Only the latest code works.
+ * 
+ * @param email - Email address of the account
+ * @returns Promise resolving when the request has been handled
+ */
+export async function requestPasswordReset(email: string): Promise<void> {
+  try {
+    const user = await findByEmail(email);
+    if (!user) {
+      logger.info('Password reset requested for unknown email');
+      return;
+    }
+
+    const userId = user._id.toString();
+    await deletePasswordResetTokensByUserId(userId);
+
+    const resetToken = await generateSecureToken();
+    const expiresAt = new Date(Date.now() + environment.PASSWORD_RESET_TOKEN_TTL_MS);
+    await createPasswordResetToken({
+      userId,
+      tokenHash: hashToken(resetToken),
+      expiresAt
+    });
+
+    const validMinutes = Math.round(environment.PASSWORD_RESET_TOKEN_TTL_MS / 60000);
+    const lines = [
+      'We received a request to reset the password of your Health Advisor account.',
+      '',
+      `Your reset code is: ${resetToken}`,
+      ''
+    ];
+    if (environment.PASSWORD_RESET_URL) {
+      lines.push(
+        'You can also reset your password here:',
+        `${environment.PASSWORD_RESET_URL}?token=${resetToken}`,
+        ''
+      );
+    }
+    lines.push(
+      `The code can be used once and expires in ${validMinutes} minutes.`,
+      'If you did not ask to reset your password, you can ignore this email.'
+    );
+
+    // Failing here would reveal that the address is registered
+    try {
+      await mailService.send({
+        to: user.email,
+        subject: 'Reset your Health Advisor password',
+        text: lines.join('\n')
+      });
+    } catch (error) {
+      logger.error('Password reset email could not be sent', {
+        userId,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return;
+    }
+
+    logger.info('Password reset requested', { userId, expiresAt });
+  } catch (error) {
+    logger.error('Password reset request failed', {
+      error: error instanceof Error ? error.message : String(error)
+    });
+    throw error;
+  }
+}
+
+/**
+ * Sets a new password with a reset code from a password reset email
+ * 
+ * The code is used up, and every session of the user is revoked, so the user has to
+ * sign in with the new password on all of their devices.
+ * 
+ * @param resetToken - Reset code from the email
+ * @param newPassword - The new password
+ * @returns Promise resolving when the password has been reset
+ * @throws BadRequestError if the code is unknown, already used or expired
+ */
+export async function resetPassword(resetToken: string, newPassword: string): Promise<void> {
+  try {
+    // Consuming the code first means it cannot be used twice, even concurrently
+    const storedToken = await consumePasswordResetToken(hashToken(resetToken));
+    if (!storedToken) {
+      throw new BadRequestError(INVALID_RESET_TOKEN_MESSAGE, 'INVALID_RESET_TOKEN');
+    }
+
+    const userId = storedToken.userId.toString();
+    const user = await findById(userId);
+    if (!user) {
+      throw new BadRequestError(INVALID_RESET_TOKEN_MESSAGE, 'INVALID_RESET_TOKEN');
+    }
+
+    await updateUserPassword(user, newPassword);
+
+    // Whoever was guessing the old password gains nothing, so the lockout can end
+    await clearFailedLogins(user);
+
+    // Access tokens from before the reset are rejected from now on
+    const revokedCount = await revokeRefreshTokensByUserId(userId);
+    await deletePasswordResetTokensByUserId(userId);
+
+    logger.info('Password reset', { userId, revokedCount });
+  } catch (error) {
+    logger.error('Password reset failed', {
       error: error instanceof Error ? error.message : String(error)
     });
     throw error;
@@ -160,12 +541,26 @@ export async function login(loginData: LoginRequest): Promise<AuthResponse> {
  */
 export async function validateToken(token: string): Promise<UserDocument> {
   try {
-    // Verify token
+    // Verify token, which has to be an access token
     const decoded = await verifyToken(token);
+    if (decoded.tokenType && decoded.tokenType !== TokenType.ACCESS) {
+      throw new AuthenticationError(
+        'Invalid token',
+        AuthErrorType.INVALID_TOKEN
+      );
+    }
     
     // Get user by ID from token payload
     const user = await getUserById(decoded.userId);
     
+    // Tokens issued before the last password change are no longer accepted
+    if (isTokenIssuedBefore(decoded, user.passwordChangedAt)) {
+      throw new AuthenticationError(
+        'Session has ended, please log in again',
+        AuthErrorType.TOKEN_EXPIRED
+      );
+    }
+    
     return user;
   } catch (error) {
     logger.error('Token validation failed', {
@@ -186,4 +581,107 @@ export function formatUserResponse(user: UserDocument): { id: string; email: str
     id: user._id.toString(),
     email: user.email
   };
-}
\ No newline at end of file
+}
+
+/**
+ * Starts a new session for a user who has logged in
+ * 
+ * @param user - User who logged in
+ * @returns Promise resolving to authentication response with token and user data
+ */
+async function issueSession(user: UserDocument): Promise<AuthResponse> {
+  // Generate token payload and token
+  const payload = createTokenPayload(
+    user._id.toString(),
+    user.email
+  );
+  const token = generateToken(payload, TokenType.ACCESS);
+
+  // Start a new refresh token family for this session
+  const refreshToken = await issueRefreshToken(payload, randomUUID());
+
+  return {
+    token,
+    refreshToken,
+    user: formatUserResponse(user)
+  };
+}
+
+/**
+ * Generates a signed refresh token belonging to a token family
+ * 
+ * @param payload - Access token payload of the user
+ * @param familyId - Family the refresh token belongs to
+ * @returns Signed refresh token
+ */
+function generateRefreshToken(payload: JwtPayload, familyId: string): string {
+  return generateToken(
+    {
+      ...payload,
+      tokenType: TokenType.REFRESH,
+      familyId,
+      jti: randomUUID()
+    },
+    TokenType.REFRESH
+  );
+}
+
+/**
+ * Stores the hash of a refresh token so it can later be rotated or revoked
+ * 
+ * @param refreshToken - Signed refresh token
+ * @param userId - Owner of the token
+ * @param familyId - Family the refresh token belongs to
+ * @returns Promise resolving when the token has been stored
+ */
+async function persistRefreshToken(
+  refreshToken: string,
+  userId: string,
+  familyId: string
+): Promise<void> {
+  // Keep the stored token for as long as the token itself is valid
+  const decoded = decodeToken(refreshToken);
+  const expiresAt = new Date((decoded?.exp || 0) * 1000);
+
+  await createRefreshToken({
+    userId,
+    tokenHash: hashToken(refreshToken),
+    familyId,
+    expiresAt
+  });
+}
+
+/**
+ * Generates and stores a refresh token
+ * 
+ * @param payload - Access token payload of the user
+ * @param familyId - Family the refresh token belongs to
+ * @returns Promise resolving to the signed refresh token
+ */
+async function issueRefreshToken(payload: JwtPayload, familyId: string): Promise<string> {
+  const refreshToken = generateRefreshToken(payload, familyId);
+  await persistRefreshToken(refreshToken, payload.userId, familyId);
+  return refreshToken;
+}
+
+/**
+ * Revokes a token family after a refresh token was reused and rejects the request
+ * 
+ * @param familyId - Family of the reused token
+ * @param userId - Owner of the token
+ * @throws AuthenticationError always
+ */
+async function revokeReusedFamily(familyId: string, userId: string): Promise<never> {
+  const revokedCount = await revokeTokenFamily(familyId);
+
+  logger.warn('Refresh token reuse detected, token family revoked', {
+    userId,
+    familyId,
+    revokedCount
+  });
+
+  throw new AuthenticationError(
+    'Refresh token has already been used',
+    AuthErrorType.INVALID_TOKEN
+  );
+}
@@ -12,15 +12,15 @@
 import mongoose from 'mongoose'; // ^7.0.3
 import { llm, logger } from '../config';
 import { 
-  ChatRole, 
-  LLMMessage, 
-  LLMRequest, 
   LLMResponse,
-  HealthContext,
   SendMessageRequest,
   SendMessageResponse,
-  GetChatHistoryRequest,
+  StreamMessageResponse,
+  LLMStreamHandler,
   GetChatHistoryResponse,
+  ChatConversation,
+  ConversationTitleSource,
+  UpdateConversationRequest,
   ChatErrorType
 } from '../types/chat.types';
 
@@ -28,48 +28,65 @@ import {
   getUserConversations,
   getConversationById,
   createConversation,
+  updateConversation,
+  updateGeneratedTitle,
+  updateConversationSummary,
+  deleteConversation,
   getConversationMessages,
+  countConversationMessages,
   createUserMessage,
   createAssistantMessage,
   getConversationHistory
 } from '../repositories/chat.repository';
 
-import {
-  sendRequestToLLM,
-  buildPrompt,
-  processResponse
-} from './llm.service';
+import { LLMService } from './llm.service';
 
-import { HealthService } from './health.service';
 import { NotFoundError, BadRequestError, ServiceUnavailableError } from '../utils/error.util';
+import {
+  buildTitlePrompt,
+  normalizeGeneratedTitle,
+  hasTopicDrifted,
+  TITLE_CONTEXT_MESSAGES,
+  TITLE_REFRESH_MESSAGES
+} from '../utils/conversation-title.util';
+import {
+  buildSummaryPrompt,
+  selectMessagesToSummarize,
+  selectSummaryBatch
+} from '../utils/conversation-summary.util';
+import { estimatePromptTokens } from '../utils/token.util';
+
+// Most recent messages not yet summarized that are considered for the summary; older ones
+// only remain unsummarized in conversations that were long before summaries were kept
+const MAX_SUMMARY_SOURCE_MESSAGES = 100;
 
 /**
  * Service class that provides high-level chat functionality for the Health Advisor application
  */
 export class ChatService {
-  private healthService: HealthService;
+  private llmService: LLMService;
 
   /**
-   * Initializes the ChatService with database connection and health service
+   * Initializes the ChatService with database connection and LLM service
    * 
    * @param connection - MongoDB connection instance
    */
   constructor(private connection: mongoose.Connection) {
-    // Initialize HealthService with the connection
-    this.healthService = new HealthService(connection);
+    // Initialize LLMService, which builds the health context of prompts
+    this.llmService = new LLMService(connection);
     logger.info('Chat service initialized');
   }
 
   /**
-   * Retrieves all conversations for a specific user with pagination
+   * Retrieves the active or archived conversations of a user with pagination, pinned conversations first
    * 
    * @param userId - ID of the user
-   * @param options - Pagination options (page, limit)
+   * @param options - Pagination options (page, limit) and whether to retrieve archived conversations
    * @returns Promise resolving to paginated conversations and metadata
    */
   async getUserConversations(
     userId: string,
-    options: { page?: number; limit?: number } = {}
+    options: { page?: number; limit?: number; archived?: boolean } = {}
   ): Promise<{ conversations: any[]; total: number; page: number }> {
     try {
       logger.debug('Getting conversations for user', { userId, options });
@@ -89,6 +106,59 @@ export class ChatService {
     }
   }
 
+  /**
+   * Renames, archives or pins a conversation
+   * 
+   * @param conversationId - ID of the conversation
+   * @param userId - ID of the user who owns the conversation
+   * @param updates - Fields to update
+   * @returns Promise resolving to the updated conversation
+   */
+  async updateConversation(
+    conversationId: string,
+    userId: string,
+    updates: UpdateConversationRequest
+  ): Promise<ChatConversation> {
+    try {
+      logger.info('Updating conversation', { conversationId, userId, fields: Object.keys(updates) });
+      
+      return await updateConversation(conversationId, userId, updates);
+    } catch (error) {
+      logger.error('Error updating conversation', {
+        error: (error as Error).message,
+        stack: (error as Error).stack,
+        conversationId,
+        userId
+      });
+      
+      throw error;
+    }
+  }
+
+  /**
+   * Deletes a conversation together with all of its messages
+   * 
+   * @param conversationId - ID of the conversation
+   * @param userId - ID of the user who owns the conversation
+   * @returns Promise resolving once the conversation is deleted
+   */
+  async deleteConversation(conversationId: string, userId: string): Promise<void> {
+    try {
+      const { messages } = await deleteConversation(conversationId, userId);
+      
+      logger.info('Conversation deleted', { conversationId, userId, messages });
+    } catch (error) {
+      logger.error('Error deleting conversation', {
+        error: (error as Error).message,
+        stack: (error as Error).stack,
+        conversationId,
+        userId
+      });
+      
+      throw error;
+    }
+  }
+
   /**
    * Retrieves all messages for a specific conversation with pagination
    * 
@@ -193,47 +263,10 @@ export class ChatService {
         conversationId: request.conversationId || 'new'
       });
       
-      const { message, conversationId } = request;
+      const { message } = request;
       
-      // Validate message content
-      if (!message || message.trim() === '') {
-        throw new BadRequestError(ChatErrorType.INVALID_MESSAGE, 'MESSAGE_EMPTY');
-      }
-      
-      // Limit message length to prevent abuse
-      if (message.length > 2000) {
-        throw new BadRequestError(ChatErrorType.INVALID_MESSAGE, 'MESSAGE_TOO_LONG');
-      }
-      
-      let activeConversationId = conversationId;
-      
-      // If conversationId is provided, verify user has access to it
-      if (activeConversationId) {
-        const conversation = await getConversationById(activeConversationId, userId);
-        
-        if (!conversation) {
-          logger.warn('Conversation not found or unauthorized access', { 
-            conversationId: activeConversationId,
-            userId
-          });
-          
-          // Create a new conversation since the provided one is invalid
-          logger.info('Creating new conversation as fallback', { userId });
-          const newConversation = await createConversation(
-            userId,
-            this.generateConversationTitle(message)
-          );
-          activeConversationId = newConversation._id.toString();
-        }
-      } else {
-        // Create a new conversation if none provided
-        logger.info('Creating new conversation', { userId });
-        const newConversation = await createConversation(
-          userId,
-          this.generateConversationTitle(message)
-        );
-        activeConversationId = newConversation._id.toString();
-      }
+      // Validate the message and resolve the conversation it belongs to
+      const activeConversationId = await this.prepareConversation(request, userId);
       
       // Process the message with LLM
       const response = await this.sendMessageToLLM(
@@ -259,7 +292,134 @@ export class ChatService {
   }
 
   /**
-   * Processes a user message, retrieves health context, sends to LLM, and stores response
+   * Sends a user message and streams the LLM response as it is generated
+   * 
+   * @param request - Message request containing message text and optional conversationId
+   * @param userId - ID of the user sending the message
+   * @param onDelta - Callback receiving each chunk of the assistant response
+   * @param signal - Optional abort signal, triggered when the client disconnects
+   * @returns Promise resolving to the complete response, conversation ID and stored message ID
+   */
+  async streamMessage(
+    request: SendMessageRequest,
+    userId: string,
+    onDelta: LLMStreamHandler,
+    signal?: AbortSignal
+  ): Promise<StreamMessageResponse> {
+    try {
+      logger.info('Processing streaming message request', { 
+        userId,
+        conversationId: request.conversationId || 'new'
+      });
+      
+      // Validate the message and resolve the conversation it belongs to
+      const conversationId = await this.prepareConversation(request, userId);
+      
+      // Store the user message before the LLM builds its context
+      await createUserMessage(conversationId, userId, request.message);
+      
+      // Stream the response; safety filters and disclaimer are applied by the LLM service
+      const llmResponse = await this.llmService.streamMessage(
+        request.message,
+        userId,
+        onDelta,
+        conversationId,
+        signal
+      );
+      
+      const metadata: Record<string, unknown> = { ...this.buildAssistantMetadata(llmResponse), streamed: true };
+      
+      // Store the complete assistant message once streaming has finished
+      const assistantMessage = await createAssistantMessage(
+        conversationId,
+        userId,
+        llmResponse.content,
+        metadata
+      );
+      
+      // Title the conversation in the background; a fallback response says nothing about its topic
+      if (!metadata.fallback) {
+        void this.refreshConversationTitle(conversationId, userId);
+      }
+      
+      // Compact older messages into the conversation summary in the background
+      void this.refreshConversationSummary(conversationId, userId);
+      
+      return {
+        response: llmResponse.content,
+        conversationId,
+        messageId: assistantMessage._id.toString(),
+        metadata
+      };
+    } catch (error) {
+      logger.error('Error streaming message', {
+        error: (error as Error).message,
+        stack: (error as Error).stack,
+        userId,
+        conversationId: request.conversationId
+      });
+      
+      throw error;
+    }
+  }
+
+  /**
+   * Validates a message request and resolves the conversation it should be added to,
+   * creating a new conversation when none is provided or the provided one is not accessible
+   * 
+   * @param request - Message request containing message text and optional conversationId
+   * @param userId - ID of the user sending the message
+   * @returns Promise resolving to the ID of the conversation to use
+   */
+  private async prepareConversation(
+    request: SendMessageRequest,
+    userId: string
+  ): Promise<string> {
+    const { message, conversationId } = request;
+    
+    // Validate message content
+    if (!message || message.trim() === '') {
+      throw new BadRequestError(ChatErrorType.INVALID_MESSAGE, 'MESSAGE_EMPTY');
+    }
+    
+    // Limit message length to prevent abuse
+    if (message.length > 2000) {
+      throw new BadRequestError(ChatErrorType.INVALID_MESSAGE, 'MESSAGE_TOO_LONG');
+    }
+    
+    // If conversationId is provided, verify user has access to it
+    if (conversationId) {
+      const conversation = await getConversationById(conversationId, userId);
+      
+      if (conversation) {
+        return conversationId;
+      }
+      
+      logger.warn('Conversation not found or unauthorized access', { 
+        conversationId,
+        userId
+      });
+      
+      // Create a new conversation since the provided one is invalid
+      logger.info('Creating new conversation as fallback', { userId });
+    } else {
+      // Create a new conversation if none provided
+      logger.info('Creating new conversation', { userId });
+    }
+    
+    const newConversation = await createConversation(
+      userId,
+      this.generateConversationTitle(message)
+    );
+    return newConversation._id.toString();
+  }
+
+  /**
+   * Stores a user message, gets the LLM response to it and stores the response
+   * 
+   * The LLM service builds the prompt, with the health data relevant to the message, the
+   * user's profile and the conversation so far, and runs any tools the model calls, as it
+   * does for streamed messages.
    * 
    * @param conversationId - ID of the conversation
    * @param userId - ID of the user sending the message
@@ -274,59 +434,31 @@ export class ChatService {
     try {
       logger.debug('Preparing LLM request', { conversationId, userId });
       
-      // Create user message in the database
+      // Store the user message before the LLM builds its context
       await createUserMessage(conversationId, userId, message);
       
-      // Get recent conversation history
-      const conversationHistory = await getConversationHistory(conversationId, 10);
-      
-      // Get user's health context
-      const healthContext = await this.buildHealthContext(userId);
-      
-      // Format conversation messages for LLM
-      const formattedMessages = this.formatConversationMessages(conversationHistory);
-      
-      // Build prompt with context
-      const prompt = buildPrompt(formattedMessages, healthContext);
-      
-      // Prepare LLM request
-      const llmRequest: LLMRequest = {
-        messages: prompt,
-        userId,
-        maxTokens: llm.requestDefaults.maxTokens
-      };
-      
-      // Send request to LLM
-      let llmResponse: LLMResponse;
-      try {
-        llmResponse = await sendRequestToLLM(llmRequest);
-      } catch (error) {
-        logger.error('LLM service error', {
-          error: (error as Error).message,
-          userId,
-          conversationId
-        });
-        throw new ServiceUnavailableError(
-          ChatErrorType.LLM_SERVICE_ERROR,
-          'LLM Service'
-        );
-      }
+      // Safety filters and disclaimer are applied by the LLM service
+      const llmResponse = await this.llmService.sendMessage(message, userId, conversationId);
       
-      // Process LLM response
-      const processedResponse = processResponse(llmResponse);
+      const metadata = this.buildAssistantMetadata(llmResponse);
       
       // Store assistant message in the database
       await createAssistantMessage(
         conversationId,
         userId,
-        processedResponse.content,
-        { 
-          model: llmResponse.metadata?.model || llm.model,
-          processedAt: new Date().toISOString()
-        }
+        llmResponse.content,
+        metadata
       );
       
-      return processedResponse.content;
+      // Title the conversation in the background; a fallback response says nothing about its topic
+      if (!metadata.fallback) {
+        void this.refreshConversationTitle(conversationId, userId);
+      }
+      
+      // Compact older messages into the conversation summary in the background
+      void this.refreshConversationSummary(conversationId, userId);
+      
+      return llmResponse.content;
     } catch (error) {
       logger.error('Error in LLM processing', {
         error: (error as Error).message,
@@ -346,90 +478,159 @@ export class ChatService {
   }
 
   /**
-   * Builds a health context string from user's recent health data
+   * Builds the metadata stored with an assistant message
    * 
-   * @param userId - ID of the user
-   * @returns Promise resolving to formatted health context string
+   * @param llmResponse - Response of the LLM service
+   * @returns The model, processing time, token usage, whether the response is a fallback,
+   * and the tools the advisor called with what they returned, so the transcript shows what it
+   * looked up
    */
-  private async buildHealthContext(userId: string): Promise<string> {
+  private buildAssistantMetadata(llmResponse: LLMResponse): Record<string, unknown> {
+    return {
+      model: llmResponse.metadata?.model || llm.model,
+      processedAt: llmResponse.metadata?.processedAt || new Date().toISOString(),
+      ...(llmResponse.metadata?.tokenUsage && { tokenUsage: llmResponse.metadata.tokenUsage }),
+      ...(llmResponse.metadata?.fallback && { fallback: true }),
+      ...(llmResponse.metadata?.toolCalls && { toolCalls: llmResponse.metadata.toolCalls })
+    };
+  }
+
+  /**
+   * Titles a conversation after its first response, and again once the conversation has
+   * moved on from its title
+   * 
+   * Runs in the background after a response is stored, so it never throws: if no title can
+   * be generated, the conversation keeps its current title, which starts out as the first
+   * message cut short. Titles set by the user are never replaced, even if the user renames
+   * the conversation while its title is being generated.
+   * 
+   * @param conversationId - ID of the conversation
+   * @param userId - ID of the user who owns the conversation
+   */
+  async refreshConversationTitle(conversationId: string, userId: string): Promise<void> {
     try {
-      logger.debug('Building health context for user', { userId });
+      const conversation = await getConversationById(conversationId, userId);
+      if (conversation.titleSource === ConversationTitleSource.USER) {
+        return;
+      }
       
-      // Get recent health data from the health service
-      const healthData = await this.healthService.getRecentHealthData(userId, 5);
+      const messageCount = await countConversationMessages(conversationId);
       
-      if (!healthData || 
-          (healthData.recentMeals.length === 0 && 
-           healthData.recentLabResults.length === 0 && 
-           healthData.recentSymptoms.length === 0)) {
-        logger.debug('No health data available for context', { userId });
-        return "";
-      }
+      // Newest first, as stored for building the LLM context
+      const recentMessages = (await getConversationHistory(conversationId, TITLE_CONTEXT_MESSAGES)).reverse();
       
-      // Format meals
-      let mealContext = "";
-      if (healthData.recentMeals.length > 0) {
-        mealContext = "Recent meals:\n" + healthData.recentMeals.map(meal => {
-          const date = new Date(meal.timestamp).toLocaleString();
-          return `- ${date}: ${meal.data.description} (${meal.data.mealType})`;
-        }).join("\n");
+      // Generated titles are only checked after a few more messages, and replaced if they no longer fit
+      if (conversation.titleSource === ConversationTitleSource.GENERATED) {
+        const newMessages = messageCount - (conversation.titleMessageCount || 0);
+        if (newMessages < TITLE_REFRESH_MESSAGES || !hasTopicDrifted(conversation.title, recentMessages)) {
+          return;
+        }
       }
       
-      // Format lab results
-      let labContext = "";
-      if (healthData.recentLabResults.length > 0) {
-        labContext = "\n\nRecent lab results:\n" + healthData.recentLabResults.map(lab => {
-          const date = new Date(lab.timestamp).toLocaleString();
-          return `- ${date}: ${lab.data.testType} - ${JSON.stringify(lab.data.results || {})}`;
-        }).join("\n");
+      const title = normalizeGeneratedTitle(
+        await this.llmService.summarize(buildTitlePrompt(recentMessages), userId)
+      );
+      if (!title) {
+        throw new Error('Empty title from LLM provider');
       }
       
-      // Format symptoms
-      let symptomContext = "";
-      if (healthData.recentSymptoms.length > 0) {
-        symptomContext = "\n\nRecent symptoms:\n" + healthData.recentSymptoms.map(symptom => {
-          const date = new Date(symptom.timestamp).toLocaleString();
-          return `- ${date}: ${symptom.data.description} (Severity: ${symptom.data.severity}, Duration: ${symptom.data.duration || 'Not specified'})`;
-        }).join("\n");
+      const updated = await updateGeneratedTitle(conversationId, userId, title, messageCount);
+      if (!updated) {
+        logger.debug('Conversation renamed before its title was generated', { conversationId, userId });
+        return;
       }
       
-      // Combine all context sections
-      const fullContext = `HEALTH CONTEXT:\n${mealContext}${labContext}${symptomContext}`;
-      
-      logger.debug('Health context built successfully', { 
-        userId, 
-        contextLength: fullContext.length
+      logger.info('Conversation titled', {
+        conversationId,
+        userId,
+        retitled: conversation.titleSource === ConversationTitleSource.GENERATED
       });
-      
-      return fullContext;
     } catch (error) {
-      logger.error('Error building health context', {
+      logger.warn('Could not generate conversation title, keeping the current title', {
         error: (error as Error).message,
-        stack: (error as Error).stack,
+        conversationId,
         userId
       });
-      
-      // Return empty context on error rather than failing the entire request
-      // This allows the conversation to continue without health context
-      return "";
     }
   }
 
   /**
-   * Formats database conversation messages into LLM-compatible message format
+   * Compacts older messages of a conversation into its rolling summary
+   * 
+   * Once the messages not yet summarized take up more tokens than llm.context.recentMessagesTokens,
+   * the oldest of them are folded into the summary, in as many requests as the context window
+   * requires, leaving about half of that budget as recent messages that are sent in full.
+   * 
+   * Runs in the background after a response is stored, so it never throws: messages that
+   * could not be summarized are summarized after a later response. A summary updated by
+   * another response in the meantime is not overwritten.
    * 
-   * @param messages - Array of database message objects
-   * @returns Array of formatted messages for the LLM
+   * @param conversationId - ID of the conversation
+   * @param userId - ID of the user who owns the conversation
    */
-  private formatConversationMessages(messages: any[]): LLMMessage[] {
-    return messages.map(message => ({
-      role: message.role as ChatRole,
-      content: message.content
-    }));
+  async refreshConversationSummary(conversationId: string, userId: string): Promise<void> {
+    try {
+      const conversation = await getConversationById(conversationId, userId);
+      let summary = conversation.summary || '';
+      let summarizedUntil = conversation.summarizedUntil || null;
+      
+      // Newest first, as stored for building the LLM context
+      const unsummarized = (await getConversationHistory(
+        conversationId,
+        MAX_SUMMARY_SOURCE_MESSAGES,
+        summarizedUntil
+      )).reverse();
+      
+      let pending = selectMessagesToSummarize(unsummarized, llm.context.recentMessagesTokens);
+      let summarized = 0;
+      
+      while (pending.length > 0) {
+        // The prompt holds the instructions, the current summary and the messages to add to it
+        const batch = selectSummaryBatch(
+          pending,
+          llm.context.maxTokens - llm.context.summaryMaxTokens - estimatePromptTokens(buildSummaryPrompt(summary, []))
+        );
+        
+        const updatedSummary = await this.llmService.summarize(
+          buildSummaryPrompt(summary, batch),
+          userId,
+          llm.context.summaryMaxTokens
+        );
+        const updatedUntil = batch[batch.length - 1].timestamp;
+        
+        const updated = await updateConversationSummary(
+          conversationId,
+          userId,
+          updatedSummary,
+          updatedUntil,
+          summarizedUntil
+        );
+        if (!updated) {
+          logger.debug('Conversation summary updated by another response', { conversationId, userId });
+          return;
+        }
+        
+        summary = updatedSummary;
+        summarizedUntil = updatedUntil;
+        summarized += batch.length;
+        pending = pending.slice(batch.length);
+      }
+      
+      if (summarized > 0) {
+        logger.info('Conversation summary updated', { conversationId, userId, messages: summarized });
+      }
+    } catch (error) {
+      logger.warn('Could not update conversation summary, keeping the current summary', {
+        error: (error as Error).message,
+        conversationId,
+        userId
+      });
+    }
   }
 
   /**
    * Generates a default conversation title based on the initial message
+   * Used until a title has been generated, and kept if generating one fails
    * 
    * @param message - Initial message to generate title from
    * @returns Generated conversation title
@@ -0,0 +1,298 @@
+/**
+ * Data Export Service Module
+ *
+ * This module lets users download a copy of everything the Health Advisor application
+ * stores about them. Exports are built in the background into a ZIP archive containing:
+ * - profile.json with the user's account details
+ * - health-data/health-data.json and health-data/health-data.csv with all health records
+ * - files/ with the photos and recordings referenced by the health records
+ * - chats/conversations.json and a Markdown transcript per conversation
+ *
+ * The archive is stored in GridFS and can be downloaded until the export expires. A new
+ * export replaces the previous one.
+ *
+ * @module services/data-export.service
+ */
+
+import mongoose from 'mongoose'; // ^7.0.3
+import archiver from 'archiver'; // ^6.0.1
+import { Readable } from 'stream';
+import {
+  createDataExport,
+  findDataExportById,
+  findDataExportsByUserId,
+  markDataExportProcessing,
+  markDataExportCompleted,
+  markDataExportFailed,
+  deleteDataExports
+} from '../repositories/data-export.repository';
+import { getAllUserConversationsWithMessages } from '../repositories/chat.repository';
+import { getUserById } from '../repositories/user.repository';
+import { HealthRepository } from '../repositories/health.repository';
+import { FileRepository } from '../repositories/file.repository';
+import { DataExportDocument, DataExportResponse, ExportStatus } from '../types/export.types';
+import { ConflictError, NotFoundError } from '../utils/error.util';
+import { conversationToMarkdown, healthDataToCsv, toArchiveFilename } from '../utils/export.util';
+import { formatUserProfile } from './user.service';
+import logger from '../config/logger';
+
+// How long a completed archive can be downloaded
+const EXPORT_EXPIRY_MS = 24 * 60 * 60 * 1000;
+
+// Exports still running after this long were interrupted, e.g. by a restart
+const STALE_EXPORT_MS = 30 * 60 * 1000;
+
+// Message shown to the user when an export fails
+const EXPORT_FAILED_MESSAGE = 'The export could not be completed. Please try again.';
+
+/**
+ * Formats an export document into a standardized API response
+ *
+ * @param dataExport - Export document from the database
+ * @returns Export status with a download URL once the archive is available
+ */
+export function formatDataExport(dataExport: DataExportDocument): DataExportResponse {
+  const id = dataExport._id.toString();
+  const downloadable = dataExport.status === ExportStatus.COMPLETED && dataExport.expiresAt > new Date();
+
+  return {
+    id,
+    status: dataExport.status,
+    size: dataExport.size,
+    error: dataExport.error,
+    createdAt: dataExport.createdAt.toISOString(),
+    completedAt: dataExport.completedAt?.toISOString(),
+    expiresAt: dataExport.expiresAt.toISOString(),
+    downloadUrl: downloadable ? `/api/users/me/export/${id}/download` : undefined
+  };
+}
+
+/**
+ * Whether an export is still being built, as opposed to finished or abandoned
+ */
+function isExportInProgress(dataExport: DataExportDocument): boolean {
+  const inProgress = dataExport.status === ExportStatus.PENDING || dataExport.status === ExportStatus.PROCESSING;
+  return inProgress && Date.now() - dataExport.updatedAt.getTime() < STALE_EXPORT_MS;
+}
+
+/**
+ * Starts an export of the user's data, or returns the export already in progress
+ *
+ * Previous exports and their archives are removed, so only the newest archive is kept.
+ *
+ * @param userId - ID of the user requesting the export
+ * @returns Promise resolving to the status of the export
+ */
+export async function requestDataExport(userId: string): Promise<DataExportResponse> {
+  const exports = await findDataExportsByUserId(userId);
+
+  // Requesting again while an export is running returns the same export
+  const running = exports.find(isExportInProgress);
+  if (running) {
+    return formatDataExport(running);
+  }
+
+  if (exports.length > 0) {
+    await removeDataExports(exports);
+  }
+
+  const dataExport = await createDataExport(userId, new Date(Date.now() + EXPORT_EXPIRY_MS));
+  logger.info('Data export requested', { userId, exportId: dataExport._id.toString() });
+
+  // Build the archive in the background; the client polls the export status
+  void buildDataExport(dataExport._id.toString(), userId);
+
+  return formatDataExport(dataExport);
+}
+
+/**
+ * Retrieves the status of one of the user's exports
+ *
+ * @param userId - ID of the user
+ * @param exportId - ID of the export
+ * @returns Promise resolving to the status of the export
+ * @throws NotFoundError if the export doesn't exist or doesn't belong to the user
+ */
+export async function getDataExport(userId: string, exportId: string): Promise<DataExportResponse> {
+  const dataExport = await findDataExportById(exportId, userId);
+  if (!dataExport) {
+    throw new NotFoundError('Export not found', 'DataExport');
+  }
+
+  return formatDataExport(dataExport);
+}
+
+/**
+ * Opens the archive of a completed export for download
+ *
+ * @param userId - ID of the user
+ * @param exportId - ID of the export
+ * @returns Promise resolving to a stream of the archive with its file name and size
+ * @throws NotFoundError if the export doesn't exist, doesn't belong to the user or has expired
+ * @throws ConflictError if the archive is not ready yet
+ */
+export async function getDataExportArchive(
+  userId: string,
+  exportId: string
+): Promise<{ stream: Readable; filename: string; size: number }> {
+  const dataExport = await findDataExportById(exportId, userId);
+  if (!dataExport) {
+    throw new NotFoundError('Export not found', 'DataExport');
+  }
+
+  if (dataExport.status !== ExportStatus.COMPLETED || !dataExport.fileId) {
+    throw new ConflictError('Export is not ready for download', 'EXPORT_NOT_READY');
+  }
+
+  if (dataExport.expiresAt <= new Date()) {
+    throw new NotFoundError('Export has expired, please request a new one', 'DataExport');
+  }
+
+  const { stream } = await new FileRepository().getFileById(dataExport.fileId.toString(), {
+    asStream: true,
+    thumbnail: false,
+    width: 0,
+    height: 0
+  }) as { stream: Readable };
+
+  return {
+    stream,
+    filename: `health-advisor-export-${dataExport.createdAt.toISOString().slice(0, 10)}.zip`,
+    size: dataExport.size || 0
+  };
+}
+
+/**
+ * Builds the archive of an export and records the outcome. Errors are recorded on the
+ * export rather than thrown, since nothing awaits the job.
+ *
+ * @param exportId - ID of the export to build
+ * @param userId - ID of the user whose data is exported
+ */
+export async function buildDataExport(exportId: string, userId: string): Promise<void> {
+  try {
+    // Another request may have picked up the job already
+    if (!await markDataExportProcessing(exportId)) {
+      return;
+    }
+
+    const startedAt = Date.now();
+    const fileRepository = new FileRepository();
+    const healthRepository = new HealthRepository(mongoose.connection);
+
+    const [user, healthData, chats] = await Promise.all([
+      getUserById(userId),
+      healthRepository.findAllHealthDataByUserId(userId),
+      getAllUserConversationsWithMessages(userId)
+    ]);
+
+    // Open every referenced file before writing, so that missing files are left out
+    // rather than failing the archive halfway through
+    const files: { name: string; stream: Readable }[] = [];
+    const missingFileIds: string[] = [];
+    const fileIds = new Set(healthData.flatMap((item) => (item.fileIds || []).map((fileId) => fileId.toString())));
+
+    for (const fileId of fileIds) {
+      try {
+        const { file, stream } = await fileRepository.getFileById(fileId, {
+          asStream: true,
+          thumbnail: false,
+          width: 0,
+          height: 0
+        }) as { file: { filename: string; metadata?: { originalname?: string } }; stream: Readable };
+
+        const originalName = file.metadata?.originalname || file.filename;
+        files.push({ name: `files/${fileId}-${toArchiveFilename(originalName)}`, stream });
+      } catch (error) {
+        if (!(error instanceof NotFoundError)) {
+          throw error;
+        }
+        missingFileIds.push(fileId);
+      }
+    }
+
+    const archive = archiver('zip', { zlib: { level: 6 } });
+    const upload = fileRepository.uploadArchive(archive, `export-${exportId}.zip`, userId);
+
+    archive.append(JSON.stringify({
+      ...formatUserProfile(user),
+      exportedAt: new Date().toISOString(),
+      missingFileIds
+    }, null, 2), { name: 'profile.json' });
+
+    archive.append(JSON.stringify(healthData, null, 2), { name: 'health-data/health-data.json' });
+    archive.append(healthDataToCsv(healthData), { name: 'health-data/health-data.csv' });
+
+    files.forEach((file) => archive.append(file.stream, { name: file.name }));
+
+    archive.append(JSON.stringify(chats, null, 2), { name: 'chats/conversations.json' });
+    chats.forEach(({ conversation, messages }) => {
+      const date = new Date(conversation.startedAt).toISOString().slice(0, 10);
+      const title = toArchiveFilename(conversation.title || 'conversation');
+      archive.append(conversationToMarkdown(conversation, messages), {
+        name: `chats/${date}-${title}-${conversation._id.toString()}.md`
+      });
+    });
+
+    const [{ fileId, size }] = await Promise.all([upload, archive.finalize()]);
+    await markDataExportCompleted(exportId, fileId, size);
+
+    logger.info('Data export completed', {
+      userId,
+      exportId,
+      size,
+      records: healthData.length,
+      files: files.length,
+      conversations: chats.length,
+      durationMs: Date.now() - startedAt
+    });
+  } catch (error) {
+    logger.error('Data export failed', {
+      userId,
+      exportId,
+      error: error instanceof Error ? error.message : String(error)
+    });
+
+    await markDataExportFailed(exportId, EXPORT_FAILED_MESSAGE).catch(() => undefined);
+  }
+}
+
+/**
+ * Deletes all of a user's exports together with their archives, e.g. when the account
+ * is deleted
+ *
+ * @param userId - ID of the user
+ * @returns Promise resolving to the number of exports deleted
+ */
+export async function deleteAllDataExports(userId: string): Promise<number> {
+  const exports = await findDataExportsByUserId(userId);
+
+  if (exports.length > 0) {
+    await removeDataExports(exports);
+  }
+
+  return exports.length;
+}
+
+/**
+ * Deletes exports together with their archives
+ *
+ * @param exports - Exports to delete
+ */
+async function removeDataExports(exports: DataExportDocument[]): Promise<void> {
+  const archiveIds = exports
+    .map((dataExport) => dataExport.fileId?.toString())
+    .filter((fileId): fileId is string => !!fileId);
+
+  if (archiveIds.length > 0) {
+    const fileRepository = new FileRepository();
+    await Promise.all(archiveIds.map((fileId) => fileRepository.deleteFile(fileId).catch((error: Error) => {
+      // An archive that is already gone needs no cleanup
+      if (!(error instanceof NotFoundError)) {
+        throw error;
+      }
+    })));
+  }
+
+  await deleteDataExports(exports.map((dataExport) => dataExport._id));
+}
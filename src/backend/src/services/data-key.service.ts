@@ -0,0 +1,275 @@
+/**
+ * Data Key Service Module
+ *
+ * Manages the per-user keys health data is encrypted with. Each user gets a random
+ * 256-bit data key the first time one of their records is stored, kept only wrapped by a
+ * master key of the provider chosen by HEALTH_DATA_KMS_PROVIDER. Unwrapped keys are
+ * cached in memory so that reading a page of records doesn't call the provider for each.
+ *
+ * Keys can be rotated in two ways: rewrapping every data key with a new master key,
+ * which leaves the records as they are, and giving a user a new data key version, after
+ * which their records are re-encrypted by the health data migration.
+ *
+ * @module services/data-key.service
+ */
+
+import crypto from 'crypto';
+import { environment, logger } from '../config';
+import { KeyManagementProvider, KeyManagementProviderType, WrappedDataKey } from '../types';
+import {
+  findLatestDataKey,
+  findDataKey,
+  createDataKey,
+  findDataKeysNotWrappedWith,
+  updateWrappedDataKey,
+  deleteDataKeysByUserId
+} from '../repositories/data-key.repository';
+import { InternalServerError } from '../utils/error.util';
+import { createKeyManagementProvider } from './kms';
+
+// Length of a data key in bytes, for AES-256
+const DATA_KEY_LENGTH = 32;
+
+// Maximum number of unwrapped data keys kept in memory
+const KEY_CACHE_SIZE = 1000;
+
+// Number of data keys rewrapped per query when the master key is rotated
+const REWRAP_BATCH_SIZE = 100;
+
+/**
+ * Resolves the key management provider configured for the current environment
+ *
+ * @returns The configured provider type, defaulting to the local provider
+ */
+function resolveProviderType(): KeyManagementProviderType {
+  const providerTypes = Object.values(KeyManagementProviderType) as string[];
+  const configuredType = environment.HEALTH_DATA_KMS_PROVIDER.toLowerCase();
+
+  if (!providerTypes.includes(configuredType)) {
+    logger.warn(
+      `Unknown HEALTH_DATA_KMS_PROVIDER "${environment.HEALTH_DATA_KMS_PROVIDER}", falling back to the local provider`
+    );
+    return KeyManagementProviderType.LOCAL;
+  }
+
+  return configuredType as KeyManagementProviderType;
+}
+
+/**
+ * Service class that issues, unwraps and rotates the data keys of users
+ */
+export class DataKeyService {
+  private provider: KeyManagementProvider;
+  private cache = new Map<string, Buffer>();
+
+  /**
+   * Creates the service with the configured key management provider
+   *
+   * @param provider - Provider to use instead of the configured one
+   */
+  constructor(provider?: KeyManagementProvider) {
+    this.provider = provider || createKeyManagementProvider(resolveProviderType());
+  }
+
+  /**
+   * Gets the latest version of a user's data key, creating the first one if needed
+   *
+   * @param userId - ID of the user
+   * @returns Promise resolving to the key and its version
+   */
+  async getActiveDataKey(userId: string): Promise<{ version: number; key: Buffer }> {
+    try {
+      const dataKey = await findLatestDataKey(userId);
+      if (!dataKey) {
+        return await this.createVersion(userId, 1);
+      }
+
+      return { version: dataKey.version, key: await this.unwrap(userId, dataKey.version, dataKey) };
+    } catch (error) {
+      logger.error('Error getting active data key', {
+        userId,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Gets a specific version of a user's data key, e.g. to decrypt an older record
+   *
+   * @param userId - ID of the user
+   * @param version - Version of the key
+   * @returns Promise resolving to the key
+   * @throws InternalServerError if the user has no such key version
+   */
+  async getDataKey(userId: string, version: number): Promise<Buffer> {
+    const cached = this.readCache(userId, version);
+    if (cached) {
+      return cached;
+    }
+
+    try {
+      const dataKey = await findDataKey(userId, version);
+      if (!dataKey) {
+        throw new InternalServerError(`Data key version ${version} not found`);
+      }
+
+      return await this.unwrap(userId, version, dataKey);
+    } catch (error) {
+      logger.error('Error getting data key', {
+        userId,
+        version,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Gives a user a new data key version, which new records are encrypted with
+   *
+   * @param userId - ID of the user
+   * @returns Promise resolving to the new version
+   */
+  async rotateDataKey(userId: string): Promise<number> {
+    try {
+      const latest = await findLatestDataKey(userId);
+      const { version } = await this.createVersion(userId, (latest?.version || 0) + 1);
+
+      logger.info('Data key rotated', { userId, version });
+
+      return version;
+    } catch (error) {
+      logger.error('Error rotating data key', {
+        userId,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Rewraps every data key that isn't wrapped with the current master key
+   *
+   * Run after a new master key has been made current. The old master key must remain
+   * configured until this has finished.
+   *
+   * @returns Promise resolving to the number of keys rewrapped
+   */
+  async rewrapDataKeys(): Promise<number> {
+    const masterKeyId = this.provider.currentMasterKeyId;
+    let rewrapped = 0;
+
+    try {
+      let dataKeys = await findDataKeysNotWrappedWith(masterKeyId, REWRAP_BATCH_SIZE);
+      while (dataKeys.length > 0) {
+        for (const dataKey of dataKeys) {
+          const key = await this.provider.unwrapKey(dataKey);
+          await updateWrappedDataKey(dataKey._id, await this.provider.wrapKey(key));
+          rewrapped++;
+        }
+        dataKeys = await findDataKeysNotWrappedWith(masterKeyId, REWRAP_BATCH_SIZE);
+      }
+
+      logger.info('Data keys rewrapped', { provider: this.provider.type, masterKeyId, rewrapped });
+
+      return rewrapped;
+    } catch (error) {
+      logger.error('Error rewrapping data keys', {
+        masterKeyId,
+        rewrapped,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Deletes every version of a user's data key
+   *
+   * @param userId - ID of the user
+   * @returns Promise resolving to the number of keys deleted
+   */
+  async deleteDataKeys(userId: string): Promise<number> {
+    Array.from(this.cache.keys())
+      .filter((cacheKey) => cacheKey.startsWith(`${userId}:`))
+      .forEach((cacheKey) => this.cache.delete(cacheKey));
+
+    return deleteDataKeysByUserId(userId);
+  }
+
+  /**
+   * Creates a data key version, or reads it if a concurrent request created it first
+   *
+   * @param userId - ID of the user
+   * @param version - Version to create
+   * @returns Promise resolving to the key and its version
+   */
+  private async createVersion(userId: string, version: number): Promise<{ version: number; key: Buffer }> {
+    const key = crypto.randomBytes(DATA_KEY_LENGTH);
+    const created = await createDataKey(userId, version, await this.provider.wrapKey(key));
+
+    if (!created) {
+      return { version, key: await this.getDataKey(userId, version) };
+    }
+
+    this.writeCache(userId, version, key);
+    return { version, key };
+  }
+
+  /**
+   * Unwraps a stored data key, using the cache when possible
+   *
+   * @param userId - ID of the user
+   * @param version - Version of the key
+   * @param wrapped - The stored key
+   * @returns Promise resolving to the key
+   */
+  private async unwrap(userId: string, version: number, wrapped: WrappedDataKey): Promise<Buffer> {
+    const cached = this.readCache(userId, version);
+    if (cached) {
+      return cached;
+    }
+
+    const key = await this.provider.unwrapKey({ masterKeyId: wrapped.masterKeyId, wrappedKey: wrapped.wrappedKey });
+    this.writeCache(userId, version, key);
+    return key;
+  }
+
+  /**
+   * Reads a key from the cache, marking it as recently used
+   */
+  private readCache(userId: string, version: number): Buffer | undefined {
+    const cacheKey = `${userId}:${version}`;
+    const key = this.cache.get(cacheKey);
+    if (key) {
+      this.cache.delete(cacheKey);
+      this.cache.set(cacheKey, key);
+    }
+    return key;
+  }
+
+  /**
+   * Adds a key to the cache, evicting the least recently used key when it is full
+   */
+  private writeCache(userId: string, version: number, key: Buffer): void {
+    this.cache.set(`${userId}:${version}`, key);
+    if (this.cache.size > KEY_CACHE_SIZE) {
+      this.cache.delete(this.cache.keys().next().value as string);
+    }
+  }
+}
+
+let dataKeyService: DataKeyService | null = null;
+
+/**
+ * Gets the data key service shared by the application, so its key cache is too
+ *
+ * @returns The shared data key service
+ */
+export function getDataKeyService(): DataKeyService {
+  if (!dataKeyService) {
+    dataKeyService = new DataKeyService();
+  }
+  return dataKeyService;
+}
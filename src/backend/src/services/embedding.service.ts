@@ -0,0 +1,100 @@
+/**
+ * Embedding Service Module
+ *
+ * Computes embeddings of health records and chat messages with the provider chosen by
+ * EMBEDDING_PROVIDER, e.g. a local Ollama model. Without configuration, embeddings are
+ * computed in process by hashing word stems, so no health data is sent anywhere.
+ *
+ * @module services/embedding.service
+ */
+
+import { environment, logger } from '../config';
+import { EmbeddingProvider, EmbeddingProviderType } from '../types';
+import { ServiceUnavailableError } from '../utils/error.util';
+import { createEmbeddingProvider } from './embeddings';
+
+// Largest number of texts sent to the provider in one request
+const MAX_BATCH_SIZE = 32;
+
+/**
+ * Resolves the provider type configured for the current environment
+ *
+ * @returns The configured provider type, defaulting to the hashing provider
+ */
+function resolveProviderType(): EmbeddingProviderType {
+  const providerTypes = Object.values(EmbeddingProviderType) as string[];
+  const configuredType = environment.EMBEDDING_PROVIDER.toLowerCase();
+
+  if (!providerTypes.includes(configuredType)) {
+    logger.warn(`Unknown EMBEDDING_PROVIDER "${environment.EMBEDDING_PROVIDER}", falling back to the hashing provider`);
+    return EmbeddingProviderType.HASHING;
+  }
+
+  return configuredType as EmbeddingProviderType;
+}
+
+/**
+ * Service class that computes embeddings
+ */
+export class EmbeddingService {
+  private provider: EmbeddingProvider;
+
+  /**
+   * Creates the service with the configured provider
+   *
+   * @param provider - Provider to use instead of the configured one
+   */
+  constructor(provider?: EmbeddingProvider) {
+    this.provider = provider || createEmbeddingProvider(resolveProviderType());
+  }
+
+  /**
+   * Type of the provider in use, stored with each embedding
+   */
+  get providerType(): EmbeddingProviderType {
+    return this.provider.type;
+  }
+
+  /**
+   * Model of the provider in use, stored with each embedding
+   */
+  get model(): string {
+    return this.provider.model;
+  }
+
+  /**
+   * Computes the embeddings of texts, in batches the provider accepts
+   *
+   * @param texts - Texts to embed
+   * @returns One vector per text, in the order of the texts
+   * @throws ServiceUnavailableError if the provider fails
+   */
+  async embed(texts: string[]): Promise<number[][]> {
+    try {
+      const startedAt = Date.now();
+      const vectors: number[][] = [];
+
+      for (let start = 0; start < texts.length; start += MAX_BATCH_SIZE) {
+        vectors.push(...await this.provider.embed(texts.slice(start, start + MAX_BATCH_SIZE)));
+      }
+
+      logger.debug('Texts embedded', {
+        provider: this.provider.type,
+        model: this.provider.model,
+        duration: Date.now() - startedAt,
+        count: texts.length
+      });
+
+      return vectors;
+    } catch (error) {
+      logger.error('Error computing embeddings', {
+        error: (error as Error).message,
+        stack: (error as Error).stack,
+        provider: this.provider.type,
+        model: this.provider.model
+      });
+
+      throw new ServiceUnavailableError(`Embedding failed: ${(error as Error).message}`, 'embeddings');
+    }
+  }
+}
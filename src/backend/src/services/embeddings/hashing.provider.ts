@@ -0,0 +1,51 @@
+import crypto from 'crypto';
+
+import { EmbeddingProvider, EmbeddingProviderType } from '../../types';
+import { tokenizeSearchText } from '../../utils/search.util';
+
+// Number of dimensions word stems are hashed into
+const DIMENSIONS = 512;
+
+/**
+ * Provider that embeds texts in process by hashing their word stems
+ *
+ * Each stem adds to one of a fixed number of dimensions, with a sign chosen by the hash so
+ * that collisions tend to cancel out. Texts are similar when they share words, in any
+ * form, rather than when they mean the same, but nothing leaves the server and no model
+ * has to be installed.
+ */
+export class HashingEmbeddingProvider implements EmbeddingProvider {
+  readonly type = EmbeddingProviderType.HASHING;
+
+  readonly model = `stems-${DIMENSIONS}`;
+
+  /**
+   * Computes the embeddings of texts
+   *
+   * @param texts - Texts to embed
+   * @returns Promise resolving to one unit vector per text, or a zero vector for texts without words
+   */
+  embed(texts: string[]): Promise<number[][]> {
+    return Promise.resolve(texts.map((text) => this.embedText(text)));
+  }
+
+  /**
+   * Computes the embedding of one text
+   *
+   * @param text - Text to embed
+   * @returns The embedding
+   */
+  private embedText(text: string): number[] {
+    const vector = new Array<number>(DIMENSIONS).fill(0);
+
+    for (const stem of tokenizeSearchText(text)) {
+      const hash = crypto.createHash('sha256').update(stem).digest();
+      const index = hash.readUInt32BE(0) % DIMENSIONS;
+      vector[index] += (hash[4] & 1) === 0 ? 1 : -1;
+    }
+
+    const norm = Math.sqrt(vector.reduce((total, value) => total + value * value, 0));
+
+    return norm > 0 ? vector.map((value) => value / norm) : vector;
+  }
+}
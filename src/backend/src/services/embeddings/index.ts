@@ -0,0 +1,44 @@
+/**
+ * Embedding Providers
+ *
+ * Each provider turns texts into embeddings, which are compared to find the health
+ * records relevant to a chat message. The provider in use is chosen by EMBEDDING_PROVIDER.
+ *
+ * @module services/embeddings
+ */
+
+import { environment } from '../../config';
+import { EmbeddingProvider, EmbeddingProviderSettings, EmbeddingProviderType } from '../../types';
+import { HashingEmbeddingProvider } from './hashing.provider';
+import { OllamaEmbeddingProvider } from './ollama.provider';
+import { OpenAIEmbeddingProvider } from './openai.provider';
+
+/**
+ * Creates the configured embedding provider
+ *
+ * @param type - Provider type
+ * @returns The provider
+ * @throws Error if the provider type is not supported
+ */
+export function createEmbeddingProvider(type: EmbeddingProviderType): EmbeddingProvider {
+  const settings: EmbeddingProviderSettings = {
+    url: environment.EMBEDDING_PROVIDER_URL,
+    apiKey: environment.EMBEDDING_PROVIDER_API_KEY,
+    model: environment.EMBEDDING_MODEL,
+    timeout: environment.EMBEDDING_TIMEOUT
+  };
+
+  switch (type) {
+    case EmbeddingProviderType.OPENAI:
+    case EmbeddingProviderType.LLAMA_CPP:
+      return new OpenAIEmbeddingProvider(type, settings);
+    case EmbeddingProviderType.OLLAMA:
+      return new OllamaEmbeddingProvider(settings);
+    case EmbeddingProviderType.HASHING:
+      return new HashingEmbeddingProvider();
+    default:
+      throw new Error(`Unsupported embedding provider: ${type as string}`);
+  }
+}
+
+export { HashingEmbeddingProvider, OllamaEmbeddingProvider, OpenAIEmbeddingProvider };
@@ -0,0 +1,58 @@
+import axios from 'axios'; // ^1.3.5
+
+import { EmbeddingProvider, EmbeddingProviderSettings, EmbeddingProviderType } from '../../types';
+
+/**
+ * Provider for a local Ollama server's /api/embed endpoint
+ *
+ * Runs an embedding model such as nomic-embed-text next to the chat model, so health
+ * records never leave the server.
+ */
+export class OllamaEmbeddingProvider implements EmbeddingProvider {
+  readonly type = EmbeddingProviderType.OLLAMA;
+
+  readonly model: string;
+
+  /**
+   * Creates the provider from its settings
+   *
+   * @param settings - Endpoint, key and model
+   */
+  constructor(private settings: EmbeddingProviderSettings) {
+    this.model = settings.model;
+  }
+
+  /**
+   * Computes the embeddings of texts
+   *
+   * @param texts - Texts to embed
+   * @returns Promise resolving to one vector per text
+   * @throws Error if no endpoint is configured or the request fails
+   */
+  async embed(texts: string[]): Promise<number[][]> {
+    const { url, apiKey, model, timeout } = this.settings;
+
+    if (!url) {
+      throw new Error('No embedding endpoint is configured (EMBEDDING_PROVIDER_URL)');
+    }
+
+    // Ollama itself has no authentication, but it is often run behind a proxy that does
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (apiKey) {
+      headers['Authorization'] = `Bearer ${apiKey}`;
+    }
+
+    const response = await axios.post<{ embeddings: number[][] }>(
+      url,
+      { model, input: texts },
+      { headers, timeout }
+    );
+
+    const vectors = response.data.embeddings || [];
+    if (vectors.length !== texts.length) {
+      throw new Error(`Expected ${texts.length} embeddings, received ${vectors.length}`);
+    }
+
+    return vectors;
+  }
+}
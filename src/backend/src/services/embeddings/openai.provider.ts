@@ -0,0 +1,61 @@
+import axios from 'axios'; // ^1.3.5
+
+import { EmbeddingProvider, EmbeddingProviderSettings, EmbeddingProviderType } from '../../types';
+
+/**
+ * Provider for an OpenAI-compatible /v1/embeddings endpoint
+ *
+ * Covers OpenAI itself as well as local servers with the same API, such as llama.cpp's
+ * llama-server started with --embeddings.
+ */
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  readonly model: string;
+
+  /**
+   * Creates the provider from its settings
+   *
+   * @param type - Provider type, openai or llamacpp
+   * @param settings - Endpoint, key and model
+   */
+  constructor(readonly type: EmbeddingProviderType, private settings: EmbeddingProviderSettings) {
+    this.model = settings.model;
+  }
+
+  /**
+   * Computes the embeddings of texts
+   *
+   * @param texts - Texts to embed
+   * @returns Promise resolving to one vector per text
+   * @throws Error if no endpoint is configured or the request fails
+   */
+  async embed(texts: string[]): Promise<number[][]> {
+    const { url, apiKey, model, timeout } = this.settings;
+
+    if (!url) {
+      throw new Error('No embedding endpoint is configured (EMBEDDING_PROVIDER_URL)');
+    }
+
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (apiKey) {
+      headers['Authorization'] = `Bearer ${apiKey}`;
+    }
+
+    const response = await axios.post<{ data: { index: number; embedding: number[] }[] }>(
+      url,
+      { model, input: texts },
+      { headers, timeout }
+    );
+
+    // Embeddings are returned with the index of their input, which is not always their position
+    const vectors: number[][] = [];
+    for (const item of response.data.data) {
+      vectors[item.index] = item.embedding;
+    }
+
+    if (vectors.length !== texts.length || vectors.some((vector) => !vector)) {
+      throw new Error(`Expected ${texts.length} embeddings, received ${response.data.data.length}`);
+    }
+
+    return vectors;
+  }
+}
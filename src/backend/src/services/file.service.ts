@@ -39,6 +39,8 @@ import {
   InternalServerError
 } from '../utils/error.util';
 
+import { fileSizeBytes, fileUploadDuration } from '../utils/metrics.util';
+
 // Maximum file size (10MB)
 const MAX_FILE_SIZE = 10 * 1024 * 1024;
 
@@ -111,8 +113,11 @@ export class FileService {
         file: fileToUpload
       };
 
-      // Upload file to repository
+      // Upload file to repository, recording how long GridFS takes and the stored size
+      const endTimer = fileUploadDuration.startTimer({ type: fileType });
       const uploadResult = await this.fileRepository.uploadFile(updatedRequest);
+      endTimer();
+      fileSizeBytes.observe({ type: fileType }, fileToUpload.length);
 
       // Create thumbnail if file is an image
       if (fileType === FileType.IMAGE) {
@@ -172,7 +177,8 @@ export class FileService {
         asStream: options.asStream || false,
         thumbnail: options.thumbnail || false,
         width: options.width || DEFAULT_THUMBNAIL_WIDTH,
-        height: options.height || DEFAULT_THUMBNAIL_HEIGHT
+        height: options.height || DEFAULT_THUMBNAIL_HEIGHT,
+        ...(options.start !== undefined && { start: options.start, end: options.end })
       };
 
       // Retrieve file from repository
@@ -192,6 +198,59 @@ export class FileService {
     }
   }
 
+  /**
+   * Retrieves the metadata of a file the user is allowed to download
+   * 
+   * When a thumbnail is requested for an image that has one, the thumbnail's metadata is
+   * returned instead so callers serve the right content type and length.
+   * 
+   * @param fileId - ID of the file
+   * @param userId - ID of the user requesting the file
+   * @param thumbnail - Whether the thumbnail version is requested
+   * @returns File document of the file to serve
+   * @throws NotFoundError if the file doesn't exist or doesn't belong to the user
+   * @throws BadRequestError if file ID is invalid
+   * @throws InternalServerError if file retrieval fails
+   */
+  async getFileForUser(fileId: string, userId: string, thumbnail: boolean = false): Promise<FileDocument> {
+    try {
+      // Validate file ID
+      if (!fileId) {
+        throw new BadRequestError('File ID is required');
+      }
+
+      // Get file metadata and make sure it belongs to the user
+      const file = await this.fileRepository.getFileMetadata(fileId);
+      if (!file.metadata || file.metadata.userId.toString() !== userId) {
+        throw new NotFoundError('File not found or does not belong to the user', 'file');
+      }
+
+      // Serve the thumbnail instead if one was requested and exists
+      if (thumbnail && file.metadata.fileType === FileType.IMAGE) {
+        const thumbnailFile = await this.fileRepository.getThumbnailMetadata(fileId);
+        if (thumbnailFile) {
+          return thumbnailFile;
+        }
+
+        logger.debug(`Thumbnail not found for file ${fileId}, serving original file`);
+      }
+
+      return file;
+    } catch (error) {
+      logger.error('Error retrieving file for user', {
+        fileId,
+        userId,
+        error: (error as Error).message
+      });
+
+      if (error instanceof NotFoundError || error instanceof BadRequestError) {
+        throw error;
+      }
+
+      throw new InternalServerError(`Failed to retrieve file: ${(error as Error).message}`);
+    }
+  }
+
   /**
    * Retrieves all files associated with a health data entry
    * 
@@ -0,0 +1,143 @@
+/**
+ * Health Check Service Module
+ * 
+ * This module implements the liveness and readiness probes of the backend. Liveness only
+ * shows that the process is serving requests. Readiness checks each dependency: MongoDB
+ * is pinged, GridFS is exercised with a write, read and delete round-trip, and the LLM
+ * provider is checked with a cached request that does not use tokens.
+ * 
+ * @module services/health-check.service
+ */
+
+import { db } from '../config';
+import logger from '../config/logger';
+import { FileRepository } from '../repositories/file.repository';
+import { LLMService } from './llm.service';
+import {
+  DatabaseHealth,
+  DependencyStatus,
+  LivenessReport,
+  LLMHealth,
+  ReadinessReport,
+  ServiceStatus,
+  StorageHealth
+} from '../types/health-check.types';
+
+// Longest time a database or storage check may take before it counts as failed
+const CHECK_TIMEOUT_MS = 3000;
+
+/**
+ * Rejects if a check does not complete in time, so a hanging dependency cannot hang the probe
+ * 
+ * @param check - Check in progress
+ * @param name - Name of the dependency, for the error message
+ * @returns The result of the check
+ */
+function withTimeout<T>(check: Promise<T>, name: string): Promise<T> {
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_resolve, reject) => {
+    timer = setTimeout(
+      () => reject(new Error(`${name} check timed out after ${CHECK_TIMEOUT_MS}ms`)),
+      CHECK_TIMEOUT_MS
+    );
+  });
+
+  return Promise.race([check, timeout]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * Reports that the process is up, without checking any dependencies
+ * 
+ * @returns Liveness report
+ */
+export function checkLiveness(): LivenessReport {
+  return {
+    status: ServiceStatus.OK,
+    uptime: process.uptime(),
+    timestamp: new Date().toISOString()
+  };
+}
+
+/**
+ * Pings MongoDB and measures the round-trip time
+ * 
+ * @returns Health of the database connection
+ */
+export async function checkDatabase(): Promise<DatabaseHealth> {
+  const { readyStateText } = db.getStatus();
+
+  try {
+    const responseTime = await withTimeout(db.ping(), 'Database');
+    return { status: DependencyStatus.CONNECTED, readyState: readyStateText, responseTime };
+  } catch (error) {
+    return {
+      status: DependencyStatus.DISCONNECTED,
+      readyState: readyStateText,
+      details: (error as Error).message
+    };
+  }
+}
+
+/**
+ * Stores, reads back and deletes a probe file in GridFS
+ * 
+ * @returns Health of file storage
+ */
+export async function checkStorage(): Promise<StorageHealth> {
+  if (!db.getStatus().connected) {
+    return { status: DependencyStatus.UNAVAILABLE, details: 'MongoDB connection is not open' };
+  }
+
+  try {
+    const responseTime = await withTimeout(new FileRepository().verifyStorage(), 'Storage');
+    return { status: DependencyStatus.AVAILABLE, responseTime };
+  } catch (error) {
+    return { status: DependencyStatus.UNAVAILABLE, details: (error as Error).message };
+  }
+}
+
+/**
+ * Checks the LLM provider, reusing a recent result
+ * 
+ * @returns Health of the LLM provider
+ */
+export async function checkLLM(): Promise<LLMHealth> {
+  return LLMService.checkProviderHealth();
+}
+
+/**
+ * Checks every dependency and combines the results
+ * 
+ * The service is unavailable without the database or file storage. It is degraded but still
+ * ready when only the LLM is unavailable, since chat then answers with a fallback response.
+ * 
+ * @returns Readiness report
+ */
+export async function checkReadiness(): Promise<ReadinessReport> {
+  const [database, storage, llm] = await Promise.all([checkDatabase(), checkStorage(), checkLLM()]);
+
+  let status = ServiceStatus.OK;
+  if (database.status !== DependencyStatus.CONNECTED || storage.status !== DependencyStatus.AVAILABLE) {
+    status = ServiceStatus.UNAVAILABLE;
+  } else if (llm.status !== DependencyStatus.AVAILABLE) {
+    status = ServiceStatus.DEGRADED;
+  }
+
+  if (status !== ServiceStatus.OK) {
+    logger.warn('Readiness check found unhealthy dependencies', {
+      status,
+      database: database.status,
+      storage: storage.status,
+      llm: llm.status
+    });
+  }
+
+  return {
+    status,
+    uptime: process.uptime(),
+    timestamp: new Date().toISOString(),
+    database,
+    storage,
+    llm
+  };
+}
@@ -1,6 +1,9 @@
 import mongoose, { Types } from 'mongoose'; // ^7.0.3
 import { HealthRepository } from '../repositories/health.repository';
 import { FileService } from './file.service';
+import { OcrService } from './ocr.service';
+import { TranscriptionService } from './transcription.service';
+import { EmbeddingService } from './embedding.service';
 import {
   HealthData,
   HealthDataType,
@@ -8,11 +11,54 @@ import {
   GetHealthDataRequest,
   HealthDataResponse,
   HealthContext,
-  InputSource
+  InputSource,
+  MealType,
+  SymptomSeverity,
+  HealthInsightsRequest,
+  HealthInsights,
+  MealsPerDayInsight,
+  SymptomWeekInsight,
+  MealData,
+  LabResultData,
+  SymptomData,
+  AnalyteHistoryRequest,
+  AnalyteHistory,
+  LabResultDraft,
+  TranscriptionStatus,
+  HealthDataEmbedding
 } from '../types/health.types';
 import { FileUploadRequest, FileUploadResult } from '../types/file.types';
+import { AuditAction, AuditContext, AuditFieldChange, AuditResourceType } from '../types/audit.types';
 import { NotFoundError, BadRequestError } from '../utils/error.util';
-import { logger } from '../config/logger';
+import { normalizeAnalyte, findAnalyteDefinition } from '../utils/lab-units.util';
+import { parseLabReport, toConfidenceScore } from '../utils/lab-report.util';
+import { buildSearchSnippets } from '../utils/search.util';
+import { diffHealthData } from '../utils/audit.util';
+import { buildHealthDataEmbeddingText, rankByRelevance, RankedCandidate } from '../utils/embedding.util';
+import { recordAuditEvents } from './audit.service';
+import { llm, logger } from '../config';
+
+/**
+ * Number of days covered by insights when no start date is given
+ */
+const DEFAULT_INSIGHTS_RANGE_DAYS = 30;
+
+/**
+ * Numeric scores used to average symptom severity
+ */
+const SEVERITY_SCORES: Record<SymptomSeverity, number> = {
+  [SymptomSeverity.MILD]: 1,
+  [SymptomSeverity.MODERATE]: 2,
+  [SymptomSeverity.SEVERE]: 3
+};
+
+const DAY_IN_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Largest number of records without an up-to-date embedding that are embedded before
+ * relevant records are looked up, so that a long history is embedded over several messages
+ */
+const MAX_RECORDS_EMBEDDED_PER_LOOKUP = 100;
 
 /**
  * Service class that provides business logic for health data operations
@@ -20,6 +66,9 @@ import { logger } from '../config/logger';
 export class HealthService {
   private healthRepository: HealthRepository;
   private fileService: FileService;
+  private ocrService: OcrService;
+  private transcriptionService: TranscriptionService;
+  private embeddingService: EmbeddingService;
 
   /**
    * Initializes the HealthService with database connection
@@ -29,6 +78,9 @@ export class HealthService {
   constructor(private connection: mongoose.Connection) {
     this.healthRepository = new HealthRepository(connection);
     this.fileService = new FileService();
+    this.ocrService = new OcrService();
+    this.transcriptionService = new TranscriptionService();
+    this.embeddingService = new EmbeddingService();
     logger.info('Health service initialized');
   }
 
@@ -38,12 +90,14 @@ export class HealthService {
    * @param request - Health data creation request
    * @param userId - ID of the user creating the record
    * @param files - Optional files to attach to the health data record
+   * @param audit - Who made the request, to record in the audit log
    * @returns The created health data record with file information
    */
   async createHealthData(
     request: CreateHealthDataRequest,
     userId: string,
-    files?: Express.Multer.File[]
+    files?: Express.Multer.File[],
+    audit?: AuditContext
   ): Promise<HealthDataResponse> {
     try {
       logger.info('Creating health data', { userId, type: request.type });
@@ -59,7 +113,7 @@ export class HealthService {
         userId: userObjectId,
         type: request.type,
         timestamp: request.timestamp || new Date(),
-        data: request.data,
+        data: this.normalizeHealthDataContent(request.type, request.data),
         fileIds: [],
         metadata: request.metadata || {
           source: InputSource.TEXT,
@@ -70,6 +124,8 @@ export class HealthService {
       
       // Create health data record (without files initially)
       const createdHealthData = await this.healthRepository.createHealthData(healthData);
+      const healthDataId = createdHealthData._id.toString();
+      await this.recordAudit(audit, userId, AuditAction.CREATE, [healthDataId]);
       
       // Process and upload files if provided
       if (files && files.length > 0) {
@@ -77,7 +133,7 @@ export class HealthService {
           files, 
           request.type, 
           userId, 
-          createdHealthData._id.toString()
+          healthDataId
         );
         
         // Add file IDs to health data
@@ -96,23 +152,36 @@ export class HealthService {
             healthData.metadata.source = request.type === HealthDataType.SYMPTOM ? InputSource.VOICE : InputSource.PHOTO;
           }
           
+          // Symptom recordings are transcribed in the background once they are stored
+          const transcribe = request.type === HealthDataType.SYMPTOM;
+          
           // Update the health data with file IDs
           await this.healthRepository.updateHealthData(
-            createdHealthData._id.toString(), 
+            healthDataId, 
             userId,
             { 
               fileIds, 
-              metadata: healthData.metadata 
+              metadata: healthData.metadata,
+              ...(transcribe && {
+                data: { ...healthData.data as SymptomData, transcriptionStatus: TranscriptionStatus.PENDING }
+              })
             }
           );
           
           // Refresh the health data object with the updated data
           const updatedHealthData = await this.healthRepository.findHealthDataById(
-            createdHealthData._id.toString(), 
+            healthDataId, 
             userId
           );
           
+          if (transcribe) {
+            void this.transcribeSymptomAudio(healthDataId, userId, fileIds[0].toString());
+          }
+          
           if (updatedHealthData) {
+            // Records are embedded in the background, so chat messages can find them
+            void this.indexHealthData(healthDataId, userId);
+            
             // Format response with file URLs
             const formattedResponse = await this.formatHealthDataResponse(updatedHealthData);
             
@@ -128,6 +197,8 @@ export class HealthService {
         }
       }
       
+      void this.indexHealthData(healthDataId, userId);
+      
       // Format response with file URLs (if no files were added or update failed)
       const formattedResponse = await this.formatHealthDataResponse(createdHealthData);
       
@@ -155,9 +226,10 @@ export class HealthService {
    * 
    * @param id - ID of the health data record
    * @param userId - ID of the user who owns the record
+   * @param audit - Who made the request, to record in the audit log
    * @returns The health data record if found, null otherwise
    */
-  async getHealthDataById(id: string, userId: string): Promise<HealthDataResponse | null> {
+  async getHealthDataById(id: string, userId: string, audit?: AuditContext): Promise<HealthDataResponse | null> {
     try {
       logger.debug('Getting health data by ID', { id, userId });
       
@@ -175,6 +247,8 @@ export class HealthService {
       // Format response
       const formattedResponse = await this.formatHealthDataResponse(enrichedHealthData);
       
+      await this.recordAudit(audit, userId, AuditAction.READ, [id]);
+      
       logger.debug('Health data retrieved successfully', { id, userId });
       
       return formattedResponse;
@@ -195,11 +269,13 @@ export class HealthService {
    * 
    * @param options - Options for filtering and pagination
    * @param userId - ID of the user who owns the records
+   * @param audit - Who made the request, to record in the audit log
    * @returns Paginated health data records with total count
    */
   async getHealthData(
     options: GetHealthDataRequest,
-    userId: string
+    userId: string,
+    audit?: AuditContext
   ): Promise<{ items: HealthDataResponse[]; total: number; page: number }> {
     try {
       logger.debug('Getting health data list', { userId, options });
@@ -212,9 +288,7 @@ export class HealthService {
       const { items, total } = await this.healthRepository.findHealthDataByUserId(
         userId,
         {
-          date: options.date,
-          type: options.type,
-          search: options.search,
+          ...options,
           page,
           limit
         }
@@ -223,11 +297,26 @@ export class HealthService {
       // Enrich health data with file information
       const enrichedItems = await this.healthRepository.enrichHealthDataWithFiles(items) as HealthData[];
       
-      // Format response items
+      // Format response items, explaining why each one matched a search
+      const search = options.search?.trim();
       const formattedItems = await Promise.all(
-        enrichedItems.map(item => this.formatHealthDataResponse(item))
+        enrichedItems.map(async (item) => {
+          const response = await this.formatHealthDataResponse(item);
+          
+          if (search) {
+            response.search = {
+              score: (item as HealthData & { searchScore?: number }).searchScore ?? 0,
+              snippets: buildSearchSnippets(item, search)
+            };
+          }
+          
+          return response;
+        })
       );
       
+      // Every record returned was read, so its history shows the list request
+      await this.recordAudit(audit, userId, AuditAction.LIST, formattedItems.map((item) => item.id));
+      
       logger.debug('Health data list retrieved successfully', { 
         userId, 
         count: items.length,
@@ -258,13 +347,15 @@ export class HealthService {
    * @param userId - ID of the user who owns the record
    * @param updateData - Partial health data for update
    * @param files - Optional new files to attach to the health data record
+   * @param audit - Who made the request, to record in the audit log with the changed fields
    * @returns The updated health data record if found, null otherwise
    */
   async updateHealthData(
     id: string,
     userId: string,
     updateData: Partial<CreateHealthDataRequest>,
-    files?: Express.Multer.File[]
+    files?: Express.Multer.File[],
+    audit?: AuditContext
   ): Promise<HealthDataResponse | null> {
     try {
       logger.info('Updating health data', { id, userId });
@@ -280,6 +371,43 @@ export class HealthService {
       // Create an update object that we'll populate
       const updates: Partial<HealthData> = { ...updateData as any };
       
+      // Normalize lab analytes in the same way as on creation
+      if (updateData.data) {
+        updates.data = this.normalizeHealthDataContent(updateData.type || existingHealthData.type, updateData.data);
+      }
+      
+      // Keep the OCR draft of a lab result, which clients don't send back when confirming it
+      if (updates.data && existingHealthData.type === HealthDataType.LAB_RESULT) {
+        const existingLabData = existingHealthData.data as LabResultData;
+        const labData = updates.data as LabResultData;
+        if (existingLabData.extraction) {
+          updates.data = {
+            ...labData,
+            results: Object.keys(labData.results || {}).length > 0 ? labData.results : existingLabData.results,
+            extraction: existingLabData.extraction
+          };
+        }
+      }
+      
+      // Keep the server-side transcription of a symptom, which clients don't send back
+      if (updates.data && existingHealthData.type === HealthDataType.SYMPTOM) {
+        const existingSymptomData = existingHealthData.data as SymptomData;
+        const symptomData = updates.data as SymptomData;
+        const { transcriptionStatus, transcriptionEngine, transcribedAt } = existingSymptomData;
+        if (transcriptionStatus) {
+          updates.data = {
+            ...symptomData,
+            transcription: symptomData.transcription || existingSymptomData.transcription,
+            transcriptionStatus,
+            ...(transcriptionEngine && { transcriptionEngine }),
+            ...(transcribedAt && { transcribedAt })
+          };
+        }
+      }
+      
+      // ID of a new symptom recording to transcribe once the update is saved
+      let transcriptionFileId: string | null = null;
+      
       // Process and upload new files if provided
       if (files && files.length > 0) {
         const uploadedFiles = await this.processHealthDataFiles(
@@ -289,6 +417,15 @@ export class HealthService {
           id
         );
         
+        // A new recording replaces the transcription of the previous one
+        if (existingHealthData.type === HealthDataType.SYMPTOM && uploadedFiles.length > 0) {
+          updates.data = {
+            ...(updates.data || existingHealthData.data) as SymptomData,
+            transcriptionStatus: TranscriptionStatus.PENDING
+          };
+          transcriptionFileId = uploadedFiles[uploadedFiles.length - 1].fileId;
+        }
+        
         // Combine existing file IDs with new file IDs
         const fileIds = [
           ...(existingHealthData.fileIds || []),
@@ -318,6 +455,14 @@ export class HealthService {
         return null;
       }
       
+      if (transcriptionFileId) {
+        void this.transcribeSymptomAudio(id, userId, transcriptionFileId);
+      }
+      void this.indexHealthData(id, userId);
+      
+      const changes = diffHealthData(existingHealthData, updatedHealthData);
+      await this.recordAudit(audit, userId, AuditAction.UPDATE, [id], changes);
+      
       // Enrich updated health data with file information
       const enrichedHealthData = await this.healthRepository.enrichHealthDataWithFiles(updatedHealthData) as HealthData;
       
@@ -344,9 +489,10 @@ export class HealthService {
    * 
    * @param id - ID of the health data record
    * @param userId - ID of the user who owns the record
+   * @param audit - Who made the request, to record in the audit log
    * @returns True if deletion was successful, false if record not found
    */
-  async deleteHealthData(id: string, userId: string): Promise<boolean> {
+  async deleteHealthData(id: string, userId: string, audit?: AuditContext): Promise<boolean> {
     try {
       logger.info('Deleting health data', { id, userId });
       
@@ -365,6 +511,9 @@ export class HealthService {
       
       // Delete health data record
       const deleted = await this.healthRepository.deleteHealthData(id, userId);
+      if (deleted) {
+        await this.recordAudit(audit, userId, AuditAction.DELETE, [id]);
+      }
       
       logger.info('Health data deleted successfully', { id, userId });
       
@@ -436,6 +585,503 @@ export class HealthService {
     }
   }
 
+  /**
+   * Retrieves the health data most relevant to a chat message to provide context for LLM
+   * interactions
+   *
+   * Records are ranked by the similarity of their embeddings to the message, weighted
+   * towards recent records. Records without an up-to-date embedding are embedded first.
+   * When no record is similar to the message, or embeddings can't be computed, the most
+   * recent records are used instead.
+   *
+   * @param userId - ID of the user
+   * @param message - Message the context is for
+   * @param limit - Maximum number of records to retrieve
+   * @returns Relevant health data grouped by type, most relevant first
+   */
+  async getRelevantHealthContext(
+    userId: string,
+    message: string,
+    limit: number = llm.context.relevantRecords
+  ): Promise<HealthContext> {
+    let ranked: RankedCandidate<HealthDataEmbedding>[];
+    try {
+      logger.debug('Getting relevant health context for user', { userId, limit });
+
+      await this.embedPendingHealthData(userId);
+
+      const { providerType, model } = this.embeddingService;
+      const [[queryVector], embeddings] = await Promise.all([
+        this.embeddingService.embed([message]),
+        this.healthRepository.findHealthDataEmbeddings(userId, providerType, model)
+      ]);
+
+      ranked = rankByRelevance(queryVector, embeddings, limit, llm.context.recencyHalfLifeDays);
+    } catch (error) {
+      logger.warn('Failed to rank health data by relevance, using recent health data', {
+        error: (error as Error).message,
+        userId
+      });
+
+      return this.getHealthContext(userId);
+    }
+
+    if (ranked.length === 0) {
+      logger.debug('No health data relevant to the message, using recent health data', { userId });
+      return this.getHealthContext(userId);
+    }
+
+    try {
+      const records = await this.healthRepository.findHealthDataByIds(
+        ranked.map(({ candidate }) => candidate.healthDataId.toString()),
+        userId
+      );
+      const enrichedRecords = await this.healthRepository.enrichHealthDataWithFiles(records) as HealthData[];
+      const formattedRecords = await Promise.all(
+        enrichedRecords.map((record) => this.formatHealthDataResponse(record))
+      );
+
+      logger.debug('Relevant health context retrieved successfully', {
+        userId,
+        recordCount: formattedRecords.length,
+        topScore: ranked[0].score
+      });
+
+      return {
+        recentMeals: formattedRecords.filter((record) => record.type === HealthDataType.MEAL),
+        recentLabResults: formattedRecords.filter((record) => record.type === HealthDataType.LAB_RESULT),
+        recentSymptoms: formattedRecords.filter((record) => record.type === HealthDataType.SYMPTOM)
+      };
+    } catch (error) {
+      logger.error('Error getting relevant health context', {
+        error: (error as Error).message,
+        stack: (error as Error).stack,
+        userId
+      });
+
+      throw error;
+    }
+  }
+
+  /**
+   * Computes and stores the embedding of a health data record
+   *
+   * Runs in the background after a record changes, so failures are logged rather than
+   * thrown; a record left without an up-to-date embedding is embedded the next time
+   * relevant records are looked up.
+   *
+   * @param id - ID of the record
+   * @param userId - ID of the user who owns the record
+   */
+  async indexHealthData(id: string, userId: string): Promise<void> {
+    try {
+      const healthData = await this.healthRepository.findHealthDataById(id, userId);
+      if (!healthData) {
+        return;
+      }
+
+      const [vector] = await this.embeddingService.embed([buildHealthDataEmbeddingText(healthData)]);
+      await this.healthRepository.saveHealthDataEmbedding(
+        healthData,
+        this.embeddingService.providerType,
+        this.embeddingService.model,
+        vector
+      );
+    } catch (error) {
+      logger.warn('Failed to embed health data', {
+        error: (error as Error).message,
+        id,
+        userId
+      });
+    }
+  }
+
+  /**
+   * Aggregates a user's health data into chartable series over a date range
+   * 
+   * Days and weeks without entries are included with zero counts so that the series
+   * cover the whole range.
+   * 
+   * @param userId - ID of the user
+   * @param request - Date range and time zone of the insights
+   * @returns Meals per day, weekly symptom trend and lab test history
+   */
+  async getHealthInsights(userId: string, request: HealthInsightsRequest = {}): Promise<HealthInsights> {
+    try {
+      // Resolve the date range, defaulting to the last 30 days
+      const endDate = request.endDate || new Date();
+      const startDate = request.startDate || new Date(endDate.getTime() - DEFAULT_INSIGHTS_RANGE_DAYS * DAY_IN_MS);
+      const timezone = request.timezone || 'UTC';
+      
+      logger.debug('Getting health insights for user', { userId, startDate, endDate, timezone });
+      
+      const [mealRows, symptomRows, labTestHistory] = await Promise.all([
+        this.healthRepository.aggregateMealsPerDay(userId, startDate, endDate, timezone),
+        this.healthRepository.aggregateSymptomsPerWeek(userId, startDate, endDate, timezone),
+        this.healthRepository.aggregateLabTestHistory(userId, startDate, endDate)
+      ]);
+      
+      const firstDay = this.formatDay(startDate, timezone);
+      const lastDay = this.formatDay(endDate, timezone);
+      
+      // Build one entry per day, filling in the aggregated meal counts
+      const mealsPerDay = new Map<string, MealsPerDayInsight>();
+      for (let day = firstDay; day <= lastDay; day = this.addDays(day, 1)) {
+        mealsPerDay.set(day, {
+          date: day,
+          counts: this.emptyCounts(Object.values(MealType)),
+          total: 0
+        });
+      }
+      mealRows.forEach(({ date, mealType, count }) => {
+        const entry = mealsPerDay.get(date);
+        if (entry && entry.counts[mealType] !== undefined) {
+          entry.counts[mealType] += count;
+          entry.total += count;
+        }
+      });
+      
+      // Build one entry per week, filling in the aggregated symptom counts
+      const symptomTrend = new Map<string, SymptomWeekInsight>();
+      for (let week = this.weekStart(firstDay); week <= lastDay; week = this.addDays(week, 7)) {
+        symptomTrend.set(week, {
+          weekStart: week,
+          count: 0,
+          severityCounts: this.emptyCounts(Object.values(SymptomSeverity)),
+          averageSeverity: null
+        });
+      }
+      symptomRows.forEach(({ weekStart, severity, count }) => {
+        const entry = symptomTrend.get(weekStart);
+        if (entry && entry.severityCounts[severity] !== undefined) {
+          entry.severityCounts[severity] += count;
+          entry.count += count;
+        }
+      });
+      symptomTrend.forEach(entry => {
+        if (entry.count > 0) {
+          const totalScore = (Object.keys(entry.severityCounts) as SymptomSeverity[]).reduce(
+            (sum, severity) => sum + SEVERITY_SCORES[severity] * entry.severityCounts[severity],
+            0
+          );
+          entry.averageSeverity = Math.round((totalScore / entry.count) * 100) / 100;
+        }
+      });
+      
+      logger.debug('Health insights retrieved successfully', {
+        userId,
+        days: mealsPerDay.size,
+        weeks: symptomTrend.size,
+        labTestTypes: labTestHistory.length
+      });
+      
+      return {
+        startDate: startDate.toISOString(),
+        endDate: endDate.toISOString(),
+        timezone,
+        mealsPerDay: Array.from(mealsPerDay.values()),
+        symptomTrend: Array.from(symptomTrend.values()),
+        labTestHistory: labTestHistory.map(history => ({
+          ...history,
+          entries: history.entries.map(entry => ({
+            ...entry,
+            testDate: new Date(entry.testDate).toISOString()
+          }))
+        }))
+      };
+    } catch (error) {
+      logger.error('Error getting health insights', {
+        error: (error as Error).message,
+        stack: (error as Error).stack,
+        userId
+      });
+      
+      throw error;
+    }
+  }
+
+  /**
+   * Retrieves every measurement of an analyte across a user's lab results
+   * 
+   * @param userId - ID of the user
+   * @param analyteKey - Key of the analyte (e.g., "glucose")
+   * @param request - Optional lab test date range
+   * @returns The analyte's measurements, oldest first
+   * @throws NotFoundError if the analyte is not a known analyte and has no measurements
+   */
+  async getAnalyteHistory(
+    userId: string,
+    analyteKey: string,
+    request: AnalyteHistoryRequest = {}
+  ): Promise<AnalyteHistory> {
+    try {
+      logger.info('Getting analyte history', { userId, analyteKey });
+      
+      const definition = findAnalyteDefinition(analyteKey);
+      const measurements = await this.healthRepository.findAnalyteHistory(
+        userId,
+        analyteKey,
+        request.startDate,
+        request.endDate
+      );
+      
+      // Known analytes always have a (possibly empty) history
+      if (!definition && measurements.length === 0) {
+        throw new NotFoundError(`No lab results found for analyte: ${analyteKey}`, 'analyte');
+      }
+      
+      // Known analytes are stored in their canonical unit; other analytes only
+      // have a single unit if every measurement was entered in it
+      const units = new Set(measurements.map((measurement) => measurement.unit));
+      const unit = definition ? definition.unit : (units.size === 1 ? measurements[0].unit : null);
+      
+      return {
+        key: analyteKey,
+        name: definition ? definition.name : measurements[measurements.length - 1].name,
+        unit,
+        entries: measurements.map(({ name: _name, testDate, ...measurement }) => ({
+          ...measurement,
+          testDate: new Date(testDate).toISOString()
+        }))
+      };
+    } catch (error) {
+      logger.error('Error getting analyte history', {
+        error: (error as Error).message,
+        stack: (error as Error).stack,
+        userId,
+        analyteKey
+      });
+      
+      throw error;
+    }
+  }
+
+  /**
+   * Reads the analytes from the photo of a lab result with OCR and stores them as a draft
+   * 
+   * The analytes found are saved in the lab result's `results`, keyed by name and with
+   * the confidence of the line each was read from, and returned so the user can review
+   * them before they are saved as structured analytes.
+   * 
+   * @param id - ID of the lab result
+   * @param userId - ID of the user who owns the lab result
+   * @param audit - Who made the request, to record in the audit log
+   * @returns The draft read from the photo
+   * @throws NotFoundError if the lab result doesn't exist
+   * @throws BadRequestError if the record is not a lab result or has no photo
+   */
+  async extractLabResult(id: string, userId: string, audit?: AuditContext): Promise<LabResultDraft> {
+    try {
+      logger.info('Extracting lab result from photo', { id, userId });
+      
+      const healthData = await this.healthRepository.findHealthDataById(id, userId);
+      if (!healthData) {
+        throw new NotFoundError(`Health data with ID ${id} not found`, 'healthData');
+      }
+      
+      if (healthData.type !== HealthDataType.LAB_RESULT) {
+        throw new BadRequestError('Only lab results can be extracted');
+      }
+      
+      if (!healthData.fileIds || healthData.fileIds.length === 0) {
+        throw new BadRequestError('Lab result has no photo to extract');
+      }
+      
+      // Read the original photo rather than its thumbnail
+      const fileId = healthData.fileIds[0].toString();
+      const image = await this.fileService.getFileById(fileId);
+      if (!('buffer' in image) || !image.file.contentType.startsWith('image/')) {
+        throw new BadRequestError('Lab result photo is not an image');
+      }
+      
+      const recognized = await this.ocrService.recognize(image.buffer);
+      const analytes = parseLabReport(recognized.lines);
+      const confidence = toConfidenceScore(recognized.confidence);
+      
+      // Store the draft so it is kept even if the user doesn't confirm it straight away
+      const labData = healthData.data as LabResultData;
+      const results = Object.fromEntries(analytes.map(({ name, line: _line, ...analyte }) => [name, analyte]));
+      const updatedHealthData = await this.healthRepository.updateHealthData(id, userId, {
+        data: {
+          ...labData,
+          results,
+          extraction: {
+            engine: this.ocrService.engine,
+            fileId,
+            confidence,
+            analyteCount: analytes.length,
+            extractedAt: new Date()
+          }
+        }
+      });
+      if (updatedHealthData) {
+        const changes = diffHealthData(healthData, updatedHealthData);
+        await this.recordAudit(audit, userId, AuditAction.UPDATE, [id], changes);
+      }
+      
+      logger.info('Lab result extracted', { id, userId, analyteCount: analytes.length, confidence });
+      
+      return {
+        healthDataId: id,
+        fileId,
+        confidence,
+        text: recognized.text,
+        analytes
+      };
+    } catch (error) {
+      logger.error('Error extracting lab result', {
+        error: (error as Error).message,
+        stack: (error as Error).stack,
+        id,
+        userId
+      });
+      
+      throw error;
+    }
+  }
+
+  /**
+   * Transcribes the voice recording of a symptom and stores the transcript
+   * 
+   * Runs in the background after the recording is stored, so it never throws: failures
+   * are logged and recorded as the symptom's transcription status. A transcript is only
+   * searchable once it has been stored. An empty transcript keeps any transcription that
+   * was recorded on the device.
+   * 
+   * @param id - ID of the symptom
+   * @param userId - ID of the user who owns the symptom
+   * @param fileId - ID of the recording
+   */
+  async transcribeSymptomAudio(id: string, userId: string, fileId: string): Promise<void> {
+    try {
+      logger.info('Transcribing symptom recording', { id, userId, fileId });
+      
+      const recording = await this.fileService.getFileById(fileId);
+      if (!('buffer' in recording)) {
+        throw new BadRequestError('Symptom recording could not be read');
+      }
+      
+      const transcript = await this.transcriptionService.transcribe(recording.buffer, recording.file.contentType);
+      
+      // The symptom may have been edited or deleted while the recording was transcribed
+      const healthData = await this.healthRepository.findHealthDataById(id, userId);
+      if (!healthData) {
+        logger.debug('Symptom deleted before its transcription finished', { id, userId });
+        return;
+      }
+      
+      const symptomData = healthData.data as SymptomData;
+      await this.healthRepository.updateHealthData(id, userId, {
+        data: {
+          ...symptomData,
+          transcription: transcript || symptomData.transcription,
+          transcriptionStatus: TranscriptionStatus.COMPLETED,
+          transcriptionEngine: this.transcriptionService.engineType,
+          transcribedAt: new Date()
+        }
+      });
+      
+      logger.info('Symptom recording transcribed', { id, userId, length: transcript.length });
+      
+      // The transcription is part of what the symptom is found by
+      void this.indexHealthData(id, userId);
+    } catch (error) {
+      logger.error('Error transcribing symptom recording', {
+        error: (error as Error).message,
+        stack: (error as Error).stack,
+        id,
+        userId,
+        fileId
+      });
+      
+      await this.markTranscriptionFailed(id, userId);
+    }
+  }
+
+  /**
+   * Embeds a user's records that have no embedding of the current model yet, or changed
+   * since theirs was computed, e.g. records stored before embeddings were introduced
+   *
+   * @param userId - ID of the user
+   * @throws ServiceUnavailableError if the embedding provider fails
+   */
+  private async embedPendingHealthData(userId: string): Promise<void> {
+    const { providerType, model } = this.embeddingService;
+    const pending = await this.healthRepository.findHealthDataToEmbed(
+      userId,
+      providerType,
+      model,
+      MAX_RECORDS_EMBEDDED_PER_LOOKUP
+    );
+    if (pending.length === 0) {
+      return;
+    }
+
+    const vectors = await this.embeddingService.embed(pending.map((record) => buildHealthDataEmbeddingText(record)));
+    await Promise.all(pending.map((record, index) => (
+      this.healthRepository.saveHealthDataEmbedding(record, providerType, model, vectors[index])
+    )));
+
+    logger.debug('Pending health data embedded', { userId, count: pending.length });
+  }
+
+  /**
+   * Records that the transcription of a symptom recording failed
+   * 
+   * @param id - ID of the symptom
+   * @param userId - ID of the user who owns the symptom
+   */
+  private async markTranscriptionFailed(id: string, userId: string): Promise<void> {
+    try {
+      const healthData = await this.healthRepository.findHealthDataById(id, userId);
+      if (!healthData) {
+        return;
+      }
+      
+      await this.healthRepository.updateHealthData(id, userId, {
+        data: {
+          ...healthData.data as SymptomData,
+          transcriptionStatus: TranscriptionStatus.FAILED
+        }
+      });
+    } catch (error) {
+      logger.warn('Failed to record transcription failure', {
+        error: (error as Error).message,
+        id,
+        userId
+      });
+    }
+  }
+
+  /**
+   * Records an action on health records in the audit log
+   * 
+   * @param audit - Who made the request, or undefined for actions that aren't audited
+   * @param userId - ID of the user who owns the records
+   * @param action - Action performed
+   * @param ids - IDs of the records
+   * @param changes - Fields changed by an update
+   */
+  private async recordAudit(
+    audit: AuditContext | undefined,
+    userId: string,
+    action: AuditAction,
+    ids: string[],
+    changes?: AuditFieldChange[]
+  ): Promise<void> {
+    if (!audit) {
+      return;
+    }
+    
+    await recordAuditEvents(audit, ids.map((id) => ({
+      action,
+      resourceType: AuditResourceType.HEALTH_DATA,
+      resourceId: id,
+      ownerId: userId,
+      ...(changes && { changes })
+    })));
+  }
+
   /**
    * Formats a health data record into a standardized response format with file URLs
    * 
@@ -605,4 +1251,78 @@ export class HealthService {
         throw new BadRequestError(`Invalid health data type: ${request.type}`);
     }
   }
+
+  /**
+   * Normalizes structured lab analytes to canonical units and recomputes their
+   * out-of-range flags; other health data is returned unchanged
+   * 
+   * @param type - Type of the health data
+   * @param data - Health data content
+   * @returns Health data content ready to be stored
+   */
+  private normalizeHealthDataContent(
+    type: HealthDataType,
+    data: MealData | LabResultData | SymptomData
+  ): MealData | LabResultData | SymptomData {
+    const labData = data as LabResultData;
+    if (type !== HealthDataType.LAB_RESULT || !Array.isArray(labData.analytes)) {
+      return data;
+    }
+    
+    return {
+      ...labData,
+      analytes: labData.analytes.map((analyte) => normalizeAnalyte(analyte))
+    };
+  }
+
+  /**
+   * Formats a date as the calendar day (YYYY-MM-DD) it falls on in a time zone
+   * 
+   * @param date - Date to format
+   * @param timezone - IANA time zone
+   * @returns Calendar day in YYYY-MM-DD format
+   */
+  private formatDay(date: Date, timezone: string): string {
+    const parts = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit'
+    }).formatToParts(date);
+    const part = (type: string) => parts.find(p => p.type === type)?.value;
+    
+    return `${part('year')}-${part('month')}-${part('day')}`;
+  }
+
+  /**
+   * Adds a number of days to a calendar day
+   * 
+   * @param day - Calendar day in YYYY-MM-DD format
+   * @param days - Number of days to add
+   * @returns Resulting calendar day in YYYY-MM-DD format
+   */
+  private addDays(day: string, days: number): string {
+    return new Date(Date.parse(`${day}T00:00:00Z`) + days * DAY_IN_MS).toISOString().slice(0, 10);
+  }
+
+  /**
+   * Finds the Monday of the week a calendar day falls in
+   * 
+   * @param day - Calendar day in YYYY-MM-DD format
+   * @returns Monday of the week in YYYY-MM-DD format
+   */
+  private weekStart(day: string): string {
+    const dayOfWeek = new Date(`${day}T00:00:00Z`).getUTCDay();
+    return this.addDays(day, -((dayOfWeek + 6) % 7));
+  }
+
+  /**
+   * Creates a record with a zero count for every key
+   * 
+   * @param keys - Keys of the record
+   * @returns Record with all counts set to zero
+   */
+  private emptyCounts<K extends string>(keys: K[]): Record<K, number> {
+    return keys.reduce((counts, key) => ({ ...counts, [key]: 0 }), {} as Record<K, number>);
+  }
 }
\ No newline at end of file
@@ -8,26 +8,66 @@
  * @module services
  */
 
+// Account Deletion Service exports
+import { deleteAccount } from './account-deletion.service';
+
+// Audit Service exports
+import {
+  recordAuditEvent,
+  recordAuditEvents,
+  getUserAuditLog,
+  queryAuditLog
+} from './audit.service';
+
 // Authentication Service exports
 import { login, signup, validateToken, formatUserResponse } from './auth.service';
 
 // Chat Service exports
 import { ChatService } from './chat.service';
 
+// Data Export Service exports
+import {
+  requestDataExport,
+  getDataExport,
+  getDataExportArchive,
+  deleteAllDataExports
+} from './data-export.service';
+
+// Embedding Service exports
+import { EmbeddingService } from './embedding.service';
+
 // File Service exports
 import { FileService } from './file.service';
 
 // Health Service exports
 import { HealthService } from './health.service';
 
+// Health Check Service exports
+import { checkLiveness, checkReadiness } from './health-check.service';
+
 // LLM Service exports
 import { LLMService } from './llm.service';
 
+// OCR Service exports
+import { OcrService } from './ocr.service';
+
+// Transcription Service exports
+import { TranscriptionService } from './transcription.service';
+
 // User Service exports
-import { getUserProfile, formatUserProfile } from './user.service';
+import { getUserProfile, updateUserProfile, formatUserProfile } from './user.service';
 
 // Re-export all service functions and classes
 export {
+  // Account deletion
+  deleteAccount,
+  
+  // Audit log
+  recordAuditEvent,
+  recordAuditEvents,
+  getUserAuditLog,
+  queryAuditLog,
+  
   // Authentication
   login,
   signup,
@@ -37,16 +77,36 @@ export {
   // Chat
   ChatService,
   
+  // Data export
+  requestDataExport,
+  getDataExport,
+  getDataExportArchive,
+  deleteAllDataExports,
+  
+  // Embeddings
+  EmbeddingService,
+  
   // File
   FileService,
   
   // Health
   HealthService,
   
+  // Health checks
+  checkLiveness,
+  checkReadiness,
+  
   // LLM
   LLMService,
   
+  // OCR
+  OcrService,
+  
+  // Transcription
+  TranscriptionService,
+  
   // User
   getUserProfile,
+  updateUserProfile,
   formatUserProfile
 };
\ No newline at end of file
@@ -0,0 +1,77 @@
+/**
+ * Key Management Providers
+ *
+ * Each provider holds the master keys that wrap the per-user data keys of health data
+ * encryption. The provider in use is chosen by HEALTH_DATA_KMS_PROVIDER.
+ *
+ * @module services/kms
+ */
+
+import crypto from 'crypto';
+import { environment } from '../../config';
+import { KeyManagementProvider, KeyManagementProviderType } from '../../types';
+import { LocalKeyManagementProvider } from './local.kms';
+
+// ID of the master key used outside production when none are configured
+export const DEVELOPMENT_MASTER_KEY_ID = 'development';
+
+// Value the development master key is derived from
+const DEVELOPMENT_MASTER_KEY_SEED = 'health-advisor-development-master-key';
+
+/**
+ * Reads the master keys configured in HEALTH_DATA_MASTER_KEYS
+ *
+ * Without configured keys, a fixed development key is used outside production, so
+ * development works without extra setup. Production requires configured keys.
+ *
+ * @returns The master keys by ID, and the ID of the one new data keys are wrapped with
+ * @throws Error if an entry isn't an id:key pair, or no keys are configured in production
+ */
+export function parseMasterKeys(): { masterKeys: Map<string, Buffer>; currentMasterKeyId: string } {
+  const masterKeys = new Map<string, Buffer>();
+
+  const entries = environment.HEALTH_DATA_MASTER_KEYS.split(',').map((entry) => entry.trim()).filter(Boolean);
+  for (const entry of entries) {
+    const separator = entry.indexOf(':');
+    if (separator <= 0) {
+      throw new Error('HEALTH_DATA_MASTER_KEYS entries must be id:base64-key pairs');
+    }
+    masterKeys.set(entry.slice(0, separator), Buffer.from(entry.slice(separator + 1), 'base64'));
+  }
+
+  if (masterKeys.size === 0) {
+    if (environment.IS_PRODUCTION) {
+      throw new Error('HEALTH_DATA_MASTER_KEYS must be set in production');
+    }
+
+    const developmentKey = crypto.createHash('sha256').update(DEVELOPMENT_MASTER_KEY_SEED).digest();
+
+    return {
+      masterKeys: new Map([[DEVELOPMENT_MASTER_KEY_ID, developmentKey]]),
+      currentMasterKeyId: DEVELOPMENT_MASTER_KEY_ID
+    };
+  }
+
+  return {
+    masterKeys,
+    currentMasterKeyId: environment.HEALTH_DATA_MASTER_KEY_ID || Array.from(masterKeys.keys())[0]
+  };
+}
+
+/**
+ * Creates the configured key management provider
+ *
+ * @param type - Provider type
+ * @returns The provider
+ * @throws Error if the provider type is not supported or its keys are misconfigured
+ */
+export function createKeyManagementProvider(type: KeyManagementProviderType): KeyManagementProvider {
+  switch (type) {
+    case KeyManagementProviderType.LOCAL:
+      return new LocalKeyManagementProvider(parseMasterKeys());
+    default:
+      throw new Error(`Unsupported key management provider: ${type as string}`);
+  }
+}
+
+export { LocalKeyManagementProvider };
@@ -0,0 +1,87 @@
+import crypto from 'crypto';
+import { KeyManagementProvider, KeyManagementProviderType, WrappedDataKey } from '../../types';
+
+/**
+ * Key management provider that keeps the master keys in the process
+ *
+ * A stand-in for a key management service: master keys come from the environment, and
+ * data keys are wrapped with AES-256-GCM. Keeping several master keys lets data keys
+ * wrapped with an old one be read while they are rewrapped with the new one.
+ */
+export class LocalKeyManagementProvider implements KeyManagementProvider {
+  readonly type = KeyManagementProviderType.LOCAL;
+  readonly currentMasterKeyId: string;
+  private masterKeys: Map<string, Buffer>;
+
+  /**
+   * Creates the provider
+   *
+   * @param options - 32-byte master keys by ID, and the ID of the one new data keys are
+   *                  wrapped with
+   * @throws Error if the current master key is missing or a master key isn't 32 bytes
+   */
+  constructor({ masterKeys, currentMasterKeyId }: { masterKeys: Map<string, Buffer>; currentMasterKeyId: string }) {
+    this.masterKeys = masterKeys;
+    this.currentMasterKeyId = currentMasterKeyId;
+
+    if (!masterKeys.has(currentMasterKeyId)) {
+      throw new Error(`Master key "${currentMasterKeyId}" is not configured`);
+    }
+    masterKeys.forEach((key, id) => {
+      if (key.length !== 32) {
+        throw new Error(`Master key "${id}" must be 32 bytes`);
+      }
+    });
+  }
+
+  /**
+   * Wraps a data key with the current master key
+   *
+   * @param dataKey - Plaintext data key
+   * @returns Promise resolving to the random IV, authentication tag and encrypted key,
+   *          base64-encoded and joined by dots, with the master key ID
+   */
+  wrapKey(dataKey: Buffer): Promise<WrappedDataKey> {
+    const masterKeyId = this.currentMasterKeyId;
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', this.getMasterKey(masterKeyId), iv);
+    cipher.setAAD(Buffer.from(masterKeyId));
+    const ciphertext = Buffer.concat([cipher.update(dataKey), cipher.final()]);
+
+    return Promise.resolve({
+      masterKeyId,
+      wrappedKey: [iv, cipher.getAuthTag(), ciphertext].map((part) => part.toString('base64')).join('.')
+    });
+  }
+
+  /**
+   * Unwraps a data key with the master key it was wrapped with
+   *
+   * @param wrapped - Wrapped data key and the ID of its master key
+   * @returns Promise resolving to the plaintext data key
+   * @throws Error if the master key is unknown or the wrapped key was tampered with
+   */
+  unwrapKey(wrapped: WrappedDataKey): Promise<Buffer> {
+    const [iv, authTag, ciphertext] = wrapped.wrappedKey.split('.').map((part) => Buffer.from(part, 'base64'));
+    const decipher = crypto.createDecipheriv('aes-256-gcm', this.getMasterKey(wrapped.masterKeyId), iv);
+    decipher.setAAD(Buffer.from(wrapped.masterKeyId));
+    decipher.setAuthTag(authTag);
+
+    return Promise.resolve(Buffer.concat([decipher.update(ciphertext), decipher.final()]));
+  }
+
+  /**
+   * Looks up a master key
+   *
+   * @param masterKeyId - ID of the master key
+   * @returns The master key
+   * @throws Error if the master key is not configured
+   */
+  private getMasterKey(masterKeyId: string): Buffer {
+    const key = this.masterKeys.get(masterKeyId);
+    if (!key) {
+      throw new Error(`Master key "${masterKeyId}" is not configured`);
+    }
+    return key;
+  }
+}
@@ -1,20 +1,117 @@
-import axios from 'axios'; // ^1.3.5
+import axios, { AxiosRequestConfig, AxiosResponse } from 'axios'; // ^1.3.5
 import mongoose from 'mongoose'; // ^7.0.3
 
 import { llm, logger } from '../config';
-import { LLMMessage, LLMRequest, LLMResponse, ChatRole, HealthContext } from '../types';
-import { ServiceUnavailableError } from '../utils/error.util';
-import { getConversationHistory } from '../repositories/chat.repository';
+import {
+  ChatMessage,
+  LLMMessage,
+  LLMRequest,
+  LLMResponse,
+  LLMStreamHandler,
+  LLMProvider,
+  LLMProviderRequest,
+  LLMStreamParser,
+  LLMTokenUsage,
+  LLMRequestOptions,
+  LLMToolCall,
+  LLMJsonObject,
+  LLMJsonValue,
+  LLMToolInvocation,
+  ChatRole,
+  HealthContext,
+  LabResultData,
+  LLMHealth,
+  DependencyStatus,
+  UserDocument,
+  Sex,
+  UnitsPreference
+} from '../types';
+import { BadRequestError, ServiceUnavailableError } from '../utils/error.util';
+import { formatLabAnalytes } from '../utils/lab-units.util';
+import { llmRetryTotal, llmToolCallsTotal, recordLLMRequest } from '../utils/metrics.util';
+import { estimateMessageTokens, estimateTokens, MESSAGE_OVERHEAD_TOKENS } from '../utils/token.util';
+import { getConversationById, getConversationHistory } from '../repositories/chat.repository';
+import { HealthRepository } from '../repositories/health.repository';
+import { findById } from '../repositories/user.repository';
 import { HealthService } from './health.service';
+import { createLLMProvider } from './providers';
+import { createHealthToolRegistry, ToolRegistry } from './tools';
+
+/**
+ * Rules used to replace language that makes medical claims with more cautious language.
+ * No rule spans more than two words, which the streaming filter relies on.
+ */
+const SAFETY_RULES: { pattern: RegExp; replacement: string }[] = [
+  {
+    pattern: /\b(diagnose|diagnosis|diagnoses|diagnosing)\b/gi,
+    replacement: 'potentially indicate'
+  },
+  {
+    pattern: /\b(prescribe|prescription|treatment plan)\b/gi,
+    replacement: 'consider discussing with your doctor'
+  },
+  {
+    pattern: /\b(cure|treat|heal)\b/gi,
+    replacement: 'potentially help with'
+  },
+  {
+    pattern: /\b(should take|must take|need to take)\b/gi,
+    replacement: 'might consider discussing with your doctor'
+  }
+];
+
+// How long the result of checking the provider is reused by readiness probes
+const PROVIDER_HEALTH_TTL_MS = 60 * 1000;
+
+// Timeout for checking the provider, shorter than for completions so probes stay quick
+const PROVIDER_HEALTH_TIMEOUT_MS = 5000;
+
+// How long the LLM is reported as degraded after a fallback response was sent
+const FALLBACK_DEGRADED_WINDOW_MS = 5 * 60 * 1000;
+
+// Most recent messages not yet summarized that are considered for a prompt
+const MAX_PROMPT_HISTORY_MESSAGES = 50;
+
+// Heading of the system message carrying the context of a prompt
+const CONTEXT_HEADING = 'USER HEALTH CONTEXT:';
+
+// Tool calls run per round of the tool loop; further calls in the same round get an error
+const MAX_TOOL_CALLS_PER_ITERATION = 5;
+
+// Conversion factors for describing a profile in imperial units
+const CM_PER_INCH = 2.54;
+const KG_PER_POUND = 0.45359237;
+
+/**
+ * Tool calls made for a message so far, and the tokens left for further calls and results
+ */
+interface ToolLoopState {
+  invocations: LLMToolInvocation[];
+  remainingTokens: number;
+}
+
+/**
+ * Provider health shared by all service instances, so that readiness reflects every
+ * chat request and concurrent probes share a single provider check
+ */
+const providerHealth: {
+  lastFallbackAt?: Date;
+  cached?: { result: LLMHealth; expiresAt: number };
+  pending?: Promise<LLMHealth>;
+} = {};
 
 /**
  * Service class that handles interactions with the LLM provider
  */
 export class LLMService {
   private healthService: HealthService;
+  private provider: LLMProvider;
+  private summaryProvider: LLMProvider;
+  private toolRegistry: ToolRegistry;
   private systemPrompts: {
     base: string;
     noContext: string;
+    tools: string;
     disclaimer: string;
   };
   private maxRetries: number = 3;
@@ -29,12 +126,23 @@ export class LLMService {
     // Initialize HealthService with the connection
     this.healthService = new HealthService(connection);
 
+    // Select the provider adapter configured for this environment
+    this.provider = createLLMProvider(llm);
+
+    // Summaries use the same provider with a short response limit and possibly a cheaper model
+    this.summaryProvider = this.createSummaryProvider(llm.summarization.maxTokens);
+
+    // Tools the model can call to look up more of the user's health history
+    this.toolRegistry = createHealthToolRegistry(new HealthRepository(connection));
+
     // Set up system prompts for different contexts
     this.systemPrompts = {
       base: `You are a helpful health advisor that provides general wellness information based on the user's health data. 
       You must NOT provide medical diagnosis, prescribe medication, or give treatment advice. 
       Always encourage users to consult healthcare professionals for medical concerns.
       Use the provided health context to give personalized wellness advice, but be clear about your limitations.
+      Take the user's profile into account, in particular their age, known conditions, allergies,
+      medications and dietary preferences, and give measurements in their preferred units.
       Be conversational, empathetic, and focus on evidence-based information.`,
 
       noContext: `You are a helpful health advisor that provides general wellness information.
@@ -42,6 +150,10 @@ export class LLMService {
       I must NOT provide medical diagnosis, prescribe medication, or give treatment advice.
       Always consult healthcare professionals for medical concerns.`,
 
+      tools: `You can look up more of the user's health history with the provided tools,
+      such as how a lab value changed over time. Use them when the health context does not answer the question,
+      and base what you say about the user's data on what you found. Do not mention the tools by name.`,
+
       disclaimer: `IMPORTANT: This information is for general wellness purposes only and not a substitute for professional medical advice, diagnosis, or treatment. Always consult qualified healthcare providers with questions about your health conditions.`
     };
 
@@ -49,12 +161,15 @@ export class LLMService {
     this.maxRetries = 3;
     this.retryDelay = 1000; // Base delay in ms
 
-    logger.info('LLM service initialized');
+    logger.info('LLM service initialized', { provider: this.provider.type });
   }
 
   /**
    * Sends a user message to the LLM with health context and conversation history
    * 
+   * While tools are enabled, the model may call them for up to llm.tools.maxIterations rounds
+   * before it has to answer; the calls and their results are returned in the metadata.
+   * 
    * @param message - User message text
    * @param userId - User ID for context retrieval
    * @param conversationId - Optional conversation ID for history retrieval
@@ -69,17 +184,44 @@ export class LLMService {
     try {
       logger.info('Sending message to LLM', { userId, conversationId: conversationId || 'new' });
 
-      // Build context from user's health data and conversation history
-      const context = await this.buildContext(userId, conversationId);
+      // Build the prompt from the user's health data and conversation within the token budget
+      const messages = await this.buildPrompt(message, userId, conversationId);
+
+      // Send requests to the LLM provider with retry logic, running tools until the model answers
+      const startedAt = Date.now();
+      const conversation = [...messages];
+      const tools: ToolLoopState = { invocations: [], remainingTokens: llm.tools.resultTokens };
+      let usage: LLMTokenUsage | undefined;
+      let response: unknown;
+      for (let iteration = 1; ; iteration++) {
+        const options = this.getToolOptions(iteration);
+        response = await this.sendRequest(conversation, userId, options);
 
-      // Construct prompt with system instructions, context, and user message
-      const messages = this.constructPrompt(message, context);
+        const parsed = this.provider.parseResponse(response);
+        usage = this.addTokenUsage(usage, parsed.usage);
+        if (options?.toolChoice !== 'auto' || !parsed.toolCalls?.length) {
+          break;
+        }
 
-      // Send request to LLM provider with retry logic
-      const response = await this.sendRequest(messages, userId);
+        await this.runToolCalls(conversation, parsed.content, parsed.toolCalls, userId, iteration, tools);
+      }
 
-      // Process and validate the response
+      // Process and validate the response, reporting the tokens of every request made for it
       const processedResponse = this.processResponse(response);
+      if (tools.invocations.length > 0) {
+        processedResponse.metadata = {
+          ...processedResponse.metadata,
+          tokenUsage: usage,
+          toolCalls: tools.invocations
+        };
+      }
+      recordLLMRequest(
+        this.provider.type,
+        'success',
+        (Date.now() - startedAt) / 1000,
+        false,
+        processedResponse.metadata?.tokenUsage
+      );
 
       // Add health disclaimer if not already present
       if (!processedResponse.content.includes(this.systemPrompts.disclaimer)) {
@@ -100,134 +242,587 @@ export class LLMService {
       // If it's a service unavailable error, return a fallback response
       if (error instanceof ServiceUnavailableError) {
         logger.warn('Using fallback response due to LLM service unavailability', { userId });
+        recordLLMRequest(this.provider.type, 'fallback', 0, false);
         return this.getFallbackResponse();
       }
 
       // Re-throw other errors
+      recordLLMRequest(this.provider.type, 'error', 0, false);
       throw error;
     }
   }
 
   /**
-   * Builds context for LLM from user's health data and conversation history
+   * Streams a response to a user message from the LLM, relaying text as it is generated
    * 
-   * @param userId - User ID for health data retrieval
+   * Safety filters are applied incrementally, releasing text only once no filter rule can
+   * match across the release boundary. The health disclaimer is relayed as the final chunk.
+   * Tools are run between streamed requests, as for a regular message, and any text the model
+   * writes before calling them is relayed as part of the response.
+   * 
+   * @param message - User message text
+   * @param userId - User ID for context retrieval
+   * @param onDelta - Callback receiving each filtered chunk of the response
    * @param conversationId - Optional conversation ID for history retrieval
-   * @returns Formatted context string for LLM prompt
+   * @param signal - Optional abort signal to cancel the provider request
+   * @returns The complete processed response from the LLM
+   */
+  async streamMessage(
+    message: string,
+    userId: string,
+    onDelta: LLMStreamHandler,
+    conversationId?: string,
+    signal?: AbortSignal
+  ): Promise<LLMResponse> {
+    let content = '';
+
+    // Relays filtered text to the caller and records it as part of the response
+    const emit = (text: string): void => {
+      if (text) {
+        content += text;
+        onDelta(text);
+      }
+    };
+
+    try {
+      logger.info('Streaming message from LLM', { userId, conversationId: conversationId || 'new' });
+
+      // Build the prompt exactly as for a regular message
+      const messages = await this.buildPrompt(message, userId, conversationId);
+
+      // Hold back unfiltered text until it is safe to release
+      const startedAt = Date.now();
+      const conversation = [...messages];
+      const tools: ToolLoopState = { invocations: [], remainingTokens: llm.tools.resultTokens };
+      let pending = '';
+      let separator = '';
+      let model: string | undefined;
+      let usage: LLMTokenUsage | undefined;
+      for (let iteration = 1; ; iteration++) {
+        const options = this.getToolOptions(iteration);
+        let roundText = '';
+        const result = await this.streamRequest(conversation, userId, (delta) => {
+          roundText += delta;
+          pending += separator + delta;
+          separator = '';
+          const { safe, rest } = this.splitFilterableText(pending);
+          pending = rest;
+          emit(this.applySafetyFilters(safe));
+        }, signal, options);
+
+        model = result.model || model;
+        usage = this.addTokenUsage(usage, result.usage);
+        if (options?.toolChoice !== 'auto' || !result.toolCalls?.length) {
+          break;
+        }
+
+        // Text written before the tools were called is kept apart from what follows
+        if (roundText) {
+          separator = '\n\n';
+        }
+        await this.runToolCalls(conversation, roundText, result.toolCalls, userId, iteration, tools);
+      }
+
+      // Release whatever is left once the provider has finished
+      emit(this.applySafetyFilters(pending));
+
+      if (!content) {
+        throw new Error('Empty response from LLM provider');
+      }
+
+      // Relay the health disclaimer as the final chunk if it is not already present
+      const contentWithDisclaimer = this.addHealthDisclaimer(content);
+      emit(contentWithDisclaimer.substring(content.length));
+
+      logger.info('LLM stream completed successfully', { userId, conversationId: conversationId || 'new' });
+      recordLLMRequest(this.provider.type, 'success', (Date.now() - startedAt) / 1000, true, usage);
+      return {
+        content,
+        metadata: {
+          model: model || llm.model,
+          provider: this.provider.type,
+          processedAt: new Date().toISOString(),
+          tokenUsage: usage,
+          streamed: true,
+          ...(tools.invocations.length > 0 && { toolCalls: tools.invocations })
+        }
+      };
+    } catch (error) {
+      logger.error('Error streaming message from LLM', {
+        error: (error as Error).message,
+        stack: (error as Error).stack,
+        userId,
+        conversationId
+      });
+
+      // Fall back only if nothing has been relayed yet, otherwise the client would see mixed output
+      if (error instanceof ServiceUnavailableError && !content) {
+        logger.warn('Using fallback response due to LLM service unavailability', { userId });
+        recordLLMRequest(this.provider.type, 'fallback', 0, true);
+        const fallbackResponse = this.getFallbackResponse();
+        onDelta(fallbackResponse.content);
+        return fallbackResponse;
+      }
+
+      // A stream cancelled by the client is not a failure of the provider
+      if (!signal?.aborted) {
+        recordLLMRequest(this.provider.type, 'error', 0, true);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Sends a summarization request, such as asking for the title or summary of a conversation
+   * 
+   * Summaries are not shown as advice, so no health context, safety filters or disclaimer
+   * are applied, and there is no fallback response: callers decide what to do on failure.
+   * 
+   * @param messages - Instructions and text to summarize
+   * @param userId - User ID for tracking
+   * @param maxTokens - Optional response limit, for summaries longer than a title
+   * @returns The summary text
+   * @throws ServiceUnavailableError if the LLM service is unavailable after retries
+   * @throws Error if the provider returned no text
    */
-  async buildContext(userId: string, conversationId?: string): Promise<string> {
+  async summarize(messages: LLMMessage[], userId: string, maxTokens?: number): Promise<string> {
+    const provider = maxTokens ? this.createSummaryProvider(maxTokens) : this.summaryProvider;
+    const request = provider.buildRequest(messages, userId, false);
+    const startedAt = Date.now();
+
     try {
-      logger.debug('Building context for LLM prompt', { userId, conversationId });
+      const response = await this.postWithRetry(request, {
+        headers: request.headers,
+        timeout: llm.provider.timeout
+      }, userId);
+
+      const parsed = provider.parseResponse(response.data);
+      if (!parsed.content) {
+        throw new Error('Empty summary from LLM provider');
+      }
 
-      // Get user's recent health data
-      const healthContext = await this.healthService.getHealthContext(userId, 5);
+      recordLLMRequest(this.provider.type, 'success', (Date.now() - startedAt) / 1000, false, parsed.usage);
+      return parsed.content.trim();
+    } catch (error) {
+      recordLLMRequest(this.provider.type, 'error', 0, false);
+      throw error;
+    }
+  }
 
-      // Get recent conversation history if conversationId provided
-      let conversationHistory: any[] = [];
-      if (conversationId) {
-        conversationHistory = await getConversationHistory(conversationId, 10);
+  /**
+   * Creates the provider adapter for summaries, which may use a cheaper model
+   * 
+   * @param maxTokens - Maximum number of tokens in a summary
+   * @returns The provider adapter
+   */
+  private createSummaryProvider(maxTokens: number): LLMProvider {
+    return createLLMProvider({
+      ...llm,
+      model: llm.summarization.model,
+      requestDefaults: {
+        ...llm.requestDefaults,
+        maxTokens,
+        temperature: llm.summarization.temperature
       }
+    });
+  }
+
+  /**
+   * Builds the prompt for a user message within the token budget of the model
+   * 
+   * Context is added by priority until the budget, the model's context window less room for
+   * the response, is used up: the system prompt and the message itself, the user's profile,
+   * their recent health data, and the summary of earlier messages in the conversation with
+   * as many of the recent messages as fit. Recent messages are sent in full as turns of the
+   * conversation; older ones only through the summary. While tools are enabled, room for
+   * their calls and results is kept free as well.
+   * 
+   * @param message - User message text
+   * @param userId - User ID for health data retrieval
+   * @param conversationId - Optional conversation ID for history retrieval
+   * @returns Array of messages forming the complete prompt
+   */
+  async buildPrompt(message: string, userId: string, conversationId?: string): Promise<LLMMessage[]> {
+    const question: LLMMessage = { role: ChatRole.USER, content: message };
+
+    try {
+      logger.debug('Building prompt for LLM', { userId, conversationId });
+
+      // Get the user's health data relevant to the message, profile and conversation history
+      const [healthContext, user, conversation] = await Promise.all([
+        this.healthService.getRelevantHealthContext(userId, message),
+        // Advice without the profile beats no advice context at all
+        findById(userId).catch((error) => {
+          logger.warn('Failed to load user profile for LLM context', {
+            userId,
+            error: error instanceof Error ? error.message : String(error)
+          });
+          return null;
+        }),
+        conversationId
+          ? this.getConversationContext(conversationId, userId)
+          : Promise.resolve({ summary: '', history: [] as ChatMessage[] })
+      ]);
+
+      // Whichever system prompt ends up being used must fit, as must the message itself
+      let remaining = llm.context.maxTokens - llm.requestDefaults.maxTokens
+        - Math.max(estimateTokens(this.getSystemPrompt(true)), estimateTokens(this.getSystemPrompt(false)))
+        - MESSAGE_OVERHEAD_TOKENS
+        - estimateMessageTokens(question)
+        - (llm.tools.enabled ? llm.tools.resultTokens : 0);
+
+      // Context sections share one system message and are only added while they fit
+      const contextSections: string[] = [];
+      const addSection = (section: string): boolean => {
+        const tokens = estimateTokens(section) + (contextSections.length === 0
+          ? estimateMessageTokens({ content: CONTEXT_HEADING })
+          : 1);
+        if (tokens > remaining) {
+          return false;
+        }
+        remaining -= tokens;
+        contextSections.push(section);
+        return true;
+      };
+
+      // Lists are most relevant first, so the least relevant entries are left out when a list does not fit
+      const addListSection = (label: string, items: string[]): void => {
+        for (let count = items.length; count > 0; count--) {
+          if (addSection(`${label}: ${items.slice(0, count).join('; ')}`)) {
+            return;
+          }
+        }
+      };
 
-      // Format health data into context sections
-      let contextSections: string[] = [];
+      // The user's profile goes first, since it frames everything else
+      const profileSection = user ? this.formatProfileSection(user) : '';
+      if (profileSection) {
+        addSection(profileSection);
+      }
 
-      // Format recent meals
+      // Meals
       if (healthContext.recentMeals && healthContext.recentMeals.length > 0) {
-        const mealSection = `Recent meals: ${healthContext.recentMeals.map(meal => 
+        addListSection('Meals', healthContext.recentMeals.map((meal) => 
           `${new Date(meal.timestamp).toLocaleString()}: ${meal.data.description}`
-        ).join('; ')}`;
-        contextSections.push(mealSection);
+        ));
       }
 
-      // Format recent lab results
+      // Lab results
       if (healthContext.recentLabResults && healthContext.recentLabResults.length > 0) {
-        const labSection = `Recent lab results: ${healthContext.recentLabResults.map(lab => 
-          `${lab.data.testType} (${new Date(lab.timestamp).toLocaleDateString()}): ${
-            JSON.stringify(lab.data.results || {})
-          }`
-        ).join('; ')}`;
-        contextSections.push(labSection);
+        addListSection('Lab results', healthContext.recentLabResults.map((lab) => {
+          const labData = lab.data as LabResultData;
+          return `${labData.testType} (${new Date(lab.timestamp).toLocaleDateString()}): ${
+            labData.analytes?.length ? formatLabAnalytes(labData.analytes) : JSON.stringify(labData.results || {})
+          }`;
+        }));
       }
 
-      // Format recent symptoms
+      // Symptoms
       if (healthContext.recentSymptoms && healthContext.recentSymptoms.length > 0) {
-        const symptomSection = `Recent symptoms: ${healthContext.recentSymptoms.map(symptom => 
+        addListSection('Symptoms', healthContext.recentSymptoms.map((symptom) => 
           `${symptom.data.description} (Severity: ${symptom.data.severity}, Duration: ${symptom.data.duration || 'Not specified'}, Reported: ${new Date(symptom.timestamp).toLocaleString()})`
-        ).join('; ')}`;
-        contextSections.push(symptomSection);
+        ));
+      }
+
+      // Messages too old to be sent in full are covered by the conversation summary
+      if (conversation.summary) {
+        addSection(`Summary of the earlier conversation: ${conversation.summary}`);
       }
 
-      // If we have conversation history, include recent messages
-      if (conversationHistory.length > 0) {
-        const conversationSection = `Recent conversation: ${conversationHistory.map(msg => 
-          `${msg.role}: ${msg.content.substring(0, 100)}${msg.content.length > 100 ? '...' : ''}`
-        ).join(' | ')}`;
-        contextSections.push(conversationSection);
+      // The message being answered is stored before the prompt is built, and is sent last instead
+      let history = conversation.history.filter((entry) => entry.role !== ChatRole.SYSTEM);
+      if (history.length > 0 && history[0].role === ChatRole.USER && history[0].content === message) {
+        history = history.slice(1);
       }
 
-      // If no health data available, return empty string (will use no-context prompt)
-      if (contextSections.length === 0) {
-        logger.debug('No health context available for user', { userId });
-        return '';
+      // Add recent messages, newest first, until one no longer fits
+      const turns: LLMMessage[] = [];
+      for (const entry of history) {
+        const tokens = estimateMessageTokens(entry);
+        if (tokens > remaining) {
+          break;
+        }
+        remaining -= tokens;
+        turns.unshift({ role: entry.role, content: entry.content });
       }
 
-      // Combine all context sections
-      const formattedContext = `
-        USER HEALTH CONTEXT:
-        ${contextSections.join('\n')}
-      `;
+      // Some providers require the conversation to start with a user message
+      while (turns.length > 0 && turns[0].role !== ChatRole.USER) {
+        turns.shift();
+      }
 
-      logger.debug('Context built successfully', { 
-        userId, 
-        contextLength: formattedContext.length,
-        sections: contextSections.length
+      logger.debug('Prompt built successfully', {
+        userId,
+        sections: contextSections.length,
+        turns: turns.length,
+        omittedTurns: history.length - turns.length,
+        remainingTokens: remaining
       });
 
-      return formattedContext;
+      // Without health context or tools, use the prompt that makes clear advice is general
+      const messages: LLMMessage[] = [{
+        role: ChatRole.SYSTEM,
+        content: this.getSystemPrompt(contextSections.length > 0)
+      }];
+      if (contextSections.length > 0) {
+        messages.push({
+          role: ChatRole.SYSTEM,
+          content: `${CONTEXT_HEADING}\n${contextSections.join('\n')}`
+        });
+      }
+
+      return [...messages, ...turns, question];
     } catch (error) {
-      logger.error('Error building context', {
+      logger.error('Error building prompt', {
         error: (error as Error).message,
         stack: (error as Error).stack,
         userId
       });
       
-      // Return empty context on error, allowing conversation to continue without context
-      return '';
+      // Continue the conversation without context rather than failing it
+      return [
+        { role: ChatRole.SYSTEM, content: this.systemPrompts.noContext },
+        question
+      ];
     }
   }
 
   /**
-   * Constructs a complete prompt for the LLM with system instructions, context, and user message
+   * Gets the system prompt for a message
    * 
-   * @param message - User message text
-   * @param context - Formatted health context string
-   * @returns Array of messages forming the complete prompt
+   * While tools are enabled, the model can look up the user's health data even when no
+   * context is sent, so the prompt for personalized advice is used either way.
+   * 
+   * @param hasContext - Whether health context is sent with the message
+   * @returns The system prompt
    */
-  constructPrompt(message: string, context: string): LLMMessage[] {
-    // Initialize messages array
-    const messages: LLMMessage[] = [];
-
-    // Add system message with instructions
-    messages.push({
-      role: ChatRole.SYSTEM,
-      content: context ? this.systemPrompts.base : this.systemPrompts.noContext
-    });
+  private getSystemPrompt(hasContext: boolean): string {
+    if (llm.tools.enabled) {
+      // Tools take dates, so the model needs to know what "last month" means
+      const today = new Date().toISOString().slice(0, 10);
+      return `${this.systemPrompts.base}\n${this.systemPrompts.tools}\nToday is ${today}.`;
+    }
 
-    // Add context as a separate system message if available
-    if (context && context.trim() !== '') {
-      messages.push({
-        role: ChatRole.SYSTEM,
-        content: context
-      });
+    return hasContext ? this.systemPrompts.base : this.systemPrompts.noContext;
+  }
+
+  /**
+   * Gets the tools offered with a request of the tool loop
+   * 
+   * @param iteration - Round of the tool loop, starting at 1
+   * @returns The tools, which the model must not call once the rounds are used up, or
+   *          undefined while tools are disabled
+   */
+  private getToolOptions(iteration: number): LLMRequestOptions | undefined {
+    if (!llm.tools.enabled) {
+      return undefined;
+    }
+
+    return {
+      tools: this.toolRegistry.getDefinitions(),
+      toolChoice: iteration > llm.tools.maxIterations ? 'none' : 'auto'
+    };
+  }
+
+  /**
+   * Runs the tool calls of a response and adds them, with their results, to the prompt
+   * 
+   * Failed calls are answered with their error so that the model can correct its arguments
+   * or answer without the data. Results are shortened to fit the remaining token budget.
+   * 
+   * @param messages - Prompt to add the calls and results to
+   * @param content - Text the model wrote before calling the tools
+   * @param calls - Tool calls requested by the model
+   * @param userId - ID of the user whose data the tools may read
+   * @param iteration - Round of the tool loop, starting at 1
+   * @param state - Calls made for the message so far, to which these calls are added
+   */
+  private async runToolCalls(
+    messages: LLMMessage[],
+    content: string,
+    calls: LLMToolCall[],
+    userId: string,
+    iteration: number,
+    state: ToolLoopState
+  ): Promise<void> {
+    logger.info('LLM called tools', { userId, iteration, tools: calls.map((call) => call.name) });
+
+    messages.push({ role: ChatRole.ASSISTANT, content, toolCalls: calls });
+    state.remainingTokens -= estimateMessageTokens({ content: content + JSON.stringify(calls) });
+
+    for (const [index, call] of calls.entries()) {
+      const startedAt = Date.now();
+      const invocation: LLMToolInvocation = { ...call, iteration, durationMs: 0 };
+
+      try {
+        if (index >= MAX_TOOL_CALLS_PER_ITERATION) {
+          throw new BadRequestError(`At most ${MAX_TOOL_CALLS_PER_ITERATION} tools can be called at once`);
+        }
+
+        const { result, truncated } = this.fitToolResult(
+          await this.toolRegistry.execute(call, userId),
+          state.remainingTokens - MESSAGE_OVERHEAD_TOKENS
+        );
+        invocation.result = result;
+        if (truncated) {
+          invocation.truncated = true;
+        }
+        llmToolCallsTotal.inc({ tool: call.name, status: 'success' });
+      } catch (error) {
+        invocation.error = (error as Error).message;
+        logger.warn('LLM tool call failed', { userId, tool: call.name, error: invocation.error });
+        llmToolCallsTotal.inc({ tool: call.name, status: 'error' });
+      }
+
+      invocation.durationMs = Date.now() - startedAt;
+      state.invocations.push(invocation);
+
+      const result = JSON.stringify(invocation.error ? { error: invocation.error } : invocation.result);
+      state.remainingTokens -= estimateMessageTokens({ content: result });
+      messages.push({ role: ChatRole.TOOL, content: result, toolCallId: call.id, name: call.name });
+    }
+  }
+
+  /**
+   * Shortens a tool result to a number of tokens
+   * 
+   * Lists in tool results are most relevant first, so entries are left out from the end of
+   * the longest list until the result fits.
+   * 
+   * @param result - Result of a tool
+   * @param maxTokens - Maximum number of tokens of the result
+   * @returns The result, and whether entries were left out
+   * @throws Error if the result does not fit even without its lists
+   */
+  private fitToolResult(
+    result: LLMJsonObject,
+    maxTokens: number
+  ): { result: LLMJsonObject; truncated: boolean } {
+    const fitted: LLMJsonObject = { ...result };
+    const lengthOf = (key: string): number => {
+      const value = fitted[key];
+      return Array.isArray(value) ? value.length : 0;
+    };
+    let truncated = false;
+
+    while (estimateTokens(JSON.stringify(fitted)) > maxTokens) {
+      const lists = Object.keys(fitted).filter((key) => lengthOf(key) > 0);
+      if (lists.length === 0) {
+        throw new Error('No room left for more results; answer with what was found so far');
+      }
+
+      const longest = lists.reduce((a, b) => (lengthOf(b) > lengthOf(a) ? b : a));
+      fitted[longest] = (fitted[longest] as LLMJsonValue[]).slice(0, -1);
+      truncated = true;
+    }
+
+    return { result: fitted, truncated };
+  }
+
+  /**
+   * Adds up the token usage of the requests made for a message
+   * 
+   * @param total - Usage of the requests so far
+   * @param usage - Usage of the latest request
+   * @returns The combined usage, or whichever was reported if only one was
+   */
+  private addTokenUsage(total?: LLMTokenUsage, usage?: LLMTokenUsage): LLMTokenUsage | undefined {
+    if (!total || !usage) {
+      return total || usage;
+    }
+
+    return {
+      prompt_tokens: total.prompt_tokens + usage.prompt_tokens,
+      completion_tokens: total.completion_tokens + usage.completion_tokens,
+      total_tokens: total.total_tokens + usage.total_tokens
+    };
+  }
+
+  /**
+   * Gets the summary of a conversation and the messages it does not cover yet
+   * 
+   * @param conversationId - ID of the conversation
+   * @param userId - ID of the user who owns the conversation
+   * @returns The summary, and the messages sent after it, newest first
+   */
+  private async getConversationContext(
+    conversationId: string,
+    userId: string
+  ): Promise<{ summary: string; history: ChatMessage[] }> {
+    const conversation = await getConversationById(conversationId, userId);
+    const history = await getConversationHistory(
+      conversationId,
+      MAX_PROMPT_HISTORY_MESSAGES,
+      conversation.summarizedUntil
+    );
+
+    return { summary: conversation.summary || '', history };
+  }
+
+  /**
+   * Formats the health profile of a user into a context section
+   * 
+   * @param user - User document with the profile fields
+   * @returns Profile section for the context, or an empty string if the profile is empty
+   */
+  formatProfileSection(user: UserDocument): string {
+    const imperial = user.unitsPreference === UnitsPreference.IMPERIAL;
+    const details: string[] = [];
+
+    if (user.displayName) {
+      details.push(`Name: ${user.displayName}`);
+    }
+
+    if (user.dateOfBirth) {
+      const today = new Date();
+      const birthday = new Date(user.dateOfBirth);
+      let age = today.getUTCFullYear() - birthday.getUTCFullYear();
+      if (
+        today.getUTCMonth() < birthday.getUTCMonth() ||
+        (today.getUTCMonth() === birthday.getUTCMonth() && today.getUTCDate() < birthday.getUTCDate())
+      ) {
+        age--;
+      }
+      details.push(`Age: ${age}`);
+    }
+
+    if (user.sex && user.sex !== Sex.PREFER_NOT_TO_SAY) {
+      details.push(`Sex: ${user.sex}`);
     }
 
-    // Add user message
-    messages.push({
-      role: ChatRole.USER,
-      content: message
+    if (user.heightCm) {
+      const totalInches = Math.round(user.heightCm / CM_PER_INCH);
+      details.push(imperial
+        ? `Height: ${Math.floor(totalInches / 12)} ft ${totalInches % 12} in (${user.heightCm} cm)`
+        : `Height: ${user.heightCm} cm`);
+    }
+
+    if (user.weightKg) {
+      details.push(imperial
+        ? `Weight: ${Math.round(user.weightKg / KG_PER_POUND)} lb (${user.weightKg} kg)`
+        : `Weight: ${user.weightKg} kg`);
+    }
+
+    const lists: [string, string[] | undefined][] = [
+      ['Known conditions', user.conditions],
+      ['Allergies', user.allergies],
+      ['Medications', user.medications],
+      ['Dietary preferences', user.dietaryPreferences]
+    ];
+    lists.forEach(([label, items]) => {
+      if (items && items.length > 0) {
+        details.push(`${label}: ${items.join(', ')}`);
+      }
     });
 
-    return messages;
+    // Units alone say nothing about the user's health
+    if (details.length === 0) {
+      return '';
+    }
+
+    details.push(`Preferred units: ${imperial ? 'imperial' : 'metric'}`);
+
+    return `User profile: ${details.join('; ')}`;
   }
 
   /**
@@ -235,28 +830,76 @@ export class LLMService {
    * 
    * @param messages - Array of messages for the LLM
    * @param userId - User ID for tracking
+   * @param options - Optional tools the model can call
    * @returns The response from the LLM provider
    * @throws ServiceUnavailableError if the LLM service is unavailable after retries
    */
-  async sendRequest(messages: LLMMessage[], userId: string): Promise<any> {
-    // Prepare request payload
-    const requestPayload = {
-      model: llm.model,
-      messages: messages,
-      max_tokens: llm.requestDefaults.maxTokens,
-      temperature: llm.requestDefaults.temperature,
-      top_p: llm.requestDefaults.topP,
-      frequency_penalty: llm.requestDefaults.frequencyPenalty,
-      presence_penalty: llm.requestDefaults.presencePenalty,
-      user: userId // For tracking
-    };
+  async sendRequest(messages: LLMMessage[], userId: string, options?: LLMRequestOptions): Promise<any> {
+    // Prepare the request in the provider's format
+    const request = this.provider.buildRequest(messages, userId, false, options);
 
     // Set up request config
     const requestConfig = {
-      headers: llm.provider.headers,
+      headers: request.headers,
       timeout: llm.provider.timeout
     };
 
+    // Send request to LLM provider and return response data
+    const response = await this.postWithRetry(request, requestConfig, userId);
+    return response.data;
+  }
+
+  /**
+   * Sends a streaming request to the LLM provider and relays text deltas as they arrive
+   * 
+   * Only establishing the connection is retried; once the provider has started streaming,
+   * a failure is surfaced to the caller because part of the response has already been relayed.
+   * 
+   * @param messages - Array of messages for the LLM
+   * @param userId - User ID for tracking
+   * @param onDelta - Callback receiving each raw text delta from the provider
+   * @param signal - Optional abort signal to cancel the request
+   * @param options - Optional tools the model can call
+   * @returns The model name, token usage and tool calls reported by the provider, if any
+   * @throws ServiceUnavailableError if the LLM service is unavailable after retries
+   */
+  async streamRequest(
+    messages: LLMMessage[],
+    userId: string,
+    onDelta: LLMStreamHandler,
+    signal?: AbortSignal,
+    options?: LLMRequestOptions
+  ): Promise<{ model?: string; usage?: LLMTokenUsage; toolCalls?: LLMToolCall[] }> {
+    // Prepare the request in the provider's format with streaming enabled
+    const request = this.provider.buildRequest(messages, userId, true, options);
+
+    // Set up request config to receive the raw stream
+    const requestConfig = {
+      headers: request.headers,
+      timeout: llm.provider.timeout,
+      responseType: 'stream' as const,
+      signal
+    };
+
+    // Open the stream, then relay deltas until the provider finishes
+    const response = await this.postWithRetry(request, requestConfig, userId);
+    return this.readStream(response.data, this.provider.createStreamParser(), userId, onDelta);
+  }
+
+  /**
+   * Posts a request to the LLM provider with exponential backoff on failures
+   * 
+   * @param request - Request prepared by the provider adapter
+   * @param requestConfig - Axios request configuration
+   * @param userId - User ID for tracking
+   * @returns The raw axios response
+   * @throws ServiceUnavailableError if the LLM service is unavailable after retries
+   */
+  private async postWithRetry(
+    request: LLMProviderRequest,
+    requestConfig: AxiosRequestConfig,
+    userId: string
+  ): Promise<AxiosResponse> {
     let lastError: Error | null = null;
     let attempt = 0;
 
@@ -266,15 +909,17 @@ export class LLMService {
         logger.debug(`LLM request attempt ${attempt + 1}/${this.maxRetries}`, { userId });
         
         // Send request to LLM provider
-        const response = await axios.post(
-          llm.provider.baseUrl,
-          requestPayload,
+        return await axios.post(
+          request.url,
+          request.payload,
           requestConfig
         );
-
-        // Return response data
-        return response.data;
       } catch (error) {
+        // Cancelled requests are not failures of the provider, so never retry them
+        if (axios.isCancel(error)) {
+          throw error;
+        }
+
         lastError = error as Error;
         attempt++;
         
@@ -296,6 +941,7 @@ export class LLMService {
         );
 
         logger.debug(`Retrying LLM request in ${delay}ms`, { userId, attempt });
+        llmRetryTotal.inc({ provider: this.provider.type });
         
         // Wait before retrying
         await new Promise(resolve => setTimeout(resolve, delay));
@@ -315,6 +961,96 @@ export class LLMService {
     );
   }
 
+  /**
+   * Reads a line-delimited stream from the LLM provider, decoding each line with the adapter's parser
+   * 
+   * @param stream - Readable response stream from the provider
+   * @param parseLine - Stream parser created by the provider adapter
+   * @param userId - User ID for tracking
+   * @param onDelta - Callback receiving each text delta
+   * @returns The model name, token usage and tool calls reported in the stream, if any
+   */
+  private readStream(
+    stream: NodeJS.ReadableStream,
+    parseLine: LLMStreamParser,
+    userId: string,
+    onDelta: LLMStreamHandler
+  ): Promise<{ model?: string; usage?: LLMTokenUsage; toolCalls?: LLMToolCall[] }> {
+    return new Promise((resolve, reject) => {
+      let buffer = '';
+      let model: string | undefined;
+      let usage: LLMTokenUsage | undefined;
+      const toolCalls: LLMToolCall[] = [];
+      let settled = false;
+
+      // Stops reading and rejects when the provider reports an error mid-stream
+      const fail = (error: Error): void => {
+        if (!settled) {
+          settled = true;
+          reject(error);
+        }
+      };
+
+      // Decode as UTF-8 so multi-byte characters split across chunks stay intact
+      stream.setEncoding('utf8');
+
+      stream.on('data', (chunk: string) => {
+        if (settled) {
+          return;
+        }
+
+        buffer += chunk;
+
+        // Events are newline delimited; keep any incomplete line for the next chunk
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+
+        for (const line of lines) {
+          try {
+            const parsed = parseLine(line);
+            if (!parsed) {
+              continue;
+            }
+
+            if (parsed.error) {
+              fail(new Error(`LLM provider stream error: ${parsed.error}`));
+              return;
+            }
+
+            model = parsed.model || model;
+            usage = parsed.usage || usage;
+            toolCalls.push(...(parsed.toolCalls || []));
+
+            if (parsed.delta) {
+              onDelta(parsed.delta);
+            }
+          } catch (error) {
+            logger.warn('Skipping malformed LLM stream event', {
+              error: (error as Error).message,
+              userId
+            });
+          }
+        }
+      });
+
+      stream.on('end', () => {
+        if (!settled) {
+          settled = true;
+          resolve({ model, usage, ...(toolCalls.length > 0 && { toolCalls }) });
+        }
+      });
+
+      stream.on('error', fail);
+
+      // A stream that closes without ending was cut off (e.g. aborted by the client)
+      stream.on('close', () => {
+        if (!settled) {
+          reject(new Error('LLM stream closed before completion'));
+        }
+      });
+    });
+  }
+
   /**
    * Processes and validates the LLM response
    * 
@@ -323,23 +1059,9 @@ export class LLMService {
    */
   processResponse(response: any): LLMResponse {
     try {
-      // Extract the assistant's message from the response
-      // Structure depends on the LLM provider's API format
-      let content = '';
-
-      // Handle OpenAI-style response format
-      if (response.choices && response.choices.length > 0) {
-        if (response.choices[0].message) {
-          content = response.choices[0].message.content;
-        } else if (response.choices[0].text) {
-          content = response.choices[0].text;
-        }
-      }
-
-      // Handle direct completion response format
-      if (!content && response.content) {
-        content = response.content;
-      }
+      // Extract the assistant's message using the provider's response format
+      const parsed = this.provider.parseResponse(response);
+      let content = parsed.content;
 
       // Validate that we have extracted content
       if (!content) {
@@ -354,9 +1076,10 @@ export class LLMService {
       const formattedResponse: LLMResponse = {
         content,
         metadata: {
-          model: response.model || llm.model,
+          model: parsed.model || llm.model,
+          provider: this.provider.type,
           processedAt: new Date().toISOString(),
-          tokenUsage: response.usage
+          tokenUsage: parsed.usage
         }
       };
 
@@ -378,33 +1101,49 @@ export class LLMService {
    */
   private applySafetyFilters(content: string): string {
     // Replace any language that makes medical claims with more cautious language
-    const safetyRules = [
-      {
-        pattern: /\b(diagnose|diagnosis|diagnoses|diagnosing)\b/gi,
-        replacement: 'potentially indicate'
-      },
-      {
-        pattern: /\b(prescribe|prescription|treatment plan)\b/gi,
-        replacement: 'consider discussing with your doctor'
-      },
-      {
-        pattern: /\b(cure|treat|heal)\b/gi,
-        replacement: 'potentially help with'
-      },
-      {
-        pattern: /\b(should take|must take|need to take)\b/gi,
-        replacement: 'might consider discussing with your doctor'
-      }
-    ];
-
     let filteredContent = content;
-    for (const rule of safetyRules) {
+    for (const rule of SAFETY_RULES) {
       filteredContent = filteredContent.replace(rule.pattern, rule.replacement);
     }
 
     return filteredContent;
   }
 
+  /**
+   * Splits streamed text into a part that can be filtered and released now and a part
+   * that must wait for more text
+   * 
+   * The last complete word and anything after it are always held back, since a two-word
+   * safety rule could still match once the next word arrives. The split point is also moved
+   * back so that it never falls inside a phrase a rule already matches.
+   * 
+   * @param text - Unreleased text received so far
+   * @returns The releasable prefix and the remaining text to hold back
+   */
+  private splitFilterableText(text: string): { safe: string; rest: string } {
+    const match = text.match(/^([\s\S]*\s)\S+\s+\S*$/);
+    if (!match) {
+      return { safe: '', rest: text };
+    }
+
+    let cut = match[1].length;
+    let moved = true;
+    while (moved) {
+      moved = false;
+      for (const rule of SAFETY_RULES) {
+        for (const ruleMatch of text.matchAll(rule.pattern)) {
+          const start = ruleMatch.index ?? 0;
+          if (start < cut && start + ruleMatch[0].length > cut) {
+            cut = start;
+            moved = true;
+          }
+        }
+      }
+    }
+
+    return { safe: text.substring(0, cut), rest: text.substring(cut) };
+  }
+
   /**
    * Adds a health advice disclaimer to the LLM response
    * 
@@ -430,6 +1169,9 @@ export class LLMService {
    * @returns Generic fallback response
    */
   getFallbackResponse(): LLMResponse {
+    // Remembered so that readiness probes report the LLM as degraded for a while
+    providerHealth.lastFallbackAt = new Date();
+
     return {
       content: `I apologize, but I'm currently unable to provide a personalized response. Our service is experiencing technical difficulties. Please try again in a few minutes. If you have an urgent health concern, please contact your healthcare provider directly.`,
       metadata: {
@@ -438,4 +1180,97 @@ export class LLMService {
       }
     };
   }
-}
\ No newline at end of file
+
+  /**
+   * Reports whether the configured LLM provider is reachable, for readiness probes
+   * 
+   * The provider is checked with a cheap request that does not use tokens, and the result is
+   * reused for a minute. The LLM is reported as degraded while fallback responses have been
+   * sent recently, even if the provider answers the check. Static so that it can be used
+   * without a database connection.
+   * 
+   * @returns The health of the LLM provider
+   */
+  static async checkProviderHealth(): Promise<LLMHealth> {
+    const now = Date.now();
+    let health: LLMHealth;
+
+    if (providerHealth.cached && providerHealth.cached.expiresAt > now) {
+      health = providerHealth.cached.result;
+    } else {
+      if (!providerHealth.pending) {
+        providerHealth.pending = LLMService.probeProvider(createLLMProvider(llm)).finally(() => {
+          providerHealth.pending = undefined;
+        });
+      }
+      health = await providerHealth.pending;
+    }
+
+    const { lastFallbackAt } = providerHealth;
+    if (!lastFallbackAt) {
+      return health;
+    }
+
+    const recentFallback = now - lastFallbackAt.getTime() < FALLBACK_DEGRADED_WINDOW_MS;
+    if (recentFallback && health.status === DependencyStatus.AVAILABLE) {
+      return {
+        ...health,
+        status: DependencyStatus.DEGRADED,
+        lastFallbackAt: lastFallbackAt.toISOString(),
+        details: 'Fallback responses were sent recently'
+      };
+    }
+
+    return { ...health, lastFallbackAt: lastFallbackAt.toISOString() };
+  }
+
+  /**
+   * Checks an LLM provider with its health check request and caches the result
+   * 
+   * @param provider - Adapter for the configured provider
+   * @returns The health of the LLM provider
+   */
+  private static async probeProvider(provider: LLMProvider): Promise<LLMHealth> {
+    const request = provider.buildHealthCheckRequest();
+    const startedAt = Date.now();
+    let health: LLMHealth;
+
+    try {
+      const response = await axios.get(request.url, {
+        headers: request.headers,
+        timeout: PROVIDER_HEALTH_TIMEOUT_MS,
+        validateStatus: () => true
+      });
+
+      // Any other answer shows the provider is reachable, even if it does not support the request
+      let details: string | undefined;
+      if (response.status === 401 || response.status === 403) {
+        details = 'Provider rejected the API key';
+      } else if (response.status >= 500) {
+        details = `Provider responded with status ${response.status}`;
+      }
+
+      health = {
+        status: details ? DependencyStatus.UNAVAILABLE : DependencyStatus.AVAILABLE,
+        provider: provider.type,
+        responseTime: Date.now() - startedAt,
+        checkedAt: new Date().toISOString(),
+        details
+      };
+    } catch (error) {
+      health = {
+        status: DependencyStatus.UNAVAILABLE,
+        provider: provider.type,
+        checkedAt: new Date().toISOString(),
+        details: (error as Error).message
+      };
+    }
+
+    if (health.status !== DependencyStatus.AVAILABLE) {
+      logger.warn('LLM provider health check failed', { provider: health.provider, details: health.details });
+    }
+
+    providerHealth.cached = { result: health, expiresAt: Date.now() + PROVIDER_HEALTH_TTL_MS };
+    return health;
+  }
+}
@@ -0,0 +1,220 @@
+/**
+ * Login Lockout Service
+ *
+ * Protects logins against password guessing. Failed logins are counted per account, on
+ * the user, and per IP address, in the login attempt store. Reaching the limit within
+ * the failure window locks further logins for a while, and every further lockout lasts
+ * twice as long as the one before it, up to a maximum. A successful login clears the
+ * counters of the account but not those of the IP address.
+ *
+ * Emails that belong to no account are counted and locked in the login attempt store
+ * with the same limits and the same error, so lockouts don't reveal which emails are
+ * registered.
+ *
+ * @module services/login-lockout.service
+ */
+
+import {
+  recordFailedLogin,
+  lockUserLogin,
+  resetFailedLogins
+} from '../repositories/user.repository';
+import {
+  findLoginAttemptByIp,
+  findLoginAttemptByEmail,
+  recordFailedLoginForIp,
+  recordFailedLoginForEmail,
+  lockIp,
+  lockEmail
+} from '../repositories/login-attempt.repository';
+import { LoginLockoutState } from '../types/auth.types';
+import { UserDocument } from '../types/user.types';
+import { AccountLockedError } from '../utils/error.util';
+import { environment } from '../config/environment';
+import logger from '../config/logger';
+
+/**
+ * Works out how long a lockout lasts
+ *
+ * @param lockoutCount - Number of earlier lockouts
+ * @returns Duration of the lockout in milliseconds
+ */
+export function getLockoutDuration(lockoutCount: number): number {
+  const duration = environment.LOGIN_LOCKOUT_DURATION_MS * Math.pow(2, Math.max(0, lockoutCount));
+  return Math.min(duration, environment.LOGIN_MAX_LOCKOUT_DURATION_MS);
+}
+
+/**
+ * Checks whether logins are refused for an account or IP address
+ *
+ * @param state - Failed login counters of the account or IP address
+ * @returns True while a lockout is in effect
+ */
+export function isLockedOut(state: Partial<LoginLockoutState> | null | undefined): boolean {
+  return !!state?.lockedUntil && state.lockedUntil.getTime() > Date.now();
+}
+
+/**
+ * Refuses a login while the account or the IP address it comes from is locked
+ *
+ * @param email - Email the login is for
+ * @param user - User the login is for, or null if the email is unknown
+ * @param ip - IP address the login comes from, if known
+ * @returns Promise resolving when the login may go ahead
+ * @throws AccountLockedError if the account, unknown email or IP address is locked
+ */
+export async function assertLoginAllowed(email: string, user: UserDocument | null, ip?: string): Promise<void> {
+  if (ip) {
+    const loginAttempt = await findLoginAttemptByIp(ip);
+    if (isLockedOut(loginAttempt)) {
+      throw createIpLockedError(loginAttempt?.lockedUntil as Date);
+    }
+  }
+
+  const accountState = user ?? await findLoginAttemptByEmail(normalizeEmail(email));
+  if (isLockedOut(accountState)) {
+    throw createAccountLockedError(accountState?.lockedUntil as Date);
+  }
+}
+
+/**
+ * Counts a failed login for the account, or the email if it is unknown, and the IP
+ * address, locking whichever reached the failed attempt limit
+ *
+ * @param email - Email the login was for
+ * @param user - User the login was for, or null if the email is unknown
+ * @param ip - IP address the login came from, if known
+ * @returns Promise resolving when the failure has been counted and nothing was locked
+ * @throws AccountLockedError if this failure locked the account, unknown email or IP address
+ */
+export async function registerFailedLogin(email: string, user: UserDocument | null, ip?: string): Promise<void> {
+  const now = Date.now();
+  const windowStart = new Date(now - environment.LOGIN_FAILURE_WINDOW_MS);
+  // Counters are forgotten once they have been quiet for the longest lockout
+  const expiresAt = new Date(now + environment.LOGIN_MAX_LOCKOUT_DURATION_MS);
+  let lockedError: AccountLockedError | null = null;
+
+  if (user) {
+    const updated = await recordFailedLogin(user._id, windowStart);
+    if (updated && updated.failedLoginAttempts >= environment.LOGIN_MAX_FAILED_ATTEMPTS) {
+      const lockedUntil = new Date(now + getLockoutDuration(updated.lockoutCount));
+      await lockUserLogin(user._id, lockedUntil);
+
+      logger.warn('Account locked after failed logins', {
+        userId: user._id.toString(),
+        lockoutCount: updated.lockoutCount + 1,
+        lockedUntil
+      });
+      lockedError = createAccountLockedError(lockedUntil);
+    }
+  } else {
+    // Unknown emails are locked after as many failures as accounts, for as long
+    const normalizedEmail = normalizeEmail(email);
+    const loginAttempt = await recordFailedLoginForEmail(normalizedEmail, windowStart, expiresAt);
+    if (loginAttempt.failedLoginAttempts >= environment.LOGIN_MAX_FAILED_ATTEMPTS) {
+      const lockedUntil = new Date(now + getLockoutDuration(loginAttempt.lockoutCount));
+      await lockEmail(
+        normalizedEmail,
+        lockedUntil,
+        new Date(lockedUntil.getTime() + environment.LOGIN_MAX_LOCKOUT_DURATION_MS)
+      );
+
+      logger.warn('Unknown email locked after failed logins', {
+        lockoutCount: loginAttempt.lockoutCount + 1,
+        lockedUntil
+      });
+      lockedError = createAccountLockedError(lockedUntil);
+    }
+  }
+
+  if (ip) {
+    const loginAttempt = await recordFailedLoginForIp(ip, windowStart, expiresAt);
+    if (loginAttempt.failedLoginAttempts >= environment.LOGIN_MAX_FAILED_ATTEMPTS_PER_IP) {
+      const lockedUntil = new Date(now + getLockoutDuration(loginAttempt.lockoutCount));
+      await lockIp(ip, lockedUntil, new Date(lockedUntil.getTime() + environment.LOGIN_MAX_LOCKOUT_DURATION_MS));
+
+      logger.warn('IP address locked after failed logins', {
+        ip,
+        lockoutCount: loginAttempt.lockoutCount + 1,
+        lockedUntil
+      });
+      if (!lockedError || lockedUntil > lockedError.lockedUntil) {
+        lockedError = createIpLockedError(lockedUntil);
+      }
+    }
+  }
+
+  if (lockedError) {
+    throw lockedError;
+  }
+}
+
+/**
+ * Clears the failed logins and lockouts of an account
+ *
+ * @param user - User who logged in or reset their password
+ * @returns Promise resolving when the counters have been cleared
+ */
+export async function clearFailedLogins(user: UserDocument): Promise<void> {
+  // Most logins have nothing to clear, which saves a write
+  if (!user.failedLoginAttempts && !user.lockoutCount && !user.lockedUntil) {
+    return;
+  }
+
+  await resetFailedLogins(user._id);
+}
+
+/**
+ * Normalizes an email the way accounts are looked up, so every spelling of an unknown
+ * email shares its counters
+ *
+ * @param email - Email the login is for
+ * @returns Trimmed, lowercased email
+ */
+function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+/**
+ * Creates the error for a login to a locked account or unknown email
+ *
+ * Both get the same message, so it doesn't tell whether the email is registered.
+ *
+ * @param lockedUntil - Time the lockout ends
+ * @returns Error telling the user how long to wait
+ */
+function createAccountLockedError(lockedUntil: Date): AccountLockedError {
+  return new AccountLockedError(
+    `Too many failed login attempts. Please try again in ${formatWait(lockedUntil)} or reset your password.`,
+    lockedUntil
+  );
+}
+
+/**
+ * Creates the error for a login from a locked IP address
+ *
+ * @param lockedUntil - Time the lockout ends
+ * @returns Error telling the user how long to wait
+ */
+function createIpLockedError(lockedUntil: Date): AccountLockedError {
+  return new AccountLockedError(
+    `Too many failed login attempts from this network. Please try again in ${formatWait(lockedUntil)}.`,
+    lockedUntil
+  );
+}
+
+/**
+ * Formats the time left until a lockout ends, rounded up to minutes or hours
+ *
+ * @param lockedUntil - Time the lockout ends
+ * @returns Wait time, e.g. "30 minutes" or "2 hours"
+ */
+function formatWait(lockedUntil: Date): string {
+  const minutes = Math.max(1, Math.ceil((lockedUntil.getTime() - Date.now()) / 60000));
+  if (minutes < 60) {
+    return minutes === 1 ? '1 minute' : `${minutes} minutes`;
+  }
+
+  const hours = Math.ceil(minutes / 60);
+  return hours === 1 ? '1 hour' : `${hours} hours`;
+}
@@ -0,0 +1,80 @@
+/**
+ * Mail Service Module
+ *
+ * Sends email through the transport chosen by EMAIL_TRANSPORT: an SMTP server in
+ * production, or the log or .eml files in development. Every email is sent from the
+ * address in EMAIL_FROM.
+ *
+ * @module services/mail.service
+ */
+
+import { environment } from '../config/environment';
+import logger from '../config/logger';
+import { MailMessage, MailTransport, MailTransportType } from '../types';
+import { ServiceUnavailableError } from '../utils/error.util';
+import { createMailTransport } from './mail';
+
+/**
+ * Resolves the transport type configured for the current environment
+ *
+ * @returns The configured transport type, defaulting to the console transport
+ * @throws Error in production unless the transport is SMTP, as the other transports keep
+ *         emails, and the password reset codes in them, on the server
+ */
+function resolveTransportType(): MailTransportType {
+  const transportTypes = Object.values(MailTransportType) as string[];
+  const configuredType = environment.EMAIL_TRANSPORT.toLowerCase();
+
+  if (environment.IS_PRODUCTION && configuredType !== MailTransportType.SMTP) {
+    throw new Error('EMAIL_TRANSPORT must be smtp in production');
+  }
+
+  if (!transportTypes.includes(configuredType)) {
+    logger.warn(`Unknown EMAIL_TRANSPORT "${environment.EMAIL_TRANSPORT}", falling back to the console transport`);
+    return MailTransportType.CONSOLE;
+  }
+
+  return configuredType as MailTransportType;
+}
+
+/**
+ * Service class that sends email
+ */
+export class MailService {
+  private transport: MailTransport;
+
+  /**
+   * Creates the service with the configured transport
+   *
+   * @param transport - Transport to use instead of the configured one
+   */
+  constructor(transport?: MailTransport) {
+    this.transport = transport || createMailTransport(resolveTransportType());
+  }
+
+  /**
+   * Sends an email from the configured sender address
+   *
+   * @param message - Recipient, subject and body of the email
+   * @returns Promise resolving once the transport has accepted the email
+   * @throws ServiceUnavailableError if the transport fails
+   */
+  async send(message: Omit<MailMessage, 'from'>): Promise<void> {
+    try {
+      await this.transport.send({ ...message, from: environment.EMAIL_FROM });
+
+      logger.info('Email sent', {
+        transport: this.transport.type,
+        subject: message.subject
+      });
+    } catch (error) {
+      logger.error('Error sending email', {
+        error: (error as Error).message,
+        transport: this.transport.type,
+        subject: message.subject
+      });
+
+      throw new ServiceUnavailableError(`Email delivery failed: ${(error as Error).message}`, 'mail');
+    }
+  }
+}
@@ -0,0 +1,24 @@
+import logger from '../../config/logger';
+import { MailMessage, MailTransport, MailTransportType } from '../../types';
+
+/**
+ * Transport that logs emails instead of sending them
+ *
+ * Used in development and tests. Emails may contain secrets such as password reset
+ * codes, so only the recipient and subject are logged; use the file transport to read
+ * the emails themselves.
+ */
+export class ConsoleMailTransport implements MailTransport {
+  readonly type = MailTransportType.CONSOLE;
+
+  /**
+   * Logs the recipient and subject of an email
+   *
+   * @param message - Email to log
+   * @returns Promise resolving once the email has been logged
+   */
+  send(message: MailMessage): Promise<void> {
+    logger.info(`Email to ${message.to}: ${message.subject} (body of ${message.text.length} characters not logged)`);
+    return Promise.resolve();
+  }
+}
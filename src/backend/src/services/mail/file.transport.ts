@@ -0,0 +1,49 @@
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+
+import { MailMessage, MailTransport, MailTransportType } from '../../types';
+
+/**
+ * Transport that saves each email as a file instead of sending it
+ *
+ * Used in development to open emails in a mail client. Each email is written to its own
+ * .eml file, named so that the files sort by the time they were sent.
+ */
+export class FileMailTransport implements MailTransport {
+  readonly type = MailTransportType.FILE;
+
+  /**
+   * Creates the transport
+   *
+   * @param directory - Directory the emails are written to, created when needed
+   */
+  constructor(private readonly directory: string) {}
+
+  /**
+   * Writes an email to a file
+   *
+   * @param message - Email to write
+   * @returns Promise resolving once the file has been written
+   */
+  async send(message: MailMessage): Promise<void> {
+    const sentAt = new Date();
+    const lines = [
+      `From: ${message.from}`,
+      `To: ${message.to}`,
+      `Subject: ${message.subject}`,
+      `Date: ${sentAt.toUTCString()}`,
+      'MIME-Version: 1.0',
+      'Content-Type: text/plain; charset=utf-8',
+      '',
+      message.text
+    ];
+
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(
+      path.join(this.directory, `${sentAt.toISOString().replace(/[:.]/g, '-')}-${randomUUID()}.eml`),
+      lines.join('\r\n'),
+      'utf8'
+    );
+  }
+}
@@ -0,0 +1,42 @@
+/**
+ * Mail Transports
+ *
+ * Each transport delivers outgoing email such as password reset links. The transport
+ * in use is chosen by EMAIL_TRANSPORT.
+ *
+ * @module services/mail
+ */
+
+import { environment } from '../../config/environment';
+import { MailTransport, MailTransportType } from '../../types';
+import { ConsoleMailTransport } from './console.transport';
+import { FileMailTransport } from './file.transport';
+import { SmtpMailTransport } from './smtp.transport';
+
+/**
+ * Creates the configured mail transport
+ *
+ * @param type - Transport type
+ * @returns The transport
+ * @throws Error if the transport type is not supported
+ */
+export function createMailTransport(type: MailTransportType): MailTransport {
+  switch (type) {
+    case MailTransportType.SMTP:
+      return new SmtpMailTransport({
+        host: environment.SMTP_HOST,
+        port: environment.SMTP_PORT,
+        secure: environment.SMTP_SECURE,
+        user: environment.SMTP_USER || undefined,
+        password: environment.SMTP_PASSWORD || undefined
+      });
+    case MailTransportType.FILE:
+      return new FileMailTransport(environment.EMAIL_FILE_DIR);
+    case MailTransportType.CONSOLE:
+      return new ConsoleMailTransport();
+    default:
+      throw new Error(`Unsupported mail transport: ${type as string}`);
+  }
+}
+
+export { ConsoleMailTransport, FileMailTransport, SmtpMailTransport };
@@ -0,0 +1,62 @@
+import nodemailer, { Transporter } from 'nodemailer'; // ^6.9.13
+
+import { MailMessage, MailTransport, MailTransportType } from '../../types';
+
+/**
+ * Settings for connecting to an SMTP server
+ */
+export interface SmtpSettings {
+  /** Host name of the SMTP server */
+  host: string;
+
+  /** Port of the SMTP server, e.g. 587 */
+  port: number;
+
+  /** Whether to connect over TLS from the start; otherwise STARTTLS is used when offered */
+  secure: boolean;
+
+  /** User name, if the server requires authentication */
+  user?: string;
+
+  /** Password of the user */
+  password?: string;
+}
+
+/**
+ * Transport that sends emails through an SMTP server
+ */
+export class SmtpMailTransport implements MailTransport {
+  readonly type = MailTransportType.SMTP;
+
+  private transporter: Transporter;
+
+  /**
+   * Creates the transport
+   *
+   * @param settings - SMTP server settings
+   */
+  constructor(settings: SmtpSettings) {
+    this.transporter = nodemailer.createTransport({
+      host: settings.host,
+      port: settings.port,
+      secure: settings.secure,
+      auth: settings.user ? { user: settings.user, pass: settings.password } : undefined
+    });
+  }
+
+  /**
+   * Sends an email
+   *
+   * @param message - Email to send
+   * @returns Promise resolving once the server has accepted the email
+   */
+  async send(message: MailMessage): Promise<void> {
+    await this.transporter.sendMail({
+      from: message.from,
+      to: message.to,
+      subject: message.subject,
+      text: message.text,
+      html: message.html
+    });
+  }
+}
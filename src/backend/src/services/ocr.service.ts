@@ -0,0 +1,109 @@
+/**
+ * OCR Service Module
+ *
+ * Recognises text in images with tesseract.js, a local OCR engine, so photos of lab
+ * reports never leave the server. Recognition runs in a worker that is created on first
+ * use and shared by every OcrService instance, since loading the language data is slow.
+ *
+ * @module services/ocr.service
+ */
+
+import { createWorker, Worker } from 'tesseract.js'; // ^5.1.1
+
+import { environment, logger } from '../config';
+import { RecognizedLine } from '../utils/lab-report.util';
+import { ServiceUnavailableError } from '../utils/error.util';
+
+/**
+ * Text recognised in an image
+ */
+export interface OcrResult {
+  /** Full text of the image */
+  text: string;
+
+  /** Confidence for the whole image, between 0 and 100 */
+  confidence: number;
+
+  /** Recognised lines in reading order */
+  lines: RecognizedLine[];
+}
+
+// Worker shared by all service instances, created on first use
+let sharedWorker: Promise<Worker> | null = null;
+
+/**
+ * Returns the shared tesseract worker, creating it if needed
+ *
+ * @returns Promise resolving to the worker
+ */
+function getWorker(): Promise<Worker> {
+  if (!sharedWorker) {
+    logger.info('Starting OCR worker', { language: environment.OCR_LANGUAGE });
+
+    const options = environment.OCR_LANG_PATH ? { langPath: environment.OCR_LANG_PATH } : {};
+    sharedWorker = createWorker(environment.OCR_LANGUAGE, undefined, options).catch((error: Error) => {
+      // Allow the next request to try again, e.g. after the language data becomes available
+      sharedWorker = null;
+      throw error;
+    });
+  }
+
+  return sharedWorker;
+}
+
+/**
+ * Service class that recognises text in images
+ */
+export class OcrService {
+  /** Name of the OCR engine, recorded with extraction results */
+  readonly engine = 'tesseract';
+
+  /**
+   * Recognises the text in an image
+   *
+   * @param image - Image to read, e.g. a JPEG or PNG buffer
+   * @returns The recognised text with line and overall confidence
+   * @throws ServiceUnavailableError if the OCR engine cannot be started or fails
+   */
+  async recognize(image: Buffer): Promise<OcrResult> {
+    try {
+      const worker = await getWorker();
+      const { data } = await worker.recognize(image);
+
+      return {
+        text: data.text,
+        confidence: data.confidence,
+        lines: data.lines.map((line) => ({
+          text: line.text,
+          confidence: line.confidence
+        }))
+      };
+    } catch (error) {
+      logger.error('Error recognizing text in image', {
+        error: (error as Error).message,
+        stack: (error as Error).stack
+      });
+
+      throw new ServiceUnavailableError(`Text recognition failed: ${(error as Error).message}`, 'ocr');
+    }
+  }
+
+  /**
+   * Stops the shared OCR worker, e.g. during graceful shutdown
+   */
+  async terminate(): Promise<void> {
+    if (!sharedWorker) {
+      return;
+    }
+
+    const worker = sharedWorker;
+    sharedWorker = null;
+
+    try {
+      await (await worker).terminate();
+      logger.info('OCR worker stopped');
+    } catch (error) {
+      logger.warn('Failed to stop OCR worker', { error: (error as Error).message });
+    }
+  }
+}
@@ -0,0 +1,310 @@
+import {
+  ChatRole,
+  LLMHealthCheckRequest,
+  LLMJsonObject,
+  LLMMessage,
+  LLMProvider,
+  LLMProviderRequest,
+  LLMProviderResult,
+  LLMProviderSettings,
+  LLMProviderType,
+  LLMRequestOptions,
+  LLMStreamParser,
+  LLMTokenUsage,
+  LLMToolCall
+} from '../../types';
+
+/**
+ * Version of the Anthropic Messages API this adapter is written against
+ */
+const ANTHROPIC_API_VERSION = '2023-06-01';
+
+/**
+ * Content block of a Messages API response: text or a tool call
+ */
+interface AnthropicContentBlock {
+  type: string;
+  text?: string;
+  id?: string;
+  name?: string;
+  input?: LLMJsonObject;
+}
+
+/**
+ * Token counts reported by the Messages API
+ */
+interface AnthropicUsage {
+  input_tokens?: number;
+  output_tokens?: number;
+}
+
+/**
+ * Messages API response body
+ */
+interface AnthropicMessage {
+  model?: string;
+  content?: AnthropicContentBlock[];
+  usage?: AnthropicUsage;
+}
+
+/**
+ * Event of a Messages API stream
+ */
+interface AnthropicStreamEvent {
+  type: string;
+  message?: { model?: string; usage?: AnthropicUsage };
+  content_block?: AnthropicContentBlock;
+  delta?: { type?: string; text?: string; partial_json?: string };
+  usage?: AnthropicUsage;
+  error?: { message?: string };
+}
+
+/**
+ * Adapter for the Anthropic Messages API
+ *
+ * System prompts are sent as the top-level system parameter rather than as messages,
+ * and consecutive messages with the same role are merged as the API requires. Tool calls
+ * are tool_use content blocks, and their results are sent back as tool_result blocks of a
+ * user message.
+ */
+export class AnthropicProvider implements LLMProvider {
+  readonly type = LLMProviderType.ANTHROPIC;
+
+  /**
+   * Creates the adapter from the LLM configuration
+   *
+   * @param settings - LLM configuration settings
+   */
+  constructor(private settings: LLMProviderSettings) {}
+
+  /**
+   * Builds a Messages API request
+   *
+   * @param messages - Array of messages for the LLM
+   * @param userId - User ID for tracking
+   * @param stream - Whether the response should be streamed
+   * @param options - Optional tools the model can call
+   * @returns The request to send to the provider
+   */
+  buildRequest(
+    messages: LLMMessage[],
+    userId: string,
+    stream: boolean,
+    options: LLMRequestOptions = {}
+  ): LLMProviderRequest {
+    const { model, requestDefaults, provider } = this.settings;
+
+    // Move system messages into the system parameter
+    const system = messages
+      .filter(message => message.role === ChatRole.SYSTEM)
+      .map(message => message.content)
+      .join('\n\n');
+
+    // Merge consecutive messages from the same role; tool results are sent by the user
+    const conversation: { role: string; content: string | LLMJsonObject[] }[] = [];
+    for (const message of messages) {
+      if (message.role === ChatRole.SYSTEM) {
+        continue;
+      }
+
+      const role = message.role === ChatRole.TOOL ? ChatRole.USER : message.role;
+      const content = this.toContent(message);
+      const previous = conversation[conversation.length - 1];
+      if (!previous || previous.role !== role) {
+        conversation.push({ role, content });
+      } else if (typeof previous.content === 'string' && typeof content === 'string') {
+        previous.content += `\n\n${content}`;
+      } else {
+        previous.content = [...this.toBlocks(previous.content), ...this.toBlocks(content)];
+      }
+    }
+
+    const payload: LLMJsonObject = {
+      model,
+      messages: conversation,
+      max_tokens: requestDefaults.maxTokens,
+      temperature: requestDefaults.temperature,
+      metadata: { user_id: userId } // For tracking
+    };
+
+    if (system) {
+      payload.system = system;
+    }
+
+    if (stream) {
+      payload.stream = true;
+    }
+
+    if (options.tools?.length) {
+      payload.tools = options.tools.map(({ name, description, parameters }) => ({
+        name,
+        description,
+        input_schema: parameters
+      }));
+      payload.tool_choice = { type: options.toolChoice || 'auto' };
+    }
+
+    return {
+      url: provider.baseUrl,
+      payload,
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': provider.apiKey,
+        'anthropic-version': ANTHROPIC_API_VERSION
+      }
+    };
+  }
+
+  /**
+   * Builds a request listing the available models, which is free and does not use tokens
+   *
+   * @returns The request to send to the /v1/models endpoint
+   */
+  buildHealthCheckRequest(): LLMHealthCheckRequest {
+    const { provider } = this.settings;
+
+    return {
+      url: provider.baseUrl.replace(/\/messages\/?$/, '/models'),
+      headers: {
+        'x-api-key': provider.apiKey,
+        'anthropic-version': ANTHROPIC_API_VERSION
+      }
+    };
+  }
+
+  /**
+   * Extracts the completion text, model and token usage from a Messages API response
+   *
+   * @param data - Raw response body from the provider
+   * @returns The parsed completion; content is empty if none was found
+   */
+  parseResponse(data: unknown): LLMProviderResult {
+    const message = (data ?? {}) as AnthropicMessage;
+
+    // Concatenate the text content blocks of the response
+    const blocks = Array.isArray(message.content) ? message.content : [];
+    const content = blocks
+      .filter(block => block.type === 'text')
+      .map(block => block.text)
+      .join('');
+
+    const toolCalls: LLMToolCall[] = blocks
+      .filter((block) => block.type === 'tool_use')
+      .map((block) => ({ id: block.id || '', name: block.name || '', arguments: block.input || {} }));
+
+    return {
+      content,
+      ...(toolCalls.length > 0 && { toolCalls }),
+      model: message.model,
+      usage: message.usage
+        ? this.toTokenUsage(message.usage.input_tokens, message.usage.output_tokens)
+        : undefined
+    };
+  }
+
+  /**
+   * Creates a parser for a Messages API event stream
+   *
+   * Input tokens are reported when the message starts and output tokens when it ends,
+   * so the parser keeps the input count until the total can be reported. The input of a
+   * tool call arrives as fragments of JSON, and the call is reported once its block ends.
+   *
+   * @returns Parser for individual stream lines
+   */
+  createStreamParser(): LLMStreamParser {
+    let inputTokens = 0;
+    let pendingCall: { id: string; name: string; input: string } | null = null;
+
+    return (line: string) => {
+      const trimmed = line.trim();
+      if (!trimmed.startsWith('data:')) {
+        return null;
+      }
+
+      const event = JSON.parse(trimmed.slice('data:'.length).trim()) as AnthropicStreamEvent;
+
+      switch (event.type) {
+        case 'message_start':
+          inputTokens = event.message?.usage?.input_tokens || 0;
+          return { model: event.message?.model };
+        case 'content_block_start':
+          if (event.content_block?.type === 'tool_use') {
+            pendingCall = { id: event.content_block.id || '', name: event.content_block.name || '', input: '' };
+          }
+          return null;
+        case 'content_block_delta':
+          if (event.delta?.type === 'input_json_delta' && pendingCall) {
+            pendingCall.input += event.delta.partial_json || '';
+            return null;
+          }
+          return event.delta?.type === 'text_delta' ? { delta: event.delta.text } : null;
+        case 'content_block_stop': {
+          if (!pendingCall) {
+            return null;
+          }
+          const { id, name, input } = pendingCall;
+          pendingCall = null;
+          return { toolCalls: [{ id, name, arguments: input ? JSON.parse(input) as LLMJsonObject : {} }] };
+        }
+        case 'message_delta':
+          return event.usage
+            ? { usage: this.toTokenUsage(inputTokens, event.usage.output_tokens) }
+            : null;
+        case 'error':
+          return { error: event.error?.message || 'Unknown provider error' };
+        default:
+          return null;
+      }
+    };
+  }
+
+  /**
+   * Converts a message to the content the Messages API expects for it
+   *
+   * @param message - Message for the LLM
+   * @returns Text for plain messages, otherwise content blocks
+   */
+  private toContent(message: LLMMessage): string | LLMJsonObject[] {
+    if (message.role === ChatRole.TOOL) {
+      return [{ type: 'tool_result', tool_use_id: message.toolCallId, content: message.content }];
+    }
+
+    if (message.toolCalls?.length) {
+      return [
+        ...this.toBlocks(message.content),
+        ...message.toolCalls.map((call) => ({ type: 'tool_use', id: call.id, name: call.name, input: call.arguments }))
+      ];
+    }
+
+    return message.content;
+  }
+
+  /**
+   * Converts message content to content blocks, so that it can be merged with blocks
+   *
+   * @param content - Text or content blocks
+   * @returns Content blocks; empty text has none
+   */
+  private toBlocks(content: string | LLMJsonObject[]): LLMJsonObject[] {
+    if (typeof content !== 'string') {
+      return content;
+    }
+
+    return content ? [{ type: 'text', text: content }] : [];
+  }
+
+  /**
+   * Converts Anthropic token counts to the normalized usage shape
+   *
+   * @param inputTokens - Number of input tokens
+   * @param outputTokens - Number of output tokens
+   * @returns Normalized token usage
+   */
+  private toTokenUsage(inputTokens: number = 0, outputTokens: number = 0): LLMTokenUsage {
+    return {
+      prompt_tokens: inputTokens,
+      completion_tokens: outputTokens,
+      total_tokens: inputTokens + outputTokens
+    };
+  }
+}
@@ -0,0 +1,39 @@
+/**
+ * LLM Provider Adapters
+ *
+ * Each adapter translates between the application's chat messages and one vendor's
+ * HTTP API: request shape, response parsing, stream framing and token usage.
+ * The adapter in use is chosen by llm.provider.type (LLM_PROVIDER) in config/llm.
+ *
+ * @module services/providers
+ */
+
+import { LLMProvider, LLMProviderSettings, LLMProviderType } from '../../types';
+import { OpenAIProvider } from './openai.provider';
+import { AnthropicProvider } from './anthropic.provider';
+import { OllamaProvider } from './ollama.provider';
+
+/**
+ * Creates the adapter for the configured LLM provider
+ *
+ * @param settings - LLM configuration settings
+ * @returns The provider adapter
+ * @throws Error if the provider type is not supported
+ */
+export function createLLMProvider(settings: LLMProviderSettings): LLMProvider {
+  switch (settings.provider.type) {
+    case LLMProviderType.OPENAI:
+      return new OpenAIProvider(settings);
+    case LLMProviderType.LLAMA_CPP:
+      // llama.cpp's server exposes an OpenAI-compatible chat completions endpoint
+      return new OpenAIProvider(settings, LLMProviderType.LLAMA_CPP);
+    case LLMProviderType.ANTHROPIC:
+      return new AnthropicProvider(settings);
+    case LLMProviderType.OLLAMA:
+      return new OllamaProvider(settings);
+    default:
+      throw new Error(`Unsupported LLM provider: ${settings.provider.type}`);
+  }
+}
+
+export { OpenAIProvider, AnthropicProvider, OllamaProvider };
@@ -0,0 +1,226 @@
+import { randomUUID } from 'crypto';
+
+import {
+  ChatRole,
+  LLMHealthCheckRequest,
+  LLMJsonObject,
+  LLMMessage,
+  LLMProvider,
+  LLMProviderRequest,
+  LLMProviderResult,
+  LLMProviderSettings,
+  LLMProviderType,
+  LLMRequestOptions,
+  LLMStreamParser,
+  LLMTokenUsage,
+  LLMToolCall
+} from '../../types';
+
+/**
+ * Tool call in a chat response, whose arguments are already parsed
+ */
+interface OllamaToolCall {
+  function?: { name?: string; arguments?: LLMJsonObject };
+}
+
+/**
+ * Chat response body, or one object of a chat stream
+ */
+interface OllamaChatResponse {
+  model?: string;
+  message?: { content?: string; tool_calls?: OllamaToolCall[] };
+  done?: boolean;
+  prompt_eval_count?: number;
+  eval_count?: number;
+  error?: string;
+}
+
+/**
+ * Adapter for a local Ollama server's /api/chat endpoint
+ *
+ * Ollama streams newline-delimited JSON objects rather than Server-Sent Events and
+ * reports token counts on the final object of a response. Tool calls carry no ID, so
+ * one is assigned to each call.
+ */
+export class OllamaProvider implements LLMProvider {
+  readonly type = LLMProviderType.OLLAMA;
+
+  /**
+   * Creates the adapter from the LLM configuration
+   *
+   * @param settings - LLM configuration settings
+   */
+  constructor(private settings: LLMProviderSettings) {}
+
+  /**
+   * Builds a chat request
+   *
+   * @param messages - Array of messages for the LLM
+   * @param userId - User ID for tracking (not supported by Ollama)
+   * @param stream - Whether the response should be streamed
+   * @param options - Optional tools the model can call
+   * @returns The request to send to the provider
+   */
+  buildRequest(
+    messages: LLMMessage[],
+    userId: string,
+    stream: boolean,
+    options: LLMRequestOptions = {}
+  ): LLMProviderRequest {
+    const { model, requestDefaults, provider } = this.settings;
+
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json'
+    };
+
+    // Ollama itself has no authentication, but it is often run behind a proxy that does
+    if (provider.apiKey) {
+      headers['Authorization'] = `Bearer ${provider.apiKey}`;
+    }
+
+    const payload: LLMJsonObject = {
+      model,
+      messages: messages.map((message) => this.toProviderMessage(message)),
+      // Ollama streams by default, so always state it explicitly
+      stream,
+      options: {
+        num_predict: requestDefaults.maxTokens,
+        temperature: requestDefaults.temperature,
+        top_p: requestDefaults.topP,
+        frequency_penalty: requestDefaults.frequencyPenalty,
+        presence_penalty: requestDefaults.presencePenalty
+      }
+    };
+
+    // Ollama has no tool choice, so tools are left out when the model must answer
+    if (options.tools?.length && options.toolChoice !== 'none') {
+      payload.tools = options.tools.map(({ name, description, parameters }) => ({
+        type: 'function',
+        function: { name, description, parameters }
+      }));
+    }
+
+    return { url: provider.baseUrl, payload, headers };
+  }
+
+  /**
+   * Builds a request listing the locally installed models
+   *
+   * @returns The request to send to the server's /api/tags endpoint
+   */
+  buildHealthCheckRequest(): LLMHealthCheckRequest {
+    const { provider } = this.settings;
+    const headers: Record<string, string> = {};
+
+    if (provider.apiKey) {
+      headers['Authorization'] = `Bearer ${provider.apiKey}`;
+    }
+
+    return { url: provider.baseUrl.replace(/\/api\/chat\/?$/, '/api/tags'), headers };
+  }
+
+  /**
+   * Extracts the completion text, model and token usage from a chat response
+   *
+   * @param data - Raw response body from the provider
+   * @returns The parsed completion; content is empty if none was found
+   */
+  parseResponse(data: unknown): LLMProviderResult {
+    const response = (data ?? {}) as OllamaChatResponse;
+    const toolCalls = this.parseToolCalls(response.message?.tool_calls);
+
+    return {
+      content: response.message?.content || '',
+      model: response.model,
+      usage: this.parseUsage(response),
+      ...(toolCalls && { toolCalls })
+    };
+  }
+
+  /**
+   * Creates a parser for a newline-delimited JSON chat stream
+   *
+   * @returns Parser for individual stream lines
+   */
+  createStreamParser(): LLMStreamParser {
+    return (line: string) => {
+      const trimmed = line.trim();
+      if (!trimmed) {
+        return null;
+      }
+
+      const parsed = JSON.parse(trimmed) as OllamaChatResponse;
+      const toolCalls = this.parseToolCalls(parsed.message?.tool_calls);
+      return {
+        delta: parsed.message?.content || undefined,
+        model: parsed.model,
+        usage: parsed.done ? this.parseUsage(parsed) : undefined,
+        ...(toolCalls && { toolCalls }),
+        error: parsed.error
+      };
+    };
+  }
+
+  /**
+   * Converts a message to the chat format, in which tool results name their tool
+   *
+   * @param message - Message for the LLM
+   * @returns The message as the API expects it
+   */
+  private toProviderMessage(message: LLMMessage): LLMJsonObject {
+    if (message.role === ChatRole.TOOL) {
+      return { role: message.role, content: message.content, tool_name: message.name };
+    }
+
+    if (message.toolCalls?.length) {
+      return {
+        role: message.role,
+        content: message.content,
+        tool_calls: message.toolCalls.map((call) => ({
+          function: { name: call.name, arguments: call.arguments }
+        }))
+      };
+    }
+
+    return { role: message.role, content: message.content };
+  }
+
+  /**
+   * Normalizes the tool calls of a chat response, assigning each an ID
+   *
+   * @param toolCalls - Tool calls reported by the provider
+   * @returns The tool calls, or undefined if there were none
+   */
+  private parseToolCalls(toolCalls: OllamaToolCall[] | undefined): LLMToolCall[] | undefined {
+    if (!Array.isArray(toolCalls) || toolCalls.length === 0) {
+      return undefined;
+    }
+
+    return toolCalls.map((call) => ({
+      id: `call_${randomUUID()}`,
+      name: call.function?.name || '',
+      arguments: call.function?.arguments || {}
+    }));
+  }
+
+  /**
+   * Normalizes the token counts reported on a final chat response
+   *
+   * @param data - Final response object from the provider
+   * @returns Normalized token usage, or undefined if none was reported
+   */
+  private parseUsage(data: OllamaChatResponse): LLMTokenUsage | undefined {
+    if (data.prompt_eval_count === undefined && data.eval_count === undefined) {
+      return undefined;
+    }
+
+    const promptTokens = data.prompt_eval_count || 0;
+    const completionTokens = data.eval_count || 0;
+
+    return {
+      prompt_tokens: promptTokens,
+      completion_tokens: completionTokens,
+      total_tokens: promptTokens + completionTokens
+    };
+  }
+}
@@ -0,0 +1,306 @@
+import { randomUUID } from 'crypto';
+
+import {
+  ChatRole,
+  LLMHealthCheckRequest,
+  LLMJsonObject,
+  LLMMessage,
+  LLMProvider,
+  LLMProviderRequest,
+  LLMProviderResult,
+  LLMProviderSettings,
+  LLMProviderType,
+  LLMRequestOptions,
+  LLMStreamParser,
+  LLMTokenUsage,
+  LLMToolCall
+} from '../../types';
+
+/**
+ * Tool call in a chat completion, whose arguments are JSON text
+ */
+interface OpenAIToolCall {
+  id?: string;
+  function?: { name?: string; arguments?: string };
+}
+
+/**
+ * Usage block of a chat completion response
+ */
+interface OpenAIUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  total_tokens?: number;
+}
+
+/**
+ * Chat completion response body
+ */
+interface OpenAICompletion {
+  model?: string;
+  choices?: {
+    message?: { content?: string | null; tool_calls?: OpenAIToolCall[] };
+    text?: string;
+  }[];
+  content?: unknown;
+  usage?: OpenAIUsage;
+}
+
+/**
+ * Chunk of a streamed chat completion, in which tool calls arrive in fragments
+ */
+interface OpenAIStreamChunk {
+  model?: string;
+  choices?: {
+    delta?: { content?: string | null; tool_calls?: (OpenAIToolCall & { index?: number })[] };
+    finish_reason?: string | null;
+  }[];
+  usage?: OpenAIUsage;
+  error?: { message?: string };
+}
+
+/**
+ * Adapter for OpenAI-compatible chat completion APIs
+ *
+ * Also used for Azure OpenAI and for llama.cpp's built-in server, which exposes the same
+ * /v1/chat/completions interface and does not require an API key.
+ */
+export class OpenAIProvider implements LLMProvider {
+  /**
+   * Creates the adapter from the LLM configuration
+   *
+   * @param settings - LLM configuration settings
+   * @param type - Provider type reported by this adapter
+   */
+  constructor(
+    private settings: LLMProviderSettings,
+    readonly type: LLMProviderType = LLMProviderType.OPENAI
+  ) {}
+
+  /**
+   * Builds a chat completion request
+   *
+   * @param messages - Array of messages for the LLM
+   * @param userId - User ID for tracking
+   * @param stream - Whether the response should be streamed
+   * @param options - Optional tools the model can call
+   * @returns The request to send to the provider
+   */
+  buildRequest(
+    messages: LLMMessage[],
+    userId: string,
+    stream: boolean,
+    options: LLMRequestOptions = {}
+  ): LLMProviderRequest {
+    const { model, requestDefaults, provider } = this.settings;
+
+    const payload: LLMJsonObject = {
+      model,
+      messages: messages.map((message) => this.toProviderMessage(message)),
+      max_tokens: requestDefaults.maxTokens,
+      temperature: requestDefaults.temperature,
+      top_p: requestDefaults.topP,
+      frequency_penalty: requestDefaults.frequencyPenalty,
+      presence_penalty: requestDefaults.presencePenalty,
+      user: userId // For tracking
+    };
+
+    if (stream) {
+      payload.stream = true;
+    }
+
+    if (options.tools?.length) {
+      payload.tools = options.tools.map(({ name, description, parameters }) => ({
+        type: 'function',
+        function: { name, description, parameters }
+      }));
+      payload.tool_choice = options.toolChoice || 'auto';
+    }
+
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json'
+    };
+
+    // Local servers run without an API key
+    if (provider.apiKey) {
+      headers['Authorization'] = `Bearer ${provider.apiKey}`;
+    }
+
+    return { url: provider.baseUrl, payload, headers };
+  }
+
+  /**
+   * Builds a request listing the available models, which is free and does not use tokens
+   *
+   * @returns The request to send to the provider's /models endpoint
+   */
+  buildHealthCheckRequest(): LLMHealthCheckRequest {
+    const { provider } = this.settings;
+    const headers: Record<string, string> = {};
+
+    if (provider.apiKey) {
+      headers['Authorization'] = `Bearer ${provider.apiKey}`;
+    }
+
+    return { url: provider.baseUrl.replace(/\/chat\/completions\/?$/, '/models'), headers };
+  }
+
+  /**
+   * Extracts the completion text, model and token usage from a chat completion response
+   *
+   * @param data - Raw response body from the provider
+   * @returns The parsed completion; content is empty if none was found
+   */
+  parseResponse(data: unknown): LLMProviderResult {
+    const completion = (data ?? {}) as OpenAICompletion;
+    let content: string | null | undefined = '';
+    let toolCalls: LLMToolCall[] | undefined;
+
+    if (completion.choices && completion.choices.length > 0) {
+      if (completion.choices[0].message) {
+        content = completion.choices[0].message.content;
+        toolCalls = this.parseToolCalls(completion.choices[0].message.tool_calls);
+      } else if (completion.choices[0].text) {
+        content = completion.choices[0].text;
+      }
+    }
+
+    // Handle direct completion response format
+    if (!content && typeof completion.content === 'string') {
+      content = completion.content;
+    }
+
+    return {
+      content: content || '',
+      model: completion.model,
+      usage: this.parseUsage(completion.usage),
+      ...(toolCalls && { toolCalls })
+    };
+  }
+
+  /**
+   * Creates a parser for a Server-Sent Events chat completion stream
+   *
+   * The arguments of tool calls arrive in fragments, so calls are collected by their index
+   * and reported once the choice finishes.
+   *
+   * @returns Parser for individual stream lines
+   */
+  createStreamParser(): LLMStreamParser {
+    const pendingCalls: { id?: string; name?: string; arguments: string }[] = [];
+
+    return (line: string) => {
+      const trimmed = line.trim();
+      if (!trimmed.startsWith('data:')) {
+        return null;
+      }
+
+      const data = trimmed.slice('data:'.length).trim();
+      if (data === '[DONE]') {
+        return null;
+      }
+
+      const parsed = JSON.parse(data) as OpenAIStreamChunk;
+      const choice = parsed.choices?.[0];
+
+      for (const fragment of choice?.delta?.tool_calls || []) {
+        const index: number = fragment.index ?? pendingCalls.length;
+        const call = pendingCalls[index] || (pendingCalls[index] = { arguments: '' });
+        call.id = fragment.id || call.id;
+        call.name = fragment.function?.name || call.name;
+        call.arguments += fragment.function?.arguments || '';
+      }
+
+      const finished = Boolean(choice?.finish_reason) && pendingCalls.length > 0;
+      const toolCalls = finished
+        ? this.parseToolCalls(pendingCalls.splice(0).map((call) => ({
+          id: call.id,
+          function: { name: call.name, arguments: call.arguments }
+        })))
+        : undefined;
+
+      return {
+        delta: choice?.delta?.content || undefined,
+        model: parsed.model,
+        usage: this.parseUsage(parsed.usage),
+        ...(toolCalls && { toolCalls }),
+        error: parsed.error?.message
+      };
+    };
+  }
+
+  /**
+   * Converts a message to the chat completions format, in which tool calls are functions
+   * whose arguments are sent as JSON text
+   *
+   * @param message - Message for the LLM
+   * @returns The message as the API expects it
+   */
+  private toProviderMessage(message: LLMMessage): LLMJsonObject {
+    if (message.role === ChatRole.TOOL) {
+      return { role: message.role, tool_call_id: message.toolCallId, content: message.content };
+    }
+
+    if (message.toolCalls?.length) {
+      return {
+        role: message.role,
+        content: message.content || null,
+        tool_calls: message.toolCalls.map((call) => ({
+          id: call.id,
+          type: 'function',
+          function: { name: call.name, arguments: JSON.stringify(call.arguments) }
+        }))
+      };
+    }
+
+    return { role: message.role, content: message.content };
+  }
+
+  /**
+   * Normalizes the tool calls of a chat completion
+   *
+   * @param toolCalls - Tool calls reported by the provider
+   * @returns The tool calls, or undefined if there were none
+   */
+  private parseToolCalls(toolCalls: OpenAIToolCall[] | undefined): LLMToolCall[] | undefined {
+    if (!Array.isArray(toolCalls) || toolCalls.length === 0) {
+      return undefined;
+    }
+
+    return toolCalls.map((call) => {
+      let args: LLMJsonObject = {};
+      try {
+        args = call.function?.arguments ? JSON.parse(call.function.arguments) as LLMJsonObject : {};
+      } catch {
+        // Malformed arguments are passed on empty, so the tool reports what is missing
+      }
+
+      return {
+        id: call.id || `call_${randomUUID()}`,
+        name: call.function?.name || '',
+        arguments: args
+      };
+    });
+  }
+
+  /**
+   * Normalizes the usage block of a chat completion response
+   *
+   * @param usage - Usage block reported by the provider
+   * @returns Normalized token usage, or undefined if none was reported
+   */
+  private parseUsage(usage: OpenAIUsage | undefined): LLMTokenUsage | undefined {
+    if (!usage) {
+      return undefined;
+    }
+
+    const promptTokens = usage.prompt_tokens || 0;
+    const completionTokens = usage.completion_tokens || 0;
+
+    return {
+      prompt_tokens: promptTokens,
+      completion_tokens: completionTokens,
+      total_tokens: usage.total_tokens || promptTokens + completionTokens
+    };
+  }
+}
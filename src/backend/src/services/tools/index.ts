@@ -0,0 +1,95 @@
+/**
+ * LLM Tools
+ *
+ * Server-side tools the LLM can call while answering a message, to look up more of the
+ * user's health history than fits in the context of the prompt. Every tool only reads the
+ * data of the user the message is from.
+ *
+ * @module services/tools
+ */
+
+import { HealthRepository } from '../../repositories/health.repository';
+import { LLMJsonObject, LLMTool, LLMToolCall, LLMToolDefinition } from '../../types';
+import { BadRequestError } from '../../utils/error.util';
+import { LabTrendTool } from './lab-trend.tool';
+import { MealSummaryTool } from './meal-summary.tool';
+import { SearchHealthRecordsTool } from './search-health-records.tool';
+import { SymptomTimelineTool } from './symptom-timeline.tool';
+
+/**
+ * Registry of the tools offered to the LLM, which runs the calls the LLM makes
+ */
+export class ToolRegistry {
+  private tools = new Map<string, LLMTool>();
+
+  /**
+   * Creates a registry of tools
+   *
+   * @param tools - Tools to register
+   */
+  constructor(tools: LLMTool[] = []) {
+    tools.forEach((tool) => this.register(tool));
+  }
+
+  /**
+   * Registers a tool
+   *
+   * @param tool - Tool to register
+   * @throws Error if a tool with the same name is already registered
+   */
+  register(tool: LLMTool): void {
+    if (this.tools.has(tool.name)) {
+      throw new Error(`Tool already registered: ${tool.name}`);
+    }
+
+    this.tools.set(tool.name, tool);
+  }
+
+  /**
+   * Describes the registered tools for the provider
+   *
+   * @returns Name, description and argument schema of each tool
+   */
+  getDefinitions(): LLMToolDefinition[] {
+    return Array.from(this.tools.values()).map(({ name, description, parameters }) => ({
+      name,
+      description,
+      parameters
+    }));
+  }
+
+  /**
+   * Runs a tool call on behalf of a user
+   *
+   * @param call - Tool call requested by the LLM
+   * @param userId - ID of the user whose data the tool may read
+   * @returns The result of the tool
+   * @throws BadRequestError if no tool has the name called
+   * @throws ValidationError if the arguments are invalid
+   */
+  async execute(call: LLMToolCall, userId: string): Promise<LLMJsonObject> {
+    const tool = this.tools.get(call.name);
+    if (!tool) {
+      throw new BadRequestError(`Unknown tool: ${call.name}`, 'UNKNOWN_TOOL');
+    }
+
+    return tool.execute(userId, call.arguments || {});
+  }
+}
+
+/**
+ * Creates the registry of the tools that look up a user's health history
+ *
+ * @param healthRepository - Repository the tools read health data from
+ * @returns The registry
+ */
+export function createHealthToolRegistry(healthRepository: HealthRepository): ToolRegistry {
+  return new ToolRegistry([
+    new SearchHealthRecordsTool(healthRepository),
+    new LabTrendTool(healthRepository),
+    new SymptomTimelineTool(healthRepository),
+    new MealSummaryTool(healthRepository)
+  ]);
+}
+
+export { LabTrendTool, MealSummaryTool, SearchHealthRecordsTool, SymptomTimelineTool };
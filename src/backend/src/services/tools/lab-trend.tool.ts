@@ -0,0 +1,81 @@
+import { HealthRepository } from '../../repositories/health.repository';
+import { LLMJsonObject, LLMTool, LabTrendToolResult } from '../../types';
+import { findAnalyteDefinition, getAnalyteKey } from '../../utils/lab-units.util';
+import {
+  MAX_TOOL_RESULTS,
+  validateLabTrendToolSchema,
+  validateToolArguments
+} from '../../validators/tool.validator';
+
+/**
+ * Tool that shows how a lab analyte changed across the user's lab results
+ *
+ * Analytes in the catalog are stored in their canonical unit, so their measurements can be
+ * compared directly.
+ */
+export class LabTrendTool implements LLMTool {
+  readonly name = 'get_lab_trend';
+
+  readonly description = 'Gets the measurements of a lab analyte, such as LDL cholesterol, HbA1c or ' +
+    'ferritin, across the user\'s lab results, newest first, with reference ranges and the change ' +
+    'from the first to the latest measurement.';
+
+  readonly parameters = {
+    type: 'object',
+    properties: {
+      analyte: { type: 'string', description: 'Name of the analyte as it appears on lab reports' },
+      startDate: { type: 'string', description: 'Only include lab tests on or after this ISO 8601 date' },
+      endDate: { type: 'string', description: 'Only include lab tests on or before this ISO 8601 date' }
+    },
+    required: ['analyte']
+  };
+
+  /**
+   * Creates the tool
+   *
+   * @param healthRepository - Repository the lab results are read from
+   */
+  constructor(private healthRepository: HealthRepository) {}
+
+  /**
+   * Gets the measurements of an analyte
+   *
+   * @param userId - ID of the user
+   * @param args - Arguments of the call
+   * @returns The analyte's most recent measurements, newest first, and the change if they share a unit
+   * @throws ValidationError if the arguments are invalid
+   */
+  async execute(userId: string, args: LLMJsonObject): Promise<LabTrendToolResult> {
+    const { analyte, startDate, endDate } = validateToolArguments<{
+      analyte: string;
+      startDate?: Date;
+      endDate?: Date;
+    }>(validateLabTrendToolSchema(), args);
+
+    const key = getAnalyteKey(analyte);
+    const definition = findAnalyteDefinition(key);
+    const measurements = await this.healthRepository.findAnalyteHistory(userId, key, startDate, endDate);
+
+    const first = measurements[0];
+    const latest = measurements[measurements.length - 1];
+    const units = new Set(measurements.map((measurement) => measurement.unit));
+
+    return {
+      analyte: definition?.name || latest?.name || analyte,
+      count: measurements.length,
+      measurements: measurements.slice(-MAX_TOOL_RESULTS).reverse()
+        .map(({ name: _name, healthDataId: _id, testDate, ...measurement }) => ({
+          date: new Date(testDate).toISOString().slice(0, 10),
+          ...measurement
+        })),
+      ...(measurements.length > 1 && units.size === 1 && {
+        change: {
+          from: first.value,
+          to: latest.value,
+          difference: Math.round((latest.value - first.value) * 100) / 100,
+          unit: latest.unit
+        }
+      })
+    };
+  }
+}
@@ -0,0 +1,93 @@
+import { HealthRepository } from '../../repositories/health.repository';
+import { HealthDataType, LLMJsonObject, LLMTool, MealSummaryToolResult, MealData } from '../../types';
+import {
+  MAX_TOOL_RESULTS,
+  validateMealSummaryToolSchema,
+  validateToolArguments
+} from '../../validators/tool.validator';
+
+// Number of days covered by each range, ending now
+const RANGE_DAYS: Record<string, number> = {
+  week: 7,
+  month: 30,
+  quarter: 90
+};
+
+const DAY_IN_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Tool that summarizes the meals the user logged over a recent period
+ *
+ * Days are counted in UTC, as the tool has no time zone of the user to go by.
+ */
+export class MealSummaryTool implements LLMTool {
+  readonly name = 'get_meal_summary';
+
+  readonly description = 'Summarizes the meals the user logged over the past week, month or quarter: ' +
+    'how many meals of each type, on how many days, and the most recent meals.';
+
+  readonly parameters = {
+    type: 'object',
+    properties: {
+      range: {
+        type: 'string',
+        enum: Object.keys(RANGE_DAYS),
+        description: 'Period to summarize, ending today (default week)'
+      }
+    }
+  };
+
+  /**
+   * Creates the tool
+   *
+   * @param healthRepository - Repository the meals are read from
+   */
+  constructor(private healthRepository: HealthRepository) {}
+
+  /**
+   * Summarizes the user's meals
+   *
+   * @param userId - ID of the user
+   * @param args - Arguments of the call
+   * @returns Meal counts for the period and its most recent meals
+   * @throws ValidationError if the arguments are invalid
+   */
+  async execute(userId: string, args: LLMJsonObject): Promise<MealSummaryToolResult> {
+    const { range } = validateToolArguments<{ range: string }>(validateMealSummaryToolSchema(), args);
+
+    const endDate = new Date();
+    const startDate = new Date(endDate.getTime() - RANGE_DAYS[range] * DAY_IN_MS);
+
+    const [counts, { items }] = await Promise.all([
+      this.healthRepository.aggregateMealsPerDay(userId, startDate, endDate, 'UTC'),
+      this.healthRepository.findHealthDataByUserId(userId, {
+        types: [HealthDataType.MEAL],
+        startDate,
+        endDate,
+        limit: MAX_TOOL_RESULTS
+      })
+    ]);
+
+    const mealsByType: Record<string, number> = {};
+    counts.forEach(({ mealType, count }) => {
+      mealsByType[mealType] = (mealsByType[mealType] || 0) + count;
+    });
+
+    return {
+      range,
+      startDate: startDate.toISOString().slice(0, 10),
+      endDate: endDate.toISOString().slice(0, 10),
+      totalMeals: counts.reduce((total, { count }) => total + count, 0),
+      daysLogged: new Set(counts.map(({ date }) => date)).size,
+      mealsByType,
+      recentMeals: items.map((record) => {
+        const meal = record.data as MealData;
+        return {
+          date: new Date(record.timestamp).toISOString(),
+          mealType: meal.mealType,
+          description: meal.description
+        };
+      })
+    };
+  }
+}
@@ -0,0 +1,86 @@
+import { Types } from 'mongoose'; // ^7.0.3
+
+import { HealthRepository } from '../../repositories/health.repository';
+import { HealthData, HealthDataType, LLMJsonObject, LLMTool, SearchHealthRecordsToolResult } from '../../types';
+import { buildHealthDataEmbeddingText } from '../../utils/embedding.util';
+import {
+  MAX_TOOL_RESULTS,
+  validateSearchHealthRecordsToolSchema,
+  validateToolArguments
+} from '../../validators/tool.validator';
+
+/**
+ * Tool that searches the user's meals, lab results and symptoms
+ *
+ * Uses the same full-text search as the health data list, so words match by their stem
+ * even though descriptions are encrypted.
+ */
+export class SearchHealthRecordsTool implements LLMTool {
+  readonly name = 'search_health_records';
+
+  readonly description = 'Searches the meals, lab results and symptoms the user has logged. ' +
+    'Words match in any form, "quoted phrases" must appear as written and -words exclude records. ' +
+    'Without a query, lists the newest records.';
+
+  readonly parameters = {
+    type: 'object',
+    properties: {
+      query: { type: 'string', description: 'Words to search for' },
+      types: {
+        type: 'array',
+        items: { type: 'string', enum: Object.values(HealthDataType) },
+        description: 'Only include records of these types'
+      },
+      startDate: { type: 'string', description: 'Only include records on or after this ISO 8601 date' },
+      endDate: { type: 'string', description: 'Only include records on or before this ISO 8601 date' },
+      limit: {
+        type: 'integer',
+        minimum: 1,
+        maximum: MAX_TOOL_RESULTS,
+        description: 'Maximum number of records to return (default 10)'
+      }
+    }
+  };
+
+  /**
+   * Creates the tool
+   *
+   * @param healthRepository - Repository the records are read from
+   */
+  constructor(private healthRepository: HealthRepository) {}
+
+  /**
+   * Searches the user's health records
+   *
+   * @param userId - ID of the user
+   * @param args - Arguments of the call
+   * @returns The number of matching records and the best matches, each as a short text
+   * @throws ValidationError if the arguments are invalid
+   */
+  async execute(userId: string, args: LLMJsonObject): Promise<SearchHealthRecordsToolResult> {
+    const { query, types, startDate, endDate, limit } = validateToolArguments<{
+      query?: string;
+      types?: HealthDataType[];
+      startDate?: Date;
+      endDate?: Date;
+      limit: number;
+    }>(validateSearchHealthRecordsToolSchema(), args);
+
+    const { items, total } = await this.healthRepository.findHealthDataByUserId(userId, {
+      ...(query && { search: query }),
+      ...(types?.length && { types }),
+      ...(startDate && { startDate }),
+      ...(endDate && { endDate }),
+      limit
+    });
+
+    return {
+      total,
+      records: items.map((record: HealthData & { _id?: Types.ObjectId }) => ({
+        id: record._id?.toString(),
+        type: record.type,
+        text: buildHealthDataEmbeddingText(record)
+      }))
+    };
+  }
+}
@@ -0,0 +1,76 @@
+import { Types } from 'mongoose'; // ^7.0.3
+
+import { HealthRepository } from '../../repositories/health.repository';
+import { HealthData, HealthDataType, LLMJsonObject, LLMTool, SymptomTimelineToolResult, SymptomData } from '../../types';
+import {
+  MAX_TOOL_RESULTS,
+  validateSymptomTimelineToolSchema,
+  validateToolArguments
+} from '../../validators/tool.validator';
+
+/**
+ * Tool that lists the symptoms the user reported over time
+ */
+export class SymptomTimelineTool implements LLMTool {
+  readonly name = 'get_symptom_timeline';
+
+  readonly description = 'Lists the symptoms the user reported, newest first, with their severity ' +
+    'and duration. Use it to see how symptoms developed or how often they came back.';
+
+  readonly parameters = {
+    type: 'object',
+    properties: {
+      query: { type: 'string', description: 'Only include symptoms matching these words, e.g. "headache"' },
+      startDate: { type: 'string', description: 'Only include symptoms on or after this ISO 8601 date' },
+      endDate: { type: 'string', description: 'Only include symptoms on or before this ISO 8601 date' }
+    }
+  };
+
+  /**
+   * Creates the tool
+   *
+   * @param healthRepository - Repository the symptoms are read from
+   */
+  constructor(private healthRepository: HealthRepository) {}
+
+  /**
+   * Lists the user's symptoms
+   *
+   * @param userId - ID of the user
+   * @param args - Arguments of the call
+   * @returns The number of matching symptoms and the most recent ones, newest first
+   * @throws ValidationError if the arguments are invalid
+   */
+  async execute(userId: string, args: LLMJsonObject): Promise<SymptomTimelineToolResult> {
+    const { query, startDate, endDate } = validateToolArguments<{
+      query?: string;
+      startDate?: Date;
+      endDate?: Date;
+    }>(validateSymptomTimelineToolSchema(), args);
+
+    const { items, total } = await this.healthRepository.findHealthDataByUserId(userId, {
+      types: [HealthDataType.SYMPTOM],
+      ...(query && { search: query }),
+      ...(startDate && { startDate }),
+      ...(endDate && { endDate }),
+      limit: MAX_TOOL_RESULTS
+    });
+
+    // Searches return the best matches first, so order the timeline once found
+    const symptoms = [...items].sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
+
+    return {
+      total,
+      symptoms: symptoms.map((record: HealthData & { _id?: Types.ObjectId }) => {
+        const symptom = record.data as SymptomData;
+        return {
+          id: record._id?.toString(),
+          date: new Date(record.timestamp).toISOString(),
+          description: symptom.description,
+          severity: symptom.severity,
+          ...(symptom.duration && { duration: symptom.duration })
+        };
+      })
+    };
+  }
+}
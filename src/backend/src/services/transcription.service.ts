@@ -0,0 +1,85 @@
+/**
+ * Transcription Service Module
+ *
+ * Transcribes symptom voice notes on the server with the speech-to-text engine chosen
+ * by TRANSCRIPTION_ENGINE, e.g. a local whisper.cpp binary. On-device recognition only
+ * works while recording live, so uploaded recordings are transcribed here instead.
+ *
+ * @module services/transcription.service
+ */
+
+import { environment, logger } from '../config';
+import { TranscriptionEngine, TranscriptionEngineType } from '../types';
+import { ServiceUnavailableError } from '../utils/error.util';
+import { createTranscriptionEngine } from './transcription';
+
+/**
+ * Resolves the engine type configured for the current environment
+ *
+ * @returns The configured engine type, defaulting to the stub engine
+ */
+function resolveEngineType(): TranscriptionEngineType {
+  const engineTypes = Object.values(TranscriptionEngineType) as string[];
+  const configuredType = environment.TRANSCRIPTION_ENGINE.toLowerCase();
+
+  if (!engineTypes.includes(configuredType)) {
+    logger.warn(`Unknown TRANSCRIPTION_ENGINE "${environment.TRANSCRIPTION_ENGINE}", falling back to the stub engine`);
+    return TranscriptionEngineType.STUB;
+  }
+
+  return configuredType as TranscriptionEngineType;
+}
+
+/**
+ * Service class that transcribes recorded audio
+ */
+export class TranscriptionService {
+  private engine: TranscriptionEngine;
+
+  /**
+   * Creates the service with the configured engine
+   *
+   * @param engine - Engine to use instead of the configured one
+   */
+  constructor(engine?: TranscriptionEngine) {
+    this.engine = engine || createTranscriptionEngine(resolveEngineType());
+  }
+
+  /**
+   * Type of the engine in use, recorded with each transcription
+   */
+  get engineType(): TranscriptionEngineType {
+    return this.engine.type;
+  }
+
+  /**
+   * Transcribes a recording
+   *
+   * @param audio - Recorded audio
+   * @param mimetype - MIME type of the recording
+   * @returns The transcript, empty if no speech was recognised
+   * @throws ServiceUnavailableError if the engine fails
+   */
+  async transcribe(audio: Buffer, mimetype: string): Promise<string> {
+    try {
+      const startedAt = Date.now();
+      const transcript = await this.engine.transcribe(audio, mimetype);
+
+      logger.debug('Recording transcribed', {
+        engine: this.engine.type,
+        duration: Date.now() - startedAt,
+        length: transcript.length
+      });
+
+      return transcript;
+    } catch (error) {
+      logger.error('Error transcribing recording', {
+        error: (error as Error).message,
+        stack: (error as Error).stack,
+        engine: this.engine.type
+      });
+
+      throw new ServiceUnavailableError(`Transcription failed: ${(error as Error).message}`, 'transcription');
+    }
+  }
+}
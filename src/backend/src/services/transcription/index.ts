@@ -0,0 +1,39 @@
+/**
+ * Speech-to-Text Engines
+ *
+ * Each engine turns a recorded symptom voice note into text. The engine in use is
+ * chosen by TRANSCRIPTION_ENGINE.
+ *
+ * @module services/transcription
+ */
+
+import { environment } from '../../config';
+import { TranscriptionEngine, TranscriptionEngineType } from '../../types';
+import { StubTranscriptionEngine } from './stub.engine';
+import { WhisperCppEngine, normalizeTranscript } from './whisper-cpp.engine';
+
+/**
+ * Creates the configured speech-to-text engine
+ *
+ * @param type - Engine type
+ * @returns The engine
+ * @throws Error if the engine type is not supported
+ */
+export function createTranscriptionEngine(type: TranscriptionEngineType): TranscriptionEngine {
+  switch (type) {
+    case TranscriptionEngineType.WHISPER_CPP:
+      return new WhisperCppEngine({
+        binaryPath: environment.WHISPER_CPP_PATH,
+        modelPath: environment.WHISPER_CPP_MODEL,
+        ffmpegPath: environment.FFMPEG_PATH,
+        language: environment.TRANSCRIPTION_LANGUAGE,
+        timeout: environment.TRANSCRIPTION_TIMEOUT
+      });
+    case TranscriptionEngineType.STUB:
+      return new StubTranscriptionEngine();
+    default:
+      throw new Error(`Unsupported transcription engine: ${type as string}`);
+  }
+}
+
+export { StubTranscriptionEngine, WhisperCppEngine, normalizeTranscript };
@@ -0,0 +1,20 @@
+import { TranscriptionEngine, TranscriptionEngineType } from '../../types';
+
+/**
+ * Engine that does not transcribe anything
+ *
+ * Used in development and tests, and wherever no speech-to-text engine is installed.
+ * Symptoms keep any transcription recorded on the device.
+ */
+export class StubTranscriptionEngine implements TranscriptionEngine {
+  readonly type = TranscriptionEngineType.STUB;
+
+  /**
+   * Returns an empty transcript without reading the recording
+   *
+   * @returns Promise resolving to an empty transcript
+   */
+  transcribe(): Promise<string> {
+    return Promise.resolve('');
+  }
+}
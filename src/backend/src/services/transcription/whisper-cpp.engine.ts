@@ -0,0 +1,126 @@
+import { execFile } from 'child_process';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+
+import { TranscriptionEngine, TranscriptionEngineType } from '../../types';
+
+/**
+ * Settings for running whisper.cpp
+ */
+export interface WhisperCppSettings {
+  /** Path of the whisper.cpp command line binary, e.g. whisper-cli */
+  binaryPath: string;
+
+  /** Path of the ggml model file */
+  modelPath: string;
+
+  /** Path of the ffmpeg binary used to convert recordings to WAV */
+  ffmpegPath: string;
+
+  /** Spoken language, e.g. en, or auto to detect it */
+  language: string;
+
+  /** Time limit in milliseconds for each command */
+  timeout: number;
+}
+
+// Largest transcript read from whisper.cpp's output
+const MAX_OUTPUT_BYTES = 10 * 1024 * 1024;
+
+// Non-speech annotations such as [BLANK_AUDIO] or [MUSIC]
+const NON_SPEECH_PATTERN = /\[[A-Z _]+\]/g;
+
+/**
+ * Runs a command and collects its output
+ *
+ * @param file - Binary to run
+ * @param args - Command line arguments
+ * @param timeout - Time limit in milliseconds
+ * @returns Promise resolving to the command's standard output
+ */
+function runCommand(file: string, args: string[], timeout: number): Promise<string> {
+  return new Promise((resolve, reject) => {
+    execFile(file, args, { timeout, maxBuffer: MAX_OUTPUT_BYTES }, (error, stdout, stderr) => {
+      if (error) {
+        const detail = stderr ? `: ${stderr.toString().trim()}` : '';
+        reject(new Error(`${path.basename(file)} failed (${error.message.split('\n')[0]})${detail}`));
+        return;
+      }
+
+      resolve(stdout.toString());
+    });
+  });
+}
+
+/**
+ * Turns whisper.cpp's output into a single line of text
+ *
+ * @param output - Standard output of whisper.cpp run without timestamps
+ * @returns The transcript with non-speech annotations removed
+ */
+export function normalizeTranscript(output: string): string {
+  return output
+    .replace(NON_SPEECH_PATTERN, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Engine that transcribes recordings with a local whisper.cpp binary
+ *
+ * Recordings never leave the server. whisper.cpp expects 16 kHz mono WAV, so each
+ * recording is converted with ffmpeg in a temporary directory that is removed afterwards.
+ */
+export class WhisperCppEngine implements TranscriptionEngine {
+  readonly type = TranscriptionEngineType.WHISPER_CPP;
+
+  /**
+   * Creates the engine from its settings
+   *
+   * @param settings - whisper.cpp settings
+   */
+  constructor(private settings: WhisperCppSettings) {}
+
+  /**
+   * Transcribes a recording
+   *
+   * @param audio - Recorded audio in any format ffmpeg can read
+   * @returns Promise resolving to the transcript
+   * @throws Error if no model is configured or either command fails
+   */
+  async transcribe(audio: Buffer): Promise<string> {
+    const { binaryPath, modelPath, ffmpegPath, language, timeout } = this.settings;
+
+    if (!modelPath) {
+      throw new Error('No whisper.cpp model is configured (WHISPER_CPP_MODEL)');
+    }
+
+    const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'transcription-'));
+
+    try {
+      const inputPath = path.join(directory, 'recording');
+      const wavPath = path.join(directory, 'recording.wav');
+      await fs.writeFile(inputPath, audio);
+
+      await runCommand(ffmpegPath, [
+        '-nostdin', '-loglevel', 'error',
+        '-i', inputPath,
+        '-ar', '16000', '-ac', '1', '-c:a', 'pcm_s16le',
+        wavPath
+      ], timeout);
+
+      const output = await runCommand(binaryPath, [
+        '--model', modelPath,
+        '--file', wavPath,
+        '--language', language,
+        '--no-timestamps',
+        '--no-prints'
+      ], timeout);
+
+      return normalizeTranscript(output);
+    } finally {
+      await fs.rm(directory, { recursive: true, force: true });
+    }
+  }
+}
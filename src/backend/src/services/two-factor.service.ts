@@ -0,0 +1,209 @@
+/**
+ * Two-Factor Authentication Service
+ *
+ * Manages optional TOTP two-factor authentication. Enrollment stores a new authenticator
+ * secret, encrypted, and only turns two-factor authentication on once a code generated
+ * from it has been confirmed. At that point the user receives recovery codes for when
+ * their authenticator app is not at hand; only their hashes are kept and each works once.
+ * An authenticator code can't be used twice either.
+ *
+ * @module services/two-factor.service
+ */
+
+import crypto from 'crypto';
+import QRCode from 'qrcode'; // ^1.5.3
+import {
+  getUserById,
+  setTwoFactorSecret,
+  enableTwoFactorForUser,
+  recordTwoFactorStep,
+  consumeRecoveryCode,
+  disableTwoFactorForUser
+} from '../repositories/user.repository';
+import { encryptSecret, decryptSecret, hashToken } from '../utils/encryption.util';
+import { generateTotpSecret, verifyTotp, buildOtpauthUrl } from '../utils/totp.util';
+import { BadRequestError, ConflictError } from '../utils/error.util';
+import { TwoFactorSetupResponse, TwoFactorRecoveryCodesResponse } from '../types/auth.types';
+import { UserDocument } from '../types/user.types';
+import { environment } from '../config/environment';
+import logger from '../config/logger';
+
+// Number of recovery codes issued when two-factor authentication is turned on
+const RECOVERY_CODE_COUNT = 10;
+
+// Recovery codes are 10 hex characters, shown as two groups of 5
+const RECOVERY_CODE_PATTERN = /^[0-9a-f]{10}$/;
+
+/**
+ * Starts two-factor enrollment by generating a new authenticator secret
+ *
+ * Starting again before confirming replaces the previous secret.
+ *
+ * @param userId - ID of the user enrolling
+ * @returns Promise resolving to the secret, its otpauth:// URI and a QR code of the URI
+ * @throws ConflictError if two-factor authentication is already on
+ * @throws NotFoundError if the user doesn't exist
+ */
+export async function setupTwoFactor(userId: string): Promise<TwoFactorSetupResponse> {
+  try {
+    const user = await getUserById(userId);
+    if (user.twoFactorEnabled) {
+      throw new ConflictError('Two-factor authentication is already enabled', 'TWO_FACTOR_ALREADY_ENABLED');
+    }
+
+    const secret = generateTotpSecret();
+    await setTwoFactorSecret(user._id, encryptSecret(secret));
+
+    const otpauthUrl = buildOtpauthUrl(secret, user.email, environment.TWO_FACTOR_ISSUER);
+    const qrCode = await QRCode.toDataURL(otpauthUrl);
+
+    logger.info('Two-factor enrollment started', { userId });
+
+    return { secret, otpauthUrl, qrCode };
+  } catch (error) {
+    logger.error('Two-factor setup failed', {
+      userId,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    throw error;
+  }
+}
+
+/**
+ * Turns two-factor authentication on after checking a code from the authenticator app
+ *
+ * @param userId - ID of the user enrolling
+ * @param code - Code from the authenticator app
+ * @returns Promise resolving to the recovery codes, which are shown to the user only once
+ * @throws BadRequestError if enrollment hasn't been started or the code is wrong
+ * @throws ConflictError if two-factor authentication is already on
+ * @throws NotFoundError if the user doesn't exist
+ */
+export async function enableTwoFactor(userId: string, code: string): Promise<TwoFactorRecoveryCodesResponse> {
+  try {
+    const user = await getUserById(userId);
+    if (user.twoFactorEnabled) {
+      throw new ConflictError('Two-factor authentication is already enabled', 'TWO_FACTOR_ALREADY_ENABLED');
+    }
+    if (!user.twoFactorSecret) {
+      throw new BadRequestError('Set up two-factor authentication before enabling it', 'TWO_FACTOR_NOT_SET_UP');
+    }
+
+    const step = verifyTotp(decryptSecret(user.twoFactorSecret), code);
+    if (step === null) {
+      throw new BadRequestError('Invalid verification code', 'INVALID_TWO_FACTOR_CODE');
+    }
+
+    const recoveryCodes = generateRecoveryCodes();
+    await enableTwoFactorForUser(
+      user._id,
+      recoveryCodes.map((recoveryCode) => hashToken(normalizeRecoveryCode(recoveryCode))),
+      step
+    );
+
+    logger.info('Two-factor authentication enabled', { userId });
+
+    return { recoveryCodes };
+  } catch (error) {
+    logger.error('Enabling two-factor authentication failed', {
+      userId,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    throw error;
+  }
+}
+
+/**
+ * Turns two-factor authentication off, which takes both the password and a code
+ *
+ * @param userId - ID of the user
+ * @param password - The user's password
+ * @param code - Code from the authenticator app or a recovery code
+ * @returns Promise resolving when two-factor authentication is off
+ * @throws BadRequestError if it isn't on, or the password or code is wrong
+ * @throws NotFoundError if the user doesn't exist
+ */
+export async function disableTwoFactor(userId: string, password: string, code: string): Promise<void> {
+  try {
+    const user = await getUserById(userId);
+    if (!user.twoFactorEnabled) {
+      throw new BadRequestError('Two-factor authentication is not enabled', 'TWO_FACTOR_NOT_ENABLED');
+    }
+
+    // Not an AuthenticationError: a 401 would sign the user out of the app
+    const isPasswordValid = await user.comparePassword(password);
+    if (!isPasswordValid) {
+      throw new BadRequestError('Password is incorrect', 'INVALID_PASSWORD');
+    }
+
+    const isCodeValid = await verifyTwoFactorCode(user, code);
+    if (!isCodeValid) {
+      throw new BadRequestError('Invalid verification code', 'INVALID_TWO_FACTOR_CODE');
+    }
+
+    await disableTwoFactorForUser(user._id);
+
+    logger.info('Two-factor authentication disabled', { userId });
+  } catch (error) {
+    logger.error('Disabling two-factor authentication failed', {
+      userId,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    throw error;
+  }
+}
+
+/**
+ * Checks a code from the authenticator app or a recovery code of a user, using it up
+ *
+ * @param user - User with two-factor authentication on
+ * @param code - Code the user entered
+ * @returns Promise resolving to true if the code was valid and unused
+ */
+export async function verifyTwoFactorCode(user: UserDocument, code: string): Promise<boolean> {
+  if (!user.twoFactorSecret) {
+    return false;
+  }
+
+  const step = verifyTotp(decryptSecret(user.twoFactorSecret), code);
+  if (step !== null) {
+    return recordTwoFactorStep(user._id, step);
+  }
+
+  const recoveryCode = normalizeRecoveryCode(code);
+  if (!RECOVERY_CODE_PATTERN.test(recoveryCode)) {
+    return false;
+  }
+
+  const consumed = await consumeRecoveryCode(user._id, hashToken(recoveryCode));
+  if (consumed) {
+    logger.info('Recovery code used', {
+      userId: user._id.toString(),
+      remaining: Math.max(0, user.twoFactorRecoveryCodes.length - 1)
+    });
+  }
+
+  return consumed;
+}
+
+/**
+ * Generates a set of random recovery codes
+ *
+ * @returns Recovery codes formatted as two groups of 5 characters, e.g. "3f9a2-c81d0"
+ */
+function generateRecoveryCodes(): string[] {
+  return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const code = crypto.randomBytes(5).toString('hex');
+    return `${code.slice(0, 5)}-${code.slice(5)}`;
+  });
+}
+
+/**
+ * Normalizes a recovery code as entered by the user, so the dash, spaces and case don't matter
+ *
+ * @param code - Recovery code as entered
+ * @returns Lowercase code without separators
+ */
+function normalizeRecoveryCode(code: string): string {
+  return code.toLowerCase().replace(/[\s-]/g, '');
+}
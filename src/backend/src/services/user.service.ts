@@ -2,15 +2,21 @@
  * User Service Module
  * 
  * This module provides business logic for user profile management in the Health Advisor
- * application. It handles retrieving user profile information and formatting user data
- * for API responses.
+ * application. It handles retrieving and updating user profile information, including the
+ * health profile the advisor takes into account, and formatting user data for API responses.
  * 
  * @module services/user.service
  */
 
 import { Types } from 'mongoose'; // ^7.0.3
-import { getUserById } from '../repositories/user.repository';
-import { UserDocument, UserProfileResponse, UserErrorType } from '../types/user.types';
+import { getUserById, updateUserProfileById } from '../repositories/user.repository';
+import {
+  UserDocument,
+  UserProfileResponse,
+  UpdateUserProfileRequest,
+  UnitsPreference,
+  UserErrorType
+} from '../types/user.types';
 import { NotFoundError } from '../utils/error.util';
 import logger from '../config/logger';
 
@@ -55,6 +61,34 @@ export async function getUserProfile(userId: string | Types.ObjectId): Promise<U
   }
 }
 
+/**
+ * Updates the profile of a user
+ * 
+ * @param userId - User's ObjectId or string representation
+ * @param profileData - Profile fields to change; null clears a field
+ * @returns Promise resolving to the updated profile formatted for API response
+ * @throws NotFoundError if the user does not exist
+ */
+export async function updateUserProfile(
+  userId: string | Types.ObjectId,
+  profileData: UpdateUserProfileRequest
+): Promise<UserProfileResponse> {
+  const id = typeof userId === 'string' ? userId : userId.toString();
+  
+  const user = await updateUserProfileById(userId, profileData);
+  
+  if (!user) {
+    throw new NotFoundError(`User with ID ${id} not found`, UserErrorType.USER_NOT_FOUND);
+  }
+  
+  logger.info('User profile updated successfully', {
+    userId: id,
+    fields: Object.keys(profileData)
+  });
+  
+  return formatUserProfile(user);
+}
+
 /**
  * Formats a user document into a standardized profile response object
  * 
@@ -65,6 +99,17 @@ export function formatUserProfile(user: UserDocument): UserProfileResponse {
   return {
     id: user._id.toString(),
     email: user.email,
-    createdAt: user.createdAt.toISOString()
+    createdAt: user.createdAt.toISOString(),
+    displayName: user.displayName,
+    dateOfBirth: user.dateOfBirth?.toISOString().slice(0, 10),
+    sex: user.sex,
+    heightCm: user.heightCm,
+    weightKg: user.weightKg,
+    conditions: user.conditions || [],
+    allergies: user.allergies || [],
+    medications: user.medications || [],
+    dietaryPreferences: user.dietaryPreferences || [],
+    unitsPreference: user.unitsPreference || UnitsPreference.METRIC,
+    twoFactorEnabled: !!user.twoFactorEnabled
   };
 }
\ No newline at end of file
@@ -0,0 +1,59 @@
+/**
+ * TypeScript type definitions for account deletion
+ * Deleting an account purges the user's data in a fixed sequence of steps. The record of
+ * the deletion outlives the account: it lets a failed deletion resume where it stopped
+ * and serves as the audit trail that the data was removed
+ */
+
+import { Types, Document } from 'mongoose'; // mongoose version ^7.0.3
+
+/**
+ * Enum defining the states of an account deletion
+ */
+export enum AccountDeletionStatus {
+  IN_PROGRESS = 'in_progress',
+  COMPLETED = 'completed',
+  FAILED = 'failed'
+}
+
+/**
+ * Enum defining the steps of an account deletion, in the order they run
+ */
+export enum AccountDeletionStep {
+  DATA_EXPORTS = 'data_exports',
+  FILES = 'files',
+  HEALTH_DATA = 'health_data',
+  CHATS = 'chats',
+  TOKENS = 'tokens',
+  USER = 'user'
+}
+
+/**
+ * Base interface for an account deletion record
+ */
+export interface AccountDeletion {
+  userId: Types.ObjectId; // ID of the deleted user, which no longer resolves once completed
+  emailHash: string; // SHA-256 hash of the email address - the address itself is not kept
+  status: AccountDeletionStatus;
+  completedSteps: AccountDeletionStep[];
+  deletedCounts: Partial<Record<AccountDeletionStep, number>>; // Documents removed by each step
+  attempts: number;
+  error?: string; // Reason the last attempt failed
+  completedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Interface for account deletion document with Mongoose document features
+ */
+export interface AccountDeletionDocument extends AccountDeletion, Document {
+  _id: Types.ObjectId;
+}
+
+/**
+ * Interface for the account deletion request body
+ */
+export interface DeleteAccountRequest {
+  password: string;
+}
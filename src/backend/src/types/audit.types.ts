@@ -0,0 +1,127 @@
+/**
+ * TypeScript type definitions for the audit log
+ * The audit log records who read, changed or deleted a health record or file, from where.
+ * Entries are append-only: they are never updated, and they outlive the records and the
+ * account they describe
+ */
+
+import { Types, Document } from 'mongoose'; // mongoose version ^7.0.3
+
+/**
+ * Enum defining the actions recorded in the audit log
+ */
+export enum AuditAction {
+  CREATE = 'create',
+  READ = 'read', // A single record was retrieved
+  LIST = 'list', // A record was returned in a list or search result
+  UPDATE = 'update',
+  DELETE = 'delete',
+  DOWNLOAD = 'download'
+}
+
+/**
+ * Enum defining the kinds of resources the audit log records actions on
+ */
+export enum AuditResourceType {
+  HEALTH_DATA = 'health_data',
+  FILE = 'file'
+}
+
+/**
+ * Interface for a field changed by an update
+ * Values are only kept for fields that are stored in plaintext anyway, such as the meal
+ * type or symptom severity, so the audit log doesn't hold a copy of encrypted content
+ */
+export interface AuditFieldChange {
+  field: string; // Path of the field, e.g. "data.description"
+  before?: unknown;
+  after?: unknown;
+}
+
+/**
+ * Interface for who performed an action, taken from the request
+ */
+export interface AuditContext {
+  actorId: string; // ID of the authenticated user who performed the action
+  ip?: string;
+  userAgent?: string;
+}
+
+/**
+ * Interface for an action to record in the audit log
+ */
+export interface AuditEvent {
+  action: AuditAction;
+  resourceType: AuditResourceType;
+  resourceId: string;
+  ownerId: string; // ID of the user the resource belongs to
+  healthDataId?: string; // Health record a file is attached to
+  changes?: AuditFieldChange[]; // Fields changed by an update
+}
+
+/**
+ * Base interface for an audit log entry
+ */
+export interface AuditEntry {
+  actorId: Types.ObjectId;
+  ownerId: Types.ObjectId;
+  action: AuditAction;
+  resourceType: AuditResourceType;
+  resourceId: Types.ObjectId;
+  healthDataId?: Types.ObjectId;
+  ip?: string;
+  userAgent?: string;
+  changes: AuditFieldChange[];
+  createdAt: Date;
+}
+
+/**
+ * Interface for audit log entry document with Mongoose document features
+ */
+export interface AuditEntryDocument extends AuditEntry, Document {
+  _id: Types.ObjectId;
+}
+
+/**
+ * Interface for an audit log entry as returned by the API
+ */
+export interface AuditEntryResponse {
+  id: string;
+  actorId: string;
+  ownerId: string;
+  action: AuditAction;
+  resourceType: AuditResourceType;
+  resourceId: string;
+  healthDataId?: string;
+  ip?: string;
+  userAgent?: string;
+  changes: AuditFieldChange[];
+  createdAt: Date;
+}
+
+/**
+ * Interface for filtering the audit log of the current user
+ */
+export interface GetAuditLogRequest {
+  action?: AuditAction;
+  resourceType?: AuditResourceType;
+  resourceId?: string;
+  startDate?: Date;
+  endDate?: Date;
+  page?: number;
+  limit?: number;
+}
+
+/**
+ * Interface for filtering the whole audit log, available to administrators
+ */
+export interface AdminAuditLogRequest extends GetAuditLogRequest {
+  actorId?: string;
+  ownerId?: string;
+  ip?: string;
+}
+
+/**
+ * Interface for filters applied to audit log queries
+ */
+export type AuditLogFilters = Omit<AdminAuditLogRequest, 'page' | 'limit'>;
@@ -1,4 +1,5 @@
 import { Request } from 'express'; // express version ^4.18.2
+import { Document, Types } from 'mongoose'; // mongoose version ^7.0.3
 
 /**
  * Interface for login request payload containing user credentials
@@ -25,13 +26,29 @@ export interface UserResponse {
 }
 
 /**
- * Interface for authentication response containing JWT token and user information
+ * Interface for authentication response containing JWT tokens and user information
  */
 export interface AuthResponse {
   token: string;
+  refreshToken: string;
   user: UserResponse;
 }
 
+/**
+ * Interface for refresh and logout request payloads
+ */
+export interface RefreshTokenRequest {
+  refreshToken: string;
+}
+
+/**
+ * Interface for the token pair returned when a refresh token is rotated
+ */
+export interface RefreshTokenResponse {
+  token: string;
+  refreshToken: string;
+}
+
 /**
  * Interface for JWT token payload structure
  */
@@ -39,6 +56,149 @@ export interface JwtPayload {
   userId: string;
   email: string;
   iat: number; // Issued at timestamp
+  exp?: number; // Expiration timestamp, set when the token is signed
+  tokenType?: TokenType; // Only set on refresh tokens and two-factor challenges
+  familyId?: string; // Rotation chain a refresh token belongs to
+  jti?: string; // Unique refresh token identifier
+}
+
+/**
+ * Interface for persisted refresh token documents
+ *
+ * Only a hash of the token is stored. Every token issued by rotating another one
+ * shares the family ID of the token issued at login, so reuse of a rotated token
+ * can revoke the whole chain.
+ */
+export interface RefreshTokenDocument extends Document {
+  _id: Types.ObjectId;
+  userId: Types.ObjectId;
+  tokenHash: string;
+  familyId: string;
+  expiresAt: Date;
+  revokedAt?: Date;
+  replacedBy?: string;
+  createdAt: Date;
+}
+
+/**
+ * Interface for the password change request payload
+ */
+export interface ChangePasswordRequest {
+  currentPassword: string;
+  newPassword: string;
+}
+
+/**
+ * Interface for the response to a correct password when two-factor authentication is on
+ *
+ * The challenge token is exchanged for the token pair together with a code from the
+ * authenticator app or a recovery code.
+ */
+export interface TwoFactorChallengeResponse {
+  twoFactorRequired: true;
+  challengeToken: string;
+}
+
+/**
+ * Response to a login request: either the token pair, or a challenge when two-factor
+ * authentication is on
+ */
+export type LoginResponse = AuthResponse | TwoFactorChallengeResponse;
+
+/**
+ * Interface for the second step of a login with two-factor authentication
+ */
+export interface TwoFactorLoginRequest {
+  challengeToken: string;
+  code: string; // Code from the authenticator app or a recovery code
+}
+
+/**
+ * Interface for the authenticator app setup of a user enrolling in two-factor authentication
+ */
+export interface TwoFactorSetupResponse {
+  secret: string; // Base32 secret for entering the key manually
+  otpauthUrl: string; // otpauth:// URI authenticator apps read from the QR code
+  qrCode: string; // PNG data URL of the QR code
+}
+
+/**
+ * Interface for the request that turns two-factor authentication on
+ */
+export interface EnableTwoFactorRequest {
+  code: string; // Code from the authenticator app, proving the setup worked
+}
+
+/**
+ * Interface for the request that turns two-factor authentication off
+ */
+export interface DisableTwoFactorRequest {
+  password: string;
+  code: string; // Code from the authenticator app or a recovery code
+}
+
+/**
+ * Interface for the recovery codes issued when two-factor authentication is turned on
+ */
+export interface TwoFactorRecoveryCodesResponse {
+  recoveryCodes: string[]; // Shown once; only hashes are stored
+}
+
+/**
+ * Interface for the forgot password request payload
+ */
+export interface ForgotPasswordRequest {
+  email: string;
+}
+
+/**
+ * Interface for the password reset request payload
+ */
+export interface ResetPasswordRequest {
+  token: string; // Reset code from the email
+  newPassword: string;
+}
+
+/**
+ * Interface for persisted password reset token documents
+ *
+ * Only a hash of the token is stored. A token can be used once, and requesting a new
+ * one deletes the tokens issued before it.
+ */
+export interface PasswordResetTokenDocument extends Document {
+  _id: Types.ObjectId;
+  userId: Types.ObjectId;
+  tokenHash: string;
+  expiresAt: Date;
+  usedAt?: Date;
+  createdAt: Date;
+}
+
+/**
+ * Interface for the failed login counters kept for every account and IP address
+ *
+ * Reaching the failed attempt limit locks logins until lockedUntil, and each lockout
+ * lasts twice as long as the one before it.
+ */
+export interface LoginLockoutState {
+  failedLoginAttempts: number; // Failures since the last lockout or successful login
+  lastFailedLoginAt?: Date;
+  lockoutCount: number; // Lockouts so far
+  lockedUntil?: Date;
+}
+
+/**
+ * Interface for persisted failed login counters of an IP address or an unknown email
+ *
+ * Documents expire once the IP address or email has had no failures and no lockout for a while.
+ */
+export interface LoginAttemptDocument extends LoginLockoutState, Document {
+  _id: Types.ObjectId;
+  ip?: string;
+  email?: string; // Normalized email that belongs to no account
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
 }
 
 /**
@@ -56,7 +216,8 @@ export interface AuthenticatedRequest extends Request {
  */
 export enum TokenType {
   ACCESS = 'access',
-  REFRESH = 'refresh'
+  REFRESH = 'refresh',
+  TWO_FACTOR_CHALLENGE = 'two_factor_challenge'
 }
 
 /**
@@ -67,5 +228,7 @@ export enum AuthErrorType {
   EMAIL_EXISTS = 'Email is already registered',
   UNAUTHORIZED = 'Unauthorized access',
   INVALID_TOKEN = 'Invalid authentication token',
-  TOKEN_EXPIRED = 'Authentication token has expired'
+  TOKEN_EXPIRED = 'Authentication token has expired',
+  ACCOUNT_LOCKED = 'Account temporarily locked due to too many failed login attempts',
+  INVALID_TWO_FACTOR_CODE = 'Invalid verification code'
 }
\ No newline at end of file
@@ -6,6 +6,7 @@
 
 import { Types } from 'mongoose'; // ^7.0.3
 import { ObjectId } from './index';
+import { AnalyteHistoryEntry, HealthDataType, MealType, SymptomSeverity } from './health.types';
 
 /**
  * Enum defining possible roles in chat messages
@@ -13,7 +14,19 @@ import { ObjectId } from './index';
 export enum ChatRole {
   USER = 'user',
   ASSISTANT = 'assistant',
-  SYSTEM = 'system'
+  SYSTEM = 'system',
+  // Results of tool calls, only sent to the LLM and never stored as chat messages
+  TOOL = 'tool'
+}
+
+/**
+ * Enum defining where the title of a conversation came from
+ * Titles set by the user are never replaced by generated ones
+ */
+export enum ConversationTitleSource {
+  DEFAULT = 'default',
+  GENERATED = 'generated',
+  USER = 'user'
 }
 
 /**
@@ -37,8 +50,14 @@ export interface ChatConversation {
   _id: Types.ObjectId;
   userId: Types.ObjectId;
   title: string;
+  titleSource: ConversationTitleSource;
+  titleMessageCount: number;
+  summary: string;
+  summarizedUntil: Date | null;
   startedAt: Date;
   lastMessageAt: Date;
+  archived: boolean;
+  pinned: boolean;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -49,6 +68,116 @@ export interface ChatConversation {
 export interface LLMMessage {
   role: ChatRole;
   content: string;
+  /** Tools the assistant called in this message */
+  toolCalls?: LLMToolCall[];
+  /** For tool messages, the ID of the call this message is the result of */
+  toolCallId?: string;
+  /** For tool messages, the name of the tool that was called */
+  name?: string;
+}
+
+/**
+ * A value exchanged with the LLM provider as JSON, such as tool arguments and results
+ */
+export type LLMJsonValue = string | number | boolean | null | LLMJsonValue[] | LLMJsonObject;
+
+/**
+ * Interface for a JSON object exchanged with the LLM provider; undefined properties are left out
+ */
+export interface LLMJsonObject {
+  [key: string]: LLMJsonValue | undefined;
+}
+
+/**
+ * Interface for a tool the LLM can call, as it is described to the provider
+ */
+export interface LLMToolDefinition {
+  name: string;
+  description: string;
+  /** JSON Schema of the tool's arguments */
+  parameters: LLMJsonObject;
+}
+
+/**
+ * Interface for a server-side tool the LLM can call to look up the data of the user it advises
+ */
+export interface LLMTool extends LLMToolDefinition {
+  execute(userId: string, args: LLMJsonObject): Promise<LLMJsonObject>;
+}
+
+/**
+ * Interface for the result of the search_health_records tool
+ */
+export interface SearchHealthRecordsToolResult extends LLMJsonObject {
+  total: number;
+  /** Best matches, each described as a short text */
+  records: { id?: string; type: HealthDataType; text: string }[];
+}
+
+/**
+ * Interface for the result of the get_lab_trend tool
+ */
+export interface LabTrendToolResult extends LLMJsonObject {
+  analyte: string;
+  count: number;
+  /** Most recent measurements, newest first, with the test date as YYYY-MM-DD */
+  measurements: (Omit<AnalyteHistoryEntry, 'healthDataId' | 'name' | 'testDate'> & { date: string })[];
+  /** Change from the first to the latest measurement, when they share a unit */
+  change?: { from: number; to: number; difference: number; unit: string };
+}
+
+/**
+ * Interface for the result of the get_symptom_timeline tool
+ */
+export interface SymptomTimelineToolResult extends LLMJsonObject {
+  total: number;
+  /** Most recent symptoms, newest first */
+  symptoms: { id?: string; date: string; description: string; severity: SymptomSeverity; duration?: string }[];
+}
+
+/**
+ * Interface for the result of the get_meal_summary tool
+ */
+export interface MealSummaryToolResult extends LLMJsonObject {
+  range: string;
+  startDate: string;
+  endDate: string;
+  totalMeals: number;
+  daysLogged: number;
+  mealsByType: Record<string, number>;
+  recentMeals: { date: string; mealType: MealType; description: string }[];
+}
+
+/**
+ * Interface for a tool call requested by the LLM
+ */
+export interface LLMToolCall {
+  id: string;
+  name: string;
+  arguments: LLMJsonObject;
+}
+
+/**
+ * Interface for a tool call and its outcome, stored in the metadata of the assistant message
+ * it was made for so that the transcript shows what the advisor looked up
+ */
+export interface LLMToolInvocation extends LLMToolCall {
+  /** Round of the tool loop the call was made in, starting at 1 */
+  iteration: number;
+  result?: LLMJsonObject;
+  error?: string;
+  /** Whether entries were left out of the result to keep it within the token budget */
+  truncated?: boolean;
+  durationMs: number;
+}
+
+/**
+ * Interface for the tools offered with a single LLM provider request
+ */
+export interface LLMRequestOptions {
+  tools?: LLMToolDefinition[];
+  /** 'none' makes the model answer, while earlier tool calls can stay in the prompt */
+  toolChoice?: 'auto' | 'none';
 }
 
 /**
@@ -93,6 +222,118 @@ export interface SendMessageResponse {
   conversationId: string;
 }
 
+/**
+ * Callback invoked with each chunk of assistant text while an LLM response is streamed
+ */
+export type LLMStreamHandler = (delta: string) => void;
+
+/**
+ * Interface for the final result of a streamed message exchange
+ */
+export interface StreamMessageResponse extends SendMessageResponse {
+  messageId: string;
+  metadata?: Record<string, any>;
+}
+
+/**
+ * Supported LLM provider adapters
+ */
+export enum LLMProviderType {
+  OPENAI = 'openai',
+  ANTHROPIC = 'anthropic',
+  OLLAMA = 'ollama',
+  LLAMA_CPP = 'llamacpp'
+}
+
+/**
+ * Interface for token usage reported by an LLM provider, normalized to a common shape
+ */
+export interface LLMTokenUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+}
+
+/**
+ * Interface for the settings an LLM provider adapter is constructed with (see config/llm)
+ */
+export interface LLMProviderSettings {
+  provider: {
+    type: LLMProviderType;
+    apiKey: string;
+    baseUrl: string;
+    timeout: number;
+  };
+  model: string;
+  requestDefaults: {
+    temperature: number;
+    maxTokens: number;
+    topP: number;
+    frequencyPenalty: number;
+    presencePenalty: number;
+  };
+}
+
+/**
+ * Interface for an HTTP request prepared by an LLM provider adapter
+ */
+export interface LLMProviderRequest {
+  url: string;
+  payload: LLMJsonObject;
+  headers: Record<string, string>;
+}
+
+/**
+ * Interface for a lightweight GET request used to check that an LLM provider is reachable
+ */
+export interface LLMHealthCheckRequest {
+  url: string;
+  headers: Record<string, string>;
+}
+
+/**
+ * Interface for a completion parsed from an LLM provider response
+ */
+export interface LLMProviderResult {
+  content: string;
+  model?: string;
+  usage?: LLMTokenUsage;
+  toolCalls?: LLMToolCall[];
+}
+
+/**
+ * Interface for the information carried by a single line of an LLM provider stream
+ */
+export interface LLMStreamChunk {
+  delta?: string;
+  model?: string;
+  usage?: LLMTokenUsage;
+  /** Tool calls completed by this line, once all of their arguments have arrived */
+  toolCalls?: LLMToolCall[];
+  error?: string;
+}
+
+/**
+ * Parses one line of a provider stream; returns null for lines that carry nothing of interest
+ */
+export type LLMStreamParser = (line: string) => LLMStreamChunk | null;
+
+/**
+ * Interface implemented by each LLM provider adapter
+ */
+export interface LLMProvider {
+  readonly type: LLMProviderType;
+  buildRequest(
+    messages: LLMMessage[],
+    userId: string,
+    stream: boolean,
+    options?: LLMRequestOptions
+  ): LLMProviderRequest;
+  parseResponse(data: unknown): LLMProviderResult;
+  createStreamParser(): LLMStreamParser;
+  buildHealthCheckRequest(): LLMHealthCheckRequest;
+}
+
 /**
  * Interface for client request to retrieve chat history with pagination
  */
@@ -117,6 +358,16 @@ export interface GetChatHistoryResponse {
 export interface GetConversationsRequest {
   page?: number;
   limit?: number;
+  archived?: boolean;
+}
+
+/**
+ * Interface for client request to rename, archive or pin a conversation
+ */
+export interface UpdateConversationRequest {
+  title?: string;
+  archived?: boolean;
+  pinned?: boolean;
 }
 
 /**
@@ -0,0 +1,96 @@
+/**
+ * TypeScript type definitions for the encryption of health data at rest
+ * Sensitive fields of health records are encrypted with a data key per user (envelope
+ * encryption). Data keys are stored wrapped by a master key held by a key management
+ * provider, and searchable values are stored as keyed hashes (blind indexes)
+ */
+
+import { Document, Types } from 'mongoose'; // ^7.0.3
+
+/**
+ * Enum defining the key management providers that can hold the master keys
+ */
+export enum KeyManagementProviderType {
+  LOCAL = 'local'
+}
+
+/**
+ * Interface for a data key wrapped by a master key
+ */
+export interface WrappedDataKey {
+  masterKeyId: string; // Master key the data key was wrapped with
+  wrappedKey: string; // Encrypted data key
+}
+
+/**
+ * Interface for a key management provider, which wraps and unwraps data keys with
+ * master keys that never leave it
+ */
+export interface KeyManagementProvider {
+  /** Provider type, logged when keys are rotated */
+  readonly type: KeyManagementProviderType;
+
+  /** Master key new data keys are wrapped with */
+  readonly currentMasterKeyId: string;
+
+  /**
+   * Wraps a data key with the current master key
+   * @param dataKey - Plaintext data key
+   * @returns Promise resolving to the wrapped key and the ID of the master key used
+   */
+  wrapKey(dataKey: Buffer): Promise<WrappedDataKey>;
+
+  /**
+   * Unwraps a data key
+   * @param wrapped - Wrapped data key and the ID of its master key
+   * @returns Promise resolving to the plaintext data key
+   */
+  unwrapKey(wrapped: WrappedDataKey): Promise<Buffer>;
+}
+
+/**
+ * Base interface for a user's data key. A user gets a new version when their key is
+ * rotated; older versions are kept until no record is encrypted with them
+ */
+export interface DataKey extends WrappedDataKey {
+  userId: Types.ObjectId;
+  version: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Interface for a data key document
+ */
+export interface DataKeyDocument extends DataKey, Document {
+  _id: Types.ObjectId;
+}
+
+/**
+ * Interface for the encrypted fields of a health record
+ */
+export interface EncryptedHealthFields {
+  keyVersion: number; // Version of the user's data key the fields are encrypted with
+  data: string; // Encrypted fields of data that aren't stored in plaintext
+  metadata: string; // Encrypted fields of metadata that aren't stored in plaintext
+}
+
+/**
+ * Interface for the blind indexes of a health record, keyed hashes of its searchable
+ * values that can be matched without decrypting the record
+ */
+export interface HealthDataBlindIndex {
+  terms: string[]; // Stemmed words of descriptions, test types, tags, notes and transcriptions, and word pairs
+  tags: string[]; // Tags as entered
+  analyteKeys: string[]; // Keys of lab result analytes
+}
+
+/**
+ * Interface for the outcome of encrypting the stored health records
+ */
+export interface HealthDataEncryptionSummary {
+  encrypted: number; // Plaintext records that were encrypted
+  reencrypted: number; // Records moved to the latest data key of their user
+  reindexed: number; // Encrypted records whose blind indexes were rebuilt
+  unchanged: number;
+}
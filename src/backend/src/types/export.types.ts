@@ -0,0 +1,53 @@
+/**
+ * TypeScript type definitions for personal data exports
+ * Exports are built in the background into a ZIP archive stored in GridFS, which the
+ * user downloads from /api/users/me/export/:id/download once the export has completed
+ */
+
+import { Types, Document } from 'mongoose'; // mongoose version ^7.0.3
+
+/**
+ * Enum defining the states of a data export
+ */
+export enum ExportStatus {
+  PENDING = 'pending',
+  PROCESSING = 'processing',
+  COMPLETED = 'completed',
+  FAILED = 'failed'
+}
+
+/**
+ * Base interface for a data export
+ */
+export interface DataExport {
+  userId: Types.ObjectId;
+  status: ExportStatus;
+  fileId?: Types.ObjectId; // GridFS ID of the archive, once completed
+  size?: number; // Size of the archive in bytes
+  error?: string; // Reason the export failed
+  completedAt?: Date;
+  expiresAt: Date; // The archive can no longer be downloaded after this time
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Interface for data export document with Mongoose document features
+ */
+export interface DataExportDocument extends DataExport, Document {
+  _id: Types.ObjectId;
+}
+
+/**
+ * Interface for data export status returned in API responses
+ */
+export interface DataExportResponse {
+  id: string;
+  status: ExportStatus;
+  size?: number;
+  error?: string;
+  createdAt: string; // ISO date string format
+  completedAt?: string; // ISO date string format
+  expiresAt: string; // ISO date string format
+  downloadUrl?: string; // Set once the archive is ready
+}
@@ -80,6 +80,8 @@ export interface FileRetrievalOptions {
   thumbnail: boolean;
   width: number;
   height: number;
+  start?: number; // First byte to stream (inclusive)
+  end?: number; // Last byte to stream (inclusive)
 }
 
 /**
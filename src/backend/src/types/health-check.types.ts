@@ -0,0 +1,77 @@
+/**
+ * TypeScript type definitions for the liveness and readiness probes
+ * Readiness reports are served from /health/ready and /health, and read by
+ * scripts/monitoring/health-check.js
+ */
+
+/**
+ * Overall state of the service reported by the readiness probe
+ */
+export enum ServiceStatus {
+  OK = 'ok',
+  DEGRADED = 'degraded',
+  UNAVAILABLE = 'unavailable'
+}
+
+/**
+ * State of a dependency checked by the readiness probe
+ */
+export enum DependencyStatus {
+  CONNECTED = 'connected',
+  DISCONNECTED = 'disconnected',
+  AVAILABLE = 'available',
+  DEGRADED = 'degraded',
+  UNAVAILABLE = 'unavailable'
+}
+
+/**
+ * Interface for the result of checking the MongoDB connection
+ */
+export interface DatabaseHealth {
+  status: DependencyStatus.CONNECTED | DependencyStatus.DISCONNECTED;
+  readyState: string;
+  responseTime?: number;
+  details?: string;
+}
+
+/**
+ * Interface for the result of a GridFS write, read and delete round-trip
+ */
+export interface StorageHealth {
+  status: DependencyStatus.AVAILABLE | DependencyStatus.UNAVAILABLE;
+  responseTime?: number;
+  details?: string;
+}
+
+/**
+ * Interface for the result of checking the LLM provider, cached between probes
+ */
+export interface LLMHealth {
+  status: DependencyStatus.AVAILABLE | DependencyStatus.DEGRADED | DependencyStatus.UNAVAILABLE;
+  provider: string;
+  responseTime?: number;
+  checkedAt: string;
+  lastFallbackAt?: string;
+  details?: string;
+}
+
+/**
+ * Interface for the liveness probe response
+ */
+export interface LivenessReport {
+  status: ServiceStatus.OK;
+  uptime: number;
+  timestamp: string;
+}
+
+/**
+ * Interface for the readiness probe response
+ */
+export interface ReadinessReport {
+  status: ServiceStatus;
+  uptime: number;
+  timestamp: string;
+  database: DatabaseHealth;
+  storage: StorageHealth;
+  llm: LLMHealth;
+}
@@ -42,6 +42,103 @@ export enum MealType {
   SNACK = 'snack'
 }
 
+/**
+ * Enum defining the states of the server-side transcription of a symptom voice note
+ */
+export enum TranscriptionStatus {
+  PENDING = 'pending',
+  COMPLETED = 'completed',
+  FAILED = 'failed'
+}
+
+/**
+ * Enum defining the speech-to-text engines that can transcribe voice notes
+ */
+export enum TranscriptionEngineType {
+  WHISPER_CPP = 'whispercpp',
+  STUB = 'stub'
+}
+
+/**
+ * Interface for a speech-to-text engine
+ */
+export interface TranscriptionEngine {
+  /** Engine type, recorded with each transcription */
+  readonly type: TranscriptionEngineType;
+  
+  /**
+   * Transcribes a recording
+   * @param audio - Recorded audio
+   * @param mimetype - MIME type of the recording, e.g. audio/mp4
+   * @returns The transcript, empty if no speech was recognised
+   */
+  transcribe(audio: Buffer, mimetype: string): Promise<string>;
+}
+
+/**
+ * Enum defining the providers that can compute embeddings of health records
+ */
+export enum EmbeddingProviderType {
+  HASHING = 'hashing',
+  OPENAI = 'openai',
+  OLLAMA = 'ollama',
+  LLAMA_CPP = 'llamacpp'
+}
+
+/**
+ * Interface for the settings of an embedding provider that is reached over HTTP
+ */
+export interface EmbeddingProviderSettings {
+  /** Full URL of the embeddings endpoint */
+  url: string;
+  
+  /** API key, if the endpoint requires one */
+  apiKey: string;
+  
+  /** Model to compute embeddings with */
+  model: string;
+  
+  /** Request timeout in milliseconds */
+  timeout: number;
+}
+
+/**
+ * Interface for a provider of embeddings, vectors whose cosine similarity reflects how
+ * alike two texts are in meaning
+ */
+export interface EmbeddingProvider {
+  /** Provider type, stored with each embedding */
+  readonly type: EmbeddingProviderType;
+  
+  /** Model the embeddings are computed with; embeddings of different models can't be compared */
+  readonly model: string;
+  
+  /**
+   * Computes the embeddings of texts
+   * @param texts - Texts to embed
+   * @returns One vector per text, in the order of the texts
+   */
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+/**
+ * Interface for the embedding of a health record, as used to find the records relevant
+ * to a message
+ */
+export interface HealthDataEmbedding {
+  /** Record the embedding was computed from */
+  healthDataId: Types.ObjectId;
+  
+  /** Type of the record */
+  type: HealthDataType;
+  
+  /** When the record was recorded, used to weigh recent records higher */
+  timestamp: Date;
+  
+  /** The embedding */
+  vector: number[];
+}
+
 /**
  * Interface for metadata associated with health data entries
  */
@@ -74,6 +171,38 @@ export interface MealData {
   imageUrl: string;
 }
 
+/**
+ * Interface for a single measured value (analyte) in a lab result
+ */
+export interface LabAnalyte {
+  /** Display name of the analyte (e.g., "Glucose") */
+  name: string;
+  
+  /** Stable identifier used to track the analyte across lab results (e.g., "glucose") */
+  key: string;
+  
+  /** Measured value, in `unit` */
+  value: number;
+  
+  /** Unit of the value (e.g., "mg/dL"), the canonical unit for known analytes */
+  unit: string;
+  
+  /** Lower bound of the reference range, in `unit` */
+  referenceLow?: number;
+  
+  /** Upper bound of the reference range, in `unit` */
+  referenceHigh?: number;
+  
+  /** Whether the value falls outside the reference range */
+  outOfRange: boolean;
+  
+  /** Value as entered, when it was converted to the canonical unit */
+  originalValue?: number;
+  
+  /** Unit as entered, when the value was converted to the canonical unit */
+  originalUnit?: string;
+}
+
 /**
  * Interface for lab result-specific health data
  */
@@ -84,9 +213,15 @@ export interface LabResultData {
   /** Date when the lab test was conducted */
   testDate: Date;
   
-  /** Key-value pairs of test results */
+  /** Free-form key-value pairs of test results, kept for entries without structured analytes */
   results: Record<string, any>;
   
+  /** Structured analyte values with units and reference ranges */
+  analytes?: LabAnalyte[];
+  
+  /** Details of the last OCR extraction run on the lab result photo */
+  extraction?: LabResultExtraction;
+  
   /** Additional notes about the lab results */
   notes: string;
   
@@ -94,6 +229,72 @@ export interface LabResultData {
   imageUrl: string;
 }
 
+/**
+ * Interface for an analyte read from a lab report photo, before the user confirms it
+ */
+export interface ExtractedLabAnalyte {
+  /** Analyte name as read from the report */
+  name: string;
+  
+  /** Value as read from the report */
+  value: number;
+  
+  /** Unit as read from the report, if one was found */
+  unit?: string;
+  
+  /** Lower bound of the reference range, if one was found */
+  referenceLow?: number;
+  
+  /** Upper bound of the reference range, if one was found */
+  referenceHigh?: number;
+  
+  /** OCR confidence for the line the analyte was read from, between 0 and 1 */
+  confidence: number;
+  
+  /** Text of the line the analyte was read from */
+  line: string;
+}
+
+/**
+ * Interface for the details of an OCR extraction stored on a lab result
+ */
+export interface LabResultExtraction {
+  /** OCR engine used (e.g., "tesseract") */
+  engine: string;
+  
+  /** ID of the image the text was read from */
+  fileId: string;
+  
+  /** OCR confidence for the whole image, between 0 and 1 */
+  confidence: number;
+  
+  /** Number of analytes found */
+  analyteCount: number;
+  
+  /** When the extraction ran */
+  extractedAt: Date;
+}
+
+/**
+ * Interface for the draft returned to the client after extracting a lab report photo
+ */
+export interface LabResultDraft {
+  /** ID of the lab result the photo belongs to */
+  healthDataId: string;
+  
+  /** ID of the image the text was read from */
+  fileId: string;
+  
+  /** OCR confidence for the whole image, between 0 and 1 */
+  confidence: number;
+  
+  /** Full text read from the image */
+  text: string;
+  
+  /** Analytes found, in the order they appear on the report */
+  analytes: ExtractedLabAnalyte[];
+}
+
 /**
  * Interface for symptom-specific health data
  */
@@ -112,6 +313,15 @@ export interface SymptomData {
   
   /** Transcription of the voice recording */
   transcription: string;
+  
+  /** State of the server-side transcription of the recording, if one was uploaded */
+  transcriptionStatus?: TranscriptionStatus;
+  
+  /** Engine that produced the server-side transcription */
+  transcriptionEngine?: TranscriptionEngineType;
+  
+  /** When the server-side transcription finished */
+  transcribedAt?: Date;
 }
 
 /**
@@ -154,6 +364,31 @@ export interface CreateHealthDataRequest {
   metadata: HealthDataMetadata;
 }
 
+/**
+ * Interface for an excerpt of a health data field that matched a text search
+ */
+export interface SearchSnippet {
+  /** Field the excerpt was taken from, e.g. description or tags */
+  field: string;
+  
+  /** Excerpt of the field around the matches, with an ellipsis where it was cut */
+  text: string;
+  
+  /** Character ranges of the matched words and phrases within the excerpt */
+  highlights: { start: number; end: number }[];
+}
+
+/**
+ * Interface for how a health data record matched a text search
+ */
+export interface SearchMatch {
+  /** Relevance of the record to the search, higher is more relevant */
+  score: number;
+  
+  /** Excerpts showing why the record matched, most important field first */
+  snippets: SearchSnippet[];
+}
+
 /**
  * Interface for health data response payload returned to clients
  */
@@ -178,21 +413,18 @@ export interface HealthDataResponse {
   
   /** Metadata associated with this health data */
   metadata: HealthDataMetadata;
+  
+  /** How the record matched the search, only present on search results */
+  search?: SearchMatch;
 }
 
 /**
  * Interface for health data retrieval request with filtering and pagination options
  */
-export interface GetHealthDataRequest {
-  /** Filter by date (ISO string format) */
+export interface GetHealthDataRequest extends HealthDataFilters {
+  /** Filter by a single day (ISO string format), cannot be combined with startDate/endDate */
   date?: string;
   
-  /** Filter by health data type */
-  type?: HealthDataType;
-  
-  /** Search term to filter health data */
-  search?: string;
-  
   /** Page number for pagination */
   page?: number;
   
@@ -200,6 +432,36 @@ export interface GetHealthDataRequest {
   limit?: number;
 }
 
+/**
+ * Interface for filters on a user's health data. Every filter given must match; within
+ * a filter that takes several values, matching any of them is enough.
+ */
+export interface HealthDataFilters {
+  /** Only include entries recorded on or after this date */
+  startDate?: Date;
+  
+  /** Only include entries recorded on or before this date */
+  endDate?: Date;
+  
+  /** Only include entries of these types */
+  types?: HealthDataType[];
+  
+  /** Only include entries with at least one of these tags */
+  tags?: string[];
+  
+  /** Only include symptoms of these severities */
+  severity?: SymptomSeverity[];
+  
+  /** Only include meals of these types */
+  mealType?: MealType[];
+  
+  /**
+   * Full-text search over descriptions, test types, notes, transcriptions and tags. Words are
+   * matched by their stem, "quoted phrases" must appear as written and -words exclude records.
+   */
+  search?: string;
+}
+
 /**
  * Interface for paginated health data response
  */
@@ -218,12 +480,155 @@ export interface GetHealthDataResponse {
  * Interface for health context data used in LLM interactions
  */
 export interface HealthContext {
-  /** Recent meal entries to provide context for LLM */
+  /** Meal entries to provide context for LLM, newest or most relevant first */
   recentMeals: HealthDataResponse[];
   
-  /** Recent lab result entries to provide context for LLM */
+  /** Lab result entries to provide context for LLM, newest or most relevant first */
   recentLabResults: HealthDataResponse[];
   
-  /** Recent symptom entries to provide context for LLM */
+  /** Symptom entries to provide context for LLM, newest or most relevant first */
   recentSymptoms: HealthDataResponse[];
-}
\ No newline at end of file
+}
+
+/**
+ * Interface for health insights request with an optional date range
+ */
+export interface HealthInsightsRequest {
+  /** Start of the date range (inclusive), defaults to 30 days before the end date */
+  startDate?: Date;
+  
+  /** End of the date range (inclusive), defaults to now */
+  endDate?: Date;
+  
+  /** IANA time zone used to group entries into days and weeks, defaults to UTC */
+  timezone?: string;
+}
+
+/**
+ * Interface for the number of meals logged on a single day
+ */
+export interface MealsPerDayInsight {
+  /** Day in YYYY-MM-DD format */
+  date: string;
+  
+  /** Number of meals logged per meal type */
+  counts: Record<MealType, number>;
+  
+  /** Total number of meals logged on the day */
+  total: number;
+}
+
+/**
+ * Interface for symptom frequency and severity during a single week
+ */
+export interface SymptomWeekInsight {
+  /** Monday of the week in YYYY-MM-DD format */
+  weekStart: string;
+  
+  /** Number of symptoms logged during the week */
+  count: number;
+  
+  /** Number of symptoms logged per severity */
+  severityCounts: Record<SymptomSeverity, number>;
+  
+  /** Average severity from 1 (mild) to 3 (severe), or null if no symptoms were logged */
+  averageSeverity: number | null;
+}
+
+/**
+ * Interface for the history of a single lab test type
+ */
+export interface LabTestHistoryInsight {
+  /** Type of lab test */
+  testType: string;
+  
+  /** Number of tests of this type */
+  count: number;
+  
+  /** Tests of this type, oldest first */
+  entries: {
+    id: string;
+    testDate: string;
+    results: Record<string, any>;
+  }[];
+}
+
+/**
+ * Interface for aggregated health insights over a date range
+ */
+export interface HealthInsights {
+  /** Start of the date range (ISO string format) */
+  startDate: string;
+  
+  /** End of the date range (ISO string format) */
+  endDate: string;
+  
+  /** Time zone used to group entries into days and weeks */
+  timezone: string;
+  
+  /** Meals per day by meal type, one entry for every day in the range */
+  mealsPerDay: MealsPerDayInsight[];
+  
+  /** Symptom frequency and severity, one entry for every week in the range */
+  symptomTrend: SymptomWeekInsight[];
+  
+  /** Lab test history grouped by test type */
+  labTestHistory: LabTestHistoryInsight[];
+}
+
+/**
+ * Interface for analyte history query parameters
+ */
+export interface AnalyteHistoryRequest {
+  /** Start of the lab test date range, defaults to the first result */
+  startDate?: Date;
+  
+  /** End of the lab test date range, defaults to now */
+  endDate?: Date;
+}
+
+/**
+ * Interface for a single measurement in an analyte's history
+ */
+export interface AnalyteHistoryEntry {
+  /** ID of the lab result the measurement belongs to */
+  healthDataId: string;
+  
+  /** Date of the lab test as an ISO string */
+  testDate: string;
+  
+  /** Type of lab test the measurement was part of */
+  testType: string;
+  
+  /** Measured value */
+  value: number;
+  
+  /** Unit of the value */
+  unit: string;
+  
+  /** Lower bound of the reference range, if recorded */
+  referenceLow?: number;
+  
+  /** Upper bound of the reference range, if recorded */
+  referenceHigh?: number;
+  
+  /** Whether the value fell outside the reference range */
+  outOfRange: boolean;
+}
+
+/**
+ * Interface for the history of a single analyte across lab results
+ */
+export interface AnalyteHistory {
+  /** Identifier of the analyte */
+  key: string;
+  
+  /** Display name of the analyte */
+  name: string;
+  
+  /** Canonical unit for known analytes, null when measurements may use different units */
+  unit: string | null;
+  
+  /** Measurements in chronological order */
+  entries: AnalyteHistoryEntry[];
+}
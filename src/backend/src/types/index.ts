@@ -6,6 +6,7 @@
 
 import { Types } from 'mongoose'; // ^7.0.3
 import * as AuthTypes from './auth.types';
+import { LLMToolCall } from './chat.types';
 import * as FileTypes from './file.types';
 import * as HealthTypes from './health.types';
 import * as UserTypes from './user.types';
@@ -15,6 +16,12 @@ import * as UserTypes from './user.types';
  */
 export type ObjectId = Types.ObjectId;
 
+// Re-export account deletion types
+export * from './account-deletion.types';
+
+// Re-export audit log types
+export * from './audit.types';
+
 // Re-export auth types
 export * from './auth.types';
 
@@ -25,7 +32,9 @@ export * from './auth.types';
 export enum ChatRole {
   USER = 'user',
   ASSISTANT = 'assistant',
-  SYSTEM = 'system'
+  SYSTEM = 'system',
+  // Results of tool calls, only sent to the LLM and never stored as chat messages
+  TOOL = 'tool'
 }
 
 /**
@@ -61,6 +70,12 @@ export interface ChatConversation {
 export interface LLMMessage {
   role: ChatRole;
   content: string;
+  /** Tools the assistant called in this message */
+  toolCalls?: LLMToolCall[];
+  /** For tool messages, the ID of the call this message is the result of */
+  toolCallId?: string;
+  /** For tool messages, the name of the tool that was called */
+  name?: string;
 }
 
 /**
@@ -96,6 +111,45 @@ export interface SendMessageResponse {
   conversationId: string;
 }
 
+/**
+ * Callback invoked with each chunk of assistant text while an LLM response is streamed
+ */
+export type LLMStreamHandler = (delta: string) => void;
+
+/**
+ * Interface for the final result of a streamed message exchange
+ */
+export interface StreamMessageResponse extends SendMessageResponse {
+  messageId: string;
+  metadata?: Record<string, any>;
+}
+
+/**
+ * LLM provider adapter types, shared with config/llm so the enum has a single identity
+ */
+export {
+  LLMProviderType,
+  LLMTokenUsage,
+  LLMProviderSettings,
+  LLMProviderRequest,
+  LLMHealthCheckRequest,
+  LLMProviderResult,
+  LLMStreamChunk,
+  LLMStreamParser,
+  LLMProvider,
+  LLMRequestOptions,
+  LLMJsonValue,
+  LLMJsonObject,
+  LLMToolDefinition,
+  LLMTool,
+  SearchHealthRecordsToolResult,
+  LabTrendToolResult,
+  SymptomTimelineToolResult,
+  MealSummaryToolResult,
+  LLMToolCall,
+  LLMToolInvocation
+} from './chat.types';
+
 /**
  * Interface for client request to retrieve chat history with pagination
  */
@@ -141,12 +195,27 @@ export enum ChatErrorType {
   UNAUTHORIZED_ACCESS = 'Unauthorized access to conversation'
 }
 
+// Re-export health data encryption types
+export * from './encryption.types';
+
+// Re-export data export types
+export * from './export.types';
+
 // Re-export file types
 export * from './file.types';
 
 // Re-export health data types
 export * from './health.types';
 
+// Re-export liveness and readiness probe types
+export * from './health-check.types';
+
+// Re-export mail types
+export * from './mail.types';
+
+// Re-export mobile metrics types
+export * from './metrics.types';
+
 // Re-export user types
 export * from './user.types';
 
@@ -0,0 +1,41 @@
+/**
+ * TypeScript type definitions for outgoing email
+ * Emails such as password reset links are sent through a mail transport chosen by
+ * EMAIL_TRANSPORT, so development can write them to the console or to files instead
+ * of a mail server
+ */
+
+/**
+ * Enum defining the transports that can deliver outgoing email
+ */
+export enum MailTransportType {
+  CONSOLE = 'console',
+  FILE = 'file',
+  SMTP = 'smtp'
+}
+
+/**
+ * Interface for an outgoing email
+ */
+export interface MailMessage {
+  from: string;
+  to: string;
+  subject: string;
+  text: string; // Plain text body
+  html?: string; // Optional HTML alternative of the body
+}
+
+/**
+ * Interface for a mail transport
+ */
+export interface MailTransport {
+  /** Transport type, logged with each email sent */
+  readonly type: MailTransportType;
+  
+  /**
+   * Delivers an email
+   * @param message - Email to deliver
+   * @returns Promise resolving once the email has been handed over
+   */
+  send(message: MailMessage): Promise<void>;
+}
@@ -0,0 +1,44 @@
+/**
+ * TypeScript type definitions for metrics reported by the mobile app
+ * Clients send timing beacons to /api/mobile-metrics, which are recorded as Prometheus metrics
+ * and scraped from the same path
+ */
+
+/**
+ * Enum defining the kinds of timing beacon the mobile app reports
+ */
+export enum MobileBeaconType {
+  APP_LAUNCH = 'app_launch',
+  SCREEN_LOAD = 'screen_load',
+  API_REQUEST = 'api_request',
+  SESSION = 'session'
+}
+
+/**
+ * Enum defining the platforms the mobile app reports from
+ */
+export enum MobilePlatform {
+  IOS = 'ios',
+  ANDROID = 'android',
+  WEB = 'web'
+}
+
+/**
+ * Interface for a single timing beacon sent by the mobile app
+ */
+export interface MobileMetricBeacon {
+  type: MobileBeaconType;
+  durationMs: number;
+  os?: MobilePlatform;
+  appVersion?: string;
+  screen?: string;
+  endpoint?: string;
+  success?: boolean;
+}
+
+/**
+ * Interface for a batch of timing beacons sent by the mobile app
+ */
+export interface MobileMetricsRequest {
+  beacons: MobileMetricBeacon[];
+}
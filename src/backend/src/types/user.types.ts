@@ -1,4 +1,5 @@
 import { Types, Document } from 'mongoose'; // mongoose version ^7.0.3
+import { LoginLockoutState } from './auth.types';
 
 /**
  * Enum defining possible user roles for authorization purposes
@@ -8,13 +9,53 @@ export enum UserRole {
   ADMIN = 'admin'
 }
 
+/**
+ * Enum defining the sex a user can record in their health profile
+ */
+export enum Sex {
+  FEMALE = 'female',
+  MALE = 'male',
+  INTERSEX = 'intersex',
+  PREFER_NOT_TO_SAY = 'prefer_not_to_say'
+}
+
+/**
+ * Enum defining the units a user prefers measurements to be shown in
+ */
+export enum UnitsPreference {
+  METRIC = 'metric',
+  IMPERIAL = 'imperial'
+}
+
+/**
+ * Interface for the health demographics a user can add to their profile
+ * Height and weight are always stored in metric units, whatever the units preference
+ */
+export interface UserHealthProfile {
+  displayName?: string;
+  dateOfBirth?: Date;
+  sex?: Sex;
+  heightCm?: number;
+  weightKg?: number;
+  conditions: string[]; // Known medical conditions
+  allergies: string[];
+  medications: string[];
+  dietaryPreferences: string[]; // e.g. vegetarian, low sodium
+  unitsPreference: UnitsPreference;
+}
+
 /**
  * Base interface for user data structure
  */
-export interface User {
+export interface User extends UserHealthProfile, LoginLockoutState {
   email: string;
   password: string; // Hashed password, not plaintext
   role: UserRole;
+  twoFactorEnabled: boolean;
+  twoFactorSecret?: string; // Encrypted authenticator secret, set when enrollment starts
+  twoFactorRecoveryCodes: string[]; // SHA-256 hashes of the unused recovery codes
+  twoFactorLastUsedStep?: number; // Time step of the last accepted code, which can't be reused
+  passwordChangedAt?: Date; // Tokens issued before the last password change are no longer accepted
   createdAt: Date;
   updatedAt: Date;
 }
@@ -49,6 +90,34 @@ export interface UserProfileResponse {
   id: string; // String representation of ObjectId
   email: string;
   createdAt: string; // ISO date string format
+  displayName?: string;
+  dateOfBirth?: string; // Date only, YYYY-MM-DD
+  sex?: Sex;
+  heightCm?: number;
+  weightKg?: number;
+  conditions: string[];
+  allergies: string[];
+  medications: string[];
+  dietaryPreferences: string[];
+  unitsPreference: UnitsPreference;
+  twoFactorEnabled: boolean;
+}
+
+/**
+ * Interface for a user profile update request
+ * Omitted fields are left unchanged; null clears a field
+ */
+export interface UpdateUserProfileRequest {
+  displayName?: string | null;
+  dateOfBirth?: Date | null;
+  sex?: Sex | null;
+  heightCm?: number | null;
+  weightKg?: number | null;
+  conditions?: string[];
+  allergies?: string[];
+  medications?: string[];
+  dietaryPreferences?: string[];
+  unitsPreference?: UnitsPreference;
 }
 
 /**
@@ -0,0 +1,92 @@
+/**
+ * Audit Log Utility Module
+ *
+ * Helpers for recording audit log entries: who performed a request, and which fields of a
+ * health record an update changed.
+ *
+ * @module utils/audit
+ */
+
+import { AuthenticatedRequest } from '../types/auth.types';
+import { AuditContext, AuditFieldChange } from '../types/audit.types';
+import { HealthData } from '../types/health.types';
+import { PLAINTEXT_DATA_FIELDS, PLAINTEXT_METADATA_FIELDS } from './health-encryption.util';
+
+// Longest user agent kept, as clients control its length
+const MAX_USER_AGENT_LENGTH = 500;
+
+/**
+ * Takes who performed a request, and from where, from an authenticated request
+ *
+ * @param req - Authenticated request
+ * @returns The ID of the authenticated user, the client IP address and user agent
+ */
+export function getAuditContext(req: AuthenticatedRequest): AuditContext {
+  return {
+    actorId: req.user.id,
+    ip: req.ip,
+    userAgent: req.get('user-agent')?.slice(0, MAX_USER_AGENT_LENGTH)
+  };
+}
+
+/**
+ * Compares two values as they would be stored
+ *
+ * @param a - First value
+ * @param b - Second value
+ * @returns Whether the values are equal
+ */
+function isEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Lists the fields of an object that differ from another
+ *
+ * @param prefix - Path of the objects, prepended to the field names
+ * @param before - Object before the update
+ * @param after - Object after the update
+ * @param valueFields - Fields whose values are recorded, as they aren't sensitive
+ * @returns The changed fields
+ */
+function diffFields(
+  prefix: string,
+  before: object | undefined,
+  after: object | undefined,
+  valueFields: string[]
+): AuditFieldChange[] {
+  const previous = (before || {}) as Record<string, unknown>;
+  const next = (after || {}) as Record<string, unknown>;
+  const fields = Array.from(new Set([...Object.keys(previous), ...Object.keys(next)])).sort();
+
+  return fields
+    .filter((field) => !isEqual(previous[field], next[field]))
+    .map((field) => (valueFields.includes(field)
+      ? { field: `${prefix}${field}`, before: previous[field], after: next[field] }
+      : { field: `${prefix}${field}` }));
+}
+
+/**
+ * Lists the fields of a health record changed by an update
+ *
+ * Fields of data and metadata are compared one level deep, so a changed analyte is
+ * reported as a change of data.analytes. Values are only included for fields that are
+ * stored in plaintext, so the audit log doesn't copy encrypted content.
+ *
+ * @param before - The record before the update
+ * @param after - The record after the update
+ * @returns The changed fields, in a stable order
+ */
+export function diffHealthData(before: HealthData, after: HealthData): AuditFieldChange[] {
+  const topLevelFields = (healthData: HealthData): Record<string, unknown> => ({
+    type: healthData.type,
+    timestamp: healthData.timestamp,
+    fileIds: (healthData.fileIds || []).map((fileId) => fileId.toString())
+  });
+
+  return [
+    ...diffFields('', topLevelFields(before), topLevelFields(after), ['type', 'timestamp', 'fileIds']),
+    ...diffFields('data.', before.data, after.data, PLAINTEXT_DATA_FIELDS),
+    ...diffFields('metadata.', before.metadata, after.metadata, PLAINTEXT_METADATA_FIELDS)
+  ];
+}
@@ -0,0 +1,90 @@
+/**
+ * Conversation Summary Utility Module
+ *
+ * Helpers for the rolling summary of a conversation: choosing which messages have become
+ * too old to be sent to the LLM in full, and the prompt asking the LLM to fold them into
+ * the summary of the messages before them.
+ *
+ * @module utils/conversation-summary
+ */
+
+import { ChatMessage, ChatRole, LLMMessage } from '../types/chat.types';
+import { estimateMessageTokens } from './token.util';
+
+const SUMMARY_INSTRUCTIONS = `You keep a running summary of a conversation between a user and a health advisor.
+Update the current summary with the new messages and reply with the updated summary only, in at most 200 words.
+Keep what the user shared about their health, such as symptoms, conditions, medications, measurements and goals,
+the advice they were given and questions still open. Leave out small talk. Write in the language of the user.`;
+
+/**
+ * Builds the prompt asking to fold new messages into the summary of a conversation
+ *
+ * @param summary - Current summary of the conversation, empty if there is none yet
+ * @param messages - Messages to add to the summary, oldest first
+ * @returns Messages to send to the LLM
+ */
+export function buildSummaryPrompt(summary: string, messages: ChatMessage[]): LLMMessage[] {
+  const transcript = messages
+    .filter((message) => message.role !== ChatRole.SYSTEM)
+    .map((message) => `${message.role === ChatRole.USER ? 'User' : 'Advisor'}: ${message.content.trim()}`)
+    .join('\n');
+
+  return [
+    { role: ChatRole.SYSTEM, content: SUMMARY_INSTRUCTIONS },
+    {
+      role: ChatRole.USER,
+      content: `Current summary:\n${summary || '(none yet)'}\n\nNew messages:\n${transcript}`
+    }
+  ];
+}
+
+/**
+ * Chooses the messages to fold into the summary of a conversation
+ *
+ * Nothing is summarized while the messages not yet summarized fit within the budget. Once
+ * they do not, the oldest are summarized until the rest take up at most half of it, so a
+ * summary is not updated after every response.
+ *
+ * @param messages - Messages not yet summarized, oldest first
+ * @param maxTokens - Tokens the messages not yet summarized may take up
+ * @returns The oldest messages to summarize, possibly none
+ */
+export function selectMessagesToSummarize(messages: ChatMessage[], maxTokens: number): ChatMessage[] {
+  const tokens = messages.map((message) => estimateMessageTokens(message));
+  let remaining = tokens.reduce((total, count) => total + count, 0);
+
+  if (remaining <= maxTokens) {
+    return [];
+  }
+
+  // The newest message is always kept, however long it is
+  let count = 0;
+  while (count < messages.length - 1 && remaining > maxTokens / 2) {
+    remaining -= tokens[count];
+    count++;
+  }
+
+  return messages.slice(0, count);
+}
+
+/**
+ * Takes the oldest messages that can be summarized in one request
+ *
+ * @param messages - Messages to summarize, oldest first
+ * @param maxTokens - Tokens the messages may take up in the summary prompt
+ * @returns The oldest messages within the budget, and at least one
+ */
+export function selectSummaryBatch(messages: ChatMessage[], maxTokens: number): ChatMessage[] {
+  let used = 0;
+  let count = 0;
+
+  while (count < messages.length) {
+    used += estimateMessageTokens(messages[count]);
+    if (count > 0 && used > maxTokens) {
+      break;
+    }
+    count++;
+  }
+
+  return messages.slice(0, count);
+}
@@ -0,0 +1,106 @@
+/**
+ * Conversation Title Utility Module
+ *
+ * Helpers for titling chat conversations: the prompt asking the LLM for a title, cleaning
+ * up the title it returns, and telling when a conversation has moved on from its title.
+ *
+ * @module utils/conversation-title
+ */
+
+import { ChatMessage, ChatRole, LLMMessage } from '../types/chat.types';
+import { tokenizeSearchText } from './search.util';
+
+/** Longest generated title kept, well below the 100 characters users may enter */
+export const MAX_GENERATED_TITLE_LENGTH = 60;
+
+/** Number of new messages after which a generated title is checked against the conversation */
+export const TITLE_REFRESH_MESSAGES = 6;
+
+/** Number of recent messages a title is generated from, and checked against */
+export const TITLE_CONTEXT_MESSAGES = 6;
+
+// Share of a title's words that recent user messages must still mention for the title to fit
+const MIN_TOPIC_OVERLAP = 0.2;
+
+// Characters of each message included in the title prompt
+const MAX_PROMPT_MESSAGE_LENGTH = 500;
+
+const TITLE_INSTRUCTIONS = `You write titles for conversations between a user and a health advisor.
+Reply with a title of 3 to 6 words describing what the conversation is about, and nothing else.
+Do not use quotes, a trailing full stop or the word "conversation". Write in the language of the user.`;
+
+/**
+ * Builds the prompt asking for the title of a conversation
+ *
+ * @param messages - Messages to title the conversation after, oldest first
+ * @returns Messages to send to the LLM
+ */
+export function buildTitlePrompt(messages: ChatMessage[]): LLMMessage[] {
+  const transcript = messages
+    .filter((message) => message.role !== ChatRole.SYSTEM)
+    .map((message) => {
+      const speaker = message.role === ChatRole.USER ? 'User' : 'Advisor';
+      const content = message.content.replace(/\s+/g, ' ').trim();
+      return `${speaker}: ${content.substring(0, MAX_PROMPT_MESSAGE_LENGTH)}`;
+    })
+    .join('\n');
+
+  return [
+    { role: ChatRole.SYSTEM, content: TITLE_INSTRUCTIONS },
+    { role: ChatRole.USER, content: transcript }
+  ];
+}
+
+/**
+ * Cleans up a title returned by the LLM, which may be quoted, prefixed or run on
+ *
+ * @param text - Text returned by the LLM
+ * @returns The title, or null if nothing usable was returned
+ */
+export function normalizeGeneratedTitle(text: string): string | null {
+  const firstLine = text.trim().split('\n')[0] || '';
+
+  let title = firstLine
+    .replace(/^(conversation\s+)?title\s*:\s*/i, '')
+    .replace(/^["'“”‘’*#\s]+|["'“”‘’*\s]+$/g, '')
+    .replace(/\s+/g, ' ')
+    .replace(/[.,;:!\s]+$/, '')
+    .trim();
+
+  if (title.length > MAX_GENERATED_TITLE_LENGTH) {
+    const cut = title.substring(0, MAX_GENERATED_TITLE_LENGTH);
+    const lastSpace = cut.lastIndexOf(' ');
+    title = (lastSpace > 0 ? cut.substring(0, lastSpace) : cut).replace(/[.,;:!\s]+$/, '');
+  }
+
+  return title || null;
+}
+
+/**
+ * Tells whether recent user messages have moved on from what a title describes
+ *
+ * Compares the word stems of the title with those of the messages, so a conversation about
+ * "Iron levels and fatigue" still fits its title while the user asks about feeling tired
+ * and their iron, but no longer once only sleep schedules are discussed.
+ *
+ * @param title - Current title of the conversation
+ * @param messages - Recent messages of the conversation
+ * @returns Whether the title no longer describes the conversation
+ */
+export function hasTopicDrifted(title: string, messages: ChatMessage[]): boolean {
+  const titleStems = tokenizeSearchText(title);
+  const userText = messages
+    .filter((message) => message.role === ChatRole.USER)
+    .map((message) => message.content)
+    .join(' ');
+
+  // Nothing to compare, e.g. a title of common words only or no recent user messages
+  if (titleStems.length === 0 || !userText) {
+    return false;
+  }
+
+  const recentStems = new Set(tokenizeSearchText(userText));
+  const mentioned = titleStems.filter((stem) => recentStems.has(stem)).length;
+
+  return mentioned / titleStems.length < MIN_TOPIC_OVERLAP;
+}
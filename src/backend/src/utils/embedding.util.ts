@@ -0,0 +1,156 @@
+/**
+ * Embedding Utility Module
+ *
+ * Helpers for finding the health records relevant to a message by their embeddings: the
+ * text a record is embedded as, how stored vectors are packed, and how records are ranked
+ * by their similarity to a message, weighted towards recent records.
+ *
+ * @module utils/embedding
+ */
+
+import {
+  HealthData,
+  HealthDataType,
+  LabResultData,
+  MealData,
+  SymptomData
+} from '../types/health.types';
+import { formatLabAnalytes } from './lab-units.util';
+
+// Share of its relevance that even the oldest record keeps, so that e.g. a question about
+// last year's cholesterol still finds last year's lab results
+const RECENCY_FLOOR = 0.5;
+
+const DAY_IN_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * A candidate ranked by its relevance to a message
+ */
+export interface RankedCandidate<T> {
+  candidate: T;
+
+  /** Similarity to the message weighted by recency, higher is more relevant */
+  score: number;
+}
+
+/**
+ * Builds the text a health record is embedded as
+ *
+ * @param healthData - Record with its fields in plaintext
+ * @returns The type, date and descriptive fields of the record as a single text
+ */
+export function buildHealthDataEmbeddingText(healthData: HealthData): string {
+  const date = new Date(healthData.timestamp).toISOString().slice(0, 10);
+  const tags = healthData.metadata?.tags?.length ? ` Tags: ${healthData.metadata.tags.join(', ')}.` : '';
+
+  switch (healthData.type) {
+    case HealthDataType.MEAL: {
+      const meal = healthData.data as MealData;
+      return `Meal (${meal.mealType}) on ${date}: ${meal.description}.${tags}`;
+    }
+    case HealthDataType.LAB_RESULT: {
+      const lab = healthData.data as LabResultData;
+      const results = lab.analytes?.length
+        ? formatLabAnalytes(lab.analytes)
+        : Object.entries(lab.results || {}).map(([name, value]) => `${name} ${String(value)}`).join(', ');
+      const notes = lab.notes ? ` Notes: ${lab.notes}.` : '';
+      return `Lab result ${lab.testType} on ${date}: ${results}.${notes}${tags}`;
+    }
+    case HealthDataType.SYMPTOM: {
+      const symptom = healthData.data as SymptomData;
+      const duration = symptom.duration ? `, lasting ${symptom.duration}` : '';
+      const transcription = symptom.transcription ? ` ${symptom.transcription}` : '';
+      return `Symptom (${symptom.severity}${duration}) on ${date}: ${symptom.description}.${transcription}${tags}`;
+    }
+    default:
+      return `${String(healthData.type)} on ${date}.${tags}`;
+  }
+}
+
+/**
+ * Packs a vector into the compact form it is stored in
+ *
+ * @param vector - Vector to pack
+ * @returns The vector as base64-encoded 32-bit floats
+ */
+export function encodeVector(vector: number[]): string {
+  return Buffer.from(new Float32Array(vector).buffer).toString('base64');
+}
+
+/**
+ * Unpacks a vector packed with encodeVector
+ *
+ * @param encoded - Packed vector
+ * @returns The vector
+ */
+export function decodeVector(encoded: string): number[] {
+  const bytes = Buffer.from(encoded, 'base64');
+  const floats = new Float32Array(bytes.buffer, bytes.byteOffset, bytes.length / Float32Array.BYTES_PER_ELEMENT);
+
+  return Array.from(floats);
+}
+
+/**
+ * Computes the cosine similarity of two vectors
+ *
+ * @param a - First vector
+ * @param b - Second vector
+ * @returns Similarity from -1 to 1, or 0 if the vectors can't be compared
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length || a.length === 0) {
+    return 0;
+  }
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let index = 0; index < a.length; index++) {
+    dot += a[index] * b[index];
+    normA += a[index] * a[index];
+    normB += b[index] * b[index];
+  }
+
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+/**
+ * Computes how much of its relevance a record keeps at its age
+ *
+ * @param timestamp - When the record was recorded
+ * @param now - Current time
+ * @param halfLifeDays - Age in days at which a record is halfway between full weight and the floor
+ * @returns Weight from RECENCY_FLOOR for old records to 1 for current ones
+ */
+export function recencyWeight(timestamp: Date, now: Date, halfLifeDays: number): number {
+  const ageDays = Math.max(0, now.getTime() - new Date(timestamp).getTime()) / DAY_IN_MS;
+
+  return RECENCY_FLOOR + (1 - RECENCY_FLOOR) * Math.pow(0.5, ageDays / halfLifeDays);
+}
+
+/**
+ * Ranks candidates by the similarity of their vectors to a query, weighted by recency
+ *
+ * @param queryVector - Embedding of the query
+ * @param candidates - Candidates with their embeddings and when they were recorded
+ * @param limit - Maximum number of candidates to return
+ * @param halfLifeDays - Half-life of the recency weight in days
+ * @param now - Current time
+ * @returns The most relevant candidates that are at all similar to the query, most relevant first
+ */
+export function rankByRelevance<T extends { vector: number[]; timestamp: Date }>(
+  queryVector: number[],
+  candidates: T[],
+  limit: number,
+  halfLifeDays: number,
+  now: Date = new Date()
+): RankedCandidate<T>[] {
+  return candidates
+    .map((candidate) => ({
+      candidate,
+      score: cosineSimilarity(queryVector, candidate.vector) * recencyWeight(candidate.timestamp, now, halfLifeDays)
+    }))
+    .filter((ranked) => ranked.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
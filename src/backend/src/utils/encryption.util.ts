@@ -3,14 +3,15 @@
  * 
  * This module provides utilities for secure password handling and other cryptographic
  * operations required by the Health Advisor application. It leverages bcrypt for 
- * password hashing and the Node.js crypto module for generating secure random values.
+ * password hashing and the Node.js crypto module for generating secure random values and
+ * for encrypting secrets that have to be read back, such as two-factor authentication keys.
  * 
  * @module utils/encryption
  */
 
 import bcrypt from 'bcrypt'; // ^5.1.0
 import crypto from 'crypto'; // ^1.0.1
-import { IS_PRODUCTION } from '../config/environment';
+import { IS_PRODUCTION, environment } from '../config/environment';
 import { InternalServerError } from './error.util';
 
 // Default salt rounds for password hashing - increased in production environment
@@ -122,4 +123,74 @@ export async function generateSecureToken(byteLength = 32): Promise<string> {
       error instanceof Error ? error : new Error(String(error))
     );
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Computes a SHA-256 digest of a token so it can be stored and looked up without
+ * keeping the token itself
+ * 
+ * Unlike passwords, tokens are long random values, so a fast unsalted hash is enough
+ * and allows lookups by hash.
+ * 
+ * @param token - Token to hash
+ * @returns Hex-encoded SHA-256 digest of the token
+ */
+export function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+// Key secrets are encrypted with outside production when SECRET_ENCRYPTION_KEY isn't set
+const DEVELOPMENT_SECRET_ENCRYPTION_KEY = 'health-advisor-development-secret-encryption-key';
+
+/**
+ * Derives the AES-256 key secrets are encrypted with
+ * 
+ * @returns 32-byte key from SECRET_ENCRYPTION_KEY, or from a fixed development key outside production
+ * @throws Error if SECRET_ENCRYPTION_KEY isn't set in production
+ */
+function getSecretEncryptionKey(): Buffer {
+  if (environment.IS_PRODUCTION && !environment.SECRET_ENCRYPTION_KEY) {
+    throw new Error('SECRET_ENCRYPTION_KEY must be set in production');
+  }
+
+  return crypto
+    .createHash('sha256')
+    .update(environment.SECRET_ENCRYPTION_KEY || DEVELOPMENT_SECRET_ENCRYPTION_KEY)
+    .digest();
+}
+
+/**
+ * Encrypts a secret with AES-256-GCM so it can be stored and decrypted later
+ * 
+ * @param plaintext - Secret to encrypt
+ * @returns Random IV, authentication tag and ciphertext, base64-encoded and joined by dots
+ */
+export function encryptSecret(plaintext: string): string {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', getSecretEncryptionKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+
+  return [iv, cipher.getAuthTag(), ciphertext].map((part) => part.toString('base64')).join('.');
+}
+
+/**
+ * Decrypts a secret encrypted with encryptSecret
+ * 
+ * @param encrypted - Output of encryptSecret
+ * @returns The original secret
+ * @throws InternalServerError if the value is malformed or was encrypted with another key
+ */
+export function decryptSecret(encrypted: string): string {
+  try {
+    const [iv, authTag, ciphertext] = encrypted.split('.').map((part) => Buffer.from(part, 'base64'));
+    const decipher = crypto.createDecipheriv('aes-256-gcm', getSecretEncryptionKey(), iv);
+    decipher.setAuthTag(authTag);
+
+    return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8');
+  } catch (error) {
+    throw new InternalServerError(
+      'Failed to decrypt secret',
+      error instanceof Error ? error : new Error(String(error))
+    );
+  }
+}
@@ -72,6 +72,32 @@ export class AuthenticationError extends AppError {
   }
 }
 
+/**
+ * Error class for logins refused because of too many failed login attempts
+ * Not an AuthenticationError, so clients don't treat it as an expired session
+ */
+export class AccountLockedError extends AppError {
+  lockedUntil: Date;
+
+  /**
+   * Creates a new AccountLockedError instance
+   * @param message Error message
+   * @param lockedUntil Time the lockout ends
+   */
+  constructor(message: string, lockedUntil: Date) {
+    super(message, 429, AuthErrorType.ACCOUNT_LOCKED);
+    this.lockedUntil = lockedUntil;
+  }
+
+  /**
+   * Seconds until the lockout ends, for the Retry-After header
+   * @returns Whole seconds until the lockout ends, at least 1
+   */
+  getRetryAfterSeconds(): number {
+    return Math.max(1, Math.ceil((this.lockedUntil.getTime() - Date.now()) / 1000));
+  }
+}
+
 /**
  * Error class for resource not found errors
  */
@@ -198,6 +224,8 @@ export function formatErrorResponse(error: Error): {
     
     if (error instanceof ValidationError) {
       details = error.validationErrors;
+    } else if (error instanceof AccountLockedError) {
+      details = { lockedUntil: error.lockedUntil.toISOString() };
     }
   } else if (error instanceof JoiValidationError) {
     statusCode = 400;
@@ -0,0 +1,164 @@
+import { Types } from 'mongoose'; // ^7.0.3
+import { ChatConversation, ChatMessage, ChatRole } from '../types/chat.types';
+import { HealthData, LabResultData, MealData, SymptomData } from '../types/health.types';
+
+/**
+ * Utility module for personal data exports. Health data is written as CSV for spreadsheets
+ * and chat history as Markdown for reading, next to the JSON copies of the same records.
+ */
+
+/**
+ * A health data record as read from the database, including its ID
+ */
+export type ExportedHealthData = HealthData & { _id?: Types.ObjectId };
+
+/** Columns of the health data CSV, in order */
+export const HEALTH_DATA_CSV_COLUMNS = [
+  'id',
+  'type',
+  'timestamp',
+  'source',
+  'tags',
+  'mealType',
+  'description',
+  'severity',
+  'duration',
+  'transcription',
+  'testType',
+  'testDate',
+  'analytes',
+  'results',
+  'notes',
+  'fileIds'
+];
+
+// Spreadsheet apps run cells starting with these characters as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+// Headings used for each message role in the Markdown transcript
+const ROLE_HEADINGS: Record<ChatRole, string> = {
+  [ChatRole.USER]: 'You',
+  [ChatRole.ASSISTANT]: 'Health Advisor',
+  [ChatRole.SYSTEM]: 'System',
+  [ChatRole.TOOL]: 'Tool'
+};
+
+/**
+ * Formats a value as a CSV field, quoting it when needed and neutralising text that a
+ * spreadsheet would otherwise run as a formula
+ *
+ * @param value - Value to format; dates are written in ISO format and objects as JSON
+ * @returns The CSV field
+ */
+export function formatCsvValue(value: unknown): string {
+  if (value === undefined || value === null) {
+    return '';
+  }
+
+  let text: string;
+  if (value instanceof Date) {
+    text = value.toISOString();
+  } else if (typeof value === 'object') {
+    text = JSON.stringify(value);
+  } else {
+    text = String(value);
+  }
+
+  if (typeof value === 'string' && FORMULA_PREFIX.test(text)) {
+    text = `'${text}`;
+  }
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Builds a CSV document with a header row
+ *
+ * @param columns - Column names
+ * @param rows - Values of each row, in column order
+ * @returns CSV text with CRLF line endings
+ */
+export function toCsv(columns: string[], rows: unknown[][]): string {
+  return [columns, ...rows]
+    .map((row) => row.map(formatCsvValue).join(','))
+    .join('\r\n');
+}
+
+/**
+ * Writes health data records as CSV, one row per record. Fields that only apply to
+ * some types of record are left empty for the others.
+ *
+ * @param items - Health data records to write
+ * @returns CSV text with the columns in HEALTH_DATA_CSV_COLUMNS
+ */
+export function healthDataToCsv(items: ExportedHealthData[]): string {
+  const rows = items.map((item) => {
+    const data = item.data as Partial<MealData & LabResultData & SymptomData>;
+    const analytes = data.analytes
+      ?.map((analyte) => `${analyte.name}: ${analyte.value} ${analyte.unit}`.trim())
+      .join('; ');
+
+    return [
+      item._id?.toString(),
+      item.type,
+      item.timestamp,
+      item.metadata?.source,
+      item.metadata?.tags?.join('; '),
+      data.mealType,
+      data.description,
+      data.severity,
+      data.duration,
+      data.transcription,
+      data.testType,
+      data.testDate ? new Date(data.testDate) : undefined,
+      analytes,
+      data.results && Object.keys(data.results).length > 0 ? data.results : undefined,
+      data.notes,
+      (item.fileIds || []).map((fileId) => fileId.toString()).join('; ')
+    ];
+  });
+
+  return toCsv(HEALTH_DATA_CSV_COLUMNS, rows);
+}
+
+/**
+ * Writes a conversation as a Markdown transcript
+ *
+ * @param conversation - Conversation to write
+ * @param messages - Messages of the conversation, oldest first
+ * @returns Markdown text with a heading per message
+ */
+export function conversationToMarkdown(conversation: ChatConversation, messages: ChatMessage[]): string {
+  const lines = [
+    `# ${conversation.title || 'Conversation'}`,
+    '',
+    `Started ${new Date(conversation.startedAt).toISOString()}`
+  ];
+
+  messages.forEach((message) => {
+    lines.push(
+      '',
+      `## ${ROLE_HEADINGS[message.role] || message.role} · ${new Date(message.timestamp).toISOString()}`,
+      '',
+      message.content.trim()
+    );
+  });
+
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Makes a name safe to use as a file name within an archive
+ *
+ * @param name - Name to clean, e.g. an uploaded file's original name or a conversation title
+ * @returns Name with path separators and other unsafe characters replaced
+ */
+export function toArchiveFilename(name: string): string {
+  const cleaned = name
+    .replace(/[^\w.\- ]+/g, '_')
+    .replace(/\s+/g, '-')
+    .replace(/^\.+/, '')
+    .slice(0, 80);
+
+  return cleaned || 'file';
+}
@@ -0,0 +1,249 @@
+/**
+ * Health Data Encryption Utility Module
+ *
+ * Encrypts the sensitive fields of health records with a user's data key and builds the
+ * blind indexes records are searched by. Only the fields that queries filter, sort or
+ * group on stay readable, such as the meal type, symptom severity and lab test date;
+ * descriptions, transcriptions, lab values, notes, tags and locations are encrypted
+ * together with AES-256-GCM, bound to the user and record they belong to.
+ *
+ * A blind index is a keyed hash (HMAC-SHA256) of a searchable value, such as a stem of
+ * a description or a tag. Queries hash their values the same way, so equal values match
+ * without the database seeing either. Hashes include the user ID, so the same word has
+ * different hashes for different users.
+ *
+ * @module utils/health-encryption
+ */
+
+import crypto from 'crypto';
+import { environment } from '../config/environment';
+import { HealthData } from '../types/health.types';
+import { EncryptedHealthFields, HealthDataBlindIndex } from '../types/encryption.types';
+import { tokenizeSearchBigrams, tokenizeSearchText } from './search.util';
+import { InternalServerError } from './error.util';
+
+/** Fields of data that are stored in plaintext, because queries filter, sort or group on them */
+export const PLAINTEXT_DATA_FIELDS = ['mealType', 'severity', 'testDate'];
+
+/** Fields of metadata that are stored in plaintext */
+export const PLAINTEXT_METADATA_FIELDS = ['source'];
+
+/**
+ * Kinds of values that have blind indexes, included in their hashes so that e.g. a tag
+ * and a word of a description don't have the same hash
+ */
+export enum BlindIndexScope {
+  TERM = 'term',
+  BIGRAM = 'bigram',
+  TAG = 'tag',
+  ANALYTE_KEY = 'analyte'
+}
+
+// Bytes of the HMAC kept in a blind index, enough to make collisions negligible
+const BLIND_INDEX_LENGTH = 16;
+
+// Key blind indexes are computed with outside production when HEALTH_DATA_BLIND_INDEX_KEY isn't set
+const DEVELOPMENT_BLIND_INDEX_KEY = 'health-advisor-development-blind-index-key';
+
+/**
+ * Derives the key blind indexes are computed with
+ *
+ * @returns Key from HEALTH_DATA_BLIND_INDEX_KEY, or from a fixed development key outside production
+ * @throws Error if HEALTH_DATA_BLIND_INDEX_KEY isn't set in production
+ */
+function getBlindIndexKey(): Buffer {
+  if (environment.IS_PRODUCTION && !environment.HEALTH_DATA_BLIND_INDEX_KEY) {
+    throw new Error('HEALTH_DATA_BLIND_INDEX_KEY must be set in production');
+  }
+
+  return crypto
+    .createHash('sha256')
+    .update(environment.HEALTH_DATA_BLIND_INDEX_KEY || DEVELOPMENT_BLIND_INDEX_KEY)
+    .digest();
+}
+
+/**
+ * Computes the blind indexes of values
+ *
+ * @param userId - ID of the user the values belong to
+ * @param scope - Kind of the values
+ * @param values - Values to hash
+ * @returns Base64-encoded hashes, in the order of the values
+ */
+export function computeBlindIndexes(userId: string, scope: BlindIndexScope, values: string[]): string[] {
+  const key = getBlindIndexKey();
+
+  return values.map((value) => crypto
+    .createHmac('sha256', key)
+    .update(`${userId}\u0000${scope}\u0000${value}`)
+    .digest()
+    .subarray(0, BLIND_INDEX_LENGTH)
+    .toString('base64'));
+}
+
+/**
+ * Builds the blind indexes of a health record from its plaintext fields
+ *
+ * @param userId - ID of the user who owns the record
+ * @param record - Data and metadata of the record
+ * @returns The hashes of its search terms and their pairs, tags and analyte keys
+ */
+export function buildHealthDataBlindIndex(
+  userId: string,
+  record: Pick<HealthData, 'data' | 'metadata'>
+): HealthDataBlindIndex {
+  const data = (record.data || {}) as unknown as Record<string, unknown>;
+  const tags = (record.metadata?.tags || []).filter((tag): tag is string => typeof tag === 'string');
+  const analytes = Array.isArray(data.analytes) ? data.analytes as { key?: unknown }[] : [];
+  const analyteKeys = analytes.map((analyte) => analyte.key).filter((key): key is string => typeof key === 'string');
+
+  const searchableFields = [data.description, data.testType, data.notes, data.transcription, ...tags]
+    .filter((value): value is string => typeof value === 'string');
+
+  // Pairs are taken per field, so the last word of one field isn't next to the first of the next
+  const bigrams = Array.from(new Set(searchableFields.flatMap(tokenizeSearchBigrams)));
+
+  return {
+    terms: [
+      ...computeBlindIndexes(userId, BlindIndexScope.TERM, tokenizeSearchText(searchableFields.join(' '))),
+      ...computeBlindIndexes(userId, BlindIndexScope.BIGRAM, bigrams)
+    ],
+    tags: computeBlindIndexes(userId, BlindIndexScope.TAG, Array.from(new Set(tags))),
+    analyteKeys: computeBlindIndexes(userId, BlindIndexScope.ANALYTE_KEY, Array.from(new Set(analyteKeys)))
+  };
+}
+
+/**
+ * Encrypts a value as JSON with AES-256-GCM, keeping Dates as Dates
+ *
+ * @param key - 32-byte data key
+ * @param value - Value to encrypt
+ * @param context - Additional authenticated data, e.g. the record and field the value belongs to
+ * @returns Random IV, authentication tag and ciphertext, base64-encoded and joined by dots
+ */
+export function encryptJson(key: Buffer, value: unknown, context: string): string {
+  const json = JSON.stringify(value, function (this: Record<string, unknown>, property: string, serialized: unknown) {
+    // Dates have already been turned into strings by toJSON, so look at the original value
+    const original = this[property];
+    return original instanceof Date ? { $date: original.toISOString() } : serialized;
+  });
+
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+  cipher.setAAD(Buffer.from(context));
+  const ciphertext = Buffer.concat([cipher.update(json, 'utf8'), cipher.final()]);
+
+  return [iv, cipher.getAuthTag(), ciphertext].map((part) => part.toString('base64')).join('.');
+}
+
+/**
+ * Decrypts a value encrypted with encryptJson
+ *
+ * @param key - 32-byte data key the value was encrypted with
+ * @param encrypted - Output of encryptJson
+ * @param context - Additional authenticated data the value was encrypted with
+ * @returns The original value
+ * @throws InternalServerError if the value is malformed, was encrypted with another key
+ *         or belongs to another record
+ */
+export function decryptJson<T>(key: Buffer, encrypted: string, context: string): T {
+  try {
+    const [iv, authTag, ciphertext] = encrypted.split('.').map((part) => Buffer.from(part, 'base64'));
+    const decipher = crypto.createDecipheriv('aes-256-gcm', key, iv);
+    decipher.setAAD(Buffer.from(context));
+    decipher.setAuthTag(authTag);
+    const json = Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8');
+
+    return JSON.parse(json, (_property: string, value: unknown) => {
+      const date = value as { $date?: unknown } | null;
+      return date && typeof date === 'object' && typeof date.$date === 'string' && Object.keys(date).length === 1
+        ? new Date(date.$date)
+        : value;
+    }) as T;
+  } catch (error) {
+    throw new InternalServerError(
+      'Failed to decrypt health data',
+      error instanceof Error ? error : new Error(String(error))
+    );
+  }
+}
+
+/**
+ * Splits an object into the fields kept in plaintext and the rest
+ *
+ * @param value - Object to split
+ * @param plaintextFields - Fields kept in plaintext
+ * @returns The plaintext fields and the fields to encrypt
+ */
+function splitFields(
+  value: object | undefined,
+  plaintextFields: string[]
+): { plaintext: Record<string, unknown>; sensitive: Record<string, unknown> } {
+  const plaintext: Record<string, unknown> = {};
+  const sensitive: Record<string, unknown> = {};
+
+  Object.entries(value || {}).forEach(([field, fieldValue]) => {
+    if (plaintextFields.includes(field)) {
+      plaintext[field] = fieldValue;
+    } else if (fieldValue !== undefined) {
+      sensitive[field] = fieldValue;
+    }
+  });
+
+  return { plaintext, sensitive };
+}
+
+/**
+ * Encrypts the sensitive fields of a health record
+ *
+ * @param key - Data key of the user who owns the record
+ * @param keyVersion - Version of the data key
+ * @param recordContext - User and record ID, e.g. "<userId>:<recordId>", so encrypted fields
+ *                        can't be moved to another record
+ * @param record - Plaintext data and metadata of the record
+ * @returns The fields of data and metadata kept in plaintext, and the encrypted rest
+ */
+export function sealHealthFields(
+  key: Buffer,
+  keyVersion: number,
+  recordContext: string,
+  record: Pick<HealthData, 'data' | 'metadata'>
+): { data: Record<string, unknown>; metadata: Record<string, unknown>; encryption: EncryptedHealthFields } {
+  const data = splitFields(record.data, PLAINTEXT_DATA_FIELDS);
+  const metadata = splitFields(record.metadata, PLAINTEXT_METADATA_FIELDS);
+
+  return {
+    data: data.plaintext,
+    metadata: metadata.plaintext,
+    encryption: {
+      keyVersion,
+      data: encryptJson(key, data.sensitive, `${recordContext}:data`),
+      metadata: encryptJson(key, metadata.sensitive, `${recordContext}:metadata`)
+    }
+  };
+}
+
+/**
+ * Decrypts the sensitive fields of a health record and merges them with its plaintext fields
+ *
+ * @param key - Data key version the record was encrypted with
+ * @param recordContext - User and record ID the fields were encrypted with
+ * @param stored - Plaintext fields and encrypted fields as stored
+ * @returns The complete data and metadata of the record
+ */
+export function openHealthFields<D, M>(
+  key: Buffer,
+  recordContext: string,
+  stored: { data?: object; metadata?: object; encryption: EncryptedHealthFields }
+): { data: D; metadata: M } {
+  return {
+    data: {
+      ...decryptJson<object>(key, stored.encryption.data, `${recordContext}:data`),
+      ...stored.data
+    } as D,
+    metadata: {
+      ...decryptJson<object>(key, stored.encryption.metadata, `${recordContext}:metadata`),
+      ...stored.metadata
+    } as M
+  };
+}
@@ -9,20 +9,50 @@
  * imports cleaner throughout the codebase.
  */
 
+// Import and re-export audit log utilities
+export * from './audit.util';
+
+// Import and re-export conversation summary utilities
+export * from './conversation-summary.util';
+
+// Import and re-export conversation title utilities
+export * from './conversation-title.util';
+
+// Import and re-export embedding utilities
+export * from './embedding.util';
+
 // Import and re-export error utilities
 export * from './error.util';
 
 // Import and re-export encryption utilities
 export * from './encryption.util';
 
+// Import and re-export personal data export utilities
+export * from './export.util';
+
 // Import and re-export file handling utilities
 export * from './file.util';
 
+// Import and re-export lab report parsing utilities
+export * from './lab-report.util';
+
+// Import and re-export lab unit normalization utilities
+export * from './lab-units.util';
+
 // Import and re-export JWT utilities
 export * from './jwt.util';
 
+// Import and re-export Prometheus metrics utilities
+export * from './metrics.util';
+
 // Import and re-export response formatting utilities
 export * from './response.util';
 
+// Import and re-export search result utilities
+export * from './search.util';
+
+// Import and re-export token estimation utilities
+export * from './token.util';
+
 // Import and re-export validation utilities
 export * from './validator.util';
\ No newline at end of file
@@ -19,14 +19,17 @@ import logger from '../config/logger';
  * Generates a JWT token with the provided payload and token type
  * 
  * @param payload - Data to be included in the token
- * @param tokenType - Type of token (access or refresh)
+ * @param tokenType - Type of token (access, refresh or two-factor challenge)
  * @returns Generated JWT token string
  */
 export function generateToken(payload: JwtPayload, tokenType: TokenType): string {
   // Determine expiration time based on token type
-  const expiresIn = tokenType === TokenType.ACCESS 
-    ? environment.JWT_EXPIRATION 
-    : environment.REFRESH_TOKEN_EXPIRATION;
+  const expirations: Record<TokenType, string> = {
+    [TokenType.ACCESS]: environment.JWT_EXPIRATION,
+    [TokenType.REFRESH]: environment.REFRESH_TOKEN_EXPIRATION,
+    [TokenType.TWO_FACTOR_CHALLENGE]: environment.TWO_FACTOR_CHALLENGE_EXPIRATION
+  };
+  const expiresIn = expirations[tokenType];
   
   // Generate and return the signed token
   return jwt.sign(payload, environment.JWT_SECRET, { expiresIn });
@@ -88,6 +91,21 @@ export function createTokenPayload(userId: string, email: string): JwtPayload {
   };
 }
 
+/**
+ * Checks whether a token was issued before a point in time, such as a password change
+ * 
+ * Token timestamps are in whole seconds, so a token issued within the same second counts
+ * as issued after it. Otherwise the token issued along with a password change would be
+ * rejected straight away.
+ * 
+ * @param payload - Decoded token payload
+ * @param date - Point in time to compare with, if any
+ * @returns True if the token was issued in an earlier second
+ */
+export function isTokenIssuedBefore(payload: JwtPayload, date?: Date): boolean {
+  return date !== undefined && payload.iat < Math.floor(date.getTime() / 1000);
+}
+
 /**
  * Extracts JWT token from the Authorization header
  * 
@@ -0,0 +1,129 @@
+import { ExtractedLabAnalyte } from '../types/health.types';
+
+/**
+ * Utility module for reading analyte lines out of text recognised from a lab report,
+ * e.g. "Glucose, Fasting   105  H  mg/dL   70 - 99".
+ */
+
+/**
+ * A line of recognised text with the OCR engine's confidence
+ */
+export interface RecognizedLine {
+  /** Text of the line */
+  text: string;
+
+  /** Confidence for the line, between 0 and 100 as reported by the OCR engine */
+  confidence: number;
+}
+
+// Number that may use a comma as the decimal separator
+const NUMBER = '\\d+(?:[.,]\\d+)?';
+
+// Analyte name, value, optional high/low flag, optional unit and the rest of the line
+const ANALYTE_LINE_PATTERN = new RegExp(
+  "^(?<name>[A-Za-z0-9][A-Za-z0-9 ,()'/.%-]*?)\\s*:?\\s+" +
+  `(?<value>${NUMBER})\\s*` +
+  '(?:(?<flag>[HL]|\\*)(?=\\s|$)\\s*)?' +
+  '(?<unit>%|(?:x?10\\^\\d+\\/)?[A-Za-zµμ][A-Za-zµμ0-9/^.*]*)?\\s*' +
+  '(?<rest>.*)$'
+);
+
+// Reference ranges such as "70 - 99", "(12.0-15.5)", "<200" or ">= 40"
+const RANGE_PATTERN = new RegExp(`^\\(?\\s*(?<low>${NUMBER})\\s*[-–]\\s*(?<high>${NUMBER})\\s*\\)?`);
+const UPPER_LIMIT_PATTERN = new RegExp(`^\\(?\\s*(?:<=?|≤)\\s*(?<limit>${NUMBER})\\s*\\)?`);
+const LOWER_LIMIT_PATTERN = new RegExp(`^\\(?\\s*(?:>=?|≥)\\s*(?<limit>${NUMBER})\\s*\\)?`);
+
+// Words that start header and footer lines rather than results
+const IGNORED_NAMES = ['page', 'date', 'dob', 'patient', 'collected', 'received', 'reported', 'phone', 'fax'];
+
+/**
+ * Parses a number that may use a comma as the decimal separator
+ * @param text - Number as read from the report
+ * @returns The number
+ */
+function parseNumber(text: string): number {
+  return Number(text.replace(',', '.'));
+}
+
+/**
+ * Reads an analyte from a single line of a lab report
+ * @param text - Text of the line
+ * @returns The analyte without a confidence score, or null if the line is not an analyte result
+ */
+export function parseLabReportLine(text: string): Omit<ExtractedLabAnalyte, 'confidence'> | null {
+  const line = text.replace(/\s+/g, ' ').trim();
+  const match = ANALYTE_LINE_PATTERN.exec(line);
+  if (!match?.groups) {
+    return null;
+  }
+
+  const name = match.groups.name.replace(/[\s,:.-]+$/, '').trim();
+
+  // Names must contain letters, and dates or page numbers are not results
+  if (!/[A-Za-z]{2,}/.test(name) || IGNORED_NAMES.includes(name.split(' ')[0].toLowerCase())) {
+    return null;
+  }
+
+  const analyte: Omit<ExtractedLabAnalyte, 'confidence'> = {
+    name,
+    value: parseNumber(match.groups.value),
+    line
+  };
+
+  if (match.groups.unit) {
+    analyte.unit = match.groups.unit;
+  }
+
+  const rest = match.groups.rest.trim();
+  const range = RANGE_PATTERN.exec(rest);
+  const upperLimit = UPPER_LIMIT_PATTERN.exec(rest);
+  const lowerLimit = LOWER_LIMIT_PATTERN.exec(rest);
+
+  if (range?.groups) {
+    analyte.referenceLow = parseNumber(range.groups.low);
+    analyte.referenceHigh = parseNumber(range.groups.high);
+  } else if (upperLimit?.groups) {
+    analyte.referenceHigh = parseNumber(upperLimit.groups.limit);
+  } else if (lowerLimit?.groups) {
+    analyte.referenceLow = parseNumber(lowerLimit.groups.limit);
+  }
+
+  return analyte;
+}
+
+/**
+ * Reads the analytes from the recognised lines of a lab report. Lines that are not
+ * analyte results are skipped, and only the first result for each name is kept.
+ *
+ * @param lines - Recognised lines with their OCR confidence
+ * @returns Analytes in the order they appear, with confidence scaled to between 0 and 1
+ */
+export function parseLabReport(lines: RecognizedLine[]): ExtractedLabAnalyte[] {
+  const seen = new Set<string>();
+  const analytes: ExtractedLabAnalyte[] = [];
+
+  lines.forEach((line) => {
+    const analyte = parseLabReportLine(line.text);
+    if (!analyte || seen.has(analyte.name.toLowerCase())) {
+      return;
+    }
+
+    seen.add(analyte.name.toLowerCase());
+    analytes.push({
+      ...analyte,
+      confidence: toConfidenceScore(line.confidence)
+    });
+  });
+
+  return analytes;
+}
+
+/**
+ * Converts an OCR confidence percentage to a score between 0 and 1
+ * @param confidence - Confidence between 0 and 100
+ * @returns Score rounded to two decimal places
+ */
+export function toConfidenceScore(confidence: number): number {
+  const clamped = Math.min(100, Math.max(0, confidence));
+  return Number((clamped / 100).toFixed(2));
+}
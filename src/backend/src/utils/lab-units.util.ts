@@ -0,0 +1,262 @@
+import { LabAnalyte } from '../types/health.types';
+
+/**
+ * Utility module for identifying common lab analytes and normalizing their values to a
+ * canonical unit, so results entered in different unit systems (e.g., glucose in mg/dL
+ * and mmol/L) can be compared and charted together.
+ */
+
+/**
+ * Definition of a known analyte and the units it can be converted from
+ */
+export interface AnalyteDefinition {
+  /** Stable identifier of the analyte */
+  key: string;
+
+  /** Display name of the analyte */
+  name: string;
+
+  /** Canonical unit values are stored in */
+  unit: string;
+
+  /** Normalized names the analyte is recognised by */
+  aliases: string[];
+
+  /** Conversions to the canonical unit, keyed by normalized unit */
+  conversions: Record<string, (value: number) => number>;
+}
+
+// Conversion factor for cholesterol fractions (mmol/L to mg/dL)
+const CHOLESTEROL_MMOL_TO_MG = 38.67;
+
+/**
+ * Catalog of common analytes with their canonical units and supported conversions
+ */
+export const ANALYTE_DEFINITIONS: AnalyteDefinition[] = [
+  {
+    key: 'glucose',
+    name: 'Glucose',
+    unit: 'mg/dL',
+    aliases: ['glucose', 'blood glucose', 'fasting glucose', 'glu'],
+    conversions: { 'mmol/l': (value) => value * 18.016 }
+  },
+  {
+    key: 'total-cholesterol',
+    name: 'Total Cholesterol',
+    unit: 'mg/dL',
+    aliases: ['total cholesterol', 'cholesterol', 'chol'],
+    conversions: { 'mmol/l': (value) => value * CHOLESTEROL_MMOL_TO_MG }
+  },
+  {
+    key: 'ldl-cholesterol',
+    name: 'LDL Cholesterol',
+    unit: 'mg/dL',
+    aliases: ['ldl cholesterol', 'ldl', 'ldl c'],
+    conversions: { 'mmol/l': (value) => value * CHOLESTEROL_MMOL_TO_MG }
+  },
+  {
+    key: 'hdl-cholesterol',
+    name: 'HDL Cholesterol',
+    unit: 'mg/dL',
+    aliases: ['hdl cholesterol', 'hdl', 'hdl c'],
+    conversions: { 'mmol/l': (value) => value * CHOLESTEROL_MMOL_TO_MG }
+  },
+  {
+    key: 'triglycerides',
+    name: 'Triglycerides',
+    unit: 'mg/dL',
+    aliases: ['triglycerides', 'triglyceride', 'tg', 'trig'],
+    conversions: { 'mmol/l': (value) => value * 88.57 }
+  },
+  {
+    key: 'hba1c',
+    name: 'HbA1c',
+    unit: '%',
+    aliases: ['hba1c', 'a1c', 'hemoglobin a1c', 'glycated hemoglobin'],
+    // IFCC (mmol/mol) to NGSP (%) master equation
+    conversions: { 'mmol/mol': (value) => value / 10.929 + 2.15 }
+  },
+  {
+    key: 'creatinine',
+    name: 'Creatinine',
+    unit: 'mg/dL',
+    aliases: ['creatinine', 'creat', 'cr'],
+    conversions: { 'umol/l': (value) => value / 88.42 }
+  },
+  {
+    key: 'urea-nitrogen',
+    name: 'Blood Urea Nitrogen',
+    unit: 'mg/dL',
+    aliases: ['blood urea nitrogen', 'urea nitrogen', 'bun'],
+    conversions: { 'mmol/l': (value) => value * 2.801 }
+  },
+  {
+    key: 'hemoglobin',
+    name: 'Hemoglobin',
+    unit: 'g/dL',
+    aliases: ['hemoglobin', 'haemoglobin', 'hb', 'hgb'],
+    conversions: {
+      'g/l': (value) => value / 10,
+      'mmol/l': (value) => value * 1.611
+    }
+  },
+  {
+    key: 'vitamin-d',
+    name: '25-Hydroxy Vitamin D',
+    unit: 'ng/mL',
+    aliases: ['25 hydroxy vitamin d', '25 oh vitamin d', 'vitamin d', 'vit d'],
+    conversions: { 'nmol/l': (value) => value / 2.496 }
+  },
+  {
+    key: 'calcium',
+    name: 'Calcium',
+    unit: 'mg/dL',
+    aliases: ['calcium', 'ca'],
+    conversions: { 'mmol/l': (value) => value * 4.008 }
+  },
+  {
+    key: 'sodium',
+    name: 'Sodium',
+    unit: 'mmol/L',
+    aliases: ['sodium', 'na'],
+    conversions: { 'meq/l': (value) => value }
+  },
+  {
+    key: 'potassium',
+    name: 'Potassium',
+    unit: 'mmol/L',
+    aliases: ['potassium', 'k'],
+    conversions: { 'meq/l': (value) => value }
+  }
+];
+
+// Decimal places kept when a value is converted
+const CONVERTED_VALUE_PRECISION = 2;
+
+/**
+ * Normalizes an analyte name for alias matching
+ * @param name - Analyte name as entered
+ * @returns Lowercase name with punctuation collapsed to single spaces
+ */
+function normalizeName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+/**
+ * Normalizes a unit for comparison, so "mmol/L", "mmol/l" and "mmol / L" match
+ * @param unit - Unit as entered
+ * @returns Lowercase unit without whitespace, with micro signs written as "u"
+ */
+export function normalizeUnit(unit: string): string {
+  return unit.toLowerCase().replace(/\s+/g, '').replace(/[µμ]/g, 'u');
+}
+
+/**
+ * Finds the definition of a known analyte by name, alias or key
+ * @param nameOrKey - Analyte name as entered, or its key
+ * @returns The analyte definition, or undefined for analytes not in the catalog
+ */
+export function findAnalyteDefinition(nameOrKey: string): AnalyteDefinition | undefined {
+  const normalized = normalizeName(nameOrKey);
+  return ANALYTE_DEFINITIONS.find((definition) =>
+    definition.key === nameOrKey || definition.aliases.includes(normalized)
+  );
+}
+
+/**
+ * Returns the key used to track an analyte across lab results
+ * @param name - Analyte name as entered
+ * @returns The catalog key for known analytes, otherwise a slug of the name
+ */
+export function getAnalyteKey(name: string): string {
+  const definition = findAnalyteDefinition(name);
+  return definition ? definition.key : normalizeName(name).replace(/ /g, '-');
+}
+
+/**
+ * Checks whether a unit can be used for an analyte
+ * @param name - Analyte name as entered
+ * @param unit - Unit as entered
+ * @returns True for analytes outside the catalog, or if the unit is the canonical unit
+ *          or one that can be converted to it
+ */
+export function isSupportedUnit(name: string, unit: string): boolean {
+  const definition = findAnalyteDefinition(name);
+  if (!definition) {
+    return true;
+  }
+
+  const normalized = normalizeUnit(unit);
+  return normalized === normalizeUnit(definition.unit) || normalized in definition.conversions;
+}
+
+/**
+ * Builds a stored analyte from user input: assigns its key, converts the value and
+ * reference range to the canonical unit for known analytes, and flags values outside
+ * the reference range
+ *
+ * @param input - Analyte name, value, unit and optional reference range as entered
+ * @returns Normalized analyte
+ */
+export function normalizeAnalyte(input: {
+  name: string;
+  value: number;
+  unit: string;
+  referenceLow?: number;
+  referenceHigh?: number;
+}): LabAnalyte {
+  const definition = findAnalyteDefinition(input.name);
+  const convert = definition?.conversions[normalizeUnit(input.unit)];
+
+  // Round converted values so they don't carry spurious precision
+  const toCanonical = (value: number | undefined): number | undefined => {
+    if (value === undefined || !convert) {
+      return value;
+    }
+    return Number(convert(value).toFixed(CONVERTED_VALUE_PRECISION));
+  };
+
+  const value = toCanonical(input.value) as number;
+  const referenceLow = toCanonical(input.referenceLow);
+  const referenceHigh = toCanonical(input.referenceHigh);
+
+  const analyte: LabAnalyte = {
+    name: input.name.trim(),
+    key: getAnalyteKey(input.name),
+    value,
+    unit: definition && isSupportedUnit(input.name, input.unit) ? definition.unit : input.unit.trim(),
+    outOfRange: (referenceLow !== undefined && value < referenceLow) ||
+      (referenceHigh !== undefined && value > referenceHigh)
+  };
+
+  if (referenceLow !== undefined) {
+    analyte.referenceLow = referenceLow;
+  }
+  if (referenceHigh !== undefined) {
+    analyte.referenceHigh = referenceHigh;
+  }
+
+  // Keep what was entered when the value was converted
+  if (convert) {
+    analyte.originalValue = input.value;
+    analyte.originalUnit = input.unit.trim();
+  }
+
+  return analyte;
+}
+
+/**
+ * Formats structured analytes as readable text, e.g. for the LLM context
+ * @param analytes - Analytes to format
+ * @returns Comma-separated analyte values with units and reference ranges
+ */
+export function formatLabAnalytes(analytes: LabAnalyte[]): string {
+  return analytes.map((analyte) => {
+    const hasRange = analyte.referenceLow !== undefined || analyte.referenceHigh !== undefined;
+    const flag = analyte.outOfRange ? ', out of range' : '';
+    const range = hasRange
+      ? ` (reference ${analyte.referenceLow ?? ''}-${analyte.referenceHigh ?? ''}${flag})`
+      : '';
+    return `${analyte.name} ${analyte.value} ${analyte.unit}${range}`;
+  }).join(', ');
+}
@@ -0,0 +1,279 @@
+import { Counter, Gauge, Histogram, Registry, collectDefaultMetrics } from 'prom-client'; // ^14.2.0
+import { getConnectionStatus } from '../config/database';
+import { LLMTokenUsage } from '../types/chat.types';
+import { MobileBeaconType, MobileMetricBeacon } from '../types/metrics.types';
+
+/**
+ * Utility module for Prometheus metrics. Backend metrics are scraped from /api/metrics and
+ * metrics reported by the mobile app from /api/mobile-metrics, so each has its own registry.
+ * Metric names match the Grafana dashboards in infrastructure/monitoring.
+ */
+
+/** Registry for metrics recorded by the backend itself */
+export const metricsRegistry = new Registry();
+
+/** Registry for metrics reported by the mobile app */
+export const mobileMetricsRegistry = new Registry();
+
+// Process CPU, memory, event loop and garbage collection metrics
+collectDefaultMetrics({ register: metricsRegistry });
+
+// Buckets for request and LLM latencies, in seconds
+const LATENCY_BUCKETS = [0.01, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60];
+
+// Buckets for uploaded file sizes, from 10KB to the 10MB upload limit
+const FILE_SIZE_BUCKETS = [10240, 102400, 512000, 1048576, 2097152, 5242880, 10485760];
+
+// Buckets for client timings, in seconds
+const CLIENT_TIMING_BUCKETS = [0.1, 0.25, 0.5, 1, 2, 3, 5, 10, 20];
+
+// Buckets for mobile session lengths, in seconds
+const SESSION_BUCKETS = [10, 30, 60, 120, 300, 600, 1200, 1800, 3600];
+
+/** Latency of HTTP requests by route pattern, method and status code */
+export const httpRequestDuration = new Histogram({
+  name: 'http_request_duration_seconds',
+  help: 'Duration of HTTP requests in seconds',
+  labelNames: ['method', 'route', 'status_code'],
+  buckets: LATENCY_BUCKETS,
+  registers: [metricsRegistry]
+});
+
+/** LLM requests by provider and outcome (success, error or fallback) */
+export const llmRequestsTotal = new Counter({
+  name: 'llm_requests_total',
+  help: 'Total number of requests to the LLM provider',
+  labelNames: ['provider', 'status'],
+  registers: [metricsRegistry]
+});
+
+/** Time taken to get a complete response from the LLM provider */
+export const llmResponseTime = new Histogram({
+  name: 'llm_response_time_seconds',
+  help: 'Time taken by the LLM provider to respond in seconds',
+  labelNames: ['provider', 'streamed'],
+  buckets: LATENCY_BUCKETS,
+  registers: [metricsRegistry]
+});
+
+/** Tokens used by LLM requests, as reported by the provider */
+export const llmTokensTotal = new Counter({
+  name: 'llm_tokens_total',
+  help: 'Total number of tokens used by LLM requests',
+  labelNames: ['provider', 'type'],
+  registers: [metricsRegistry]
+});
+
+/** LLM requests retried after a failed attempt */
+export const llmRetryTotal = new Counter({
+  name: 'llm_retry_total',
+  help: 'Total number of retried LLM requests',
+  labelNames: ['provider'],
+  registers: [metricsRegistry]
+});
+
+/** Tool calls made by the LLM to look up a user's health history */
+export const llmToolCallsTotal = new Counter({
+  name: 'llm_tool_calls_total',
+  help: 'Total number of tool calls made by the LLM',
+  labelNames: ['tool', 'status'],
+  registers: [metricsRegistry]
+});
+
+/** Fallback responses sent because the LLM provider was unavailable */
+export const llmFallbackTotal = new Counter({
+  name: 'llm_fallback_total',
+  help: 'Total number of fallback responses sent when the LLM provider was unavailable',
+  registers: [metricsRegistry]
+});
+
+/** Time taken to store an uploaded file in GridFS */
+export const fileUploadDuration = new Histogram({
+  name: 'file_upload_duration_seconds',
+  help: 'Duration of file uploads to GridFS in seconds',
+  labelNames: ['type'],
+  buckets: LATENCY_BUCKETS,
+  registers: [metricsRegistry]
+});
+
+/** Size of files stored in GridFS, after image processing */
+export const fileSizeBytes = new Histogram({
+  name: 'file_size_bytes',
+  help: 'Size of uploaded files in bytes',
+  labelNames: ['type'],
+  buckets: FILE_SIZE_BUCKETS,
+  registers: [metricsRegistry]
+});
+
+/** Whether the backend is connected to MongoDB, read when metrics are scraped */
+export const dbConnected = new Gauge({
+  name: 'db_connected',
+  help: 'Whether the MongoDB connection is open (1) or not (0)',
+  registers: [metricsRegistry],
+  collect(): void {
+    this.set(getConnectionStatus().connected ? 1 : 0);
+  }
+});
+
+/** Mongoose ready state of the MongoDB connection, read when metrics are scraped */
+export const dbConnectionState = new Gauge({
+  name: 'db_connection_state',
+  help: 'Mongoose ready state of the MongoDB connection (0 disconnected, 1 connected, 2 connecting, 3 disconnecting)',
+  registers: [metricsRegistry],
+  collect(): void {
+    this.set(getConnectionStatus().readyState);
+  }
+});
+
+/** Time from app start until the first screen is interactive */
+export const mobileAppLaunchTime = new Histogram({
+  name: 'mobile_app_launch_time_seconds',
+  help: 'Mobile app launch time in seconds',
+  labelNames: ['os'],
+  buckets: CLIENT_TIMING_BUCKETS,
+  registers: [mobileMetricsRegistry]
+});
+
+/** Time taken for a screen to load its content */
+export const mobileScreenLoadTime = new Histogram({
+  name: 'mobile_screen_load_time_seconds',
+  help: 'Mobile screen load time in seconds',
+  labelNames: ['screen'],
+  buckets: CLIENT_TIMING_BUCKETS,
+  registers: [mobileMetricsRegistry]
+});
+
+/** Screens viewed in the mobile app */
+export const mobileScreenViewTotal = new Counter({
+  name: 'mobile_screen_view_total',
+  help: 'Total number of mobile screen views',
+  labelNames: ['screen'],
+  registers: [mobileMetricsRegistry]
+});
+
+/** API response time as seen by the mobile app, including the network */
+export const mobileApiResponseTime = new Histogram({
+  name: 'mobile_api_response_time_seconds',
+  help: 'API response time measured by the mobile app in seconds',
+  labelNames: ['endpoint'],
+  buckets: CLIENT_TIMING_BUCKETS,
+  registers: [mobileMetricsRegistry]
+});
+
+/** API requests made by the mobile app */
+export const mobileApiRequestTotal = new Counter({
+  name: 'mobile_api_request_total',
+  help: 'Total number of API requests made by the mobile app',
+  labelNames: ['endpoint'],
+  registers: [mobileMetricsRegistry]
+});
+
+/** API requests made by the mobile app that failed */
+export const mobileApiErrorTotal = new Counter({
+  name: 'mobile_api_error_total',
+  help: 'Total number of failed API requests made by the mobile app',
+  labelNames: ['endpoint'],
+  registers: [mobileMetricsRegistry]
+});
+
+/** Sessions started in the mobile app */
+export const mobileSessionTotal = new Counter({
+  name: 'mobile_session_total',
+  help: 'Total number of mobile app sessions',
+  labelNames: ['os', 'version'],
+  registers: [mobileMetricsRegistry]
+});
+
+/** Length of mobile app sessions */
+export const mobileSessionDuration = new Histogram({
+  name: 'mobile_session_duration_seconds',
+  help: 'Mobile app session duration in seconds',
+  buckets: SESSION_BUCKETS,
+  registers: [mobileMetricsRegistry]
+});
+
+/**
+ * Records the outcome of an LLM request, along with its latency and token usage when known
+ *
+ * @param provider - LLM provider the request was sent to
+ * @param status - Outcome of the request: success, error or fallback
+ * @param durationSeconds - Time until the response was complete
+ * @param streamed - Whether the response was streamed
+ * @param tokenUsage - Token usage reported by the provider, if any
+ */
+export function recordLLMRequest(
+  provider: string,
+  status: 'success' | 'error' | 'fallback',
+  durationSeconds: number,
+  streamed: boolean,
+  tokenUsage?: LLMTokenUsage
+): void {
+  llmRequestsTotal.inc({ provider, status });
+
+  // Only complete responses say anything about how long the provider takes to answer
+  if (status === 'success') {
+    llmResponseTime.observe({ provider, streamed: String(streamed) }, durationSeconds);
+  }
+  if (status === 'fallback') {
+    llmFallbackTotal.inc();
+  }
+
+  if (tokenUsage) {
+    llmTokensTotal.inc({ provider, type: 'prompt' }, tokenUsage.prompt_tokens || 0);
+    llmTokensTotal.inc({ provider, type: 'completion' }, tokenUsage.completion_tokens || 0);
+  }
+}
+
+/**
+ * Replaces IDs in an API path with placeholders so that each endpoint is one label value,
+ * e.g. "/api/health/64b7f0c2e4b0a1a2b3c4d5e6?page=2" becomes "/api/health/:id"
+ *
+ * @param path - Request path reported by a client
+ * @returns Path with IDs and the query string removed
+ */
+export function normalizeEndpoint(path: string): string {
+  return path
+    .split('?')[0]
+    .split('/')
+    .map((segment) => (/^([0-9a-f]{24}|\d+|[0-9a-f-]{36})$/i.test(segment) ? ':id' : segment))
+    .join('/');
+}
+
+/**
+ * Records timing beacons sent by the mobile app
+ *
+ * @param beacons - Validated beacons from a single client request
+ */
+export function recordMobileBeacons(beacons: MobileMetricBeacon[]): void {
+  beacons.forEach((beacon) => {
+    const seconds = beacon.durationMs / 1000;
+    const os = beacon.os || 'unknown';
+
+    switch (beacon.type) {
+      case MobileBeaconType.APP_LAUNCH:
+        mobileAppLaunchTime.observe({ os }, seconds);
+        break;
+      case MobileBeaconType.SCREEN_LOAD: {
+        const screen = beacon.screen || 'unknown';
+        mobileScreenViewTotal.inc({ screen });
+        mobileScreenLoadTime.observe({ screen }, seconds);
+        break;
+      }
+      case MobileBeaconType.API_REQUEST: {
+        const endpoint = normalizeEndpoint(beacon.endpoint || 'unknown');
+        mobileApiRequestTotal.inc({ endpoint });
+        mobileApiResponseTime.observe({ endpoint }, seconds);
+        if (beacon.success === false) {
+          mobileApiErrorTotal.inc({ endpoint });
+        }
+        break;
+      }
+      case MobileBeaconType.SESSION:
+        mobileSessionTotal.inc({ os, version: beacon.appVersion || 'unknown' });
+        mobileSessionDuration.observe(seconds);
+        break;
+      default:
+        break;
+    }
+  });
+}
@@ -1,5 +1,5 @@
 import { Response } from 'express'; // ^4.18.2
-import { AppError } from './error.util';
+import { AppError, AccountLockedError } from './error.util';
 
 /**
  * Response Utility Module
@@ -45,6 +45,22 @@ export function sendCreated(res: Response, data: any, message: string = 'Resourc
   });
 }
 
+/**
+ * Sends a standardized accepted response with 202 Accepted status code, for requests
+ * that start work which completes in the background
+ * 
+ * @param res - Express Response object
+ * @param data - Data to include in the response (typically the status of the work)
+ * @param message - Success message
+ */
+export function sendAccepted(res: Response, data: any, message: string = 'Request accepted'): void {
+  res.status(202).json({
+    success: true,
+    message,
+    data
+  });
+}
+
 /**
  * Sends a 204 No Content response for successful operations that don't return data
  * 
@@ -119,6 +135,12 @@ export function sendError(
     if ('validationErrors' in error) {
       details = (error as any).validationErrors;
     }
+
+    // Tell the client when it can try to log in again
+    if (error instanceof AccountLockedError) {
+      details = { lockedUntil: error.lockedUntil.toISOString() };
+      res.set('Retry-After', String(error.getRetryAfterSeconds()));
+    }
   }
   
   // Override status code if provided
@@ -138,6 +160,40 @@ export function sendError(
   res.status(responseStatusCode).json(errorResponse);
 }
 
+/**
+ * Prepares a response for Server-Sent Events streaming
+ * 
+ * Sets the event-stream headers and flushes them immediately so the client can start
+ * reading events before the first one is written. The no-transform directive keeps the
+ * compression middleware from buffering the stream.
+ * 
+ * @param res - Express Response object
+ */
+export function initEventStream(res: Response): void {
+  res.status(200);
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache, no-transform');
+  res.setHeader('Connection', 'keep-alive');
+  res.setHeader('X-Accel-Buffering', 'no');
+  res.flushHeaders();
+}
+
+/**
+ * Writes a single named Server-Sent Event with a JSON payload
+ * 
+ * @param res - Express Response object that was prepared with initEventStream
+ * @param event - Event name (e.g. 'delta', 'done', 'error')
+ * @param data - Data to serialize as the event payload
+ */
+export function sendEvent(res: Response, event: string, data: any): void {
+  // Nothing to do if the client has already gone away
+  if (res.writableEnded) {
+    return;
+  }
+  
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
 /**
  * Formats a success response object without sending it
  * 
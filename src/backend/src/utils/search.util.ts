@@ -0,0 +1,282 @@
+import { HealthData, SearchSnippet } from '../types/health.types';
+
+/**
+ * Utility module for full-text search over health data. Records are matched by the
+ * stems of their words, and quoted phrases by the pairs of neighbouring stems, which are
+ * stored as blind indexes because the text itself is encrypted; this module splits texts
+ * and queries into those stems and pairs, and finds the words and phrases that matched
+ * in each field so clients can show highlighted excerpts.
+ */
+
+/**
+ * A search query split into the parts that match records in different ways
+ */
+export interface ParsedSearch {
+  /** Words that may match in any form, e.g. "headaches" matching "headache" */
+  terms: string[];
+
+  /** Quoted phrases that must match as written */
+  phrases: string[];
+
+  /** Words prefixed with a minus, which exclude records rather than match them */
+  excluded: string[];
+}
+
+/**
+ * A character range within a text
+ */
+export interface TextRange {
+  start: number;
+  end: number;
+}
+
+// Words, including digits and apostrophes within words such as "didn't"
+const WORD_PATTERN = /[\p{L}\p{N}]+(?:'[\p{L}]+)*/gu;
+
+// Quoted phrases in a query
+const PHRASE_PATTERN = /"([^"]*)"/g;
+
+// Suffixes removed to find a word's stem, longest first
+const SUFFIXES = ['ations', 'ation', 'ness', 'ings', 'ing', 'edly', 'ies', 'ied', 'es', 'ed', 'ly', 's'];
+
+// Shortest stem left after removing a suffix
+const MIN_STEM_LENGTH = 3;
+
+// Words too common to tell records apart, which are left out of the search index
+const STOP_WORDS = new Set([
+  'a', 'about', 'after', 'all', 'an', 'and', 'any', 'are', 'as', 'at', 'be', 'been', 'before', 'but', 'by',
+  'for', 'from', 'had', 'has', 'have', 'he', 'her', 'his', 'i', 'if', 'in', 'into', 'is', 'it', 'its', 'me',
+  'my', 'no', 'not', 'of', 'on', 'or', 'our', 'she', 'so', 'than', 'that', 'the', 'their', 'then', 'there',
+  'they', 'this', 'to', 'was', 'we', 'were', 'what', 'when', 'which', 'while', 'with', 'you', 'your'
+]);
+
+/** Maximum length of an excerpt, not counting ellipses */
+export const SNIPPET_LENGTH = 160;
+
+// Characters of context kept before the first match of an excerpt
+const SNIPPET_CONTEXT = 40;
+
+// Maximum number of excerpts returned for a record
+const MAX_SNIPPETS = 3;
+
+/**
+ * Reduces a word to an approximate English stem, so that e.g. "headaches", "headache"
+ * and "headache's" compare equal.
+ *
+ * @param word - Word to stem
+ * @returns Lower case stem of the word
+ */
+export function stemWord(word: string): string {
+  let stem = word.toLowerCase().replace(/'s$/, '');
+
+  const suffix = SUFFIXES.find((candidate) => (
+    stem.endsWith(candidate)
+    && stem.length - candidate.length >= MIN_STEM_LENGTH
+    // Words such as "glass" end in a double s rather than a plural s
+    && !(candidate === 's' && stem.endsWith('ss'))
+  ));
+
+  if (suffix) {
+    stem = stem.slice(0, -suffix.length);
+    if (suffix === 'ies' || suffix === 'ied') {
+      stem += 'y';
+    }
+  }
+
+  // "running" becomes "run" and "dizziness" becomes "dizzy"
+  if (suffix && /([^aeiouls])\1$/.test(stem)) {
+    stem = stem.slice(0, -1);
+  }
+  if (stem.endsWith('i')) {
+    stem = `${stem.slice(0, -1)}y`;
+  }
+  if (stem.endsWith('e') && stem.length > MIN_STEM_LENGTH) {
+    stem = stem.slice(0, -1);
+  }
+
+  return stem;
+}
+
+/**
+ * Splits a text into the distinct stems it can be found by, leaving out stop words
+ *
+ * @param text - Text of a record, or words of a search query
+ * @returns Stems of the words in the text, each once
+ */
+export function tokenizeSearchText(text: string): string[] {
+  const words = text.toLowerCase().match(WORD_PATTERN) || [];
+
+  return Array.from(new Set(words.filter((word) => !STOP_WORDS.has(word)).map(stemWord)));
+}
+
+/**
+ * Splits a text into the distinct pairs of neighbouring stems it contains, which let
+ * quoted phrases match only words next to each other and in order. Stop words are kept,
+ * so that e.g. "shortness of breath" doesn't match "shortness, breath".
+ *
+ * @param text - Text of a record field, or a quoted phrase of a search query
+ * @returns Pairs of stems, joined by a space, each once
+ */
+export function tokenizeSearchBigrams(text: string): string[] {
+  const stems = (text.toLowerCase().match(WORD_PATTERN) || []).map(stemWord);
+
+  return Array.from(new Set(stems.slice(1).map((stem, index) => `${stems[index]} ${stem}`)));
+}
+
+/**
+ * Splits a search query into words, quoted phrases and excluded words
+ *
+ * @param search - Query as entered by the user
+ * @returns The parts of the query, in lower case
+ */
+export function parseSearchQuery(search: string): ParsedSearch {
+  const phrases: string[] = [];
+  const withoutPhrases = search.replace(PHRASE_PATTERN, (_match, phrase: string) => {
+    const normalized = phrase.replace(/\s+/g, ' ').trim().toLowerCase();
+    if (normalized) {
+      phrases.push(normalized);
+    }
+    return ' ';
+  });
+
+  const terms: string[] = [];
+  const excluded: string[] = [];
+
+  withoutPhrases.split(/\s+/).forEach((token) => {
+    const target = token.startsWith('-') ? excluded : terms;
+    const words = token.toLowerCase().match(WORD_PATTERN) || [];
+    target.push(...words);
+  });
+
+  return { terms, phrases, excluded };
+}
+
+/**
+ * Finds where the words and phrases of a search query appear in a text
+ *
+ * @param text - Text to search
+ * @param search - Parsed search query
+ * @returns Non-overlapping ranges of the matches, in order
+ */
+export function findSearchMatches(text: string, search: ParsedSearch): TextRange[] {
+  const ranges: TextRange[] = [];
+  const lowerText = text.toLowerCase();
+
+  search.phrases.forEach((phrase) => {
+    let index = lowerText.indexOf(phrase);
+    while (index !== -1) {
+      ranges.push({ start: index, end: index + phrase.length });
+      index = lowerText.indexOf(phrase, index + phrase.length);
+    }
+  });
+
+  const stems = new Set(search.terms.map(stemWord));
+  if (stems.size > 0) {
+    for (const match of text.matchAll(WORD_PATTERN)) {
+      if (stems.has(stemWord(match[0]))) {
+        const start = match.index;
+        ranges.push({ start, end: start + match[0].length });
+      }
+    }
+  }
+
+  // Merge overlapping ranges, e.g. a word that is also part of a phrase
+  return ranges
+    .sort((a, b) => a.start - b.start)
+    .reduce<TextRange[]>((merged, range) => {
+      const last = merged[merged.length - 1];
+      if (last && range.start <= last.end) {
+        last.end = Math.max(last.end, range.end);
+      } else {
+        merged.push({ ...range });
+      }
+      return merged;
+    }, []);
+}
+
+/**
+ * Cuts an excerpt of a text around its first match, keeping whole words
+ *
+ * @param text - Text the matches were found in
+ * @param matches - Ranges of the matches within the text
+ * @param maxLength - Maximum length of the excerpt, not counting ellipses
+ * @returns The excerpt with the ranges of the matches it contains
+ */
+export function buildSnippet(
+  text: string,
+  matches: TextRange[],
+  maxLength: number = SNIPPET_LENGTH
+): Pick<SearchSnippet, 'text' | 'highlights'> {
+  if (text.length <= maxLength) {
+    return { text, highlights: matches };
+  }
+
+  const firstMatch = matches.length > 0 ? matches[0].start : 0;
+  let start = Math.max(0, Math.min(firstMatch - SNIPPET_CONTEXT, text.length - maxLength));
+  let end = Math.min(text.length, start + maxLength);
+
+  // Start and end at word boundaries, without cutting off the first match
+  if (start > 0) {
+    const nextSpace = text.indexOf(' ', start);
+    if (nextSpace !== -1 && nextSpace < firstMatch) {
+      start = nextSpace + 1;
+    }
+  }
+  if (end < text.length) {
+    const lastSpace = text.lastIndexOf(' ', end);
+    if (lastSpace > firstMatch) {
+      end = lastSpace;
+    }
+  }
+
+  const prefix = start > 0 ? '…' : '';
+  const suffix = end < text.length ? '…' : '';
+  const offset = prefix.length - start;
+
+  return {
+    text: `${prefix}${text.slice(start, end)}${suffix}`,
+    highlights: matches
+      .filter((match) => match.start >= start && match.end <= end)
+      .map((match) => ({ start: match.start + offset, end: match.end + offset }))
+  };
+}
+
+/**
+ * Builds the excerpts that show why a health data record matched a search
+ *
+ * @param healthData - Record that matched the search
+ * @param search - Search query as entered by the user
+ * @returns Excerpts of the fields with matches, in order of importance
+ */
+export function buildSearchSnippets(
+  healthData: Pick<HealthData, 'data' | 'metadata'>,
+  search: string
+): SearchSnippet[] {
+  const parsed = parseSearchQuery(search);
+  const data = healthData.data as unknown as Record<string, unknown>;
+
+  // Fields in order of importance
+  const fields: [string, unknown][] = [
+    ['description', data.description],
+    ['testType', data.testType],
+    ['tags', healthData.metadata?.tags?.join(', ')],
+    ['notes', data.notes],
+    ['transcription', data.transcription]
+  ];
+
+  const snippets: SearchSnippet[] = [];
+
+  fields.forEach(([field, value]) => {
+    if (typeof value !== 'string' || snippets.length >= MAX_SNIPPETS) {
+      return;
+    }
+
+    const text = value.replace(/\s+/g, ' ').trim();
+    const matches = findSearchMatches(text, parsed);
+    if (matches.length > 0) {
+      snippets.push({ field, ...buildSnippet(text, matches) });
+    }
+  });
+
+  return snippets;
+}
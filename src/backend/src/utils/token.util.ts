@@ -0,0 +1,47 @@
+/**
+ * Token Utility Module
+ *
+ * Estimates how many tokens text takes up in an LLM prompt, to keep prompts within the
+ * context window of the model. Tokenizers differ between providers and models, so the
+ * estimates err on the high side rather than depend on any one of them.
+ *
+ * @module utils/token
+ */
+
+import { LLMMessage } from '../types/chat.types';
+
+// Characters per token; English text averages about 4, numbers and other languages fewer
+const CHARS_PER_TOKEN = 3.5;
+
+/** Tokens taken up by the role and separators of each message in a prompt */
+export const MESSAGE_OVERHEAD_TOKENS = 4;
+
+/**
+ * Estimates the number of tokens of a text
+ *
+ * @param text - Text to estimate
+ * @returns Estimated number of tokens
+ */
+export function estimateTokens(text: string): number {
+  return text ? Math.ceil(text.length / CHARS_PER_TOKEN) : 0;
+}
+
+/**
+ * Estimates the number of tokens a message takes up in a prompt
+ *
+ * @param message - Message to estimate
+ * @returns Estimated number of tokens, including the framing of the message
+ */
+export function estimateMessageTokens(message: Pick<LLMMessage, 'content'>): number {
+  return estimateTokens(message.content) + MESSAGE_OVERHEAD_TOKENS;
+}
+
+/**
+ * Estimates the number of tokens a prompt takes up
+ *
+ * @param messages - Messages of the prompt
+ * @returns Estimated number of tokens
+ */
+export function estimatePromptTokens(messages: Pick<LLMMessage, 'content'>[]): number {
+  return messages.reduce((total, message) => total + estimateMessageTokens(message), 0);
+}
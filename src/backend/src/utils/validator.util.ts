@@ -52,6 +52,20 @@ export function isValidDate(dateString: string): boolean {
   return !isNaN(date.getTime());
 }
 
+/**
+ * Validates if a string is an IANA time zone name known to the runtime
+ * @param timeZone - The string to validate as a time zone, e.g. Europe/Berlin
+ * @returns True if the time zone is valid, false otherwise
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
 /**
  * Validates if a string is a properly formatted URL
  * @param url - The string to validate as a URL
@@ -0,0 +1,100 @@
+import Joi from 'joi'; // ^17.9.0
+import { AuditAction, AuditResourceType } from '../types/audit.types';
+import { isValidObjectId } from '../utils/validator.util';
+
+/**
+ * Creates a Joi schema for an optional ObjectId query parameter
+ * @param label - Name of the parameter used in error messages
+ * @returns Joi schema for validating the ID
+ */
+function objectIdSchema(label: string): Joi.StringSchema {
+  return Joi.string()
+    .custom((value, helpers) => {
+      if (!isValidObjectId(value)) {
+        return helpers.error('string.objectId', { value });
+      }
+      return value;
+    }, 'MongoDB ObjectId validation')
+    .messages({
+      'string.objectId': `Invalid ${label} format`,
+      'string.empty': `${label} cannot be empty`
+    });
+}
+
+/**
+ * Query parameters shared by the audit log of the current user and the admin query
+ */
+const auditLogQueryKeys = {
+  action: Joi.string()
+    .valid(...Object.values(AuditAction))
+    .messages({
+      'any.only': 'Invalid audit action'
+    }),
+  resourceType: Joi.string()
+    .valid(...Object.values(AuditResourceType))
+    .messages({
+      'any.only': 'Invalid resource type'
+    }),
+  resourceId: objectIdSchema('resource ID'),
+  startDate: Joi.date()
+    .iso()
+    .messages({
+      'date.base': 'Start date must be a valid date',
+      'date.format': 'Start date must be an ISO 8601 date'
+    }),
+  endDate: Joi.date()
+    .iso()
+    .when('startDate', {
+      is: Joi.exist(),
+      then: Joi.date().min(Joi.ref('startDate'))
+    })
+    .messages({
+      'date.base': 'End date must be a valid date',
+      'date.format': 'End date must be an ISO 8601 date',
+      'date.min': 'End date must not be before start date'
+    }),
+  page: Joi.number()
+    .integer()
+    .min(1)
+    .default(1)
+    .messages({
+      'number.base': 'Page must be a number',
+      'number.min': 'Page must be at least 1'
+    }),
+  limit: Joi.number()
+    .integer()
+    .min(1)
+    .max(100)
+    .default(20)
+    .messages({
+      'number.base': 'Limit must be a number',
+      'number.min': 'Limit must be at least 1',
+      'number.max': 'Limit must be at most 100'
+    })
+};
+
+/**
+ * Creates and returns a Joi validation schema for the audit log of the current user
+ * @returns Joi schema for validating audit log query parameters
+ */
+export function validateGetAuditLogSchema(): Joi.ObjectSchema {
+  return Joi.object(auditLogQueryKeys);
+}
+
+/**
+ * Creates and returns a Joi validation schema for administrators querying the audit log
+ * Adds filters on who performed the actions, whose data they concerned and the IP address
+ * @returns Joi schema for validating admin audit log query parameters
+ */
+export function validateAdminAuditLogSchema(): Joi.ObjectSchema {
+  return Joi.object({
+    ...auditLogQueryKeys,
+    actorId: objectIdSchema('actor ID'),
+    ownerId: objectIdSchema('owner ID'),
+    ip: Joi.string()
+      .ip({ cidr: 'forbidden' })
+      .messages({
+        'string.ip': 'Invalid IP address'
+      })
+  });
+}
@@ -2,8 +2,9 @@
  * Authentication Validator Module
  * 
  * This module provides validation schemas and functions for authentication-related
- * requests including login and signup operations. It uses Joi for schema validation
- * and ensures data integrity and security for user credentials.
+ * requests including login, signup, two-factor authentication and password change and
+ * reset operations. It uses Joi for schema validation and ensures data integrity and
+ * security for user credentials.
  * 
  * Key features:
  * - Email format validation
@@ -17,6 +18,45 @@ import { LoginRequest, SignupRequest } from '../types/auth.types';
 import { ValidationError } from '../utils/error.util';
 import { isValidEmail, isValidPassword } from '../utils/validator.util';
 
+/**
+ * Creates the Joi schema for a password chosen by the user, with the strength rules
+ * that apply at signup
+ * @returns Joi schema for validating a new password
+ */
+function newPasswordSchema(): Joi.StringSchema {
+  return Joi.string()
+    .min(8)
+    .custom((value, helpers) => {
+      if (!isValidPassword(value)) {
+        return helpers.error('password.complexity');
+      }
+      return value;
+    })
+    .required()
+    .messages({
+      'string.min': 'Password must be at least 8 characters long',
+      'password.complexity': 'Password must contain at least one letter, one number, and one special character',
+      'string.empty': 'Password is required',
+      'any.required': 'Password is required'
+    });
+}
+
+/**
+ * Creates the Joi schema for a code from an authenticator app or a recovery code
+ * @returns Joi schema for validating a two-factor code
+ */
+function twoFactorCodeSchema(): Joi.StringSchema {
+  return Joi.string()
+    .trim()
+    .max(20)
+    .required()
+    .messages({
+      'string.max': 'Verification code is invalid',
+      'string.empty': 'Verification code is required',
+      'any.required': 'Verification code is required'
+    });
+}
+
 /**
  * Creates and returns a Joi validation schema for login requests
  * @returns Joi schema for validating login requests
@@ -56,21 +96,120 @@ export function validateSignupSchema(): Joi.ObjectSchema {
         'string.empty': 'Email is required',
         'any.required': 'Email is required'
       }),
-    password: Joi.string()
-      .min(8)
-      .custom((value, helpers) => {
-        if (!isValidPassword(value)) {
-          return helpers.error('password.complexity');
-        }
-        return value;
+    password: newPasswordSchema()
+  });
+}
+
+/**
+ * Creates and returns a Joi validation schema for refresh and logout requests
+ * @returns Joi schema for validating requests carrying a refresh token
+ */
+export function validateRefreshTokenSchema(): Joi.ObjectSchema {
+  return Joi.object({
+    refreshToken: Joi.string()
+      .required()
+      .messages({
+        'string.empty': 'Refresh token is required',
+        'any.required': 'Refresh token is required'
       })
+  });
+}
+
+/**
+ * Creates and returns a Joi validation schema for password change requests
+ * @returns Joi schema for validating password change requests
+ */
+export function validateChangePasswordSchema(): Joi.ObjectSchema {
+  return Joi.object({
+    currentPassword: Joi.string()
+      .required()
+      .messages({
+        'string.empty': 'Current password is required',
+        'any.required': 'Current password is required'
+      }),
+    newPassword: newPasswordSchema()
+      .invalid(Joi.ref('currentPassword'))
+      .messages({
+        'any.invalid': 'New password must be different from the current password'
+      })
+  });
+}
+
+/**
+ * Creates and returns a Joi validation schema for forgot password requests
+ * @returns Joi schema for validating forgot password requests
+ */
+export function validateForgotPasswordSchema(): Joi.ObjectSchema {
+  return Joi.object({
+    email: Joi.string()
+      .email({ tlds: { allow: false } }) // Disable TLD validation
+      .required()
+      .messages({
+        'string.email': 'Please enter a valid email address',
+        'string.empty': 'Email is required',
+        'any.required': 'Email is required'
+      })
+  });
+}
+
+/**
+ * Creates and returns a Joi validation schema for password reset requests
+ * @returns Joi schema for validating password reset requests
+ */
+export function validateResetPasswordSchema(): Joi.ObjectSchema {
+  return Joi.object({
+    token: Joi.string()
+      .trim()
+      .hex()
+      .required()
+      .messages({
+        'string.hex': 'Reset code is invalid',
+        'string.empty': 'Reset code is required',
+        'any.required': 'Reset code is required'
+      }),
+    newPassword: newPasswordSchema()
+  });
+}
+
+/**
+ * Creates and returns a Joi validation schema for the second step of a two-factor login
+ * @returns Joi schema for validating two-factor login requests
+ */
+export function validateTwoFactorLoginSchema(): Joi.ObjectSchema {
+  return Joi.object({
+    challengeToken: Joi.string()
+      .required()
+      .messages({
+        'string.empty': 'Login challenge is required',
+        'any.required': 'Login challenge is required'
+      }),
+    code: twoFactorCodeSchema()
+  });
+}
+
+/**
+ * Creates and returns a Joi validation schema for requests enabling two-factor authentication
+ * @returns Joi schema for validating two-factor enable requests
+ */
+export function validateEnableTwoFactorSchema(): Joi.ObjectSchema {
+  return Joi.object({
+    code: twoFactorCodeSchema()
+  });
+}
+
+/**
+ * Creates and returns a Joi validation schema for requests disabling two-factor authentication
+ * @returns Joi schema for validating two-factor disable requests
+ */
+export function validateDisableTwoFactorSchema(): Joi.ObjectSchema {
+  return Joi.object({
+    password: Joi.string()
       .required()
       .messages({
-        'string.min': 'Password must be at least 8 characters long',
-        'password.complexity': 'Password must contain at least one letter, one number, and one special character',
         'string.empty': 'Password is required',
         'any.required': 'Password is required'
-      })
+      }),
+    code: twoFactorCodeSchema()
   });
 }
 
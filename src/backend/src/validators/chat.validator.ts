@@ -117,10 +117,53 @@ export function validateGetConversationsSchema(): Joi.ObjectSchema {
         'number.base': 'Limit must be a number',
         'number.min': 'Limit must be at least 1',
         'number.max': 'Limit cannot exceed 50'
+      }),
+    
+    // Whether to list archived conversations instead of active ones, defaults to false
+    archived: Joi.boolean()
+      .default(false)
+      .messages({
+        'boolean.base': 'Archived must be true or false'
       })
   });
 }
 
+/**
+ * Creates and returns a Joi validation schema for conversation update requests
+ * At least one of title, archived and pinned must be provided
+ * @returns Joi schema for validating conversation update requests
+ */
+export function validateUpdateConversationSchema(): Joi.ObjectSchema {
+  return Joi.object({
+    // New title, trimmed, with a max length of 100 characters
+    title: Joi.string()
+      .trim()
+      .min(1)
+      .max(100)
+      .messages({
+        'string.empty': 'Title cannot be empty',
+        'string.min': 'Title cannot be empty',
+        'string.max': 'Title cannot exceed 100 characters'
+      }),
+    
+    // Archived conversations are listed separately from active ones
+    archived: Joi.boolean()
+      .messages({
+        'boolean.base': 'Archived must be true or false'
+      }),
+    
+    // Pinned conversations are listed first
+    pinned: Joi.boolean()
+      .messages({
+        'boolean.base': 'Pinned must be true or false'
+      })
+  })
+    .min(1)
+    .messages({
+      'object.min': 'At least one of title, archived or pinned is required'
+    });
+}
+
 /**
  * Creates and returns a Joi validation schema for conversation ID parameters
  * @returns Joi schema for validating conversation ID parameters
@@ -0,0 +1,38 @@
+import Joi from 'joi'; // ^17.9.0
+import { isValidObjectId } from '../utils/validator.util';
+
+/**
+ * Creates and returns a Joi validation schema for file ID parameters
+ * @returns Joi schema for validating file ID parameters
+ */
+export function validateFileIdSchema(): Joi.ObjectSchema {
+  return Joi.object({
+    id: Joi.string()
+      .required()
+      .custom((value, helpers) => {
+        if (!isValidObjectId(value)) {
+          return helpers.error('string.objectId', { value });
+        }
+        return value;
+      }, 'MongoDB ObjectId validation')
+      .messages({
+        'string.objectId': 'Invalid file ID format',
+        'string.empty': 'File ID cannot be empty',
+        'any.required': 'File ID is required'
+      })
+  });
+}
+
+/**
+ * Creates and returns a Joi validation schema for file download query parameters
+ * @returns Joi schema for validating file download query parameters
+ */
+export function validateFileQuerySchema(): Joi.ObjectSchema {
+  return Joi.object({
+    thumbnail: Joi.boolean()
+      .default(false)
+      .messages({
+        'boolean.base': 'Thumbnail must be true or false'
+      })
+  });
+}
@@ -7,9 +7,20 @@ import {
   CreateHealthDataRequest,
   GetHealthDataRequest
 } from '../types/health.types';
-import { isValidObjectId, validateEnum } from '../utils/validator.util';
+import { isValidObjectId, isValidTimeZone, validateEnum } from '../utils/validator.util';
+import { getAnalyteKey, isSupportedUnit } from '../utils/lab-units.util';
 import { ValidationError } from '../utils/error.util';
 
+/**
+ * Maximum number of analytes in a single lab result
+ */
+const MAX_ANALYTES_PER_RESULT = 100;
+
+/**
+ * Maximum number of tags in a single health data filter
+ */
+const MAX_FILTER_TAGS = 20;
+
 /**
  * Validates a health data creation request
  * @param data - The data to validate
@@ -172,6 +183,64 @@ export function validateCreateHealthDataSchema(): Joi.ObjectSchema {
     }).required()
   });
 
+  // Schema for a single structured analyte in a lab result
+  const analyteSchema = Joi.object({
+    name: Joi.string()
+      .trim()
+      .min(1)
+      .max(100)
+      .required()
+      .messages({
+        'any.required': 'Analyte name is required',
+        'string.empty': 'Analyte name cannot be empty',
+        'string.min': 'Analyte name cannot be empty',
+        'string.max': 'Analyte name must be at most 100 characters'
+      }),
+    value: Joi.number()
+      .required()
+      .messages({
+        'any.required': 'Analyte value is required',
+        'number.base': 'Analyte value must be a number'
+      }),
+    unit: Joi.string()
+      .trim()
+      .min(1)
+      .max(20)
+      .required()
+      .messages({
+        'any.required': 'Analyte unit is required',
+        'string.empty': 'Analyte unit cannot be empty',
+        'string.min': 'Analyte unit cannot be empty',
+        'string.max': 'Analyte unit must be at most 20 characters'
+      }),
+    referenceLow: Joi.number()
+      .messages({
+        'number.base': 'Reference range low must be a number'
+      }),
+    referenceHigh: Joi.number()
+      .when('referenceLow', {
+        is: Joi.exist(),
+        then: Joi.number().min(Joi.ref('referenceLow'))
+      })
+      .messages({
+        'number.base': 'Reference range high must be a number',
+        'number.min': 'Reference range high must not be below reference range low'
+      }),
+    // Recomputed from the reference range when the result is saved
+    outOfRange: Joi.boolean()
+      .messages({
+        'boolean.base': 'Out of range flag must be true or false'
+      })
+  }).custom((value: { name: string; unit: string }, helpers) => {
+    // Known analytes must use a unit that can be converted to their canonical unit
+    if (!isSupportedUnit(value.name, value.unit)) {
+      return helpers.error('analyte.unit', { unit: value.unit, name: value.name });
+    }
+    return value;
+  }).messages({
+    'analyte.unit': 'Unsupported unit "{#unit}" for {#name}'
+  });
+
   // Lab result-specific schema
   const labResultSchema = Joi.object({
     data: Joi.object({
@@ -194,6 +263,15 @@ export function validateCreateHealthDataSchema(): Joi.ObjectSchema {
         }),
       results: Joi.object()
         .default({}),
+      analytes: Joi.array()
+        .items(analyteSchema)
+        .max(MAX_ANALYTES_PER_RESULT)
+        .unique((a: { name: string }, b: { name: string }) => getAnalyteKey(a.name) === getAnalyteKey(b.name))
+        .default([])
+        .messages({
+          'array.max': `A lab result can have at most ${MAX_ANALYTES_PER_RESULT} analytes`,
+          'array.unique': 'Each analyte can only be entered once per lab result'
+        }),
       notes: Joi.string()
         .trim()
         .max(1000)
@@ -294,11 +372,54 @@ export function validateGetHealthDataSchema(): Joi.ObjectSchema {
       .messages({
         'date.format': 'Invalid date format'
       }),
-    type: Joi.string()
-      .valid(...Object.values(HealthDataType))
+    startDate: Joi.date()
+      .iso()
+      .messages({
+        'date.base': 'Start date must be a valid date',
+        'date.format': 'Start date must be an ISO 8601 date'
+      }),
+    endDate: Joi.date()
+      .iso()
+      .when('startDate', {
+        is: Joi.exist(),
+        then: Joi.date().min(Joi.ref('startDate'))
+      })
+      .messages({
+        'date.base': 'End date must be a valid date',
+        'date.format': 'End date must be an ISO 8601 date',
+        'date.min': 'End date must not be before start date'
+      }),
+    types: Joi.array()
+      .items(Joi.string().valid(...Object.values(HealthDataType)))
+      .single()
+      .unique()
       .messages({
         'any.only': 'Invalid health data type'
       }),
+    tags: Joi.array()
+      .items(Joi.string().trim().min(1).max(50))
+      .single()
+      .unique()
+      .max(MAX_FILTER_TAGS)
+      .messages({
+        'string.empty': 'Tags cannot be empty',
+        'string.max': 'Tags must be at most 50 characters',
+        'array.max': `At most ${MAX_FILTER_TAGS} tags can be filtered on`
+      }),
+    severity: Joi.array()
+      .items(Joi.string().valid(...Object.values(SymptomSeverity)))
+      .single()
+      .unique()
+      .messages({
+        'any.only': 'Invalid symptom severity'
+      }),
+    mealType: Joi.array()
+      .items(Joi.string().valid(...Object.values(MealType)))
+      .single()
+      .unique()
+      .messages({
+        'any.only': 'Invalid meal type'
+      }),
     search: Joi.string()
       .trim()
       .max(100)
@@ -324,6 +445,113 @@ export function validateGetHealthDataSchema(): Joi.ObjectSchema {
         'number.min': 'Limit must be at least 1',
         'number.max': 'Limit must be at most 100'
       })
+  })
+    // A single type was the only type filter before several could be combined
+    .rename('type', 'types')
+    .without('date', ['startDate', 'endDate'])
+    .messages({
+      'object.rename.override': 'Use either type or types, not both',
+      'object.without': 'Date cannot be combined with startDate or endDate'
+    });
+}
+
+/**
+ * Maximum number of days covered by a single insights request
+ */
+const MAX_INSIGHTS_RANGE_DAYS = 366;
+
+/**
+ * Returns a Joi schema for validating health insights queries
+ * @returns Joi schema for health insights query validation
+ */
+export function validateHealthInsightsSchema(): Joi.ObjectSchema {
+  return Joi.object({
+    startDate: Joi.date()
+      .iso()
+      .messages({
+        'date.base': 'Start date must be a valid date',
+        'date.format': 'Start date must be an ISO 8601 date'
+      }),
+    endDate: Joi.date()
+      .iso()
+      .when('startDate', {
+        is: Joi.exist(),
+        then: Joi.date().min(Joi.ref('startDate'))
+      })
+      .messages({
+        'date.base': 'End date must be a valid date',
+        'date.format': 'End date must be an ISO 8601 date',
+        'date.min': 'End date must not be before start date'
+      }),
+    timezone: Joi.string()
+      .custom((value, helpers) => {
+        if (!isValidTimeZone(value)) {
+          return helpers.error('timezone.invalid');
+        }
+        return value;
+      })
+      .default('UTC')
+      .messages({
+        'timezone.invalid': 'Invalid time zone'
+      })
+  }).custom((value, helpers) => {
+    // Keep aggregations bounded; the end date defaults to now
+    if (value.startDate) {
+      const endDate: Date = value.endDate || new Date();
+      const rangeDays = (endDate.getTime() - value.startDate.getTime()) / (24 * 60 * 60 * 1000);
+      if (rangeDays > MAX_INSIGHTS_RANGE_DAYS) {
+        return helpers.error('range.max');
+      }
+    }
+    return value;
+  }).messages({
+    'range.max': `Date range must not exceed ${MAX_INSIGHTS_RANGE_DAYS} days`
+  });
+}
+
+/**
+ * Returns a Joi schema for validating analyte history route parameters
+ * @returns Joi schema for analyte key validation
+ */
+export function validateAnalyteParamSchema(): Joi.ObjectSchema {
+  return Joi.object({
+    analyte: Joi.string()
+      .trim()
+      .lowercase()
+      .max(100)
+      .pattern(/^[a-z0-9]+(-[a-z0-9]+)*$/)
+      .required()
+      .messages({
+        'any.required': 'Analyte is required',
+        'string.max': 'Analyte must be at most 100 characters',
+        'string.pattern.base': 'Invalid analyte key'
+      })
+  });
+}
+
+/**
+ * Returns a Joi schema for validating analyte history queries
+ * @returns Joi schema for analyte history query validation
+ */
+export function validateAnalyteHistorySchema(): Joi.ObjectSchema {
+  return Joi.object({
+    startDate: Joi.date()
+      .iso()
+      .messages({
+        'date.base': 'Start date must be a valid date',
+        'date.format': 'Start date must be an ISO 8601 date'
+      }),
+    endDate: Joi.date()
+      .iso()
+      .when('startDate', {
+        is: Joi.exist(),
+        then: Joi.date().min(Joi.ref('startDate'))
+      })
+      .messages({
+        'date.base': 'End date must be a valid date',
+        'date.format': 'End date must be an ISO 8601 date',
+        'date.min': 'End date must not be before start date'
+      })
   });
 }
 
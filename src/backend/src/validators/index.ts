@@ -3,7 +3,7 @@
  * 
  * This module serves as a centralized export point for all validator functions and schemas
  * used throughout the application. It aggregates validation utilities from specific domain
- * modules (auth, chat, health, user) to provide a consistent interface for data validation.
+ * modules (audit, auth, chat, file, health, tool, user) to provide a consistent interface for data validation.
  * 
  * By importing from this index, other modules can access all validation utilities without
  * needing to know their specific source files, promoting better code organization and maintainability.
@@ -12,12 +12,25 @@
  * and ensure consistent validation logic across all API endpoints.
  */
 
+// Audit log validators
+export {
+  validateGetAuditLogSchema,
+  validateAdminAuditLogSchema
+} from './audit.validator';
+
 // Authentication validators
 export {
   validateLogin,
   validateSignup,
   validateLoginSchema,
-  validateSignupSchema
+  validateSignupSchema,
+  validateRefreshTokenSchema,
+  validateChangePasswordSchema,
+  validateForgotPasswordSchema,
+  validateResetPasswordSchema,
+  validateTwoFactorLoginSchema,
+  validateEnableTwoFactorSchema,
+  validateDisableTwoFactorSchema
 } from './auth.validator';
 
 // Chat validators
@@ -26,9 +39,16 @@ export {
   validateSendMessageSchema,
   validateGetChatHistorySchema,
   validateGetConversationsSchema,
+  validateUpdateConversationSchema,
   validateConversationIdSchema
 } from './chat.validator';
 
+// File validators
+export {
+  validateFileIdSchema,
+  validateFileQuerySchema
+} from './file.validator';
+
 // Health data validators
 export {
   validateCreateHealthData,
@@ -36,13 +56,34 @@ export {
   validateHealthDataId,
   validateCreateHealthDataSchema,
   validateGetHealthDataSchema,
-  validateHealthDataIdSchema
+  validateHealthDataIdSchema,
+  validateHealthInsightsSchema,
+  validateAnalyteParamSchema,
+  validateAnalyteHistorySchema
 } from './health.validator';
 
+// Mobile metrics validators
+export {
+  validateMobileBeaconSchema,
+  validateMobileMetricsSchema
+} from './metrics.validator';
+
+// LLM tool argument validators
+export {
+  MAX_TOOL_RESULTS,
+  validateSearchHealthRecordsToolSchema,
+  validateLabTrendToolSchema,
+  validateSymptomTimelineToolSchema,
+  validateMealSummaryToolSchema,
+  validateToolArguments
+} from './tool.validator';
+
 // User validators
 export {
   validateUserId,
   validateUserProfile,
   validateUserIdSchema,
-  validateUserProfileSchema
+  validateUserProfileSchema,
+  validateExportIdSchema,
+  validateDeleteAccountSchema
 } from './user.validator';
\ No newline at end of file
@@ -0,0 +1,100 @@
+/**
+ * Metrics Validator Module
+ *
+ * Provides Joi schema validation for timing beacons sent by the mobile app. Every value that
+ * becomes a Prometheus label is bounded so that clients cannot create unlimited time series.
+ */
+
+import Joi from 'joi'; // v17.9.0
+import { MobileBeaconType, MobilePlatform } from '../types/metrics.types';
+
+// Maximum number of beacons accepted in one request
+export const MAX_BEACONS_PER_REQUEST = 50;
+
+// Longest duration accepted from a client (one day), in milliseconds
+const MAX_DURATION_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Creates and returns a Joi validation schema for a single mobile timing beacon
+ * @returns Joi schema for validating a mobile timing beacon
+ */
+export function validateMobileBeaconSchema(): Joi.ObjectSchema {
+  return Joi.object({
+    type: Joi.string()
+      .valid(...Object.values(MobileBeaconType))
+      .required()
+      .messages({
+        'any.only': `Beacon type must be one of: ${Object.values(MobileBeaconType).join(', ')}`,
+        'any.required': 'Beacon type is required'
+      }),
+
+    durationMs: Joi.number()
+      .min(0)
+      .max(MAX_DURATION_MS)
+      .required()
+      .messages({
+        'number.base': 'Duration must be a number',
+        'number.min': 'Duration cannot be negative',
+        'number.max': 'Duration cannot exceed one day',
+        'any.required': 'Duration is required'
+      }),
+
+    os: Joi.string()
+      .valid(...Object.values(MobilePlatform))
+      .messages({
+        'any.only': `OS must be one of: ${Object.values(MobilePlatform).join(', ')}`
+      }),
+
+    appVersion: Joi.string()
+      .pattern(/^\d+\.\d+\.\d+$/)
+      .messages({
+        'string.pattern.base': 'App version must be in the form major.minor.patch'
+      }),
+
+    // Screen names are route names in the app, e.g. "HealthLog"
+    screen: Joi.string()
+      .pattern(/^[A-Za-z][A-Za-z0-9]*$/)
+      .max(50)
+      .when('type', { is: MobileBeaconType.SCREEN_LOAD, then: Joi.required() })
+      .messages({
+        'string.pattern.base': 'Screen must be a screen name',
+        'string.max': 'Screen cannot exceed 50 characters',
+        'any.required': 'Screen is required for screen load beacons'
+      }),
+
+    // API paths only, IDs are replaced with placeholders before recording
+    endpoint: Joi.string()
+      .pattern(/^\/api\/[\w\-/:?=&.]*$/)
+      .max(200)
+      .when('type', { is: MobileBeaconType.API_REQUEST, then: Joi.required() })
+      .messages({
+        'string.pattern.base': 'Endpoint must be an API path',
+        'string.max': 'Endpoint cannot exceed 200 characters',
+        'any.required': 'Endpoint is required for API request beacons'
+      }),
+
+    success: Joi.boolean()
+      .messages({
+        'boolean.base': 'Success must be true or false'
+      })
+  });
+}
+
+/**
+ * Creates and returns a Joi validation schema for a batch of mobile timing beacons
+ * @returns Joi schema for validating mobile metrics requests
+ */
+export function validateMobileMetricsSchema(): Joi.ObjectSchema {
+  return Joi.object({
+    beacons: Joi.array()
+      .items(validateMobileBeaconSchema())
+      .min(1)
+      .max(MAX_BEACONS_PER_REQUEST)
+      .required()
+      .messages({
+        'array.min': 'At least one beacon is required',
+        'array.max': `Cannot send more than ${MAX_BEACONS_PER_REQUEST} beacons at once`,
+        'any.required': 'Beacons are required'
+      })
+  });
+}
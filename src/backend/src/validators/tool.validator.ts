@@ -0,0 +1,140 @@
+/**
+ * LLM Tool Validator Module
+ *
+ * Provides Joi schema validation for the arguments of the tools the LLM can call to look up
+ * a user's health history. Arguments are written by the model rather than by a client, so
+ * they are validated as strictly as request bodies and unknown arguments are dropped.
+ */
+
+import Joi from 'joi'; // ^17.9.0
+import { LLMJsonObject } from '../types/chat.types';
+import { HealthDataType } from '../types/health.types';
+import { ValidationError } from '../utils/error.util';
+
+// Most records a single tool call returns, so that results stay small enough for the prompt
+export const MAX_TOOL_RESULTS = 20;
+
+/**
+ * Date range arguments shared by the tools
+ */
+const dateRangeKeys = {
+  startDate: Joi.date()
+    .iso()
+    .messages({
+      'date.base': 'startDate must be a valid date',
+      'date.format': 'startDate must be an ISO 8601 date'
+    }),
+  endDate: Joi.date()
+    .iso()
+    .when('startDate', {
+      is: Joi.exist(),
+      then: Joi.date().min(Joi.ref('startDate'))
+    })
+    .messages({
+      'date.base': 'endDate must be a valid date',
+      'date.format': 'endDate must be an ISO 8601 date',
+      'date.min': 'endDate must not be before startDate'
+    })
+};
+
+/**
+ * Free-text search argument shared by the tools
+ */
+const queryKey = Joi.string()
+  .trim()
+  .max(200)
+  .messages({
+    'string.max': 'query must be at most 200 characters'
+  });
+
+/**
+ * Creates and returns a Joi validation schema for the arguments of search_health_records
+ * @returns Joi schema for validating the search arguments
+ */
+export function validateSearchHealthRecordsToolSchema(): Joi.ObjectSchema {
+  return Joi.object({
+    query: queryKey,
+    types: Joi.array()
+      .items(Joi.string().valid(...Object.values(HealthDataType)))
+      .messages({
+        'any.only': `types must be ${Object.values(HealthDataType).join(', ')}`
+      }),
+    ...dateRangeKeys,
+    limit: Joi.number()
+      .integer()
+      .min(1)
+      .max(MAX_TOOL_RESULTS)
+      .default(10)
+      .messages({
+        'number.base': 'limit must be a number',
+        'number.min': 'limit must be at least 1',
+        'number.max': `limit must be at most ${MAX_TOOL_RESULTS}`
+      })
+  });
+}
+
+/**
+ * Creates and returns a Joi validation schema for the arguments of get_lab_trend
+ * @returns Joi schema for validating the lab trend arguments
+ */
+export function validateLabTrendToolSchema(): Joi.ObjectSchema {
+  return Joi.object({
+    analyte: Joi.string()
+      .trim()
+      .max(100)
+      .required()
+      .messages({
+        'any.required': 'analyte is required',
+        'string.empty': 'analyte cannot be empty',
+        'string.max': 'analyte must be at most 100 characters'
+      }),
+    ...dateRangeKeys
+  });
+}
+
+/**
+ * Creates and returns a Joi validation schema for the arguments of get_symptom_timeline
+ * @returns Joi schema for validating the symptom timeline arguments
+ */
+export function validateSymptomTimelineToolSchema(): Joi.ObjectSchema {
+  return Joi.object({
+    query: queryKey,
+    ...dateRangeKeys
+  });
+}
+
+/**
+ * Creates and returns a Joi validation schema for the arguments of get_meal_summary
+ * @returns Joi schema for validating the meal summary arguments
+ */
+export function validateMealSummaryToolSchema(): Joi.ObjectSchema {
+  return Joi.object({
+    range: Joi.string()
+      .valid('week', 'month', 'quarter')
+      .default('week')
+      .messages({
+        'any.only': 'range must be week, month or quarter'
+      })
+  });
+}
+
+/**
+ * Validates the arguments of a tool call against the tool's schema
+ * @param schema - Joi schema of the tool's arguments
+ * @param args - Arguments written by the model
+ * @returns The validated arguments with defaults applied and unknown arguments removed
+ * @throws ValidationError listing every invalid argument
+ */
+export function validateToolArguments<T>(schema: Joi.ObjectSchema, args: LLMJsonObject): T {
+  const { error, value } = schema.validate(args, { abortEarly: false, stripUnknown: true });
+
+  if (error) {
+    const validationErrors: Record<string, string> = {};
+    error.details.forEach((detail) => {
+      validationErrors[detail.path.join('.')] = detail.message;
+    });
+    throw new ValidationError(`Invalid arguments: ${Object.values(validationErrors).join('; ')}`, validationErrors);
+  }
+
+  return value as T;
+}
@@ -1,7 +1,38 @@
 import Joi from 'joi'; // ^17.9.0
-import { UserProfileResponse } from '../types/user.types';
+import { Sex, UnitsPreference, UpdateUserProfileRequest } from '../types/user.types';
 import { ValidationError } from '../utils/error.util';
-import { isValidObjectId, isValidEmail } from '../utils/validator.util';
+import { isValidObjectId } from '../utils/validator.util';
+
+// Limits for the free-text lists in a health profile
+const MAX_PROFILE_LIST_ITEMS = 30;
+const MAX_PROFILE_LIST_ITEM_LENGTH = 100;
+
+/**
+ * Creates a Joi schema for one of the free-text lists in a health profile, such as
+ * conditions or allergies
+ * @param label - Name of the list used in error messages
+ * @returns Joi schema for validating the list
+ */
+function profileListSchema(label: string): Joi.ArraySchema {
+  return Joi.array()
+    .items(
+      Joi.string()
+        .trim()
+        .min(1)
+        .max(MAX_PROFILE_LIST_ITEM_LENGTH)
+        .messages({
+          'string.empty': `${label} cannot contain empty entries`,
+          'string.max': `Each entry in ${label.toLowerCase()} cannot exceed ${MAX_PROFILE_LIST_ITEM_LENGTH} characters`
+        })
+    )
+    .max(MAX_PROFILE_LIST_ITEMS)
+    .unique((a: string, b: string) => a.toLowerCase() === b.toLowerCase())
+    .messages({
+      'array.base': `${label} must be a list`,
+      'array.max': `${label} cannot have more than ${MAX_PROFILE_LIST_ITEMS} entries`,
+      'array.unique': `${label} cannot contain duplicates`
+    });
+}
 
 /**
  * Creates and returns a Joi validation schema for user ID parameters
@@ -27,21 +58,105 @@ export function validateUserIdSchema(): Joi.ObjectSchema {
 
 /**
  * Creates and returns a Joi validation schema for user profile updates
+ * Every field is optional, null clears a field, and at least one field must be given.
+ * Height and weight are always sent in metric units.
  * @returns Joi schema for validating user profile updates
  */
 export function validateUserProfileSchema(): Joi.ObjectSchema {
   return Joi.object({
-    email: Joi.string()
-      .email()
+    displayName: Joi.string()
+      .trim()
+      .min(1)
+      .max(50)
+      .allow(null)
+      .messages({
+        'string.empty': 'Display name cannot be empty',
+        'string.max': 'Display name cannot exceed 50 characters'
+      }),
+    dateOfBirth: Joi.date()
+      .iso()
+      .min('1900-01-01')
+      .max('now')
+      .allow(null)
+      .messages({
+        'date.base': 'Date of birth must be a valid date',
+        'date.format': 'Date of birth must be in YYYY-MM-DD format',
+        'date.min': 'Date of birth cannot be before 1900',
+        'date.max': 'Date of birth cannot be in the future'
+      }),
+    sex: Joi.string()
+      .valid(...Object.values(Sex))
+      .allow(null)
+      .messages({
+        'any.only': `Sex must be one of: ${Object.values(Sex).join(', ')}`
+      }),
+    heightCm: Joi.number()
+      .min(30)
+      .max(300)
+      .allow(null)
+      .messages({
+        'number.base': 'Height must be a number',
+        'number.min': 'Height must be at least 30 cm',
+        'number.max': 'Height cannot exceed 300 cm'
+      }),
+    weightKg: Joi.number()
+      .min(1)
+      .max(500)
+      .allow(null)
+      .messages({
+        'number.base': 'Weight must be a number',
+        'number.min': 'Weight must be at least 1 kg',
+        'number.max': 'Weight cannot exceed 500 kg'
+      }),
+    conditions: profileListSchema('Conditions'),
+    allergies: profileListSchema('Allergies'),
+    medications: profileListSchema('Medications'),
+    dietaryPreferences: profileListSchema('Dietary preferences'),
+    unitsPreference: Joi.string()
+      .valid(...Object.values(UnitsPreference))
+      .messages({
+        'any.only': `Units preference must be one of: ${Object.values(UnitsPreference).join(', ')}`
+      })
+  })
+    .min(1)
+    .messages({
+      'object.min': 'At least one profile field must be provided'
+    });
+}
+
+/**
+ * Creates and returns a Joi validation schema for data export ID parameters
+ * @returns Joi schema for validating data export ID parameters
+ */
+export function validateExportIdSchema(): Joi.ObjectSchema {
+  return Joi.object({
+    id: Joi.string()
+      .required()
       .custom((value, helpers) => {
-        if (value && !isValidEmail(value)) {
-          return helpers.error('string.email', { value });
+        if (!isValidObjectId(value)) {
+          return helpers.error('string.objectId', { value });
         }
         return value;
-      }, 'Email format validation')
+      }, 'MongoDB ObjectId validation')
+      .messages({
+        'string.objectId': 'Invalid export ID format',
+        'string.empty': 'Export ID cannot be empty',
+        'any.required': 'Export ID is required'
+      })
+  });
+}
+
+/**
+ * Creates and returns a Joi validation schema for account deletion requests
+ * @returns Joi schema for validating the password confirming an account deletion
+ */
+export function validateDeleteAccountSchema(): Joi.ObjectSchema {
+  return Joi.object({
+    password: Joi.string()
+      .required()
       .messages({
-        'string.email': 'Invalid email format',
-        'string.empty': 'Email cannot be empty'
+        'string.empty': 'Password is required to delete your account',
+        'any.required': 'Password is required to delete your account'
       })
   });
 }
@@ -70,9 +185,9 @@ export function validateUserId(userId: string): { error?: ValidationError, value
  * @param profileData - User profile data to validate
  * @returns Validation result with potential error and validated data
  */
-export function validateUserProfile(profileData: Partial<UserProfileResponse>): { 
+export function validateUserProfile(profileData: UpdateUserProfileRequest): { 
   error?: ValidationError, 
-  value: Partial<UserProfileResponse> 
+  value: UpdateUserProfileRequest 
 } {
   const schema = validateUserProfileSchema();
   const { error, value } = schema.validate(profileData, { abortEarly: false });
@@ -25,6 +25,7 @@ import {
 } from '../mocks/user.mock';
 import User from '../../src/models/user.model';
 import { hashPassword } from '../../src/utils/encryption.util';
+import { generateTotp } from '../../src/utils/totp.util';
 
 // Define global variables for the Express app and API prefix
 let app: express.Application;
@@ -198,6 +199,86 @@ describe('Authentication Routes', () => {
     expect(response.body.error.code).toBe('Invalid email or password');
   });
 
+  it('POST /login - should lock the account after repeated failed logins', async () => {
+    // Create user in database with test credentials
+    const hashedPassword = await hashPassword(mockUserInput.password);
+    await User.create({ ...mockUserInput, password: hashedPassword });
+
+    // Fail to log in until the limit of 5 failed attempts is reached
+    for (let attempt = 1; attempt < 5; attempt++) {
+      const failed = await supertest(app)
+        .post(`${apiPrefix}/login`)
+        .send({ ...mockUserInput, password: 'wrong-password' });
+      expect(failed.statusCode).toBe(401);
+    }
+
+    const locked = await supertest(app)
+      .post(`${apiPrefix}/login`)
+      .send({ ...mockUserInput, password: 'wrong-password' });
+
+    // Expect 429 status code with the time the lockout ends
+    expect(locked.statusCode).toBe(429);
+    expect(locked.body.error.code).toBe('Account temporarily locked due to too many failed login attempts');
+    expect(Date.parse(locked.body.error.details.lockedUntil as string)).toBeGreaterThan(Date.now());
+    expect(Number(locked.headers['retry-after'])).toBeGreaterThan(0);
+
+    // Even the correct password is refused while the account is locked
+    const refused = await supertest(app)
+      .post(`${apiPrefix}/login`)
+      .send(mockUserInput);
+    expect(refused.statusCode).toBe(429);
+  });
+
+  it('POST /login/2fa - should require a code after the password once two-factor authentication is on', async () => {
+    // Sign up and enroll in two-factor authentication
+    const signup = await supertest(app)
+      .post(`${apiPrefix}/signup`)
+      .send(mockUserInput);
+    const authHeader = `Bearer ${extractTokenFromResponse(signup)}`;
+
+    const setup = await supertest(app)
+      .post(`${apiPrefix}/2fa/setup`)
+      .set('Authorization', authHeader);
+    expect(setup.statusCode).toBe(200);
+    expect(setup.body.data.qrCode).toMatch(/^data:image\/png;base64,/);
+
+    const enable = await supertest(app)
+      .post(`${apiPrefix}/2fa/enable`)
+      .set('Authorization', authHeader)
+      .send({ code: generateTotp(setup.body.data.secret as string) });
+    expect(enable.statusCode).toBe(200);
+    const recoveryCodes = enable.body.data.recoveryCodes as string[];
+    expect(recoveryCodes).toHaveLength(10);
+
+    // The password alone now only yields a challenge
+    const login = await supertest(app)
+      .post(`${apiPrefix}/login`)
+      .send(mockUserInput);
+    expect(login.statusCode).toBe(200);
+    expect(login.body.data.twoFactorRequired).toBe(true);
+    expect(login.body.data.token).toBeUndefined();
+
+    // The challenge can't be used as an access token
+    const challengeToken = login.body.data.challengeToken as string;
+    const misused = await supertest(app)
+      .get(`${apiPrefix}/validate`)
+      .set('Authorization', `Bearer ${challengeToken}`);
+    expect(misused.statusCode).toBe(401);
+
+    // A recovery code completes the login, but only once
+    const verified = await supertest(app)
+      .post(`${apiPrefix}/login/2fa`)
+      .send({ challengeToken, code: recoveryCodes[0] });
+    expect(verified.statusCode).toBe(200);
+    expect(verified.body.data.token).toBeDefined();
+
+    const reused = await supertest(app)
+      .post(`${apiPrefix}/login/2fa`)
+      .send({ challengeToken, code: recoveryCodes[0] });
+    expect(reused.statusCode).toBe(401);
+    expect(reused.body.error.code).toBe('Invalid verification code');
+  });
+
   it('POST /login - should return 400 with invalid request format', async () => {
     // Send POST request to /api/authz/login with missing email field
     const response = await supertest(app)
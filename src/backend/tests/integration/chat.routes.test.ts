@@ -31,6 +31,7 @@ import { DEFAULT_MOCK_RESPONSE } from '../mocks/llm.mock';
 import { User } from '../../src/models/user.model';
 import { ChatConversation } from '../../src/models/chat-conversation.model';
 import { ChatMessage } from '../../src/models/chat-message.model';
+import { ConversationTitleSource } from '../../src/types/chat.types';
 
 describe('Chat Routes', () => {
   let app: express.Application;
@@ -289,6 +290,125 @@ describe('Chat Routes', () => {
     expect(response.status).toBe(404);
   });
   
+  /**
+   * Tests listing archived conversations separately, with pinned conversations first
+   */
+  test('should list pinned conversations first and archived ones separately', async () => {
+    const [older, newer, archived] = createMockConversationArray(mockUserId, 3);
+    await new ChatConversation({ ...older, pinned: true }).save();
+    await new ChatConversation(newer).save();
+    await new ChatConversation({ ...archived, archived: true }).save();
+    
+    const active = await request(app)
+      .get('/api/chat/conversations')
+      .set('Authorization', `Bearer ${authToken}`);
+      
+    expect(active.status).toBe(200);
+    expect(active.body.data.items.map((item: { _id: string }) => item._id)).toEqual([
+      older._id.toString(),
+      newer._id.toString()
+    ]);
+    expect(active.body.data.pagination.total).toBe(2);
+    
+    const archivedResponse = await request(app)
+      .get('/api/chat/conversations?archived=true')
+      .set('Authorization', `Bearer ${authToken}`);
+      
+    expect(archivedResponse.status).toBe(200);
+    expect(archivedResponse.body.data.items.map((item: { _id: string }) => item._id)).toEqual([
+      archived._id.toString()
+    ]);
+  });
+  
+  /**
+   * Tests renaming, archiving and pinning a conversation
+   */
+  test('should update a conversation', async () => {
+    const conversation = await createMockChatConversation({
+      userId: new mongoose.Types.ObjectId(mockUserId)
+    });
+    await new ChatConversation(conversation).save();
+    
+    const response = await request(app)
+      .patch(`/api/chat/conversations/${conversation._id.toString()}`)
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ title: '  Cholesterol results ', archived: true, pinned: true });
+      
+    expect(response.status).toBe(200);
+    expect(response.body.data).toMatchObject({ title: 'Cholesterol results', archived: true, pinned: true });
+    
+    // A title set by the user is never replaced by a generated one
+    const stored = await ChatConversation.findOne({ _id: conversation._id }).lean().exec();
+    expect(stored).toMatchObject({
+      title: 'Cholesterol results',
+      titleSource: ConversationTitleSource.USER,
+      archived: true,
+      pinned: true
+    });
+  });
+  
+  /**
+   * Tests that an update needs at least one field
+   */
+  test('should reject an empty conversation update', async () => {
+    const conversation = await createMockChatConversation({
+      userId: new mongoose.Types.ObjectId(mockUserId)
+    });
+    await new ChatConversation(conversation).save();
+    
+    const response = await request(app)
+      .patch(`/api/chat/conversations/${conversation._id.toString()}`)
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({});
+      
+    expect(response.status).toBe(400);
+  });
+  
+  /**
+   * Tests deleting a conversation together with its messages
+   */
+  test('should delete a conversation with its messages', async () => {
+    const conversation = await createMockChatConversation({
+      userId: new mongoose.Types.ObjectId(mockUserId)
+    });
+    await new ChatConversation(conversation).save();
+    for (const msg of createMockChatMessageArray(conversation._id.toString(), mockUserId, 4)) {
+      await new ChatMessage(msg).save();
+    }
+    
+    const response = await request(app)
+      .delete(`/api/chat/conversations/${conversation._id.toString()}`)
+      .set('Authorization', `Bearer ${authToken}`);
+      
+    expect(response.status).toBe(204);
+    expect(await ChatConversation.countDocuments({ _id: conversation._id }).exec()).toBe(0);
+    expect(await ChatMessage.countDocuments({ conversationId: conversation._id }).exec()).toBe(0);
+  });
+  
+  /**
+   * Tests that another user's conversation can't be changed or deleted
+   */
+  test('should not allow updating or deleting another user\'s conversation', async () => {
+    const anotherUserId = new mongoose.Types.ObjectId();
+    const conversation = await createMockChatConversation({ userId: anotherUserId });
+    await new ChatConversation(conversation).save();
+    for (const msg of createMockChatMessageArray(conversation._id.toString(), anotherUserId.toString(), 2)) {
+      await new ChatMessage(msg).save();
+    }
+    
+    const patchResponse = await request(app)
+      .patch(`/api/chat/conversations/${conversation._id.toString()}`)
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ title: 'Mine now' });
+    const deleteResponse = await request(app)
+      .delete(`/api/chat/conversations/${conversation._id.toString()}`)
+      .set('Authorization', `Bearer ${authToken}`);
+      
+    expect(patchResponse.status).toBe(404);
+    expect(deleteResponse.status).toBe(404);
+    expect(await ChatMessage.countDocuments({ conversationId: conversation._id }).exec()).toBe(2);
+  });
+  
   /**
    * Tests retrieving chat history for a conversation
    */
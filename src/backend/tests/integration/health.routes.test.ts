@@ -23,6 +23,7 @@ import {
 } from '../mocks/health.mock';
 import { HealthDataModel } from '../../src/models/health-data.model';
 import { UserModel } from '../../src/models/user.model';
+import { HealthRepository } from '../../src/repositories/health.repository';
 import { generateToken } from '../../src/utils/jwt.util';
 import { HealthDataType } from '../../src/types/health.types';
 import { TokenType } from '../../src/types/auth.types';
@@ -30,6 +31,7 @@ import { TokenType } from '../../src/types/auth.types';
 let app: Express;
 let authToken: string;
 let testUser: any;
+let healthRepository: HealthRepository;
 
 describe('Health Routes Integration Tests', () => {
   beforeAll(async () => {
@@ -38,6 +40,7 @@ describe('Health Routes Integration Tests', () => {
     
     // Create a test user in the database
     testUser = await UserModel.create(mockUserDocument);
+    healthRepository = new HealthRepository(mongoose.connection);
     
     // Generate a JWT token for authentication
     authToken = generateToken({
@@ -80,6 +83,11 @@ describe('Health Routes Integration Tests', () => {
       expect(savedData).toBeTruthy();
       expect(savedData?.type).toBe(HealthDataType.MEAL);
       expect(savedData?.userId.toString()).toBe(testUser._id.toString());
+
+      // Verify the description is only stored encrypted
+      const storedData = await HealthDataModel.findById(response.body.id).lean();
+      expect(storedData?.encryption).toBeDefined();
+      expect(storedData?.data).not.toHaveProperty('description');
     });
 
     it('should create lab result health data successfully', async () => {
@@ -302,16 +310,22 @@ describe('Health Routes Integration Tests', () => {
     });
 
     it('should search health data by text', async () => {
-      // Seed database with data containing different text
-      await HealthDataModel.create({
-        ...mockMealHealthData,
+      // Seed database through the repository, which builds the blind indexes searched by
+      await healthRepository.createHealthData({
         userId: testUser._id,
-        data: { ...mockMealHealthData.data, description: 'Oatmeal with banana' }
+        type: HealthDataType.MEAL,
+        timestamp: new Date(),
+        data: { ...mockMealHealthData.data, description: 'Oatmeal with banana' },
+        fileIds: [],
+        metadata: mockMealHealthData.metadata
       });
-      await HealthDataModel.create({
-        ...mockMealHealthData,
+      await healthRepository.createHealthData({
         userId: testUser._id,
-        data: { ...mockMealHealthData.data, description: 'Pancakes with syrup' }
+        type: HealthDataType.MEAL,
+        timestamp: new Date(),
+        data: { ...mockMealHealthData.data, description: 'Pancakes with syrup' },
+        fileIds: [],
+        metadata: mockMealHealthData.metadata
       });
 
       // Send request with search term
@@ -326,6 +340,28 @@ describe('Health Routes Integration Tests', () => {
       expect(response.body.items[0].data.description).toContain('banana');
     });
 
+    it('should match quoted phrases only with their words next to each other and in order', async () => {
+      const descriptions = ['Headache after lunch', 'Lunch after a headache', 'Headache after a late lunch'];
+      for (const description of descriptions) {
+        await healthRepository.createHealthData({
+          userId: testUser._id,
+          type: HealthDataType.SYMPTOM,
+          timestamp: new Date(),
+          data: { ...mockSymptomHealthData.data, description },
+          fileIds: [],
+          metadata: mockSymptomHealthData.metadata
+        });
+      }
+
+      const response = await request(app)
+        .get(`/api/health?search=${encodeURIComponent('"after lunch"')}`)
+        .set('Authorization', `Bearer ${authToken}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.items).toHaveLength(1);
+      expect(response.body.items[0].data.description).toBe('Headache after lunch');
+    });
+
     it('should paginate health data results', async () => {
       // Seed database with multiple items
       const dataEntries = Array(15).fill(null).map((_, i) => ({
@@ -464,9 +500,15 @@ describe('Health Routes Integration Tests', () => {
       expect(response.body.data.description).toBe('Updated meal description');
 
       // Verify data was updated in database
-      const updatedData = await HealthDataModel.findById(healthData._id);
+      const updatedData = await healthRepository.findHealthDataById(
+        healthData._id.toString(),
+        testUser._id.toString()
+      );
       expect(updatedData).toBeTruthy();
       expect(updatedData?.data.description).toBe('Updated meal description');
+      const storedData = await HealthDataModel.findById(healthData._id).lean();
+      expect(storedData?.encryption).toBeDefined();
+      expect(storedData?.data).not.toHaveProperty('description');
     });
 
     it('should update health data with file upload', async () => {
@@ -499,7 +541,10 @@ describe('Health Routes Integration Tests', () => {
         expect(response.body.files).toHaveLength(1);
 
         // Verify data was updated in database
-        const updatedData = await HealthDataModel.findById(healthData._id);
+        const updatedData = await healthRepository.findHealthDataById(
+          healthData._id.toString(),
+          testUser._id.toString()
+        );
         expect(updatedData).toBeTruthy();
         expect(updatedData?.data.description).toBe('Updated meal with new image');
         expect(updatedData?.fileIds).toHaveLength(1);
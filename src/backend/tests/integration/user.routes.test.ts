@@ -135,4 +135,57 @@ describe('User Routes Integration Tests', () => {
     expect(response.body).toHaveProperty('status', 'error');
     expect(response.body).toHaveProperty('code', 'NOT_FOUND');
   });
+  
+  test('GET /api/users/me/audit - should return the access history of the user\'s health data', async () => {
+    const created = await request(app)
+      .post('/api/health')
+      .set('Authorization', `Bearer ${authToken}`)
+      .set('User-Agent', 'integration-test')
+      .send({
+        type: 'meal',
+        timestamp: new Date().toISOString(),
+        data: { description: 'Oatmeal with berries', mealType: 'breakfast' }
+      })
+      .expect(201);
+    await request(app)
+      .get(`/api/health/${String(created.body.data.id)}`)
+      .set('Authorization', `Bearer ${authToken}`)
+      .expect(200);
+    
+    const response = await request(app)
+      .get('/api/users/me/audit')
+      .set('Authorization', `Bearer ${authToken}`)
+      .expect(200);
+    
+    // Newest first, with who performed each action and from where
+    expect(response.body.data.items.map((entry: { action: string }) => entry.action)).toEqual(['read', 'create']);
+    expect(response.body.data.items[0]).toMatchObject({
+      actorId: testUser._id.toString(),
+      ownerId: testUser._id.toString(),
+      resourceType: 'health_data',
+      resourceId: created.body.data.id,
+      userAgent: 'integration-test'
+    });
+    expect(response.body.data.items[0]).toHaveProperty('ip');
+  });
+  
+  test('GET /api/admin/audit - should return 403 for users without the admin role', async () => {
+    const response = await request(app)
+      .get('/api/admin/audit')
+      .set('Authorization', `Bearer ${authToken}`)
+      .expect(403);
+    
+    expect(response.body).toHaveProperty('code', 'FORBIDDEN');
+  });
+  
+  test('GET /api/admin/audit - should return the audit log to administrators', async () => {
+    await User.updateOne({ _id: testUser._id }, { role: UserRole.ADMIN });
+    
+    const response = await request(app)
+      .get(`/api/admin/audit?actorId=${testUser._id.toString()}`)
+      .set('Authorization', `Bearer ${authToken}`)
+      .expect(200);
+    
+    expect(response.body.data.items).toEqual([]);
+  });
 });
\ No newline at end of file
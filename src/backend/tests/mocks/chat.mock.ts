@@ -3,6 +3,7 @@ import {
   ChatRole,
   ChatMessage,
   ChatConversation,
+  ConversationTitleSource,
   LLMMessage,
   HealthContext
 } from '../../src/types/chat.types';
@@ -15,6 +16,7 @@ import {
   createMockHealthDataArray
 } from './health.mock';
 import { DEFAULT_MOCK_RESPONSE } from './llm.mock';
+import { HealthDataType } from '../../src/types/health.types';
 
 // Create consistent mock IDs for testing
 export const mockConversationId = new Types.ObjectId().toString();
@@ -54,8 +56,14 @@ export const createMockChatConversation = (overrides?: Partial<ChatConversation>
     _id: mockConversationObjectId,
     userId: mockUserObjectId,
     title: 'Test Conversation',
+    titleSource: ConversationTitleSource.DEFAULT,
+    titleMessageCount: 0,
+    summary: '',
+    summarizedUntil: null,
     startedAt: new Date(now.getTime() - 3600000), // 1 hour ago
     lastMessageAt: now,
+    archived: false,
+    pinned: false,
     createdAt: new Date(now.getTime() - 3600000),
     updatedAt: now,
     ...overrides
@@ -130,8 +138,14 @@ export const createMockConversationArray = (
       _id: new Types.ObjectId(),
       userId: userObjectId,
       title: `Test Conversation ${i + 1}`,
+      titleSource: ConversationTitleSource.DEFAULT,
+      titleMessageCount: 0,
+      summary: '',
+      summarizedUntil: null,
       startedAt,
       lastMessageAt,
+      archived: false,
+      pinned: false,
       createdAt: startedAt,
       updatedAt: lastMessageAt,
     } as ChatConversation);
@@ -147,9 +161,9 @@ export const createMockConversationArray = (
  */
 export const createMockHealthContext = (userId: string = mockUserId): HealthContext => {
   return {
-    recentMeals: createMockHealthDataArray(3, userId, 'meal'),
-    recentLabResults: createMockHealthDataArray(2, userId, 'labResult'),
-    recentSymptoms: createMockHealthDataArray(2, userId, 'symptom'),
+    recentMeals: createMockHealthDataArray(3, userId, HealthDataType.MEAL),
+    recentLabResults: createMockHealthDataArray(2, userId, HealthDataType.LAB_RESULT),
+    recentSymptoms: createMockHealthDataArray(2, userId, HealthDataType.SYMPTOM),
   };
 };
 
@@ -246,8 +260,12 @@ export const mockCreateConversation = async (
     _id: new Types.ObjectId(),
     userId: new Types.ObjectId(userId),
     title,
+    titleSource: ConversationTitleSource.DEFAULT,
+    titleMessageCount: 0,
     startedAt: now,
     lastMessageAt: now,
+    archived: false,
+    pinned: false,
     createdAt: now,
     updatedAt: now,
   } as ChatConversation;
@@ -350,6 +368,15 @@ export const mockChatService = (customImplementations = {}) => ({
   createNewConversation: async (userId: string, title: string) => 
     mockCreateConversation(userId, title),
   
+  updateConversation: async (conversationId: string, userId: string, updates = {}) => 
+    createMockChatConversation({
+      _id: new Types.ObjectId(conversationId),
+      userId: new Types.ObjectId(userId),
+      ...updates
+    }),
+  
+  deleteConversation: async (conversationId: string, userId: string) => undefined,
+  
   sendMessage: async (userId: string, message: string, conversationId?: string) => {
     const actualConversationId = conversationId || new Types.ObjectId().toString();
     const userMessage = await mockCreateUserMessage(actualConversationId, userId, message);
@@ -365,6 +392,26 @@ export const mockChatService = (customImplementations = {}) => ({
     };
   },
   
+  streamMessage: async (
+    request: { message: string; conversationId?: string },
+    userId: string,
+    onDelta: (delta: string) => void
+  ) => {
+    const actualConversationId = request.conversationId || new Types.ObjectId().toString();
+    onDelta(DEFAULT_MOCK_RESPONSE);
+    const assistantResponse = await mockCreateAssistantMessage(
+      actualConversationId, 
+      userId, 
+      DEFAULT_MOCK_RESPONSE
+    );
+    
+    return {
+      response: assistantResponse.content,
+      conversationId: actualConversationId,
+      messageId: assistantResponse._id.toString()
+    };
+  },
+  
   sendMessageToLLM: async (userId: string, message: string, conversationId: string) => {
     return DEFAULT_MOCK_RESPONSE;
   },
@@ -152,6 +152,31 @@ export const mockSymptomHealthData: HealthData = createMockHealthData({
   }
 });
 
+/**
+ * Creates an array of mock health data documents of one type for testing
+ * @param count - Number of documents to create
+ * @param userId - Optional user ID, defaults to mockUserId
+ * @param type - Optional type of health data, defaults to meals
+ * @returns An array of mock health data documents, newest first
+ */
+export const createMockHealthDataArray = (
+  count: number,
+  userId: string = mockUserId,
+  type: HealthDataType = HealthDataType.MEAL
+): HealthData[] => {
+  const template = {
+    [HealthDataType.MEAL]: mockMealHealthData,
+    [HealthDataType.LAB_RESULT]: mockLabResultHealthData,
+    [HealthDataType.SYMPTOM]: mockSymptomHealthData
+  }[type];
+
+  return Array.from({ length: count }, (_, index) => createMockHealthData({
+    ...template,
+    userId: new Types.ObjectId(userId),
+    timestamp: new Date(template.timestamp.getTime() - index * 86400000) // 1 day apart
+  }));
+};
+
 /**
  * Creates mock health data request with optional overrides for testing API requests
  * @param overrides - Optional property overrides for the health data request
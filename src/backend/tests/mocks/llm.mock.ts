@@ -181,14 +181,12 @@ export function mockLLMService(customImplementations?: object): object {
     // Send a message to the LLM and get a response
     sendMessage: jest.fn().mockResolvedValue(createMockLLMResponse()),
     
-    // Build context from user's health data
-    buildContext: jest.fn().mockReturnValue(createContextWithHealthData()),
-    
-    // Construct prompt with user message and context
-    constructPrompt: jest.fn().mockImplementation((message: string, context: string) => {
+    // Build prompt with user message and context from user's health data
+    buildPrompt: jest.fn().mockImplementation(async (message: string) => {
       return [
         createMockLLMMessage(ChatRole.SYSTEM, "You are a health advisor AI. Provide personalized advice based on the user's health data."),
-        createMockLLMMessage(ChatRole.USER, `Context: ${context}\n\nUser message: ${message}`)
+        createMockLLMMessage(ChatRole.SYSTEM, createContextWithHealthData()),
+        createMockLLMMessage(ChatRole.USER, message)
       ];
     }),
     
@@ -3,7 +3,8 @@ import {
   UserDocument,
   UserRole,
   CreateUserInput,
-  UserProfileResponse
+  UserProfileResponse,
+  UnitsPreference
 } from '../../src/types/user.types';
 
 // Create consistent mock values for testing
@@ -39,7 +40,13 @@ export const mockUserInput: CreateUserInput = {
 export const mockUserProfileResponse: UserProfileResponse = {
   id: mockUserId,
   email: 'test@example.com',
-  createdAt: '2023-05-01T00:00:00.000Z'
+  createdAt: '2023-05-01T00:00:00.000Z',
+  conditions: [],
+  allergies: [],
+  medications: [],
+  dietaryPreferences: [],
+  unitsPreference: UnitsPreference.METRIC,
+  twoFactorEnabled: false
 };
 
 /**
@@ -81,6 +88,12 @@ export const createMockUserProfileResponse = (overrides?: Partial<UserProfileRes
     id: new Types.ObjectId().toString(),
     email: `test-${Date.now()}@example.com`,
     createdAt: new Date().toISOString(),
+    conditions: [],
+    allergies: [],
+    medications: [],
+    dietaryPreferences: [],
+    unitsPreference: UnitsPreference.METRIC,
+    twoFactorEnabled: false,
     ...overrides
   };
 };
@@ -13,6 +13,7 @@ import mongoose from 'mongoose'; // ^7.0.3
 import { Application } from 'express'; // ^4.18.2
 import { connectToDatabase, disconnectFromDatabase } from '../src/config/database';
 import User from '../src/models/user.model';
+import LoginAttempt from '../src/models/login-attempt.model';
 import { ChatConversation } from '../src/models/chat-conversation.model';
 import { ChatMessage } from '../src/models/chat-message.model';
 import { HealthDataModel as HealthData } from '../src/models/health-data.model';
@@ -81,6 +82,7 @@ export async function resetCollections(): Promise<void> {
   
   // Delete all documents from collections
   await User.deleteMany({});
+  await LoginAttempt.deleteMany({});
   await ChatConversation.deleteMany({});
   await ChatMessage.deleteMany({});
   await HealthData.deleteMany({});
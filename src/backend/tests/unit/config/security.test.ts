@@ -0,0 +1,52 @@
+import express from 'express';
+import supertest from 'supertest';
+import { environment } from '../../../src/config/environment';
+import { getTrustProxy } from '../../../src/config/security';
+
+describe('security config', () => {
+  const { TRUST_PROXY_HOPS } = environment;
+
+  // App reporting the IP address a request is counted under, as the login lockout sees it
+  const createApp = (): express.Application => {
+    const app = express();
+    app.set('trust proxy', getTrustProxy());
+    app.get('/ip', (req, res) => {
+      res.json({ ip: req.ip });
+    });
+    return app;
+  };
+
+  afterEach(() => {
+    environment.TRUST_PROXY_HOPS = TRUST_PROXY_HOPS;
+  });
+
+  describe('getTrustProxy', () => {
+    it('should take the client address appended by the load balancer', async () => {
+      environment.TRUST_PROXY_HOPS = 1;
+
+      const first = await supertest(createApp()).get('/ip').set('X-Forwarded-For', '203.0.113.7');
+      const second = await supertest(createApp()).get('/ip').set('X-Forwarded-For', '198.51.100.23');
+
+      expect(first.body.ip).toBe('203.0.113.7');
+      expect(second.body.ip).toBe('198.51.100.23');
+    });
+
+    it('should ignore addresses the client put in X-Forwarded-For itself', async () => {
+      environment.TRUST_PROXY_HOPS = 1;
+
+      const response = await supertest(createApp())
+        .get('/ip')
+        .set('X-Forwarded-For', '198.51.100.23, 203.0.113.7');
+
+      expect(response.body.ip).toBe('203.0.113.7');
+    });
+
+    it('should not trust X-Forwarded-For without a proxy in front', async () => {
+      environment.TRUST_PROXY_HOPS = 0;
+
+      const response = await supertest(createApp()).get('/ip').set('X-Forwarded-For', '203.0.113.7');
+
+      expect(response.body.ip).not.toBe('203.0.113.7');
+    });
+  });
+});
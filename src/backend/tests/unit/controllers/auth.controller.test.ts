@@ -1,8 +1,16 @@
 import { Request, Response, NextFunction } from 'express'; // ^4.18.2
-import * as jest from 'jest'; // ^29.5.0
 import {
   signupHandler,
   loginHandler,
+  twoFactorLoginHandler,
+  refreshHandler,
+  logoutHandler,
+  changePasswordHandler,
+  forgotPasswordHandler,
+  resetPasswordHandler,
+  setupTwoFactorHandler,
+  enableTwoFactorHandler,
+  disableTwoFactorHandler,
   validateSignup,
   validateLogin,
   authenticateToken
@@ -10,24 +18,40 @@ import {
 import {
   signup,
   login,
+  refresh,
+  logout,
   validateToken,
-  formatUserResponse
+  formatUserResponse,
+  changePassword,
+  requestPasswordReset,
+  resetPassword,
+  verifyTwoFactorLogin
 } from '../../../src/services/auth.service';
+import {
+  setupTwoFactor,
+  enableTwoFactor,
+  disableTwoFactor
+} from '../../../src/services/two-factor.service';
 import {
   AuthenticationError,
   ValidationError,
-  ConflictError
+  ConflictError,
+  BadRequestError,
+  AccountLockedError
 } from '../../../src/utils/error.util';
 import {
   sendSuccess,
   sendCreated,
+  sendAccepted,
+  sendNoContent,
   sendError
 } from '../../../src/utils/response.util';
-import { AuthErrorType } from '../../../src/types/auth.types';
+import { AuthErrorType, AuthenticatedRequest } from '../../../src/types/auth.types';
 import { mockUserDocument, mockUserInput } from '../../mocks/user.mock';
 
 // Mock dependencies
 jest.mock('../../../src/services/auth.service');
+jest.mock('../../../src/services/two-factor.service');
 jest.mock('../../../src/utils/response.util');
 
 describe('signupHandler', () => {
@@ -52,6 +76,7 @@ describe('signupHandler', () => {
     // Mock successful signup
     const mockAuthResponse = {
       token: 'mock-token',
+      refreshToken: 'mock-refresh-token',
       user: {
         id: 'mock-user-id',
         email: mockUserInput.email
@@ -140,7 +165,8 @@ describe('loginHandler', () => {
     jest.clearAllMocks();
     
     mockRequest = {
-      body: { ...mockUserInput }
+      body: { ...mockUserInput },
+      ip: '203.0.113.7'
     };
     mockResponse = {
       status: jest.fn().mockReturnThis(),
@@ -153,6 +179,7 @@ describe('loginHandler', () => {
     // Mock successful login
     const mockAuthResponse = {
       token: 'mock-token',
+      refreshToken: 'mock-refresh-token',
       user: {
         id: 'mock-user-id',
         email: mockUserInput.email
@@ -171,7 +198,7 @@ describe('loginHandler', () => {
     expect(login).toHaveBeenCalledWith({
       email: mockUserInput.email,
       password: mockUserInput.password
-    });
+    }, '203.0.113.7');
 
     // Verify response was sent
     expect(sendSuccess).toHaveBeenCalledWith(
@@ -203,7 +230,7 @@ describe('loginHandler', () => {
     expect(login).toHaveBeenCalledWith({
       email: mockUserInput.email,
       password: mockUserInput.password
-    });
+    }, '203.0.113.7');
 
     // Verify error was passed to next
     expect(mockNext).toHaveBeenCalledWith(authError);
@@ -212,6 +239,37 @@ describe('loginHandler', () => {
     expect(sendSuccess).not.toHaveBeenCalled();
   });
 
+  it('should return the challenge for users with two-factor authentication', async () => {
+    const challenge = { twoFactorRequired: true as const, challengeToken: 'challenge-token' };
+    (login as jest.MockedFunction<typeof login>).mockResolvedValueOnce(challenge);
+
+    await loginHandler(
+      mockRequest as Request,
+      mockResponse as Response,
+      mockNext
+    );
+
+    expect(sendSuccess).toHaveBeenCalledWith(mockResponse, challenge, 'Two-factor authentication code required');
+    expect(mockNext).not.toHaveBeenCalled();
+  });
+
+  it('should pass account lockouts to the error middleware', async () => {
+    const lockedError = new AccountLockedError(
+      'Too many failed login attempts. Please try again in 30 minutes or reset your password.',
+      new Date(Date.now() + 30 * 60 * 1000)
+    );
+    (login as jest.MockedFunction<typeof login>).mockRejectedValueOnce(lockedError);
+
+    await loginHandler(
+      mockRequest as Request,
+      mockResponse as Response,
+      mockNext
+    );
+
+    expect(mockNext).toHaveBeenCalledWith(lockedError);
+    expect(sendSuccess).not.toHaveBeenCalled();
+  });
+
   it('should handle unexpected errors', async () => {
     // Mock a generic error
     const unexpectedError = new Error('Unexpected error');
@@ -232,6 +290,410 @@ describe('loginHandler', () => {
   });
 });
 
+describe('twoFactorLoginHandler', () => {
+  let mockRequest: Partial<Request>;
+  let mockResponse: Partial<Response>;
+  let mockNext: jest.MockedFunction<NextFunction>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    
+    mockRequest = {
+      body: { challengeToken: 'challenge-token', code: '123456' },
+      ip: '203.0.113.7'
+    };
+    mockResponse = {
+      status: jest.fn().mockReturnThis(),
+      json: jest.fn().mockReturnThis()
+    };
+    mockNext = jest.fn();
+  });
+
+  it('should complete the login with a valid code', async () => {
+    const mockAuthResponse = {
+      token: 'mock-token',
+      refreshToken: 'mock-refresh-token',
+      user: { id: 'mock-user-id', email: mockUserInput.email }
+    };
+    (verifyTwoFactorLogin as jest.MockedFunction<typeof verifyTwoFactorLogin>).mockResolvedValueOnce(mockAuthResponse);
+
+    // Call the handler
+    await twoFactorLoginHandler(
+      mockRequest as Request,
+      mockResponse as Response,
+      mockNext
+    );
+
+    // Verify service was called with the challenge, the code and the IP address
+    expect(verifyTwoFactorLogin).toHaveBeenCalledWith(
+      { challengeToken: 'challenge-token', code: '123456' },
+      '203.0.113.7'
+    );
+    expect(sendSuccess).toHaveBeenCalledWith(mockResponse, mockAuthResponse, 'User logged in successfully');
+    expect(mockNext).not.toHaveBeenCalled();
+  });
+
+  it('should handle wrong codes', async () => {
+    const codeError = new AuthenticationError('Invalid verification code', AuthErrorType.INVALID_TWO_FACTOR_CODE);
+    (verifyTwoFactorLogin as jest.MockedFunction<typeof verifyTwoFactorLogin>).mockRejectedValueOnce(codeError);
+
+    // Call the handler
+    await twoFactorLoginHandler(
+      mockRequest as Request,
+      mockResponse as Response,
+      mockNext
+    );
+
+    // Verify error was passed to next
+    expect(mockNext).toHaveBeenCalledWith(codeError);
+    expect(sendSuccess).not.toHaveBeenCalled();
+  });
+});
+
+describe('refreshHandler', () => {
+  let mockRequest: Partial<Request>;
+  let mockResponse: Partial<Response>;
+  let mockNext: jest.MockedFunction<NextFunction>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    
+    mockRequest = {
+      body: { refreshToken: 'mock-refresh-token' }
+    };
+    mockResponse = {
+      status: jest.fn().mockReturnThis(),
+      json: jest.fn().mockReturnThis()
+    };
+    mockNext = jest.fn();
+  });
+
+  it('should return a new token pair', async () => {
+    // Mock successful rotation
+    const mockRefreshResponse = {
+      token: 'new-token',
+      refreshToken: 'new-refresh-token'
+    };
+    (refresh as jest.MockedFunction<typeof refresh>).mockResolvedValueOnce(mockRefreshResponse);
+
+    // Call the handler
+    await refreshHandler(
+      mockRequest as Request,
+      mockResponse as Response,
+      mockNext
+    );
+
+    // Verify service was called with the presented token
+    expect(refresh).toHaveBeenCalledWith('mock-refresh-token');
+
+    // Verify response was sent
+    expect(sendSuccess).toHaveBeenCalledWith(
+      mockResponse,
+      mockRefreshResponse,
+      'Token refreshed successfully'
+    );
+    expect(mockNext).not.toHaveBeenCalled();
+  });
+
+  it('should handle reused or invalid refresh tokens', async () => {
+    // Mock authentication error for a rotated token
+    const authError = new AuthenticationError(
+      'Refresh token has already been used',
+      AuthErrorType.INVALID_TOKEN
+    );
+    (refresh as jest.MockedFunction<typeof refresh>).mockRejectedValueOnce(authError);
+
+    // Call the handler
+    await refreshHandler(
+      mockRequest as Request,
+      mockResponse as Response,
+      mockNext
+    );
+
+    // Verify error was passed to next
+    expect(mockNext).toHaveBeenCalledWith(authError);
+    expect(sendSuccess).not.toHaveBeenCalled();
+  });
+});
+
+describe('logoutHandler', () => {
+  let mockRequest: Partial<Request>;
+  let mockResponse: Partial<Response>;
+  let mockNext: jest.MockedFunction<NextFunction>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    
+    mockRequest = {
+      body: { refreshToken: 'mock-refresh-token' }
+    };
+    mockResponse = {
+      status: jest.fn().mockReturnThis(),
+      json: jest.fn().mockReturnThis()
+    };
+    mockNext = jest.fn();
+  });
+
+  it('should revoke the session and send an empty response', async () => {
+    (logout as jest.MockedFunction<typeof logout>).mockResolvedValueOnce();
+
+    // Call the handler
+    await logoutHandler(
+      mockRequest as Request,
+      mockResponse as Response,
+      mockNext
+    );
+
+    // Verify service was called and no content was sent
+    expect(logout).toHaveBeenCalledWith('mock-refresh-token');
+    expect(sendNoContent).toHaveBeenCalledWith(mockResponse);
+    expect(mockNext).not.toHaveBeenCalled();
+  });
+
+  it('should handle unexpected errors', async () => {
+    // Mock a generic error
+    const unexpectedError = new Error('Unexpected error');
+    (logout as jest.MockedFunction<typeof logout>).mockRejectedValueOnce(unexpectedError);
+
+    // Call the handler
+    await logoutHandler(
+      mockRequest as Request,
+      mockResponse as Response,
+      mockNext
+    );
+
+    // Verify error was passed to next
+    expect(mockNext).toHaveBeenCalledWith(unexpectedError);
+    expect(sendNoContent).not.toHaveBeenCalled();
+  });
+});
+
+describe('changePasswordHandler', () => {
+  let mockRequest: Partial<AuthenticatedRequest>;
+  let mockResponse: Partial<Response>;
+  let mockNext: jest.MockedFunction<NextFunction>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    
+    mockRequest = {
+      user: { id: 'mock-user-id', email: mockUserInput.email },
+      body: { currentPassword: 'OldPassword1!', newPassword: 'NewPassword1!' }
+    };
+    mockResponse = {
+      status: jest.fn().mockReturnThis(),
+      json: jest.fn().mockReturnThis()
+    };
+    mockNext = jest.fn();
+  });
+
+  it('should change the password and return the new token pair', async () => {
+    const mockAuthResponse = {
+      token: 'mock-token',
+      refreshToken: 'mock-refresh-token',
+      user: { id: 'mock-user-id', email: mockUserInput.email }
+    };
+    (changePassword as jest.MockedFunction<typeof changePassword>).mockResolvedValueOnce(mockAuthResponse);
+
+    // Call the handler
+    await changePasswordHandler(
+      mockRequest as AuthenticatedRequest,
+      mockResponse as Response,
+      mockNext
+    );
+
+    // Verify service was called for the signed-in user
+    expect(changePassword).toHaveBeenCalledWith('mock-user-id', {
+      currentPassword: 'OldPassword1!',
+      newPassword: 'NewPassword1!'
+    });
+    expect(sendSuccess).toHaveBeenCalledWith(mockResponse, mockAuthResponse, 'Password changed successfully');
+    expect(mockNext).not.toHaveBeenCalled();
+  });
+
+  it('should handle an incorrect current password', async () => {
+    const passwordError = new BadRequestError('Current password is incorrect', 'INVALID_PASSWORD');
+    (changePassword as jest.MockedFunction<typeof changePassword>).mockRejectedValueOnce(passwordError);
+
+    // Call the handler
+    await changePasswordHandler(
+      mockRequest as AuthenticatedRequest,
+      mockResponse as Response,
+      mockNext
+    );
+
+    // Verify error was passed to next
+    expect(mockNext).toHaveBeenCalledWith(passwordError);
+    expect(sendSuccess).not.toHaveBeenCalled();
+  });
+});
+
+describe('forgotPasswordHandler', () => {
+  let mockRequest: Partial<Request>;
+  let mockResponse: Partial<Response>;
+  let mockNext: jest.MockedFunction<NextFunction>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    
+    mockRequest = {
+      body: { email: mockUserInput.email }
+    };
+    mockResponse = {
+      status: jest.fn().mockReturnThis(),
+      json: jest.fn().mockReturnThis()
+    };
+    mockNext = jest.fn();
+  });
+
+  it('should accept the request without revealing whether the account exists', async () => {
+    (requestPasswordReset as jest.MockedFunction<typeof requestPasswordReset>).mockResolvedValueOnce();
+
+    // Call the handler
+    await forgotPasswordHandler(
+      mockRequest as Request,
+      mockResponse as Response,
+      mockNext
+    );
+
+    // Verify service was called and a generic response was sent
+    expect(requestPasswordReset).toHaveBeenCalledWith(mockUserInput.email);
+    expect(sendAccepted).toHaveBeenCalledWith(
+      mockResponse,
+      null,
+      'If an account exists for this email, a reset code has been sent'
+    );
+  });
+});
+
+describe('resetPasswordHandler', () => {
+  let mockRequest: Partial<Request>;
+  let mockResponse: Partial<Response>;
+  let mockNext: jest.MockedFunction<NextFunction>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    
+    mockRequest = {
+      body: { token: 'a1b2c3', newPassword: 'NewPassword1!' }
+    };
+    mockResponse = {
+      status: jest.fn().mockReturnThis(),
+      json: jest.fn().mockReturnThis()
+    };
+    mockNext = jest.fn();
+  });
+
+  it('should reset the password', async () => {
+    (resetPassword as jest.MockedFunction<typeof resetPassword>).mockResolvedValueOnce();
+
+    // Call the handler
+    await resetPasswordHandler(
+      mockRequest as Request,
+      mockResponse as Response,
+      mockNext
+    );
+
+    // Verify service was called with the reset code
+    expect(resetPassword).toHaveBeenCalledWith('a1b2c3', 'NewPassword1!');
+    expect(sendSuccess).toHaveBeenCalledWith(mockResponse, null, 'Password reset successfully');
+  });
+
+  it('should handle invalid or expired reset codes', async () => {
+    const tokenError = new BadRequestError('This reset code is invalid or has expired', 'INVALID_RESET_TOKEN');
+    (resetPassword as jest.MockedFunction<typeof resetPassword>).mockRejectedValueOnce(tokenError);
+
+    // Call the handler
+    await resetPasswordHandler(
+      mockRequest as Request,
+      mockResponse as Response,
+      mockNext
+    );
+
+    // Verify error was passed to next
+    expect(mockNext).toHaveBeenCalledWith(tokenError);
+    expect(sendSuccess).not.toHaveBeenCalled();
+  });
+});
+
+describe('two-factor management handlers', () => {
+  let mockRequest: Partial<AuthenticatedRequest>;
+  let mockResponse: Partial<Response>;
+  let mockNext: jest.MockedFunction<NextFunction>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    
+    mockRequest = {
+      user: { id: 'mock-user-id', email: mockUserInput.email },
+      body: {}
+    };
+    mockResponse = {
+      status: jest.fn().mockReturnThis(),
+      json: jest.fn().mockReturnThis()
+    };
+    mockNext = jest.fn();
+  });
+
+  it('should start enrollment for the signed-in user', async () => {
+    const setup = { secret: 'SECRET', otpauthUrl: 'otpauth://totp/x', qrCode: 'data:image/png;base64,' };
+    (setupTwoFactor as jest.MockedFunction<typeof setupTwoFactor>).mockResolvedValueOnce(setup);
+
+    await setupTwoFactorHandler(
+      mockRequest as AuthenticatedRequest,
+      mockResponse as Response,
+      mockNext
+    );
+
+    expect(setupTwoFactor).toHaveBeenCalledWith('mock-user-id');
+    expect(sendSuccess).toHaveBeenCalledWith(mockResponse, setup, 'Scan the QR code with your authenticator app');
+  });
+
+  it('should enable two-factor authentication and return the recovery codes', async () => {
+    mockRequest.body = { code: '123456' };
+    const codes = { recoveryCodes: ['3f9a2-c81d0'] };
+    (enableTwoFactor as jest.MockedFunction<typeof enableTwoFactor>).mockResolvedValueOnce(codes);
+
+    await enableTwoFactorHandler(
+      mockRequest as AuthenticatedRequest,
+      mockResponse as Response,
+      mockNext
+    );
+
+    expect(enableTwoFactor).toHaveBeenCalledWith('mock-user-id', '123456');
+    expect(sendSuccess).toHaveBeenCalledWith(mockResponse, codes, 'Two-factor authentication enabled');
+  });
+
+  it('should disable two-factor authentication with the password and a code', async () => {
+    mockRequest.body = { password: 'Password1!', code: '123456' };
+    (disableTwoFactor as jest.MockedFunction<typeof disableTwoFactor>).mockResolvedValueOnce();
+
+    await disableTwoFactorHandler(
+      mockRequest as AuthenticatedRequest,
+      mockResponse as Response,
+      mockNext
+    );
+
+    expect(disableTwoFactor).toHaveBeenCalledWith('mock-user-id', 'Password1!', '123456');
+    expect(sendSuccess).toHaveBeenCalledWith(mockResponse, null, 'Two-factor authentication disabled');
+  });
+
+  it('should pass a wrong password to the error middleware', async () => {
+    mockRequest.body = { password: 'Wrong1!', code: '123456' };
+    const passwordError = new BadRequestError('Password is incorrect', 'INVALID_PASSWORD');
+    (disableTwoFactor as jest.MockedFunction<typeof disableTwoFactor>).mockRejectedValueOnce(passwordError);
+
+    await disableTwoFactorHandler(
+      mockRequest as AuthenticatedRequest,
+      mockResponse as Response,
+      mockNext
+    );
+
+    expect(mockNext).toHaveBeenCalledWith(passwordError);
+    expect(sendSuccess).not.toHaveBeenCalled();
+  });
+});
+
 describe('validateSignup', () => {
   let mockRequest: Partial<Request>;
   let mockResponse: Partial<Response>;
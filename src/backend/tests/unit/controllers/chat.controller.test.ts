@@ -3,9 +3,12 @@ import mongoose from 'mongoose'; // v7.0.3
 import { AuthenticatedRequest } from '../../../src/types/auth.types';
 import { 
   handleSendMessage,
+  handleStreamMessage,
   handleGetConversations, 
   handleCreateConversation,
   handleGetConversation, 
+  handleUpdateConversation,
+  handleDeleteConversation,
   handleGetChatHistory 
 } from '../../../src/controllers/chat.controller';
 import { ChatService } from '../../../src/services/chat.service';
@@ -13,8 +16,12 @@ import {
   sendSuccess, 
   sendCreated, 
   sendPaginated,
-  sendError 
+  sendNoContent,
+  sendError,
+  initEventStream,
+  sendEvent
 } from '../../../src/utils/response.util';
+import { NotFoundError, ServiceUnavailableError } from '../../../src/utils/error.util';
 import { 
   mockUserId,
   mockConversationId,
@@ -29,7 +36,10 @@ jest.mock('../../../src/utils/response.util', () => ({
   sendSuccess: jest.fn(),
   sendCreated: jest.fn(),
   sendPaginated: jest.fn(),
-  sendError: jest.fn()
+  sendNoContent: jest.fn(),
+  sendError: jest.fn(),
+  initEventStream: jest.fn(),
+  sendEvent: jest.fn()
 }));
 
 // Mock the ChatService
@@ -60,12 +70,16 @@ describe('Chat Controller', () => {
     };
     res = {
       status: jest.fn().mockReturnThis(),
-      json: jest.fn()
+      json: jest.fn(),
+      on: jest.fn().mockReturnThis(),
+      end: jest.fn()
     } as Partial<Response>;
     next = jest.fn() as NextFunction;
 
-    // Use the mock factory function from chat.mock.ts
+    // Use the mock factory function from chat.mock.ts, spying on every method so that
+    // tests can check calls to methods they don't stub
     chatServiceMock = mockChatService();
+    Object.keys(chatServiceMock).forEach((method) => jest.spyOn(chatServiceMock, method));
     (ChatService as jest.Mock).mockImplementation(() => chatServiceMock);
   });
 
@@ -109,6 +123,89 @@ describe('Chat Controller', () => {
     });
   });
 
+  describe('handleStreamMessage', () => {
+    it('should stream response deltas followed by a done event', async () => {
+      // Arrange
+      const messageRequest = { message: 'Test message', conversationId: mockConversationId };
+      req.body = messageRequest;
+      
+      const expectedResponse = { 
+        response: 'AI response', 
+        conversationId: mockConversationId,
+        messageId: 'message-id'
+      };
+      
+      jest.spyOn(chatServiceMock, 'streamMessage').mockImplementation(
+        async (request: any, userId: any, onDelta: any) => {
+          onDelta('AI ');
+          onDelta('response');
+          return expectedResponse;
+        }
+      );
+
+      // Act
+      await handleStreamMessage(req as AuthenticatedRequest, res as Response, next);
+
+      // Assert
+      expect(chatServiceMock.streamMessage).toHaveBeenCalledWith(
+        messageRequest,
+        mockUserId,
+        expect.any(Function),
+        expect.anything()
+      );
+      expect(initEventStream).toHaveBeenCalledWith(res);
+      expect(sendEvent).toHaveBeenNthCalledWith(1, res, 'delta', { content: 'AI ' });
+      expect(sendEvent).toHaveBeenNthCalledWith(2, res, 'delta', { content: 'response' });
+      expect(sendEvent).toHaveBeenNthCalledWith(3, res, 'done', expectedResponse);
+      expect(res.end).toHaveBeenCalled();
+      expect(next).not.toHaveBeenCalled();
+    });
+
+    it('should pass errors to next when nothing has been streamed', async () => {
+      // Arrange
+      req.body = { message: 'Test message' };
+      
+      const error = new Error('Service error');
+      jest.spyOn(chatServiceMock, 'streamMessage').mockRejectedValue(error);
+
+      // Act
+      await handleStreamMessage(req as AuthenticatedRequest, res as Response, next);
+
+      // Assert
+      expect(initEventStream).not.toHaveBeenCalled();
+      expect(sendEvent).not.toHaveBeenCalled();
+      expect(next).toHaveBeenCalledWith(error);
+    });
+
+    it('should send an error event when streaming fails midway', async () => {
+      // Arrange
+      req.body = { message: 'Test message' };
+      (res as any).headersSent = false;
+      (initEventStream as jest.Mock).mockImplementationOnce(() => {
+        (res as any).headersSent = true;
+      });
+      
+      jest.spyOn(chatServiceMock, 'streamMessage').mockImplementation(
+        async (request: any, userId: any, onDelta: any) => {
+          onDelta('Partial');
+          throw new ServiceUnavailableError('LLM unavailable', 'LLM Provider');
+        }
+      );
+
+      // Act
+      await handleStreamMessage(req as AuthenticatedRequest, res as Response, next);
+
+      // Assert
+      expect(sendEvent).toHaveBeenCalledWith(res, 'delta', { content: 'Partial' });
+      expect(sendEvent).toHaveBeenCalledWith(res, 'error', {
+        message: 'LLM unavailable',
+        code: 'SERVICE_UNAVAILABLE'
+      });
+      expect(res.end).toHaveBeenCalled();
+      expect(next).not.toHaveBeenCalled();
+    });
+  });
+
   describe('handleGetConversations', () => {
     it('should retrieve user conversations with default pagination', async () => {
       // Arrange
@@ -126,7 +223,7 @@ describe('Chat Controller', () => {
       // Assert
       expect(chatServiceMock.getUserConversations).toHaveBeenCalledWith(
         mockUserId, 
-        { page: 1, limit: 10 }
+        { page: 1, limit: 10, archived: false }
       );
       expect(sendPaginated).toHaveBeenCalledWith(
         res, 
@@ -157,7 +254,7 @@ describe('Chat Controller', () => {
       // Assert
       expect(chatServiceMock.getUserConversations).toHaveBeenCalledWith(
         mockUserId, 
-        { page: 2, limit: 5 }
+        { page: 2, limit: 5, archived: false }
       );
       expect(sendPaginated).toHaveBeenCalledWith(
         res, 
@@ -169,6 +266,28 @@ describe('Chat Controller', () => {
       );
     });
 
+    it('should retrieve archived conversations when asked to', async () => {
+      // Arrange
+      req.query = { archived: true } as unknown as AuthenticatedRequest['query'];
+      
+      const mockResponse = {
+        conversations: createMockConversationArray(),
+        total: 3,
+        page: 1
+      };
+      
+      jest.spyOn(chatServiceMock, 'getUserConversations').mockResolvedValue(mockResponse);
+
+      // Act
+      await handleGetConversations(req as AuthenticatedRequest, res as Response, next);
+
+      // Assert
+      expect(chatServiceMock.getUserConversations).toHaveBeenCalledWith(
+        mockUserId, 
+        { page: 1, limit: 10, archived: true }
+      );
+    });
+
     it('should handle error when retrieving conversations fails', async () => {
       // Arrange
       const error = new Error('Database error');
@@ -327,6 +446,76 @@ describe('Chat Controller', () => {
     });
   });
 
+  describe('handleUpdateConversation', () => {
+    it('should update the conversation and return it', async () => {
+      // Arrange
+      req.params = { id: mockConversationId };
+      req.body = { title: 'Cholesterol results', pinned: true };
+      
+      const updatedConversation = { ...mockChatConversation, title: 'Cholesterol results', pinned: true };
+      jest.spyOn(chatServiceMock, 'updateConversation').mockResolvedValue(updatedConversation);
+
+      // Act
+      await handleUpdateConversation(req as AuthenticatedRequest, res as Response, next);
+
+      // Assert
+      expect(chatServiceMock.updateConversation).toHaveBeenCalledWith(
+        mockConversationId,
+        mockUserId,
+        { title: 'Cholesterol results', pinned: true }
+      );
+      expect(sendSuccess).toHaveBeenCalledWith(res, updatedConversation, 'Conversation updated successfully');
+      expect(next).not.toHaveBeenCalled();
+    });
+
+    it('should pass the error on when the conversation does not exist', async () => {
+      // Arrange
+      req.params = { id: mockConversationId };
+      req.body = { archived: true };
+      
+      const error = new NotFoundError('Conversation not found or does not belong to the user', 'ChatConversation');
+      jest.spyOn(chatServiceMock, 'updateConversation').mockRejectedValue(error);
+
+      // Act
+      await handleUpdateConversation(req as AuthenticatedRequest, res as Response, next);
+
+      // Assert
+      expect(sendSuccess).not.toHaveBeenCalled();
+      expect(next).toHaveBeenCalledWith(error);
+    });
+  });
+
+  describe('handleDeleteConversation', () => {
+    it('should delete the conversation and respond without content', async () => {
+      // Arrange
+      req.params = { id: mockConversationId };
+      jest.spyOn(chatServiceMock, 'deleteConversation');
+
+      // Act
+      await handleDeleteConversation(req as AuthenticatedRequest, res as Response, next);
+
+      // Assert
+      expect(chatServiceMock.deleteConversation).toHaveBeenCalledWith(mockConversationId, mockUserId);
+      expect(sendNoContent).toHaveBeenCalledWith(res);
+      expect(next).not.toHaveBeenCalled();
+    });
+
+    it('should pass the error on when deleting fails', async () => {
+      // Arrange
+      req.params = { id: mockConversationId };
+      
+      const error = new Error('Database error');
+      jest.spyOn(chatServiceMock, 'deleteConversation').mockRejectedValue(error);
+
+      // Act
+      await handleDeleteConversation(req as AuthenticatedRequest, res as Response, next);
+
+      // Assert
+      expect(sendNoContent).not.toHaveBeenCalled();
+      expect(next).toHaveBeenCalledWith(error);
+    });
+  });
+
   describe('handleGetChatHistory', () => {
     it('should retrieve chat history with default pagination', async () => {
       // Arrange
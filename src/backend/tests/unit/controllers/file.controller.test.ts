@@ -0,0 +1,194 @@
+import { NextFunction } from 'express'; // express version ^4.18.2
+import { Readable } from 'stream';
+import { Types } from 'mongoose';
+import { FileController } from '../../../src/controllers/file.controller';
+import { FileService } from '../../../src/services/file.service';
+import { recordAuditEvent } from '../../../src/services/audit.service';
+import { AuditAction, AuditResourceType } from '../../../src/types/audit.types';
+import { NotFoundError, AppError } from '../../../src/utils/error.util';
+import { FileType } from '../../../src/types/file.types';
+import { mockUserId } from '../../mocks/user.mock';
+
+// Mock dependencies
+jest.mock('../../../src/services/file.service');
+jest.mock('../../../src/services/audit.service');
+jest.mock('../../../src/config/logger');
+
+describe('FileController', () => {
+  const mockFileId = new Types.ObjectId();
+  const mockFile = {
+    _id: mockFileId,
+    length: 1000,
+    chunkSize: 261120,
+    uploadDate: new Date(),
+    filename: 'symptom-recording.webm',
+    contentType: 'audio/webm',
+    metadata: {
+      userId: new Types.ObjectId(mockUserId),
+      mimetype: 'audio/webm',
+      fileType: FileType.AUDIO
+    }
+  };
+  const expectedEtag = `"${mockFileId.toString()}-1000"`;
+
+  // Setup test variables
+  let mockRequest: any;
+  let mockResponse: any;
+  let mockNext: NextFunction;
+  let mockStream: Readable;
+  let pipeSpy: jest.SpyInstance;
+  let mockFileService: { getFileForUser: jest.Mock; getFileById: jest.Mock };
+
+  beforeEach(() => {
+    // Reset all mocks before each test
+    jest.clearAllMocks();
+
+    mockStream = Readable.from([]);
+    pipeSpy = jest.spyOn(mockStream, 'pipe').mockImplementation((destination: any) => destination);
+
+    mockFileService = {
+      getFileForUser: jest.fn().mockResolvedValue(mockFile),
+      getFileById: jest.fn().mockResolvedValue({ file: mockFile, stream: mockStream })
+    };
+    (FileService as unknown as jest.Mock).mockImplementation(() => mockFileService);
+
+    // Create mock request with authenticated user
+    mockRequest = {
+      method: 'GET',
+      params: { id: mockFileId.toString() },
+      query: {},
+      headers: {},
+      fresh: false,
+      range: jest.fn().mockReturnValue(undefined),
+      ip: '203.0.113.7',
+      get: jest.fn().mockReturnValue('jest'),
+      user: {
+        id: mockUserId,
+        email: 'test@example.com'
+      }
+    };
+
+    // Create mock response with jest functions
+    mockResponse = {
+      status: jest.fn().mockReturnThis(),
+      setHeader: jest.fn().mockReturnThis(),
+      end: jest.fn().mockReturnThis(),
+      on: jest.fn().mockReturnThis(),
+      destroy: jest.fn()
+    };
+
+    // Create mock next function
+    mockNext = jest.fn();
+  });
+
+  describe('getFile', () => {
+    it('should stream the whole file with content headers', async () => {
+      await FileController.getFile(mockRequest, mockResponse, mockNext);
+
+      expect(mockFileService.getFileForUser).toHaveBeenCalledWith(mockFileId.toString(), mockUserId, false);
+      expect(mockFileService.getFileById).toHaveBeenCalledWith(mockFileId.toString(), expect.objectContaining({
+        asStream: true,
+        thumbnail: false
+      }));
+      expect(mockResponse.status).toHaveBeenCalledWith(200);
+      expect(mockResponse.setHeader).toHaveBeenCalledWith('ETag', expectedEtag);
+      expect(mockResponse.setHeader).toHaveBeenCalledWith('Content-Type', 'audio/webm');
+      expect(mockResponse.setHeader).toHaveBeenCalledWith('Content-Length', 1000);
+      expect(mockResponse.setHeader).toHaveBeenCalledWith('Accept-Ranges', 'bytes');
+      expect(pipeSpy).toHaveBeenCalledWith(mockResponse);
+      expect(mockNext).not.toHaveBeenCalled();
+    });
+
+    it('should record the download in the audit log', async () => {
+      await FileController.getFile(mockRequest, mockResponse, mockNext);
+
+      expect(recordAuditEvent).toHaveBeenCalledWith(
+        { actorId: mockUserId, ip: '203.0.113.7', userAgent: 'jest' },
+        {
+          action: AuditAction.DOWNLOAD,
+          resourceType: AuditResourceType.FILE,
+          resourceId: mockFileId.toString(),
+          ownerId: mockUserId
+        }
+      );
+    });
+
+    it('should resolve the thumbnail when requested', async () => {
+      mockRequest.query = { thumbnail: true };
+
+      await FileController.getFile(mockRequest, mockResponse, mockNext);
+
+      expect(mockFileService.getFileForUser).toHaveBeenCalledWith(mockFileId.toString(), mockUserId, true);
+    });
+
+    it('should stream a single byte range with partial content headers', async () => {
+      mockRequest.headers = { range: 'bytes=100-199' };
+      mockRequest.range.mockReturnValue(Object.assign([{ start: 100, end: 199 }], { type: 'bytes' }));
+
+      await FileController.getFile(mockRequest, mockResponse, mockNext);
+
+      expect(mockRequest.range).toHaveBeenCalledWith(1000);
+      expect(mockFileService.getFileById).toHaveBeenCalledWith(mockFileId.toString(), expect.objectContaining({
+        start: 100,
+        end: 199
+      }));
+      expect(mockResponse.status).toHaveBeenCalledWith(206);
+      expect(mockResponse.setHeader).toHaveBeenCalledWith('Content-Range', 'bytes 100-199/1000');
+      expect(mockResponse.setHeader).toHaveBeenCalledWith('Content-Length', 100);
+      // Only the request for the start of the file counts as a download
+      expect(recordAuditEvent).not.toHaveBeenCalled();
+    });
+
+    it('should ignore the range when If-Range does not match the ETag', async () => {
+      mockRequest.headers = { range: 'bytes=100-199', 'if-range': '"outdated"' };
+
+      await FileController.getFile(mockRequest, mockResponse, mockNext);
+
+      expect(mockRequest.range).not.toHaveBeenCalled();
+      expect(mockResponse.status).toHaveBeenCalledWith(200);
+    });
+
+    it('should reject unsatisfiable ranges', async () => {
+      mockRequest.headers = { range: 'bytes=5000-6000' };
+      mockRequest.range.mockReturnValue(-1);
+
+      await FileController.getFile(mockRequest, mockResponse, mockNext);
+
+      expect(mockResponse.setHeader).toHaveBeenCalledWith('Content-Range', 'bytes */1000');
+      expect(mockFileService.getFileById).not.toHaveBeenCalled();
+      expect(mockNext).toHaveBeenCalledWith(expect.any(AppError));
+      expect((mockNext as jest.Mock).mock.calls[0][0].statusCode).toBe(416);
+    });
+
+    it('should respond 304 when the client copy is fresh', async () => {
+      mockRequest.fresh = true;
+
+      await FileController.getFile(mockRequest, mockResponse, mockNext);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(304);
+      expect(mockResponse.end).toHaveBeenCalled();
+      expect(mockFileService.getFileById).not.toHaveBeenCalled();
+    });
+
+    it('should only send headers for HEAD requests', async () => {
+      mockRequest.method = 'HEAD';
+
+      await FileController.getFile(mockRequest, mockResponse, mockNext);
+
+      expect(mockResponse.setHeader).toHaveBeenCalledWith('Content-Length', 1000);
+      expect(mockResponse.end).toHaveBeenCalled();
+      expect(mockFileService.getFileById).not.toHaveBeenCalled();
+      expect(recordAuditEvent).not.toHaveBeenCalled();
+    });
+
+    it('should pass ownership errors to the error middleware', async () => {
+      const notFoundError = new NotFoundError('File not found or does not belong to the user', 'file');
+      mockFileService.getFileForUser.mockRejectedValue(notFoundError);
+
+      await FileController.getFile(mockRequest, mockResponse, mockNext);
+
+      expect(mockNext).toHaveBeenCalledWith(notFoundError);
+      expect(mockResponse.setHeader).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -7,9 +7,14 @@ import {
   CreateHealthDataRequest,
   GetHealthDataRequest,
   HealthDataResponse,
-  HealthContext
+  HealthContext,
+  HealthInsights,
+  AnalyteHistory,
+  LabResultDraft
 } from '../../../src/types/health.types';
 import { NotFoundError, BadRequestError } from '../../../src/utils/error.util';
+import { getAuditContext } from '../../../src/utils/audit.util';
+import { AuditContext } from '../../../src/types/audit.types';
 import {
   sendSuccess,
   sendCreated,
@@ -30,6 +35,7 @@ import {
 // Mock dependencies
 jest.mock('../../../src/services/health.service');
 jest.mock('../../../src/utils/response.util');
+jest.mock('../../../src/utils/audit.util');
 jest.mock('../../../src/config/logger');
 
 describe('HealthController', () => {
@@ -42,7 +48,12 @@ describe('HealthController', () => {
   let mockResponse: Partial<Response>;
   let mockNext: jest.MockedFunction<NextFunction>;
   
+  // Who made the request, as recorded in the audit log
+  const mockAuditContext: AuditContext = { actorId: mockUserId, ip: '203.0.113.7', userAgent: 'jest' };
+  
   beforeEach(() => {
+    (getAuditContext as jest.Mock).mockReturnValue(mockAuditContext);
+    
     // Initialize mocks
     mockConnection = {} as mongoose.Connection;
     
@@ -53,7 +64,10 @@ describe('HealthController', () => {
       getHealthData: jest.fn(),
       updateHealthData: jest.fn(),
       deleteHealthData: jest.fn(),
-      getHealthContext: jest.fn()
+      getHealthContext: jest.fn(),
+      getHealthInsights: jest.fn(),
+      getAnalyteHistory: jest.fn(),
+      extractLabResult: jest.fn()
     } as unknown as jest.Mocked<HealthService>;
     
     // Mock the HealthService constructor to return our mock instance
@@ -102,8 +116,10 @@ describe('HealthController', () => {
       expect(mockHealthService.createHealthData).toHaveBeenCalledWith(
         mockHealthDataRequest,
         mockUserId,
-        undefined
+        undefined,
+        mockAuditContext
       );
+      expect(getAuditContext).toHaveBeenCalledWith(mockRequest);
       // Expect sendCreated to be called with response and health data
       expect(sendCreated).toHaveBeenCalledWith(
         mockResponse,
@@ -135,7 +151,8 @@ describe('HealthController', () => {
       expect(mockHealthService.createHealthData).toHaveBeenCalledWith(
         mockHealthDataRequest,
         mockUserId,
-        mockFiles
+        mockFiles,
+        mockAuditContext
       );
       // Expect sendCreated to be called with response and health data
       expect(sendCreated).toHaveBeenCalledWith(
@@ -188,7 +205,8 @@ describe('HealthController', () => {
       // Expect HealthService.getHealthDataById to be called with ID and user ID
       expect(mockHealthService.getHealthDataById).toHaveBeenCalledWith(
         mockHealthDataId,
-        mockUserId
+        mockUserId,
+        mockAuditContext
       );
       // Expect sendSuccess to be called with response and health data
       expect(sendSuccess).toHaveBeenCalledWith(
@@ -270,7 +288,8 @@ describe('HealthController', () => {
       // Expect HealthService.getHealthData to be called with options and user ID
       expect(mockHealthService.getHealthData).toHaveBeenCalledWith(
         expect.any(Object),
-        mockUserId
+        mockUserId,
+        mockAuditContext
       );
       // Expect sendPaginated to be called with response, items, total, and page
       expect(sendPaginated).toHaveBeenCalledWith(
@@ -283,17 +302,21 @@ describe('HealthController', () => {
       );
     });
     
-    it('should handle query parameters correctly', async () => {
-      // Mock request with authenticated user and various query parameters
+    it('should pass all validated filters to the service', async () => {
+      // Mock request with query parameters as converted by the validation middleware
+      const filters = {
+        startDate: new Date('2023-03-01T00:00:00.000Z'),
+        endDate: new Date('2023-03-31T23:59:59.999Z'),
+        types: ['symptom'],
+        severity: ['moderate', 'severe'],
+        tags: ['migraine'],
+        search: 'headache',
+        page: 2,
+        limit: 10
+      };
       mockRequest = {
         user: { id: mockUserId },
-        query: {
-          date: '2023-05-15',
-          type: 'meal',
-          search: 'breakfast',
-          page: '2',
-          limit: '10'
-        }
+        query: filters as any
       };
       
       const mockPaginatedResult = {
@@ -310,17 +333,8 @@ describe('HealthController', () => {
         mockNext
       );
       
-      // Expect HealthService.getHealthData to be called with correctly parsed options
-      expect(mockHealthService.getHealthData).toHaveBeenCalledWith(
-        {
-          date: '2023-05-15',
-          type: 'meal',
-          search: 'breakfast',
-          page: 2,
-          limit: 10
-        },
-        mockUserId
-      );
+      // Expect HealthService.getHealthData to be called with every filter combined
+      expect(mockHealthService.getHealthData).toHaveBeenCalledWith(filters, mockUserId, mockAuditContext);
       expect(sendPaginated).toHaveBeenCalledWith(
         mockResponse,
         mockPaginatedResult.items,
@@ -382,7 +396,8 @@ describe('HealthController', () => {
         mockHealthDataId,
         mockUserId,
         updateData,
-        undefined
+        undefined,
+        mockAuditContext
       );
       expect(sendSuccess).toHaveBeenCalledWith(
         mockResponse,
@@ -420,7 +435,8 @@ describe('HealthController', () => {
         mockHealthDataId,
         mockUserId,
         updateData,
-        mockFiles
+        mockFiles,
+        mockAuditContext
       );
       expect(sendSuccess).toHaveBeenCalledWith(
         mockResponse,
@@ -497,7 +513,8 @@ describe('HealthController', () => {
       // Expect HealthService.deleteHealthData to be called with ID and user ID
       expect(mockHealthService.deleteHealthData).toHaveBeenCalledWith(
         mockHealthDataId,
-        mockUserId
+        mockUserId,
+        mockAuditContext
       );
       expect(sendNoContent).toHaveBeenCalledWith(mockResponse);
     });
@@ -637,4 +654,181 @@ describe('HealthController', () => {
       expect(sendSuccess).not.toHaveBeenCalled();
     });
   });
+  
+  describe('getHealthInsights', () => {
+    const mockInsights: HealthInsights = {
+      startDate: '2023-05-01T00:00:00.000Z',
+      endDate: '2023-05-31T00:00:00.000Z',
+      timezone: 'UTC',
+      mealsPerDay: [],
+      symptomTrend: [],
+      labTestHistory: []
+    };
+    
+    it('should return insights for the validated date range', async () => {
+      // Query values have already been converted by the validation middleware
+      const startDate = new Date(mockInsights.startDate);
+      const endDate = new Date(mockInsights.endDate);
+      mockRequest = {
+        user: { id: mockUserId },
+        query: { startDate, endDate, timezone: 'UTC' } as any
+      };
+      mockHealthService.getHealthInsights.mockResolvedValue(mockInsights);
+      
+      await controller.getHealthInsights(
+        mockRequest as any,
+        mockResponse as Response,
+        mockNext
+      );
+      
+      expect(mockHealthService.getHealthInsights).toHaveBeenCalledWith(mockUserId, {
+        startDate,
+        endDate,
+        timezone: 'UTC'
+      });
+      expect(sendSuccess).toHaveBeenCalledWith(
+        mockResponse,
+        mockInsights,
+        'Health insights retrieved successfully'
+      );
+    });
+    
+    it('should work when passed to the router unbound', async () => {
+      mockRequest = {
+        user: { id: mockUserId },
+        query: {}
+      };
+      mockHealthService.getHealthInsights.mockResolvedValue(mockInsights);
+      
+      const handler = controller.getHealthInsights;
+      await handler(mockRequest as any, mockResponse as Response, mockNext);
+      
+      expect(mockNext).not.toHaveBeenCalled();
+      expect(sendSuccess).toHaveBeenCalled();
+    });
+    
+    it('should pass error to next function when service throws', async () => {
+      mockRequest = {
+        user: { id: mockUserId },
+        query: {}
+      };
+      
+      const mockError = new Error('Service error');
+      mockHealthService.getHealthInsights.mockRejectedValue(mockError);
+      
+      await controller.getHealthInsights(
+        mockRequest as any,
+        mockResponse as Response,
+        mockNext
+      );
+      
+      expect(mockNext).toHaveBeenCalledWith(mockError);
+      expect(sendSuccess).not.toHaveBeenCalled();
+    });
+  });
+  
+  describe('getAnalyteHistory', () => {
+    const mockHistory: AnalyteHistory = {
+      key: 'glucose',
+      name: 'Glucose',
+      unit: 'mg/dL',
+      entries: []
+    };
+    
+    it('should return the history of the requested analyte', async () => {
+      // Query values have already been converted by the validation middleware
+      const startDate = new Date('2023-01-01T00:00:00.000Z');
+      mockRequest = {
+        user: { id: mockUserId },
+        params: { analyte: 'glucose' },
+        query: { startDate } as any
+      };
+      mockHealthService.getAnalyteHistory.mockResolvedValue(mockHistory);
+      
+      await controller.getAnalyteHistory(
+        mockRequest as any,
+        mockResponse as Response,
+        mockNext
+      );
+      
+      expect(mockHealthService.getAnalyteHistory).toHaveBeenCalledWith(mockUserId, 'glucose', {
+        startDate,
+        endDate: undefined
+      });
+      expect(sendSuccess).toHaveBeenCalledWith(
+        mockResponse,
+        mockHistory,
+        'Analyte history retrieved successfully'
+      );
+    });
+    
+    it('should pass error to next function when service throws', async () => {
+      mockRequest = {
+        user: { id: mockUserId },
+        params: { analyte: 'ferritin' },
+        query: {}
+      };
+      
+      const mockError = new NotFoundError('No lab results found for analyte: ferritin', 'analyte');
+      mockHealthService.getAnalyteHistory.mockRejectedValue(mockError);
+      
+      await controller.getAnalyteHistory(
+        mockRequest as any,
+        mockResponse as Response,
+        mockNext
+      );
+      
+      expect(mockNext).toHaveBeenCalledWith(mockError);
+      expect(sendSuccess).not.toHaveBeenCalled();
+    });
+  });
+  
+  describe('extractLabResult', () => {
+    it('should return the draft read from the lab result photo', async () => {
+      const mockDraft: LabResultDraft = {
+        healthDataId: mockHealthDataId,
+        fileId: 'file123',
+        confidence: 0.84,
+        text: 'HDL 45 mg/dL >40',
+        analytes: [{ name: 'HDL', value: 45, unit: 'mg/dL', referenceLow: 40, confidence: 0.84, line: 'HDL 45 mg/dL >40' }]
+      };
+      mockRequest = {
+        user: { id: mockUserId },
+        params: { id: mockHealthDataId }
+      };
+      mockHealthService.extractLabResult.mockResolvedValue(mockDraft);
+      
+      await controller.extractLabResult(
+        mockRequest as any,
+        mockResponse as Response,
+        mockNext
+      );
+      
+      expect(mockHealthService.extractLabResult).toHaveBeenCalledWith(mockHealthDataId, mockUserId, mockAuditContext);
+      expect(sendSuccess).toHaveBeenCalledWith(
+        mockResponse,
+        mockDraft,
+        'Lab result extracted successfully'
+      );
+    });
+    
+    it('should pass error to next function when service throws', async () => {
+      mockRequest = {
+        user: { id: mockUserId },
+        params: { id: mockHealthDataId }
+      };
+      
+      const mockError = new BadRequestError('Lab result has no photo to extract');
+      mockHealthService.extractLabResult.mockRejectedValue(mockError);
+      
+      await controller.extractLabResult(
+        mockRequest as any,
+        mockResponse as Response,
+        mockNext
+      );
+      
+      expect(mockNext).toHaveBeenCalledWith(mockError);
+      expect(sendSuccess).not.toHaveBeenCalled();
+    });
+  });
 });
\ No newline at end of file
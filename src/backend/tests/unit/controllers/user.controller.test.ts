@@ -1,20 +1,29 @@
-import { Request, Response, NextFunction } from 'express'; // express version ^4.18.2
+import { Response, NextFunction } from 'express'; // express version ^4.18.2
 import { UserController } from '../../../src/controllers/user.controller';
 import * as userService from '../../../src/services/user.service';
+import * as dataExportService from '../../../src/services/data-export.service';
+import * as accountDeletionService from '../../../src/services/account-deletion.service';
+import * as auditService from '../../../src/services/audit.service';
 import * as responseUtil from '../../../src/utils/response.util';
-import { NotFoundError } from '../../../src/utils/error.util';
+import { BadRequestError, ConflictError, NotFoundError } from '../../../src/utils/error.util';
 import { UserErrorType } from '../../../src/types/user.types';
+import { AuthenticatedRequest } from '../../../src/types/auth.types';
+import { ExportStatus } from '../../../src/types/export.types';
+import { AuditAction } from '../../../src/types/audit.types';
 import { mockUserProfileResponse, mockUserId } from '../../mocks/user.mock';
 import logger from '../../../src/config/logger';
 
 // Mock dependencies
 jest.mock('../../../src/services/user.service');
+jest.mock('../../../src/services/data-export.service');
+jest.mock('../../../src/services/account-deletion.service');
+jest.mock('../../../src/services/audit.service');
 jest.mock('../../../src/utils/response.util');
 jest.mock('../../../src/config/logger');
 
 describe('UserController', () => {
   // Setup test variables
-  let mockRequest: Partial<Request> & { user?: { id: string; email: string } };
+  let mockRequest: Partial<AuthenticatedRequest>;
   let mockResponse: Partial<Response>;
   let mockNext: NextFunction;
 
@@ -47,7 +56,7 @@ describe('UserController', () => {
       
       // Call getCurrentUser with mock request, response, and next
       await UserController.getCurrentUser(
-        mockRequest as Request,
+        mockRequest as AuthenticatedRequest,
         mockResponse as Response,
         mockNext
       );
@@ -81,7 +90,7 @@ describe('UserController', () => {
       
       // Call getCurrentUser with mock request, response, and next
       await UserController.getCurrentUser(
-        mockRequest as Request,
+        mockRequest as AuthenticatedRequest,
         mockResponse as Response,
         mockNext
       );
@@ -111,7 +120,7 @@ describe('UserController', () => {
       
       // Call getCurrentUser with mock request, response, and next
       await UserController.getCurrentUser(
-        mockRequest as Request,
+        mockRequest as AuthenticatedRequest,
         mockResponse as Response,
         mockNext
       );
@@ -138,7 +147,7 @@ describe('UserController', () => {
       
       // Call getCurrentUser with mock request, response, and next
       await UserController.getCurrentUser(
-        mockRequest as Request,
+        mockRequest as AuthenticatedRequest,
         mockResponse as Response,
         mockNext
       );
@@ -154,4 +163,172 @@ describe('UserController', () => {
       expect(error.message).toContain('Cannot read properties of undefined');
     });
   });
-});
\ No newline at end of file
+
+  describe('updateProfile', () => {
+    it('should update the profile and return it', async () => {
+      const updatedProfile = { ...mockUserProfileResponse, displayName: 'Alex', allergies: ['Peanuts'] };
+      (userService.updateUserProfile as jest.Mock).mockResolvedValue(updatedProfile);
+      mockRequest.body = { displayName: 'Alex', allergies: ['Peanuts'] };
+      
+      await UserController.updateProfile(
+        mockRequest as AuthenticatedRequest,
+        mockResponse as Response,
+        mockNext
+      );
+      
+      expect(userService.updateUserProfile).toHaveBeenCalledWith(mockUserId, {
+        displayName: 'Alex',
+        allergies: ['Peanuts']
+      });
+      expect(responseUtil.sendSuccess).toHaveBeenCalledWith(
+        mockResponse,
+        updatedProfile,
+        'User profile updated successfully'
+      );
+      expect(mockNext).not.toHaveBeenCalled();
+    });
+
+    it('should pass the error on when the user does not exist', async () => {
+      const notFound = new NotFoundError('User not found', UserErrorType.USER_NOT_FOUND);
+      (userService.updateUserProfile as jest.Mock).mockRejectedValue(notFound);
+      mockRequest.body = { displayName: 'Alex' };
+      
+      await UserController.updateProfile(
+        mockRequest as AuthenticatedRequest,
+        mockResponse as Response,
+        mockNext
+      );
+      
+      expect(mockNext).toHaveBeenCalledWith(notFound);
+      expect(responseUtil.sendSuccess).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('requestExport', () => {
+    it('should accept the export request and return its status', async () => {
+      const exportStatus = {
+        id: '64b7f0c2e4b0a1a2b3c4d5e6',
+        status: ExportStatus.PENDING,
+        createdAt: '2023-05-15T10:00:00.000Z',
+        expiresAt: '2023-05-16T10:00:00.000Z'
+      };
+      (dataExportService.requestDataExport as jest.Mock).mockResolvedValue(exportStatus);
+      
+      await UserController.requestExport(
+        mockRequest as AuthenticatedRequest,
+        mockResponse as Response,
+        mockNext
+      );
+      
+      expect(dataExportService.requestDataExport).toHaveBeenCalledWith(mockUserId);
+      expect(responseUtil.sendAccepted).toHaveBeenCalledWith(mockResponse, exportStatus, 'Data export started');
+      expect(mockNext).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('downloadExport', () => {
+    it('should stream the archive as a ZIP attachment', async () => {
+      const stream = { pipe: jest.fn(), on: jest.fn(), destroy: jest.fn() };
+      (dataExportService.getDataExportArchive as jest.Mock).mockResolvedValue({
+        stream,
+        filename: 'health-advisor-export-2023-05-15.zip',
+        size: 2048
+      });
+      mockRequest.params = { id: '64b7f0c2e4b0a1a2b3c4d5e6' };
+      mockResponse = {
+        ...mockResponse,
+        setHeader: jest.fn(),
+        attachment: jest.fn(),
+        on: jest.fn()
+      };
+      
+      await UserController.downloadExport(
+        mockRequest as AuthenticatedRequest,
+        mockResponse as Response,
+        mockNext
+      );
+      
+      expect(dataExportService.getDataExportArchive).toHaveBeenCalledWith(mockUserId, '64b7f0c2e4b0a1a2b3c4d5e6');
+      expect(mockResponse.setHeader).toHaveBeenCalledWith('Content-Type', 'application/zip');
+      expect(mockResponse.setHeader).toHaveBeenCalledWith('Content-Length', 2048);
+      expect(mockResponse.attachment).toHaveBeenCalledWith('health-advisor-export-2023-05-15.zip');
+      expect(stream.pipe).toHaveBeenCalledWith(mockResponse);
+    });
+
+    it('should pass the error on when the archive is not ready', async () => {
+      const notReady = new ConflictError('Export is not ready for download', 'EXPORT_NOT_READY');
+      (dataExportService.getDataExportArchive as jest.Mock).mockRejectedValue(notReady);
+      mockRequest.params = { id: '64b7f0c2e4b0a1a2b3c4d5e6' };
+      
+      await UserController.downloadExport(
+        mockRequest as AuthenticatedRequest,
+        mockResponse as Response,
+        mockNext
+      );
+      
+      expect(mockNext).toHaveBeenCalledWith(notReady);
+      expect(mockResponse.status).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('deleteAccount', () => {
+    it('should delete the account with the confirmed password and respond without content', async () => {
+      (accountDeletionService.deleteAccount as jest.Mock).mockResolvedValue(undefined);
+      mockRequest.body = { password: 'Password123!' };
+      
+      await UserController.deleteAccount(
+        mockRequest as AuthenticatedRequest,
+        mockResponse as Response,
+        mockNext
+      );
+      
+      expect(accountDeletionService.deleteAccount).toHaveBeenCalledWith(mockUserId, 'Password123!');
+      expect(responseUtil.sendNoContent).toHaveBeenCalledWith(mockResponse);
+      expect(mockNext).not.toHaveBeenCalled();
+    });
+
+    it('should pass the error on when the password is incorrect', async () => {
+      const incorrect = new BadRequestError('Password is incorrect', 'INVALID_PASSWORD');
+      (accountDeletionService.deleteAccount as jest.Mock).mockRejectedValue(incorrect);
+      mockRequest.body = { password: 'wrong-password' };
+      
+      await UserController.deleteAccount(
+        mockRequest as AuthenticatedRequest,
+        mockResponse as Response,
+        mockNext
+      );
+      
+      expect(mockNext).toHaveBeenCalledWith(incorrect);
+      expect(responseUtil.sendNoContent).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getAuditLog', () => {
+    it('should return the access history of the user\'s own data', async () => {
+      const items = [{ id: '64b7f0c2e4b0a1a2b3c4d5e7', action: AuditAction.READ }];
+      (auditService.getUserAuditLog as jest.Mock).mockResolvedValue({ items, total: 1, page: 1, limit: 20 });
+      mockRequest.query = { action: AuditAction.READ, page: 1, limit: 20 } as unknown as AuthenticatedRequest['query'];
+      
+      await UserController.getAuditLog(
+        mockRequest as AuthenticatedRequest,
+        mockResponse as Response,
+        mockNext
+      );
+      
+      expect(auditService.getUserAuditLog).toHaveBeenCalledWith(mockUserId, {
+        action: AuditAction.READ,
+        page: 1,
+        limit: 20
+      });
+      expect(responseUtil.sendPaginated).toHaveBeenCalledWith(
+        mockResponse,
+        items,
+        1,
+        1,
+        20,
+        'Audit log retrieved successfully'
+      );
+      expect(mockNext).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,109 @@
+import { Request, Response } from 'express';
+import { authenticate, optionalAuthenticate, withAuthenticatedUser } from '../../../src/middlewares/auth.middleware';
+import { findById, updateUserPassword } from '../../../src/repositories/user.repository';
+import { environment } from '../../../src/config/environment';
+import { AuthenticatedRequest, TokenType } from '../../../src/types/auth.types';
+import { UserDocument } from '../../../src/types/user.types';
+import { createTokenPayload, generateToken } from '../../../src/utils/jwt.util';
+import { AuthenticationError } from '../../../src/utils/error.util';
+import { createMockUserDocument } from '../../mocks/user.mock';
+
+jest.mock('../../../src/repositories/user.repository', () => ({
+  ...jest.requireActual('../../../src/repositories/user.repository'),
+  findById: jest.fn()
+}));
+
+describe('Auth middleware', () => {
+  const { JWT_SECRET, JWT_EXPIRATION } = environment;
+  let user: UserDocument;
+
+  // Signs an access token for the user, issued the given number of seconds ago
+  const issueToken = (secondsAgo = 0): string => generateToken({
+    ...createTokenPayload(user._id.toString(), user.email),
+    iat: Math.floor(Date.now() / 1000) - secondsAgo
+  }, TokenType.ACCESS);
+
+  const createRequest = (token: string): Request =>
+    ({ headers: { authorization: `Bearer ${token}` } } as Request);
+
+  beforeAll(() => {
+    environment.JWT_SECRET = 'test-jwt-secret';
+    environment.JWT_EXPIRATION = '1h';
+  });
+
+  afterAll(() => {
+    environment.JWT_SECRET = JWT_SECRET;
+    environment.JWT_EXPIRATION = JWT_EXPIRATION;
+  });
+
+  beforeEach(() => {
+    user = createMockUserDocument();
+    user.save = jest.fn().mockResolvedValue(user);
+    (findById as jest.Mock).mockResolvedValue(user);
+  });
+
+  describe('authenticate', () => {
+    it('should attach the user of a valid access token to the request', async () => {
+      const req = createRequest(issueToken());
+      const next = jest.fn();
+
+      await authenticate(req, {} as Response, next);
+
+      expect(next).toHaveBeenCalledWith();
+      expect((req as AuthenticatedRequest).user).toEqual({ id: user._id.toString(), email: user.email });
+    });
+
+    it('should reject access tokens issued before a password reset', async () => {
+      const token = issueToken(60);
+
+      await updateUserPassword(user, 'NewPassword1!');
+      const next = jest.fn();
+      await authenticate(createRequest(token), {} as Response, next);
+
+      expect(next).toHaveBeenCalledWith(expect.any(AuthenticationError));
+      expect(next.mock.calls[0][0].statusCode).toBe(401);
+
+      // Signing in with the new password starts a session that is accepted
+      const newSessionNext = jest.fn();
+      await authenticate(createRequest(issueToken()), {} as Response, newSessionNext);
+      expect(newSessionNext).toHaveBeenCalledWith();
+    });
+
+    it('should reject tokens of deleted users', async () => {
+      (findById as jest.Mock).mockResolvedValue(null);
+      const next = jest.fn();
+
+      await authenticate(createRequest(issueToken()), {} as Response, next);
+
+      expect(next).toHaveBeenCalledWith(expect.any(AuthenticationError));
+    });
+  });
+
+  describe('optionalAuthenticate', () => {
+    it('should treat tokens issued before a password change as unauthenticated', async () => {
+      const req = createRequest(issueToken(60));
+      await updateUserPassword(user, 'NewPassword1!');
+      const next = jest.fn();
+
+      await optionalAuthenticate(req, {} as Response, next);
+
+      expect(next).toHaveBeenCalledWith();
+      expect((req as AuthenticatedRequest).user).toBeUndefined();
+    });
+  });
+
+  describe('withAuthenticatedUser', () => {
+    it('should pass the authenticated request on to the handler', async () => {
+      const handler = jest.fn().mockResolvedValue(undefined);
+      const req = createRequest(issueToken());
+      const res = {} as Response;
+      const next = jest.fn();
+
+      await authenticate(req, res, next);
+      withAuthenticatedUser(handler)(req, res, next);
+
+      expect(handler).toHaveBeenCalledWith(req, res, next);
+      expect(handler.mock.calls[0][0].user).toEqual({ id: user._id.toString(), email: user.email });
+    });
+  });
+});
@@ -0,0 +1,141 @@
+import { Types } from 'mongoose';
+import { deleteAccount } from '../../../src/services/account-deletion.service';
+import * as accountDeletionRepository from '../../../src/repositories/account-deletion.repository';
+import { deleteAllUserConversations } from '../../../src/repositories/chat.repository';
+import { deleteRefreshTokensByUserId } from '../../../src/repositories/refresh-token.repository';
+import { deletePasswordResetTokensByUserId } from '../../../src/repositories/password-reset-token.repository';
+import { findById, deleteUserById } from '../../../src/repositories/user.repository';
+import { HealthRepository } from '../../../src/repositories/health.repository';
+import { FileRepository } from '../../../src/repositories/file.repository';
+import { deleteAllDataExports } from '../../../src/services/data-export.service';
+import {
+  AccountDeletionDocument,
+  AccountDeletionStatus,
+  AccountDeletionStep
+} from '../../../src/types/account-deletion.types';
+import { BadRequestError, InternalServerError, NotFoundError } from '../../../src/utils/error.util';
+import { hashToken } from '../../../src/utils/encryption.util';
+
+jest.mock('../../../src/repositories/account-deletion.repository');
+jest.mock('../../../src/repositories/chat.repository');
+jest.mock('../../../src/repositories/refresh-token.repository');
+jest.mock('../../../src/repositories/password-reset-token.repository');
+jest.mock('../../../src/repositories/user.repository');
+jest.mock('../../../src/repositories/health.repository');
+jest.mock('../../../src/repositories/file.repository');
+jest.mock('../../../src/services/data-export.service');
+
+const repository = accountDeletionRepository as jest.Mocked<typeof accountDeletionRepository>;
+
+describe('Account deletion service', () => {
+  const userId = new Types.ObjectId().toString();
+  const healthDataId = new Types.ObjectId();
+  const comparePassword = jest.fn();
+
+  const createDeletion = (overrides: Partial<AccountDeletionDocument> = {}): AccountDeletionDocument => ({
+    _id: new Types.ObjectId(),
+    userId: new Types.ObjectId(userId),
+    emailHash: hashToken('user@example.com'),
+    status: AccountDeletionStatus.IN_PROGRESS,
+    completedSteps: [],
+    deletedCounts: {},
+    attempts: 1,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides
+  } as AccountDeletionDocument);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    comparePassword.mockResolvedValue(true);
+    (findById as jest.Mock).mockResolvedValue({ _id: new Types.ObjectId(userId), email: 'User@example.com', comparePassword });
+    repository.startAccountDeletion.mockResolvedValue(createDeletion());
+    repository.markAccountDeletionFailed.mockResolvedValue();
+
+    (deleteAllDataExports as jest.Mock).mockResolvedValue(1);
+    (HealthRepository.prototype.findAllHealthDataByUserId as jest.Mock).mockResolvedValue([
+      { _id: healthDataId, fileIds: [new Types.ObjectId()] },
+      { _id: new Types.ObjectId(), fileIds: [] }
+    ]);
+    (FileRepository.prototype.deleteFilesByHealthDataId as jest.Mock).mockResolvedValue(2);
+    (FileRepository.prototype.deleteFilesByUserId as jest.Mock).mockResolvedValue(1);
+    (HealthRepository.prototype.deleteAllHealthDataByUserId as jest.Mock).mockResolvedValue(2);
+    (deleteAllUserConversations as jest.Mock).mockResolvedValue({ conversations: 1, messages: 4 });
+    (deleteRefreshTokensByUserId as jest.Mock).mockResolvedValue(3);
+    (deletePasswordResetTokensByUserId as jest.Mock).mockResolvedValue(1);
+    (deleteUserById as jest.Mock).mockResolvedValue(true);
+  });
+
+  it('should refuse to delete the account when the password is incorrect', async () => {
+    comparePassword.mockResolvedValue(false);
+
+    await expect(deleteAccount(userId, 'wrong-password')).rejects.toBeInstanceOf(BadRequestError);
+
+    expect(repository.startAccountDeletion).not.toHaveBeenCalled();
+    expect(deleteUserById).not.toHaveBeenCalled();
+  });
+
+  it('should purge the user data step by step and delete the account last', async () => {
+    await deleteAccount(userId, 'Password123!');
+
+    expect(repository.startAccountDeletion).toHaveBeenCalledWith(userId, hashToken('user@example.com'));
+    expect(FileRepository.prototype.deleteFilesByHealthDataId).toHaveBeenCalledTimes(1);
+    expect(FileRepository.prototype.deleteFilesByHealthDataId).toHaveBeenCalledWith(healthDataId.toString());
+    expect(repository.markAccountDeletionStepCompleted.mock.calls.map(([, step, count]) => [step, count])).toEqual([
+      [AccountDeletionStep.DATA_EXPORTS, 1],
+      [AccountDeletionStep.FILES, 3],
+      [AccountDeletionStep.HEALTH_DATA, 2],
+      [AccountDeletionStep.CHATS, 5],
+      [AccountDeletionStep.TOKENS, 4],
+      [AccountDeletionStep.USER, 1]
+    ]);
+    expect(repository.markAccountDeletionCompleted).toHaveBeenCalled();
+  });
+
+  it('should record the failed step and keep the account so the deletion can be retried', async () => {
+    (deleteAllUserConversations as jest.Mock).mockRejectedValue(new Error('Connection lost'));
+
+    await expect(deleteAccount(userId, 'Password123!')).rejects.toBeInstanceOf(InternalServerError);
+
+    expect(repository.markAccountDeletionFailed).toHaveBeenCalledWith(expect.any(String), 'Step chats failed');
+    expect(deleteRefreshTokensByUserId).not.toHaveBeenCalled();
+    expect(deleteUserById).not.toHaveBeenCalled();
+    expect(repository.markAccountDeletionCompleted).not.toHaveBeenCalled();
+  });
+
+  it('should resume a failed deletion after the steps it already completed', async () => {
+    repository.startAccountDeletion.mockResolvedValue(createDeletion({
+      attempts: 2,
+      completedSteps: [AccountDeletionStep.DATA_EXPORTS, AccountDeletionStep.FILES, AccountDeletionStep.HEALTH_DATA]
+    }));
+
+    await deleteAccount(userId, 'Password123!');
+
+    expect(deleteAllDataExports).not.toHaveBeenCalled();
+    expect(FileRepository.prototype.deleteFilesByUserId).not.toHaveBeenCalled();
+    expect(HealthRepository.prototype.deleteAllHealthDataByUserId).not.toHaveBeenCalled();
+    expect(deleteAllUserConversations).toHaveBeenCalledWith(userId);
+    expect(deleteUserById).toHaveBeenCalledWith(userId);
+    expect(repository.markAccountDeletionCompleted).toHaveBeenCalled();
+  });
+
+  it('should succeed without doing anything when the account was already deleted', async () => {
+    (findById as jest.Mock).mockResolvedValue(null);
+    repository.findAccountDeletionByUserId.mockResolvedValue(createDeletion({
+      status: AccountDeletionStatus.COMPLETED,
+      completedSteps: Object.values(AccountDeletionStep)
+    }));
+
+    await expect(deleteAccount(userId, 'Password123!')).resolves.toBeUndefined();
+
+    expect(repository.startAccountDeletion).not.toHaveBeenCalled();
+    expect(deleteUserById).not.toHaveBeenCalled();
+  });
+
+  it('should reject a user that never existed', async () => {
+    (findById as jest.Mock).mockResolvedValue(null);
+    repository.findAccountDeletionByUserId.mockResolvedValue(null);
+
+    await expect(deleteAccount(userId, 'Password123!')).rejects.toBeInstanceOf(NotFoundError);
+  });
+});
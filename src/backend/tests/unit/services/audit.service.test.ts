@@ -0,0 +1,116 @@
+import { Types } from 'mongoose';
+import {
+  getUserAuditLog,
+  queryAuditLog,
+  recordAuditEvent,
+  recordAuditEvents
+} from '../../../src/services/audit.service';
+import { createAuditEntries, findAuditEntries } from '../../../src/repositories/audit-entry.repository';
+import {
+  AuditAction,
+  AuditContext,
+  AuditEntryDocument,
+  AuditResourceType
+} from '../../../src/types/audit.types';
+
+jest.mock('../../../src/repositories/audit-entry.repository');
+jest.mock('../../../src/config/logger');
+
+describe('Audit service', () => {
+  const userId = new Types.ObjectId().toString();
+  const healthDataId = new Types.ObjectId().toString();
+  const context: AuditContext = { actorId: userId, ip: '203.0.113.7', userAgent: 'jest' };
+
+  const createEntry = (overrides: Partial<AuditEntryDocument> = {}): AuditEntryDocument => ({
+    _id: new Types.ObjectId(),
+    actorId: new Types.ObjectId(userId),
+    ownerId: new Types.ObjectId(userId),
+    action: AuditAction.UPDATE,
+    resourceType: AuditResourceType.HEALTH_DATA,
+    resourceId: new Types.ObjectId(healthDataId),
+    ip: '203.0.113.7',
+    changes: [{ field: 'data.description' }],
+    createdAt: new Date('2023-05-15T08:30:00.000Z'),
+    ...overrides
+  } as AuditEntryDocument);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('recordAuditEvents', () => {
+    it('should store an entry per event with who performed it and from where', async () => {
+      await recordAuditEvent(context, {
+        action: AuditAction.DELETE,
+        resourceType: AuditResourceType.HEALTH_DATA,
+        resourceId: healthDataId,
+        ownerId: userId
+      });
+
+      expect(createAuditEntries).toHaveBeenCalledWith([{
+        actorId: new Types.ObjectId(userId),
+        ownerId: new Types.ObjectId(userId),
+        action: AuditAction.DELETE,
+        resourceType: AuditResourceType.HEALTH_DATA,
+        resourceId: new Types.ObjectId(healthDataId),
+        ip: '203.0.113.7',
+        userAgent: 'jest',
+        changes: []
+      }]);
+    });
+
+    it('should not store anything without events', async () => {
+      await recordAuditEvents(context, []);
+
+      expect(createAuditEntries).not.toHaveBeenCalled();
+    });
+
+    it('should not fail the request when the audit log cannot be written', async () => {
+      (createAuditEntries as jest.Mock).mockRejectedValue(new Error('write failed'));
+
+      await expect(recordAuditEvent(context, {
+        action: AuditAction.READ,
+        resourceType: AuditResourceType.HEALTH_DATA,
+        resourceId: healthDataId,
+        ownerId: userId
+      })).resolves.toBeUndefined();
+    });
+  });
+
+  describe('getUserAuditLog', () => {
+    it('should only return entries about the user\'s own data', async () => {
+      const entry = createEntry();
+      (findAuditEntries as jest.Mock).mockResolvedValue({ items: [entry], total: 1 });
+
+      const result = await getUserAuditLog(userId, { action: AuditAction.UPDATE, page: 2 });
+
+      expect(findAuditEntries).toHaveBeenCalledWith({ action: AuditAction.UPDATE, ownerId: userId }, 2, 20);
+      expect(result).toEqual({
+        items: [{
+          id: entry._id.toString(),
+          actorId: userId,
+          ownerId: userId,
+          action: AuditAction.UPDATE,
+          resourceType: AuditResourceType.HEALTH_DATA,
+          resourceId: healthDataId,
+          ip: '203.0.113.7',
+          changes: [{ field: 'data.description' }],
+          createdAt: entry.createdAt
+        }],
+        total: 1,
+        page: 2,
+        limit: 20
+      });
+    });
+  });
+
+  describe('queryAuditLog', () => {
+    it('should pass every filter on', async () => {
+      (findAuditEntries as jest.Mock).mockResolvedValue({ items: [], total: 0 });
+
+      await queryAuditLog({ actorId: userId, ip: '203.0.113.7', limit: 50 });
+
+      expect(findAuditEntries).toHaveBeenCalledWith({ actorId: userId, ip: '203.0.113.7' }, 1, 50);
+    });
+  });
+});
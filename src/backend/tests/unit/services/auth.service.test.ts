@@ -1,25 +1,57 @@
 import {
   signup,
   login,
+  refresh,
+  logout,
   validateToken,
-  formatUserResponse
+  formatUserResponse,
+  changePassword,
+  requestPasswordReset,
+  resetPassword,
+  verifyTwoFactorLogin
 } from '../../../src/services/auth.service';
 import {
+  findById,
   findByEmail,
   createUser,
-  getUserById
+  getUserById,
+  updateUserPassword
 } from '../../../src/repositories/user.repository';
+import {
+  createRefreshToken,
+  findRefreshTokenByHash,
+  rotateRefreshToken,
+  revokeTokenFamily,
+  revokeRefreshTokensByUserId
+} from '../../../src/repositories/refresh-token.repository';
+import {
+  createPasswordResetToken,
+  consumePasswordResetToken,
+  deletePasswordResetTokensByUserId
+} from '../../../src/repositories/password-reset-token.repository';
+import { MailService } from '../../../src/services/mail.service';
+import {
+  assertLoginAllowed,
+  registerFailedLogin,
+  clearFailedLogins
+} from '../../../src/services/login-lockout.service';
+import { verifyTwoFactorCode } from '../../../src/services/two-factor.service';
 import {
   hashPassword,
-  verifyPassword
+  verifyPassword,
+  hashToken,
+  generateSecureToken
 } from '../../../src/utils/encryption.util';
 import {
   generateToken,
   verifyToken,
-  createTokenPayload
+  createTokenPayload,
+  decodeToken
 } from '../../../src/utils/jwt.util';
 import {
   AuthenticationError,
+  AccountLockedError,
+  BadRequestError,
   ConflictError
 } from '../../../src/utils/error.util';
 import {
@@ -35,6 +67,11 @@ import {
 
 // Mock dependencies
 jest.mock('../../../src/repositories/user.repository');
+jest.mock('../../../src/repositories/refresh-token.repository');
+jest.mock('../../../src/repositories/password-reset-token.repository');
+jest.mock('../../../src/services/mail.service');
+jest.mock('../../../src/services/login-lockout.service');
+jest.mock('../../../src/services/two-factor.service');
 jest.mock('../../../src/utils/encryption.util');
 jest.mock('../../../src/utils/jwt.util');
 
@@ -55,6 +92,15 @@ describe('Auth Service', () => {
       email: mockUserDocument.email,
       iat: Math.floor(Date.now() / 1000)
     });
+    (hashToken as jest.Mock).mockImplementation((token: string) => `hash:${token}`);
+    (decodeToken as jest.Mock).mockReturnValue({ exp: Math.floor(Date.now() / 1000) + 3600 });
+    (createRefreshToken as jest.Mock).mockResolvedValue({});
+    (rotateRefreshToken as jest.Mock).mockResolvedValue(true);
+    (revokeTokenFamily as jest.Mock).mockResolvedValue(1);
+    (revokeRefreshTokensByUserId as jest.Mock).mockResolvedValue(2);
+    (deletePasswordResetTokensByUserId as jest.Mock).mockResolvedValue(0);
+    (updateUserPassword as jest.Mock).mockImplementation((user) => Promise.resolve(user));
+    (generateSecureToken as jest.Mock).mockResolvedValue('a1b2c3');
   });
 
   describe('signup', () => {
@@ -76,8 +122,18 @@ describe('Auth Service', () => {
         expect.any(Object), 
         TokenType.ACCESS
       );
+      expect(generateToken).toHaveBeenCalledWith(
+        expect.objectContaining({ tokenType: TokenType.REFRESH, familyId: expect.any(String) }),
+        TokenType.REFRESH
+      );
+      expect(createRefreshToken).toHaveBeenCalledWith(expect.objectContaining({
+        userId: mockUserDocument._id.toString(),
+        tokenHash: 'hash:mockedToken',
+        expiresAt: expect.any(Date)
+      }));
       expect(result).toEqual({
         token: expect.any(String),
+        refreshToken: expect.any(String),
         user: {
           id: mockUserDocument._id.toString(),
           email: mockUserDocument.email
@@ -125,8 +181,18 @@ describe('Auth Service', () => {
         expect.any(Object), 
         TokenType.ACCESS
       );
+      expect(generateToken).toHaveBeenCalledWith(
+        expect.objectContaining({ tokenType: TokenType.REFRESH, familyId: expect.any(String) }),
+        TokenType.REFRESH
+      );
+      expect(createRefreshToken).toHaveBeenCalledWith(expect.objectContaining({
+        userId: mockUserDocument._id.toString(),
+        tokenHash: 'hash:mockedToken',
+        expiresAt: expect.any(Date)
+      }));
       expect(result).toEqual({
         token: expect.any(String),
+        refreshToken: expect.any(String),
         user: {
           id: mockUserDocument._id.toString(),
           email: mockUserDocument.email
@@ -144,6 +210,7 @@ describe('Auth Service', () => {
       // Execute & Assert
       await expect(login(loginInput)).rejects.toThrow(AuthenticationError);
       expect(findByEmail).toHaveBeenCalledWith(loginInput.email);
+      expect(registerFailedLogin).toHaveBeenCalledWith(loginInput.email, null, undefined);
       expect(generateToken).not.toHaveBeenCalled();
     });
 
@@ -166,6 +233,367 @@ describe('Auth Service', () => {
       expect(mockUser.comparePassword).toHaveBeenCalledWith(loginInput.password);
       expect(generateToken).not.toHaveBeenCalled();
     });
+
+    it('should count a failed login for the account and the IP address', async () => {
+      // Setup
+      const mockUser = {
+        ...mockUserDocument,
+        comparePassword: jest.fn().mockResolvedValue(false)
+      };
+      (findByEmail as jest.Mock).mockResolvedValue(mockUser);
+
+      // Execute & Assert
+      await expect(login({ email: mockUserDocument.email, password: 'wrongpassword' }, '203.0.113.7'))
+        .rejects.toThrow(AuthenticationError);
+      expect(registerFailedLogin).toHaveBeenCalledWith(mockUserDocument.email, mockUser, '203.0.113.7');
+      expect(clearFailedLogins).not.toHaveBeenCalled();
+    });
+
+    it('should report the lockout when a failed login locks the account', async () => {
+      // Setup
+      const mockUser = {
+        ...mockUserDocument,
+        comparePassword: jest.fn().mockResolvedValue(false)
+      };
+      (findByEmail as jest.Mock).mockResolvedValue(mockUser);
+      const lockedError = new AccountLockedError('Too many failed login attempts.', new Date(Date.now() + 60000));
+      (registerFailedLogin as jest.Mock).mockRejectedValueOnce(lockedError);
+
+      // Execute & Assert
+      await expect(login({ email: mockUserDocument.email, password: 'wrongpassword' }, '203.0.113.7'))
+        .rejects.toBe(lockedError);
+      expect(generateToken).not.toHaveBeenCalled();
+    });
+
+    it('should refuse a locked account without checking the password', async () => {
+      // Setup
+      const mockUser = {
+        ...mockUserDocument,
+        comparePassword: jest.fn().mockResolvedValue(true)
+      };
+      (findByEmail as jest.Mock).mockResolvedValue(mockUser);
+      (assertLoginAllowed as jest.Mock).mockRejectedValueOnce(
+        new AccountLockedError('Too many failed login attempts.', new Date(Date.now() + 60000))
+      );
+
+      // Execute & Assert
+      await expect(login({ email: mockUserDocument.email, password: 'password123' }, '203.0.113.7'))
+        .rejects.toBeInstanceOf(AccountLockedError);
+      expect(assertLoginAllowed).toHaveBeenCalledWith(mockUserDocument.email, mockUser, '203.0.113.7');
+      expect(mockUser.comparePassword).not.toHaveBeenCalled();
+      expect(generateToken).not.toHaveBeenCalled();
+    });
+
+    it('should clear the failed logins of the account after a successful login', async () => {
+      // Setup
+      const mockUser = {
+        ...mockUserDocument,
+        comparePassword: jest.fn().mockResolvedValue(true)
+      };
+      (findByEmail as jest.Mock).mockResolvedValue(mockUser);
+
+      // Execute
+      await login({ email: mockUserDocument.email, password: 'password123' }, '203.0.113.7');
+
+      // Assert
+      expect(clearFailedLogins).toHaveBeenCalledWith(mockUser);
+      expect(registerFailedLogin).not.toHaveBeenCalled();
+    });
+    it('should return a two-factor challenge instead of tokens when two-factor authentication is on', async () => {
+      // Setup
+      const mockUser = {
+        ...mockUserDocument,
+        twoFactorEnabled: true,
+        comparePassword: jest.fn().mockResolvedValue(true)
+      };
+      (findByEmail as jest.Mock).mockResolvedValue(mockUser);
+      (generateToken as jest.Mock).mockReturnValueOnce('challengeToken');
+
+      // Execute
+      const result = await login({ email: mockUserDocument.email, password: 'password123' }, '203.0.113.7');
+
+      // Assert
+      expect(result).toEqual({ twoFactorRequired: true, challengeToken: 'challengeToken' });
+      expect(generateToken).toHaveBeenCalledTimes(1);
+      expect(generateToken).toHaveBeenCalledWith(
+        expect.objectContaining({ tokenType: TokenType.TWO_FACTOR_CHALLENGE }),
+        TokenType.TWO_FACTOR_CHALLENGE
+      );
+      expect(createRefreshToken).not.toHaveBeenCalled();
+      expect(clearFailedLogins).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('verifyTwoFactorLogin', () => {
+    const mockUser = {
+      ...mockUserDocument,
+      twoFactorEnabled: true
+    };
+
+    beforeEach(() => {
+      (verifyToken as jest.Mock).mockResolvedValue({
+        userId: mockUserId,
+        email: mockUserDocument.email,
+        tokenType: TokenType.TWO_FACTOR_CHALLENGE
+      });
+      (findById as jest.Mock).mockResolvedValue(mockUser);
+      (verifyTwoFactorCode as jest.Mock).mockResolvedValue(true);
+    });
+
+    it('should issue a token pair for a valid code', async () => {
+      // Execute
+      const result = await verifyTwoFactorLogin({ challengeToken: 'challengeToken', code: '123456' }, '203.0.113.7');
+
+      // Assert
+      expect(verifyToken).toHaveBeenCalledWith('challengeToken');
+      expect(assertLoginAllowed).toHaveBeenCalledWith(mockUserDocument.email, mockUser, '203.0.113.7');
+      expect(verifyTwoFactorCode).toHaveBeenCalledWith(mockUser, '123456');
+      expect(clearFailedLogins).toHaveBeenCalledWith(mockUser);
+      expect(generateToken).toHaveBeenCalledWith(expect.any(Object), TokenType.ACCESS);
+      expect(result).toEqual({
+        token: expect.any(String),
+        refreshToken: expect.any(String),
+        user: {
+          id: mockUserDocument._id.toString(),
+          email: mockUserDocument.email
+        }
+      });
+    });
+
+    it('should count a wrong code as a failed login', async () => {
+      // Setup
+      (verifyTwoFactorCode as jest.Mock).mockResolvedValueOnce(false);
+
+      // Execute & Assert
+      const error = await verifyTwoFactorLogin({ challengeToken: 'challengeToken', code: '000000' }, '203.0.113.7')
+        .catch((e: unknown) => e);
+      expect(error).toBeInstanceOf(AuthenticationError);
+      expect((error as AuthenticationError).errorCode).toBe(AuthErrorType.INVALID_TWO_FACTOR_CODE);
+      expect(registerFailedLogin).toHaveBeenCalledWith(mockUserDocument.email, mockUser, '203.0.113.7');
+      expect(generateToken).not.toHaveBeenCalled();
+    });
+
+    it('should reject tokens that are not two-factor challenges', async () => {
+      // Setup
+      (verifyToken as jest.Mock).mockResolvedValueOnce({ userId: mockUserId, email: mockUserDocument.email });
+
+      // Execute & Assert
+      await expect(verifyTwoFactorLogin({ challengeToken: 'accessToken', code: '123456' }))
+        .rejects.toThrow(AuthenticationError);
+      expect(verifyTwoFactorCode).not.toHaveBeenCalled();
+      expect(generateToken).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('refresh', () => {
+    const familyId = 'family-1';
+    const refreshPayload = {
+      userId: mockUserId,
+      email: mockUserDocument.email,
+      iat: Math.floor(Date.now() / 1000),
+      tokenType: TokenType.REFRESH,
+      familyId
+    };
+
+    beforeEach(() => {
+      (verifyToken as jest.Mock).mockResolvedValue(refreshPayload);
+      (createTokenPayload as jest.Mock).mockReturnValue({
+        userId: mockUserId,
+        email: mockUserDocument.email,
+        iat: Math.floor(Date.now() / 1000)
+      });
+      (generateToken as jest.Mock).mockImplementation((payload: unknown, tokenType: TokenType) =>
+        tokenType === TokenType.REFRESH ? 'new-refresh-token' : 'new-access-token'
+      );
+      (findRefreshTokenByHash as jest.Mock).mockResolvedValue({
+        userId: mockUserId,
+        tokenHash: 'hash:old-refresh-token',
+        familyId
+      });
+    });
+
+    it('should rotate the refresh token within its family', async () => {
+      // Execute
+      const result = await refresh('old-refresh-token');
+
+      // Assert
+      expect(verifyToken).toHaveBeenCalledWith('old-refresh-token');
+      expect(findRefreshTokenByHash).toHaveBeenCalledWith('hash:old-refresh-token');
+      expect(rotateRefreshToken).toHaveBeenCalledWith('hash:old-refresh-token', 'hash:new-refresh-token');
+      expect(createRefreshToken).toHaveBeenCalledWith(expect.objectContaining({
+        userId: mockUserId,
+        tokenHash: 'hash:new-refresh-token',
+        familyId
+      }));
+      expect(revokeTokenFamily).not.toHaveBeenCalled();
+      expect(result).toEqual({
+        token: 'new-access-token',
+        refreshToken: 'new-refresh-token'
+      });
+    });
+
+    it('should revoke the family when a rotated token is reused', async () => {
+      // Setup
+      (findRefreshTokenByHash as jest.Mock).mockResolvedValue({
+        userId: mockUserId,
+        tokenHash: 'hash:old-refresh-token',
+        familyId,
+        replacedBy: 'hash:newer-refresh-token'
+      });
+
+      // Execute & Assert
+      await expect(refresh('old-refresh-token')).rejects.toThrow(AuthenticationError);
+      expect(revokeTokenFamily).toHaveBeenCalledWith(familyId);
+      expect(rotateRefreshToken).not.toHaveBeenCalled();
+      expect(createRefreshToken).not.toHaveBeenCalled();
+    });
+
+    it('should revoke the family when a concurrent refresh already rotated the token', async () => {
+      // Setup
+      (rotateRefreshToken as jest.Mock).mockResolvedValue(false);
+
+      // Execute & Assert
+      await expect(refresh('old-refresh-token')).rejects.toThrow(AuthenticationError);
+      expect(revokeTokenFamily).toHaveBeenCalledWith(familyId);
+      expect(createRefreshToken).not.toHaveBeenCalled();
+    });
+
+    it('should reject access tokens', async () => {
+      // Setup
+      (verifyToken as jest.Mock).mockResolvedValue({
+        userId: mockUserId,
+        email: mockUserDocument.email,
+        iat: Math.floor(Date.now() / 1000)
+      });
+
+      // Execute & Assert
+      await expect(refresh('access-token')).rejects.toThrow(AuthenticationError);
+      expect(findRefreshTokenByHash).not.toHaveBeenCalled();
+    });
+
+    it('should reject tokens that were never issued', async () => {
+      // Setup
+      (findRefreshTokenByHash as jest.Mock).mockResolvedValue(null);
+
+      // Execute & Assert
+      await expect(refresh('unknown-refresh-token')).rejects.toThrow(AuthenticationError);
+      expect(rotateRefreshToken).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('logout', () => {
+    it('should revoke the family of the refresh token', async () => {
+      // Setup
+      (findRefreshTokenByHash as jest.Mock).mockResolvedValue({
+        userId: mockUserId,
+        familyId: 'family-1'
+      });
+
+      // Execute
+      await logout('refresh-token');
+
+      // Assert
+      expect(findRefreshTokenByHash).toHaveBeenCalledWith('hash:refresh-token');
+      expect(revokeTokenFamily).toHaveBeenCalledWith('family-1');
+    });
+
+    it('should ignore unknown refresh tokens', async () => {
+      // Setup
+      (findRefreshTokenByHash as jest.Mock).mockResolvedValue(null);
+
+      // Execute & Assert
+      await expect(logout('unknown-refresh-token')).resolves.toBeUndefined();
+      expect(revokeTokenFamily).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('changePassword', () => {
+    it('should change the password, revoke every session and issue a new token pair', async () => {
+      // Execute
+      const result = await changePassword(mockUserId, {
+        currentPassword: 'password123',
+        newPassword: 'NewPassword1!'
+      });
+
+      // Assert
+      expect(updateUserPassword).toHaveBeenCalledWith(mockUserDocument, 'NewPassword1!');
+      expect(revokeRefreshTokensByUserId).toHaveBeenCalledWith(mockUserId);
+      expect(deletePasswordResetTokensByUserId).toHaveBeenCalledWith(mockUserId);
+      expect(createRefreshToken).toHaveBeenCalled();
+      expect(result).toEqual({
+        token: 'mockedToken',
+        refreshToken: 'mockedToken',
+        user: {
+          id: mockUserDocument._id.toString(),
+          email: mockUserDocument.email
+        }
+      });
+    });
+
+    it('should throw a bad request error if the current password is incorrect', async () => {
+      // Execute & Assert
+      await expect(changePassword(mockUserId, {
+        currentPassword: 'wrong-password',
+        newPassword: 'NewPassword1!'
+      })).rejects.toBeInstanceOf(BadRequestError);
+      expect(updateUserPassword).not.toHaveBeenCalled();
+      expect(revokeRefreshTokensByUserId).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('requestPasswordReset', () => {
+    it('should store the hash of a new reset code and email the code', async () => {
+      // Setup
+      (findByEmail as jest.Mock).mockResolvedValue(mockUserDocument);
+
+      // Execute
+      await requestPasswordReset(mockUserDocument.email);
+
+      // Assert
+      expect(deletePasswordResetTokensByUserId).toHaveBeenCalledWith(mockUserDocument._id.toString());
+      expect(createPasswordResetToken).toHaveBeenCalledWith({
+        userId: mockUserDocument._id.toString(),
+        tokenHash: 'hash:a1b2c3',
+        expiresAt: expect.any(Date)
+      });
+      expect(MailService.prototype.send).toHaveBeenCalledWith(expect.objectContaining({
+        to: mockUserDocument.email,
+        text: expect.stringContaining('a1b2c3')
+      }));
+    });
+
+    it('should do nothing for an unknown email address', async () => {
+      // Execute & Assert
+      await expect(requestPasswordReset('unknown@example.com')).resolves.toBeUndefined();
+      expect(createPasswordResetToken).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('resetPassword', () => {
+    it('should set the new password and revoke every session', async () => {
+      // Setup
+      (consumePasswordResetToken as jest.Mock).mockResolvedValue({ userId: mockUserDocument._id });
+      (findById as jest.Mock).mockResolvedValue(mockUserDocument);
+
+      // Execute
+      await resetPassword('a1b2c3', 'NewPassword1!');
+
+      // Assert
+      expect(consumePasswordResetToken).toHaveBeenCalledWith('hash:a1b2c3');
+      expect(updateUserPassword).toHaveBeenCalledWith(mockUserDocument, 'NewPassword1!');
+      expect(revokeRefreshTokensByUserId).toHaveBeenCalledWith(mockUserDocument._id.toString());
+      expect(deletePasswordResetTokensByUserId).toHaveBeenCalledWith(mockUserDocument._id.toString());
+      expect(clearFailedLogins).toHaveBeenCalledWith(mockUserDocument);
+    });
+
+    it('should reject a reset code that is unknown, used or expired', async () => {
+      // Setup
+      (consumePasswordResetToken as jest.Mock).mockResolvedValue(null);
+
+      // Execute & Assert
+      await expect(resetPassword('a1b2c3', 'NewPassword1!')).rejects.toBeInstanceOf(BadRequestError);
+      expect(updateUserPassword).not.toHaveBeenCalled();
+    });
   });
 
   describe('validateToken', () => {
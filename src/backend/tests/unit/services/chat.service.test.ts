@@ -1,33 +1,32 @@
 import mongoose from 'mongoose'; // v7.0.3
 import { ChatService } from '../../../src/services/chat.service';
-import { HealthService } from '../../../src/services/health.service';
-import { 
-  sendRequestToLLM,
-  buildPrompt,
-  processResponse
-} from '../../../src/services/llm.service';
+import { LLMService } from '../../../src/services/llm.service';
 import { 
   getUserConversations,
   getConversationById,
   createConversation,
+  updateConversation,
+  updateGeneratedTitle,
+  updateConversationSummary,
+  deleteConversation,
   getConversationMessages,
+  countConversationMessages,
   createUserMessage,
   createAssistantMessage,
   getConversationHistory
 } from '../../../src/repositories/chat.repository';
 import { NotFoundError, BadRequestError, ServiceUnavailableError } from '../../../src/utils/error.util';
-import { ChatRole } from '../../../src/types/chat.types';
+import { ChatRole, ConversationTitleSource } from '../../../src/types/chat.types';
 import { mockUserId } from '../../mocks/user.mock';
 import { 
   mockConversationId, 
   createMockChatMessage, 
   createMockChatConversation, 
   createMockChatMessageArray, 
-  createMockConversationArray,
-  createMockHealthContext
+  createMockConversationArray
 } from '../../mocks/chat.mock';
 import { DEFAULT_MOCK_RESPONSE, createMockLLMResponse } from '../../mocks/llm.mock';
-import { createMockHealthData } from '../../mocks/health.mock';
+import { llmConfig } from '../../../src/config/llm';
 
 // Mock dependencies
 jest.mock('../../../src/repositories/chat.repository');
@@ -85,24 +84,8 @@ describe('ChatService', () => {
       createMockChatMessageArray()
     );
 
-    // Mock LLM service functions
-    (sendRequestToLLM as jest.Mock).mockResolvedValue({
-      content: DEFAULT_MOCK_RESPONSE
-    });
-
-    (buildPrompt as jest.Mock).mockReturnValue([
-      { role: ChatRole.SYSTEM, content: 'System instruction' },
-      { role: ChatRole.USER, content: 'User message' }
-    ]);
-
-    (processResponse as jest.Mock).mockImplementation(response => response);
-
-    // Mock HealthService.getRecentHealthData method
-    jest.spyOn(HealthService.prototype, 'getRecentHealthData').mockResolvedValue({
-      recentMeals: [createMockHealthData()],
-      recentLabResults: [createMockHealthData()],
-      recentSymptoms: [createMockHealthData()]
-    });
+    // Mock the LLM service, which builds the prompt and applies the safety filters
+    (LLMService.prototype.sendMessage as jest.Mock).mockResolvedValue(createMockLLMResponse());
 
     // Create ChatService instance
     chatService = new ChatService(mockConnection);
@@ -137,6 +120,187 @@ describe('ChatService', () => {
     });
   });
 
+  describe('updateConversation', () => {
+    it('should update the conversation of the user', async () => {
+      const updated = createMockChatConversation({ title: 'Cholesterol results', archived: true });
+      (updateConversation as jest.Mock).mockResolvedValue(updated);
+      
+      const result = await chatService.updateConversation(mockConversationId, mockUserId, {
+        title: 'Cholesterol results',
+        archived: true
+      });
+      
+      expect(updateConversation).toHaveBeenCalledWith(mockConversationId, mockUserId, {
+        title: 'Cholesterol results',
+        archived: true
+      });
+      expect(result).toBe(updated);
+    });
+
+    it('should propagate NotFoundError for a conversation of another user', async () => {
+      (updateConversation as jest.Mock).mockRejectedValue(
+        new NotFoundError('Conversation not found or does not belong to the user', 'ChatConversation')
+      );
+      
+      await expect(chatService.updateConversation(mockConversationId, 'different-user-id', { pinned: true }))
+        .rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe('deleteConversation', () => {
+    it('should delete the conversation with its messages', async () => {
+      (deleteConversation as jest.Mock).mockResolvedValue({ messages: 5 });
+      
+      await chatService.deleteConversation(mockConversationId, mockUserId);
+      
+      expect(deleteConversation).toHaveBeenCalledWith(mockConversationId, mockUserId);
+    });
+
+    it('should propagate NotFoundError for a conversation of another user', async () => {
+      (deleteConversation as jest.Mock).mockRejectedValue(
+        new NotFoundError('Conversation not found or does not belong to the user', 'ChatConversation')
+      );
+      
+      await expect(chatService.deleteConversation(mockConversationId, 'different-user-id'))
+        .rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe('refreshConversationTitle', () => {
+    beforeEach(() => {
+      (countConversationMessages as jest.Mock).mockResolvedValue(2);
+      (getConversationHistory as jest.Mock).mockResolvedValue([
+        createMockChatMessage({ role: ChatRole.ASSISTANT, content: 'Low iron can cause fatigue.' }),
+        createMockChatMessage({ role: ChatRole.USER, content: 'I have been feeling tired a lot' })
+      ]);
+      (LLMService.prototype.summarize as jest.Mock).mockResolvedValue('"Fatigue and low iron."');
+      (updateGeneratedTitle as jest.Mock).mockImplementation((id, userId, title) =>
+        Promise.resolve(createMockChatConversation({ title, titleSource: ConversationTitleSource.GENERATED })));
+    });
+
+    it('should title the conversation after its first response', async () => {
+      await chatService.refreshConversationTitle(mockConversationId, mockUserId);
+      
+      // The prompt lists the messages oldest first
+      const prompt = (LLMService.prototype.summarize as jest.Mock).mock.calls[0][0];
+      expect(prompt[1].content).toBe('User: I have been feeling tired a lot\nAdvisor: Low iron can cause fatigue.');
+      expect(updateGeneratedTitle).toHaveBeenCalledWith(mockConversationId, mockUserId, 'Fatigue and low iron', 2);
+    });
+
+    it('should never replace a title set by the user', async () => {
+      (getConversationById as jest.Mock).mockResolvedValue(
+        createMockChatConversation({ titleSource: ConversationTitleSource.USER })
+      );
+      
+      await chatService.refreshConversationTitle(mockConversationId, mockUserId);
+      
+      expect(LLMService.prototype.summarize).not.toHaveBeenCalled();
+      expect(updateGeneratedTitle).not.toHaveBeenCalled();
+    });
+
+    it('should only re-title once the conversation has moved on from its title', async () => {
+      (getConversationById as jest.Mock).mockResolvedValue(createMockChatConversation({
+        title: 'Fatigue and low iron',
+        titleSource: ConversationTitleSource.GENERATED,
+        titleMessageCount: 2
+      }));
+      
+      // Too few new messages to check the title
+      (countConversationMessages as jest.Mock).mockResolvedValue(6);
+      await chatService.refreshConversationTitle(mockConversationId, mockUserId);
+      
+      // Enough new messages, but the user still talks about their iron
+      (countConversationMessages as jest.Mock).mockResolvedValue(10);
+      (getConversationHistory as jest.Mock).mockResolvedValue([
+        createMockChatMessage({ role: ChatRole.USER, content: 'Which foods raise iron levels?' })
+      ]);
+      await chatService.refreshConversationTitle(mockConversationId, mockUserId);
+      expect(LLMService.prototype.summarize).not.toHaveBeenCalled();
+      
+      (getConversationHistory as jest.Mock).mockResolvedValue([
+        createMockChatMessage({ role: ChatRole.USER, content: 'What is a good bedtime routine?' })
+      ]);
+      await chatService.refreshConversationTitle(mockConversationId, mockUserId);
+      
+      expect(updateGeneratedTitle).toHaveBeenCalledWith(mockConversationId, mockUserId, 'Fatigue and low iron', 10);
+    });
+
+    it('should keep the current title when no title can be generated', async () => {
+      (LLMService.prototype.summarize as jest.Mock).mockRejectedValue(
+        new ServiceUnavailableError('Unable to communicate with LLM service after multiple attempts', 'LLM Provider')
+      );
+      
+      await expect(chatService.refreshConversationTitle(mockConversationId, mockUserId)).resolves.toBeUndefined();
+      
+      expect(updateGeneratedTitle).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('refreshConversationSummary', () => {
+    const summarizedUntil = new Date('2023-05-15T08:00:00.000Z');
+    
+    // Creates the messages not yet summarized, newest first, each taking up about 400 tokens
+    const createLongHistory = (count: number) => Array.from({ length: count }, (_, index) => createMockChatMessage({
+      role: index % 2 === 0 ? ChatRole.ASSISTANT : ChatRole.USER,
+      content: `Message ${count - index} ${'about iron levels '.repeat(78)}`,
+      timestamp: new Date(summarizedUntil.getTime() + (count - index) * 60000)
+    }));
+
+    beforeEach(() => {
+      (getConversationById as jest.Mock).mockResolvedValue(createMockChatConversation({
+        summary: 'The user asked about fatigue.',
+        summarizedUntil
+      }));
+      (LLMService.prototype.summarize as jest.Mock).mockResolvedValue('The user asked about fatigue and iron.');
+      (updateConversationSummary as jest.Mock).mockImplementation((id, userId, summary) =>
+        Promise.resolve(createMockChatConversation({ summary })));
+    });
+
+    it('should keep recent messages out of the summary while they fit the budget', async () => {
+      (getConversationHistory as jest.Mock).mockResolvedValue(createLongHistory(4));
+      
+      await chatService.refreshConversationSummary(mockConversationId, mockUserId);
+      
+      expect(getConversationHistory).toHaveBeenCalledWith(mockConversationId, expect.any(Number), summarizedUntil);
+      expect(LLMService.prototype.summarize).not.toHaveBeenCalled();
+      expect(updateConversationSummary).not.toHaveBeenCalled();
+    });
+
+    it('should fold the oldest messages into the summary once they exceed the budget', async () => {
+      const history = createLongHistory(6);
+      const newestSummarized = history[2];
+      (getConversationHistory as jest.Mock).mockResolvedValue(history);
+      
+      await chatService.refreshConversationSummary(mockConversationId, mockUserId);
+      
+      // The four oldest messages are summarized, leaving half the budget for the two newest
+      const [prompt, , maxTokens] = (LLMService.prototype.summarize as jest.Mock).mock.calls[0];
+      expect(maxTokens).toBe(llmConfig.context.summaryMaxTokens);
+      expect(prompt[1].content).toContain('Current summary:\nThe user asked about fatigue.');
+      expect(prompt[1].content).toContain('User: Message 1 about iron levels');
+      expect(prompt[1].content).toContain('Advisor: Message 4 about iron levels');
+      expect(prompt[1].content).not.toContain('Message 5');
+      expect(updateConversationSummary).toHaveBeenCalledWith(
+        mockConversationId,
+        mockUserId,
+        'The user asked about fatigue and iron.',
+        newestSummarized.timestamp,
+        summarizedUntil
+      );
+    });
+
+    it('should keep the current summary when it cannot be updated', async () => {
+      (getConversationHistory as jest.Mock).mockResolvedValue(createLongHistory(6));
+      (LLMService.prototype.summarize as jest.Mock).mockRejectedValue(
+        new ServiceUnavailableError('Unable to communicate with LLM service after multiple attempts', 'LLM Provider')
+      );
+      
+      await expect(chatService.refreshConversationSummary(mockConversationId, mockUserId)).resolves.toBeUndefined();
+      
+      expect(updateConversationSummary).not.toHaveBeenCalled();
+    });
+  });
+
   describe('getConversationMessages', () => {
     it('should retrieve conversation messages successfully', async () => {
       const result = await chatService.getConversationMessages(mockConversationId, mockUserId);
@@ -179,8 +343,7 @@ describe('ChatService', () => {
       
       expect(createConversation).toHaveBeenCalled();
       expect(createUserMessage).toHaveBeenCalled();
-      expect(getConversationHistory).toHaveBeenCalled();
-      expect(sendRequestToLLM).toHaveBeenCalled();
+      expect(LLMService.prototype.sendMessage).toHaveBeenCalled();
       expect(createAssistantMessage).toHaveBeenCalled();
       expect(result.conversationId).toBeDefined();
       expect(result.response).toBe(DEFAULT_MOCK_RESPONSE);
@@ -205,7 +368,7 @@ describe('ChatService', () => {
     });
 
     it('should handle LLM service errors', async () => {
-      (sendRequestToLLM as jest.Mock).mockRejectedValue(new Error('LLM service error'));
+      (LLMService.prototype.sendMessage as jest.Mock).mockRejectedValue(new Error('LLM service error'));
       
       await expect(chatService.createNewConversation(mockUserId, 'Hello'))
         .rejects.toThrow();
@@ -260,9 +423,9 @@ describe('ChatService', () => {
     });
 
     it('should handle LLM service errors', async () => {
-      (sendRequestToLLM as jest.Mock).mockImplementation(() => {
-        throw new ServiceUnavailableError('LLM service error', 'LLM Provider');
-      });
+      (LLMService.prototype.sendMessage as jest.Mock).mockRejectedValue(
+        new ServiceUnavailableError('LLM service error', 'LLM Provider')
+      );
       
       const request = { message: 'Hello', conversationId: mockConversationId };
       
@@ -273,84 +436,66 @@ describe('ChatService', () => {
 
   // Test the private methods indirectly through their effects on public methods
   describe('sendMessageToLLM', () => {
-    it('should retrieve health context and conversation history', async () => {
+    it('should have the LLM service build the prompt with the conversation and health context', async () => {
       await chatService.sendMessage({ message: 'Hello', conversationId: mockConversationId }, mockUserId);
       
-      expect(HealthService.prototype.getRecentHealthData).toHaveBeenCalled();
-      expect(getConversationHistory).toHaveBeenCalled();
+      expect(LLMService.prototype.sendMessage).toHaveBeenCalledWith('Hello', mockUserId, mockConversationId);
     });
 
-    it('should throw ServiceUnavailableError when LLM service fails', async () => {
-      (sendRequestToLLM as jest.Mock).mockRejectedValue(new Error('LLM service error'));
+    it('should throw when the LLM service fails', async () => {
+      (LLMService.prototype.sendMessage as jest.Mock).mockRejectedValue(new Error('LLM service error'));
       
       const request = { message: 'Hello', conversationId: mockConversationId };
       
       await expect(chatService.sendMessage(request, mockUserId))
-        .rejects.toThrow();
+        .rejects.toThrow('Failed to process message: LLM service error');
     });
 
-    it('should store user message and assistant response', async () => {
+    it('should store the user message before the LLM builds its context', async () => {
       await chatService.sendMessage({ message: 'Hello', conversationId: mockConversationId }, mockUserId);
       
-      expect(createUserMessage).toHaveBeenCalled();
-      expect(createAssistantMessage).toHaveBeenCalled();
+      expect(createUserMessage).toHaveBeenCalledWith(mockConversationId, mockUserId, 'Hello');
+      expect((createUserMessage as jest.Mock).mock.invocationCallOrder[0])
+        .toBeLessThan((LLMService.prototype.sendMessage as jest.Mock).mock.invocationCallOrder[0]);
     });
 
-    it('should include conversation history for context continuity', async () => {
-      const mockHistory = createMockChatMessageArray();
-      (getConversationHistory as jest.Mock).mockResolvedValue(mockHistory);
+    it('should store the tools the advisor called with the assistant response', async () => {
+      const toolCalls = [{
+        id: 'call_1',
+        name: 'get_lab_trend',
+        arguments: { analyte: 'ldl' },
+        result: { analyte: 'LDL Cholesterol', measurements: [] }
+      }];
+      (LLMService.prototype.sendMessage as jest.Mock).mockResolvedValue(
+        createMockLLMResponse(DEFAULT_MOCK_RESPONSE, { model: llmConfig.model, toolCalls })
+      );
       
-      await chatService.sendMessage({ message: 'Hello', conversationId: mockConversationId }, mockUserId);
+      await chatService.sendMessage({ message: 'How is my LDL?', conversationId: mockConversationId }, mockUserId);
       
-      expect(getConversationHistory).toHaveBeenCalledWith(
+      expect(createAssistantMessage).toHaveBeenCalledWith(
         mockConversationId,
-        expect.any(Number)
+        mockUserId,
+        DEFAULT_MOCK_RESPONSE,
+        expect.objectContaining({ model: llmConfig.model, toolCalls })
       );
-      expect(buildPrompt).toHaveBeenCalled();
-    });
-  });
-  
-  describe('buildHealthContext', () => {
-    it('should handle empty health data gracefully', async () => {
-      // Mock empty health data
-      jest.spyOn(HealthService.prototype, 'getRecentHealthData').mockResolvedValue({
-        recentMeals: [],
-        recentLabResults: [],
-        recentSymptoms: []
-      });
-      
-      await chatService.sendMessage({ message: 'Hello', conversationId: mockConversationId }, mockUserId);
-      
-      // Test should pass without errors
-      expect(sendRequestToLLM).toHaveBeenCalled();
     });
 
-    it('should handle health service errors gracefully', async () => {
-      // Mock health service error
-      jest.spyOn(HealthService.prototype, 'getRecentHealthData').mockRejectedValue(
-        new Error('Failed to get health data')
+    it('should not title the conversation after a fallback response', async () => {
+      (LLMService.prototype.sendMessage as jest.Mock).mockResolvedValue(
+        createMockLLMResponse('Please try again later.', { fallback: true })
       );
+      const refreshTitle = jest.spyOn(chatService, 'refreshConversationTitle');
       
       await chatService.sendMessage({ message: 'Hello', conversationId: mockConversationId }, mockUserId);
       
-      // Test should pass without errors and fallback to empty context
-      expect(sendRequestToLLM).toHaveBeenCalled();
-    });
-
-    it('should format different types of health data appropriately', async () => {
-      // Provide rich mock data with different health data types
-      const mockHealthData = {
-        recentMeals: [createMockHealthData({ type: 'meal' })],
-        recentLabResults: [createMockHealthData({ type: 'labResult' })],
-        recentSymptoms: [createMockHealthData({ type: 'symptom' })]
-      };
-      jest.spyOn(HealthService.prototype, 'getRecentHealthData').mockResolvedValue(mockHealthData);
-      
-      await chatService.sendMessage({ message: 'Hello', conversationId: mockConversationId }, mockUserId);
-      
-      // Verify that sendRequestToLLM was called with health context included
-      expect(sendRequestToLLM).toHaveBeenCalled();
-      expect(buildPrompt).toHaveBeenCalled();
+      expect(createAssistantMessage).toHaveBeenCalledWith(
+        mockConversationId,
+        mockUserId,
+        'Please try again later.',
+        expect.objectContaining({ fallback: true })
+      );
+      expect(refreshTitle).not.toHaveBeenCalled();
+      expect(updateGeneratedTitle).not.toHaveBeenCalled();
     });
   });
-});
\ No newline at end of file
+});
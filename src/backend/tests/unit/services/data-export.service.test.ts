@@ -0,0 +1,206 @@
+import { Types } from 'mongoose';
+import { Readable } from 'stream';
+import {
+  buildDataExport,
+  getDataExportArchive,
+  requestDataExport
+} from '../../../src/services/data-export.service';
+import * as dataExportRepository from '../../../src/repositories/data-export.repository';
+import { getAllUserConversationsWithMessages } from '../../../src/repositories/chat.repository';
+import { getUserById } from '../../../src/repositories/user.repository';
+import { HealthRepository } from '../../../src/repositories/health.repository';
+import { FileRepository } from '../../../src/repositories/file.repository';
+import { DataExportDocument, ExportStatus } from '../../../src/types/export.types';
+import { ChatRole } from '../../../src/types/chat.types';
+import { HealthDataType, InputSource, MealType } from '../../../src/types/health.types';
+import { ConflictError, NotFoundError } from '../../../src/utils/error.util';
+
+jest.mock('../../../src/repositories/data-export.repository');
+jest.mock('../../../src/repositories/chat.repository');
+jest.mock('../../../src/repositories/user.repository');
+jest.mock('../../../src/repositories/health.repository');
+jest.mock('../../../src/repositories/file.repository');
+
+const repository = dataExportRepository as jest.Mocked<typeof dataExportRepository>;
+
+// Reads a stream to the end, as GridFS would when storing it
+const readStream = async (stream: Readable): Promise<Buffer> => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks);
+};
+
+describe('Data export service', () => {
+  const userId = new Types.ObjectId().toString();
+
+  const createExport = (overrides: Partial<DataExportDocument> = {}): DataExportDocument => ({
+    _id: new Types.ObjectId(),
+    userId: new Types.ObjectId(userId),
+    status: ExportStatus.PENDING,
+    expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+    createdAt: new Date('2023-05-15T10:00:00.000Z'),
+    updatedAt: new Date(),
+    ...overrides
+  } as DataExportDocument);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    repository.markDataExportProcessing.mockResolvedValue(false);
+    repository.markDataExportFailed.mockResolvedValue();
+  });
+
+  describe('requestDataExport', () => {
+    it('should return the export in progress instead of starting another', async () => {
+      const running = createExport({ status: ExportStatus.PROCESSING });
+      repository.findDataExportsByUserId.mockResolvedValue([running]);
+
+      const result = await requestDataExport(userId);
+
+      expect(result).toEqual(expect.objectContaining({ id: running._id.toString(), status: ExportStatus.PROCESSING }));
+      expect(repository.createDataExport).not.toHaveBeenCalled();
+    });
+
+    it('should replace previous and interrupted exports and start building a new one', async () => {
+      const archiveId = new Types.ObjectId();
+      const previous = createExport({ status: ExportStatus.COMPLETED, fileId: archiveId });
+      const interrupted = createExport({
+        status: ExportStatus.PROCESSING,
+        updatedAt: new Date(Date.now() - 2 * 60 * 60 * 1000)
+      });
+      const created = createExport();
+      repository.findDataExportsByUserId.mockResolvedValue([previous, interrupted]);
+      repository.createDataExport.mockResolvedValue(created);
+      (FileRepository.prototype.deleteFile as jest.Mock).mockResolvedValue(true);
+
+      const result = await requestDataExport(userId);
+
+      expect(FileRepository.prototype.deleteFile).toHaveBeenCalledWith(archiveId.toString());
+      expect(repository.deleteDataExports).toHaveBeenCalledWith([previous._id, interrupted._id]);
+      expect(result).toEqual(expect.objectContaining({ id: created._id.toString(), status: ExportStatus.PENDING }));
+      expect(result.downloadUrl).toBeUndefined();
+      expect(repository.markDataExportProcessing).toHaveBeenCalledWith(created._id.toString());
+    });
+  });
+
+  describe('buildDataExport', () => {
+    const exportId = new Types.ObjectId().toString();
+    const photoId = new Types.ObjectId();
+    const missingId = new Types.ObjectId();
+    const conversationId = new Types.ObjectId();
+    let archive: Buffer;
+
+    beforeEach(() => {
+      repository.markDataExportProcessing.mockResolvedValue(true);
+      (getUserById as jest.Mock).mockResolvedValue({
+        _id: new Types.ObjectId(userId),
+        email: 'user@example.com',
+        createdAt: new Date('2023-01-01T00:00:00.000Z')
+      });
+      (HealthRepository.prototype.findAllHealthDataByUserId as jest.Mock).mockResolvedValue([{
+        _id: new Types.ObjectId(),
+        userId: new Types.ObjectId(userId),
+        type: HealthDataType.MEAL,
+        timestamp: new Date('2023-05-15T08:30:00.000Z'),
+        data: { description: 'Oatmeal', mealType: MealType.BREAKFAST, imageUrl: '' },
+        fileIds: [photoId, missingId],
+        metadata: { source: InputSource.PHOTO, tags: [], location: {} }
+      }]);
+      (getAllUserConversationsWithMessages as jest.Mock).mockResolvedValue([{
+        conversation: {
+          _id: conversationId,
+          title: 'Breakfast ideas',
+          startedAt: new Date('2023-05-15T09:00:00.000Z')
+        },
+        messages: [
+          { role: ChatRole.USER, content: 'Is oatmeal healthy?', timestamp: new Date('2023-05-15T09:00:00.000Z') }
+        ]
+      }]);
+      (FileRepository.prototype.getFileById as jest.Mock).mockImplementation((fileId: string) => (
+        fileId === missingId.toString()
+          ? Promise.reject(new NotFoundError('File not found', 'file'))
+          : Promise.resolve({
+            file: { filename: 'stored.jpg', metadata: { originalname: 'oatmeal.jpg' } },
+            stream: Readable.from([Buffer.from('photo contents')])
+          })
+      ));
+      (FileRepository.prototype.uploadArchive as jest.Mock).mockImplementation(async (stream: Readable) => {
+        archive = await readStream(stream);
+        return { fileId: new Types.ObjectId().toString(), size: archive.length };
+      });
+    });
+
+    it('should store an archive with the profile, health data, files and chats', async () => {
+      await buildDataExport(exportId, userId);
+
+      // ZIP archives store entry names uncompressed
+      expect(archive.subarray(0, 2).toString()).toBe('PK');
+      [
+        'profile.json',
+        'health-data/health-data.json',
+        'health-data/health-data.csv',
+        `files/${photoId.toString()}-oatmeal.jpg`,
+        'chats/conversations.json',
+        `chats/2023-05-15-Breakfast-ideas-${conversationId.toString()}.md`
+      ].forEach((name) => expect(archive.includes(name)).toBe(true));
+      expect(archive.includes(`files/${missingId.toString()}`)).toBe(false);
+
+      expect(repository.markDataExportCompleted).toHaveBeenCalledWith(exportId, expect.any(String), archive.length);
+      expect(repository.markDataExportFailed).not.toHaveBeenCalled();
+    });
+
+    it('should record the failure when the data cannot be read', async () => {
+      (HealthRepository.prototype.findAllHealthDataByUserId as jest.Mock)
+        .mockRejectedValue(new Error('Connection lost'));
+
+      await buildDataExport(exportId, userId);
+
+      expect(FileRepository.prototype.uploadArchive).not.toHaveBeenCalled();
+      expect(repository.markDataExportFailed).toHaveBeenCalledWith(exportId, expect.any(String));
+    });
+
+    it('should do nothing when the export was already picked up', async () => {
+      repository.markDataExportProcessing.mockResolvedValue(false);
+
+      await buildDataExport(exportId, userId);
+
+      expect(getUserById).not.toHaveBeenCalled();
+      expect(repository.markDataExportCompleted).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getDataExportArchive', () => {
+    it('should refuse to download an export that has not completed', async () => {
+      repository.findDataExportById.mockResolvedValue(createExport({ status: ExportStatus.PROCESSING }));
+
+      await expect(getDataExportArchive(userId, 'exportId')).rejects.toBeInstanceOf(ConflictError);
+    });
+
+    it('should refuse to download an expired export', async () => {
+      repository.findDataExportById.mockResolvedValue(createExport({
+        status: ExportStatus.COMPLETED,
+        fileId: new Types.ObjectId(),
+        expiresAt: new Date(Date.now() - 1000)
+      }));
+
+      await expect(getDataExportArchive(userId, 'exportId')).rejects.toBeInstanceOf(NotFoundError);
+    });
+
+    it('should stream the archive of a completed export', async () => {
+      const stream = Readable.from([]);
+      repository.findDataExportById.mockResolvedValue(createExport({
+        status: ExportStatus.COMPLETED,
+        fileId: new Types.ObjectId(),
+        size: 2048
+      }));
+      (FileRepository.prototype.getFileById as jest.Mock).mockResolvedValue({ file: {}, stream });
+
+      expect(await getDataExportArchive(userId, 'exportId')).toEqual({
+        stream,
+        filename: 'health-advisor-export-2023-05-15.zip',
+        size: 2048
+      });
+    });
+  });
+});
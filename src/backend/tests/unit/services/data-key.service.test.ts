@@ -0,0 +1,168 @@
+import crypto from 'crypto';
+import { Types } from 'mongoose';
+import { DataKeyService } from '../../../src/services/data-key.service';
+import { DEVELOPMENT_MASTER_KEY_ID, LocalKeyManagementProvider, parseMasterKeys } from '../../../src/services/kms';
+import { environment } from '../../../src/config/environment';
+import {
+  findLatestDataKey,
+  findDataKey,
+  createDataKey,
+  findDataKeysNotWrappedWith,
+  updateWrappedDataKey,
+  deleteDataKeysByUserId
+} from '../../../src/repositories/data-key.repository';
+import { DataKeyDocument, WrappedDataKey } from '../../../src/types/encryption.types';
+import { InternalServerError } from '../../../src/utils/error.util';
+
+jest.mock('../../../src/repositories/data-key.repository');
+
+describe('Data key service', () => {
+  const userId = new Types.ObjectId().toString();
+  const oldMasterKey = crypto.randomBytes(32);
+  const newMasterKey = crypto.randomBytes(32);
+
+  const createProvider = (currentMasterKeyId = 'old'): LocalKeyManagementProvider => new LocalKeyManagementProvider({
+    masterKeys: new Map([['old', oldMasterKey], ['new', newMasterKey]]),
+    currentMasterKeyId
+  });
+
+  const createStoredKey = (version: number, wrapped: WrappedDataKey): DataKeyDocument => ({
+    _id: new Types.ObjectId(),
+    userId: new Types.ObjectId(userId),
+    version,
+    ...wrapped
+  } as DataKeyDocument);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (createDataKey as jest.Mock).mockImplementation((id: string, version: number, wrapped: WrappedDataKey) => (
+      Promise.resolve(createStoredKey(version, wrapped))
+    ));
+  });
+
+  describe('getActiveDataKey', () => {
+    it('should create the first data key of a user, stored only wrapped', async () => {
+      (findLatestDataKey as jest.Mock).mockResolvedValue(null);
+
+      const { version, key } = await new DataKeyService(createProvider()).getActiveDataKey(userId);
+
+      expect(version).toBe(1);
+      expect(key).toHaveLength(32);
+      const wrapped = (createDataKey as jest.Mock).mock.calls[0][2] as WrappedDataKey;
+      expect(wrapped.masterKeyId).toBe('old');
+      expect(wrapped.wrappedKey).not.toContain(key.toString('base64'));
+      await expect(createProvider().unwrapKey(wrapped)).resolves.toEqual(key);
+    });
+
+    it('should return the latest version, unwrapping it once', async () => {
+      const provider = createProvider();
+      const key = crypto.randomBytes(32);
+      (findLatestDataKey as jest.Mock).mockResolvedValue(createStoredKey(2, await provider.wrapKey(key)));
+      const unwrapKey = jest.spyOn(provider, 'unwrapKey');
+      const service = new DataKeyService(provider);
+
+      await expect(service.getActiveDataKey(userId)).resolves.toEqual({ version: 2, key });
+      await expect(service.getActiveDataKey(userId)).resolves.toEqual({ version: 2, key });
+      expect(unwrapKey).toHaveBeenCalledTimes(1);
+      expect(createDataKey).not.toHaveBeenCalled();
+    });
+
+    it('should use the key of a concurrent request that created it first', async () => {
+      const provider = createProvider();
+      const key = crypto.randomBytes(32);
+      (findLatestDataKey as jest.Mock).mockResolvedValue(null);
+      (createDataKey as jest.Mock).mockResolvedValueOnce(null);
+      (findDataKey as jest.Mock).mockResolvedValue(createStoredKey(1, await provider.wrapKey(key)));
+
+      await expect(new DataKeyService(provider).getActiveDataKey(userId)).resolves.toEqual({ version: 1, key });
+    });
+  });
+
+  describe('getDataKey', () => {
+    it('should refuse a version the user does not have', async () => {
+      (findDataKey as jest.Mock).mockResolvedValue(null);
+
+      const service = new DataKeyService(createProvider());
+
+      await expect(service.getDataKey(userId, 3)).rejects.toBeInstanceOf(InternalServerError);
+    });
+  });
+
+  describe('rotateDataKey', () => {
+    it('should add the next version', async () => {
+      const provider = createProvider();
+      const wrapped = await provider.wrapKey(crypto.randomBytes(32));
+      (findLatestDataKey as jest.Mock).mockResolvedValue(createStoredKey(2, wrapped));
+
+      await expect(new DataKeyService(provider).rotateDataKey(userId)).resolves.toBe(3);
+      expect(createDataKey).toHaveBeenCalledWith(userId, 3, expect.objectContaining({ masterKeyId: 'old' }));
+    });
+  });
+
+  describe('rewrapDataKeys', () => {
+    it('should rewrap keys with the current master key without changing them', async () => {
+      const key = crypto.randomBytes(32);
+      const storedKey = createStoredKey(1, await createProvider('old').wrapKey(key));
+      (findDataKeysNotWrappedWith as jest.Mock).mockResolvedValueOnce([storedKey]).mockResolvedValueOnce([]);
+
+      await expect(new DataKeyService(createProvider('new')).rewrapDataKeys()).resolves.toBe(1);
+
+      expect(findDataKeysNotWrappedWith).toHaveBeenCalledWith('new', expect.any(Number));
+      const rewrapped = (updateWrappedDataKey as jest.Mock).mock.calls[0][1] as WrappedDataKey;
+      expect(updateWrappedDataKey).toHaveBeenCalledWith(storedKey._id, rewrapped);
+      expect(rewrapped.masterKeyId).toBe('new');
+      await expect(createProvider('new').unwrapKey(rewrapped)).resolves.toEqual(key);
+    });
+  });
+
+  describe('deleteDataKeys', () => {
+    it('should delete the stored keys and forget cached ones', async () => {
+      const provider = createProvider();
+      const key = crypto.randomBytes(32);
+      (findLatestDataKey as jest.Mock).mockResolvedValue(createStoredKey(1, await provider.wrapKey(key)));
+      (findDataKey as jest.Mock).mockResolvedValue(null);
+      (deleteDataKeysByUserId as jest.Mock).mockResolvedValue(1);
+      const service = new DataKeyService(provider);
+      await service.getActiveDataKey(userId);
+
+      await expect(service.deleteDataKeys(userId)).resolves.toBe(1);
+
+      await expect(service.getDataKey(userId, 1)).rejects.toThrow('Data key version 1 not found');
+    });
+  });
+
+  describe('parseMasterKeys', () => {
+    const { NODE_ENV, HEALTH_DATA_MASTER_KEYS, HEALTH_DATA_MASTER_KEY_ID } = environment;
+
+    afterEach(() => {
+      environment.NODE_ENV = NODE_ENV;
+      environment.HEALTH_DATA_MASTER_KEYS = HEALTH_DATA_MASTER_KEYS;
+      environment.HEALTH_DATA_MASTER_KEY_ID = HEALTH_DATA_MASTER_KEY_ID;
+    });
+
+    it('should read the configured keys', () => {
+      environment.HEALTH_DATA_MASTER_KEYS = [
+        `old:${oldMasterKey.toString('base64')}`,
+        `new:${newMasterKey.toString('base64')}`
+      ].join(',');
+      environment.HEALTH_DATA_MASTER_KEY_ID = 'new';
+
+      const { masterKeys, currentMasterKeyId } = parseMasterKeys();
+
+      expect(masterKeys.get('old')).toEqual(oldMasterKey);
+      expect(masterKeys.get('new')).toEqual(newMasterKey);
+      expect(currentMasterKeyId).toBe('new');
+    });
+
+    it('should fall back to the development key outside production only', () => {
+      environment.HEALTH_DATA_MASTER_KEYS = '';
+      environment.NODE_ENV = 'development';
+
+      expect(parseMasterKeys().currentMasterKeyId).toBe(DEVELOPMENT_MASTER_KEY_ID);
+
+      environment.NODE_ENV = 'production';
+
+      expect(() => parseMasterKeys()).toThrow('HEALTH_DATA_MASTER_KEYS must be set in production');
+    });
+  });
+});
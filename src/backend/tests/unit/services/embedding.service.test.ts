@@ -0,0 +1,127 @@
+import axios from 'axios';
+import {
+  createEmbeddingProvider,
+  HashingEmbeddingProvider,
+  OllamaEmbeddingProvider,
+  OpenAIEmbeddingProvider
+} from '../../../src/services/embeddings';
+import { EmbeddingService } from '../../../src/services/embedding.service';
+import { EmbeddingProvider, EmbeddingProviderType } from '../../../src/types/health.types';
+import { cosineSimilarity } from '../../../src/utils/embedding.util';
+import { ServiceUnavailableError } from '../../../src/utils/error.util';
+
+jest.mock('axios');
+
+describe('Embeddings', () => {
+  const postMock = axios.post as jest.Mock;
+
+  const settings = {
+    url: 'http://localhost:8080/v1/embeddings',
+    apiKey: '',
+    model: 'nomic-embed-text',
+    timeout: 5000
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('createEmbeddingProvider', () => {
+    it('should create the provider for each type', () => {
+      expect(createEmbeddingProvider(EmbeddingProviderType.HASHING)).toBeInstanceOf(HashingEmbeddingProvider);
+      expect(createEmbeddingProvider(EmbeddingProviderType.OPENAI)).toBeInstanceOf(OpenAIEmbeddingProvider);
+      expect(createEmbeddingProvider(EmbeddingProviderType.LLAMA_CPP)).toBeInstanceOf(OpenAIEmbeddingProvider);
+      expect(createEmbeddingProvider(EmbeddingProviderType.OLLAMA)).toBeInstanceOf(OllamaEmbeddingProvider);
+    });
+
+    it('should throw for unsupported providers', () => {
+      expect(() => createEmbeddingProvider('cloud' as EmbeddingProviderType))
+        .toThrow('Unsupported embedding provider: cloud');
+    });
+  });
+
+  describe('HashingEmbeddingProvider', () => {
+    it('should find texts that share words in any form', async () => {
+      const [question, labResult, meal] = await new HashingEmbeddingProvider().embed([
+        'How has my cholesterol changed?',
+        'Lab result Lipid panel on 2023-05-15: Cholesterol 180 mg/dL, HDL 60 mg/dL.',
+        'Meal (breakfast) on 2024-01-02: Oatmeal with berries and honey.'
+      ]);
+
+      expect(question).toHaveLength(512);
+      expect(cosineSimilarity(question, labResult)).toBeGreaterThan(0.1);
+      expect(cosineSimilarity(question, meal)).toBe(0);
+    });
+
+    it('should return a zero vector for texts without words', async () => {
+      const [vector] = await new HashingEmbeddingProvider().embed(['?!']);
+
+      expect(vector.every((value) => value === 0)).toBe(true);
+    });
+  });
+
+  describe('OpenAIEmbeddingProvider', () => {
+    it('should order embeddings by the index of their input', async () => {
+      postMock.mockResolvedValue({
+        data: { data: [{ index: 1, embedding: [0, 1] }, { index: 0, embedding: [1, 0] }] }
+      });
+
+      const provider = new OpenAIEmbeddingProvider(EmbeddingProviderType.LLAMA_CPP, settings);
+      const vectors = await provider.embed(['first', 'second']);
+
+      expect(vectors).toEqual([[1, 0], [0, 1]]);
+      expect(postMock).toHaveBeenCalledWith(
+        settings.url,
+        { model: 'nomic-embed-text', input: ['first', 'second'] },
+        expect.objectContaining({ timeout: 5000 })
+      );
+      expect(provider.type).toBe(EmbeddingProviderType.LLAMA_CPP);
+    });
+
+    it('should require an endpoint', async () => {
+      const provider = new OpenAIEmbeddingProvider(EmbeddingProviderType.OPENAI, { ...settings, url: '' });
+
+      await expect(provider.embed(['text'])).rejects.toThrow('EMBEDDING_PROVIDER_URL');
+    });
+  });
+
+  describe('OllamaEmbeddingProvider', () => {
+    it('should send the texts to /api/embed', async () => {
+      postMock.mockResolvedValue({ data: { embeddings: [[1, 0]] } });
+
+      const provider = new OllamaEmbeddingProvider({ ...settings, url: 'http://localhost:11434/api/embed' });
+
+      await expect(provider.embed(['text'])).resolves.toEqual([[1, 0]]);
+      await expect(provider.embed(['text', 'another'])).rejects.toThrow('Expected 2 embeddings, received 1');
+    });
+  });
+
+  describe('EmbeddingService', () => {
+    it('should embed texts in batches with the given provider', async () => {
+      const embed = jest.fn((texts: string[]) => Promise.resolve(texts.map(() => [1, 0])));
+      const provider: EmbeddingProvider = { type: EmbeddingProviderType.OLLAMA, model: 'nomic-embed-text', embed };
+      const service = new EmbeddingService(provider);
+
+      const vectors = await service.embed(Array.from({ length: 40 }, (_, index) => `text ${index}`));
+
+      expect(vectors).toHaveLength(40);
+      expect(embed).toHaveBeenCalledTimes(2);
+      expect(service.providerType).toBe(EmbeddingProviderType.OLLAMA);
+      expect(service.model).toBe('nomic-embed-text');
+    });
+
+    it('should throw ServiceUnavailableError when the provider fails', async () => {
+      const service = new EmbeddingService({
+        type: EmbeddingProviderType.OLLAMA,
+        model: 'nomic-embed-text',
+        embed: jest.fn().mockRejectedValue(new Error('connect ECONNREFUSED'))
+      });
+
+      await expect(service.embed(['text'])).rejects.toThrow(ServiceUnavailableError);
+    });
+
+    it('should use the configured provider by default', () => {
+      expect(new EmbeddingService().providerType).toBe(EmbeddingProviderType.HASHING);
+    });
+  });
+});
@@ -138,7 +138,8 @@ describe('FileService', () => {
       deleteFile: jest.fn(),
       deleteFilesByHealthDataId: jest.fn(),
       createThumbnail: jest.fn(),
-      getFileMetadata: jest.fn()
+      getFileMetadata: jest.fn(),
+      getThumbnailMetadata: jest.fn()
     } as unknown as jest.Mocked<FileRepository>;
     
     // Setup the mock for the FileRepository constructor
@@ -289,6 +290,59 @@ describe('FileService', () => {
       await expect(fileService.getFileById(mockFileId))
         .rejects.toThrow(NotFoundError);
     });
+
+    it('should pass a byte range through to the repository', async () => {
+      // Arrange
+      const mockFile = createMockFileDocument();
+      const mockStream = new Readable();
+      mockFileRepository.getFileById.mockResolvedValue({ file: mockFile, stream: mockStream });
+
+      // Act
+      await fileService.getFileById(mockFileId, { asStream: true, thumbnail: false, width: 200, height: 200, start: 100, end: 199 });
+
+      // Assert
+      expect(mockFileRepository.getFileById).toHaveBeenCalledWith(mockFileId, { asStream: true, thumbnail: false, width: 200, height: 200, start: 100, end: 199 });
+    });
+  });
+
+  describe('getFileForUser', () => {
+    it('should return the file when it belongs to the user', async () => {
+      // Arrange
+      const mockFile = createMockFileDocument();
+      mockFileRepository.getFileMetadata.mockResolvedValue(mockFile);
+
+      // Act
+      const result = await fileService.getFileForUser(mockFileId, mockUserId);
+
+      // Assert
+      expect(mockFileRepository.getFileMetadata).toHaveBeenCalledWith(mockFileId);
+      expect(result).toEqual(mockFile);
+    });
+
+    it('should return the thumbnail when requested and available', async () => {
+      // Arrange
+      const mockFile = createMockFileDocument();
+      const mockThumbnail = createMockFileDocument({ filename: 'test-image-thumbnail.jpg', length: 256 });
+      mockFileRepository.getFileMetadata.mockResolvedValue(mockFile);
+      mockFileRepository.getThumbnailMetadata.mockResolvedValue(mockThumbnail);
+
+      // Act
+      const result = await fileService.getFileForUser(mockFileId, mockUserId, true);
+
+      // Assert
+      expect(mockFileRepository.getThumbnailMetadata).toHaveBeenCalledWith(mockFileId);
+      expect(result).toEqual(mockThumbnail);
+    });
+
+    it('should throw NotFoundError if the file belongs to another user', async () => {
+      // Arrange
+      const mockFile = createMockFileDocument();
+      mockFileRepository.getFileMetadata.mockResolvedValue(mockFile);
+
+      // Act & Assert
+      await expect(fileService.getFileForUser(mockFileId, '507f1f77bcf86cd799439099'))
+        .rejects.toThrow(NotFoundError);
+    });
   });
 
   describe('getFilesByHealthDataId', () => {
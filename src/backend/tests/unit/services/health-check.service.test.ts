@@ -0,0 +1,114 @@
+import { db } from '../../../src/config';
+import { FileRepository } from '../../../src/repositories/file.repository';
+import { LLMService } from '../../../src/services/llm.service';
+import {
+  checkDatabase,
+  checkLiveness,
+  checkReadiness,
+  checkStorage
+} from '../../../src/services/health-check.service';
+import { DependencyStatus, LLMHealth, ServiceStatus } from '../../../src/types/health-check.types';
+
+jest.mock('../../../src/repositories/file.repository');
+jest.mock('../../../src/services/llm.service');
+
+describe('Health check service', () => {
+  const availableLLM: LLMHealth = {
+    status: DependencyStatus.AVAILABLE,
+    provider: 'openai',
+    responseTime: 120,
+    checkedAt: '2023-05-15T10:00:00.000Z'
+  };
+
+  const connectedStatus = { connected: true, readyState: 1, readyStateText: 'connected' };
+
+  beforeEach(() => {
+    jest.restoreAllMocks();
+    jest.spyOn(db, 'getStatus').mockReturnValue(connectedStatus);
+    jest.spyOn(db, 'ping').mockResolvedValue(4);
+    (FileRepository.prototype.verifyStorage as jest.Mock).mockResolvedValue(25);
+    (LLMService.checkProviderHealth as jest.Mock).mockResolvedValue(availableLLM);
+  });
+
+  describe('checkLiveness', () => {
+    it('should report the process as up without checking dependencies', () => {
+      const report = checkLiveness();
+
+      expect(report.status).toBe(ServiceStatus.OK);
+      expect(report.uptime).toBeGreaterThan(0);
+      expect(db.ping).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('checkDatabase', () => {
+    it('should report the ping round-trip time', async () => {
+      expect(await checkDatabase()).toEqual({
+        status: DependencyStatus.CONNECTED,
+        readyState: 'connected',
+        responseTime: 4
+      });
+    });
+
+    it('should report the database as disconnected when the ping fails', async () => {
+      jest.spyOn(db, 'ping').mockRejectedValue(new Error('MongoDB connection is not open'));
+
+      expect(await checkDatabase()).toEqual(expect.objectContaining({
+        status: DependencyStatus.DISCONNECTED,
+        details: 'MongoDB connection is not open'
+      }));
+    });
+  });
+
+  describe('checkStorage', () => {
+    it('should not touch GridFS without a database connection', async () => {
+      jest.spyOn(db, 'getStatus').mockReturnValue({ connected: false, readyState: 0, readyStateText: 'disconnected' });
+
+      expect((await checkStorage()).status).toBe(DependencyStatus.UNAVAILABLE);
+      expect(FileRepository.prototype.verifyStorage).not.toHaveBeenCalled();
+    });
+
+    it('should time out a round-trip that does not complete', async () => {
+      jest.useFakeTimers();
+      (FileRepository.prototype.verifyStorage as jest.Mock).mockReturnValue(new Promise(() => undefined));
+
+      const result = checkStorage();
+      await jest.advanceTimersByTimeAsync(3000);
+
+      expect(await result).toEqual({
+        status: DependencyStatus.UNAVAILABLE,
+        details: 'Storage check timed out after 3000ms'
+      });
+      jest.useRealTimers();
+    });
+  });
+
+  describe('checkReadiness', () => {
+    it('should report ok when every dependency is healthy', async () => {
+      const report = await checkReadiness();
+
+      expect(report.status).toBe(ServiceStatus.OK);
+      expect(report.database.status).toBe(DependencyStatus.CONNECTED);
+      expect(report.storage).toEqual({ status: DependencyStatus.AVAILABLE, responseTime: 25 });
+      expect(report.llm).toEqual(availableLLM);
+    });
+
+    it('should report degraded when only the LLM is unhealthy', async () => {
+      (LLMService.checkProviderHealth as jest.Mock).mockResolvedValue({
+        ...availableLLM,
+        status: DependencyStatus.DEGRADED,
+        lastFallbackAt: '2023-05-15T09:58:00.000Z'
+      });
+
+      expect((await checkReadiness()).status).toBe(ServiceStatus.DEGRADED);
+    });
+
+    it('should report unavailable when file storage fails', async () => {
+      (FileRepository.prototype.verifyStorage as jest.Mock).mockRejectedValue(new Error('GridFS storage check failed'));
+
+      const report = await checkReadiness();
+
+      expect(report.status).toBe(ServiceStatus.UNAVAILABLE);
+      expect(report.storage.details).toBe('GridFS storage check failed');
+    });
+  });
+});
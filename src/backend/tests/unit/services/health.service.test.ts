@@ -2,13 +2,23 @@ import mongoose from 'mongoose'; // mongoose version ^7.0.3
 import { HealthService } from '../../../src/services/health.service';
 import { HealthRepository } from '../../../src/repositories/health.repository';
 import { FileService } from '../../../src/services/file.service';
+import { OcrService } from '../../../src/services/ocr.service';
+import { TranscriptionService } from '../../../src/services/transcription.service';
+import { EmbeddingService } from '../../../src/services/embedding.service';
 import { 
   HealthDataType, 
+  MealType,
+  SymptomSeverity,
   CreateHealthDataRequest, 
   GetHealthDataRequest, 
-  HealthDataResponse
+  HealthDataResponse,
+  TranscriptionStatus,
+  TranscriptionEngineType,
+  EmbeddingProviderType
 } from '../../../src/types/health.types';
 import { NotFoundError, BadRequestError } from '../../../src/utils/error.util';
+import { recordAuditEvents } from '../../../src/services/audit.service';
+import { AuditAction, AuditContext, AuditResourceType } from '../../../src/types/audit.types';
 import { 
   mockMealHealthData, 
   mockLabResultHealthData, 
@@ -17,20 +27,28 @@ import {
   mockHealthDataResponse,
   createMockHealthData,
   createMockHealthDataRequest,
+  createMockSymptomData,
   mockUserId,
   mockFileId,
-  mockHealthDataId
+  mockHealthDataId,
+  mockHealthDataObjectId
 } from '../../mocks/health.mock';
 
 // Mock the dependencies
 jest.mock('../../../src/repositories/health.repository');
 jest.mock('../../../src/services/file.service');
+jest.mock('../../../src/services/ocr.service');
+jest.mock('../../../src/services/transcription.service');
+jest.mock('../../../src/services/audit.service');
 
 describe('HealthService', () => {
   let healthService: HealthService;
   let mockMongooseConnection: mongoose.Connection;
   let healthRepositoryMock: jest.Mocked<HealthRepository>;
   let fileServiceMock: jest.Mocked<FileService>;
+  let ocrServiceMock: jest.Mocked<OcrService>;
+  let transcriptionServiceMock: jest.Mocked<TranscriptionService>;
+  let embeddingServiceMock: jest.Mocked<EmbeddingService>;
 
   beforeEach(() => {
     // Reset mocks
@@ -47,21 +65,49 @@ describe('HealthService', () => {
       updateHealthData: jest.fn(),
       deleteHealthData: jest.fn(),
       enrichHealthDataWithFiles: jest.fn(),
-      getRecentHealthData: jest.fn()
+      getRecentHealthData: jest.fn(),
+      aggregateMealsPerDay: jest.fn(),
+      aggregateSymptomsPerWeek: jest.fn(),
+      aggregateLabTestHistory: jest.fn(),
+      findAnalyteHistory: jest.fn(),
+      findHealthDataByIds: jest.fn(),
+      findHealthDataToEmbed: jest.fn(),
+      findHealthDataEmbeddings: jest.fn(),
+      saveHealthDataEmbedding: jest.fn()
     } as unknown as jest.Mocked<HealthRepository>;
 
     fileServiceMock = {
       processHealthDataFile: jest.fn(),
       deleteFilesByHealthDataId: jest.fn(),
-      getFileUrl: jest.fn()
+      getFileUrl: jest.fn(),
+      getFileById: jest.fn()
     } as unknown as jest.Mocked<FileService>;
 
+    ocrServiceMock = {
+      engine: 'tesseract',
+      recognize: jest.fn()
+    } as unknown as jest.Mocked<OcrService>;
+
+    transcriptionServiceMock = {
+      engineType: TranscriptionEngineType.WHISPER_CPP,
+      transcribe: jest.fn()
+    } as unknown as jest.Mocked<TranscriptionService>;
+
+    embeddingServiceMock = {
+      providerType: EmbeddingProviderType.OLLAMA,
+      model: 'nomic-embed-text',
+      embed: jest.fn()
+    } as unknown as jest.Mocked<EmbeddingService>;
+
     // Create HealthService instance with mocked dependencies
     healthService = new HealthService(mockMongooseConnection);
     
     // Override repository and service instances with mocks
     (healthService as any).healthRepository = healthRepositoryMock;
     (healthService as any).fileService = fileServiceMock;
+    (healthService as any).ocrService = ocrServiceMock;
+    (healthService as any).transcriptionService = transcriptionServiceMock;
+    (healthService as any).embeddingService = embeddingServiceMock;
   });
 
   afterEach(() => {
@@ -149,6 +195,83 @@ describe('HealthService', () => {
       expect(fileServiceMock.processHealthDataFile).toHaveBeenCalled();
     });
 
+    it('should transcribe symptom recordings in the background', async () => {
+      // Setup
+      const request = createMockHealthDataRequest({
+        type: HealthDataType.SYMPTOM,
+        data: createMockSymptomData({ transcription: '' })
+      });
+      const files = [{ buffer: Buffer.from('audio'), mimetype: 'audio/mp4', originalname: 'symptom.m4a' }] as Express.Multer.File[];
+      const transcribeSpy = jest.spyOn(healthService, 'transcribeSymptomAudio').mockResolvedValue();
+      
+      // Mock repository and file service responses
+      healthRepositoryMock.createHealthData.mockResolvedValue(mockSymptomHealthData);
+      healthRepositoryMock.findHealthDataById.mockResolvedValue(mockSymptomHealthData);
+      fileServiceMock.processHealthDataFile.mockResolvedValue({
+        fileId: mockFileId,
+        filename: 'symptom.m4a',
+        url: `/api/files/${mockFileId}`,
+        contentType: 'audio/mp4',
+        size: 100,
+        metadata: {} as any
+      });
+      
+      // Call the method
+      await healthService.createHealthData(request, mockUserId, files);
+      
+      // Assertions
+      expect(healthRepositoryMock.updateHealthData).toHaveBeenCalledWith(
+        mockHealthDataObjectId.toString(),
+        mockUserId,
+        expect.objectContaining({
+          data: expect.objectContaining({ transcriptionStatus: TranscriptionStatus.PENDING })
+        })
+      );
+      expect(transcribeSpy).toHaveBeenCalledWith(mockHealthDataObjectId.toString(), mockUserId, mockFileId);
+    });
+
+    it('should normalize lab analytes to canonical units', async () => {
+      // Setup
+      const request = createMockHealthDataRequest({
+        type: HealthDataType.LAB_RESULT,
+        data: {
+          testType: 'Metabolic Panel',
+          testDate: new Date('2023-05-10'),
+          results: {},
+          analytes: [
+            { name: 'Glucose', value: 5.5, unit: 'mmol/L', referenceLow: 3.9, referenceHigh: 5.5 },
+            { name: 'Ferritin', value: 20, unit: 'ng/mL', referenceLow: 30 }
+          ]
+        } as any
+      });
+      healthRepositoryMock.createHealthData.mockResolvedValue(mockLabResultHealthData);
+      
+      // Call the method
+      await healthService.createHealthData(request, mockUserId);
+      
+      // Assertions
+      const stored = healthRepositoryMock.createHealthData.mock.calls[0][0].data as any;
+      expect(stored.analytes[0]).toEqual({
+        name: 'Glucose',
+        key: 'glucose',
+        value: 99.09,
+        unit: 'mg/dL',
+        referenceLow: 70.26,
+        referenceHigh: 99.09,
+        outOfRange: false,
+        originalValue: 5.5,
+        originalUnit: 'mmol/L'
+      });
+      expect(stored.analytes[1]).toEqual({
+        name: 'Ferritin',
+        key: 'ferritin',
+        value: 20,
+        unit: 'ng/mL',
+        referenceLow: 30,
+        outOfRange: true
+      });
+    });
+
     it('should throw BadRequestError for invalid health data request', async () => {
       // Setup
       const invalidRequest = { type: HealthDataType.MEAL } as CreateHealthDataRequest;
@@ -181,6 +304,22 @@ describe('HealthService', () => {
         type: mockMealHealthData.type,
         data: mockMealHealthData.data
       }));
+      expect(recordAuditEvents).not.toHaveBeenCalled();
+    });
+
+    it('should record the read in the audit log', async () => {
+      const audit: AuditContext = { actorId: mockUserId, ip: '203.0.113.7', userAgent: 'jest' };
+      healthRepositoryMock.findHealthDataById.mockResolvedValue(mockMealHealthData);
+      healthRepositoryMock.enrichHealthDataWithFiles.mockResolvedValue(mockMealHealthData);
+      
+      await healthService.getHealthDataById(mockHealthDataId, mockUserId, audit);
+      
+      expect(recordAuditEvents).toHaveBeenCalledWith(audit, [{
+        action: AuditAction.READ,
+        resourceType: AuditResourceType.HEALTH_DATA,
+        resourceId: mockHealthDataId,
+        ownerId: mockUserId
+      }]);
     });
 
     it('should return null if health data not found', async () => {
@@ -305,7 +444,7 @@ describe('HealthService', () => {
     it('should retrieve health data filtered by type', async () => {
       // Setup
       const userId = mockUserId;
-      const options: GetHealthDataRequest = { type: HealthDataType.MEAL };
+      const options: GetHealthDataRequest = { types: [HealthDataType.MEAL] };
       const items = [mockMealHealthData];
       const total = items.length;
       
@@ -320,13 +459,41 @@ describe('HealthService', () => {
       expect(healthRepositoryMock.findHealthDataByUserId).toHaveBeenCalledWith(
         userId,
         expect.objectContaining({
-          type: HealthDataType.MEAL
+          types: [HealthDataType.MEAL]
         })
       );
       expect(result.items.length).toBe(items.length);
       expect(result.items[0].type).toBe(HealthDataType.MEAL);
     });
 
+    it('should pass combined filters to the repository in a single query', async () => {
+      // Setup
+      const userId = mockUserId;
+      const options: GetHealthDataRequest = {
+        startDate: new Date('2023-05-01T00:00:00Z'),
+        endDate: new Date('2023-05-31T23:59:59Z'),
+        types: [HealthDataType.SYMPTOM],
+        tags: ['migraine'],
+        severity: [SymptomSeverity.MODERATE, SymptomSeverity.SEVERE],
+        search: 'headache'
+      };
+
+      // Mock repository responses
+      healthRepositoryMock.findHealthDataByUserId.mockResolvedValue({ items: [], total: 0 });
+      healthRepositoryMock.enrichHealthDataWithFiles.mockResolvedValue([]);
+
+      // Call the method
+      await healthService.getHealthData(options, userId);
+
+      // Assertions
+      expect(healthRepositoryMock.findHealthDataByUserId).toHaveBeenCalledTimes(1);
+      expect(healthRepositoryMock.findHealthDataByUserId).toHaveBeenCalledWith(userId, {
+        ...options,
+        page: 1,
+        limit: 20
+      });
+    });
+
     it('should retrieve health data filtered by search term', async () => {
       // Setup
       const userId = mockUserId;
@@ -351,6 +518,47 @@ describe('HealthService', () => {
       expect(result.items.length).toBe(items.length);
     });
 
+    it('should explain why each search result matched', async () => {
+      // Setup
+      const userId = mockUserId;
+      const options: GetHealthDataRequest = { search: 'berry' };
+      const items = [{ ...mockMealHealthData, searchScore: 7.5 }, mockLabResultHealthData];
+      
+      // Mock repository responses
+      healthRepositoryMock.findHealthDataByUserId.mockResolvedValue({ items, total: items.length });
+      healthRepositoryMock.enrichHealthDataWithFiles.mockResolvedValue(items);
+      
+      // Call the method
+      const result = await healthService.getHealthData(options, userId);
+      
+      // Assertions
+      expect(result.items[0].search).toEqual({
+        score: 7.5,
+        snippets: [{
+          field: 'description',
+          text: 'Oatmeal with berries and honey',
+          highlights: [{ start: 13, end: 20 }]
+        }]
+      });
+      expect(result.items[1].search).toEqual({ score: 0, snippets: [] });
+    });
+
+    it('should not add search details without a search term', async () => {
+      // Setup
+      const userId = mockUserId;
+      const items = [mockMealHealthData];
+      
+      // Mock repository responses
+      healthRepositoryMock.findHealthDataByUserId.mockResolvedValue({ items, total: items.length });
+      healthRepositoryMock.enrichHealthDataWithFiles.mockResolvedValue(items);
+      
+      // Call the method
+      const result = await healthService.getHealthData({ search: '  ' }, userId);
+      
+      // Assertions
+      expect(result.items[0].search).toBeUndefined();
+    });
+
     it('should handle empty result sets', async () => {
       // Setup
       const userId = mockUserId;
@@ -369,6 +577,169 @@ describe('HealthService', () => {
     });
   });
 
+  describe('extractLabResult', () => {
+    const labResult = {
+      ...mockLabResultHealthData,
+      fileIds: [new mongoose.Types.ObjectId(mockFileId)]
+    };
+
+    it('should read analytes from the photo and store them as a draft', async () => {
+      // Mock repository, file and OCR responses
+      healthRepositoryMock.findHealthDataById.mockResolvedValue(labResult);
+      healthRepositoryMock.updateHealthData.mockResolvedValue(labResult);
+      fileServiceMock.getFileById.mockResolvedValue({
+        file: { contentType: 'image/jpeg' },
+        buffer: Buffer.from('image')
+      } as any);
+      ocrServiceMock.recognize.mockResolvedValue({
+        text: 'LIPID PANEL\nLDL Cholesterol 130 mg/dL <100\nHDL 45 mg/dL >40\n',
+        confidence: 84.4,
+        lines: [
+          { text: 'LIPID PANEL', confidence: 96 },
+          { text: 'LDL Cholesterol 130 mg/dL <100', confidence: 91.3 },
+          { text: 'HDL 45 mg/dL >40', confidence: 58.7 }
+        ]
+      });
+
+      // Call the method
+      const result = await healthService.extractLabResult(mockHealthDataId, mockUserId);
+
+      // Assertions
+      expect(fileServiceMock.getFileById).toHaveBeenCalledWith(mockFileId);
+      expect(result).toEqual({
+        healthDataId: mockHealthDataId,
+        fileId: mockFileId,
+        confidence: 0.84,
+        text: expect.stringContaining('LDL Cholesterol'),
+        analytes: [
+          {
+            name: 'LDL Cholesterol',
+            value: 130,
+            unit: 'mg/dL',
+            referenceHigh: 100,
+            confidence: 0.91,
+            line: 'LDL Cholesterol 130 mg/dL <100'
+          },
+          {
+            name: 'HDL',
+            value: 45,
+            unit: 'mg/dL',
+            referenceLow: 40,
+            confidence: 0.59,
+            line: 'HDL 45 mg/dL >40'
+          }
+        ]
+      });
+      expect(healthRepositoryMock.updateHealthData).toHaveBeenCalledWith(mockHealthDataId, mockUserId, {
+        data: expect.objectContaining({
+          testType: (mockLabResultHealthData.data as any).testType,
+          results: {
+            'LDL Cholesterol': { value: 130, unit: 'mg/dL', referenceHigh: 100, confidence: 0.91 },
+            HDL: { value: 45, unit: 'mg/dL', referenceLow: 40, confidence: 0.59 }
+          },
+          extraction: {
+            engine: 'tesseract',
+            fileId: mockFileId,
+            confidence: 0.84,
+            analyteCount: 2,
+            extractedAt: expect.any(Date)
+          }
+        })
+      });
+    });
+
+    it('should throw NotFoundError if the lab result does not exist', async () => {
+      healthRepositoryMock.findHealthDataById.mockResolvedValue(null);
+
+      await expect(healthService.extractLabResult(mockHealthDataId, mockUserId))
+        .rejects.toThrow(NotFoundError);
+      expect(ocrServiceMock.recognize).not.toHaveBeenCalled();
+    });
+
+    it('should throw BadRequestError for records that are not lab results', async () => {
+      healthRepositoryMock.findHealthDataById.mockResolvedValue(mockMealHealthData);
+
+      await expect(healthService.extractLabResult(mockHealthDataId, mockUserId))
+        .rejects.toThrow('Only lab results can be extracted');
+    });
+
+    it('should throw BadRequestError if the lab result has no photo', async () => {
+      healthRepositoryMock.findHealthDataById.mockResolvedValue({ ...labResult, fileIds: [] });
+
+      await expect(healthService.extractLabResult(mockHealthDataId, mockUserId))
+        .rejects.toThrow('Lab result has no photo to extract');
+      expect(fileServiceMock.getFileById).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('transcribeSymptomAudio', () => {
+    const pendingSymptom = {
+      ...mockSymptomHealthData,
+      data: createMockSymptomData({ transcription: 'head ache', transcriptionStatus: TranscriptionStatus.PENDING })
+    };
+
+    beforeEach(() => {
+      healthRepositoryMock.findHealthDataById.mockResolvedValue(pendingSymptom);
+      fileServiceMock.getFileById.mockResolvedValue({
+        file: { contentType: 'audio/mp4' },
+        buffer: Buffer.from('audio')
+      } as any);
+    });
+
+    it('should store the transcript so it can be searched', async () => {
+      transcriptionServiceMock.transcribe.mockResolvedValue('I have had a headache since lunch');
+
+      await healthService.transcribeSymptomAudio(mockHealthDataId, mockUserId, mockFileId);
+
+      expect(transcriptionServiceMock.transcribe).toHaveBeenCalledWith(Buffer.from('audio'), 'audio/mp4');
+      expect(healthRepositoryMock.updateHealthData).toHaveBeenCalledWith(mockHealthDataId, mockUserId, {
+        data: expect.objectContaining({
+          description: pendingSymptom.data.description,
+          transcription: 'I have had a headache since lunch',
+          transcriptionStatus: TranscriptionStatus.COMPLETED,
+          transcriptionEngine: TranscriptionEngineType.WHISPER_CPP,
+          transcribedAt: expect.any(Date)
+        })
+      });
+    });
+
+    it('should keep the transcription from the device when no speech was recognised', async () => {
+      transcriptionServiceMock.transcribe.mockResolvedValue('');
+
+      await healthService.transcribeSymptomAudio(mockHealthDataId, mockUserId, mockFileId);
+
+      expect(healthRepositoryMock.updateHealthData).toHaveBeenCalledWith(mockHealthDataId, mockUserId, {
+        data: expect.objectContaining({
+          transcription: 'head ache',
+          transcriptionStatus: TranscriptionStatus.COMPLETED
+        })
+      });
+    });
+
+    it('should record a failure instead of throwing', async () => {
+      transcriptionServiceMock.transcribe.mockRejectedValue(new Error('Transcription failed: whisper-cli failed'));
+
+      await expect(healthService.transcribeSymptomAudio(mockHealthDataId, mockUserId, mockFileId))
+        .resolves.toBeUndefined();
+
+      expect(healthRepositoryMock.updateHealthData).toHaveBeenCalledWith(mockHealthDataId, mockUserId, {
+        data: expect.objectContaining({
+          transcription: 'head ache',
+          transcriptionStatus: TranscriptionStatus.FAILED
+        })
+      });
+    });
+
+    it('should not recreate a symptom deleted during transcription', async () => {
+      transcriptionServiceMock.transcribe.mockResolvedValue('headache');
+      healthRepositoryMock.findHealthDataById.mockResolvedValue(null);
+
+      await healthService.transcribeSymptomAudio(mockHealthDataId, mockUserId, mockFileId);
+
+      expect(healthRepositoryMock.updateHealthData).not.toHaveBeenCalled();
+    });
+  });
+
   describe('updateHealthData', () => {
     it('should update health data without files', async () => {
       // Setup
@@ -400,6 +771,119 @@ describe('HealthService', () => {
       }));
     });
 
+    it('should record the changed fields in the audit log, without sensitive values', async () => {
+      const audit: AuditContext = { actorId: mockUserId, ip: '203.0.113.7', userAgent: 'jest' };
+      const updateData = { data: { ...mockMealHealthData.data, description: 'Porridge', mealType: MealType.LUNCH } };
+      const updatedData = { ...mockMealHealthData, data: updateData.data };
+      healthRepositoryMock.findHealthDataById.mockResolvedValue(mockMealHealthData);
+      healthRepositoryMock.updateHealthData.mockResolvedValue(updatedData);
+      healthRepositoryMock.enrichHealthDataWithFiles.mockResolvedValue(updatedData);
+      
+      await healthService.updateHealthData(mockHealthDataId, mockUserId, updateData as any, undefined, audit);
+      
+      expect(recordAuditEvents).toHaveBeenCalledWith(audit, [{
+        action: AuditAction.UPDATE,
+        resourceType: AuditResourceType.HEALTH_DATA,
+        resourceId: mockHealthDataId,
+        ownerId: mockUserId,
+        changes: [
+          { field: 'data.description' },
+          { field: 'data.mealType', before: MealType.BREAKFAST, after: MealType.LUNCH }
+        ]
+      }]);
+    });
+
+    it('should keep the OCR draft when a lab result is confirmed', async () => {
+      // Setup
+      const extraction = {
+        engine: 'tesseract',
+        fileId: mockFileId,
+        confidence: 0.84,
+        analyteCount: 1,
+        extractedAt: new Date('2023-05-15T10:20:00.000Z')
+      };
+      const results = { HDL: { value: 45, unit: 'mg/dL', confidence: 0.59 } };
+      const existingData = {
+        ...mockLabResultHealthData,
+        data: { ...mockLabResultHealthData.data, results, extraction }
+      };
+      const updateData = {
+        data: {
+          testType: 'Lipid Panel',
+          testDate: new Date('2023-05-10'),
+          results: {},
+          analytes: [{ name: 'HDL', value: 45, unit: 'mg/dL' }],
+          notes: '',
+          imageUrl: ''
+        }
+      } as unknown as Partial<CreateHealthDataRequest>;
+
+      // Mock repository responses
+      healthRepositoryMock.findHealthDataById.mockResolvedValue(existingData);
+      healthRepositoryMock.updateHealthData.mockResolvedValue(existingData);
+      healthRepositoryMock.enrichHealthDataWithFiles.mockResolvedValue(existingData);
+
+      // Call the method
+      await healthService.updateHealthData(mockHealthDataId, mockUserId, updateData);
+
+      // Assertions
+      expect(healthRepositoryMock.updateHealthData).toHaveBeenCalledWith(
+        mockHealthDataId,
+        mockUserId,
+        expect.objectContaining({
+          data: expect.objectContaining({
+            testType: 'Lipid Panel',
+            analytes: [expect.objectContaining({ key: 'hdl-cholesterol', value: 45 })],
+            results,
+            extraction
+          })
+        })
+      );
+    });
+
+    it('should keep the server-side transcription when a symptom is edited', async () => {
+      // Setup
+      const transcribedAt = new Date('2023-05-15T14:46:00.000Z');
+      const existingData = {
+        ...mockSymptomHealthData,
+        data: createMockSymptomData({
+          transcription: 'Headache since lunch',
+          transcriptionStatus: TranscriptionStatus.COMPLETED,
+          transcriptionEngine: TranscriptionEngineType.WHISPER_CPP,
+          transcribedAt
+        })
+      };
+      const updateData = {
+        data: { description: 'Headache', severity: SymptomSeverity.SEVERE, duration: '', audioUrl: '', transcription: '' }
+      } as unknown as Partial<CreateHealthDataRequest>;
+
+      // Mock repository responses
+      healthRepositoryMock.findHealthDataById.mockResolvedValue(existingData);
+      healthRepositoryMock.updateHealthData.mockResolvedValue(existingData);
+      healthRepositoryMock.enrichHealthDataWithFiles.mockResolvedValue(existingData);
+
+      // Call the method
+      await healthService.updateHealthData(mockHealthDataId, mockUserId, updateData);
+
+      // Assertions
+      expect(healthRepositoryMock.updateHealthData).toHaveBeenCalledWith(
+        mockHealthDataId,
+        mockUserId,
+        expect.objectContaining({
+          data: {
+            description: 'Headache',
+            severity: SymptomSeverity.SEVERE,
+            duration: '',
+            audioUrl: '',
+            transcription: 'Headache since lunch',
+            transcriptionStatus: TranscriptionStatus.COMPLETED,
+            transcriptionEngine: TranscriptionEngineType.WHISPER_CPP,
+            transcribedAt
+          }
+        })
+      );
+    });
+
     it('should update health data with new files', async () => {
       // Setup
       const healthDataId = mockHealthDataId;
@@ -551,7 +1035,7 @@ describe('HealthService', () => {
       
       // Mock repository responses
       healthRepositoryMock.getRecentHealthData.mockResolvedValue(recentData);
-      healthRepositoryMock.enrichHealthDataWithFiles.mockImplementation(data => data);
+      healthRepositoryMock.enrichHealthDataWithFiles.mockImplementation((data) => Promise.resolve(data));
       
       // Call the method
       const result = await healthService.getHealthContext(userId);
@@ -581,7 +1065,7 @@ describe('HealthService', () => {
       
       // Mock repository responses
       healthRepositoryMock.getRecentHealthData.mockResolvedValue(recentData);
-      healthRepositoryMock.enrichHealthDataWithFiles.mockImplementation(data => data);
+      healthRepositoryMock.enrichHealthDataWithFiles.mockImplementation((data) => Promise.resolve(data));
       
       // Call the method
       const result = await healthService.getHealthContext(userId, limit);
@@ -604,7 +1088,7 @@ describe('HealthService', () => {
       
       // Mock repository responses
       healthRepositoryMock.getRecentHealthData.mockResolvedValue(emptyData);
-      healthRepositoryMock.enrichHealthDataWithFiles.mockImplementation(data => data);
+      healthRepositoryMock.enrichHealthDataWithFiles.mockImplementation((data) => Promise.resolve(data));
       
       // Call the method
       const result = await healthService.getHealthContext(userId);
@@ -616,6 +1100,268 @@ describe('HealthService', () => {
     });
   });
 
+  describe('getRelevantHealthContext', () => {
+    const recentData = {
+      meals: [mockMealHealthData],
+      labResults: [mockLabResultHealthData],
+      symptoms: [mockSymptomHealthData]
+    };
+    
+    const embeddingOf = (healthData: typeof mockMealHealthData, vector: number[]) => ({
+      healthDataId: mockHealthDataObjectId,
+      type: healthData.type,
+      timestamp: healthData.timestamp,
+      vector
+    });
+    
+    beforeEach(() => {
+      healthRepositoryMock.findHealthDataToEmbed.mockResolvedValue([]);
+      healthRepositoryMock.enrichHealthDataWithFiles.mockImplementation((data) => Promise.resolve(data));
+      healthRepositoryMock.getRecentHealthData.mockResolvedValue(recentData);
+    });
+    
+    it('should retrieve the records most similar to the message', async () => {
+      const labResult = createMockHealthData({ ...mockLabResultHealthData, _id: new mongoose.Types.ObjectId() } as any);
+      embeddingServiceMock.embed.mockResolvedValue([[1, 0]]);
+      healthRepositoryMock.findHealthDataEmbeddings.mockResolvedValue([
+        { ...embeddingOf(mockMealHealthData, [0, 1]) },
+        { ...embeddingOf(labResult, [1, 0]), healthDataId: (labResult as any)._id }
+      ]);
+      healthRepositoryMock.findHealthDataByIds.mockResolvedValue([labResult]);
+      
+      const result = await healthService.getRelevantHealthContext(mockUserId, 'How is my cholesterol?', 10);
+      
+      expect(embeddingServiceMock.embed).toHaveBeenCalledWith(['How is my cholesterol?']);
+      expect(healthRepositoryMock.findHealthDataEmbeddings)
+        .toHaveBeenCalledWith(mockUserId, EmbeddingProviderType.OLLAMA, 'nomic-embed-text');
+      expect(healthRepositoryMock.findHealthDataByIds)
+        .toHaveBeenCalledWith([(labResult as any)._id.toString()], mockUserId);
+      expect(healthRepositoryMock.getRecentHealthData).not.toHaveBeenCalled();
+      expect(result.recentMeals).toEqual([]);
+      expect(result.recentLabResults).toHaveLength(1);
+      expect(result.recentSymptoms).toEqual([]);
+    });
+    
+    it('should embed records without an up-to-date embedding first', async () => {
+      healthRepositoryMock.findHealthDataToEmbed.mockResolvedValue([mockMealHealthData]);
+      embeddingServiceMock.embed
+        .mockResolvedValueOnce([[0, 1]])
+        .mockResolvedValueOnce([[1, 0]]);
+      healthRepositoryMock.findHealthDataEmbeddings.mockResolvedValue([]);
+      
+      await healthService.getRelevantHealthContext(mockUserId, 'Breakfast ideas?');
+      
+      expect(embeddingServiceMock.embed).toHaveBeenNthCalledWith(1, [expect.stringContaining('Oatmeal with berries')]);
+      expect(healthRepositoryMock.saveHealthDataEmbedding).toHaveBeenCalledWith(
+        mockMealHealthData,
+        EmbeddingProviderType.OLLAMA,
+        'nomic-embed-text',
+        [0, 1]
+      );
+    });
+    
+    it('should use recent records when none are similar to the message', async () => {
+      embeddingServiceMock.embed.mockResolvedValue([[1, 0]]);
+      healthRepositoryMock.findHealthDataEmbeddings.mockResolvedValue([embeddingOf(mockMealHealthData, [0, 1])]);
+      
+      const result = await healthService.getRelevantHealthContext(mockUserId, 'Hello');
+      
+      expect(healthRepositoryMock.getRecentHealthData).toHaveBeenCalledWith(mockUserId, 5);
+      expect(result.recentMeals).toHaveLength(1);
+    });
+    
+    it('should use recent records when embeddings cannot be computed', async () => {
+      embeddingServiceMock.embed.mockRejectedValue(new Error('Embedding failed'));
+      
+      const result = await healthService.getRelevantHealthContext(mockUserId, 'How is my cholesterol?');
+      
+      expect(healthRepositoryMock.getRecentHealthData).toHaveBeenCalledWith(mockUserId, 5);
+      expect(result.recentLabResults).toHaveLength(1);
+    });
+  });
+
+  describe('indexHealthData', () => {
+    it('should store the embedding of the record', async () => {
+      healthRepositoryMock.findHealthDataById.mockResolvedValue(mockSymptomHealthData);
+      embeddingServiceMock.embed.mockResolvedValue([[0.6, 0.8]]);
+      
+      await healthService.indexHealthData(mockHealthDataId, mockUserId);
+      
+      expect(embeddingServiceMock.embed).toHaveBeenCalledWith([expect.stringContaining('Headache after meals')]);
+      expect(healthRepositoryMock.saveHealthDataEmbedding).toHaveBeenCalledWith(
+        mockSymptomHealthData,
+        EmbeddingProviderType.OLLAMA,
+        'nomic-embed-text',
+        [0.6, 0.8]
+      );
+    });
+    
+    it('should not throw when the embedding cannot be computed', async () => {
+      healthRepositoryMock.findHealthDataById.mockResolvedValue(mockSymptomHealthData);
+      embeddingServiceMock.embed.mockRejectedValue(new Error('Embedding failed'));
+      
+      await expect(healthService.indexHealthData(mockHealthDataId, mockUserId)).resolves.toBeUndefined();
+      expect(healthRepositoryMock.saveHealthDataEmbedding).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getHealthInsights', () => {
+    // Wednesday 2023-05-03 to Tuesday 2023-05-16
+    const startDate = new Date('2023-05-03T00:00:00.000Z');
+    const endDate = new Date('2023-05-16T23:59:59.999Z');
+
+    beforeEach(() => {
+      healthRepositoryMock.aggregateMealsPerDay.mockResolvedValue([]);
+      healthRepositoryMock.aggregateSymptomsPerWeek.mockResolvedValue([]);
+      healthRepositoryMock.aggregateLabTestHistory.mockResolvedValue([]);
+    });
+
+    it('should fill every day and week in the range', async () => {
+      // Call the method
+      const result = await healthService.getHealthInsights(mockUserId, { startDate, endDate });
+
+      // Assertions
+      expect(healthRepositoryMock.aggregateMealsPerDay).toHaveBeenCalledWith(mockUserId, startDate, endDate, 'UTC');
+      expect(result.mealsPerDay).toHaveLength(14);
+      expect(result.mealsPerDay[0]).toEqual({
+        date: '2023-05-03',
+        counts: { breakfast: 0, lunch: 0, dinner: 0, snack: 0 },
+        total: 0
+      });
+      expect(result.mealsPerDay[13].date).toBe('2023-05-16');
+      expect(result.symptomTrend.map(week => week.weekStart)).toEqual(['2023-05-01', '2023-05-08', '2023-05-15']);
+      expect(result.symptomTrend[0].averageSeverity).toBeNull();
+    });
+
+    it('should merge aggregated counts into the series', async () => {
+      // Mock repository responses
+      healthRepositoryMock.aggregateMealsPerDay.mockResolvedValue([
+        { date: '2023-05-04', mealType: MealType.BREAKFAST, count: 1 },
+        { date: '2023-05-04', mealType: MealType.DINNER, count: 2 }
+      ]);
+      healthRepositoryMock.aggregateSymptomsPerWeek.mockResolvedValue([
+        { weekStart: '2023-05-08', severity: SymptomSeverity.MILD, count: 2 },
+        { weekStart: '2023-05-08', severity: SymptomSeverity.SEVERE, count: 1 }
+      ]);
+      healthRepositoryMock.aggregateLabTestHistory.mockResolvedValue([
+        {
+          testType: 'Lipid Panel',
+          count: 1,
+          entries: [{ id: mockHealthDataId, testDate: new Date('2023-05-10') as any, results: { ldl: 120 } }]
+        }
+      ]);
+
+      // Call the method
+      const result = await healthService.getHealthInsights(mockUserId, { startDate, endDate });
+
+      // Assertions
+      expect(result.mealsPerDay[1]).toEqual({
+        date: '2023-05-04',
+        counts: { breakfast: 1, lunch: 0, dinner: 2, snack: 0 },
+        total: 3
+      });
+      expect(result.symptomTrend[1]).toEqual({
+        weekStart: '2023-05-08',
+        count: 3,
+        severityCounts: { mild: 2, moderate: 0, severe: 1 },
+        averageSeverity: 1.67
+      });
+      expect(result.labTestHistory[0].entries[0].testDate).toBe('2023-05-10T00:00:00.000Z');
+    });
+
+    it('should default to the last 30 days', async () => {
+      // Call the method
+      const result = await healthService.getHealthInsights(mockUserId);
+
+      // Assertions
+      const rangeMs = Date.parse(result.endDate) - Date.parse(result.startDate);
+      expect(rangeMs).toBe(30 * 24 * 60 * 60 * 1000);
+      expect(result.timezone).toBe('UTC');
+      expect(result.mealsPerDay).toHaveLength(31);
+    });
+
+    it('should group days in the requested time zone', async () => {
+      // 2023-05-03T02:00Z is still May 2nd in New York
+      const result = await healthService.getHealthInsights(mockUserId, {
+        startDate: new Date('2023-05-03T02:00:00.000Z'),
+        endDate: new Date('2023-05-04T02:00:00.000Z'),
+        timezone: 'America/New_York'
+      });
+
+      // Assertions
+      expect(result.mealsPerDay.map(day => day.date)).toEqual(['2023-05-02', '2023-05-03']);
+    });
+  });
+
+  describe('getAnalyteHistory', () => {
+    const measurement = {
+      healthDataId: mockHealthDataId,
+      testDate: new Date('2023-05-10'),
+      testType: 'Metabolic Panel',
+      name: 'Fasting glucose',
+      value: 105,
+      unit: 'mg/dL',
+      referenceLow: 70,
+      referenceHigh: 99,
+      outOfRange: true
+    };
+
+    it('should return measurements of a known analyte in its canonical unit', async () => {
+      // Mock repository response
+      healthRepositoryMock.findAnalyteHistory.mockResolvedValue([measurement]);
+      const startDate = new Date('2023-01-01');
+
+      // Call the method
+      const result = await healthService.getAnalyteHistory(mockUserId, 'glucose', { startDate });
+
+      // Assertions
+      expect(healthRepositoryMock.findAnalyteHistory).toHaveBeenCalledWith(mockUserId, 'glucose', startDate, undefined);
+      expect(result).toEqual({
+        key: 'glucose',
+        name: 'Glucose',
+        unit: 'mg/dL',
+        entries: [{
+          healthDataId: mockHealthDataId,
+          testDate: '2023-05-10T00:00:00.000Z',
+          testType: 'Metabolic Panel',
+          value: 105,
+          unit: 'mg/dL',
+          referenceLow: 70,
+          referenceHigh: 99,
+          outOfRange: true
+        }]
+      });
+    });
+
+    it('should return an empty history for a known analyte without measurements', async () => {
+      healthRepositoryMock.findAnalyteHistory.mockResolvedValue([]);
+
+      const result = await healthService.getAnalyteHistory(mockUserId, 'hba1c');
+
+      expect(result).toEqual({ key: 'hba1c', name: 'HbA1c', unit: '%', entries: [] });
+    });
+
+    it('should report no unit when an unknown analyte was entered in different units', async () => {
+      healthRepositoryMock.findAnalyteHistory.mockResolvedValue([
+        { ...measurement, name: 'Ferritin', unit: 'ng/mL' },
+        { ...measurement, name: 'Ferritin', unit: 'ug/L' }
+      ]);
+
+      const result = await healthService.getAnalyteHistory(mockUserId, 'ferritin');
+
+      expect(result.name).toBe('Ferritin');
+      expect(result.unit).toBeNull();
+      expect(result.entries).toHaveLength(2);
+    });
+
+    it('should throw NotFoundError for an unknown analyte without measurements', async () => {
+      healthRepositoryMock.findAnalyteHistory.mockResolvedValue([]);
+
+      await expect(healthService.getAnalyteHistory(mockUserId, 'ferritin'))
+        .rejects.toThrow(NotFoundError);
+    });
+  });
+
   describe('validateHealthDataRequest', () => {
     it('should throw BadRequestError with appropriate message if request is missing', async () => {
       // Setup
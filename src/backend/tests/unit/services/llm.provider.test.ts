@@ -0,0 +1,360 @@
+import {
+  createLLMProvider,
+  OpenAIProvider,
+  AnthropicProvider,
+  OllamaProvider
+} from '../../../src/services/providers';
+import {
+  ChatRole,
+  LLMJsonObject,
+  LLMMessage,
+  LLMProviderSettings,
+  LLMProviderType,
+  LLMToolDefinition
+} from '../../../src/types/chat.types';
+
+describe('LLM providers', () => {
+  const mockUserId = '507f1f77bcf86cd799439011';
+
+  const messages: LLMMessage[] = [
+    { role: ChatRole.SYSTEM, content: 'You are a health advisor.' },
+    { role: ChatRole.SYSTEM, content: 'Recent meals: oatmeal' },
+    { role: ChatRole.USER, content: 'What should I eat for breakfast?' }
+  ];
+
+  // A conversation in which the model looked up a lab trend before answering
+  const toolMessages: LLMMessage[] = [
+    { role: ChatRole.USER, content: 'How has my LDL changed?' },
+    {
+      role: ChatRole.ASSISTANT,
+      content: '',
+      toolCalls: [{ id: 'call_1', name: 'get_lab_trend', arguments: { analyte: 'LDL' } }]
+    },
+    { role: ChatRole.TOOL, content: '{"count":2}', toolCallId: 'call_1', name: 'get_lab_trend' }
+  ];
+
+  const tools: LLMToolDefinition[] = [{
+    name: 'get_lab_trend',
+    description: 'Gets the measurements of a lab analyte',
+    parameters: { type: 'object', properties: { analyte: { type: 'string' } }, required: ['analyte'] }
+  }];
+
+  const createSettings = (
+    type: LLMProviderType,
+    apiKey = 'test-api-key',
+    baseUrl = 'http://llm.test/endpoint'
+  ): LLMProviderSettings => ({
+    provider: {
+      type,
+      apiKey,
+      baseUrl,
+      timeout: 30000
+    },
+    model: 'test-model',
+    requestDefaults: {
+      temperature: 0.5,
+      maxTokens: 1500,
+      topP: 1.0,
+      frequencyPenalty: 0.1,
+      presencePenalty: 0.1
+    }
+  });
+
+  describe('createLLMProvider', () => {
+    it('should create the adapter for each configured provider type', () => {
+      expect(createLLMProvider(createSettings(LLMProviderType.OPENAI))).toBeInstanceOf(OpenAIProvider);
+      expect(createLLMProvider(createSettings(LLMProviderType.ANTHROPIC))).toBeInstanceOf(AnthropicProvider);
+      expect(createLLMProvider(createSettings(LLMProviderType.OLLAMA))).toBeInstanceOf(OllamaProvider);
+
+      const llamaCpp = createLLMProvider(createSettings(LLMProviderType.LLAMA_CPP));
+      expect(llamaCpp).toBeInstanceOf(OpenAIProvider);
+      expect(llamaCpp.type).toBe(LLMProviderType.LLAMA_CPP);
+    });
+
+    it('should reject unsupported provider types', () => {
+      expect(() => createLLMProvider(createSettings('unknown' as LLMProviderType)))
+        .toThrow('Unsupported LLM provider: unknown');
+    });
+  });
+
+  describe('OpenAIProvider', () => {
+    const provider = new OpenAIProvider(createSettings(LLMProviderType.OPENAI));
+
+    it('should build a chat completion request', () => {
+      const request = provider.buildRequest(messages, mockUserId, true);
+
+      expect(request.url).toBe('http://llm.test/endpoint');
+      expect(request.headers['Authorization']).toBe('Bearer test-api-key');
+      expect(request.payload.messages).toEqual(messages);
+      expect(request.payload.model).toBe('test-model');
+      expect(request.payload.user).toBe(mockUserId);
+      expect(request.payload.stream).toBe(true);
+    });
+
+    it('should omit the authorization header without an API key', () => {
+      const localProvider = new OpenAIProvider(createSettings(LLMProviderType.LLAMA_CPP, ''), LLMProviderType.LLAMA_CPP);
+      const request = localProvider.buildRequest(messages, mockUserId, false);
+
+      expect(request.headers['Authorization']).toBeUndefined();
+      expect(request.payload.stream).toBeUndefined();
+    });
+
+    it('should parse content and token usage', () => {
+      const result = provider.parseResponse({
+        model: 'gpt-4',
+        choices: [{ message: { role: 'assistant', content: 'Try oatmeal with berries.' } }],
+        usage: { prompt_tokens: 20, completion_tokens: 6, total_tokens: 26 }
+      });
+
+      expect(result).toEqual({
+        content: 'Try oatmeal with berries.',
+        model: 'gpt-4',
+        usage: { prompt_tokens: 20, completion_tokens: 6, total_tokens: 26 }
+      });
+    });
+
+    it('should parse stream lines', () => {
+      const parseLine = provider.createStreamParser();
+
+      expect(parseLine('data: {"model":"gpt-4","choices":[{"delta":{"content":"Try"}}]}'))
+        .toEqual(expect.objectContaining({ delta: 'Try', model: 'gpt-4' }));
+      expect(parseLine('data: [DONE]')).toBeNull();
+      expect(parseLine(': keep-alive')).toBeNull();
+    });
+
+    it('should offer tools and send tool calls and results as functions', () => {
+      const request = provider.buildRequest(toolMessages, mockUserId, false, { tools, toolChoice: 'auto' });
+
+      expect(request.payload.tools).toEqual([{ type: 'function', function: tools[0] }]);
+      expect(request.payload.tool_choice).toBe('auto');
+      expect((request.payload.messages as LLMJsonObject[]).slice(1)).toEqual([
+        {
+          role: 'assistant',
+          content: null,
+          tool_calls: [{
+            id: 'call_1',
+            type: 'function',
+            function: { name: 'get_lab_trend', arguments: '{"analyte":"LDL"}' }
+          }]
+        },
+        { role: 'tool', tool_call_id: 'call_1', content: '{"count":2}' }
+      ]);
+    });
+
+    it('should parse tool calls from responses and streams', () => {
+      const result = provider.parseResponse({
+        choices: [{
+          message: {
+            role: 'assistant',
+            content: null,
+            tool_calls: [{
+              id: 'call_1',
+              type: 'function',
+              function: { name: 'get_lab_trend', arguments: '{"analyte":"LDL"}' }
+            }]
+          }
+        }]
+      });
+      expect(result.toolCalls).toEqual([{ id: 'call_1', name: 'get_lab_trend', arguments: { analyte: 'LDL' } }]);
+
+      const parseLine = provider.createStreamParser();
+      expect(parseLine('data: {"choices":[{"delta":{"tool_calls":[{"index":0,"id":"call_1","function":{"name":"get_lab_trend","arguments":"{\\"ana"}}]}}]}'))
+        .not.toHaveProperty('toolCalls');
+      expect(parseLine('data: {"choices":[{"delta":{"tool_calls":[{"index":0,"function":{"arguments":"lyte\\":\\"LDL\\"}"}}]}}]}'))
+        .not.toHaveProperty('toolCalls');
+      expect(parseLine('data: {"choices":[{"delta":{},"finish_reason":"tool_calls"}]}'))
+        .toEqual(expect.objectContaining({
+          toolCalls: [{ id: 'call_1', name: 'get_lab_trend', arguments: { analyte: 'LDL' } }]
+        }));
+    });
+
+    it('should check health by listing models', () => {
+      const openai = new OpenAIProvider(
+        createSettings(LLMProviderType.OPENAI, 'test-api-key', 'https://api.openai.com/v1/chat/completions')
+      );
+
+      expect(openai.buildHealthCheckRequest()).toEqual({
+        url: 'https://api.openai.com/v1/models',
+        headers: { Authorization: 'Bearer test-api-key' }
+      });
+    });
+  });
+
+  describe('AnthropicProvider', () => {
+    const provider = new AnthropicProvider(createSettings(LLMProviderType.ANTHROPIC));
+
+    it('should move system messages into the system parameter', () => {
+      const request = provider.buildRequest(messages, mockUserId, false);
+
+      expect(request.headers['x-api-key']).toBe('test-api-key');
+      expect(request.headers['anthropic-version']).toBeDefined();
+      expect(request.payload.system).toBe('You are a health advisor.\n\nRecent meals: oatmeal');
+      expect(request.payload.messages).toEqual([
+        { role: 'user', content: 'What should I eat for breakfast?' }
+      ]);
+      expect(request.payload.max_tokens).toBe(1500);
+      expect(request.payload.metadata).toEqual({ user_id: mockUserId });
+    });
+
+    it('should parse content blocks and token usage', () => {
+      const result = provider.parseResponse({
+        model: 'claude-test',
+        content: [
+          { type: 'text', text: 'Try oatmeal ' },
+          { type: 'text', text: 'with berries.' }
+        ],
+        usage: { input_tokens: 20, output_tokens: 6 }
+      });
+
+      expect(result).toEqual({
+        content: 'Try oatmeal with berries.',
+        model: 'claude-test',
+        usage: { prompt_tokens: 20, completion_tokens: 6, total_tokens: 26 }
+      });
+    });
+
+    it('should parse stream events and combine token usage', () => {
+      const parseLine = provider.createStreamParser();
+
+      expect(parseLine('event: message_start')).toBeNull();
+      expect(parseLine('data: {"type":"message_start","message":{"model":"claude-test","usage":{"input_tokens":20}}}'))
+        .toEqual({ model: 'claude-test' });
+      expect(parseLine('data: {"type":"content_block_delta","delta":{"type":"text_delta","text":"Try"}}'))
+        .toEqual({ delta: 'Try' });
+      expect(parseLine('data: {"type":"message_delta","usage":{"output_tokens":6}}'))
+        .toEqual({ usage: { prompt_tokens: 20, completion_tokens: 6, total_tokens: 26 } });
+      expect(parseLine('data: {"type":"error","error":{"message":"Overloaded"}}'))
+        .toEqual({ error: 'Overloaded' });
+    });
+
+    it('should send tool calls as tool_use blocks and their results from the user', () => {
+      const request = provider.buildRequest(toolMessages, mockUserId, false, { tools, toolChoice: 'none' });
+
+      expect(request.payload.tools).toEqual([{
+        name: 'get_lab_trend',
+        description: 'Gets the measurements of a lab analyte',
+        input_schema: tools[0].parameters
+      }]);
+      expect(request.payload.tool_choice).toEqual({ type: 'none' });
+      expect(request.payload.messages).toEqual([
+        { role: 'user', content: 'How has my LDL changed?' },
+        {
+          role: 'assistant',
+          content: [{ type: 'tool_use', id: 'call_1', name: 'get_lab_trend', input: { analyte: 'LDL' } }]
+        },
+        { role: 'user', content: [{ type: 'tool_result', tool_use_id: 'call_1', content: '{"count":2}' }] }
+      ]);
+    });
+
+    it('should parse tool_use blocks from responses and streams', () => {
+      const result = provider.parseResponse({
+        content: [
+          { type: 'text', text: 'Let me check.' },
+          { type: 'tool_use', id: 'toolu_1', name: 'get_lab_trend', input: { analyte: 'LDL' } }
+        ]
+      });
+      expect(result.content).toBe('Let me check.');
+      expect(result.toolCalls).toEqual([{ id: 'toolu_1', name: 'get_lab_trend', arguments: { analyte: 'LDL' } }]);
+
+      const parseLine = provider.createStreamParser();
+      expect(parseLine('data: {"type":"content_block_start","content_block":{"type":"tool_use","id":"toolu_1","name":"get_lab_trend"}}'))
+        .toBeNull();
+      expect(parseLine('data: {"type":"content_block_delta","delta":{"type":"input_json_delta","partial_json":"{\\"analyte\\":"}}'))
+        .toBeNull();
+      expect(parseLine('data: {"type":"content_block_delta","delta":{"type":"input_json_delta","partial_json":"\\"LDL\\"}"}}'))
+        .toBeNull();
+      expect(parseLine('data: {"type":"content_block_stop"}'))
+        .toEqual({ toolCalls: [{ id: 'toolu_1', name: 'get_lab_trend', arguments: { analyte: 'LDL' } }] });
+    });
+
+    it('should check health by listing models', () => {
+      const anthropic = new AnthropicProvider(
+        createSettings(LLMProviderType.ANTHROPIC, 'test-api-key', 'https://api.anthropic.com/v1/messages')
+      );
+      const request = anthropic.buildHealthCheckRequest();
+
+      expect(request.url).toBe('https://api.anthropic.com/v1/models');
+      expect(request.headers['x-api-key']).toBe('test-api-key');
+      expect(request.headers['anthropic-version']).toBeDefined();
+    });
+  });
+
+  describe('OllamaProvider', () => {
+    const provider = new OllamaProvider(createSettings(LLMProviderType.OLLAMA, ''));
+
+    it('should build a chat request with explicit streaming and options', () => {
+      const request = provider.buildRequest(messages, mockUserId, false);
+
+      expect(request.headers['Authorization']).toBeUndefined();
+      expect(request.payload.messages).toEqual(messages);
+      expect(request.payload.stream).toBe(false);
+      expect(request.payload.options).toEqual(expect.objectContaining({ num_predict: 1500 }));
+    });
+
+    it('should parse content and token counts', () => {
+      const result = provider.parseResponse({
+        model: 'llama3',
+        message: { role: 'assistant', content: 'Try oatmeal with berries.' },
+        done: true,
+        prompt_eval_count: 20,
+        eval_count: 6
+      });
+
+      expect(result).toEqual({
+        content: 'Try oatmeal with berries.',
+        model: 'llama3',
+        usage: { prompt_tokens: 20, completion_tokens: 6, total_tokens: 26 }
+      });
+    });
+
+    it('should parse newline-delimited stream objects', () => {
+      const parseLine = provider.createStreamParser();
+
+      expect(parseLine('{"model":"llama3","message":{"content":"Try"},"done":false}'))
+        .toEqual(expect.objectContaining({ delta: 'Try', usage: undefined }));
+      expect(parseLine('{"model":"llama3","message":{"content":""},"done":true,"prompt_eval_count":20,"eval_count":6}'))
+        .toEqual(expect.objectContaining({
+          delta: undefined,
+          usage: { prompt_tokens: 20, completion_tokens: 6, total_tokens: 26 }
+        }));
+      expect(parseLine('')).toBeNull();
+    });
+
+    it('should offer tools only while the model may call them', () => {
+      const request = provider.buildRequest(toolMessages, mockUserId, false, { tools, toolChoice: 'auto' });
+
+      expect(request.payload.tools).toEqual([{ type: 'function', function: tools[0] }]);
+      expect((request.payload.messages as LLMJsonObject[]).slice(1)).toEqual([
+        {
+          role: 'assistant',
+          content: '',
+          tool_calls: [{ function: { name: 'get_lab_trend', arguments: { analyte: 'LDL' } } }]
+        },
+        { role: 'tool', content: '{"count":2}', tool_name: 'get_lab_trend' }
+      ]);
+      expect(provider.buildRequest(toolMessages, mockUserId, false, { tools, toolChoice: 'none' }).payload.tools)
+        .toBeUndefined();
+    });
+
+    it('should parse tool calls and assign them IDs', () => {
+      const result = provider.parseResponse({
+        message: {
+          role: 'assistant',
+          content: '',
+          tool_calls: [{ function: { name: 'get_lab_trend', arguments: { analyte: 'LDL' } } }]
+        },
+        done: true
+      });
+
+      expect(result.toolCalls).toEqual([
+        { id: expect.stringMatching(/^call_/), name: 'get_lab_trend', arguments: { analyte: 'LDL' } }
+      ]);
+    });
+
+    it('should check health by listing installed models', () => {
+      const ollama = new OllamaProvider(createSettings(LLMProviderType.OLLAMA, '', 'http://localhost:11434/api/chat'));
+
+      expect(ollama.buildHealthCheckRequest()).toEqual({ url: 'http://localhost:11434/api/tags', headers: {} });
+    });
+  });
+});
@@ -2,21 +2,21 @@ import mongoose from 'mongoose';
 import axios from 'axios';
 import MockAdapter from 'axios-mock-adapter';
 import { LLMService } from '../../../src/services/llm.service';
+import { ToolRegistry } from '../../../src/services/tools';
 import { HealthService } from '../../../src/services/health.service';
 import { ServiceUnavailableError } from '../../../src/utils/error.util';
 import { getConversationHistory } from '../../../src/repositories/chat.repository';
-import { LLMMessage, LLMResponse, ChatRole } from '../../../src/types/chat.types';
+import { LLMMessage, LLMResponse, ChatRole, ChatMessage, ChatConversation } from '../../../src/types/chat.types';
+import { DependencyStatus } from '../../../src/types/health-check.types';
+import { Sex, UnitsPreference } from '../../../src/types/user.types';
 import { llmConfig } from '../../../src/config/llm';
+import { estimatePromptTokens, estimateTokens } from '../../../src/utils/token.util';
 import { 
   setupTestDatabase, 
   teardownTestDatabase, 
   resetCollections 
 } from '../../setup';
 import { 
-  mockUserId,
-  mockConversationId,
-  createMockChatMessageArray,
-  createMockHealthContext,
   DEFAULT_MOCK_RESPONSE,
   HEALTH_CONTEXT_MOCK_RESPONSE,
   DISCLAIMER_TEXT,
@@ -26,6 +26,20 @@ import {
   setupMockLLMRetry,
   createContextWithHealthData 
 } from '../../mocks/llm.mock';
+import { mockUserId, createMockUserDocument } from '../../mocks/user.mock';
+import {
+  mockConversationId,
+  createMockChatMessage,
+  createMockChatMessageArray,
+  createMockChatConversation,
+  createMockHealthContext
+} from '../../mocks/chat.mock';
+
+// Metadata of a response, failing the test if the response has none
+const metadataOf = (response: LLMResponse): NonNullable<LLMResponse['metadata']> => {
+  expect(response.metadata).toBeDefined();
+  return response.metadata ?? {};
+};
 
 describe('LLMService', () => {
   let mockAxios: MockAdapter;
@@ -65,95 +79,151 @@ describe('LLMService', () => {
     });
   });
   
-  describe('buildContext', () => {
-    it('should build context from user health data and conversation history', async () => {
-      // Mock the health service getHealthContext method
-      jest.spyOn(HealthService.prototype, 'getHealthContext')
+  describe('buildPrompt', () => {
+    const message = 'What diet should I follow for my headaches?';
+    const chatRepository = require('../../../src/repositories/chat.repository');
+    
+    // Mocks the conversation with its summary and the messages it does not cover, newest first
+    const mockConversation = (history: ChatMessage[], overrides: Partial<ChatConversation> = {}) => {
+      jest.spyOn(chatRepository, 'getConversationById')
+        .mockResolvedValue(createMockChatConversation(overrides));
+      jest.spyOn(chatRepository, 'getConversationHistory')
+        .mockResolvedValue(history);
+    };
+    
+    const emptyHealthContext = {
+      recentMeals: [],
+      recentLabResults: [],
+      recentSymptoms: []
+    };
+    
+    it('should build the prompt from user health data and conversation history', async () => {
+      jest.spyOn(HealthService.prototype, 'getRelevantHealthContext')
         .mockResolvedValue(createMockHealthContext());
+      mockConversation(createMockChatMessageArray(mockConversationId, mockUserId, 4).reverse());
       
-      // Mock the getConversationHistory function
-      jest.spyOn(require('../../../src/repositories/chat.repository'), 'getConversationHistory')
-        .mockResolvedValue(createMockChatMessageArray());
-      
-      const context = await llmService.buildContext(mockUserId, mockConversationId);
+      const prompt = await llmService.buildPrompt(message, mockUserId, mockConversationId);
       
-      expect(context).toBeDefined();
-      expect(context).toContain('USER HEALTH CONTEXT');
-      expect(context).toContain('Recent meals');
-      expect(context).toContain('Recent lab results');
-      expect(context).toContain('Recent symptoms');
-      expect(context).toContain('Recent conversation');
+      expect(prompt[0].role).toBe(ChatRole.SYSTEM);
+      expect(prompt[0].content).toContain('You are a helpful health advisor');
+      expect(prompt[1].role).toBe(ChatRole.SYSTEM);
+      expect(prompt[1].content).toContain('USER HEALTH CONTEXT');
+      expect(prompt[1].content).toContain('Meals: ');
+      expect(prompt[1].content).toContain('Lab results: ');
+      expect(prompt[1].content).toContain('Symptoms: ');
+      expect(prompt[prompt.length - 1]).toEqual({ role: ChatRole.USER, content: message });
     });
     
-    it('should handle empty health data', async () => {
-      // Mock the health service getHealthContext method with empty data
-      jest.spyOn(HealthService.prototype, 'getHealthContext')
-        .mockResolvedValue({
-          recentMeals: [],
-          recentLabResults: [],
-          recentSymptoms: []
-        });
+    it('should only send the message without context when there is none', async () => {
+      jest.spyOn(HealthService.prototype, 'getRelevantHealthContext')
+        .mockResolvedValue(emptyHealthContext);
+      mockConversation([]);
       
-      // Mock the getConversationHistory function with empty array
-      jest.spyOn(require('../../../src/repositories/chat.repository'), 'getConversationHistory')
-        .mockResolvedValue([]);
-      
-      const context = await llmService.buildContext(mockUserId, mockConversationId);
+      const prompt = await llmService.buildPrompt(message, mockUserId, mockConversationId);
       
-      expect(context).toBe('');
+      expect(prompt).toHaveLength(2);
+      expect(prompt[0].role).toBe(ChatRole.SYSTEM);
+      expect(prompt[0].content).toContain('general wellness information');
+      expect(prompt[1]).toEqual({ role: ChatRole.USER, content: message });
     });
     
-    it('should include conversation history in context', async () => {
-      // Mock the health service getHealthContext method
-      jest.spyOn(HealthService.prototype, 'getHealthContext')
-        .mockResolvedValue(createMockHealthContext());
-      
-      // Create a substantial conversation history
-      const mockConversation = createMockChatMessageArray(mockConversationId, mockUserId, 10);
-      
-      // Mock the getConversationHistory function
-      jest.spyOn(require('../../../src/repositories/chat.repository'), 'getConversationHistory')
-        .mockResolvedValue(mockConversation);
-      
-      const context = await llmService.buildContext(mockUserId, mockConversationId);
-      
-      expect(context).toContain('Recent conversation');
-      expect(context).toContain('user:');
-      expect(context).toContain('assistant:');
-      // Verify conversation is properly formatted
-      expect(context).toMatch(/Recent conversation: .*\|.*/);
+    it('should send recent messages in full and in order, without the message being answered', async () => {
+      jest.spyOn(HealthService.prototype, 'getRelevantHealthContext')
+        .mockResolvedValue(emptyHealthContext);
+      const longAnswer = 'Iron rich foods such as lentils and spinach may help. '.repeat(5);
+      mockConversation([
+        createMockChatMessage({ role: ChatRole.USER, content: message }),
+        createMockChatMessage({ role: ChatRole.ASSISTANT, content: longAnswer }),
+        createMockChatMessage({ role: ChatRole.USER, content: 'I have been feeling tired lately' })
+      ]);
+      
+      const prompt = await llmService.buildPrompt(message, mockUserId, mockConversationId);
+      
+      expect(prompt.slice(1)).toEqual([
+        { role: ChatRole.USER, content: 'I have been feeling tired lately' },
+        { role: ChatRole.ASSISTANT, content: longAnswer },
+        { role: ChatRole.USER, content: message }
+      ]);
     });
-  });
-  
-  describe('constructPrompt', () => {
-    it('should construct prompt with system instructions and user message', () => {
-      const userMessage = 'What diet should I follow for my headaches?';
-      const context = '';
+    
+    it('should include the summary of earlier messages in the context', async () => {
+      jest.spyOn(HealthService.prototype, 'getRelevantHealthContext')
+        .mockResolvedValue(emptyHealthContext);
+      const summarizedUntil = new Date('2023-05-15T08:30:00.000Z');
+      mockConversation([], {
+        summary: 'The user reported low ferritin and was advised to discuss supplements with their doctor.',
+        summarizedUntil
+      });
       
-      const prompt = llmService.constructPrompt(userMessage, context);
+      const prompt = await llmService.buildPrompt(message, mockUserId, mockConversationId);
       
-      expect(prompt).toBeInstanceOf(Array);
-      expect(prompt.length).toBe(2); // System message and user message
-      expect(prompt[0].role).toBe(ChatRole.SYSTEM);
-      expect(prompt[0].content).toContain('You are a helpful health advisor');
-      expect(prompt[1].role).toBe(ChatRole.USER);
-      expect(prompt[1].content).toBe(userMessage);
+      expect(chatRepository.getConversationHistory)
+        .toHaveBeenCalledWith(mockConversationId, expect.any(Number), summarizedUntil);
+      expect(prompt[1].content)
+        .toContain('Summary of the earlier conversation: The user reported low ferritin');
     });
     
-    it('should include context in prompt when provided', () => {
-      const userMessage = 'What diet should I follow for my headaches?';
-      const context = createContextWithHealthData();
-      
-      const prompt = llmService.constructPrompt(userMessage, context);
+    it('should leave out the oldest messages that exceed the token budget', async () => {
+      const { maxTokens } = llmConfig.context;
+      const { enabled } = llmConfig.tools;
+      // Leave room for the response, the system prompt, the message and two short messages
+      llmConfig.context.maxTokens = llmConfig.requestDefaults.maxTokens
+        + estimateTokens((llmService as any).systemPrompts.base) + 60;
+      llmConfig.tools.enabled = false;
+      
+      try {
+        jest.spyOn(HealthService.prototype, 'getRelevantHealthContext')
+          .mockResolvedValue(emptyHealthContext);
+        mockConversation([
+          createMockChatMessage({ role: ChatRole.ASSISTANT, content: 'Try a short walk after lunch.' }),
+          createMockChatMessage({ role: ChatRole.USER, content: 'What helps with afternoon tiredness?' }),
+          createMockChatMessage({ role: ChatRole.ASSISTANT, content: 'x'.repeat(4000) }),
+          createMockChatMessage({ role: ChatRole.USER, content: 'Hello' })
+        ]);
+        
+        const prompt = await llmService.buildPrompt(message, mockUserId, mockConversationId);
+        const contents = prompt.map(entry => entry.content).join('\n');
+        
+        expect(contents).toContain('What helps with afternoon tiredness?');
+        expect(contents).not.toContain('x'.repeat(4000));
+        expect(contents).not.toContain('Hello');
+        expect(prompt[prompt.length - 1]).toEqual({ role: ChatRole.USER, content: message });
+        expect(estimatePromptTokens(prompt))
+          .toBeLessThanOrEqual(llmConfig.context.maxTokens - llmConfig.requestDefaults.maxTokens);
+      } finally {
+        llmConfig.context.maxTokens = maxTokens;
+        llmConfig.tools.enabled = enabled;
+      }
+    });
+    
+    it('should include the user profile in the context', async () => {
+      jest.spyOn(HealthService.prototype, 'getRelevantHealthContext')
+        .mockResolvedValue(emptyHealthContext);
+      mockConversation([]);
+      jest.spyOn(require('../../../src/repositories/user.repository'), 'findById')
+        .mockResolvedValue(createMockUserDocument({
+          dateOfBirth: new Date(Date.UTC(new Date().getUTCFullYear() - 40, 0, 1)),
+          sex: Sex.FEMALE,
+          heightCm: 170,
+          weightKg: 68,
+          conditions: ['Type 2 diabetes'],
+          allergies: ['Peanuts', 'Penicillin'],
+          dietaryPreferences: ['Vegetarian'],
+          unitsPreference: UnitsPreference.IMPERIAL
+        }));
+      
+      const prompt = await llmService.buildPrompt(message, mockUserId, mockConversationId);
+      const context = prompt[1].content;
       
-      expect(prompt).toBeInstanceOf(Array);
-      expect(prompt.length).toBe(3); // System message, context message, and user message
-      expect(prompt[0].role).toBe(ChatRole.SYSTEM);
-      expect(prompt[0].content).toContain('You are a helpful health advisor');
-      expect(prompt[1].role).toBe(ChatRole.SYSTEM);
-      expect(prompt[1].content).toBe(context);
-      expect(prompt[2].role).toBe(ChatRole.USER);
-      expect(prompt[2].content).toBe(userMessage);
+      expect(context).toContain('USER HEALTH CONTEXT');
+      expect(context).toContain('User profile: Age: 40; Sex: female');
+      expect(context).toContain('Height: 5 ft 7 in (170 cm)');
+      expect(context).toContain('Weight: 150 lb (68 kg)');
+      expect(context).toContain('Known conditions: Type 2 diabetes');
+      expect(context).toContain('Allergies: Peanuts, Penicillin');
+      expect(context).toContain('Dietary preferences: Vegetarian');
+      expect(context).toContain('Preferred units: imperial');
+      expect(context).not.toContain('Medications');
     });
   });
   
@@ -217,6 +287,34 @@ describe('LLMService', () => {
     });
   });
   
+  describe('summarize', () => {
+    const messages: LLMMessage[] = [
+      { role: ChatRole.SYSTEM, content: 'Reply with a title.' },
+      { role: ChatRole.USER, content: 'User: What diet should I follow for headaches?' }
+    ];
+    
+    it('should send a short request and return the text unfiltered', async () => {
+      setupMockLLMSuccess(mockAxios, '  Diet to treat headaches\n');
+      
+      const summary = await llmService.summarize(messages, mockUserId);
+      
+      // Safety filters and the disclaimer only apply to advice
+      expect(summary).toBe('Diet to treat headaches');
+      
+      const requestData = JSON.parse(mockAxios.history.post[0].data);
+      expect(requestData.messages).toEqual(messages);
+      expect(requestData.model).toBe(llmConfig.summarization.model);
+      expect(requestData.max_tokens).toBe(llmConfig.summarization.maxTokens);
+    });
+    
+    it('should throw instead of falling back when the provider is unavailable', async () => {
+      setupMockLLMFailure(mockAxios, 500);
+      
+      await expect(llmService.summarize(messages, mockUserId))
+        .rejects.toThrow(ServiceUnavailableError);
+    });
+  });
+  
   describe('processResponse', () => {
     it('should process and validate LLM response', () => {
       const mockResponse = {
@@ -246,13 +344,13 @@ describe('LLMService', () => {
       expect(processedResponse).toBeDefined();
       expect(processedResponse.content).toBe(DEFAULT_MOCK_RESPONSE);
       expect(processedResponse.metadata).toBeDefined();
-      expect(processedResponse.metadata.model).toBe('gpt-3.5-turbo');
-      expect(processedResponse.metadata.tokenUsage).toEqual({
+      expect(metadataOf(processedResponse).model).toBe('gpt-3.5-turbo');
+      expect(metadataOf(processedResponse).tokenUsage).toEqual({
         prompt_tokens: 120,
         completion_tokens: 85,
         total_tokens: 205
       });
-      expect(processedResponse.metadata.processedAt).toBeDefined();
+      expect(metadataOf(processedResponse).processedAt).toBeDefined();
     });
     
     it('should handle malformed responses', () => {
@@ -300,18 +398,14 @@ IMPORTANT: This information is for general wellness purposes only and not a subs
   
   describe('sendMessage', () => {
     it('should send message to LLM and return processed response', async () => {
-      // Mock the buildContext method
-      jest.spyOn(llmService, 'buildContext')
-        .mockResolvedValue(createContextWithHealthData());
-      
-      // Mock the constructPrompt method
+      // Mock the buildPrompt method
       const mockPrompt = [
         { role: ChatRole.SYSTEM, content: 'You are a health advisor.' },
         { role: ChatRole.SYSTEM, content: createContextWithHealthData() },
         { role: ChatRole.USER, content: 'What diet should I follow for my headaches?' }
       ];
-      jest.spyOn(llmService, 'constructPrompt')
-        .mockReturnValue(mockPrompt);
+      jest.spyOn(llmService, 'buildPrompt')
+        .mockResolvedValue(mockPrompt);
       
       // Mock the sendRequest method
       const mockLLMResponse = {
@@ -364,26 +458,22 @@ IMPORTANT: This information is for general wellness purposes only and not a subs
       expect(response).toBeDefined();
       expect(response.content).toContain(HEALTH_CONTEXT_MOCK_RESPONSE);
       expect(response.content).toContain(DISCLAIMER_TEXT);
-      expect(llmService.buildContext).toHaveBeenCalledWith(mockUserId, mockConversationId);
-      expect(llmService.constructPrompt).toHaveBeenCalledWith(message, expect.any(String));
-      expect(llmService.sendRequest).toHaveBeenCalledWith(mockPrompt, mockUserId);
+      expect(llmService.buildPrompt).toHaveBeenCalledWith(message, mockUserId, mockConversationId);
+      expect(llmService.sendRequest)
+        .toHaveBeenCalledWith(mockPrompt, mockUserId, expect.objectContaining({ toolChoice: 'auto' }));
       expect(llmService.processResponse).toHaveBeenCalledWith(mockLLMResponse);
       expect(llmService.addHealthDisclaimer).toHaveBeenCalledWith(HEALTH_CONTEXT_MOCK_RESPONSE);
     });
     
     it('should handle errors and return fallback response', async () => {
-      // Mock the buildContext method
-      jest.spyOn(llmService, 'buildContext')
-        .mockResolvedValue(createContextWithHealthData());
-      
-      // Mock the constructPrompt method
+      // Mock the buildPrompt method
       const mockPrompt = [
         { role: ChatRole.SYSTEM, content: 'You are a health advisor.' },
         { role: ChatRole.SYSTEM, content: createContextWithHealthData() },
         { role: ChatRole.USER, content: 'What diet should I follow for my headaches?' }
       ];
-      jest.spyOn(llmService, 'constructPrompt')
-        .mockReturnValue(mockPrompt);
+      jest.spyOn(llmService, 'buildPrompt')
+        .mockResolvedValue(mockPrompt);
       
       // Mock the sendRequest method to throw ServiceUnavailableError
       jest.spyOn(llmService, 'sendRequest')
@@ -399,8 +489,266 @@ IMPORTANT: This information is for general wellness purposes only and not a subs
       expect(response.content).toContain('I apologize');
       expect(response.content).toContain('technical difficulties');
       expect(response.metadata).toBeDefined();
-      expect(response.metadata.fallback).toBe(true);
-      expect(response.metadata.processedAt).toBeDefined();
+      expect(metadataOf(response).fallback).toBe(true);
+      expect(metadataOf(response).processedAt).toBeDefined();
+    });
+    
+    // Response of the OpenAI API with a final answer
+    const completion = (content: string, usage?: Record<string, number>) => ({
+      model: 'gpt-3.5-turbo',
+      choices: [{ message: { role: 'assistant', content }, finish_reason: 'stop' }],
+      usage
+    });
+    
+    it('should run the tools the LLM calls and answer with their results', async () => {
+      jest.spyOn(llmService, 'buildPrompt')
+        .mockResolvedValue([{ role: ChatRole.USER, content: 'How has my LDL changed?' }]);
+      
+      const usage = { prompt_tokens: 100, completion_tokens: 20, total_tokens: 120 };
+      const trend = { analyte: 'LDL Cholesterol', count: 2, measurements: [{ date: '2024-03-01', value: 118 }] };
+      jest.spyOn(ToolRegistry.prototype, 'execute')
+        .mockResolvedValue(trend);
+      jest.spyOn(llmService, 'sendRequest')
+        .mockResolvedValueOnce({
+          model: 'gpt-3.5-turbo',
+          choices: [{
+            message: {
+              role: 'assistant',
+              content: null,
+              tool_calls: [{
+                id: 'call_1',
+                type: 'function',
+                function: { name: 'get_lab_trend', arguments: '{"analyte":"LDL"}' }
+              }]
+            },
+            finish_reason: 'tool_calls'
+          }],
+          usage
+        })
+        .mockResolvedValueOnce(completion('Your LDL went down from 142 to 118 mg/dL.', usage));
+      
+      const response = await llmService.sendMessage('How has my LDL changed?', mockUserId);
+      
+      expect(ToolRegistry.prototype.execute).toHaveBeenCalledWith(
+        { id: 'call_1', name: 'get_lab_trend', arguments: { analyte: 'LDL' } },
+        mockUserId
+      );
+      const [prompt] = (llmService.sendRequest as jest.Mock).mock.calls[1];
+      expect(prompt.slice(-2)).toEqual([
+        {
+          role: ChatRole.ASSISTANT,
+          content: '',
+          toolCalls: [{ id: 'call_1', name: 'get_lab_trend', arguments: { analyte: 'LDL' } }]
+        },
+        { role: ChatRole.TOOL, content: JSON.stringify(trend), toolCallId: 'call_1', name: 'get_lab_trend' }
+      ]);
+      expect(response.content).toContain('Your LDL went down');
+      expect(metadataOf(response).toolCalls).toEqual([
+        expect.objectContaining({ id: 'call_1', name: 'get_lab_trend', iteration: 1, result: trend })
+      ]);
+      expect(metadataOf(response).tokenUsage).toEqual({ prompt_tokens: 200, completion_tokens: 40, total_tokens: 240 });
+    });
+    
+    it('should answer failed tool calls with their error and stop offering tools after the last round', async () => {
+      const { maxIterations } = llmConfig.tools;
+      llmConfig.tools.maxIterations = 1;
+      
+      try {
+        jest.spyOn(llmService, 'buildPrompt')
+          .mockResolvedValue([{ role: ChatRole.USER, content: 'Did I log any headaches?' }]);
+        jest.spyOn(llmService, 'sendRequest')
+          .mockResolvedValueOnce({
+            choices: [{
+              message: {
+                role: 'assistant',
+                content: 'Let me check.',
+                tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'unknown_tool', arguments: '{}' } }]
+              }
+            }]
+          })
+          .mockResolvedValueOnce(completion('I could not find any headaches in your history.'));
+        
+        const response = await llmService.sendMessage('Did I log any headaches?', mockUserId);
+        
+        const calls = (llmService.sendRequest as jest.Mock).mock.calls;
+        expect(calls).toHaveLength(2);
+        expect(calls[0][2].toolChoice).toBe('auto');
+        expect(calls[1][2].toolChoice).toBe('none');
+        expect(calls[1][0][calls[1][0].length - 1].content)
+          .toBe(JSON.stringify({ error: 'Unknown tool: unknown_tool' }));
+        expect(metadataOf(response).toolCalls).toEqual([
+          expect.objectContaining({ name: 'unknown_tool', error: 'Unknown tool: unknown_tool' })
+        ]);
+      } finally {
+        llmConfig.tools.maxIterations = maxIterations;
+      }
+    });
+  });
+
+  describe('streamMessage', () => {
+    it('should relay filtered deltas and finish with the disclaimer', async () => {
+      jest.spyOn(llmService, 'buildPrompt')
+        .mockResolvedValue([
+          { role: ChatRole.SYSTEM, content: createContextWithHealthData() },
+          { role: ChatRole.USER, content: 'What can I do about headaches?' }
+        ]);
+      
+      // Split a filtered phrase across deltas to exercise the incremental filter
+      jest.spyOn(llmService, 'streamRequest')
+        .mockImplementation(async (messages, userId, onDelta) => {
+          ['Staying hydrated helps. You sho', 'uld', ' take', ' breaks and rest well.'].forEach(onDelta);
+          return { model: 'gpt-3.5-turbo', usage: { prompt_tokens: 30, completion_tokens: 12, total_tokens: 42 } };
+        });
+      
+      const deltas: string[] = [];
+      const message = 'What can I do about headaches?';
+      const response = await llmService.streamMessage(
+        message,
+        mockUserId,
+        (delta) => deltas.push(delta),
+        mockConversationId
+      );
+      
+      expect(deltas.length).toBeGreaterThan(1);
+      expect(deltas.join('')).toBe(response.content);
+      expect(response.content).not.toContain('should take');
+      expect(response.content).toContain('might consider discussing with your doctor breaks');
+      const disclaimer = (llmService as any).systemPrompts.disclaimer;
+      expect(response.content).toContain(disclaimer);
+      expect(deltas[deltas.length - 1]).toContain(disclaimer);
+      expect(metadataOf(response).model).toBe('gpt-3.5-turbo');
+      expect(metadataOf(response).tokenUsage).toEqual({ prompt_tokens: 30, completion_tokens: 12, total_tokens: 42 });
+      expect(metadataOf(response).streamed).toBe(true);
+    });
+    
+    it('should stream the answer written after the tools the LLM calls', async () => {
+      jest.spyOn(llmService, 'buildPrompt')
+        .mockResolvedValue([{ role: ChatRole.USER, content: 'How often do I get headaches?' }]);
+      
+      const timeline = { total: 1, symptoms: [{ date: '2024-03-01T08:00:00.000Z', description: 'Headache' }] };
+      jest.spyOn(ToolRegistry.prototype, 'execute')
+        .mockResolvedValue(timeline);
+      jest.spyOn(llmService, 'streamRequest')
+        .mockImplementationOnce(async (messages, userId, onDelta) => {
+          onDelta('Let me look at your symptoms.');
+          return {
+            model: 'gpt-3.5-turbo',
+            toolCalls: [{ id: 'call_1', name: 'get_symptom_timeline', arguments: { query: 'headache' } }]
+          };
+        })
+        .mockImplementationOnce(async (messages, userId, onDelta) => {
+          onDelta('You logged one headache this month.');
+          return { model: 'gpt-3.5-turbo' };
+        });
+      
+      const deltas: string[] = [];
+      const response = await llmService.streamMessage(
+        'How often do I get headaches?',
+        mockUserId,
+        (delta) => deltas.push(delta)
+      );
+      
+      expect(deltas.join('')).toBe(response.content);
+      expect(response.content)
+        .toContain('Let me look at your symptoms.\n\nYou logged one headache this month.');
+      expect(metadataOf(response).toolCalls).toEqual([
+        expect.objectContaining({ id: 'call_1', name: 'get_symptom_timeline', result: timeline })
+      ]);
+    });
+    
+    it('should relay a fallback response when the LLM is unavailable before streaming', async () => {
+      jest.spyOn(llmService, 'buildPrompt')
+        .mockResolvedValue([]);
+      
+      jest.spyOn(llmService, 'streamRequest')
+        .mockRejectedValue(new ServiceUnavailableError(
+          'Unable to communicate with LLM service after multiple attempts',
+          'LLM Provider'
+        ));
+      
+      const deltas: string[] = [];
+      const response = await llmService.streamMessage(
+        'What diet should I follow?',
+        mockUserId,
+        (delta) => deltas.push(delta)
+      );
+      
+      expect(metadataOf(response).fallback).toBe(true);
+      expect(deltas).toEqual([response.content]);
+    });
+    
+    it('should rethrow errors once part of the response has been relayed', async () => {
+      jest.spyOn(llmService, 'buildPrompt')
+        .mockResolvedValue([]);
+      
+      jest.spyOn(llmService, 'streamRequest')
+        .mockImplementation(async (messages, userId, onDelta) => {
+          onDelta('Regular exercise can improve sleep quality and ');
+          throw new ServiceUnavailableError('Stream interrupted', 'LLM Provider');
+        });
+      
+      await expect(llmService.streamMessage('How can I sleep better?', mockUserId, jest.fn()))
+        .rejects.toThrow(ServiceUnavailableError);
+    });
+  });
+
+  describe('checkProviderHealth', () => {
+    // Provider health is cached between calls, so each test starts well after the previous one
+    let now = Date.now() + 24 * 60 * 60 * 1000;
+
+    beforeEach(() => {
+      now += 60 * 60 * 1000;
+      jest.useFakeTimers({
+        now,
+        doNotFake: ['nextTick', 'setImmediate', 'setTimeout', 'clearTimeout', 'setInterval', 'clearInterval']
+      });
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should report the provider as available and reuse the result', async () => {
+      mockAxios.onGet().reply(200, { data: [] });
+
+      const health = await LLMService.checkProviderHealth();
+      await LLMService.checkProviderHealth();
+
+      expect(health).toMatchObject({
+        status: DependencyStatus.AVAILABLE,
+        provider: llmConfig.provider.type
+      });
+      expect(health.responseTime).toBeDefined();
+      expect(mockAxios.history.get).toHaveLength(1);
+    });
+
+    it('should report the provider as unavailable when the API key is rejected', async () => {
+      mockAxios.onGet().reply(401, { error: 'invalid_api_key' });
+
+      const health = await LLMService.checkProviderHealth();
+
+      expect(health.status).toBe(DependencyStatus.UNAVAILABLE);
+      expect(health.details).toBe('Provider rejected the API key');
+    });
+
+    it('should report the provider as unavailable when it cannot be reached', async () => {
+      mockAxios.onGet().networkError();
+
+      expect((await LLMService.checkProviderHealth()).status).toBe(DependencyStatus.UNAVAILABLE);
+    });
+
+    it('should report degraded while fallback responses were sent recently', async () => {
+      mockAxios.onGet().reply(200, { data: [] });
+      llmService.getFallbackResponse();
+
+      const health = await LLMService.checkProviderHealth();
+
+      expect(health.status).toBe(DependencyStatus.DEGRADED);
+      expect(health.lastFallbackAt).toBe(new Date(now).toISOString());
+
+      // Once the window has passed the provider is available again
+      jest.setSystemTime(now + 10 * 60 * 1000);
+      expect((await LLMService.checkProviderHealth()).status).toBe(DependencyStatus.AVAILABLE);
     });
   });
 });
\ No newline at end of file
@@ -0,0 +1,184 @@
+import { Types } from 'mongoose';
+import { createHealthToolRegistry, SearchHealthRecordsTool, ToolRegistry } from '../../../src/services/tools';
+import { HealthRepository } from '../../../src/repositories/health.repository';
+import {
+  HealthData,
+  HealthDataType,
+  InputSource,
+  MealType,
+  SymptomData,
+  SymptomSeverity
+} from '../../../src/types/health.types';
+import {
+  LabTrendToolResult,
+  LLMJsonObject,
+  MealSummaryToolResult,
+  SearchHealthRecordsToolResult,
+  SymptomTimelineToolResult
+} from '../../../src/types/chat.types';
+import { BadRequestError, ValidationError } from '../../../src/utils/error.util';
+
+describe('LLM tools', () => {
+  const userId = new Types.ObjectId().toString();
+
+  let healthRepository: jest.Mocked<HealthRepository>;
+  let registry: ToolRegistry;
+
+  // Runs a tool call as the LLM would make it
+  const call = <T extends LLMJsonObject>(name: string, args: LLMJsonObject = {}): Promise<T> =>
+    registry.execute({ id: 'call_1', name, arguments: args }, userId) as Promise<T>;
+
+  // Symptom records as stored, where optional details such as the duration may be missing
+  const createSymptomRecord = (
+    data: Partial<SymptomData>,
+    timestamp: string
+  ): HealthData & { _id: Types.ObjectId } => ({
+    _id: new Types.ObjectId(),
+    userId: new Types.ObjectId(userId),
+    type: HealthDataType.SYMPTOM,
+    timestamp: new Date(timestamp),
+    data: data as SymptomData,
+    fileIds: [],
+    metadata: { source: InputSource.TEXT, tags: [], location: {} }
+  });
+
+  beforeEach(() => {
+    healthRepository = {
+      findHealthDataByUserId: jest.fn().mockResolvedValue({ items: [], total: 0 }),
+      findAnalyteHistory: jest.fn().mockResolvedValue([]),
+      aggregateMealsPerDay: jest.fn().mockResolvedValue([])
+    } as unknown as jest.Mocked<HealthRepository>;
+    registry = createHealthToolRegistry(healthRepository);
+  });
+
+  describe('ToolRegistry', () => {
+    it('should describe each health tool for the provider', () => {
+      expect(registry.getDefinitions().map((tool) => tool.name)).toEqual([
+        'search_health_records',
+        'get_lab_trend',
+        'get_symptom_timeline',
+        'get_meal_summary'
+      ]);
+      registry.getDefinitions().forEach((tool) => {
+        expect(tool.description).toBeTruthy();
+        expect(tool.parameters.type).toBe('object');
+      });
+    });
+
+    it('should reject calls of unknown tools and invalid arguments', async () => {
+      await expect(call('delete_health_records')).rejects.toThrow(BadRequestError);
+      await expect(call('get_lab_trend')).rejects.toThrow(ValidationError);
+      await expect(call('get_meal_summary', { range: 'decade' })).rejects.toThrow(ValidationError);
+    });
+
+    it('should not register two tools with the same name', () => {
+      const tool = new SearchHealthRecordsTool(healthRepository);
+
+      expect(() => registry.register(tool)).toThrow('Tool already registered: search_health_records');
+    });
+  });
+
+  describe('search_health_records', () => {
+    it('should search the user\'s records and describe each match', async () => {
+      const symptom = createSymptomRecord(
+        { description: 'Throbbing headache', severity: SymptomSeverity.MODERATE },
+        '2024-03-01T08:00:00.000Z'
+      );
+      healthRepository.findHealthDataByUserId.mockResolvedValue({ items: [symptom], total: 1 });
+
+      const result = await call<SearchHealthRecordsToolResult>('search_health_records', {
+        query: 'headache',
+        types: [HealthDataType.SYMPTOM],
+        startDate: '2024-01-01'
+      });
+
+      expect(healthRepository.findHealthDataByUserId).toHaveBeenCalledWith(userId, {
+        search: 'headache',
+        types: [HealthDataType.SYMPTOM],
+        startDate: new Date('2024-01-01'),
+        limit: 10
+      });
+      expect(result.total).toBe(1);
+      expect(result.records).toEqual([{
+        id: symptom._id.toString(),
+        type: HealthDataType.SYMPTOM,
+        text: expect.stringContaining('Throbbing headache')
+      }]);
+    });
+  });
+
+  describe('get_lab_trend', () => {
+    it('should list measurements newest first with the change since the first', async () => {
+      healthRepository.findAnalyteHistory.mockResolvedValue([
+        {
+          healthDataId: 'a', name: 'LDL', testDate: new Date('2023-09-01'), testType: 'Lipid panel',
+          value: 142, unit: 'mg/dL', referenceHigh: 130, outOfRange: true
+        },
+        {
+          healthDataId: 'b', name: 'LDL', testDate: new Date('2024-03-01'), testType: 'Lipid panel',
+          value: 118, unit: 'mg/dL', referenceHigh: 130, outOfRange: false
+        }
+      ]);
+
+      const result = await call<LabTrendToolResult>('get_lab_trend', { analyte: 'ldl' });
+
+      expect(healthRepository.findAnalyteHistory)
+        .toHaveBeenCalledWith(userId, 'ldl-cholesterol', undefined, undefined);
+      expect(result.analyte).toBe('LDL Cholesterol');
+      expect(result.measurements.map((measurement) => measurement.date)).toEqual(['2024-03-01', '2023-09-01']);
+      expect(result.measurements[0]).not.toHaveProperty('healthDataId');
+      expect(result.change).toEqual({ from: 142, to: 118, difference: -24, unit: 'mg/dL' });
+    });
+  });
+
+  describe('get_symptom_timeline', () => {
+    it('should list matching symptoms newest first', async () => {
+      healthRepository.findHealthDataByUserId.mockResolvedValue({
+        items: [
+          createSymptomRecord(
+            { description: 'Headache', severity: SymptomSeverity.MILD },
+            '2024-01-10T08:00:00.000Z'
+          ),
+          createSymptomRecord(
+            { description: 'Headache', severity: SymptomSeverity.SEVERE, duration: '3 hours' },
+            '2024-02-10T08:00:00.000Z'
+          )
+        ],
+        total: 2
+      });
+
+      const result = await call<SymptomTimelineToolResult>('get_symptom_timeline', { query: 'headache' });
+
+      expect(healthRepository.findHealthDataByUserId).toHaveBeenCalledWith(userId, expect.objectContaining({
+        types: [HealthDataType.SYMPTOM],
+        search: 'headache'
+      }));
+      expect(result.symptoms.map((symptom) => symptom.severity)).toEqual(['severe', 'mild']);
+      expect(result.symptoms[0].duration).toBe('3 hours');
+      expect(result.symptoms[1]).not.toHaveProperty('duration');
+    });
+  });
+
+  describe('get_meal_summary', () => {
+    it('should count the meals of the range by type and day', async () => {
+      healthRepository.aggregateMealsPerDay.mockResolvedValue([
+        { date: '2024-03-01', mealType: MealType.BREAKFAST, count: 1 },
+        { date: '2024-03-01', mealType: MealType.LUNCH, count: 2 },
+        { date: '2024-03-02', mealType: MealType.BREAKFAST, count: 1 }
+      ]);
+
+      const result = await call<MealSummaryToolResult>('get_meal_summary', { range: 'month' });
+
+      const [, startDate, endDate, timezone] = healthRepository.aggregateMealsPerDay.mock.calls[0];
+      expect(endDate.getTime() - startDate.getTime()).toBe(30 * 24 * 60 * 60 * 1000);
+      expect(timezone).toBe('UTC');
+      expect(result).toEqual(expect.objectContaining({
+        range: 'month',
+        totalMeals: 4,
+        daysLogged: 2,
+        mealsByType: { [MealType.BREAKFAST]: 2, [MealType.LUNCH]: 2 },
+        recentMeals: []
+      }));
+    });
+  });
+});
@@ -0,0 +1,187 @@
+import { Types } from 'mongoose';
+import {
+  getLockoutDuration,
+  isLockedOut,
+  assertLoginAllowed,
+  registerFailedLogin,
+  clearFailedLogins
+} from '../../../src/services/login-lockout.service';
+import {
+  recordFailedLogin,
+  lockUserLogin,
+  resetFailedLogins
+} from '../../../src/repositories/user.repository';
+import {
+  findLoginAttemptByIp,
+  findLoginAttemptByEmail,
+  recordFailedLoginForIp,
+  recordFailedLoginForEmail,
+  lockIp,
+  lockEmail
+} from '../../../src/repositories/login-attempt.repository';
+import { AuthErrorType } from '../../../src/types/auth.types';
+import { UserDocument } from '../../../src/types/user.types';
+import { AccountLockedError } from '../../../src/utils/error.util';
+import { environment } from '../../../src/config/environment';
+
+jest.mock('../../../src/repositories/user.repository');
+jest.mock('../../../src/repositories/login-attempt.repository');
+
+describe('Login lockout service', () => {
+  const ip = '203.0.113.7';
+  const email = 'user@example.com';
+  const minute = 60 * 1000;
+
+  const createUser = (overrides: Partial<UserDocument> = {}): UserDocument => ({
+    _id: new Types.ObjectId(),
+    email,
+    failedLoginAttempts: 0,
+    lockoutCount: 0,
+    ...overrides
+  } as UserDocument);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    Object.assign(environment, {
+      LOGIN_MAX_FAILED_ATTEMPTS: 5,
+      LOGIN_MAX_FAILED_ATTEMPTS_PER_IP: 20,
+      LOGIN_FAILURE_WINDOW_MS: 15 * minute,
+      LOGIN_LOCKOUT_DURATION_MS: 30 * minute,
+      LOGIN_MAX_LOCKOUT_DURATION_MS: 24 * 60 * minute
+    });
+
+    (findLoginAttemptByIp as jest.Mock).mockResolvedValue(null);
+    (findLoginAttemptByEmail as jest.Mock).mockResolvedValue(null);
+    (recordFailedLoginForIp as jest.Mock).mockResolvedValue({ ip, failedLoginAttempts: 1, lockoutCount: 0 });
+    (recordFailedLoginForEmail as jest.Mock).mockResolvedValue({ email, failedLoginAttempts: 1, lockoutCount: 0 });
+  });
+
+  describe('getLockoutDuration', () => {
+    it('should double the lockout with every earlier lockout, up to the maximum', () => {
+      expect(getLockoutDuration(0)).toBe(30 * minute);
+      expect(getLockoutDuration(1)).toBe(60 * minute);
+      expect(getLockoutDuration(3)).toBe(240 * minute);
+      expect(getLockoutDuration(10)).toBe(24 * 60 * minute);
+    });
+  });
+
+  describe('isLockedOut', () => {
+    it('should only report lockouts that have not ended', () => {
+      expect(isLockedOut(null)).toBe(false);
+      expect(isLockedOut({ lockedUntil: new Date(Date.now() - minute) })).toBe(false);
+      expect(isLockedOut({ lockedUntil: new Date(Date.now() + minute) })).toBe(true);
+    });
+  });
+
+  describe('assertLoginAllowed', () => {
+    it('should refuse a locked account and report when the lockout ends', async () => {
+      const lockedUntil = new Date(Date.now() + 30 * minute);
+
+      const error = await assertLoginAllowed(email, createUser({ lockedUntil }), ip).catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(AccountLockedError);
+      expect((error as AccountLockedError).statusCode).toBe(429);
+      expect((error as AccountLockedError).errorCode).toBe(AuthErrorType.ACCOUNT_LOCKED);
+      expect((error as AccountLockedError).lockedUntil).toBe(lockedUntil);
+      expect((error as AccountLockedError).message).toContain('30 minutes');
+    });
+
+    it('should refuse logins from a locked IP address, even for unknown emails', async () => {
+      (findLoginAttemptByIp as jest.Mock).mockResolvedValue({ ip, lockedUntil: new Date(Date.now() + 2 * 60 * minute) });
+
+      await expect(assertLoginAllowed(email, null, ip))
+        .rejects.toThrow('from this network. Please try again in 2 hours');
+    });
+
+    it('should refuse a locked unknown email with the same error as a locked account', async () => {
+      const lockedUntil = new Date(Date.now() + 30 * minute);
+      (findLoginAttemptByEmail as jest.Mock).mockResolvedValue({ email, lockedUntil });
+
+      const unknownError = await assertLoginAllowed(' User@Example.com ', null, ip).catch((e: unknown) => e);
+      const accountError = await assertLoginAllowed(email, createUser({ lockedUntil }), ip).catch((e: unknown) => e);
+
+      expect(findLoginAttemptByEmail).toHaveBeenCalledWith(email);
+      expect(unknownError).toBeInstanceOf(AccountLockedError);
+      expect((unknownError as AccountLockedError).message).toBe((accountError as AccountLockedError).message);
+      expect((unknownError as AccountLockedError).lockedUntil).toBe(lockedUntil);
+    });
+
+    it('should allow logins once the lockout has ended', async () => {
+      await expect(assertLoginAllowed(email, createUser({ lockedUntil: new Date(Date.now() - minute) }), ip))
+        .resolves.toBeUndefined();
+    });
+  });
+
+  describe('registerFailedLogin', () => {
+    it('should count the failure for the account and the IP address', async () => {
+      const user = createUser();
+      (recordFailedLogin as jest.Mock).mockResolvedValue({ ...user, failedLoginAttempts: 2 });
+
+      await registerFailedLogin(email, user, ip);
+
+      expect(recordFailedLogin).toHaveBeenCalledWith(user._id, expect.any(Date));
+      expect(recordFailedLoginForEmail).not.toHaveBeenCalled();
+      expect(recordFailedLoginForIp).toHaveBeenCalledWith(ip, expect.any(Date), expect.any(Date));
+      expect(lockUserLogin).not.toHaveBeenCalled();
+      expect(lockIp).not.toHaveBeenCalled();
+    });
+
+    it('should lock the account on reaching the limit, for longer after earlier lockouts', async () => {
+      const user = createUser();
+      (recordFailedLogin as jest.Mock).mockResolvedValue({ ...user, failedLoginAttempts: 5, lockoutCount: 2 });
+      const before = Date.now();
+
+      const error = await registerFailedLogin(email, user, ip).catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(AccountLockedError);
+      const lockedUntil = (lockUserLogin as jest.Mock).mock.calls[0][1] as Date;
+      expect(lockUserLogin).toHaveBeenCalledWith(user._id, lockedUntil);
+      expect(lockedUntil.getTime()).toBeGreaterThanOrEqual(before + 120 * minute);
+      expect((error as AccountLockedError).lockedUntil).toBe(lockedUntil);
+    });
+
+    it('should lock the IP address on reaching the limit for addresses', async () => {
+      (recordFailedLoginForIp as jest.Mock).mockResolvedValue({ ip, failedLoginAttempts: 20, lockoutCount: 0 });
+
+      await expect(registerFailedLogin(email, null, ip)).rejects.toBeInstanceOf(AccountLockedError);
+
+      expect(recordFailedLogin).not.toHaveBeenCalled();
+      expect(lockIp).toHaveBeenCalledWith(ip, expect.any(Date), expect.any(Date));
+    });
+
+    it('should lock an unknown email like an account, with the same error', async () => {
+      (recordFailedLoginForEmail as jest.Mock).mockResolvedValue({ email, failedLoginAttempts: 5, lockoutCount: 2 });
+      const user = createUser();
+      (recordFailedLogin as jest.Mock).mockResolvedValue({ ...user, failedLoginAttempts: 5, lockoutCount: 2 });
+      // Both logins fail at the same moment, so that equal lockouts end at the same time
+      const now = jest.spyOn(Date, 'now').mockReturnValue(Date.parse('2026-10-19T12:00:00.000Z'));
+
+      const unknownError = await registerFailedLogin('User@Example.com', null, ip).catch((e: unknown) => e);
+      const accountError = await registerFailedLogin(email, user, ip).catch((e: unknown) => e);
+      now.mockRestore();
+
+      expect(recordFailedLoginForEmail).toHaveBeenCalledWith(email, expect.any(Date), expect.any(Date));
+      const lockedUntil = (lockEmail as jest.Mock).mock.calls[0][1] as Date;
+      expect(lockEmail).toHaveBeenCalledWith(email, lockedUntil, expect.any(Date));
+      expect(lockedUntil).toEqual((lockUserLogin as jest.Mock).mock.calls[0][1]);
+      expect(unknownError).toBeInstanceOf(AccountLockedError);
+      expect((unknownError as AccountLockedError).message).toBe((accountError as AccountLockedError).message);
+    });
+  });
+
+  describe('clearFailedLogins', () => {
+    it('should clear the counters of an account with failed logins', async () => {
+      const user = createUser({ failedLoginAttempts: 3 });
+
+      await clearFailedLogins(user);
+
+      expect(resetFailedLogins).toHaveBeenCalledWith(user._id);
+    });
+
+    it('should not write anything when there is nothing to clear', async () => {
+      await clearFailedLogins(createUser());
+
+      expect(resetFailedLogins).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,114 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  ConsoleMailTransport,
+  createMailTransport,
+  FileMailTransport,
+  SmtpMailTransport
+} from '../../../src/services/mail';
+import { MailService } from '../../../src/services/mail.service';
+import { environment } from '../../../src/config/environment';
+import logger from '../../../src/config/logger';
+import { MailTransport, MailTransportType } from '../../../src/types/mail.types';
+import { ServiceUnavailableError } from '../../../src/utils/error.util';
+
+describe('Mail', () => {
+  const message = {
+    to: 'user@example.com',
+    subject: 'Reset your Health Advisor password',
+    text: 'Your reset code is: a1b2c3'
+  };
+
+  describe('createMailTransport', () => {
+    it('should create the transport for each type', () => {
+      expect(createMailTransport(MailTransportType.CONSOLE)).toBeInstanceOf(ConsoleMailTransport);
+      expect(createMailTransport(MailTransportType.FILE)).toBeInstanceOf(FileMailTransport);
+      expect(createMailTransport(MailTransportType.SMTP)).toBeInstanceOf(SmtpMailTransport);
+    });
+
+    it('should throw for unsupported transports', () => {
+      expect(() => createMailTransport('pigeon' as MailTransportType))
+        .toThrow('Unsupported mail transport: pigeon');
+    });
+  });
+
+  describe('ConsoleMailTransport', () => {
+    it('should log the recipient and subject but not the body', async () => {
+      const info = jest.spyOn(logger, 'info').mockImplementation(() => logger);
+
+      await new ConsoleMailTransport().send({ ...message, from: 'Health Advisor <noreply@example.com>' });
+
+      const logged = info.mock.calls.map(([entry]) => String(entry)).join('\n');
+      expect(logged).toContain('user@example.com');
+      expect(logged).toContain('Reset your Health Advisor password');
+      expect(logged).not.toContain('a1b2c3');
+      info.mockRestore();
+    });
+  });
+
+  describe('FileMailTransport', () => {
+    let directory: string;
+
+    beforeEach(async () => {
+      directory = await fs.mkdtemp(path.join(os.tmpdir(), 'mail-'));
+    });
+
+    afterEach(async () => {
+      await fs.rm(directory, { recursive: true, force: true });
+    });
+
+    it('should write each email to its own .eml file', async () => {
+      const transport = new FileMailTransport(path.join(directory, 'outbox'));
+
+      await transport.send({ ...message, from: 'Health Advisor <noreply@example.com>' });
+
+      const files = await fs.readdir(path.join(directory, 'outbox'));
+      expect(files).toHaveLength(1);
+      expect(files[0]).toMatch(/\.eml$/);
+
+      const content = await fs.readFile(path.join(directory, 'outbox', files[0]), 'utf8');
+      expect(content).toContain('To: user@example.com');
+      expect(content).toContain('Subject: Reset your Health Advisor password');
+      expect(content).toContain('Your reset code is: a1b2c3');
+    });
+  });
+
+  describe('MailService', () => {
+    it('should send the email from the configured address', async () => {
+      const transport: MailTransport = {
+        type: MailTransportType.CONSOLE,
+        send: jest.fn().mockResolvedValue(undefined)
+      };
+
+      await new MailService(transport).send(message);
+
+      expect(transport.send).toHaveBeenCalledWith({ ...message, from: environment.EMAIL_FROM });
+    });
+
+    it('should report transport failures as service unavailable', async () => {
+      const transport: MailTransport = {
+        type: MailTransportType.SMTP,
+        send: jest.fn().mockRejectedValue(new Error('Connection refused'))
+      };
+
+      await expect(new MailService(transport).send(message)).rejects.toBeInstanceOf(ServiceUnavailableError);
+    });
+
+    it('should refuse to send through anything but SMTP in production', () => {
+      const { NODE_ENV, EMAIL_TRANSPORT } = environment;
+      environment.NODE_ENV = 'production';
+
+      try {
+        environment.EMAIL_TRANSPORT = 'console';
+        expect(() => new MailService()).toThrow('EMAIL_TRANSPORT must be smtp in production');
+
+        environment.EMAIL_TRANSPORT = 'smtp';
+        expect(() => new MailService()).not.toThrow();
+      } finally {
+        environment.NODE_ENV = NODE_ENV;
+        environment.EMAIL_TRANSPORT = EMAIL_TRANSPORT;
+      }
+    });
+  });
+});
@@ -0,0 +1,128 @@
+import { execFile } from 'child_process';
+import { promises as fs } from 'fs';
+import {
+  createTranscriptionEngine,
+  normalizeTranscript,
+  StubTranscriptionEngine,
+  WhisperCppEngine
+} from '../../../src/services/transcription';
+import { TranscriptionService } from '../../../src/services/transcription.service';
+import { TranscriptionEngine, TranscriptionEngineType } from '../../../src/types/health.types';
+import { ServiceUnavailableError } from '../../../src/utils/error.util';
+
+jest.mock('child_process', () => ({ execFile: jest.fn() }));
+
+type ExecFileCallback = (error: Error | null, stdout: string, stderr: string) => void;
+
+describe('Transcription', () => {
+  const execFileMock = execFile as unknown as jest.Mock;
+
+  const settings = {
+    binaryPath: '/usr/local/bin/whisper-cli',
+    modelPath: '/models/ggml-base.en.bin',
+    ffmpegPath: 'ffmpeg',
+    language: 'en',
+    timeout: 5000
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('createTranscriptionEngine', () => {
+    it('should create the engine for each type', () => {
+      expect(createTranscriptionEngine(TranscriptionEngineType.WHISPER_CPP)).toBeInstanceOf(WhisperCppEngine);
+      expect(createTranscriptionEngine(TranscriptionEngineType.STUB)).toBeInstanceOf(StubTranscriptionEngine);
+    });
+
+    it('should throw for unsupported engines', () => {
+      expect(() => createTranscriptionEngine('cloud' as TranscriptionEngineType))
+        .toThrow('Unsupported transcription engine: cloud');
+    });
+  });
+
+  describe('StubTranscriptionEngine', () => {
+    it('should return an empty transcript', async () => {
+      await expect(new StubTranscriptionEngine().transcribe()).resolves.toBe('');
+    });
+  });
+
+  describe('WhisperCppEngine', () => {
+    it('should convert the recording to WAV and transcribe it', async () => {
+      execFileMock.mockImplementation((file: string, args: string[], options: object, callback: ExecFileCallback) => {
+        callback(null, file === 'ffmpeg' ? '' : ' I have had a headache\n since lunch. [BLANK_AUDIO]\n', '');
+      });
+
+      const transcript = await new WhisperCppEngine(settings).transcribe(Buffer.from('audio'));
+
+      expect(transcript).toBe('I have had a headache since lunch.');
+      expect(execFileMock).toHaveBeenCalledTimes(2);
+
+      const [ffmpegFile, ffmpegArgs] = execFileMock.mock.calls[0];
+      expect(ffmpegFile).toBe('ffmpeg');
+      expect(ffmpegArgs).toEqual(expect.arrayContaining(['-ar', '16000', '-ac', '1']));
+
+      const [whisperFile, whisperArgs, whisperOptions] = execFileMock.mock.calls[1];
+      const wavPath = ffmpegArgs[ffmpegArgs.length - 1] as string;
+      expect(whisperFile).toBe(settings.binaryPath);
+      expect(whisperArgs).toEqual([
+        '--model', settings.modelPath,
+        '--file', wavPath,
+        '--language', 'en',
+        '--no-timestamps',
+        '--no-prints'
+      ]);
+      expect(whisperOptions).toEqual(expect.objectContaining({ timeout: settings.timeout }));
+
+      // The temporary recording is removed afterwards
+      await expect(fs.access(wavPath.replace(/recording\.wav$/, ''))).rejects.toThrow();
+    });
+
+    it('should report the command that failed', async () => {
+      execFileMock.mockImplementation((file: string, args: string[], options: object, callback: ExecFileCallback) => {
+        callback(new Error('Command failed'), '', 'Invalid data found when processing input');
+      });
+
+      await expect(new WhisperCppEngine(settings).transcribe(Buffer.from('audio')))
+        .rejects.toThrow('ffmpeg failed (Command failed): Invalid data found when processing input');
+    });
+
+    it('should require a model', async () => {
+      await expect(new WhisperCppEngine({ ...settings, modelPath: '' }).transcribe(Buffer.from('audio')))
+        .rejects.toThrow('No whisper.cpp model is configured');
+      expect(execFileMock).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('normalizeTranscript', () => {
+    it('should drop non-speech annotations and collapse whitespace', () => {
+      expect(normalizeTranscript('[MUSIC]\n  My stomach hurts\n\n')).toBe('My stomach hurts');
+      expect(normalizeTranscript(' [BLANK_AUDIO]\n')).toBe('');
+    });
+  });
+
+  describe('TranscriptionService', () => {
+    it('should transcribe with the given engine', async () => {
+      const transcribe = jest.fn().mockResolvedValue('Sore throat');
+      const engine: TranscriptionEngine = { type: TranscriptionEngineType.WHISPER_CPP, transcribe };
+      const service = new TranscriptionService(engine);
+
+      await expect(service.transcribe(Buffer.from('audio'), 'audio/wav')).resolves.toBe('Sore throat');
+      expect(transcribe).toHaveBeenCalledWith(Buffer.from('audio'), 'audio/wav');
+      expect(service.engineType).toBe(TranscriptionEngineType.WHISPER_CPP);
+    });
+
+    it('should throw ServiceUnavailableError when the engine fails', async () => {
+      const service = new TranscriptionService({
+        type: TranscriptionEngineType.WHISPER_CPP,
+        transcribe: jest.fn().mockRejectedValue(new Error('whisper-cli failed'))
+      });
+
+      await expect(service.transcribe(Buffer.from('audio'), 'audio/wav')).rejects.toThrow(ServiceUnavailableError);
+    });
+
+    it('should use the configured engine by default', () => {
+      expect(new TranscriptionService().engineType).toBe(TranscriptionEngineType.STUB);
+    });
+  });
+});
@@ -0,0 +1,178 @@
+import { Types } from 'mongoose';
+import {
+  setupTwoFactor,
+  enableTwoFactor,
+  disableTwoFactor,
+  verifyTwoFactorCode
+} from '../../../src/services/two-factor.service';
+import {
+  getUserById,
+  setTwoFactorSecret,
+  enableTwoFactorForUser,
+  recordTwoFactorStep,
+  consumeRecoveryCode,
+  disableTwoFactorForUser
+} from '../../../src/repositories/user.repository';
+import { encryptSecret, decryptSecret, hashToken } from '../../../src/utils/encryption.util';
+import { generateTotp, generateTotpSecret, getTimeStep } from '../../../src/utils/totp.util';
+import { BadRequestError, ConflictError } from '../../../src/utils/error.util';
+import { UserDocument } from '../../../src/types/user.types';
+import { environment } from '../../../src/config/environment';
+
+jest.mock('../../../src/repositories/user.repository');
+
+describe('Two-factor service', () => {
+  const secret = generateTotpSecret();
+
+  const createUser = (overrides: Partial<UserDocument> = {}): UserDocument => ({
+    _id: new Types.ObjectId(),
+    email: 'user@example.com',
+    twoFactorEnabled: false,
+    twoFactorRecoveryCodes: [],
+    comparePassword: jest.fn().mockImplementation((password: string) => Promise.resolve(password === 'Password1!')),
+    ...overrides
+  } as unknown as UserDocument);
+
+  const createEnrolledUser = (overrides: Partial<UserDocument> = {}): UserDocument => createUser({
+    twoFactorEnabled: true,
+    twoFactorSecret: encryptSecret(secret),
+    twoFactorRecoveryCodes: [hashToken('3f9a2c81d0')],
+    ...overrides
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (recordTwoFactorStep as jest.Mock).mockResolvedValue(true);
+    (consumeRecoveryCode as jest.Mock).mockResolvedValue(true);
+  });
+
+  describe('setupTwoFactor', () => {
+    it('should store an encrypted secret and return it with its QR code', async () => {
+      const user = createUser();
+      (getUserById as jest.Mock).mockResolvedValue(user);
+
+      const result = await setupTwoFactor(user._id.toString());
+
+      const storedSecret = (setTwoFactorSecret as jest.Mock).mock.calls[0][1] as string;
+      expect(setTwoFactorSecret).toHaveBeenCalledWith(user._id, storedSecret);
+      expect(storedSecret).not.toContain(result.secret);
+      expect(decryptSecret(storedSecret)).toBe(result.secret);
+      expect(result.otpauthUrl).toContain(`secret=${result.secret}`);
+      expect(result.otpauthUrl).toContain('user%40example.com');
+      expect(result.qrCode).toMatch(/^data:image\/png;base64,/);
+    });
+
+    it('should refuse users who already have two-factor authentication', async () => {
+      (getUserById as jest.Mock).mockResolvedValue(createEnrolledUser());
+
+      await expect(setupTwoFactor('user-id')).rejects.toBeInstanceOf(ConflictError);
+      expect(setTwoFactorSecret).not.toHaveBeenCalled();
+    });
+
+    it('should not store secrets in production without SECRET_ENCRYPTION_KEY', async () => {
+      const { NODE_ENV, SECRET_ENCRYPTION_KEY } = environment;
+      environment.NODE_ENV = 'production';
+      environment.SECRET_ENCRYPTION_KEY = '';
+      (getUserById as jest.Mock).mockResolvedValue(createUser());
+
+      try {
+        await expect(setupTwoFactor('user-id')).rejects.toThrow('SECRET_ENCRYPTION_KEY must be set in production');
+        expect(setTwoFactorSecret).not.toHaveBeenCalled();
+      } finally {
+        environment.NODE_ENV = NODE_ENV;
+        environment.SECRET_ENCRYPTION_KEY = SECRET_ENCRYPTION_KEY;
+      }
+    });
+  });
+
+  describe('enableTwoFactor', () => {
+    it('should turn two-factor authentication on and store hashed recovery codes', async () => {
+      const user = createUser({ twoFactorSecret: encryptSecret(secret) });
+      (getUserById as jest.Mock).mockResolvedValue(user);
+
+      const { recoveryCodes } = await enableTwoFactor(user._id.toString(), generateTotp(secret));
+
+      expect(recoveryCodes).toHaveLength(10);
+      expect(recoveryCodes[0]).toMatch(/^[0-9a-f]{5}-[0-9a-f]{5}$/);
+      expect(enableTwoFactorForUser).toHaveBeenCalledWith(
+        user._id,
+        recoveryCodes.map((code) => hashToken(code.replace('-', ''))),
+        expect.any(Number)
+      );
+    });
+
+    it('should reject a wrong code', async () => {
+      (getUserById as jest.Mock).mockResolvedValue(createUser({ twoFactorSecret: encryptSecret(secret) }));
+
+      // The code of a time step well outside the accepted window
+      const error = await enableTwoFactor('user-id', generateTotp(secret, getTimeStep() - 10))
+        .catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(BadRequestError);
+      expect((error as BadRequestError).errorCode).toBe('INVALID_TWO_FACTOR_CODE');
+      expect(enableTwoFactorForUser).not.toHaveBeenCalled();
+    });
+
+    it('should require setup first', async () => {
+      (getUserById as jest.Mock).mockResolvedValue(createUser());
+
+      await expect(enableTwoFactor('user-id', '123456')).rejects.toThrow('Set up two-factor authentication');
+    });
+  });
+
+  describe('disableTwoFactor', () => {
+    it('should turn two-factor authentication off with the password and a code', async () => {
+      const user = createEnrolledUser();
+      (getUserById as jest.Mock).mockResolvedValue(user);
+
+      await disableTwoFactor(user._id.toString(), 'Password1!', generateTotp(secret));
+
+      expect(disableTwoFactorForUser).toHaveBeenCalledWith(user._id);
+    });
+
+    it('should reject a wrong password without a 401', async () => {
+      (getUserById as jest.Mock).mockResolvedValue(createEnrolledUser());
+
+      const error = await disableTwoFactor('user-id', 'Wrong1!', generateTotp(secret)).catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(BadRequestError);
+      expect((error as BadRequestError).errorCode).toBe('INVALID_PASSWORD');
+      expect(disableTwoFactorForUser).not.toHaveBeenCalled();
+    });
+
+    it('should reject a missing or used code', async () => {
+      (getUserById as jest.Mock).mockResolvedValue(createEnrolledUser());
+      (recordTwoFactorStep as jest.Mock).mockResolvedValueOnce(false);
+
+      await expect(disableTwoFactor('user-id', 'Password1!', generateTotp(secret)))
+        .rejects.toThrow('Invalid verification code');
+      expect(disableTwoFactorForUser).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('verifyTwoFactorCode', () => {
+    it('should accept an authenticator code once', async () => {
+      const user = createEnrolledUser();
+
+      await expect(verifyTwoFactorCode(user, generateTotp(secret))).resolves.toBe(true);
+      expect(recordTwoFactorStep).toHaveBeenCalledWith(user._id, expect.any(Number));
+
+      (recordTwoFactorStep as jest.Mock).mockResolvedValueOnce(false);
+      await expect(verifyTwoFactorCode(user, generateTotp(secret))).resolves.toBe(false);
+    });
+
+    it('should use up a recovery code, whatever its case and separators', async () => {
+      const user = createEnrolledUser();
+
+      await expect(verifyTwoFactorCode(user, ' 3F9A2-C81D0 ')).resolves.toBe(true);
+      expect(consumeRecoveryCode).toHaveBeenCalledWith(user._id, hashToken('3f9a2c81d0'));
+    });
+
+    it('should reject codes that are neither', async () => {
+      const user = createEnrolledUser();
+
+      await expect(verifyTwoFactorCode(user, 'not-a-code')).resolves.toBe(false);
+      expect(consumeRecoveryCode).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -1,8 +1,7 @@
-import jest from 'jest'; // ^29.5.0
-import { getUserProfile, formatUserProfile } from '../../../src/services/user.service';
-import { getUserById } from '../../../src/repositories/user.repository';
+import { getUserProfile, updateUserProfile, formatUserProfile } from '../../../src/services/user.service';
+import { getUserById, updateUserProfileById } from '../../../src/repositories/user.repository';
 import { NotFoundError } from '../../../src/utils/error.util';
-import { UserErrorType } from '../../../src/types/user.types';
+import { Sex, UnitsPreference, UserErrorType } from '../../../src/types/user.types';
 import { 
   mockUserId, 
   mockUserDocument,
@@ -63,6 +62,49 @@ describe('User Service', () => {
     });
   });
 
+  describe('updateUserProfile', () => {
+    it('should return the updated profile', async () => {
+      // Arrange
+      const profileData = {
+        displayName: 'Alex',
+        dateOfBirth: new Date('1990-04-12T00:00:00.000Z'),
+        sex: Sex.FEMALE,
+        allergies: ['Peanuts'],
+        unitsPreference: UnitsPreference.IMPERIAL
+      };
+      (updateUserProfileById as jest.Mock).mockResolvedValue(createMockUserDocument({
+        displayName: 'Alex',
+        dateOfBirth: new Date('1990-04-12T00:00:00.000Z'),
+        sex: Sex.FEMALE,
+        allergies: ['Peanuts'],
+        unitsPreference: UnitsPreference.IMPERIAL
+      }));
+
+      // Act
+      const result = await updateUserProfile(mockUserId, profileData);
+
+      // Assert
+      expect(updateUserProfileById).toHaveBeenCalledWith(mockUserId, profileData);
+      expect(result).toEqual(expect.objectContaining({
+        displayName: 'Alex',
+        dateOfBirth: '1990-04-12',
+        sex: Sex.FEMALE,
+        allergies: ['Peanuts'],
+        conditions: [],
+        unitsPreference: UnitsPreference.IMPERIAL
+      }));
+    });
+
+    it('should throw NotFoundError when the user does not exist', async () => {
+      // Arrange
+      (updateUserProfileById as jest.Mock).mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(updateUserProfile(mockUserId, { displayName: 'Alex' }))
+        .rejects.toThrow(new NotFoundError(`User with ID ${mockUserId} not found`, UserErrorType.USER_NOT_FOUND));
+    });
+  });
+
   describe('formatUserProfile', () => {
     it('should format user document into profile response', () => {
       // Act
@@ -72,7 +114,13 @@ describe('User Service', () => {
       expect(result).toEqual({
         id: mockUserDocument._id.toString(),
         email: mockUserDocument.email,
-        createdAt: mockUserDocument.createdAt.toISOString()
+        createdAt: mockUserDocument.createdAt.toISOString(),
+        conditions: [],
+        allergies: [],
+        medications: [],
+        dietaryPreferences: [],
+        unitsPreference: UnitsPreference.METRIC,
+        twoFactorEnabled: false
       });
       
       // Verify specific transformations
@@ -0,0 +1,67 @@
+import { Types } from 'mongoose';
+import { diffHealthData, getAuditContext } from '../../../src/utils/audit.util';
+import { HealthData, LabAnalyte, LabResultExtraction, SymptomSeverity } from '../../../src/types/health.types';
+import {
+  createMockLabResultData,
+  mockLabResultHealthData,
+  mockMealHealthData,
+  mockSymptomHealthData
+} from '../../mocks/health.mock';
+
+describe('getAuditContext', () => {
+  it('should take the user, IP address and user agent from the request', () => {
+    const req = {
+      user: { id: 'user-1', email: 'user@example.com' },
+      ip: '203.0.113.7',
+      get: jest.fn().mockReturnValue('x'.repeat(600))
+    };
+
+    expect(getAuditContext(req as any)).toEqual({ actorId: 'user-1', ip: '203.0.113.7', userAgent: 'x'.repeat(500) });
+    expect(req.get).toHaveBeenCalledWith('user-agent');
+  });
+});
+
+describe('diffHealthData', () => {
+  it('should return no changes for an unchanged record', () => {
+    expect(diffHealthData(mockMealHealthData, { ...mockMealHealthData })).toEqual([]);
+  });
+
+  it('should list changed fields, with values only for fields stored in plaintext', () => {
+    const fileId = new Types.ObjectId();
+    const after: HealthData = {
+      ...mockSymptomHealthData,
+      data: { ...mockSymptomHealthData.data, description: 'Worse headache', severity: SymptomSeverity.SEVERE },
+      metadata: { ...mockSymptomHealthData.metadata, tags: ['migraine'] },
+      fileIds: [...mockSymptomHealthData.fileIds, fileId]
+    };
+
+    expect(diffHealthData(mockSymptomHealthData, after)).toEqual([
+      {
+        field: 'fileIds',
+        before: mockSymptomHealthData.fileIds.map((id) => id.toString()),
+        after: [...mockSymptomHealthData.fileIds, fileId].map((id) => id.toString())
+      },
+      { field: 'data.description' },
+      { field: 'data.severity', before: SymptomSeverity.MODERATE, after: SymptomSeverity.SEVERE },
+      { field: 'metadata.tags' }
+    ]);
+  });
+
+  it('should report fields that were added or removed', () => {
+    const analytes: LabAnalyte[] = [{ name: 'Glucose', key: 'glucose', value: 85, unit: 'mg/dL', outOfRange: false }];
+    const extraction: LabResultExtraction = {
+      engine: 'tesseract',
+      fileId: mockLabResultHealthData.fileIds[0].toString(),
+      confidence: 0.92,
+      analyteCount: 1,
+      extractedAt: new Date('2023-05-15T10:20:00.000Z')
+    };
+    const before: HealthData = { ...mockLabResultHealthData, data: createMockLabResultData({ analytes }) };
+    const after: HealthData = { ...mockLabResultHealthData, data: createMockLabResultData({ extraction }) };
+
+    expect(diffHealthData(before, after)).toEqual([
+      { field: 'data.analytes' },
+      { field: 'data.extraction' }
+    ]);
+  });
+});
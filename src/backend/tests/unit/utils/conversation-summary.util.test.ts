@@ -0,0 +1,77 @@
+import { Types } from 'mongoose';
+import {
+  buildSummaryPrompt,
+  selectMessagesToSummarize,
+  selectSummaryBatch
+} from '../../../src/utils/conversation-summary.util';
+import { ChatMessage, ChatRole } from '../../../src/types/chat.types';
+
+// Creates a stored chat message of 350 characters, taking up 100 + 4 estimated tokens
+const createMessage = (role: ChatRole, label: string): ChatMessage => ({
+  _id: new Types.ObjectId(),
+  conversationId: new Types.ObjectId(),
+  userId: new Types.ObjectId(),
+  role,
+  content: label.padEnd(350, '.'),
+  timestamp: new Date(),
+  createdAt: new Date()
+});
+
+// Creates messages labelled 1 to count, oldest first
+const createMessages = (count: number): ChatMessage[] => Array.from({ length: count }, (_, index) =>
+  createMessage(index % 2 === 0 ? ChatRole.USER : ChatRole.ASSISTANT, `${index + 1}`));
+
+describe('buildSummaryPrompt', () => {
+  it('should ask to add a transcript of the messages to the current summary', () => {
+    const prompt = buildSummaryPrompt('The user reported headaches.', [
+      { ...createMessage(ChatRole.USER, ''), content: '  I also sleep badly ' },
+      { ...createMessage(ChatRole.ASSISTANT, ''), content: 'A regular bedtime can help.' },
+      { ...createMessage(ChatRole.SYSTEM, ''), content: 'Internal note' }
+    ]);
+
+    expect(prompt).toHaveLength(2);
+    expect(prompt[0].role).toBe(ChatRole.SYSTEM);
+    expect(prompt[0].content).toContain('running summary');
+    expect(prompt[1]).toEqual({
+      role: ChatRole.USER,
+      content: 'Current summary:\nThe user reported headaches.\n\n' +
+        'New messages:\nUser: I also sleep badly\nAdvisor: A regular bedtime can help.'
+    });
+  });
+
+  it('should start a summary when there is none yet', () => {
+    expect(buildSummaryPrompt('', [])[1].content).toContain('Current summary:\n(none yet)');
+  });
+});
+
+describe('selectMessagesToSummarize', () => {
+  it('should summarize nothing while the messages fit the budget', () => {
+    expect(selectMessagesToSummarize(createMessages(4), 416)).toEqual([]);
+  });
+
+  it('should summarize the oldest messages until the rest take up half the budget', () => {
+    const messages = createMessages(5);
+
+    expect(selectMessagesToSummarize(messages, 416)).toEqual(messages.slice(0, 3));
+  });
+
+  it('should always keep the newest message', () => {
+    const messages = createMessages(3);
+
+    expect(selectMessagesToSummarize(messages, 50)).toEqual(messages.slice(0, 2));
+  });
+});
+
+describe('selectSummaryBatch', () => {
+  it('should take the oldest messages within the budget', () => {
+    const messages = createMessages(4);
+
+    expect(selectSummaryBatch(messages, 250)).toEqual(messages.slice(0, 2));
+  });
+
+  it('should take at least one message', () => {
+    const messages = createMessages(2);
+
+    expect(selectSummaryBatch(messages, 10)).toEqual(messages.slice(0, 1));
+  });
+});
@@ -0,0 +1,80 @@
+import { Types } from 'mongoose';
+import {
+  buildTitlePrompt,
+  hasTopicDrifted,
+  normalizeGeneratedTitle,
+  MAX_GENERATED_TITLE_LENGTH
+} from '../../../src/utils/conversation-title.util';
+import { ChatMessage, ChatRole } from '../../../src/types/chat.types';
+
+// Creates a stored chat message
+const createMessage = (role: ChatRole, content: string): ChatMessage => ({
+  _id: new Types.ObjectId(),
+  conversationId: new Types.ObjectId(),
+  userId: new Types.ObjectId(),
+  role,
+  content,
+  timestamp: new Date(),
+  createdAt: new Date()
+});
+
+describe('buildTitlePrompt', () => {
+  it('should ask for a title of a transcript of the messages', () => {
+    const prompt = buildTitlePrompt([
+      createMessage(ChatRole.USER, 'I have been feeling\n\ntired a lot lately'),
+      createMessage(ChatRole.ASSISTANT, 'x'.repeat(800)),
+      createMessage(ChatRole.SYSTEM, 'Internal note')
+    ]);
+
+    expect(prompt).toHaveLength(2);
+    expect(prompt[0].role).toBe(ChatRole.SYSTEM);
+    expect(prompt[0].content).toContain('3 to 6 words');
+    expect(prompt[1]).toEqual({
+      role: ChatRole.USER,
+      content: `User: I have been feeling tired a lot lately\nAdvisor: ${'x'.repeat(500)}`
+    });
+  });
+});
+
+describe('normalizeGeneratedTitle', () => {
+  it('should remove quotes, prefixes and trailing punctuation', () => {
+    expect(normalizeGeneratedTitle('"Fatigue and iron levels."')).toBe('Fatigue and iron levels');
+    expect(normalizeGeneratedTitle('Title: **Low-carb meal ideas**\nHope this helps!')).toBe('Low-carb meal ideas');
+    expect(normalizeGeneratedTitle('  Sleep   and stress  ')).toBe('Sleep and stress');
+  });
+
+  it('should shorten long titles at a word boundary', () => {
+    const title = normalizeGeneratedTitle('Questions '.repeat(10));
+
+    expect(title).toBe('Questions Questions Questions Questions Questions Questions');
+    expect((title as string).length).toBeLessThanOrEqual(MAX_GENERATED_TITLE_LENGTH);
+  });
+
+  it('should return null when nothing usable was returned', () => {
+    expect(normalizeGeneratedTitle('')).toBeNull();
+    expect(normalizeGeneratedTitle('  "" ')).toBeNull();
+  });
+});
+
+describe('hasTopicDrifted', () => {
+  it('should keep a title while the user still mentions its topic', () => {
+    expect(hasTopicDrifted('Iron levels and fatigue', [
+      createMessage(ChatRole.USER, 'I still feel fatigued in the afternoon'),
+      createMessage(ChatRole.ASSISTANT, 'Sleep schedules can help.')
+    ])).toBe(false);
+  });
+
+  it('should report drift once only other topics are discussed', () => {
+    expect(hasTopicDrifted('Iron levels and fatigue', [
+      createMessage(ChatRole.USER, 'What is a good bedtime routine?'),
+      // Advisor replies are not considered, as they may touch on anything
+      createMessage(ChatRole.ASSISTANT, 'Low iron levels can also cause fatigue.'),
+      createMessage(ChatRole.USER, 'Should I stop using my phone before sleeping?')
+    ])).toBe(true);
+  });
+
+  it('should not report drift without anything to compare', () => {
+    expect(hasTopicDrifted('What is this', [createMessage(ChatRole.USER, 'Something else entirely')])).toBe(false);
+    expect(hasTopicDrifted('Iron levels', [createMessage(ChatRole.ASSISTANT, 'Sleep')])).toBe(false);
+  });
+});
@@ -0,0 +1,79 @@
+import {
+  buildHealthDataEmbeddingText,
+  cosineSimilarity,
+  decodeVector,
+  encodeVector,
+  rankByRelevance,
+  recencyWeight
+} from '../../../src/utils/embedding.util';
+import { mockLabResultHealthData, mockMealHealthData, mockSymptomHealthData } from '../../mocks/health.mock';
+
+const DAY_IN_MS = 24 * 60 * 60 * 1000;
+
+describe('buildHealthDataEmbeddingText', () => {
+  it('should describe each type of record with its date', () => {
+    expect(buildHealthDataEmbeddingText(mockMealHealthData))
+      .toBe('Meal (breakfast) on 2023-05-15: Oatmeal with berries and honey. Tags: health, testing.');
+    expect(buildHealthDataEmbeddingText(mockLabResultHealthData))
+      .toContain('Lab result Blood Test on 2023-05-15: cholesterol 180, hdl 60');
+    expect(buildHealthDataEmbeddingText(mockSymptomHealthData))
+      .toContain('Symptom (moderate, lasting 1 hour) on 2023-05-15: Headache after meals. I have been experiencing');
+  });
+});
+
+describe('encodeVector', () => {
+  it('should pack vectors as 32-bit floats', () => {
+    const encoded = encodeVector([0.5, -0.25, 1]);
+
+    expect(Buffer.from(encoded, 'base64')).toHaveLength(12);
+    expect(decodeVector(encoded)).toEqual([0.5, -0.25, 1]);
+  });
+});
+
+describe('cosineSimilarity', () => {
+  it('should compare the direction of vectors', () => {
+    expect(cosineSimilarity([1, 0], [2, 0])).toBeCloseTo(1);
+    expect(cosineSimilarity([1, 0], [0, 1])).toBe(0);
+    expect(cosineSimilarity([1, 0], [-1, 0])).toBeCloseTo(-1);
+  });
+
+  it('should not compare vectors of different models', () => {
+    expect(cosineSimilarity([1, 0], [1, 0, 0])).toBe(0);
+    expect(cosineSimilarity([0, 0], [1, 0])).toBe(0);
+  });
+});
+
+describe('recencyWeight', () => {
+  it('should halve the weight above the floor every half-life', () => {
+    const now = new Date('2024-01-01T00:00:00.000Z');
+
+    expect(recencyWeight(now, now, 180)).toBe(1);
+    expect(recencyWeight(new Date(now.getTime() - 180 * DAY_IN_MS), now, 180)).toBeCloseTo(0.75);
+    expect(recencyWeight(new Date(now.getTime() - 3650 * DAY_IN_MS), now, 180)).toBeCloseTo(0.5);
+  });
+});
+
+describe('rankByRelevance', () => {
+  const now = new Date('2024-01-01T00:00:00.000Z');
+  const daysAgo = (days: number): Date => new Date(now.getTime() - days * DAY_IN_MS);
+
+  it('should rank similar records first, preferring recent ones', () => {
+    const candidates = [
+      { id: 'old match', vector: [1, 0], timestamp: daysAgo(365) },
+      { id: 'unrelated', vector: [0, 1], timestamp: daysAgo(1) },
+      { id: 'recent match', vector: [1, 0], timestamp: daysAgo(7) },
+      { id: 'partial match', vector: [1, 1], timestamp: daysAgo(7) }
+    ];
+
+    const ranked = rankByRelevance([1, 0], candidates, 10, 180, now);
+
+    expect(ranked.map(({ candidate }) => candidate.id)).toEqual(['recent match', 'partial match', 'old match']);
+    expect(ranked[0].score).toBeGreaterThan(ranked[1].score);
+  });
+
+  it('should return at most the limit', () => {
+    const candidates = Array.from({ length: 5 }, (_, index) => ({ vector: [1, 0], timestamp: daysAgo(index) }));
+
+    expect(rankByRelevance([1, 0], candidates, 2, 180, now)).toHaveLength(2);
+  });
+});
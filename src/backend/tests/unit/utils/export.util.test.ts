@@ -0,0 +1,116 @@
+import { Types } from 'mongoose';
+import {
+  conversationToMarkdown,
+  formatCsvValue,
+  healthDataToCsv,
+  toArchiveFilename,
+  toCsv
+} from '../../../src/utils/export.util';
+import { ChatConversation, ChatMessage, ChatRole } from '../../../src/types/chat.types';
+import { HealthDataType, InputSource, MealType, SymptomSeverity } from '../../../src/types/health.types';
+
+describe('formatCsvValue', () => {
+  it('should quote values containing commas, quotes or line breaks', () => {
+    expect(formatCsvValue('plain')).toBe('plain');
+    expect(formatCsvValue('eggs, toast')).toBe('"eggs, toast"');
+    expect(formatCsvValue('a "big" lunch')).toBe('"a ""big"" lunch"');
+    expect(formatCsvValue('line one\nline two')).toBe('"line one\nline two"');
+  });
+
+  it('should write dates in ISO format, objects as JSON and leave missing values empty', () => {
+    expect(formatCsvValue(new Date('2023-05-15T08:30:00.000Z'))).toBe('2023-05-15T08:30:00.000Z');
+    expect(formatCsvValue({ ldl: 130 })).toBe('"{""ldl"":130}"');
+    expect(formatCsvValue(undefined)).toBe('');
+    expect(formatCsvValue(null)).toBe('');
+    expect(formatCsvValue(-4)).toBe('-4');
+  });
+
+  it('should stop spreadsheets from running text as a formula', () => {
+    expect(formatCsvValue('=HYPERLINK("http://example.com")')).toBe('"\'=HYPERLINK(""http://example.com"")"');
+    expect(formatCsvValue('-coffee')).toBe("'-coffee");
+  });
+});
+
+describe('toCsv', () => {
+  it('should write a header row followed by the rows', () => {
+    expect(toCsv(['a', 'b'], [[1, 'x'], [2, 'y, z']])).toBe('a,b\r\n1,x\r\n2,"y, z"');
+  });
+});
+
+describe('healthDataToCsv', () => {
+  const userId = new Types.ObjectId();
+  const fileId = new Types.ObjectId();
+
+  it('should write one row per record with the fields of its type', () => {
+    const csv = healthDataToCsv([
+      {
+        _id: new Types.ObjectId('64b7f0c2e4b0a1a2b3c4d5e6'),
+        userId,
+        type: HealthDataType.MEAL,
+        timestamp: new Date('2023-05-15T08:30:00.000Z'),
+        data: { description: 'Oatmeal, berries', mealType: MealType.BREAKFAST, imageUrl: '' },
+        fileIds: [fileId],
+        metadata: { source: InputSource.PHOTO, tags: ['breakfast', 'fiber'], location: {} }
+      },
+      {
+        userId,
+        type: HealthDataType.SYMPTOM,
+        timestamp: new Date('2023-05-16T14:00:00.000Z'),
+        data: {
+          description: 'Headache',
+          severity: SymptomSeverity.MILD,
+          duration: '2 hours',
+          audioUrl: '',
+          transcription: ''
+        },
+        fileIds: [],
+        metadata: { source: InputSource.TEXT, tags: [], location: {} }
+      }
+    ]);
+
+    const [header, meal, symptom] = csv.split('\r\n');
+    expect(header.split(',')).toContain('mealType');
+    expect(meal).toBe(
+      `64b7f0c2e4b0a1a2b3c4d5e6,meal,2023-05-15T08:30:00.000Z,photo,breakfast; fiber,breakfast,"Oatmeal, berries",,,,,,,,,${fileId.toString()}`
+    );
+    expect(symptom).toBe(',symptom,2023-05-16T14:00:00.000Z,text,,,Headache,mild,2 hours,,,,,,,');
+  });
+});
+
+describe('conversationToMarkdown', () => {
+  it('should write a heading per message with its sender and time', () => {
+    const conversation = {
+      _id: new Types.ObjectId(),
+      title: 'Cholesterol results',
+      startedAt: new Date('2023-05-15T10:00:00.000Z')
+    } as ChatConversation;
+    const messages = [
+      { role: ChatRole.USER, content: 'Is an LDL of 130 high?', timestamp: new Date('2023-05-15T10:00:00.000Z') },
+      { role: ChatRole.ASSISTANT, content: 'It is borderline high.\n', timestamp: new Date('2023-05-15T10:00:05.000Z') }
+    ] as ChatMessage[];
+
+    expect(conversationToMarkdown(conversation, messages)).toBe([
+      '# Cholesterol results',
+      '',
+      'Started 2023-05-15T10:00:00.000Z',
+      '',
+      '## You · 2023-05-15T10:00:00.000Z',
+      '',
+      'Is an LDL of 130 high?',
+      '',
+      '## Health Advisor · 2023-05-15T10:00:05.000Z',
+      '',
+      'It is borderline high.',
+      ''
+    ].join('\n'));
+  });
+});
+
+describe('toArchiveFilename', () => {
+  it('should remove path separators and unsafe characters', () => {
+    expect(toArchiveFilename('../../etc/passwd')).toBe('_.._etc_passwd');
+    expect(toArchiveFilename('Lab results: May 2023.jpg')).toBe('Lab-results_-May-2023.jpg');
+    expect(toArchiveFilename('???')).toBe('_');
+    expect(toArchiveFilename('')).toBe('file');
+  });
+});
@@ -0,0 +1,145 @@
+/**
+ * Unit tests for health data encryption utilities
+ *
+ * Checks that sensitive fields round-trip through encryption with their types intact,
+ * stay bound to the record they were encrypted for, and that blind indexes match equal
+ * values of the same user only.
+ */
+
+import crypto from 'crypto';
+import {
+  BlindIndexScope,
+  buildHealthDataBlindIndex,
+  computeBlindIndexes,
+  decryptJson,
+  encryptJson,
+  openHealthFields,
+  sealHealthFields
+} from '../../../src/utils/health-encryption.util';
+import { tokenizeSearchBigrams, tokenizeSearchText } from '../../../src/utils/search.util';
+import { InternalServerError } from '../../../src/utils/error.util';
+import { HealthDataMetadata, LabResultData } from '../../../src/types/health.types';
+import { mockHealthMetadata, mockLabResultData, mockSymptomData } from '../../mocks/health.mock';
+import { environment } from '../../../src/config/environment';
+
+const key = crypto.randomBytes(32);
+const recordContext = 'user-1:record-1';
+
+describe('encryptJson', () => {
+  it('should round-trip values, keeping Dates as Dates', () => {
+    const value = { text: 'Headache', count: 2, at: new Date('2023-05-15T10:15:00.000Z'), nested: { ok: true } };
+
+    const encrypted = encryptJson(key, value, recordContext);
+
+    expect(encrypted).not.toContain('Headache');
+    expect(decryptJson(key, encrypted, recordContext)).toEqual(value);
+  });
+
+  it('should encrypt the same value differently each time', () => {
+    const value = { text: 'same' };
+
+    expect(encryptJson(key, value, recordContext)).not.toBe(encryptJson(key, value, recordContext));
+  });
+
+  it('should refuse another key or another record', () => {
+    const encrypted = encryptJson(key, { text: 'secret' }, recordContext);
+
+    expect(() => decryptJson(crypto.randomBytes(32), encrypted, recordContext)).toThrow(InternalServerError);
+    expect(() => decryptJson(key, encrypted, 'user-1:record-2')).toThrow('Failed to decrypt health data');
+  });
+});
+
+describe('sealHealthFields', () => {
+  it('should keep only the queried fields in plaintext', () => {
+    const sealed = sealHealthFields(key, 3, recordContext, { data: mockLabResultData, metadata: mockHealthMetadata });
+
+    expect(sealed.data).toEqual({ testDate: mockLabResultData.testDate });
+    expect(sealed.metadata).toEqual({ source: mockHealthMetadata.source });
+    expect(sealed.encryption.keyVersion).toBe(3);
+    expect(sealed.encryption.data).not.toContain('Blood Test');
+    expect(sealed.encryption.metadata).not.toContain('San Francisco');
+  });
+
+  it('should be reversed by openHealthFields', () => {
+    const sealed = sealHealthFields(key, 1, recordContext, { data: mockLabResultData, metadata: mockHealthMetadata });
+
+    const opened = openHealthFields<LabResultData, HealthDataMetadata>(key, recordContext, sealed);
+
+    expect(opened.data).toEqual(mockLabResultData);
+    expect(opened.data.testDate).toBeInstanceOf(Date);
+    expect(opened.metadata).toEqual(mockHealthMetadata);
+  });
+});
+
+describe('computeBlindIndexes', () => {
+  it('should hash equal values of a user and scope equally', () => {
+    const [first] = computeBlindIndexes('user-1', BlindIndexScope.TAG, ['migraine']);
+
+    expect(computeBlindIndexes('user-1', BlindIndexScope.TAG, ['migraine'])).toEqual([first]);
+    expect(first).not.toContain('migraine');
+    expect(computeBlindIndexes('user-2', BlindIndexScope.TAG, ['migraine'])).not.toEqual([first]);
+    expect(computeBlindIndexes('user-1', BlindIndexScope.TERM, ['migraine'])).not.toEqual([first]);
+  });
+
+  it('should require HEALTH_DATA_BLIND_INDEX_KEY in production', () => {
+    const { NODE_ENV, HEALTH_DATA_BLIND_INDEX_KEY } = environment;
+    environment.NODE_ENV = 'production';
+
+    try {
+      environment.HEALTH_DATA_BLIND_INDEX_KEY = '';
+      expect(() => computeBlindIndexes('user-1', BlindIndexScope.TAG, ['migraine']))
+        .toThrow('HEALTH_DATA_BLIND_INDEX_KEY must be set in production');
+
+      environment.HEALTH_DATA_BLIND_INDEX_KEY = 'blind-index-key';
+      expect(computeBlindIndexes('user-1', BlindIndexScope.TAG, ['migraine'])).toHaveLength(1);
+    } finally {
+      environment.NODE_ENV = NODE_ENV;
+      environment.HEALTH_DATA_BLIND_INDEX_KEY = HEALTH_DATA_BLIND_INDEX_KEY;
+    }
+  });
+});
+
+describe('buildHealthDataBlindIndex', () => {
+  it('should index the stems of searchable text, the tags and the analyte keys', () => {
+    const blindIndex = buildHealthDataBlindIndex('user-1', {
+      data: {
+        ...mockLabResultData,
+        analytes: [
+          { name: 'Glucose', key: 'glucose', value: 85, unit: 'mg/dL', outOfRange: false },
+          { name: 'LDL', key: 'ldl', value: 100, unit: 'mg/dL', outOfRange: false }
+        ]
+      },
+      metadata: { ...mockHealthMetadata, tags: ['fasting', 'fasting'] }
+    });
+
+    const [fasting] = computeBlindIndexes('user-1', BlindIndexScope.TERM, tokenizeSearchText('fasted'));
+    expect(blindIndex.terms).toContain(fasting);
+    expect(blindIndex.tags).toEqual(computeBlindIndexes('user-1', BlindIndexScope.TAG, ['fasting']));
+    expect(blindIndex.analyteKeys)
+      .toEqual(computeBlindIndexes('user-1', BlindIndexScope.ANALYTE_KEY, ['glucose', 'ldl']));
+  });
+
+  it('should include symptom transcriptions', () => {
+    const blindIndex = buildHealthDataBlindIndex('user-1', { data: mockSymptomData, metadata: mockHealthMetadata });
+
+    expect(blindIndex.terms).toEqual(
+      expect.arrayContaining(computeBlindIndexes('user-1', BlindIndexScope.TERM, tokenizeSearchText('temples')))
+    );
+    expect(blindIndex.analyteKeys).toEqual([]);
+  });
+
+  it('should index neighbouring words of each field in order, for quoted phrases', () => {
+    const blindIndex = buildHealthDataBlindIndex('user-1', {
+      data: { ...mockSymptomData, description: 'Headache after lunch', transcription: 'Worse today' },
+      metadata: mockHealthMetadata
+    });
+    const bigrams = (phrase: string) =>
+      computeBlindIndexes('user-1', BlindIndexScope.BIGRAM, tokenizeSearchBigrams(phrase));
+
+    expect(blindIndex.terms).toEqual(expect.arrayContaining(bigrams('headache after lunch')));
+    expect(blindIndex.terms).not.toContain(bigrams('lunch after')[0]);
+    expect(blindIndex.terms).not.toContain(bigrams('headache lunch')[0]);
+    // The last word of the description isn't next to the first of the transcription
+    expect(blindIndex.terms).not.toContain(bigrams('lunch worse')[0]);
+  });
+});
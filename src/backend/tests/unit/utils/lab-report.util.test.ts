@@ -0,0 +1,92 @@
+import {
+  parseLabReport,
+  parseLabReportLine,
+  toConfidenceScore
+} from '../../../src/utils/lab-report.util';
+
+describe('parseLabReportLine', () => {
+  it('should read the name, value, unit and reference range', () => {
+    expect(parseLabReportLine('Sodium 140 mmol/L 135 - 145')).toEqual({
+      name: 'Sodium',
+      value: 140,
+      unit: 'mmol/L',
+      referenceLow: 135,
+      referenceHigh: 145,
+      line: 'Sodium 140 mmol/L 135 - 145'
+    });
+  });
+
+  it('should skip high/low flags and collapse whitespace', () => {
+    expect(parseLabReportLine('Glucose, Fasting   105  H  mg/dL   70 - 99')).toEqual({
+      name: 'Glucose, Fasting',
+      value: 105,
+      unit: 'mg/dL',
+      referenceLow: 70,
+      referenceHigh: 99,
+      line: 'Glucose, Fasting 105 H mg/dL 70 - 99'
+    });
+    expect(parseLabReportLine('Ferritin 15 L 20-250')).toMatchObject({
+      name: 'Ferritin',
+      value: 15,
+      referenceLow: 20,
+      referenceHigh: 250
+    });
+  });
+
+  it('should read one-sided and parenthesised reference ranges', () => {
+    expect(parseLabReportLine('LDL Cholesterol 130 mg/dL <100')).toMatchObject({
+      value: 130,
+      referenceHigh: 100
+    });
+    expect(parseLabReportLine('LDL Cholesterol 130 mg/dL <100')?.referenceLow).toBeUndefined();
+    expect(parseLabReportLine('HDL: 45 mg/dL >= 40')).toMatchObject({
+      name: 'HDL',
+      referenceLow: 40
+    });
+    expect(parseLabReportLine('Hemoglobin 13.5 g/dL (12.0-15.5)')).toMatchObject({
+      referenceLow: 12,
+      referenceHigh: 15.5
+    });
+  });
+
+  it('should read percentages, decimal commas, counts and names starting with digits', () => {
+    expect(parseLabReportLine('HbA1c 6.1 % 4.0-5.6')).toMatchObject({ name: 'HbA1c', value: 6.1, unit: '%' });
+    expect(parseLabReportLine('Hemoglobin 13,5 g/dL')).toMatchObject({ value: 13.5, unit: 'g/dL' });
+    expect(parseLabReportLine('WBC 6.2 x10^3/uL 4.5-11.0')).toMatchObject({ value: 6.2, unit: 'x10^3/uL' });
+    expect(parseLabReportLine('25-OH Vitamin D 28 ng/mL 30-100')).toMatchObject({
+      name: '25-OH Vitamin D',
+      value: 28,
+      unit: 'ng/mL'
+    });
+  });
+
+  it('should return null for lines that are not results', () => {
+    expect(parseLabReportLine('TEST RESULT UNITS REFERENCE')).toBeNull();
+    expect(parseLabReportLine('Page 1 of 2')).toBeNull();
+    expect(parseLabReportLine('Date 05/10/2023')).toBeNull();
+    expect(parseLabReportLine('')).toBeNull();
+  });
+});
+
+describe('parseLabReport', () => {
+  it('should keep the first result for each analyte with its line confidence', () => {
+    const analytes = parseLabReport([
+      { text: 'COMPREHENSIVE METABOLIC PANEL', confidence: 95 },
+      { text: 'Glucose 95 mg/dL 70-99', confidence: 91.26 },
+      { text: 'Potassium 4.1 mmol/L 3.5-5.1', confidence: 62 },
+      { text: 'glucose 96 mg/dL', confidence: 80 }
+    ]);
+
+    expect(analytes).toHaveLength(2);
+    expect(analytes[0]).toMatchObject({ name: 'Glucose', value: 95, confidence: 0.91 });
+    expect(analytes[1]).toMatchObject({ name: 'Potassium', value: 4.1, confidence: 0.62 });
+  });
+});
+
+describe('toConfidenceScore', () => {
+  it('should scale and clamp confidence percentages', () => {
+    expect(toConfidenceScore(87.456)).toBe(0.87);
+    expect(toConfidenceScore(-5)).toBe(0);
+    expect(toConfidenceScore(120)).toBe(1);
+  });
+});
@@ -0,0 +1,115 @@
+import {
+  findAnalyteDefinition,
+  getAnalyteKey,
+  isSupportedUnit,
+  normalizeAnalyte,
+  normalizeUnit
+} from '../../../src/utils/lab-units.util';
+
+describe('normalizeUnit', () => {
+  it('should ignore case, whitespace and the micro sign', () => {
+    expect(normalizeUnit('mmol/L')).toBe('mmol/l');
+    expect(normalizeUnit('mmol / L')).toBe('mmol/l');
+    expect(normalizeUnit('µmol/L')).toBe('umol/l');
+    expect(normalizeUnit('μmol/L')).toBe('umol/l');
+  });
+});
+
+describe('findAnalyteDefinition', () => {
+  it('should find analytes by alias regardless of case and punctuation', () => {
+    expect(findAnalyteDefinition('Fasting Glucose')?.key).toBe('glucose');
+    expect(findAnalyteDefinition('LDL-C')?.key).toBe('ldl-cholesterol');
+    expect(findAnalyteDefinition('25-OH Vitamin D')?.key).toBe('vitamin-d');
+  });
+
+  it('should find analytes by key', () => {
+    expect(findAnalyteDefinition('total-cholesterol')?.name).toBe('Total Cholesterol');
+  });
+
+  it('should return undefined for analytes not in the catalog', () => {
+    expect(findAnalyteDefinition('Ferritin')).toBeUndefined();
+  });
+});
+
+describe('getAnalyteKey', () => {
+  it('should return the catalog key for known analytes', () => {
+    expect(getAnalyteKey('Blood Glucose')).toBe('glucose');
+  });
+
+  it('should slugify the name of other analytes', () => {
+    expect(getAnalyteKey('Free T4 (thyroxine)')).toBe('free-t4-thyroxine');
+  });
+});
+
+describe('isSupportedUnit', () => {
+  it('should accept the canonical unit and convertible units of known analytes', () => {
+    expect(isSupportedUnit('Glucose', 'mg/dl')).toBe(true);
+    expect(isSupportedUnit('Glucose', 'mmol/L')).toBe(true);
+    expect(isSupportedUnit('Creatinine', 'µmol/L')).toBe(true);
+  });
+
+  it('should reject other units for known analytes', () => {
+    expect(isSupportedUnit('Glucose', 'g/L')).toBe(false);
+  });
+
+  it('should accept any unit for analytes not in the catalog', () => {
+    expect(isSupportedUnit('Ferritin', 'ng/mL')).toBe(true);
+  });
+});
+
+describe('normalizeAnalyte', () => {
+  it('should convert known analytes and their reference range to the canonical unit', () => {
+    expect(normalizeAnalyte({
+      name: 'Total cholesterol',
+      value: 5.2,
+      unit: 'mmol/L',
+      referenceHigh: 5
+    })).toEqual({
+      name: 'Total cholesterol',
+      key: 'total-cholesterol',
+      value: 201.08,
+      unit: 'mg/dL',
+      referenceHigh: 193.35,
+      outOfRange: true,
+      originalValue: 5.2,
+      originalUnit: 'mmol/L'
+    });
+  });
+
+  it('should convert HbA1c from IFCC to NGSP units', () => {
+    expect(normalizeAnalyte({ name: 'HbA1c', value: 48, unit: 'mmol/mol' }).value).toBe(6.54);
+  });
+
+  it('should keep values already in the canonical unit unchanged', () => {
+    expect(normalizeAnalyte({
+      name: 'Glucose',
+      value: 92,
+      unit: 'mg/dl',
+      referenceLow: 70,
+      referenceHigh: 99
+    })).toEqual({
+      name: 'Glucose',
+      key: 'glucose',
+      value: 92,
+      unit: 'mg/dL',
+      referenceLow: 70,
+      referenceHigh: 99,
+      outOfRange: false
+    });
+  });
+
+  it('should keep the unit of analytes not in the catalog', () => {
+    expect(normalizeAnalyte({ name: 'Ferritin', value: 20, unit: 'ng/mL', referenceLow: 30 })).toEqual({
+      name: 'Ferritin',
+      key: 'ferritin',
+      value: 20,
+      unit: 'ng/mL',
+      referenceLow: 30,
+      outOfRange: true
+    });
+  });
+
+  it('should not flag values without a reference range', () => {
+    expect(normalizeAnalyte({ name: 'Sodium', value: 150, unit: 'mmol/L' }).outOfRange).toBe(false);
+  });
+});
@@ -0,0 +1,112 @@
+import { MetricValueWithName } from 'prom-client';
+import {
+  metricsRegistry,
+  mobileMetricsRegistry,
+  normalizeEndpoint,
+  recordLLMRequest,
+  recordMobileBeacons
+} from '../../../src/utils/metrics.util';
+import { validateMobileMetricsSchema } from '../../../src/validators/metrics.validator';
+import { MobileBeaconType, MobilePlatform } from '../../../src/types/metrics.types';
+
+// Returns the recorded values of a metric, with their labels
+const getValues = async (registry: typeof metricsRegistry, name: string) => {
+  const metric = registry.getSingleMetric(name);
+  return metric ? (await metric.get()).values as MetricValueWithName<string>[] : [];
+};
+
+describe('metrics util', () => {
+  beforeEach(() => {
+    metricsRegistry.resetMetrics();
+    mobileMetricsRegistry.resetMetrics();
+  });
+
+  describe('recordLLMRequest', () => {
+    it('should count the request and record its latency and token usage', async () => {
+      recordLLMRequest('openai', 'success', 1.5, false, {
+        prompt_tokens: 120,
+        completion_tokens: 30,
+        total_tokens: 150
+      });
+
+      expect(await getValues(metricsRegistry, 'llm_requests_total')).toEqual([
+        expect.objectContaining({ labels: { provider: 'openai', status: 'success' }, value: 1 })
+      ]);
+      expect(await getValues(metricsRegistry, 'llm_tokens_total')).toEqual([
+        expect.objectContaining({ labels: { provider: 'openai', type: 'prompt' }, value: 120 }),
+        expect.objectContaining({ labels: { provider: 'openai', type: 'completion' }, value: 30 })
+      ]);
+
+      const latency = await getValues(metricsRegistry, 'llm_response_time_seconds');
+      expect(latency.find((value) => value.metricName === 'llm_response_time_seconds_sum')?.value).toBe(1.5);
+    });
+
+    it('should count fallbacks without recording a latency', async () => {
+      recordLLMRequest('anthropic', 'fallback', 0, true);
+
+      expect(await getValues(metricsRegistry, 'llm_fallback_total')).toEqual([
+        expect.objectContaining({ value: 1 })
+      ]);
+      const latency = await getValues(metricsRegistry, 'llm_response_time_seconds');
+      expect(latency.filter((value) => value.metricName === 'llm_response_time_seconds_count')).toEqual([]);
+    });
+  });
+
+  describe('normalizeEndpoint', () => {
+    it('should replace IDs and drop the query string', () => {
+      expect(normalizeEndpoint('/api/health/64b7f0c2e4b0a1a2b3c4d5e6?page=2')).toBe('/api/health/:id');
+      expect(normalizeEndpoint('/api/health/analytes/glucose')).toBe('/api/health/analytes/glucose');
+      expect(normalizeEndpoint('/api/chat/conversations/42/messages')).toBe('/api/chat/conversations/:id/messages');
+    });
+  });
+
+  describe('recordMobileBeacons', () => {
+    it('should record each kind of beacon under its metric', async () => {
+      recordMobileBeacons([
+        { type: MobileBeaconType.APP_LAUNCH, durationMs: 1800, os: MobilePlatform.IOS },
+        { type: MobileBeaconType.SCREEN_LOAD, durationMs: 350, screen: 'HealthLog' },
+        { type: MobileBeaconType.API_REQUEST, durationMs: 500, endpoint: '/api/health/64b7f0c2e4b0a1a2b3c4d5e6', success: false },
+        { type: MobileBeaconType.SESSION, durationMs: 240000, os: MobilePlatform.ANDROID, appVersion: '1.2.0' }
+      ]);
+
+      expect(await getValues(mobileMetricsRegistry, 'mobile_screen_view_total')).toEqual([
+        expect.objectContaining({ labels: { screen: 'HealthLog' }, value: 1 })
+      ]);
+      expect(await getValues(mobileMetricsRegistry, 'mobile_api_error_total')).toEqual([
+        expect.objectContaining({ labels: { endpoint: '/api/health/:id' }, value: 1 })
+      ]);
+      expect(await getValues(mobileMetricsRegistry, 'mobile_session_total')).toEqual([
+        expect.objectContaining({ labels: { os: 'android', version: '1.2.0' }, value: 1 })
+      ]);
+
+      const launch = await getValues(mobileMetricsRegistry, 'mobile_app_launch_time_seconds');
+      expect(launch.find((value) => value.metricName === 'mobile_app_launch_time_seconds_sum')).toEqual(
+        expect.objectContaining({ labels: { os: 'ios' }, value: 1.8 })
+      );
+    });
+  });
+
+  describe('mobile metrics validation', () => {
+    it('should accept well-formed beacons', () => {
+      const { error } = validateMobileMetricsSchema().validate({
+        beacons: [{ type: MobileBeaconType.SCREEN_LOAD, durationMs: 350, screen: 'Chat' }]
+      });
+
+      expect(error).toBeUndefined();
+    });
+
+    it('should reject label values that are not bounded', () => {
+      const schema = validateMobileMetricsSchema();
+
+      expect(schema.validate({
+        beacons: [{ type: MobileBeaconType.SCREEN_LOAD, durationMs: 350, screen: 'Chat <script>' }]
+      }).error?.message).toBe('Screen must be a screen name');
+      expect(schema.validate({
+        beacons: [{ type: MobileBeaconType.API_REQUEST, durationMs: 350, endpoint: 'https://example.com' }]
+      }).error?.message).toBe('Endpoint must be an API path');
+      expect(schema.validate({
+        beacons: [{ type: MobileBeaconType.API_REQUEST, durationMs: 350 }]
+      }).error?.message).toBe('Endpoint is required for API request beacons');
+    });
+  });
+});
@@ -0,0 +1,154 @@
+import {
+  buildSearchSnippets,
+  buildSnippet,
+  findSearchMatches,
+  parseSearchQuery,
+  stemWord,
+  tokenizeSearchBigrams,
+  tokenizeSearchText
+} from '../../../src/utils/search.util';
+import { HealthData, InputSource, SymptomSeverity } from '../../../src/types/health.types';
+
+// Returns the highlighted parts of an excerpt
+const highlighted = (snippet: { text: string; highlights: { start: number; end: number }[] }) =>
+  snippet.highlights.map((range) => snippet.text.slice(range.start, range.end));
+
+describe('stemWord', () => {
+  it('should reduce different forms of a word to the same stem', () => {
+    expect(stemWord('headaches')).toBe(stemWord('headache'));
+    expect(stemWord('Bloating')).toBe(stemWord('bloated'));
+    expect(stemWord('running')).toBe(stemWord('run'));
+    expect(stemWord('allergies')).toBe(stemWord('allergy'));
+    expect(stemWord('dizziness')).toBe(stemWord('dizzy'));
+    expect(stemWord("doctor's")).toBe(stemWord('doctor'));
+  });
+
+  it('should leave short words and double s endings alone', () => {
+    expect(stemWord('gas')).toBe('gas');
+    expect(stemWord('glass')).toBe('glass');
+    expect(stemWord('passed')).toBe(stemWord('pass'));
+  });
+});
+
+describe('tokenizeSearchText', () => {
+  it('should return each stem once, without stop words', () => {
+    expect(tokenizeSearchText('Headaches after the headache, and dizziness'))
+      .toEqual([stemWord('headache'), stemWord('dizzy')]);
+  });
+});
+
+describe('tokenizeSearchBigrams', () => {
+  it('should pair each stem with the next, keeping stop words and word order', () => {
+    expect(tokenizeSearchBigrams('Shortness of breath, shortness of breath')).toEqual([
+      `${stemWord('shortness')} of`,
+      `of ${stemWord('breath')}`,
+      `${stemWord('breath')} ${stemWord('shortness')}`
+    ]);
+  });
+
+  it('should tell phrases apart by the order and adjacency of their words', () => {
+    const [afterLunch] = tokenizeSearchBigrams('after lunch');
+
+    expect(tokenizeSearchBigrams('Headaches after lunches')).toContain(afterLunch);
+    expect(tokenizeSearchBigrams('lunch after headaches')).not.toContain(afterLunch);
+    expect(tokenizeSearchBigrams('after a late lunch')).not.toContain(afterLunch);
+    expect(tokenizeSearchBigrams('lunch')).toEqual([]);
+  });
+});
+
+describe('parseSearchQuery', () => {
+  it('should split words, quoted phrases and excluded words', () => {
+    expect(parseSearchQuery('Headache "after  lunch" -coffee nausea')).toEqual({
+      terms: ['headache', 'nausea'],
+      phrases: ['after lunch'],
+      excluded: ['coffee']
+    });
+  });
+
+  it('should ignore punctuation and empty phrases', () => {
+    expect(parseSearchQuery('"" sore, throat!')).toEqual({
+      terms: ['sore', 'throat'],
+      phrases: [],
+      excluded: []
+    });
+  });
+});
+
+describe('findSearchMatches', () => {
+  it('should find stemmed words and phrases and merge overlapping matches', () => {
+    const text = 'Headaches after lunch, and a headache again after dinner';
+    const matches = findSearchMatches(text, parseSearchQuery('headache "after lunch" lunch'));
+
+    expect(matches.map((range) => text.slice(range.start, range.end))).toEqual([
+      'Headaches',
+      'after lunch',
+      'headache'
+    ]);
+  });
+
+  it('should not highlight excluded words', () => {
+    expect(findSearchMatches('coffee with milk', parseSearchQuery('-coffee'))).toEqual([]);
+  });
+});
+
+describe('buildSnippet', () => {
+  it('should keep short texts whole', () => {
+    const matches = [{ start: 0, end: 4 }];
+    expect(buildSnippet('Rash on arm', matches)).toEqual({ text: 'Rash on arm', highlights: matches });
+  });
+
+  it('should cut long texts around the first match at word boundaries', () => {
+    const text = `${'word '.repeat(30)}sudden dizziness when standing up ${'more '.repeat(30)}`.trim();
+    const matches = findSearchMatches(text, parseSearchQuery('dizzy'));
+    const snippet = buildSnippet(text, matches, 60);
+
+    expect(snippet.text.startsWith('…word')).toBe(true);
+    expect(snippet.text.endsWith('…')).toBe(true);
+    expect(snippet.text.length).toBeLessThanOrEqual(62);
+    expect(highlighted(snippet)).toEqual(['dizziness']);
+  });
+});
+
+describe('buildSearchSnippets', () => {
+  const healthData: Pick<HealthData, 'data' | 'metadata'> = {
+    data: {
+      description: 'Throbbing headache behind the eyes',
+      severity: SymptomSeverity.MODERATE,
+      duration: '2 hours',
+      audioUrl: '',
+      transcription: 'I have had headaches most afternoons this week'
+    },
+    metadata: {
+      source: InputSource.VOICE,
+      tags: ['migraine', 'headaches'],
+      location: {}
+    }
+  };
+
+  it('should return excerpts of matching fields in order of importance', () => {
+    const snippets = buildSearchSnippets(healthData, 'headache');
+
+    expect(snippets.map((snippet) => snippet.field)).toEqual(['description', 'tags', 'transcription']);
+    expect(highlighted(snippets[0])).toEqual(['headache']);
+    expect(highlighted(snippets[1])).toEqual(['headaches']);
+  });
+
+  it('should return no excerpts when nothing in the record matches', () => {
+    expect(buildSearchSnippets(healthData, '"blurred vision"')).toEqual([]);
+  });
+
+  it('should only search text fields', () => {
+    const labResult: Pick<HealthData, 'data' | 'metadata'> = {
+      data: {
+        testType: 'Lipid Panel',
+        testDate: new Date('2023-05-15'),
+        results: { ldl: 130 },
+        notes: 'Fasting lipid test',
+        imageUrl: ''
+      },
+      metadata: { source: InputSource.PHOTO, tags: [], location: {} }
+    };
+
+    expect(buildSearchSnippets(labResult, 'lipid ldl').map((snippet) => snippet.field)).toEqual(['testType', 'notes']);
+  });
+});
@@ -0,0 +1,28 @@
+import {
+  estimateTokens,
+  estimateMessageTokens,
+  estimatePromptTokens,
+  MESSAGE_OVERHEAD_TOKENS
+} from '../../../src/utils/token.util';
+import { ChatRole } from '../../../src/types/chat.types';
+
+describe('estimateTokens', () => {
+  it('should round estimates up', () => {
+    expect(estimateTokens('')).toBe(0);
+    expect(estimateTokens('Hi')).toBe(1);
+    expect(estimateTokens('x'.repeat(35))).toBe(10);
+    expect(estimateTokens('x'.repeat(36))).toBe(11);
+  });
+});
+
+describe('estimatePromptTokens', () => {
+  it('should add the framing of each message', () => {
+    const messages = [
+      { role: ChatRole.SYSTEM, content: 'x'.repeat(70) },
+      { role: ChatRole.USER, content: '' }
+    ];
+
+    expect(estimateMessageTokens(messages[0])).toBe(20 + MESSAGE_OVERHEAD_TOKENS);
+    expect(estimatePromptTokens(messages)).toBe(20 + 2 * MESSAGE_OVERHEAD_TOKENS);
+  });
+});
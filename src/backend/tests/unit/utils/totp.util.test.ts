@@ -0,0 +1,84 @@
+/**
+ * Unit tests for TOTP utilities
+ *
+ * Checks the codes against the SHA-1 test vectors of RFC 6238, so they match the codes
+ * authenticator apps generate.
+ */
+
+import {
+  base32Encode,
+  base32Decode,
+  generateTotpSecret,
+  getTimeStep,
+  generateTotp,
+  verifyTotp,
+  buildOtpauthUrl
+} from '../../../src/utils/totp.util';
+
+// Base32 of the RFC 6238 SHA-1 test secret "12345678901234567890"
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+describe('base32', () => {
+  it('should encode and decode bytes', () => {
+    expect(base32Encode(Buffer.from('12345678901234567890'))).toBe(RFC_SECRET);
+    expect(base32Decode(RFC_SECRET).toString()).toBe('12345678901234567890');
+  });
+
+  it('should ignore case, spaces and padding when decoding', () => {
+    expect(base32Decode('gezd gnbv gy3t qojq====').toString()).toBe('1234567890');
+  });
+
+  it('should reject characters outside the alphabet', () => {
+    expect(() => base32Decode('GEZD1')).toThrow('Invalid base32 character');
+  });
+});
+
+describe('generateTotpSecret', () => {
+  it('should generate different 160-bit secrets', () => {
+    const secret = generateTotpSecret();
+
+    expect(secret).toMatch(/^[A-Z2-7]{32}$/);
+    expect(base32Decode(secret)).toHaveLength(20);
+    expect(generateTotpSecret()).not.toBe(secret);
+  });
+});
+
+describe('generateTotp', () => {
+  it('should generate the codes of the RFC 6238 test vectors', () => {
+    expect(generateTotp(RFC_SECRET, getTimeStep(59 * 1000))).toBe('287082');
+    expect(generateTotp(RFC_SECRET, getTimeStep(1111111109 * 1000))).toBe('081804');
+    expect(generateTotp(RFC_SECRET, getTimeStep(1234567890 * 1000))).toBe('005924');
+    expect(generateTotp(RFC_SECRET, getTimeStep(20000000000 * 1000))).toBe('353130');
+  });
+});
+
+describe('verifyTotp', () => {
+  const time = 1111111109 * 1000;
+
+  it('should return the time step of a valid code', () => {
+    expect(verifyTotp(RFC_SECRET, '081804', 1, time)).toBe(getTimeStep(time));
+    expect(verifyTotp(RFC_SECRET, '081 804', 1, time)).toBe(getTimeStep(time));
+  });
+
+  it('should accept codes of neighbouring time steps for clock drift', () => {
+    const previousCode = generateTotp(RFC_SECRET, getTimeStep(time) - 1);
+
+    expect(verifyTotp(RFC_SECRET, previousCode, 1, time)).toBe(getTimeStep(time) - 1);
+    expect(verifyTotp(RFC_SECRET, previousCode, 0, time)).toBeNull();
+  });
+
+  it('should reject wrong and malformed codes', () => {
+    expect(verifyTotp(RFC_SECRET, '000000', 1, time)).toBeNull();
+    expect(verifyTotp(RFC_SECRET, '81804', 1, time)).toBeNull();
+    expect(verifyTotp(RFC_SECRET, 'abcdef', 1, time)).toBeNull();
+  });
+});
+
+describe('buildOtpauthUrl', () => {
+  it('should build a key URI with the issuer and account', () => {
+    expect(buildOtpauthUrl(RFC_SECRET, 'user@example.com', 'Health Advisor')).toBe(
+      `otpauth://totp/Health%20Advisor:user%40example.com?secret=${RFC_SECRET}` +
+      '&issuer=Health%20Advisor&algorithm=SHA1&digits=6&period=30'
+    );
+  });
+});
@@ -1,6 +1,6 @@
 import React from 'react'; // ^18.2.0
 import { render, screen, fireEvent } from '@testing-library/react-native'; // ^12.0.0
-import HealthDataCard from '../../../src/components/cards/HealthDataCard';
+import HealthDataCard, { splitSnippet } from '../../../src/components/cards/HealthDataCard';
 import { ThemeProvider } from '../../../src/contexts/ThemeContext';
 import { HealthDataType, MealType, SymptomSeverity } from '../../../src/types/health.types';
 
@@ -190,4 +190,33 @@ describe('HealthDataCard component', () => {
     expect(element.props.accessibilityLabel).toContain('May 15, 2023');
     expect(element.props.accessibilityLabel).toContain('Oatmeal with berries and honey');
   });
-});
\ No newline at end of file
+
+  test('shows the matching excerpt of a search result with highlights', () => {
+    const labData = createMockLabResultData({
+      search: {
+        score: 3.2,
+        snippets: [{ field: 'notes', text: 'Cholesterol, Blood Sugar, CBC', highlights: [{ start: 13, end: 18 }] }]
+      }
+    });
+    const { getByTestId, getByText } = renderWithTheme(
+      <HealthDataCard item={labData} onPress={() => {}} />
+    );
+    
+    // Verify that the excerpt is labelled with its field and the match is highlighted
+    expect(getByTestId('search-snippet')).toBeTruthy();
+    expect(getByText(/^Notes:/)).toBeTruthy();
+    expect(getByText('Blood').props.style).toEqual(expect.objectContaining({ backgroundColor: expect.any(String) }));
+  });
+
+  test('splits a search excerpt into plain and highlighted parts', () => {
+    expect(splitSnippet({
+      field: 'description',
+      text: 'Headache after lunch',
+      highlights: [{ start: 0, end: 8 }, { start: 15, end: 20 }]
+    })).toEqual([
+      { text: 'Headache', highlighted: true },
+      { text: ' after ', highlighted: false },
+      { text: 'lunch', highlighted: true }
+    ]);
+  });
+});
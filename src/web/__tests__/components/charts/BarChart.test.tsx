@@ -0,0 +1,62 @@
+import React from 'react'; // 18.2.0
+import { render, screen, fireEvent } from '@testing-library/react-native'; // ^12.0.0
+import { Rect } from 'react-native-svg';
+import BarChart from '../../../src/components/charts/BarChart';
+import { ThemeProvider } from '../../../src/contexts/ThemeContext';
+
+// Helper function to render components with ThemeProvider
+const renderWithTheme = (component: React.ReactElement) => {
+  return render(
+    <ThemeProvider>
+      {component}
+    </ThemeProvider>
+  );
+};
+
+describe('BarChart', () => {
+  const series = [
+    { key: 'breakfast', label: 'Breakfast', color: '#4A90E2' },
+    { key: 'lunch', label: 'Lunch', color: '#FF8C42' }
+  ];
+
+  const data = [
+    { label: '5/14', values: { breakfast: 1, lunch: 1 } },
+    { label: '5/15', values: { breakfast: 2, lunch: 0 } }
+  ];
+
+  // Simulates the container being laid out so the chart can be drawn
+  const layout = () => {
+    fireEvent(screen.getByLabelText('Meals chart'), 'layout', {
+      nativeEvent: { layout: { width: 300, height: 200 } }
+    });
+  };
+
+  it('renders a legend entry for each series', () => {
+    renderWithTheme(<BarChart data={data} series={series} accessibilityLabel="Meals chart" />);
+
+    expect(screen.getByText('Breakfast')).toBeTruthy();
+    expect(screen.getByText('Lunch')).toBeTruthy();
+  });
+
+  it('draws one segment per non-zero value once laid out', () => {
+    renderWithTheme(<BarChart data={data} series={series} accessibilityLabel="Meals chart" />);
+
+    expect(screen.UNSAFE_queryAllByType(Rect)).toHaveLength(0);
+
+    layout();
+
+    expect(screen.UNSAFE_queryAllByType(Rect)).toHaveLength(3);
+  });
+
+  it('scales bars against the largest stacked total', () => {
+    renderWithTheme(
+      <BarChart data={data} series={series} height={100} accessibilityLabel="Meals chart" />
+    );
+
+    layout();
+
+    // Both days total 2, so each full bar spans the plot height
+    const heights = screen.UNSAFE_queryAllByType(Rect).map(rect => rect.props.height);
+    expect(heights).toEqual([50, 50, 100]);
+  });
+});
@@ -142,6 +142,28 @@ describe('ChatBubble component', () => {
     expect(screen.getByText(errorMessage.content)).toBeTruthy();
   });
 
+  test('shows streaming indicator while the response is arriving', () => {
+    const streamingMessage = {
+      ...assistantMessage,
+      content: 'Staying hydrated can',
+      status: ChatMessageStatus.STREAMING
+    };
+    
+    renderWithTheme(<ChatBubble message={streamingMessage} />);
+    
+    // Verify streaming indicator is displayed
+    expect(screen.getByLabelText('Receiving response')).toBeTruthy();
+    
+    // Verify the partial content is displayed
+    expect(screen.getByText(streamingMessage.content, { exact: false })).toBeTruthy();
+  });
+
+  test('does not show streaming indicator once the response is complete', () => {
+    renderWithTheme(<ChatBubble message={assistantMessage} />);
+    
+    expect(screen.queryByLabelText('Receiving response')).toBeNull();
+  });
+
   test('applies custom style from props', () => {
     const customStyle = { marginVertical: 20 };
     
@@ -0,0 +1,123 @@
+import React from 'react'; // 18.2.0
+import { render, fireEvent } from '@testing-library/react-native'; // ^12.0.0
+import ConversationDrawer from '../../../src/components/chat/ConversationDrawer';
+import { Conversation } from '../../../src/types/chat.types';
+import { ThemeProvider } from '../../../src/contexts/ThemeContext';
+
+// Helper function to render components with ThemeProvider
+const renderWithTheme = (component: React.ReactElement) => {
+  return render(
+    <ThemeProvider>
+      {component}
+    </ThemeProvider>
+  );
+};
+
+// Helper function to create a conversation
+const createConversation = (overrides: Partial<Conversation> = {}): Conversation => ({
+  id: 'conversation-1',
+  title: 'Sleep questions',
+  startedAt: new Date('2023-05-10T08:00:00.000Z'),
+  lastMessageAt: new Date('2023-05-12T08:00:00.000Z'),
+  archived: false,
+  pinned: false,
+  messages: [],
+  ...overrides
+});
+
+describe('ConversationDrawer', () => {
+  const handlers = {
+    onSelect: jest.fn(),
+    onNewConversation: jest.fn(),
+    onUpdate: jest.fn(),
+    onDelete: jest.fn(),
+    onShowArchived: jest.fn(),
+    onClose: jest.fn()
+  };
+
+  const conversations = [
+    createConversation({ id: 'pinned', title: 'Diet plan', pinned: true }),
+    createConversation()
+  ];
+  const archivedConversations = [
+    createConversation({ id: 'archived', title: 'Old lab results', archived: true })
+  ];
+
+  const renderDrawer = () => renderWithTheme(
+    <ConversationDrawer
+      visible
+      conversations={conversations}
+      archivedConversations={archivedConversations}
+      activeConversationId="conversation-1"
+      {...handlers}
+    />
+  );
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should list active conversations and open the one pressed', () => {
+    const { getByText, queryByText, getByTestId } = renderDrawer();
+
+    expect(getByText('Diet plan')).toBeTruthy();
+    expect(getByText('Sleep questions')).toBeTruthy();
+    expect(queryByText('Old lab results')).toBeNull();
+
+    fireEvent.press(getByTestId('conversation-pinned'));
+    expect(handlers.onSelect).toHaveBeenCalledWith('pinned');
+
+    fireEvent.press(getByText('New Conversation'));
+    expect(handlers.onNewConversation).toHaveBeenCalled();
+  });
+
+  it('should load and list archived conversations when shown', () => {
+    const { getByText, queryByText, getByTestId } = renderDrawer();
+
+    fireEvent.press(getByTestId('conversation-tab-archived'));
+
+    expect(handlers.onShowArchived).toHaveBeenCalledTimes(1);
+    expect(getByText('Old lab results')).toBeTruthy();
+    expect(queryByText('Diet plan')).toBeNull();
+
+    fireEvent.press(getByTestId('conversation-archive-archived'));
+    expect(handlers.onUpdate).toHaveBeenCalledWith('archived', { archived: false });
+  });
+
+  it('should pin, unpin and archive conversations', () => {
+    const { getByTestId } = renderDrawer();
+
+    fireEvent.press(getByTestId('conversation-pin-conversation-1'));
+    expect(handlers.onUpdate).toHaveBeenLastCalledWith('conversation-1', { pinned: true });
+
+    fireEvent.press(getByTestId('conversation-pin-pinned'));
+    expect(handlers.onUpdate).toHaveBeenLastCalledWith('pinned', { pinned: false });
+
+    fireEvent.press(getByTestId('conversation-archive-conversation-1'));
+    expect(handlers.onUpdate).toHaveBeenLastCalledWith('conversation-1', { archived: true });
+  });
+
+  it('should rename a conversation with a trimmed title', () => {
+    const { getByText, getByPlaceholderText, getByTestId } = renderDrawer();
+
+    fireEvent.press(getByTestId('conversation-rename-conversation-1'));
+    const input = getByPlaceholderText('Conversation title');
+    expect(input.props.value).toBe('Sleep questions');
+
+    fireEvent.changeText(input, '  Sleep and stress  ');
+    fireEvent.press(getByText('Save'));
+
+    expect(handlers.onUpdate).toHaveBeenCalledWith('conversation-1', { title: 'Sleep and stress' });
+    expect(getByText('Sleep questions')).toBeTruthy();
+  });
+
+  it('should only delete a conversation once confirmed', () => {
+    const { getByText, getByTestId } = renderDrawer();
+
+    fireEvent.press(getByTestId('conversation-delete-conversation-1'));
+    expect(handlers.onDelete).not.toHaveBeenCalled();
+
+    fireEvent.press(getByText('Delete'));
+    expect(handlers.onDelete).toHaveBeenCalledWith('conversation-1');
+  });
+});
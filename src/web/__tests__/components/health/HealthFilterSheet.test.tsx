@@ -0,0 +1,129 @@
+import React from 'react'; // 18.2.0
+import { render, fireEvent } from '@testing-library/react-native'; // ^12.0.0
+import HealthFilterSheet, { countActiveFilters } from '../../../src/components/health/HealthFilterSheet';
+import { buildHealthLogParams } from '../../../src/screens/health/HealthLogScreen';
+import { HealthDataType, MealType, SymptomSeverity } from '../../../src/types/health.types';
+import { ThemeProvider } from '../../../src/contexts/ThemeContext';
+
+// The health log screen is only imported for its request builder
+jest.mock('../../../src/components/health/CalendarView', () => () => null);
+
+// Helper function to render components with ThemeProvider
+const renderWithTheme = (component: React.ReactElement) => {
+  return render(
+    <ThemeProvider>
+      {component}
+    </ThemeProvider>
+  );
+};
+
+describe('HealthFilterSheet', () => {
+  const onApply = jest.fn();
+  const onClose = jest.fn();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should apply the selected filters together', () => {
+    const { getByTestId, getByText, getByPlaceholderText } = renderWithTheme(
+      <HealthFilterSheet visible filters={{}} onApply={onApply} onClose={onClose} />
+    );
+
+    fireEvent.press(getByTestId(`filter-option-${HealthDataType.SYMPTOM}`));
+    fireEvent.press(getByTestId(`filter-option-${SymptomSeverity.MODERATE}`));
+    fireEvent.press(getByTestId(`filter-option-${SymptomSeverity.SEVERE}`));
+    fireEvent.press(getByTestId('filter-option-range-7'));
+    fireEvent.changeText(getByPlaceholderText('e.g., migraine, low-carb'), ' migraine, , work ,migraine');
+    fireEvent.press(getByText('Apply Filters'));
+
+    expect(onApply).toHaveBeenCalledTimes(1);
+    const applied = onApply.mock.calls[0][0];
+    expect(applied).toMatchObject({
+      types: [HealthDataType.SYMPTOM],
+      severity: [SymptomSeverity.MODERATE, SymptomSeverity.SEVERE],
+      tags: ['migraine', 'work'],
+      mealType: undefined
+    });
+
+    // The range starts at midnight six days ago so that it covers seven days including today
+    const start = new Date(applied.startDate);
+    expect(start.getHours()).toBe(0);
+    expect(Math.round((Date.now() - start.getTime()) / 86400000)).toBeGreaterThanOrEqual(6);
+  });
+
+  it('should deselect options and reset all filters', () => {
+    const { getByTestId, getByText, getByPlaceholderText } = renderWithTheme(
+      <HealthFilterSheet
+        visible
+        filters={{ types: [HealthDataType.MEAL], mealType: [MealType.LUNCH], tags: ['keto'] }}
+        onApply={onApply}
+        onClose={onClose}
+      />
+    );
+
+    expect(getByPlaceholderText('e.g., migraine, low-carb').props.value).toBe('keto');
+
+    fireEvent.press(getByTestId(`filter-option-${HealthDataType.MEAL}`));
+    fireEvent.press(getByText('Apply Filters'));
+    expect(onApply).toHaveBeenLastCalledWith(expect.objectContaining({
+      types: undefined,
+      mealType: [MealType.LUNCH],
+      tags: ['keto']
+    }));
+
+    fireEvent.press(getByText('Reset'));
+    fireEvent.press(getByText('Apply Filters'));
+    expect(onApply).toHaveBeenLastCalledWith({
+      types: undefined,
+      severity: undefined,
+      mealType: undefined,
+      tags: undefined,
+      startDate: undefined
+    });
+  });
+
+  it('should count the filters that are set', () => {
+    expect(countActiveFilters({})).toBe(0);
+    expect(countActiveFilters({ types: [], tags: ['keto'] })).toBe(1);
+    expect(countActiveFilters({
+      types: [HealthDataType.MEAL],
+      mealType: [MealType.DINNER],
+      startDate: '2023-05-01T00:00:00.000Z'
+    })).toBe(3);
+  });
+});
+
+describe('buildHealthLogParams', () => {
+  const filters = {
+    startDate: '2023-05-01T00:00:00.000Z',
+    types: [HealthDataType.SYMPTOM],
+    severity: [SymptomSeverity.SEVERE],
+    mealType: []
+  };
+
+  it('should combine the filters and search term into one request', () => {
+    expect(buildHealthLogParams(filters, undefined, ' headache ', 2)).toEqual({
+      startDate: '2023-05-01T00:00:00.000Z',
+      types: [HealthDataType.SYMPTOM],
+      severity: [SymptomSeverity.SEVERE],
+      search: 'headache',
+      page: 2,
+      limit: 20
+    });
+  });
+
+  it('should use the calendar date in place of the date range', () => {
+    expect(buildHealthLogParams(filters, '2023-05-10', '', 1)).toEqual({
+      date: '2023-05-10',
+      types: [HealthDataType.SYMPTOM],
+      severity: [SymptomSeverity.SEVERE],
+      page: 1,
+      limit: 20
+    });
+  });
+
+  it('should only include paging when nothing is filtered', () => {
+    expect(buildHealthLogParams({}, undefined, '', 1)).toEqual({ page: 1, limit: 20 });
+  });
+});
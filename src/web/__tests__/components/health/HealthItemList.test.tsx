@@ -160,6 +160,27 @@ describe('HealthItemList component', () => {
     expect(getByText('Grilled chicken salad')).toBeTruthy(); // From Yesterday
   });
 
+  test('keeps the given order without date headers when not grouped', () => {
+    const { queryByText, getAllByRole } = renderWithTheme(
+      <HealthItemList 
+        items={[mockHealthData[3], mockHealthData[0]]} 
+        onItemPress={jest.fn()}
+        groupByDate={false}
+      />
+    );
+    
+    // Check that there are no date headers
+    expect(queryByText('Today')).toBeNull();
+    expect(queryByText('Yesterday')).toBeNull();
+    
+    // Check that the older item is still listed first
+    const labels = getAllByRole('button')
+      .map(button => button.props.accessibilityLabel)
+      .filter(Boolean);
+    expect(labels[0]).toContain('Grilled chicken salad');
+    expect(labels[1]).toContain('Oatmeal with berries');
+  });
+
   test('handles pull-to-refresh correctly', () => {
     const onRefresh = jest.fn();
     const { UNSAFE_getByType } = renderWithTheme(
@@ -1,7 +1,7 @@
 import { renderHook, act, waitFor } from '@testing-library/react-hooks'; // ^8.0.1
 import { useChat } from '../../src/hooks/useChat';
 import { 
-  sendMessage, 
+  sendMessageStream, 
   getConversations, 
   getConversation, 
   getMessages,
@@ -19,7 +19,7 @@ import { useAuth } from '../../src/hooks/useAuth';
 
 // Mock the chat service methods
 jest.mock('../../src/services/chat.service', () => ({
-  sendMessage: jest.fn(),
+  sendMessageStream: jest.fn(),
   getConversations: jest.fn(),
   getConversation: jest.fn(),
   getMessages: jest.fn(),
@@ -38,6 +38,8 @@ describe('useChat', () => {
     title,
     startedAt: new Date('2023-05-15T10:00:00Z'),
     lastMessageAt: new Date('2023-05-15T10:30:00Z'),
+    archived: false,
+    pinned: false,
     messages: []
   });
 
@@ -83,9 +85,13 @@ describe('useChat', () => {
       createMockConversation('new-conv-123', 'New Conversation')
     );
 
-    (sendMessage as jest.Mock).mockResolvedValue({
-      response: 'This is a test response from the LLM.',
-      conversationId: 'conv-123'
+    (sendMessageStream as jest.Mock).mockImplementation(async (message, onDelta) => {
+      onDelta('This is a test response from the LLM.');
+      return {
+        response: 'This is a test response from the LLM.',
+        conversationId: 'conv-123',
+        messageId: 'msg-123'
+      };
     });
 
     // Default useAuth mock implementation
@@ -305,7 +311,11 @@ describe('useChat', () => {
       page: 1,
       limit: 100
     });
-    (sendMessage as jest.Mock).mockResolvedValue(mockResponse);
+    (sendMessageStream as jest.Mock).mockImplementation(async (message, onDelta) => {
+      onDelta('This is a test ');
+      onDelta('response from the LLM.');
+      return { ...mockResponse, messageId: 'msg-3' };
+    });
 
     // Render the hook with active conversation
     const { result } = renderHook(() => useChat());
@@ -325,7 +335,7 @@ describe('useChat', () => {
     });
 
     // Verify the message was sent correctly
-    expect(sendMessage).toHaveBeenCalledWith('Test message', conversationId);
+    expect(sendMessageStream).toHaveBeenCalledWith('Test message', expect.any(Function), conversationId);
     expect(response).toEqual(mockResponse);
     
     // Verify the user message was added to the conversation
@@ -344,6 +354,8 @@ describe('useChat', () => {
       msg => msg.role === ChatRole.ASSISTANT && msg.content === mockResponse.response
     );
     expect(assistantMessage).toBeDefined();
+    expect(assistantMessage?.id).toBe('msg-3');
+    expect(assistantMessage?.status).toBe(ChatMessageStatus.SENT);
     
     expect(result.current.error).toBeNull();
   });
@@ -368,7 +380,7 @@ describe('useChat', () => {
       page: 1,
       limit: 100
     });
-    (sendMessage as jest.Mock).mockRejectedValue(mockError);
+    (sendMessageStream as jest.Mock).mockRejectedValue(mockError);
 
     // Render the hook with active conversation
     const { result } = renderHook(() => useChat());
@@ -413,7 +425,11 @@ describe('useChat', () => {
 
     // Setup mock responses
     (createConversation as jest.Mock).mockResolvedValue(mockNewConversation);
-    (sendMessage as jest.Mock).mockResolvedValue(mockResponse);
+    (sendMessageStream as jest.Mock).mockImplementation(async (message, onDelta) => {
+      onDelta('This is a test ');
+      onDelta('response from the LLM.');
+      return { ...mockResponse, messageId: 'msg-3' };
+    });
 
     // Render the hook
     const { result } = renderHook(() => useChat());
@@ -429,7 +445,7 @@ describe('useChat', () => {
 
     // Verify a new conversation was created
     expect(createConversation).toHaveBeenCalled();
-    expect(sendMessage).toHaveBeenCalledWith('Test message', newConversationId);
+    expect(sendMessageStream).toHaveBeenCalledWith('Test message', expect.any(Function), newConversationId);
     expect(response).toEqual(mockResponse);
   });
 
@@ -8,7 +8,8 @@ import {
   createMealData,
   createLabResultData,
   createSymptomData,
-  deleteHealthData
+  deleteHealthData,
+  getHealthInsights
 } from '../../src/api/health.api';
 import {
   formatHealthDataForDisplay,
@@ -19,7 +20,8 @@ import {
   HealthDataResponse,
   CreateMealDataRequest,
   CreateLabResultDataRequest,
-  CreateSymptomDataRequest
+  CreateSymptomDataRequest,
+  HealthInsights
 } from '../../src/types/health.types';
 import { parseApiError } from '../../src/utils/error.utils';
 
@@ -32,7 +34,8 @@ jest.mock('../../src/api/health.api', () => ({
   createMealData: jest.fn(),
   createLabResultData: jest.fn(),
   createSymptomData: jest.fn(),
-  deleteHealthData: jest.fn()
+  deleteHealthData: jest.fn(),
+  getHealthInsights: jest.fn()
 }));
 
 // Mock service functions
@@ -124,6 +127,16 @@ describe('useHealthData', () => {
     timestamp: '2023-05-16T10:00:00Z'
   };
 
+  // Mock health insights for a one week range
+  const mockInsights: HealthInsights = {
+    startDate: '2023-05-09T00:00:00.000Z',
+    endDate: '2023-05-15T23:59:59.999Z',
+    timezone: 'UTC',
+    mealsPerDay: [],
+    symptomTrend: [],
+    labTestHistory: []
+  };
+
   beforeEach(() => {
     jest.clearAllMocks();
     
@@ -368,6 +381,37 @@ describe('useHealthData', () => {
     expect(result.current.error).toBe(mockParsedError.message);
   });
 
+  it('should fetch health insights successfully', async () => {
+    (getHealthInsights as jest.Mock).mockResolvedValue(mockInsights);
+    
+    const { result } = renderHook(() => useHealthData());
+    const params = { startDate: mockInsights.startDate, timezone: 'UTC' };
+    
+    await act(async () => {
+      await result.current.fetchHealthInsights(params);
+    });
+    
+    expect(getHealthInsights).toHaveBeenCalledWith(params);
+    expect(result.current.isLoadingInsights).toBe(false);
+    expect(result.current.insights).toEqual(mockInsights);
+    expect(result.current.error).toBeNull();
+  });
+
+  it('should handle fetch health insights failure', async () => {
+    (getHealthInsights as jest.Mock).mockRejectedValue(mockError);
+    
+    const { result } = renderHook(() => useHealthData());
+    
+    await act(async () => {
+      await result.current.fetchHealthInsights();
+    });
+    
+    expect(parseApiError).toHaveBeenCalledWith(mockError);
+    expect(result.current.isLoadingInsights).toBe(false);
+    expect(result.current.insights).toBeNull();
+    expect(result.current.error).toBe(mockParsedError.message);
+  });
+
   it('should get grouped health data correctly', async () => {
     // Setup: Add items first to have data to group
     (getHealthData as jest.Mock).mockResolvedValue(mockHealthDataResponse);
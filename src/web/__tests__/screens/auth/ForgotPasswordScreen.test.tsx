@@ -0,0 +1,69 @@
+import React from 'react';
+import { render, fireEvent, waitFor } from '@testing-library/react-native';
+import ForgotPasswordScreen from '../../../src/screens/auth/ForgotPasswordScreen';
+import { requestPasswordReset } from '../../../src/api/auth.api';
+import { AUTH_ROUTES } from '../../../src/constants/navigation';
+import { ThemeProvider } from '../../../src/contexts/ThemeContext';
+import { AuthScreenProps } from '../../../src/types/navigation.types';
+
+// Mock the auth API
+jest.mock('../../../src/api/auth.api', () => ({
+  requestPasswordReset: jest.fn()
+}));
+
+describe('ForgotPasswordScreen', () => {
+  const mockNavigation = { navigate: jest.fn() };
+
+  const renderScreen = () => {
+    const props = {
+      navigation: mockNavigation,
+      route: { key: 'ForgotPassword', name: 'ForgotPassword' }
+    } as unknown as AuthScreenProps<'ForgotPassword'>;
+
+    return render(
+      <ThemeProvider>
+        <ForgotPasswordScreen {...props} />
+      </ThemeProvider>
+    );
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  test('requests a reset code and moves on to entering it', async () => {
+    (requestPasswordReset as jest.Mock).mockResolvedValue(undefined);
+
+    const { getByPlaceholderText, getByText } = renderScreen();
+
+    fireEvent.changeText(getByPlaceholderText('Enter your email'), 'test@example.com');
+    fireEvent.press(getByText('Send Reset Code'));
+
+    await waitFor(() => {
+      expect(requestPasswordReset).toHaveBeenCalledWith({ email: 'test@example.com' });
+      expect(mockNavigation.navigate).toHaveBeenCalledWith(AUTH_ROUTES.RESET_PASSWORD, { email: 'test@example.com' });
+    });
+  });
+
+  test('does not request a code for an invalid email address', async () => {
+    const { getByPlaceholderText, getByText, findByText } = renderScreen();
+
+    fireEvent.changeText(getByPlaceholderText('Enter your email'), 'not-an-email');
+    fireEvent.press(getByText('Send Reset Code'));
+
+    expect(await findByText('Please enter a valid email address')).toBeTruthy();
+    expect(requestPasswordReset).not.toHaveBeenCalled();
+  });
+
+  test('displays an error message when the request fails', async () => {
+    (requestPasswordReset as jest.Mock).mockRejectedValue({ message: 'Network error' });
+
+    const { getByPlaceholderText, getByText, findByText } = renderScreen();
+
+    fireEvent.changeText(getByPlaceholderText('Enter your email'), 'test@example.com');
+    fireEvent.press(getByText('Send Reset Code'));
+
+    expect(await findByText('Network error')).toBeTruthy();
+    expect(mockNavigation.navigate).not.toHaveBeenCalled();
+  });
+});
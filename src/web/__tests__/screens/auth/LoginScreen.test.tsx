@@ -1,10 +1,11 @@
 import React from 'react';
-import { render, fireEvent, waitFor } from '@testing-library/react-native';
+import { render, fireEvent, waitFor, act } from '@testing-library/react-native';
 import LoginScreen from '../../../src/screens/auth/LoginScreen';
 import { useAuth } from '../../../src/hooks/useAuth';
 import useForm from '../../../src/hooks/useForm';
 import { AUTH_ROUTES } from '../../../src/constants/navigation';
 import { AuthContext } from '../../../src/contexts/AuthContext';
+import { ApiErrorType } from '../../../src/types/api.types';
 
 // Mock the useAuth hook
 jest.mock('../../../src/hooks/useAuth', () => ({
@@ -152,6 +153,47 @@ describe('LoginScreen', () => {
     expect(mockNavigation.navigate).toHaveBeenCalledWith(AUTH_ROUTES.SIGNUP);
   });
 
+  test('navigates to forgot password screen', () => {
+    const { getByText } = render(
+      <LoginScreen navigation={mockNavigation} />
+    );
+    
+    // Find and click the forgot password link
+    fireEvent.press(getByText('Forgot password?'));
+    
+    // Verify navigation.navigate was called with the correct route
+    expect(mockNavigation.navigate).toHaveBeenCalledWith(AUTH_ROUTES.FORGOT_PASSWORD);
+  });
+
+  test('explains the lockout after too many failed login attempts', async () => {
+    // Mock login to fail with a lockout
+    mockLogin.mockRejectedValue({
+      type: ApiErrorType.ACCOUNT_LOCKED,
+      message: 'Too many failed login attempts. Please try again in 30 minutes or reset your password.',
+      details: { lockedUntil: new Date(Date.now() + 30 * 60 * 1000).toISOString() }
+    });
+
+    const { getByText, findByText } = render(
+      <LoginScreen navigation={mockNavigation} />
+    );
+
+    // Submit the form through the handler passed to useForm
+    const onSubmit = (useForm as jest.Mock).mock.calls[0][2];
+    await act(async () => {
+      await onSubmit({ email: 'test@example.com', password: 'WrongPassword1!' });
+    });
+
+    // Verify the lockout is explained and logging in is disabled
+    expect(await findByText('Login temporarily locked')).toBeTruthy();
+    expect(getByText(/Please try again in 30 minutes/)).toBeTruthy();
+    expect(getByText(/You can log in again after/)).toBeTruthy();
+    expect(getByText('Log In')).toBeDisabled();
+
+    // Verify the password reset link navigates to the forgot password screen
+    fireEvent.press(getByText('Reset your password'));
+    expect(mockNavigation.navigate).toHaveBeenCalledWith(AUTH_ROUTES.FORGOT_PASSWORD);
+  });
+
   test('shows loading indicator during authentication', () => {
     // Mock useAuth to return loading: true
     (useAuth as jest.Mock).mockReturnValue({
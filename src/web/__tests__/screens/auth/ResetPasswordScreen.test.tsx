@@ -0,0 +1,87 @@
+import React from 'react';
+import { Alert } from 'react-native';
+import { ReactTestInstance } from 'react-test-renderer';
+import { render, fireEvent, waitFor } from '@testing-library/react-native';
+import ResetPasswordScreen from '../../../src/screens/auth/ResetPasswordScreen';
+import { resetPassword } from '../../../src/api/auth.api';
+import { AUTH_ROUTES } from '../../../src/constants/navigation';
+import { ThemeProvider } from '../../../src/contexts/ThemeContext';
+import { AuthScreenProps } from '../../../src/types/navigation.types';
+
+// Mock the auth API
+jest.mock('../../../src/api/auth.api', () => ({
+  resetPassword: jest.fn()
+}));
+
+describe('ResetPasswordScreen', () => {
+  const mockNavigation = { navigate: jest.fn() };
+
+  const renderScreen = () => {
+    const props = {
+      navigation: mockNavigation,
+      route: { key: 'ResetPassword', name: 'ResetPassword', params: { email: 'test@example.com' } }
+    } as unknown as AuthScreenProps<'ResetPassword'>;
+
+    return render(
+      <ThemeProvider>
+        <ResetPasswordScreen {...props} />
+      </ThemeProvider>
+    );
+  };
+
+  const fillForm = (getByPlaceholderText: (text: string) => ReactTestInstance, confirmPassword = 'NewPassword1!') => {
+    fireEvent.changeText(getByPlaceholderText('Enter the code from the email'), 'a1b2c3');
+    fireEvent.changeText(getByPlaceholderText('Enter a new password'), 'NewPassword1!');
+    fireEvent.changeText(getByPlaceholderText('Confirm the new password'), confirmPassword);
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(Alert, 'alert').mockImplementation(() => undefined);
+  });
+
+  test('mentions the email address the code was sent to', () => {
+    const { getByText } = renderScreen();
+
+    expect(getByText(/If an account exists for test@example.com/)).toBeTruthy();
+  });
+
+  test('resets the password and returns to the login screen', async () => {
+    (resetPassword as jest.Mock).mockResolvedValue(undefined);
+
+    const { getByPlaceholderText, getAllByText } = renderScreen();
+
+    fillForm(getByPlaceholderText);
+    // The title and the button share the label
+    fireEvent.press(getAllByText('Reset Password')[1]);
+
+    await waitFor(() => {
+      expect(resetPassword).toHaveBeenCalledWith({ token: 'a1b2c3', newPassword: 'NewPassword1!' });
+      expect(mockNavigation.navigate).toHaveBeenCalledWith(AUTH_ROUTES.LOGIN);
+    });
+  });
+
+  test('requires the new password to be confirmed', async () => {
+    const { getByPlaceholderText, getAllByText, findByText } = renderScreen();
+
+    fillForm(getByPlaceholderText, 'OtherPassword1!');
+    fireEvent.press(getAllByText('Reset Password')[1]);
+
+    expect(await findByText('Passwords do not match')).toBeTruthy();
+    expect(resetPassword).not.toHaveBeenCalled();
+  });
+
+  test('displays an error message for an invalid or expired code', async () => {
+    (resetPassword as jest.Mock).mockRejectedValue({
+      message: 'This reset code is invalid or has expired. Please request a new one.'
+    });
+
+    const { getByPlaceholderText, getAllByText, findByText } = renderScreen();
+
+    fillForm(getByPlaceholderText);
+    fireEvent.press(getAllByText('Reset Password')[1]);
+
+    expect(await findByText('This reset code is invalid or has expired. Please request a new one.')).toBeTruthy();
+    expect(mockNavigation.navigate).not.toHaveBeenCalled();
+  });
+});
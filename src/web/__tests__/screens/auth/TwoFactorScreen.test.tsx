@@ -0,0 +1,85 @@
+import React from 'react';
+import { render, fireEvent, waitFor } from '@testing-library/react-native';
+import TwoFactorScreen from '../../../src/screens/auth/TwoFactorScreen';
+import { useAuth } from '../../../src/hooks/useAuth';
+import { AUTH_ROUTES } from '../../../src/constants/navigation';
+import { ThemeProvider } from '../../../src/contexts/ThemeContext';
+import { AuthScreenProps } from '../../../src/types/navigation.types';
+
+// Mock the useAuth hook
+jest.mock('../../../src/hooks/useAuth', () => ({
+  useAuth: jest.fn()
+}));
+
+describe('TwoFactorScreen', () => {
+  const mockNavigation = { navigate: jest.fn() };
+  const mockVerifyTwoFactor = jest.fn();
+
+  const renderScreen = () => {
+    const props = {
+      navigation: mockNavigation,
+      route: { key: 'TwoFactor', name: 'TwoFactor', params: { challengeToken: 'challenge-token' } }
+    } as unknown as AuthScreenProps<'TwoFactor'>;
+
+    return render(
+      <ThemeProvider>
+        <TwoFactorScreen {...props} />
+      </ThemeProvider>
+    );
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (useAuth as jest.Mock).mockReturnValue({ verifyTwoFactor: mockVerifyTwoFactor });
+  });
+
+  test('completes the login with the code from the authenticator app', async () => {
+    mockVerifyTwoFactor.mockResolvedValue(undefined);
+
+    const { getByPlaceholderText, getByText } = renderScreen();
+
+    fireEvent.changeText(getByPlaceholderText('123456'), ' 123456 ');
+    fireEvent.press(getByText('Verify'));
+
+    await waitFor(() => {
+      expect(mockVerifyTwoFactor).toHaveBeenCalledWith({ challengeToken: 'challenge-token', code: '123456' });
+    });
+  });
+
+  test('accepts a recovery code instead', async () => {
+    mockVerifyTwoFactor.mockResolvedValue(undefined);
+
+    const { getByPlaceholderText, getByText } = renderScreen();
+
+    fireEvent.press(getByText('Use a recovery code'));
+    fireEvent.changeText(getByPlaceholderText('xxxxx-xxxxx'), '3f9a2-c81d0');
+    fireEvent.press(getByText('Verify'));
+
+    await waitFor(() => {
+      expect(mockVerifyTwoFactor).toHaveBeenCalledWith({ challengeToken: 'challenge-token', code: '3f9a2-c81d0' });
+    });
+  });
+
+  test('requires a code and displays why verification failed', async () => {
+    mockVerifyTwoFactor.mockRejectedValue({ message: 'Invalid verification code' });
+
+    const { getByPlaceholderText, getByText, findByText } = renderScreen();
+
+    fireEvent.press(getByText('Verify'));
+    expect(getByText('Enter the code from your authenticator app')).toBeTruthy();
+    expect(mockVerifyTwoFactor).not.toHaveBeenCalled();
+
+    fireEvent.changeText(getByPlaceholderText('123456'), '000000');
+    fireEvent.press(getByText('Verify'));
+
+    expect(await findByText('Invalid verification code')).toBeTruthy();
+  });
+
+  test('returns to the login screen', () => {
+    const { getByText } = renderScreen();
+
+    fireEvent.press(getByText('Back to Log In'));
+
+    expect(mockNavigation.navigate).toHaveBeenCalledWith(AUTH_ROUTES.LOGIN);
+  });
+});
@@ -68,6 +68,8 @@ describe('ChatScreen', () => {
       title: 'Health Discussion',
       startedAt: new Date(),
       lastMessageAt: new Date(),
+      archived: false,
+      pinned: false,
       messages: mockMessages
     };
     
@@ -76,12 +78,18 @@ describe('ChatScreen', () => {
     
     // Mock useChat hook to return controlled test values
     (useChat as jest.Mock).mockReturnValue({
+      conversations: [mockActiveConversation],
+      archivedConversations: [],
       activeConversation: mockActiveConversation,
       loading: false,
       error: null,
       sendMessage: jest.fn().mockResolvedValue({}),
+      loadConversations: jest.fn().mockResolvedValue(undefined),
       loadConversation: jest.fn().mockResolvedValue({}),
-      createNewConversation: jest.fn().mockResolvedValue('new-conv-id')
+      createNewConversation: jest.fn().mockResolvedValue('new-conv-id'),
+      loadArchivedConversations: jest.fn().mockResolvedValue(undefined),
+      updateConversation: jest.fn().mockResolvedValue(undefined),
+      deleteConversation: jest.fn().mockResolvedValue(undefined)
     });
     
     // Mock useVoiceRecorder hook to return controlled test values
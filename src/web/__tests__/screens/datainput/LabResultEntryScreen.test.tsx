@@ -0,0 +1,252 @@
+import React from 'react';
+import { render, fireEvent, waitFor } from '@testing-library/react-native'; // ^11.5.0
+import { Alert } from 'react-native'; // 0.71.0
+import LabResultEntryScreen, { parseAnalyteRows, draftToAnalyteRows } from '../../../src/screens/datainput/LabResultEntryScreen';
+import { useCamera } from '../../../src/hooks/useCamera';
+import { useHealthData } from '../../../src/hooks/useHealthData';
+import NavigationService from '../../../src/navigation/NavigationService';
+import { HealthDataType } from '../../../src/types/health.types';
+import { ThemeProvider } from '../../../src/contexts/ThemeContext';
+
+// Mock the hooks, services and native components
+jest.mock('../../../src/hooks/useCamera', () => ({ useCamera: jest.fn() }));
+jest.mock('../../../src/hooks/useHealthData', () => ({ useHealthData: jest.fn() }));
+jest.mock('../../../src/navigation/NavigationService', () => ({
+  __esModule: true,
+  default: { goBack: jest.fn(), navigateToHealthLog: jest.fn() }
+}));
+jest.mock('../../../src/components/datainput/CameraView', () => () => null);
+jest.mock('../../../src/components/common/Header', () => () => null);
+jest.mock('../../../src/components/common/DatePicker', () => () => null);
+jest.mock('react-native/Libraries/Alert/Alert', () => ({ alert: jest.fn() }));
+
+// Helper function to render the screen with ThemeProvider
+const renderScreen = () => render(
+  <ThemeProvider>
+    <LabResultEntryScreen />
+  </ThemeProvider>
+);
+
+const image = { uri: 'file://lab.jpg', type: 'image/jpeg', name: 'lab.jpg' };
+
+const draft = {
+  healthDataId: '123',
+  fileId: 'file-1',
+  confidence: 0.84,
+  text: 'Glucose 95 mg/dL 70-99\nLDL 130 mg/dL <100',
+  analytes: [
+    { name: 'Glucose', value: 95, unit: 'mg/dL', referenceLow: 70, referenceHigh: 99, confidence: 0.93, line: 'Glucose 95 mg/dL 70-99' },
+    { name: 'LDL', value: 130, unit: 'mg/dL', referenceHigh: 100, confidence: 0.61, line: 'LDL 130 mg/dL <100' }
+  ]
+};
+
+describe('LabResultEntryScreen', () => {
+  let addHealthData: jest.Mock;
+  let editHealthData: jest.Mock;
+  let extractLabResultDraft: jest.Mock;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    (useCamera as jest.Mock).mockReturnValue({
+      image: null,
+      takePhoto: jest.fn(),
+      selectFromGallery: jest.fn(),
+      resetImage: jest.fn(),
+      isLoading: false,
+      error: null
+    });
+
+    addHealthData = jest.fn().mockResolvedValue({ id: '123' });
+    editHealthData = jest.fn().mockResolvedValue({ id: '123' });
+    extractLabResultDraft = jest.fn().mockResolvedValue(draft);
+    (useHealthData as jest.Mock).mockReturnValue({
+      addHealthData,
+      editHealthData,
+      extractLabResultDraft,
+      isSubmitting: false,
+      isExtracting: false,
+      error: null
+    });
+  });
+  
+  const mockImage = () => {
+    (useCamera as jest.Mock).mockReturnValue({
+      image,
+      takePhoto: jest.fn(),
+      selectFromGallery: jest.fn(),
+      resetImage: jest.fn(),
+      isLoading: false,
+      error: null
+    });
+  };
+
+  it('should add and remove analyte rows', () => {
+    const { getByText, queryByTestId, getByTestId } = renderScreen();
+
+    expect(queryByTestId('analyte-row-0')).toBeNull();
+
+    fireEvent.press(getByText('Add Analyte'));
+    fireEvent.press(getByText('Add Analyte'));
+    expect(getByTestId('analyte-row-1')).toBeTruthy();
+
+    fireEvent.press(getByTestId('analyte-remove-1'));
+    expect(queryByTestId('analyte-row-1')).toBeNull();
+    expect(getByTestId('analyte-row-0')).toBeTruthy();
+  });
+
+  it('should submit entered analytes without a photo', async () => {
+    const { getByText, getByPlaceholderText } = renderScreen();
+
+    fireEvent.changeText(getByPlaceholderText('e.g., Blood Test, Cholesterol, Glucose'), 'Metabolic Panel');
+    fireEvent.press(getByText('Add Analyte'));
+    fireEvent.changeText(getByPlaceholderText('e.g., Glucose, LDL Cholesterol'), 'Glucose');
+    fireEvent.changeText(getByPlaceholderText('e.g., 95'), '5.5');
+    fireEvent.changeText(getByPlaceholderText('e.g., mg/dL'), 'mmol/L');
+
+    fireEvent.press(getByText('Save'));
+
+    await waitFor(() => {
+      expect(addHealthData).toHaveBeenCalledWith(
+        expect.objectContaining({
+          testType: 'Metabolic Panel',
+          analytes: [{ name: 'Glucose', value: 5.5, unit: 'mmol/L', referenceLow: undefined, referenceHigh: undefined }],
+          image: undefined
+        }),
+        HealthDataType.LAB_RESULT
+      );
+    });
+    expect(NavigationService.navigateToHealthLog).toHaveBeenCalled();
+    expect(extractLabResultDraft).not.toHaveBeenCalled();
+  });
+
+  it('should read results from the photo for review and confirm them', async () => {
+    mockImage();
+    const { getByText, getByPlaceholderText, findByText, getAllByPlaceholderText } = renderScreen();
+
+    fireEvent.changeText(getByPlaceholderText('e.g., Blood Test, Cholesterol, Glucose'), 'Lipid Panel');
+    fireEvent.press(getByText('Save'));
+
+    expect(await findByText(/We read 2 results from your photo/)).toBeTruthy();
+    expect(extractLabResultDraft).toHaveBeenCalledWith('123');
+    expect(NavigationService.navigateToHealthLog).not.toHaveBeenCalled();
+
+    // Only the low-confidence row is flagged
+    expect(getAllByPlaceholderText('e.g., Glucose, LDL Cholesterol')).toHaveLength(2);
+    expect(getByText('This row may have been misread, please check it against your report')).toBeTruthy();
+
+    // Correct the misread value, which clears the flag
+    fireEvent.changeText(getAllByPlaceholderText('e.g., 95')[1], '103');
+    fireEvent.press(getByText('Confirm Results'));
+
+    await waitFor(() => {
+      expect(editHealthData).toHaveBeenCalledWith('123', expect.objectContaining({
+        type: HealthDataType.LAB_RESULT,
+        data: expect.objectContaining({
+          testType: 'Lipid Panel',
+          analytes: [
+            { name: 'Glucose', value: 95, unit: 'mg/dL', referenceLow: 70, referenceHigh: 99 },
+            { name: 'LDL', value: 103, unit: 'mg/dL', referenceLow: undefined, referenceHigh: 100 }
+          ]
+        })
+      }));
+    });
+    expect(addHealthData).toHaveBeenCalledTimes(1);
+    expect(NavigationService.navigateToHealthLog).toHaveBeenCalled();
+  });
+
+  it('should finish when no results could be read from the photo', async () => {
+    mockImage();
+    extractLabResultDraft.mockResolvedValue({ ...draft, analytes: [] });
+    const { getByText, getByPlaceholderText } = renderScreen();
+
+    fireEvent.changeText(getByPlaceholderText('e.g., Blood Test, Cholesterol, Glucose'), 'Blood Test');
+    fireEvent.press(getByText('Save'));
+
+    await waitFor(() => {
+      expect(NavigationService.navigateToHealthLog).toHaveBeenCalled();
+    });
+    expect(editHealthData).not.toHaveBeenCalled();
+  });
+
+  it('should show row errors and not submit invalid analytes', async () => {
+    mockImage();
+
+    const { getByText, getByPlaceholderText, findByText } = renderScreen();
+
+    fireEvent.changeText(getByPlaceholderText('e.g., Blood Test, Cholesterol, Glucose'), 'Blood Test');
+    fireEvent.press(getByText('Add Analyte'));
+    fireEvent.changeText(getByPlaceholderText('e.g., Glucose, LDL Cholesterol'), 'Glucose');
+    fireEvent.changeText(getByPlaceholderText('e.g., 95'), 'high');
+
+    fireEvent.press(getByText('Save'));
+
+    expect(await findByText('Value must be a number')).toBeTruthy();
+    expect(addHealthData).not.toHaveBeenCalled();
+  });
+
+  it('should require a photo when no analytes are entered', async () => {
+    const { getByText, getByPlaceholderText } = renderScreen();
+
+    fireEvent.changeText(getByPlaceholderText('e.g., Blood Test, Cholesterol, Glucose'), 'Blood Test');
+    fireEvent.press(getByText('Save'));
+
+    await waitFor(() => {
+      expect(Alert.alert).toHaveBeenCalledWith('Error', 'Please take a photo of your lab result or enter its results');
+    });
+    expect(addHealthData).not.toHaveBeenCalled();
+  });
+
+  describe('parseAnalyteRows', () => {
+    const row = (fields: Partial<Record<string, string>>) => ({
+      id: fields.id || 'row',
+      name: '',
+      value: '',
+      unit: '',
+      referenceLow: '',
+      referenceHigh: '',
+      ...fields
+    });
+
+    it('should parse values and reference ranges and skip blank rows', () => {
+      const result = parseAnalyteRows([
+        row({ id: 'a', name: ' LDL ', value: '130', unit: 'mg/dL', referenceHigh: '100' }),
+        row({ id: 'b' })
+      ]);
+
+      expect(result.errors).toEqual({});
+      expect(result.analytes).toEqual([
+        { name: 'LDL', value: 130, unit: 'mg/dL', referenceLow: undefined, referenceHigh: 100 }
+      ]);
+    });
+
+    it('should reject duplicate analytes and inverted reference ranges', () => {
+      const result = parseAnalyteRows([
+        row({ id: 'a', name: 'Glucose', value: '95', unit: 'mg/dL', referenceLow: '99', referenceHigh: '70' }),
+        row({ id: 'b', name: 'glucose', value: '96', unit: 'mg/dL' })
+      ]);
+
+      expect(result.analytes).toEqual([]);
+      expect(result.errors).toEqual({
+        a: 'Reference high must not be below reference low',
+        b: 'Each analyte can only be entered once'
+      });
+    });
+  });
+
+  describe('draftToAnalyteRows', () => {
+    it('should keep the confidence and leave missing fields blank', () => {
+      const rows = draftToAnalyteRows(draft);
+
+      expect(rows[1]).toMatchObject({
+        name: 'LDL',
+        value: '130',
+        unit: 'mg/dL',
+        referenceLow: '',
+        referenceHigh: '100',
+        confidence: 0.61
+      });
+      expect(rows[0].id).not.toEqual(rows[1].id);
+    });
+  });
+});
@@ -185,8 +185,8 @@ describe('HealthLogScreen component', () => {
       calendarComponent.props.onDateSelect(selectedDate);
     });
     
-    // Verify the hook was called with the correctly formatted date
-    expect(mockFetchHealthDataByDate).toHaveBeenCalledWith(formatAPIDate(selectedDate));
+    // Verify the data was fetched with the correctly formatted date
+    expect(mockFetchHealthData).toHaveBeenCalledWith({ date: formatAPIDate(selectedDate), page: 1, limit: 20 });
     
     // Calendar should be hidden after selection
     await waitFor(() => {
@@ -221,8 +221,8 @@ describe('HealthLogScreen component', () => {
         searchBarComponent.props.onSubmit();
       });
       
-      // Verify the search function was called with the search term
-      expect(mockSearchHealthDataItems).toHaveBeenCalledWith(searchTerm);
+      // Verify the data was fetched with the search term
+      expect(mockFetchHealthData).toHaveBeenCalledWith({ search: searchTerm, page: 1, limit: 20 });
     });
   });
 
@@ -0,0 +1,142 @@
+import React from 'react';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react-native';
+import InsightsScreen from '../../../src/screens/insights/InsightsScreen';
+import { useHealthData } from '../../../src/hooks/useHealthData';
+import { ThemeProvider } from '../../../src/contexts/ThemeContext';
+
+// Mock the health data hook
+jest.mock('../../../src/hooks/useHealthData', () => ({
+  useHealthData: jest.fn()
+}));
+
+// Mock the common components barrel, which pulls in image assets
+jest.mock('../../../src/components/common', () => ({
+  Header: () => null
+}));
+
+// Helper function to render the screen with ThemeProvider
+const renderScreen = () => {
+  const mockNavigation = { navigate: jest.fn() };
+  const mockRoute = { key: '', name: 'Insights', params: {} };
+  return render(
+    <ThemeProvider>
+      <InsightsScreen navigation={mockNavigation as any} route={mockRoute as any} />
+    </ThemeProvider>
+  );
+};
+
+describe('InsightsScreen', () => {
+  const mockFetchHealthInsights = jest.fn().mockResolvedValue(null);
+
+  // Insights for a one week range with a meal, two symptoms and a lab test
+  const mockInsights = {
+    startDate: '2023-05-09T00:00:00.000Z',
+    endDate: '2023-05-15T23:59:59.999Z',
+    timezone: 'UTC',
+    mealsPerDay: [
+      { date: '2023-05-15', counts: { breakfast: 1, lunch: 0, dinner: 0, snack: 0 }, total: 1 }
+    ],
+    symptomTrend: [
+      {
+        weekStart: '2023-05-15',
+        count: 2,
+        severityCounts: { mild: 1, moderate: 0, severe: 1 },
+        averageSeverity: 2
+      }
+    ],
+    labTestHistory: [
+      {
+        testType: 'Blood Test',
+        count: 2,
+        entries: [
+          { id: '1', testDate: '2023-05-10T00:00:00.000Z', results: {} },
+          { id: '2', testDate: '2023-05-14T00:00:00.000Z', results: {} }
+        ]
+      }
+    ]
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    (useHealthData as jest.Mock).mockReturnValue({
+      insights: null,
+      isLoadingInsights: false,
+      error: null,
+      fetchHealthInsights: mockFetchHealthInsights
+    });
+  });
+
+  test('fetches insights for the default 30 day window on mount', async () => {
+    renderScreen();
+
+    await waitFor(() => expect(mockFetchHealthInsights).toHaveBeenCalledTimes(1));
+
+    const params = mockFetchHealthInsights.mock.calls[0][0];
+    const days = (new Date(params.endDate).getTime() - new Date(params.startDate).getTime()) / (24 * 60 * 60 * 1000);
+    expect(days).toBeGreaterThan(29);
+    expect(days).toBeLessThanOrEqual(30);
+    expect(typeof params.timezone).toBe('string');
+  });
+
+  test('refetches insights when a different time window is selected', async () => {
+    renderScreen();
+    await waitFor(() => expect(mockFetchHealthInsights).toHaveBeenCalledTimes(1));
+
+    fireEvent.press(screen.getByTestId('insights-window-7'));
+
+    await waitFor(() => expect(mockFetchHealthInsights).toHaveBeenCalledTimes(2));
+
+    const params = mockFetchHealthInsights.mock.calls[1][0];
+    const days = (new Date(params.endDate).getTime() - new Date(params.startDate).getTime()) / (24 * 60 * 60 * 1000);
+    expect(days).toBeLessThanOrEqual(7);
+  });
+
+  test('renders charts and lab test history when insights are loaded', () => {
+    (useHealthData as jest.Mock).mockReturnValue({
+      insights: mockInsights,
+      isLoadingInsights: false,
+      error: null,
+      fetchHealthInsights: mockFetchHealthInsights
+    });
+
+    renderScreen();
+
+    expect(screen.getByLabelText('Meals per day chart, 1 meals logged')).toBeTruthy();
+    expect(screen.getByLabelText('Symptoms per week chart, 2 symptoms reported')).toBeTruthy();
+    expect(screen.getByText('Blood Test')).toBeTruthy();
+  });
+
+  test('shows empty messages when nothing was logged', () => {
+    (useHealthData as jest.Mock).mockReturnValue({
+      insights: { ...mockInsights, mealsPerDay: [], symptomTrend: [], labTestHistory: [] },
+      isLoadingInsights: false,
+      error: null,
+      fetchHealthInsights: mockFetchHealthInsights
+    });
+
+    renderScreen();
+
+    expect(screen.getByText('No meals logged in this period.')).toBeTruthy();
+    expect(screen.getByText('No symptoms reported in this period.')).toBeTruthy();
+    expect(screen.getByText('No lab results in this period.')).toBeTruthy();
+  });
+
+  test('shows an error message with retry when loading fails', async () => {
+    (useHealthData as jest.Mock).mockReturnValue({
+      insights: null,
+      isLoadingInsights: false,
+      error: 'Failed to load insights',
+      fetchHealthInsights: mockFetchHealthInsights
+    });
+
+    renderScreen();
+    await waitFor(() => expect(mockFetchHealthInsights).toHaveBeenCalledTimes(1));
+
+    expect(screen.getByText('Failed to load insights')).toBeTruthy();
+
+    fireEvent.press(screen.getByText('Retry'));
+
+    expect(mockFetchHealthInsights).toHaveBeenCalledTimes(2);
+  });
+});
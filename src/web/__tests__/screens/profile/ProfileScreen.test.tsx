@@ -1,13 +1,35 @@
 import React from 'react';
-import { render, screen, fireEvent, waitFor } from '@testing-library/react-native';
+import { render, screen, fireEvent, waitFor, act } from '@testing-library/react-native';
 import ProfileScreen from '../../../src/screens/profile/ProfileScreen';
 import useAuth from '../../../src/hooks/useAuth';
 import { formatDisplayDate } from '../../../src/utils/date.utils';
+import {
+  getCurrentUser,
+  updateUserProfile,
+  requestDataExport,
+  getDataExport,
+  downloadDataExport,
+  deleteAccount
+} from '../../../src/api/user.api';
+import { authService } from '../../../src/services/auth.service';
+import { DataExportStatus, UnitsPreference } from '../../../src/types/user.types';
+import { MAIN_TAB_ROUTES } from '../../../src/constants/navigation';
 
 // Mock the necessary modules
 jest.mock('../../../src/hooks/useAuth', () => ({ __esModule: true, default: jest.fn() }));
 jest.mock('react-native/Libraries/Alert/Alert', () => ({ alert: jest.fn() }));
 jest.mock('../../../src/utils/date.utils', () => ({ formatDisplayDate: jest.fn() }));
+jest.mock('../../../src/api/user.api', () => ({
+  getCurrentUser: jest.fn(),
+  updateUserProfile: jest.fn(),
+  requestDataExport: jest.fn(),
+  getDataExport: jest.fn(),
+  downloadDataExport: jest.fn(),
+  deleteAccount: jest.fn()
+}));
+jest.mock('../../../src/services/auth.service', () => ({
+  authService: { changePassword: jest.fn(), disableTwoFactor: jest.fn() }
+}));
 
 describe('ProfileScreen', () => {
   // Setup variables used across tests
@@ -18,6 +40,15 @@ describe('ProfileScreen', () => {
     email: 'test@example.com',
     createdAt: '2023-01-01T00:00:00.000Z'
   };
+  const mockProfile = {
+    ...mockUser,
+    twoFactorEnabled: false,
+    conditions: [],
+    allergies: [],
+    medications: [],
+    dietaryPreferences: [],
+    unitsPreference: UnitsPreference.METRIC
+  };
   const mockLogout = jest.fn();
   
   beforeEach(() => {
@@ -31,6 +62,9 @@ describe('ProfileScreen', () => {
       logout: mockLogout
     });
     
+    // Setup the health profile, which the screen loads itself
+    (getCurrentUser as jest.Mock).mockResolvedValue({ success: true, message: '', data: mockProfile });
+    
     // Setup formatDisplayDate mock to return a predictable date string
     (formatDisplayDate as jest.Mock).mockReturnValue('Jan 1, 2023');
   });
@@ -128,4 +162,238 @@ describe('ProfileScreen', () => {
     // Verify that a placeholder is shown for missing data
     expect(screen.getByText('N/A')).toBeTruthy();
   });
+
+  describe('health profile', () => {
+    test('shows the health profile and saves the changes made in the form', async () => {
+      const profile = { ...mockProfile, displayName: 'Alex', heightCm: 170, allergies: ['Peanuts'] };
+      (getCurrentUser as jest.Mock).mockResolvedValue({ success: true, message: '', data: profile });
+      (updateUserProfile as jest.Mock).mockResolvedValue({
+        success: true,
+        message: '',
+        data: { ...profile, allergies: ['Peanuts', 'Shellfish'] }
+      });
+
+      render(<ProfileScreen navigation={mockNavigation} route={mockRoute} />);
+
+      await waitFor(() => expect(screen.getByText('Peanuts')).toBeTruthy());
+      expect(screen.getByText('170 cm')).toBeTruthy();
+
+      fireEvent.press(screen.getByText('Edit Health Profile'));
+      fireEvent.changeText(screen.getByDisplayValue('Peanuts'), 'Peanuts, Shellfish, peanuts');
+      fireEvent.press(screen.getByText('Save Profile'));
+
+      await waitFor(() => expect(screen.getByText('Peanuts, Shellfish')).toBeTruthy());
+      expect(updateUserProfile).toHaveBeenCalledWith(expect.objectContaining({
+        displayName: 'Alex',
+        heightCm: 170,
+        weightKg: null,
+        allergies: ['Peanuts', 'Shellfish'],
+        unitsPreference: UnitsPreference.METRIC
+      }));
+    });
+
+    test('converts imperial measurements to metric and rejects values out of range', async () => {
+      (updateUserProfile as jest.Mock).mockResolvedValue({ success: true, message: '', data: mockProfile });
+
+      render(<ProfileScreen navigation={mockNavigation} route={mockRoute} />);
+      await waitFor(() => expect(getCurrentUser).toHaveBeenCalled());
+
+      fireEvent.press(screen.getByText('Edit Health Profile'));
+      fireEvent.press(screen.getByLabelText('Imperial (in, lb), not selected'));
+      fireEvent.changeText(screen.getByPlaceholderText('e.g. 67'), '700');
+      fireEvent.press(screen.getByText('Save Profile'));
+
+      expect(screen.getByText('Height must be between 12 and 118 in')).toBeTruthy();
+      expect(updateUserProfile).not.toHaveBeenCalled();
+
+      fireEvent.changeText(screen.getByPlaceholderText('e.g. 67'), '67');
+      fireEvent.changeText(screen.getByPlaceholderText('e.g. 150'), '150');
+      fireEvent.press(screen.getByText('Save Profile'));
+
+      await waitFor(() => expect(updateUserProfile).toHaveBeenCalledWith(expect.objectContaining({
+        heightCm: 170.2,
+        weightKg: 68,
+        unitsPreference: UnitsPreference.IMPERIAL
+      })));
+    });
+  });
+
+  describe('data export', () => {
+    const pendingExport = {
+      id: 'export-1',
+      status: DataExportStatus.PENDING,
+      createdAt: '2023-05-15T10:00:00.000Z',
+      expiresAt: '2023-05-16T10:00:00.000Z'
+    };
+    const completedExport = {
+      ...pendingExport,
+      status: DataExportStatus.COMPLETED,
+      size: 2048,
+      downloadUrl: '/api/users/me/export/export-1/download'
+    };
+
+    test('starts an export and polls until the archive is ready', async () => {
+      (requestDataExport as jest.Mock).mockResolvedValue({ success: true, message: '', data: pendingExport });
+      (getDataExport as jest.Mock).mockResolvedValue({ success: true, message: '', data: completedExport });
+
+      render(<ProfileScreen navigation={mockNavigation} route={mockRoute} />);
+
+      fireEvent.press(screen.getByText('Export My Data'));
+      await waitFor(() => expect(screen.getByTestId('export-status').props.children).toContain('Preparing'));
+      expect(requestDataExport).toHaveBeenCalledTimes(1);
+
+      // The status is checked again after the poll interval (timers are faked in the test setup)
+      await act(async () => {
+        jest.advanceTimersByTime(3000);
+      });
+
+      await waitFor(() => expect(screen.getByText('Download Export')).toBeTruthy());
+      expect(getDataExport).toHaveBeenCalledWith('export-1');
+    });
+
+    test('downloads a completed export and shows where it was saved', async () => {
+      const Alert = require('react-native/Libraries/Alert/Alert');
+      (requestDataExport as jest.Mock).mockResolvedValue({ success: true, message: '', data: completedExport });
+      (downloadDataExport as jest.Mock).mockResolvedValue('file:///documents/health-advisor-export-export-1.zip');
+
+      render(<ProfileScreen navigation={mockNavigation} route={mockRoute} />);
+
+      fireEvent.press(screen.getByText('Export My Data'));
+      await waitFor(() => expect(screen.getByText('Download Export')).toBeTruthy());
+
+      fireEvent.press(screen.getByText('Download Export'));
+      await waitFor(() => expect(Alert.alert).toHaveBeenCalledWith(
+        'Export Downloaded',
+        expect.stringContaining('file:///documents/health-advisor-export-export-1.zip')
+      ));
+      expect(downloadDataExport).toHaveBeenCalledWith('export-1');
+    });
+  });
+
+  describe('password change', () => {
+    // Opens the password change form and fills it in
+    const fillPasswordForm = (newPassword: string, confirmPassword: string) => {
+      fireEvent.press(screen.getByText('Change Password'));
+      fireEvent.changeText(screen.getByPlaceholderText('Enter your current password'), 'OldPassword1!');
+      fireEvent.changeText(screen.getByPlaceholderText('Enter a new password'), newPassword);
+      fireEvent.changeText(screen.getByPlaceholderText('Confirm the new password'), confirmPassword);
+    };
+
+    test('changes the password and keeps the user signed in', async () => {
+      (authService.changePassword as jest.Mock).mockResolvedValue({ token: 'token', refreshToken: 'refresh', user: mockUser });
+      const Alert = require('react-native/Libraries/Alert/Alert');
+
+      render(<ProfileScreen navigation={mockNavigation} route={mockRoute} />);
+      fillPasswordForm('NewPassword1!', 'NewPassword1!');
+
+      // The section, the form title and the submit button share the label
+      const changeButtons = screen.getAllByText('Change Password');
+      fireEvent.press(changeButtons[changeButtons.length - 1]);
+
+      await waitFor(() => expect(Alert.alert).toHaveBeenCalledWith('Password Changed', expect.any(String)));
+      expect(authService.changePassword).toHaveBeenCalledWith({
+        currentPassword: 'OldPassword1!',
+        newPassword: 'NewPassword1!'
+      });
+      expect(mockLogout).not.toHaveBeenCalled();
+    });
+
+    test('validates the form and shows why the change failed', async () => {
+      (authService.changePassword as jest.Mock).mockRejectedValue({
+        type: 'VALIDATION_ERROR',
+        message: 'Current password is incorrect',
+        details: {}
+      });
+
+      render(<ProfileScreen navigation={mockNavigation} route={mockRoute} />);
+      fillPasswordForm('NewPassword1!', 'OtherPassword1!');
+
+      const changeButtons = screen.getAllByText('Change Password');
+      fireEvent.press(changeButtons[changeButtons.length - 1]);
+      expect(screen.getByText('Passwords do not match')).toBeTruthy();
+      expect(authService.changePassword).not.toHaveBeenCalled();
+
+      fireEvent.changeText(screen.getByPlaceholderText('Confirm the new password'), 'NewPassword1!');
+      fireEvent.press(changeButtons[changeButtons.length - 1]);
+
+      await waitFor(() => expect(screen.getByText('Current password is incorrect')).toBeTruthy());
+    });
+  });
+
+  describe('two-factor authentication', () => {
+    test('opens the setup screen to enable it', async () => {
+      render(<ProfileScreen navigation={mockNavigation} route={mockRoute} />);
+
+      fireEvent.press(await screen.findByText('Enable Two-Factor Authentication'));
+
+      expect(mockNavigation.navigate).toHaveBeenCalledWith(MAIN_TAB_ROUTES.TWO_FACTOR_SETUP);
+    });
+
+    test('disables it with the password and a code', async () => {
+      (getCurrentUser as jest.Mock).mockResolvedValue({
+        success: true,
+        message: '',
+        data: { ...mockProfile, twoFactorEnabled: true }
+      });
+      (authService.disableTwoFactor as jest.Mock).mockResolvedValue(undefined);
+
+      render(<ProfileScreen navigation={mockNavigation} route={mockRoute} />);
+      fireEvent.press(await screen.findByText('Disable Two-Factor Authentication'));
+
+      // Both are required before anything is sent
+      fireEvent.press(screen.getByText('Disable'));
+      expect(screen.getByText('Please enter your password and a verification code')).toBeTruthy();
+
+      fireEvent.changeText(screen.getByPlaceholderText('Enter your password'), 'Password123!');
+      fireEvent.changeText(screen.getByPlaceholderText('Code from your app or a recovery code'), ' 123456 ');
+      fireEvent.press(screen.getByText('Disable'));
+
+      await waitFor(() => expect(screen.getByText('Enable Two-Factor Authentication')).toBeTruthy());
+      expect(authService.disableTwoFactor).toHaveBeenCalledWith({ password: 'Password123!', code: '123456' });
+    });
+  });
+
+  describe('account deletion', () => {
+    // Confirms the warning and opens the password prompt
+    const openPasswordPrompt = () => {
+      const Alert = require('react-native/Libraries/Alert/Alert');
+
+      fireEvent.press(screen.getByText('Delete My Account'));
+      expect(Alert.alert).toHaveBeenCalledWith('Delete Account', expect.stringContaining('cannot be undone'), expect.any(Array));
+
+      const continueButton = Alert.alert.mock.calls[0][2].find(button => button.text === 'Continue');
+      act(() => continueButton.onPress());
+    };
+
+    test('deletes the account with the re-entered password and logs out', async () => {
+      (deleteAccount as jest.Mock).mockResolvedValue(undefined);
+
+      render(<ProfileScreen navigation={mockNavigation} route={mockRoute} />);
+      openPasswordPrompt();
+
+      fireEvent.changeText(screen.getByPlaceholderText('Enter your password'), 'Password123!');
+      fireEvent.press(screen.getByText('Delete Permanently'));
+
+      await waitFor(() => expect(mockLogout).toHaveBeenCalled());
+      expect(deleteAccount).toHaveBeenCalledWith('Password123!');
+    });
+
+    test('shows why the deletion failed and keeps the user signed in', async () => {
+      (deleteAccount as jest.Mock).mockRejectedValue({ type: 'VALIDATION_ERROR', message: 'Password is incorrect', details: {} });
+
+      render(<ProfileScreen navigation={mockNavigation} route={mockRoute} />);
+      openPasswordPrompt();
+
+      // The password is required before anything is sent
+      fireEvent.press(screen.getByText('Delete Permanently'));
+      expect(screen.getByText('Please enter your password')).toBeTruthy();
+      expect(deleteAccount).not.toHaveBeenCalled();
+
+      fireEvent.changeText(screen.getByPlaceholderText('Enter your password'), 'wrong-password');
+      fireEvent.press(screen.getByText('Delete Permanently'));
+
+      await waitFor(() => expect(screen.getByText('Password is incorrect')).toBeTruthy());
+      expect(mockLogout).not.toHaveBeenCalled();
+    });
+  });
 });
\ No newline at end of file
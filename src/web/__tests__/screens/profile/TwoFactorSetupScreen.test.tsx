@@ -0,0 +1,71 @@
+import React from 'react';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react-native';
+import TwoFactorSetupScreen from '../../../src/screens/profile/TwoFactorSetupScreen';
+import { authService } from '../../../src/services/auth.service';
+import { MAIN_TAB_ROUTES } from '../../../src/constants/navigation';
+import { ThemeProvider } from '../../../src/contexts/ThemeContext';
+import { MainTabScreenProps } from '../../../src/types/navigation.types';
+
+jest.mock('../../../src/services/auth.service', () => ({
+  authService: { setupTwoFactor: jest.fn(), enableTwoFactor: jest.fn() }
+}));
+
+describe('TwoFactorSetupScreen', () => {
+  const mockNavigation = { navigate: jest.fn() };
+  const setup = {
+    secret: 'JBSWY3DPEHPK3PXP',
+    otpauthUrl: 'otpauth://totp/Health%20Advisor:test%40example.com?secret=JBSWY3DPEHPK3PXP',
+    qrCode: 'data:image/png;base64,iVBORw0KGgo='
+  };
+
+  const renderScreen = () => {
+    const props = {
+      navigation: mockNavigation,
+      route: { key: 'TwoFactorSetup', name: 'TwoFactorSetup', params: undefined }
+    } as unknown as MainTabScreenProps<'TwoFactorSetup'>;
+
+    return render(
+      <ThemeProvider>
+        <TwoFactorSetupScreen {...props} />
+      </ThemeProvider>
+    );
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (authService.setupTwoFactor as jest.Mock).mockResolvedValue(setup);
+  });
+
+  test('shows the secret to add to the authenticator app', async () => {
+    renderScreen();
+
+    expect(await screen.findByText(setup.secret)).toBeTruthy();
+    expect(screen.getByLabelText('QR code for your authenticator app').props.source).toEqual({ uri: setup.qrCode });
+  });
+
+  test('enables two-factor authentication and shows the recovery codes once', async () => {
+    (authService.enableTwoFactor as jest.Mock).mockResolvedValue({ recoveryCodes: ['3f9a2-c81d0', '7b1e4-09aa2'] });
+
+    renderScreen();
+    fireEvent.changeText(await screen.findByPlaceholderText('123456'), '123456');
+    fireEvent.press(screen.getByText('Enable'));
+
+    expect(await screen.findByText('3f9a2-c81d0')).toBeTruthy();
+    expect(screen.getByText('7b1e4-09aa2')).toBeTruthy();
+    expect(authService.enableTwoFactor).toHaveBeenCalledWith('123456');
+
+    fireEvent.press(screen.getByText('Done'));
+    expect(mockNavigation.navigate).toHaveBeenCalledWith(MAIN_TAB_ROUTES.PROFILE, { twoFactorEnabled: true });
+  });
+
+  test('displays why the code was rejected', async () => {
+    (authService.enableTwoFactor as jest.Mock).mockRejectedValue({ message: 'Invalid verification code' });
+
+    renderScreen();
+    fireEvent.changeText(await screen.findByPlaceholderText('123456'), '000000');
+    fireEvent.press(screen.getByText('Enable'));
+
+    await waitFor(() => expect(screen.getByText('Invalid verification code')).toBeTruthy());
+    expect(screen.queryByText('Done')).toBeNull();
+  });
+});
@@ -12,6 +12,8 @@ import { authService } from '../../src/services/auth.service';
 import { 
   login, 
   signup, 
+  logout,
+  verifyTwoFactorLogin,
   setAuthToken, 
   clearAuthToken 
 } from '../../src/api/auth.api';
@@ -19,6 +21,9 @@ import {
   storeAuthToken, 
   getAuthToken, 
   removeAuthToken, 
+  storeRefreshToken,
+  getRefreshToken,
+  removeRefreshToken,
   storeUserInfo, 
   getUserInfo 
 } from '../../src/services/storage.service';
@@ -52,6 +57,7 @@ jest.mock('../../src/utils/error.utils');
 const createMockAuthResponse = (overrides: Partial<AuthResponse> = {}): AuthResponse => {
   return {
     token: 'mock-jwt-token',
+    refreshToken: 'mock-refresh-token',
     user: createMockUser(),
     ...overrides
   };
@@ -146,6 +152,7 @@ describe('login', () => {
     await authService.login(credentials);
     
     expect(storeAuthToken).toHaveBeenCalledWith(mockResponse.token);
+    expect(storeRefreshToken).toHaveBeenCalledWith(mockResponse.refreshToken);
     expect(storeUserInfo).toHaveBeenCalledWith(mockResponse.user);
     expect(setAuthToken).toHaveBeenCalledWith(mockResponse.token);
   });
@@ -169,6 +176,52 @@ describe('login', () => {
     await expect(authService.login(credentials)).rejects.toThrow('Parsed API error');
     expect(parseApiError).toHaveBeenCalledWith(apiError);
   });
+
+  test('should return the two-factor challenge without storing anything', async () => {
+    // Mock validation to pass
+    (validateLoginForm as jest.Mock).mockReturnValue({});
+    (isFormValid as jest.Mock).mockReturnValue(true);
+    
+    const challenge = { twoFactorRequired: true, challengeToken: 'mock-challenge-token' };
+    (login as jest.Mock).mockResolvedValue(challenge);
+    
+    const result = await authService.login({ email: 'test@example.com', password: 'Password123!' });
+    
+    expect(result).toEqual(challenge);
+    expect(storeAuthToken).not.toHaveBeenCalled();
+    expect(setAuthToken).not.toHaveBeenCalled();
+  });
+});
+
+describe('verifyTwoFactorLogin', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  test('should store authentication data once the code is accepted', async () => {
+    const mockResponse = createMockAuthResponse();
+    (verifyTwoFactorLogin as jest.Mock).mockResolvedValue(mockResponse);
+    
+    const request = { challengeToken: 'mock-challenge-token', code: '123456' };
+    const result = await authService.verifyTwoFactorLogin(request);
+    
+    expect(verifyTwoFactorLogin).toHaveBeenCalledWith(request);
+    expect(result).toEqual(mockResponse);
+    expect(storeAuthToken).toHaveBeenCalledWith(mockResponse.token);
+    expect(storeRefreshToken).toHaveBeenCalledWith(mockResponse.refreshToken);
+    expect(storeUserInfo).toHaveBeenCalledWith(mockResponse.user);
+    expect(setAuthToken).toHaveBeenCalledWith(mockResponse.token);
+  });
+
+  test('should handle a rejected code', async () => {
+    const apiError = new Error('API error');
+    (verifyTwoFactorLogin as jest.Mock).mockRejectedValue(apiError);
+    (parseApiError as jest.Mock).mockReturnValueOnce(new Error('Invalid verification code'));
+    
+    await expect(authService.verifyTwoFactorLogin({ challengeToken: 'mock-challenge-token', code: '000000' }))
+      .rejects.toThrow('Invalid verification code');
+    expect(storeAuthToken).not.toHaveBeenCalled();
+  });
 });
 
 describe('signup', () => {
@@ -249,6 +302,7 @@ describe('signup', () => {
     await authService.signup(credentials);
     
     expect(storeAuthToken).toHaveBeenCalledWith(mockResponse.token);
+    expect(storeRefreshToken).toHaveBeenCalledWith(mockResponse.refreshToken);
     expect(storeUserInfo).toHaveBeenCalledWith(mockResponse.user);
     expect(setAuthToken).toHaveBeenCalledWith(mockResponse.token);
   });
@@ -285,6 +339,25 @@ describe('logout', () => {
     
     expect(clearAuthToken).toHaveBeenCalled();
     expect(removeAuthToken).toHaveBeenCalled();
+    expect(removeRefreshToken).toHaveBeenCalled();
+  });
+
+  test('should revoke the session on the server', async () => {
+    (getRefreshToken as jest.Mock).mockResolvedValueOnce('mock-refresh-token');
+    
+    await authService.logout();
+    
+    expect(logout).toHaveBeenCalledWith('mock-refresh-token');
+  });
+
+  test('should clear local data even if revoking the session fails', async () => {
+    (getRefreshToken as jest.Mock).mockResolvedValueOnce('mock-refresh-token');
+    (logout as jest.Mock).mockRejectedValueOnce(new Error('Network error'));
+    
+    await authService.logout();
+    
+    expect(clearAuthToken).toHaveBeenCalled();
+    expect(removeRefreshToken).toHaveBeenCalled();
   });
 
   test('should handle errors during logout', async () => {
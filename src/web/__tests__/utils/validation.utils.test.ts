@@ -11,14 +11,24 @@ import {
   validateDate,
   validateLoginForm,
   validateSignupForm,
+  validateForgotPasswordForm,
+  validateResetPasswordForm,
+  validateChangePasswordForm,
   validateMealForm,
   validateLabResultForm,
   validateSymptomForm,
+  validateHealthProfileForm,
   isFormValid,
   sanitizeInput
 } from '../../src/utils/validation.utils';
 import { HealthDataType, MealType, SymptomSeverity } from '../../src/types/health.types';
-import { LoginRequest, SignupRequest } from '../../src/types/auth.types';
+import {
+  LoginRequest,
+  SignupRequest,
+  ResetPasswordFormValues,
+  ChangePasswordFormValues
+} from '../../src/types/auth.types';
+import { HealthProfileFormValues, Sex, UnitsPreference } from '../../src/types/user.types';
 
 describe('isValidEmail', () => {
   it('should return true for properly formatted emails', () => {
@@ -505,6 +515,53 @@ describe('validateSignupForm', () => {
   });
 });
 
+describe('validateForgotPasswordForm', () => {
+  it('should validate the email address', () => {
+    expect(validateForgotPasswordForm({ email: 'user@example.com' })).toEqual({});
+    expect(validateForgotPasswordForm({ email: 'invalid-email' }).email).toBeDefined();
+  });
+});
+
+describe('validateResetPasswordForm', () => {
+  const validForm: ResetPasswordFormValues = {
+    token: 'a1b2c3',
+    newPassword: 'Password123!',
+    confirmPassword: 'Password123!'
+  };
+
+  it('should validate valid reset password form data', () => {
+    expect(validateResetPasswordForm(validForm)).toEqual({});
+  });
+
+  it('should require the reset code, a strong password and its confirmation', () => {
+    const errors = validateResetPasswordForm({ token: '', newPassword: 'weak', confirmPassword: 'other' });
+    expect(errors.token).toBe('Reset code is required');
+    expect(errors.newPassword).toBeDefined();
+    expect(errors.confirmPassword).toBe('Passwords do not match');
+  });
+});
+
+describe('validateChangePasswordForm', () => {
+  const validForm: ChangePasswordFormValues = {
+    currentPassword: 'OldPassword1!',
+    newPassword: 'Password123!',
+    confirmPassword: 'Password123!'
+  };
+
+  it('should validate valid change password form data', () => {
+    expect(validateChangePasswordForm(validForm)).toEqual({});
+  });
+
+  it('should require the current password and a different new password', () => {
+    expect(validateChangePasswordForm({ ...validForm, currentPassword: '' }).currentPassword)
+      .toBe('Current password is required');
+    expect(validateChangePasswordForm({ ...validForm, currentPassword: 'Password123!' }).newPassword)
+      .toBe('New password must be different from the current password');
+    expect(validateChangePasswordForm({ ...validForm, confirmPassword: 'Other123!' }).confirmPassword)
+      .toBe('Passwords do not match');
+  });
+});
+
 describe('validateMealForm', () => {
   it('should validate valid meal form data', () => {
     const validForm = {
@@ -704,6 +761,66 @@ describe('validateSymptomForm', () => {
   });
 });
 
+describe('validateHealthProfileForm', () => {
+  const validForm: HealthProfileFormValues = {
+    displayName: 'Alex',
+    dateOfBirth: '1985-04-12',
+    sex: Sex.FEMALE,
+    height: '170',
+    weight: '68',
+    conditions: 'Asthma',
+    allergies: 'Peanuts, Penicillin',
+    medications: '',
+    dietaryPreferences: 'Vegetarian',
+    unitsPreference: UnitsPreference.METRIC
+  };
+  
+  it('should return no errors for a valid profile', () => {
+    expect(validateHealthProfileForm(validForm)).toEqual({});
+  });
+  
+  it('should accept a profile with every field left empty', () => {
+    const emptyForm: HealthProfileFormValues = {
+      ...validForm,
+      displayName: '',
+      dateOfBirth: '',
+      sex: '',
+      height: '',
+      weight: '',
+      conditions: '',
+      allergies: '',
+      dietaryPreferences: ''
+    };
+    expect(validateHealthProfileForm(emptyForm)).toEqual({});
+  });
+  
+  it('should reject dates of birth that are malformed or in the future', () => {
+    expect(validateHealthProfileForm({ ...validForm, dateOfBirth: '12/04/1985' }).dateOfBirth)
+      .toBe('Date of birth must be a date in the format YYYY-MM-DD');
+    expect(validateHealthProfileForm({ ...validForm, dateOfBirth: '2999-01-01' }).dateOfBirth)
+      .toBe('Date of birth must be between 1900 and today');
+  });
+  
+  it('should check height and weight in the units they were entered in', () => {
+    const metricErrors = validateHealthProfileForm({ ...validForm, height: '700', weight: 'heavy' });
+    expect(metricErrors.height).toBe('Height must be between 30 and 300 cm');
+    expect(metricErrors.weight).toBe('Weight must be between 1 and 500 kg');
+    
+    const imperialForm = { ...validForm, height: '67', weight: '150', unitsPreference: UnitsPreference.IMPERIAL };
+    expect(validateHealthProfileForm(imperialForm)).toEqual({});
+    expect(validateHealthProfileForm({ ...imperialForm, weight: '1200' }).weight)
+      .toBe('Weight must be between 3 and 1102 lb');
+  });
+  
+  it('should limit the number and length of list entries', () => {
+    const manyConditions = Array.from({ length: 31 }, (_, i) => `Condition ${i}`).join(', ');
+    expect(validateHealthProfileForm({ ...validForm, conditions: manyConditions }).conditions)
+      .toBe('Conditions can have at most 30 entries');
+    expect(validateHealthProfileForm({ ...validForm, medications: 'a'.repeat(101) }).medications)
+      .toBe('Each entry in medications must be at most 100 characters');
+  });
+});
+
 describe('isFormValid', () => {
   it('should return true for empty errors object', () => {
     expect(isFormValid({})).toBe(true);
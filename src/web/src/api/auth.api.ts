@@ -12,7 +12,16 @@ import { ENDPOINTS } from '../constants/endpoints';
 import { 
   LoginRequest, 
   SignupRequest, 
-  AuthResponse 
+  AuthResponse,
+  LoginResponse,
+  TwoFactorLoginRequest,
+  TwoFactorSetupResponse,
+  EnableTwoFactorRequest,
+  TwoFactorRecoveryCodesResponse,
+  DisableTwoFactorRequest,
+  ChangePasswordRequest,
+  ForgotPasswordRequest,
+  ResetPasswordRequest
 } from '../types/auth.types';
 
 /**
@@ -21,15 +30,30 @@ import {
  * Implements F-001-RQ-002: User login with email and password
  * 
  * @param credentials - Object containing email and password
- * @returns Promise that resolves with authentication response containing token and user data
+ * @returns Promise that resolves with authentication response containing token and user data,
+ * or with a challenge when the user has two-factor authentication
  */
-export const login = async (credentials: LoginRequest): Promise<AuthResponse> => {
-  return apiService.post<AuthResponse>(
+export const login = async (credentials: LoginRequest): Promise<LoginResponse> => {
+  return apiService.post<LoginResponse>(
     ENDPOINTS.AUTH.LOGIN, 
     credentials
   );
 };
 
+/**
+ * Completes a login with two-factor authentication
+ * 
+ * @param request - Challenge token from the login and a code from the authenticator app or a recovery code
+ * @returns Promise that resolves with authentication response containing token and user data
+ */
+export const verifyTwoFactorLogin = async (request: TwoFactorLoginRequest): Promise<AuthResponse> => {
+  return apiService.post<AuthResponse>(
+    ENDPOINTS.AUTH.LOGIN_TWO_FACTOR,
+    request,
+    { requiresAuth: false }
+  );
+};
+
 /**
  * Registers a new user with the provided credentials
  * 
@@ -45,6 +69,112 @@ export const signup = async (credentials: SignupRequest): Promise<AuthResponse>
   );
 };
 
+/**
+ * Ends the session on the server by revoking its refresh tokens
+ * 
+ * Does not require authentication, since the access token may already have expired.
+ * 
+ * @param refreshToken - Refresh token of the current session
+ * @returns Promise that resolves when the session has been revoked
+ */
+export const logout = async (refreshToken: string): Promise<void> => {
+  return apiService.post<void>(
+    ENDPOINTS.AUTH.LOGOUT,
+    { refreshToken },
+    { requiresAuth: false }
+  );
+};
+
+/**
+ * Changes the password of the signed-in user
+ * 
+ * The server revokes every session of the user, so the response carries the token pair
+ * that replaces the current one.
+ * 
+ * @param request - Object containing the current and the new password
+ * @returns Promise that resolves with the new token pair and user data
+ */
+export const changePassword = async (request: ChangePasswordRequest): Promise<AuthResponse> => {
+  return apiService.post<AuthResponse>(
+    ENDPOINTS.AUTH.CHANGE_PASSWORD,
+    request,
+    { requiresAuth: true }
+  );
+};
+
+/**
+ * Asks the server to email a password reset code
+ * 
+ * Succeeds whether or not an account exists for the email address.
+ * 
+ * @param request - Object containing the email address of the account
+ * @returns Promise that resolves when the request has been accepted
+ */
+export const requestPasswordReset = async (request: ForgotPasswordRequest): Promise<void> => {
+  return apiService.post<void>(
+    ENDPOINTS.AUTH.FORGOT_PASSWORD,
+    request,
+    { requiresAuth: false }
+  );
+};
+
+/**
+ * Sets a new password with the code from a password reset email
+ * 
+ * Every session of the user is revoked, so the user has to log in again afterwards.
+ * 
+ * @param request - Object containing the reset code and the new password
+ * @returns Promise that resolves when the password has been reset
+ */
+export const resetPassword = async (request: ResetPasswordRequest): Promise<void> => {
+  return apiService.post<void>(
+    ENDPOINTS.AUTH.RESET_PASSWORD,
+    request,
+    { requiresAuth: false }
+  );
+};
+
+/**
+ * Starts two-factor enrollment of the signed-in user
+ * 
+ * @returns Promise that resolves with the authenticator secret and a QR code of it
+ */
+export const setupTwoFactor = async (): Promise<TwoFactorSetupResponse> => {
+  return apiService.post<TwoFactorSetupResponse>(
+    ENDPOINTS.AUTH.TWO_FACTOR_SETUP,
+    {},
+    { requiresAuth: true }
+  );
+};
+
+/**
+ * Turns two-factor authentication on with a code from the authenticator app
+ * 
+ * @param request - Object containing the code
+ * @returns Promise that resolves with the recovery codes, which the server shows only once
+ */
+export const enableTwoFactor = async (request: EnableTwoFactorRequest): Promise<TwoFactorRecoveryCodesResponse> => {
+  return apiService.post<TwoFactorRecoveryCodesResponse>(
+    ENDPOINTS.AUTH.TWO_FACTOR_ENABLE,
+    request,
+    { requiresAuth: true }
+  );
+};
+
+/**
+ * Turns two-factor authentication off
+ * 
+ * @param request - Object containing the password and a code from the authenticator app or a recovery code
+ * @returns Promise that resolves when two-factor authentication is off
+ */
+export const disableTwoFactor = async (request: DisableTwoFactorRequest): Promise<void> => {
+  return apiService.post<void>(
+    ENDPOINTS.AUTH.TWO_FACTOR_DISABLE,
+    request,
+    { requiresAuth: true }
+  );
+};
+
 /**
  * Validates the current authentication token
  * 
@@ -13,6 +13,7 @@ import {
   SendMessageResponse,
   ChatHistoryParams,
   ConversationsParams,
+  UpdateConversationRequest,
   Conversation,
   ChatMessage
 } from '../types/chat.types';
@@ -42,8 +43,8 @@ export const sendMessage = async (
 };
 
 /**
- * Retrieves the user's chat conversations with pagination
- * @param params - Pagination parameters (page, limit)
+ * Retrieves the user's active or archived chat conversations with pagination, pinned ones first
+ * @param params - Pagination parameters (page, limit) and whether to retrieve archived conversations
  * @returns Promise that resolves with paginated conversations
  */
 export const getConversations = async (
@@ -71,6 +72,36 @@ export const getConversation = async (
   return apiService.get<ApiResponse<Conversation>>(url);
 };
 
+/**
+ * Renames, archives or pins a conversation
+ * @param conversationId - ID of the conversation to update
+ * @param updates - Fields to update
+ * @returns Promise that resolves with the updated conversation
+ */
+export const updateConversation = async (
+  conversationId: string,
+  updates: UpdateConversationRequest
+): Promise<ApiResponse<Conversation>> => {
+  // Replace :id parameter in the URL with the actual conversation ID
+  const url = ENDPOINTS.CHAT.UPDATE_CONVERSATION.replace(':id', conversationId);
+  
+  // Make PATCH request with the fields to update
+  return apiService.patch<ApiResponse<Conversation>>(url, updates);
+};
+
+/**
+ * Deletes a conversation together with all of its messages
+ * @param conversationId - ID of the conversation to delete
+ * @returns Promise that resolves once the conversation is deleted
+ */
+export const deleteConversation = async (conversationId: string): Promise<void> => {
+  // Replace :id parameter in the URL with the actual conversation ID
+  const url = ENDPOINTS.CHAT.DELETE_CONVERSATION.replace(':id', conversationId);
+  
+  // Make DELETE request to remove the conversation
+  return apiService.delete<void>(url);
+};
+
 /**
  * Retrieves messages for a specific conversation with pagination
  * @param params - Parameters containing conversation ID and pagination info
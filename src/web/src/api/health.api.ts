@@ -15,12 +15,21 @@ import {
   HealthDataResponse,
   HealthDataListResponse,
   CreateHealthDataRequest,
+  UpdateHealthDataRequest,
   CreateMealDataRequest,
   CreateLabResultDataRequest,
   CreateSymptomDataRequest,
   GetHealthDataParams,
   HealthDataApiResponse,
-  HealthDataListApiResponse
+  HealthDataListApiResponse,
+  GetHealthInsightsParams,
+  HealthInsights,
+  HealthInsightsApiResponse,
+  GetAnalyteHistoryParams,
+  AnalyteHistory,
+  AnalyteHistoryApiResponse,
+  LabResultDraft,
+  LabResultDraftApiResponse
 } from '../types/health.types';
 
 /**
@@ -132,6 +141,10 @@ export const createLabResultData = async (
   formData.append('type', HealthDataType.LAB_RESULT);
   formData.append('testType', labData.testType);
   formData.append('testDate', labData.testDate);
+  if (labData.analytes && labData.analytes.length > 0) {
+    // Multipart fields are strings, so analytes are sent as JSON
+    formData.append('analytes', JSON.stringify(labData.analytes));
+  }
   if (labData.notes) {
     formData.append('notes', labData.notes);
   }
@@ -204,6 +217,21 @@ export const createHealthData = async (
   return response.data;
 };
 
+/**
+ * Updates an existing health data entry
+ * @param id - The ID of the health data entry to update
+ * @param healthData - The complete updated health data
+ * @returns Promise resolving to the updated health data entry
+ */
+export const updateHealthData = async (
+  id: string,
+  healthData: UpdateHealthDataRequest
+): Promise<HealthDataResponse> => {
+  const url = ENDPOINTS.HEALTH.UPDATE.replace(':id', id);
+  const response = await apiService.put<HealthDataApiResponse>(url, healthData);
+  return response.data;
+};
+
 /**
  * Deletes a health data entry by its ID
  * @param id - The ID of the health data entry to delete
@@ -213,4 +241,43 @@ export const deleteHealthData = async (id: string): Promise<boolean> => {
   const url = ENDPOINTS.HEALTH.DELETE.replace(':id', id);
   await apiService.delete<any>(url);
   return true;
-};
\ No newline at end of file
+};
+
+/**
+ * Retrieves aggregated health insights (meals per day, weekly symptom trend and
+ * lab test history) for a date range
+ * @param params - Date range and timezone for the insights
+ * @returns Promise resolving to the health insights
+ */
+export const getHealthInsights = async (
+  params: GetHealthInsightsParams = {}
+): Promise<HealthInsights> => {
+  const response = await apiService.get<HealthInsightsApiResponse>(ENDPOINTS.HEALTH.INSIGHTS, params);
+  return response.data;
+};
+
+/**
+ * Retrieves the measurements of a lab analyte over time, normalized to a common unit
+ * @param analyte - Key of the analyte (e.g., glucose, ldl-cholesterol)
+ * @param params - Optional date range for the history
+ * @returns Promise resolving to the analyte history
+ */
+export const getAnalyteHistory = async (
+  analyte: string,
+  params: GetAnalyteHistoryParams = {}
+): Promise<AnalyteHistory> => {
+  const url = ENDPOINTS.HEALTH.ANALYTE_HISTORY.replace(':analyte', encodeURIComponent(analyte));
+  const response = await apiService.get<AnalyteHistoryApiResponse>(url, params);
+  return response.data;
+};
+
+/**
+ * Reads the photo of a lab result into a draft of its analytes with OCR
+ * @param id - The ID of the lab result
+ * @returns Promise resolving to the draft, with a confidence score for each analyte
+ */
+export const extractLabResult = async (id: string): Promise<LabResultDraft> => {
+  const url = ENDPOINTS.HEALTH.EXTRACT_LAB_RESULT.replace(':id', id);
+  const response = await apiService.post<LabResultDraftApiResponse>(url);
+  return response.data;
+};
@@ -1,26 +1,89 @@
 /**
  * API module that provides functions for interacting with user-related endpoints in the backend API.
- * This module handles retrieving the current user profile and updating user profile information.
+ * This module handles retrieving the current user profile, updating user profile information,
+ * exporting the user's data and deleting the account.
  * Implements requirements from the User Profile Management feature (F-005).
  */
 
+import * as FileSystem from 'expo-file-system'; // expo-file-system ~15.2.0
 import { apiService } from '../services/api.service'; // ^1.3.4
+import { getAuthToken } from '../services/storage.service';
 import { ENDPOINTS } from '../constants/endpoints';
-import { UserProfile, UpdateProfileRequest } from '../types/user.types';
+import { ApiResponse } from '../types/api.types';
+import { UserProfile, UpdateProfileRequest, DataExport } from '../types/user.types';
 
 /**
  * Retrieves the current user's profile information from the backend API
  * @returns Promise that resolves with the user profile data
  */
-export const getCurrentUser = async (): Promise<UserProfile> => {
-  return apiService.get<UserProfile>(ENDPOINTS.USER.CURRENT_USER);
+export const getCurrentUser = async (): Promise<ApiResponse<UserProfile>> => {
+  return apiService.get<ApiResponse<UserProfile>>(ENDPOINTS.USER.CURRENT_USER);
 };
 
 /**
  * Updates the current user's profile information in the backend API
- * @param profileData - The profile data to update
+ * @param profileData - The profile fields to change; null clears a field
  * @returns Promise that resolves with the updated user profile data
  */
-export const updateUserProfile = async (profileData: UpdateProfileRequest): Promise<UserProfile> => {
-  return apiService.put<UserProfile>(ENDPOINTS.USER.UPDATE_PROFILE, profileData);
-};
\ No newline at end of file
+export const updateUserProfile = async (profileData: UpdateProfileRequest): Promise<ApiResponse<UserProfile>> => {
+  return apiService.put<ApiResponse<UserProfile>>(ENDPOINTS.USER.UPDATE_PROFILE, profileData);
+};
+
+/**
+ * Permanently deletes the current user's account and all of their data
+ * @param password - The user's current password, re-entered to confirm the deletion
+ * @returns Promise that resolves once the account has been deleted
+ */
+export const deleteAccount = async (password: string): Promise<void> => {
+  await apiService.delete<void>(ENDPOINTS.USER.DELETE_ACCOUNT, {}, { password });
+};
+
+/**
+ * Starts an export of all of the current user's data, or returns the export already in progress
+ * @returns Promise that resolves with the status of the export
+ */
+export const requestDataExport = async (): Promise<ApiResponse<DataExport>> => {
+  return apiService.post<ApiResponse<DataExport>>(ENDPOINTS.USER.REQUEST_EXPORT);
+};
+
+/**
+ * Retrieves the status of a data export
+ * @param exportId - ID of the export
+ * @returns Promise that resolves with the status of the export
+ */
+export const getDataExport = async (exportId: string): Promise<ApiResponse<DataExport>> => {
+  const url = ENDPOINTS.USER.GET_EXPORT.replace(':id', exportId);
+  return apiService.get<ApiResponse<DataExport>>(url);
+};
+
+/**
+ * Downloads the ZIP archive of a completed data export into the app's document directory
+ * @param exportId - ID of the export
+ * @returns Promise that resolves with the local URI of the downloaded archive
+ */
+export const downloadDataExport = async (exportId: string): Promise<string> => {
+  const url = ENDPOINTS.USER.DOWNLOAD_EXPORT.replace(':id', exportId);
+  const fileUri = `${FileSystem.documentDirectory}health-advisor-export-${exportId}.zip`;
+
+  const download = async (token: string | null) => FileSystem.downloadAsync(url, fileUri, {
+    headers: token ? { Authorization: `Bearer ${token}` } : {},
+  });
+
+  let result = await download(await getAuthToken());
+
+  // The archive is fetched outside the API client, so refresh an expired session here
+  if (result.status === 401) {
+    const token = await apiService.refreshAuthToken();
+    if (token) {
+      result = await download(token);
+    }
+  }
+
+  if (result.status !== 200) {
+    // Don't leave the error response behind as a broken archive
+    await FileSystem.deleteAsync(fileUri, { idempotent: true });
+    throw new Error(`Failed to download data export (status ${result.status})`);
+  }
+
+  return result.uri;
+};
@@ -1,7 +1,7 @@
 import React from 'react'; // ^18.2.0
 import { View, Text, Image, StyleSheet, StyleProp, ViewStyle } from 'react-native'; // ^0.71.0
 import { HealthDataCardProps } from '../../types/components.types';
-import { HealthDataType } from '../../types/health.types';
+import { HealthDataType, HealthDataResponse, SearchSnippet } from '../../types/health.types';
 import Card from './Card';
 import { useTheme } from '../../contexts/ThemeContext';
 import { formatHealthDataTitle, formatDescription, formatHealthDataTimestamp } from '../../utils/format.utils';
@@ -29,10 +29,44 @@ const getImageUrl = (item: HealthDataResponse): string | undefined => {
   }
 };
 
+// Labels for the fields a search excerpt can come from, other than the description
+const SNIPPET_FIELD_LABELS: Record<string, string> = {
+  testType: 'Test',
+  tags: 'Tags',
+  notes: 'Notes',
+  transcription: 'Transcript',
+};
+
+/**
+ * Splits a search excerpt into plain and highlighted parts
+ * @param snippet Excerpt with the ranges of its matches
+ * @returns Parts of the excerpt in order, flagged if they matched the search
+ */
+export const splitSnippet = (snippet: SearchSnippet): { text: string; highlighted: boolean }[] => {
+  const parts: { text: string; highlighted: boolean }[] = [];
+  let position = 0;
+
+  snippet.highlights.forEach(({ start, end }) => {
+    if (start > position) {
+      parts.push({ text: snippet.text.slice(position, start), highlighted: false });
+    }
+    parts.push({ text: snippet.text.slice(start, end), highlighted: true });
+    position = end;
+  });
+
+  if (position < snippet.text.length) {
+    parts.push({ text: snippet.text.slice(position), highlighted: false });
+  }
+
+  return parts;
+};
+
 /**
  * A card component that displays health data items (meals, lab results, symptoms)
  * with title, timestamp, description, and an optional image thumbnail.
  * Used in the Health Log screen to display health entries in a list format.
+ * Search results show the excerpt that matched in place of the description,
+ * with the matching words highlighted.
  * 
  * @param props Component props including the health data item, onPress handler, and style
  * @returns Rendered HealthDataCard component
@@ -46,6 +80,7 @@ const HealthDataCard = ({ item, onPress, style }: HealthDataCardProps): JSX.Elem
   const description = (data as any).description ? formatDescription((data as any).description) : '';
   const formattedTimestamp = formatHealthDataTimestamp(timestamp);
   const imageUrl = getImageUrl(item);
+  const snippet = item.search?.snippets[0];
 
   // Create accessibility label for screen readers
   const accessibilityLabel = `${title}, ${formattedTimestamp}${description ? `, ${description}` : ''}`;
@@ -91,7 +126,33 @@ const HealthDataCard = ({ item, onPress, style }: HealthDataCardProps): JSX.Elem
           >
             {formattedTimestamp}
           </Text>
-          {description ? (
+          {snippet ? (
+            <Text 
+              style={[
+                styles.description, 
+                { 
+                  color: theme.colors.TEXT,
+                  fontFamily: theme.typography.fontFamily.regular,
+                  fontSize: theme.typography.fontSize.s
+                }
+              ]}
+              numberOfLines={2}
+              testID="search-snippet"
+            >
+              {SNIPPET_FIELD_LABELS[snippet.field] ? `${SNIPPET_FIELD_LABELS[snippet.field]}: ` : ''}
+              {splitSnippet(snippet).map((part, index) => (
+                <Text
+                  key={index}
+                  style={part.highlighted ? {
+                    fontFamily: theme.typography.fontFamily.semiBold,
+                    backgroundColor: theme.colors.PRIMARY + '30',
+                  } : undefined}
+                >
+                  {part.text}
+                </Text>
+              ))}
+            </Text>
+          ) : description ? (
             <Text 
               style={[
                 styles.description, 
@@ -0,0 +1,169 @@
+import React, { useState, useMemo, useCallback } from 'react'; // ^18.2.0
+import { View, Text, StyleSheet, LayoutChangeEvent } from 'react-native'; // ^0.71.0
+import { Svg, G, Rect, Line, Text as SvgText } from 'react-native-svg'; // 13.4.0
+import { BarChartProps } from '../../types/components.types';
+import { useTheme } from '../../contexts/ThemeContext';
+
+// Space reserved around the plot for axis labels
+const Y_AXIS_WIDTH = 28;
+const X_AXIS_HEIGHT = 20;
+
+// Maximum number of x-axis labels before labels are skipped to avoid overlap
+const MAX_X_LABELS = 6;
+
+/**
+ * A stacked bar chart drawn with react-native-svg. Each bar is split into one
+ * segment per series, stacked from bottom to top in series order, with a legend
+ * below the plot. The chart fills the width of its container.
+ *
+ * @param data - Bars to display, in x-axis order
+ * @param series - Series stacked in each bar
+ * @param height - Height of the plot area in pixels
+ * @param accessibilityLabel - Accessibility label describing the chart
+ * @param style - Additional styles for the chart container
+ * @returns Rendered BarChart component
+ */
+const BarChart: React.FC<BarChartProps> = ({
+  data,
+  series,
+  height = 160,
+  accessibilityLabel,
+  style,
+}) => {
+  const { theme } = useTheme();
+
+  // Width is only known after layout, so draw nothing until it has been measured
+  const [width, setWidth] = useState<number>(0);
+
+  const handleLayout = useCallback((event: LayoutChangeEvent) => {
+    setWidth(event.nativeEvent.layout.width);
+  }, []);
+
+  // Largest stacked total, used to scale the y-axis
+  const maxTotal = useMemo(() => {
+    const totals = data.map(datum =>
+      series.reduce((sum, item) => sum + (datum.values[item.key] || 0), 0)
+    );
+    return Math.max(1, ...totals);
+  }, [data, series]);
+
+  const plotWidth = Math.max(0, width - Y_AXIS_WIDTH);
+  const slotWidth = data.length > 0 ? plotWidth / data.length : 0;
+  const barWidth = Math.max(1, slotWidth * 0.7);
+  const labelStep = Math.ceil(data.length / MAX_X_LABELS);
+
+  return (
+    <View
+      style={[styles.container, style]}
+      onLayout={handleLayout}
+      accessible={true}
+      accessibilityLabel={accessibilityLabel}
+    >
+      {width > 0 && (
+        <Svg width={width} height={height + X_AXIS_HEIGHT}>
+          {/* Y-axis scale */}
+          <SvgText x={Y_AXIS_WIDTH - 6} y={10} fontSize={10} fill={theme.colors.TEXT} textAnchor="end">
+            {maxTotal}
+          </SvgText>
+          <SvgText x={Y_AXIS_WIDTH - 6} y={height} fontSize={10} fill={theme.colors.TEXT} textAnchor="end">
+            0
+          </SvgText>
+
+          {/* Baseline */}
+          <Line
+            x1={Y_AXIS_WIDTH}
+            y1={height}
+            x2={width}
+            y2={height}
+            stroke={theme.colors.BORDER}
+            strokeWidth={1}
+          />
+
+          {data.map((datum, index) => {
+            const x = Y_AXIS_WIDTH + index * slotWidth + (slotWidth - barWidth) / 2;
+            let offset = 0;
+
+            return (
+              <G key={datum.label}>
+                {series.map(item => {
+                  const value = datum.values[item.key] || 0;
+                  if (value === 0) {
+                    return null;
+                  }
+
+                  const segmentHeight = (value / maxTotal) * height;
+                  offset += segmentHeight;
+
+                  return (
+                    <Rect
+                      key={item.key}
+                      x={x}
+                      y={height - offset}
+                      width={barWidth}
+                      height={segmentHeight}
+                      fill={item.color}
+                    />
+                  );
+                })}
+
+                {index % labelStep === 0 && (
+                  <SvgText
+                    x={x + barWidth / 2}
+                    y={height + X_AXIS_HEIGHT - 4}
+                    fontSize={10}
+                    fill={theme.colors.TEXT}
+                    textAnchor="middle"
+                  >
+                    {datum.label}
+                  </SvgText>
+                )}
+              </G>
+            );
+          })}
+        </Svg>
+      )}
+
+      {/* Legend */}
+      <View style={styles.legend}>
+        {series.map(item => (
+          <View key={item.key} style={styles.legendItem}>
+            <View style={[styles.legendSwatch, { backgroundColor: item.color }]} />
+            <Text
+              style={{
+                color: theme.colors.TEXT,
+                fontSize: theme.typography.fontSize.xs,
+              }}
+            >
+              {item.label}
+            </Text>
+          </View>
+        ))}
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    width: '100%',
+  },
+  legend: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginTop: 8,
+  },
+  legendItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginRight: 12,
+    marginBottom: 4,
+  },
+  legendSwatch: {
+    width: 10,
+    height: 10,
+    borderRadius: 2,
+    marginRight: 4,
+  },
+});
+
+export default BarChart;
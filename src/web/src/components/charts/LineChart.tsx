@@ -0,0 +1,156 @@
+import React, { useState, useMemo, useCallback } from 'react'; // ^18.2.0
+import { View, StyleSheet, LayoutChangeEvent } from 'react-native'; // ^0.71.0
+import { Svg, G, Path, Circle, Line, Text as SvgText } from 'react-native-svg'; // 13.4.0
+import { LineChartProps } from '../../types/components.types';
+import { useTheme } from '../../contexts/ThemeContext';
+
+// Space reserved around the plot for axis labels
+const Y_AXIS_WIDTH = 28;
+const X_AXIS_HEIGHT = 20;
+
+// Padding so points at the edges of the plot are not clipped
+const POINT_RADIUS = 3;
+
+// Maximum number of x-axis labels before labels are skipped to avoid overlap
+const MAX_X_LABELS = 6;
+
+/**
+ * A line chart drawn with react-native-svg. Points with a null value leave a gap
+ * in the line, so missing data is not mistaken for a value of zero. The chart
+ * fills the width of its container.
+ *
+ * @param data - Points to display, in x-axis order
+ * @param color - Color of the line, defaults to the theme primary color
+ * @param minValue - Lower bound of the y-axis
+ * @param maxValue - Upper bound of the y-axis, defaults to the largest value
+ * @param height - Height of the plot area in pixels
+ * @param accessibilityLabel - Accessibility label describing the chart
+ * @param style - Additional styles for the chart container
+ * @returns Rendered LineChart component
+ */
+const LineChart: React.FC<LineChartProps> = ({
+  data,
+  color,
+  minValue = 0,
+  maxValue,
+  height = 120,
+  accessibilityLabel,
+  style,
+}) => {
+  const { theme } = useTheme();
+  const lineColor = color || theme.colors.PRIMARY;
+
+  // Width is only known after layout, so draw nothing until it has been measured
+  const [width, setWidth] = useState<number>(0);
+
+  const handleLayout = useCallback((event: LayoutChangeEvent) => {
+    setWidth(event.nativeEvent.layout.width);
+  }, []);
+
+  // Upper bound of the y-axis, never equal to the lower bound
+  const upperBound = useMemo(() => {
+    if (maxValue !== undefined) {
+      return maxValue;
+    }
+    const values = data
+      .map(datum => datum.value)
+      .filter((value): value is number => value !== null);
+    return Math.max(minValue + 1, ...values);
+  }, [data, minValue, maxValue]);
+
+  const plotWidth = Math.max(0, width - Y_AXIS_WIDTH - POINT_RADIUS * 2);
+  const stepX = data.length > 1 ? plotWidth / (data.length - 1) : 0;
+  const labelStep = Math.ceil(data.length / MAX_X_LABELS);
+
+  // A single point is centred rather than drawn against the y-axis
+  const getX = (index: number): number =>
+    Y_AXIS_WIDTH + POINT_RADIUS + (data.length > 1 ? index * stepX : plotWidth / 2);
+
+  // Screen coordinates of each point, null where the value is missing
+  const points = data.map((datum, index) => {
+    if (datum.value === null) {
+      return null;
+    }
+    const ratio = (datum.value - minValue) / (upperBound - minValue);
+    return {
+      x: getX(index),
+      y: POINT_RADIUS + (1 - ratio) * (height - POINT_RADIUS * 2),
+    };
+  });
+
+  // Start a new sub-path after every gap
+  const path = points.reduce((result, point, index) => {
+    if (!point) {
+      return result;
+    }
+    const command = index > 0 && points[index - 1] ? 'L' : 'M';
+    return `${result}${command}${point.x},${point.y} `;
+  }, '');
+
+  return (
+    <View
+      style={[styles.container, style]}
+      onLayout={handleLayout}
+      accessible={true}
+      accessibilityLabel={accessibilityLabel}
+    >
+      {width > 0 && (
+        <Svg width={width} height={height + X_AXIS_HEIGHT}>
+          {/* Y-axis scale */}
+          <SvgText x={Y_AXIS_WIDTH - 6} y={10} fontSize={10} fill={theme.colors.TEXT} textAnchor="end">
+            {upperBound}
+          </SvgText>
+          <SvgText x={Y_AXIS_WIDTH - 6} y={height} fontSize={10} fill={theme.colors.TEXT} textAnchor="end">
+            {minValue}
+          </SvgText>
+
+          {/* Baseline */}
+          <Line
+            x1={Y_AXIS_WIDTH}
+            y1={height}
+            x2={width}
+            y2={height}
+            stroke={theme.colors.BORDER}
+            strokeWidth={1}
+          />
+
+          {path.length > 0 && (
+            <Path d={path.trim()} stroke={lineColor} strokeWidth={2} fill="none" />
+          )}
+
+          {data.map((datum, index) => {
+            const point = points[index];
+
+            return (
+              <G key={datum.label}>
+                {point && (
+                  <Circle cx={point.x} cy={point.y} r={POINT_RADIUS} fill={lineColor} />
+                )}
+
+                {index % labelStep === 0 && (
+                  <SvgText
+                    x={getX(index)}
+                    y={height + X_AXIS_HEIGHT - 4}
+                    fontSize={10}
+                    fill={theme.colors.TEXT}
+                    textAnchor="middle"
+                  >
+                    {datum.label}
+                  </SvgText>
+                )}
+              </G>
+            );
+          })}
+        </Svg>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    width: '100%',
+  },
+});
+
+export default LineChart;
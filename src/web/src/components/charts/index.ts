@@ -0,0 +1,10 @@
+/**
+ * Barrel file for chart components in the Health Advisor mobile application.
+ * Exports the SVG charts used to visualize aggregated health data on the
+ * Insights screen.
+ */
+
+import BarChart from './BarChart';
+import LineChart from './LineChart';
+
+export { BarChart, LineChart };
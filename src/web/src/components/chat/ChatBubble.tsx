@@ -5,6 +5,9 @@ import { ChatRole, ChatMessageStatus } from '../../types/chat.types';
 import { useTheme } from '../../contexts/ThemeContext';
 import { formatDisplayTime } from '../../utils/date.utils';
 
+// Character appended to a response while it is still being streamed
+const STREAMING_CURSOR = ' \u258D';
+
 /**
  * ChatBubble component that renders a chat message bubble in the Health Advisor application.
  * It displays user or AI assistant messages with different styling based on the sender,
@@ -17,6 +20,9 @@ const ChatBubble: React.FC<ChatBubbleProps> = ({ message, style }) => {
   // Determine if the message is from the user or the AI assistant
   const isUser = message.role === ChatRole.USER;
 
+  // Determine if the assistant response is still being streamed
+  const isStreaming = message.status === ChatMessageStatus.STREAMING;
+
   // Format the timestamp to a user-friendly format (e.g., "10:30 AM")
   const timeString = formatDisplayTime(message.timestamp);
 
@@ -61,6 +67,10 @@ const ChatBubble: React.FC<ChatBubbleProps> = ({ message, style }) => {
           ]}
         >
           {message.content}
+          {/* Cursor shown at the end of a response that is still arriving */}
+          {isStreaming && (
+            <Text style={{ color: theme.colors.PRIMARY }}>{STREAMING_CURSOR}</Text>
+          )}
         </Text>
         
         {/* Footer with status indicator and timestamp */}
@@ -75,6 +85,16 @@ const ChatBubble: React.FC<ChatBubbleProps> = ({ message, style }) => {
             />
           )}
           
+          {/* Show loading indicator while the response is streaming */}
+          {isStreaming && (
+            <ActivityIndicator 
+              size="small" 
+              color={theme.colors.PRIMARY} 
+              style={styles.statusIndicator}
+              accessibilityLabel="Receiving response"
+            />
+          )}
+          
           {/* Show error text when message failed to send */}
           {message.status === ChatMessageStatus.ERROR && (
             <Text 
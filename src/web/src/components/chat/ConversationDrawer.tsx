@@ -0,0 +1,364 @@
+import React, { useState, useEffect, useCallback } from 'react'; // React v18.2.0
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  FlatList,
+  Modal,
+  Pressable,
+} from 'react-native'; // React Native v0.71.0
+import MaterialCommunityIcons from 'react-native-vector-icons/MaterialCommunityIcons'; // ^9.2.0
+import { format } from 'date-fns'; // date-fns v2.29.3
+
+import TextInput from '../forms/TextInput';
+import Button from '../buttons/Button';
+import ConfirmationModal from '../modals/ConfirmationModal';
+import { ConversationDrawerProps, ButtonVariant } from '../../types/components.types';
+import { Conversation } from '../../types/chat.types';
+import { useTheme } from '../../contexts/ThemeContext';
+
+// Longest title accepted by the server
+const MAX_TITLE_LENGTH = 100;
+
+/**
+ * A side drawer listing the user's conversations. Conversations can be opened, pinned,
+ * renamed, archived or restored, and deleted after confirmation. Archived conversations
+ * are listed separately and loaded when first shown.
+ *
+ * @param visible - Whether the drawer is visible
+ * @param conversations - Active conversations, pinned ones first
+ * @param archivedConversations - Archived conversations, pinned ones first
+ * @param activeConversationId - ID of the conversation open in the chat
+ * @param onSelect - Called with the ID of the conversation to open
+ * @param onNewConversation - Called to start a new conversation
+ * @param onUpdate - Called to rename, archive or pin a conversation
+ * @param onDelete - Called to delete a conversation
+ * @param onShowArchived - Called when the archived conversations are shown
+ * @param onClose - Called when the drawer is dismissed
+ * @returns Rendered ConversationDrawer component
+ */
+const ConversationDrawer: React.FC<ConversationDrawerProps> = ({
+  visible,
+  conversations,
+  archivedConversations,
+  activeConversationId,
+  onSelect,
+  onNewConversation,
+  onUpdate,
+  onDelete,
+  onShowArchived,
+  onClose,
+}) => {
+  const { theme } = useTheme();
+
+  const [showArchived, setShowArchived] = useState<boolean>(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [titleDraft, setTitleDraft] = useState<string>('');
+  const [pendingDelete, setPendingDelete] = useState<Conversation | null>(null);
+
+  // Start from the active conversations each time the drawer opens
+  useEffect(() => {
+    if (visible) {
+      setShowArchived(false);
+      setEditingId(null);
+      setPendingDelete(null);
+    }
+  }, [visible]);
+
+  const handleToggleArchived = useCallback((archived: boolean) => {
+    setShowArchived(archived);
+    setEditingId(null);
+    if (archived) {
+      onShowArchived();
+    }
+  }, [onShowArchived]);
+
+  const handleStartRename = useCallback((conversation: Conversation) => {
+    setEditingId(conversation.id);
+    setTitleDraft(conversation.title);
+  }, []);
+
+  const handleSaveRename = useCallback(() => {
+    const title = titleDraft.trim();
+    if (editingId && title) {
+      onUpdate(editingId, { title });
+    }
+    setEditingId(null);
+  }, [editingId, titleDraft, onUpdate]);
+
+  const handleConfirmDelete = useCallback(() => {
+    if (pendingDelete) {
+      onDelete(pendingDelete.id);
+    }
+    setPendingDelete(null);
+  }, [pendingDelete, onDelete]);
+
+  // Renders an icon button acting on a conversation
+  const renderAction = (key: string, icon: string, label: string, onPress: () => void, color?: string) => (
+    <TouchableOpacity
+      key={key}
+      onPress={onPress}
+      style={styles.action}
+      accessibilityRole="button"
+      accessibilityLabel={label}
+      testID={key}
+    >
+      <MaterialCommunityIcons name={icon} size={20} color={color || theme.colors.TEXT} />
+    </TouchableOpacity>
+  );
+
+  const renderConversation = ({ item }: { item: Conversation }) => {
+    if (item.id === editingId) {
+      return (
+        <View style={[styles.item, { borderBottomColor: theme.colors.BORDER }]}>
+          <TextInput
+            label="Title"
+            value={titleDraft}
+            onChangeText={text => setTitleDraft(text.slice(0, MAX_TITLE_LENGTH))}
+            placeholder="Conversation title"
+          />
+          <View style={styles.renameActions}>
+            <Button
+              label="Cancel"
+              onPress={() => setEditingId(null)}
+              variant={ButtonVariant.OUTLINE}
+              style={styles.renameButton}
+            />
+            <Button
+              label="Save"
+              onPress={handleSaveRename}
+              disabled={!titleDraft.trim()}
+              style={styles.renameButton}
+            />
+          </View>
+        </View>
+      );
+    }
+
+    const active = item.id === activeConversationId;
+
+    return (
+      <View
+        style={[
+          styles.item,
+          { borderBottomColor: theme.colors.BORDER },
+          active && { backgroundColor: theme.colors.BACKGROUND },
+        ]}
+      >
+        <TouchableOpacity
+          onPress={() => onSelect(item.id)}
+          style={styles.itemContent}
+          accessibilityRole="button"
+          accessibilityState={{ selected: active }}
+          testID={`conversation-${item.id}`}
+        >
+          <View style={styles.titleRow}>
+            {item.pinned ? (
+              <MaterialCommunityIcons name="pin" size={14} color={theme.colors.PRIMARY} style={styles.pinIcon} />
+            ) : null}
+            <Text style={[styles.title, { color: theme.colors.TEXT }]} numberOfLines={1}>
+              {item.title}
+            </Text>
+          </View>
+          <Text style={[styles.date, { color: theme.colors.DISABLED }]}>
+            {format(new Date(item.lastMessageAt), 'MMM d, yyyy')}
+          </Text>
+        </TouchableOpacity>
+
+        <View style={styles.actions}>
+          {renderAction(
+            `conversation-pin-${item.id}`,
+            item.pinned ? 'pin-off' : 'pin',
+            item.pinned ? 'Unpin' : 'Pin',
+            () => onUpdate(item.id, { pinned: !item.pinned })
+          )}
+          {renderAction(
+            `conversation-rename-${item.id}`,
+            'pencil',
+            'Rename',
+            () => handleStartRename(item)
+          )}
+          {renderAction(
+            `conversation-archive-${item.id}`,
+            item.archived ? 'archive-arrow-up' : 'archive-arrow-down',
+            item.archived ? 'Restore' : 'Archive',
+            () => onUpdate(item.id, { archived: !item.archived })
+          )}
+          {renderAction(
+            `conversation-delete-${item.id}`,
+            'delete',
+            'Delete',
+            () => setPendingDelete(item),
+            theme.colors.ERROR
+          )}
+        </View>
+      </View>
+    );
+  };
+
+  // Renders a tab switching between active and archived conversations
+  const renderTab = (label: string, archived: boolean) => {
+    const selected = showArchived === archived;
+
+    return (
+      <TouchableOpacity
+        onPress={() => handleToggleArchived(archived)}
+        style={[styles.tab, selected && { borderBottomColor: theme.colors.PRIMARY }]}
+        accessibilityRole="tab"
+        accessibilityState={{ selected }}
+        testID={`conversation-tab-${archived ? 'archived' : 'active'}`}
+      >
+        <Text style={[styles.tabText, { color: selected ? theme.colors.PRIMARY : theme.colors.TEXT }]}>
+          {label}
+        </Text>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={[styles.panel, { backgroundColor: theme.colors.CARD }]} testID="conversation-drawer">
+          <View style={styles.header}>
+            <Text style={[styles.heading, { color: theme.colors.TEXT }]}>Conversations</Text>
+            {renderAction('conversation-drawer-close', 'close', 'Close', onClose)}
+          </View>
+
+          <Button
+            label="New Conversation"
+            onPress={onNewConversation}
+            style={styles.newButton}
+          />
+
+          <View style={[styles.tabs, { borderBottomColor: theme.colors.BORDER }]}>
+            {renderTab('Active', false)}
+            {renderTab('Archived', true)}
+          </View>
+
+          <FlatList
+            data={showArchived ? archivedConversations : conversations}
+            keyExtractor={item => item.id}
+            renderItem={renderConversation}
+            extraData={[editingId, titleDraft, activeConversationId]}
+            keyboardShouldPersistTaps="handled"
+            ListEmptyComponent={
+              <Text style={[styles.empty, { color: theme.colors.DISABLED }]}>
+                {showArchived ? 'No archived conversations' : 'No conversations yet'}
+              </Text>
+            }
+          />
+        </View>
+
+        <Pressable
+          style={styles.backdrop}
+          onPress={onClose}
+          accessibilityLabel="Close conversations"
+          testID="conversation-drawer-backdrop"
+        />
+      </View>
+
+      <ConfirmationModal
+        visible={pendingDelete !== null}
+        title="Delete Conversation"
+        message={`Delete "${pendingDelete?.title ?? ''}" and all of its messages? This cannot be undone.`}
+        confirmText="Delete"
+        cancelText="Cancel"
+        onConfirm={handleConfirmDelete}
+        onCancel={() => setPendingDelete(null)}
+        confirmVariant={ButtonVariant.PRIMARY}
+      />
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    flexDirection: 'row',
+  },
+  panel: {
+    width: '80%',
+    maxWidth: 360,
+    paddingTop: 48,
+    paddingHorizontal: 16,
+  },
+  backdrop: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 12,
+  },
+  heading: {
+    fontSize: 20,
+    fontWeight: '600',
+  },
+  newButton: {
+    marginBottom: 12,
+  },
+  tabs: {
+    flexDirection: 'row',
+    borderBottomWidth: 1,
+    marginBottom: 4,
+  },
+  tab: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderBottomWidth: 2,
+    borderBottomColor: 'transparent',
+  },
+  tabText: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  item: {
+    paddingVertical: 10,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  itemContent: {
+    marginBottom: 4,
+  },
+  titleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  pinIcon: {
+    marginRight: 4,
+  },
+  title: {
+    flex: 1,
+    fontSize: 16,
+  },
+  date: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+  },
+  action: {
+    padding: 6,
+    marginLeft: 4,
+  },
+  renameActions: {
+    flexDirection: 'row',
+    marginHorizontal: -4,
+  },
+  renameButton: {
+    flex: 1,
+    marginHorizontal: 4,
+  },
+  empty: {
+    textAlign: 'center',
+    marginTop: 24,
+    fontSize: 14,
+  },
+});
+
+export default ConversationDrawer;
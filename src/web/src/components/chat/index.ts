@@ -11,6 +11,7 @@
 import ChatBubble from './ChatBubble';
 import ChatInput from './ChatInput';
 import ChatList from './ChatList';
+import ConversationDrawer from './ConversationDrawer';
 
 // Re-export components as named exports
-export { ChatBubble, ChatInput, ChatList };
\ No newline at end of file
+export { ChatBubble, ChatInput, ChatList, ConversationDrawer };
\ No newline at end of file
@@ -0,0 +1,194 @@
+import React, { useCallback } from 'react'; // React v18.2.0
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native'; // React Native v0.71.0
+import MaterialCommunityIcons from 'react-native-vector-icons/MaterialCommunityIcons'; // ^9.2.0
+
+import TextInput from '../forms/TextInput';
+import Button from '../buttons/Button';
+import { AnalyteFormRow, AnalyteInputListProps, ButtonVariant, ButtonSize } from '../../types/components.types';
+import { useTheme } from '../../contexts/ThemeContext';
+
+// Counter used to give each new row a unique ID
+let nextRowId = 0;
+
+// Rows read from a photo with a lower confidence are flagged for the user to check
+export const LOW_CONFIDENCE_THRESHOLD = 0.8;
+
+/**
+ * Creates an analyte row
+ * @param fields Optional initial field values, e.g. from a lab report photo
+ * @returns A new row, with fields not given left blank
+ */
+export const createAnalyteRow = (fields: Partial<Omit<AnalyteFormRow, 'id'>> = {}): AnalyteFormRow => {
+  nextRowId += 1;
+  return {
+    id: `analyte-${nextRowId}`,
+    name: '',
+    value: '',
+    unit: '',
+    referenceLow: '',
+    referenceHigh: '',
+    ...fields,
+  };
+};
+
+/**
+ * An editable list of lab analytes, one row per measured value. Each row has the
+ * analyte name, value, unit and an optional reference range, and rows can be added
+ * and removed. Rows read from a photo with low OCR confidence are flagged until edited.
+ *
+ * @param rows - Analyte rows to display
+ * @param onChange - Called with the updated rows whenever a row changes
+ * @param errors - Validation errors keyed by row ID
+ * @param style - Additional styles for the list container
+ * @returns Rendered AnalyteInputList component
+ */
+const AnalyteInputList: React.FC<AnalyteInputListProps> = ({
+  rows,
+  onChange,
+  errors = {},
+  style,
+}) => {
+  const { theme } = useTheme();
+
+  // Updates a single field of a row
+  const handleFieldChange = useCallback((id: string, field: Exclude<keyof AnalyteFormRow, 'id' | 'confidence'>, text: string) => {
+    // Editing a row means the user has checked it, so it is no longer flagged
+    onChange(rows.map(row => (row.id === id ? { ...row, [field]: text, confidence: undefined } : row)));
+  }, [rows, onChange]);
+
+  const handleAddRow = useCallback(() => {
+    onChange([...rows, createAnalyteRow()]);
+  }, [rows, onChange]);
+
+  const handleRemoveRow = useCallback((id: string) => {
+    onChange(rows.filter(row => row.id !== id));
+  }, [rows, onChange]);
+
+  return (
+    <View style={style}>
+      <Text style={[styles.label, { color: theme.colors.TEXT }]}>Results (Optional)</Text>
+
+      {rows.map((row, index) => (
+        <View
+          key={row.id}
+          style={[styles.row, { borderColor: errors[row.id] ? theme.colors.ERROR : theme.colors.BORDER }]}
+          testID={`analyte-row-${index}`}
+        >
+          <View style={styles.rowHeader}>
+            <Text style={[styles.rowTitle, { color: theme.colors.TEXT }]}>Analyte {index + 1}</Text>
+            <TouchableOpacity
+              onPress={() => handleRemoveRow(row.id)}
+              accessibilityRole="button"
+              accessibilityLabel={`Remove analyte ${index + 1}`}
+              testID={`analyte-remove-${index}`}
+            >
+              <MaterialCommunityIcons name="close" size={20} color={theme.colors.TEXT} />
+            </TouchableOpacity>
+          </View>
+
+          <TextInput
+            label="Name"
+            value={row.name}
+            onChangeText={text => handleFieldChange(row.id, 'name', text)}
+            placeholder="e.g., Glucose, LDL Cholesterol"
+          />
+
+          <View style={styles.inline}>
+            <TextInput
+              label="Value"
+              value={row.value}
+              onChangeText={text => handleFieldChange(row.id, 'value', text)}
+              placeholder="e.g., 95"
+              containerStyle={styles.inlineField}
+            />
+            <TextInput
+              label="Unit"
+              value={row.unit}
+              onChangeText={text => handleFieldChange(row.id, 'unit', text)}
+              placeholder="e.g., mg/dL"
+              containerStyle={styles.inlineField}
+            />
+          </View>
+
+          <View style={styles.inline}>
+            <TextInput
+              label="Reference Low"
+              value={row.referenceLow}
+              onChangeText={text => handleFieldChange(row.id, 'referenceLow', text)}
+              placeholder="Optional"
+              containerStyle={styles.inlineField}
+            />
+            <TextInput
+              label="Reference High"
+              value={row.referenceHigh}
+              onChangeText={text => handleFieldChange(row.id, 'referenceHigh', text)}
+              placeholder="Optional"
+              containerStyle={styles.inlineField}
+            />
+          </View>
+
+          {row.confidence !== undefined && row.confidence < LOW_CONFIDENCE_THRESHOLD && !errors[row.id] && (
+            <Text style={[styles.hintText, { color: theme.colors.WARNING }]}>
+              This row may have been misread, please check it against your report
+            </Text>
+          )}
+
+          {errors[row.id] && (
+            <Text style={[styles.errorText, { color: theme.colors.ERROR }]}>
+              {errors[row.id]}
+            </Text>
+          )}
+        </View>
+      ))}
+
+      <Button
+        label="Add Analyte"
+        onPress={handleAddRow}
+        variant={ButtonVariant.OUTLINE}
+        size={ButtonSize.SMALL}
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  label: {
+    marginBottom: 8,
+    fontWeight: '500',
+    fontSize: 16,
+  },
+  row: {
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 12,
+  },
+  rowHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  rowTitle: {
+    fontWeight: '500',
+    fontSize: 14,
+  },
+  inline: {
+    flexDirection: 'row',
+    marginHorizontal: -4,
+  },
+  inlineField: {
+    flex: 1,
+    marginHorizontal: 4,
+  },
+  errorText: {
+    fontSize: 14,
+    marginTop: 4,
+  },
+  hintText: {
+    fontSize: 14,
+    marginTop: 4,
+  },
+});
+
+export default AnalyteInputList;
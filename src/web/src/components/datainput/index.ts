@@ -12,12 +12,14 @@
  * @version 1.0.0
  */
 
+import AnalyteInputList from './AnalyteInputList';
 import CameraView from './CameraView';
 import DataEntryOptions from './DataEntryOptions';
 import VoiceRecorder from './VoiceRecorder';
 
 // Export all data input components
 export {
+  AnalyteInputList, // For entering individual lab result analytes
   CameraView,     // For capturing photos of meals and lab results
   DataEntryOptions, // For selecting data entry method from + button
   VoiceRecorder,  // For recording and transcribing symptom descriptions
@@ -0,0 +1,302 @@
+import React, { useCallback, useState } from 'react'; // React v18.2.0
+import { View, Text, StyleSheet, ScrollView } from 'react-native'; // React Native v0.71.0
+
+import TextInput from './TextInput';
+import RadioGroup from './RadioGroup';
+import Button from '../buttons/Button';
+import { ButtonVariant, HealthProfileFormProps, RadioOption } from '../../types/components.types';
+import {
+  HealthProfileFormValues,
+  Sex,
+  UnitsPreference,
+  UpdateProfileRequest,
+  UserProfile,
+} from '../../types/user.types';
+import { useTheme } from '../../contexts/ThemeContext';
+import { CM_PER_INCH, KG_PER_POUND, splitListInput } from '../../utils/format.utils';
+import { validateHealthProfileForm, isFormValid } from '../../utils/validation.utils';
+
+const SEX_OPTIONS: RadioOption[] = [
+  { label: 'Female', value: Sex.FEMALE },
+  { label: 'Male', value: Sex.MALE },
+  { label: 'Intersex', value: Sex.INTERSEX },
+  { label: 'Prefer not to say', value: Sex.PREFER_NOT_TO_SAY },
+];
+
+const UNITS_OPTIONS: RadioOption[] = [
+  { label: 'Metric (cm, kg)', value: UnitsPreference.METRIC },
+  { label: 'Imperial (in, lb)', value: UnitsPreference.IMPERIAL },
+];
+
+/**
+ * Converts a measurement entered as text between units, leaving text that is not a number as is
+ * @param text Entered measurement
+ * @param factor Factor to multiply the measurement by
+ * @returns Converted measurement, rounded to one decimal place
+ */
+const convertInput = (text: string, factor: number): string => {
+  const value = Number(text);
+  if (!text.trim() || isNaN(value)) {
+    return text;
+  }
+  return String(Math.round(value * factor * 10) / 10);
+};
+
+/**
+ * Creates the form values for a profile, with height and weight in the preferred units
+ * @param profile Profile returned by the backend
+ * @returns Form values to edit
+ */
+export const toHealthProfileFormValues = (profile: UserProfile): HealthProfileFormValues => {
+  const imperial = profile.unitsPreference === UnitsPreference.IMPERIAL;
+  const height = profile.heightCm ? String(profile.heightCm) : '';
+  const weight = profile.weightKg ? String(profile.weightKg) : '';
+
+  return {
+    displayName: profile.displayName || '',
+    dateOfBirth: profile.dateOfBirth || '',
+    sex: profile.sex || '',
+    height: imperial ? convertInput(height, 1 / CM_PER_INCH) : height,
+    weight: imperial ? convertInput(weight, 1 / KG_PER_POUND) : weight,
+    conditions: (profile.conditions || []).join(', '),
+    allergies: (profile.allergies || []).join(', '),
+    medications: (profile.medications || []).join(', '),
+    dietaryPreferences: (profile.dietaryPreferences || []).join(', '),
+    unitsPreference: profile.unitsPreference || UnitsPreference.METRIC,
+  };
+};
+
+/**
+ * Creates the update request for validated form values, converting height and weight to
+ * metric and clearing the fields left empty
+ * @param values Validated form values
+ * @returns Request that replaces every field of the profile
+ */
+export const toUpdateProfileRequest = (values: HealthProfileFormValues): UpdateProfileRequest => {
+  const imperial = values.unitsPreference === UnitsPreference.IMPERIAL;
+  const height = imperial ? convertInput(values.height, CM_PER_INCH) : values.height;
+  const weight = imperial ? convertInput(values.weight, KG_PER_POUND) : values.weight;
+
+  return {
+    displayName: values.displayName.trim() || null,
+    dateOfBirth: values.dateOfBirth || null,
+    sex: values.sex || null,
+    heightCm: height.trim() ? Number(height) : null,
+    weightKg: weight.trim() ? Number(weight) : null,
+    conditions: splitListInput(values.conditions),
+    allergies: splitListInput(values.allergies),
+    medications: splitListInput(values.medications),
+    dietaryPreferences: splitListInput(values.dietaryPreferences),
+    unitsPreference: values.unitsPreference,
+  };
+};
+
+/**
+ * A form for editing the health profile that the health advisor takes into account:
+ * name, date of birth, sex, height, weight, known conditions, allergies, medications,
+ * dietary preferences and the preferred units. Height and weight are entered in the
+ * preferred units and converted when the units change.
+ *
+ * @param profile - Profile the form starts from
+ * @param onSubmit - Called with the profile changes once the form is valid
+ * @param onCancel - Called when editing is cancelled
+ * @param loading - Whether the profile is being saved
+ * @param error - Error message from saving the profile
+ * @returns Rendered HealthProfileForm component
+ */
+const HealthProfileForm: React.FC<HealthProfileFormProps> = ({
+  profile,
+  onSubmit,
+  onCancel,
+  loading = false,
+  error,
+}) => {
+  const { theme } = useTheme();
+  const [values, setValues] = useState<HealthProfileFormValues>(() => toHealthProfileFormValues(profile));
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  const imperial = values.unitsPreference === UnitsPreference.IMPERIAL;
+
+  // Updates a single text field of the form
+  const handleChange = useCallback((field: keyof HealthProfileFormValues) => (text: string) => {
+    setValues(current => ({ ...current, [field]: text }));
+  }, []);
+
+  // Keeps the entered height and weight the same when the units change
+  const handleUnitsChange = useCallback((units: string) => {
+    setValues((current) => {
+      if (current.unitsPreference === units) {
+        return current;
+      }
+      const toImperial = units === UnitsPreference.IMPERIAL;
+      return {
+        ...current,
+        height: convertInput(current.height, toImperial ? 1 / CM_PER_INCH : CM_PER_INCH),
+        weight: convertInput(current.weight, toImperial ? 1 / KG_PER_POUND : KG_PER_POUND),
+        unitsPreference: units as UnitsPreference,
+      };
+    });
+  }, []);
+
+  const handleSubmit = useCallback(() => {
+    const validationErrors = validateHealthProfileForm(values);
+    setErrors(validationErrors);
+
+    if (isFormValid(validationErrors)) {
+      onSubmit(toUpdateProfileRequest(values));
+    }
+  }, [values, onSubmit]);
+
+  const labelStyle = [
+    styles.groupLabel,
+    {
+      color: theme.colors.TEXT,
+      fontFamily: theme.typography.fontFamily.medium,
+    },
+  ];
+
+  return (
+    <View style={styles.container}>
+      <ScrollView style={styles.fields} keyboardShouldPersistTaps="handled">
+        <TextInput
+          label="Name"
+          value={values.displayName}
+          onChangeText={handleChange('displayName')}
+          placeholder="How the advisor should address you"
+          error={errors.displayName}
+        />
+
+        <TextInput
+          label="Date of birth"
+          value={values.dateOfBirth}
+          onChangeText={handleChange('dateOfBirth')}
+          placeholder="YYYY-MM-DD"
+          error={errors.dateOfBirth}
+        />
+
+        <Text style={labelStyle}>Sex</Text>
+        <RadioGroup
+          options={SEX_OPTIONS}
+          selectedValue={values.sex}
+          onValueChange={handleChange('sex')}
+          direction="horizontal"
+          style={styles.radioGroup}
+        />
+
+        <Text style={labelStyle}>Units</Text>
+        <RadioGroup
+          options={UNITS_OPTIONS}
+          selectedValue={values.unitsPreference}
+          onValueChange={handleUnitsChange}
+          direction="horizontal"
+          style={styles.radioGroup}
+        />
+
+        <TextInput
+          label={imperial ? 'Height (in)' : 'Height (cm)'}
+          value={values.height}
+          onChangeText={handleChange('height')}
+          placeholder={imperial ? 'e.g. 67' : 'e.g. 170'}
+          error={errors.height}
+        />
+
+        <TextInput
+          label={imperial ? 'Weight (lb)' : 'Weight (kg)'}
+          value={values.weight}
+          onChangeText={handleChange('weight')}
+          placeholder={imperial ? 'e.g. 150' : 'e.g. 68'}
+          error={errors.weight}
+        />
+
+        <TextInput
+          label="Known conditions"
+          value={values.conditions}
+          onChangeText={handleChange('conditions')}
+          placeholder="Separate entries with commas"
+          error={errors.conditions}
+          multiline={true}
+        />
+
+        <TextInput
+          label="Allergies"
+          value={values.allergies}
+          onChangeText={handleChange('allergies')}
+          placeholder="Separate entries with commas"
+          error={errors.allergies}
+          multiline={true}
+        />
+
+        <TextInput
+          label="Medications"
+          value={values.medications}
+          onChangeText={handleChange('medications')}
+          placeholder="Separate entries with commas"
+          error={errors.medications}
+          multiline={true}
+        />
+
+        <TextInput
+          label="Dietary preferences"
+          value={values.dietaryPreferences}
+          onChangeText={handleChange('dietaryPreferences')}
+          placeholder="e.g. vegetarian, low sodium"
+          error={errors.dietaryPreferences}
+          multiline={true}
+        />
+      </ScrollView>
+
+      {error ? (
+        <Text style={[styles.error, { color: theme.colors.ERROR }]}>{error}</Text>
+      ) : null}
+
+      <View style={styles.buttons}>
+        <Button
+          label="Cancel"
+          onPress={onCancel}
+          variant={ButtonVariant.OUTLINE}
+          disabled={loading}
+          style={styles.button}
+        />
+        <Button
+          label="Save Profile"
+          onPress={handleSubmit}
+          variant={ButtonVariant.PRIMARY}
+          loading={loading}
+          disabled={loading}
+          style={styles.button}
+        />
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    width: '100%',
+  },
+  fields: {
+    maxHeight: 420,
+  },
+  groupLabel: {
+    fontSize: 14,
+    marginBottom: 4,
+  },
+  radioGroup: {
+    marginBottom: 12,
+  },
+  error: {
+    fontSize: 14,
+    marginTop: 8,
+  },
+  buttons: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 16,
+  },
+  button: {
+    flex: 1,
+    marginHorizontal: 4,
+  },
+});
+
+export default HealthProfileForm;
@@ -8,8 +8,9 @@
 
 // Import form components
 import FormField from './FormField';
+import HealthProfileForm from './HealthProfileForm';
 import RadioGroup from './RadioGroup';
 import TextInput from './TextInput';
 
 // Re-export form components for use throughout the application
-export { FormField, RadioGroup, TextInput };
\ No newline at end of file
+export { FormField, HealthProfileForm, RadioGroup, TextInput };
\ No newline at end of file
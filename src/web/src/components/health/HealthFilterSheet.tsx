@@ -0,0 +1,250 @@
+import React, { useState, useEffect, useCallback } from 'react'; // React v18.2.0
+import { View, Text, StyleSheet, TouchableOpacity, ScrollView, Dimensions } from 'react-native'; // React Native v0.71.0
+import { startOfDay, subDays, differenceInCalendarDays } from 'date-fns'; // date-fns v2.29.3
+
+import BottomSheet from '../modals/BottomSheet';
+import TextInput from '../forms/TextInput';
+import Button from '../buttons/Button';
+import { HealthFilterSheetProps, ButtonVariant } from '../../types/components.types';
+import { HealthDataFilters, HealthDataType, SymptomSeverity, MealType } from '../../types/health.types';
+import { useTheme } from '../../contexts/ThemeContext';
+
+// Date range presets, in days including today; 0 means any time
+const DATE_RANGES = [
+  { days: 0, label: 'Any time' },
+  { days: 7, label: 'Last 7 days' },
+  { days: 30, label: 'Last 30 days' },
+  { days: 90, label: 'Last 90 days' },
+];
+
+const TYPE_OPTIONS = [
+  { value: HealthDataType.MEAL, label: 'Meals' },
+  { value: HealthDataType.LAB_RESULT, label: 'Lab Results' },
+  { value: HealthDataType.SYMPTOM, label: 'Symptoms' },
+];
+
+const SEVERITY_OPTIONS = [
+  { value: SymptomSeverity.MILD, label: 'Mild' },
+  { value: SymptomSeverity.MODERATE, label: 'Moderate' },
+  { value: SymptomSeverity.SEVERE, label: 'Severe' },
+];
+
+const MEAL_TYPE_OPTIONS = [
+  { value: MealType.BREAKFAST, label: 'Breakfast' },
+  { value: MealType.LUNCH, label: 'Lunch' },
+  { value: MealType.DINNER, label: 'Dinner' },
+  { value: MealType.SNACK, label: 'Snack' },
+];
+
+/**
+ * Counts the filters that narrow the health log, e.g. for a badge on the filter button
+ * @param filters Filters to count
+ * @returns Number of filters with a value
+ */
+export const countActiveFilters = (filters: HealthDataFilters): number => {
+  const multiValue = [filters.types, filters.tags, filters.severity, filters.mealType];
+  return multiValue.filter(values => values && values.length > 0).length
+    + (filters.startDate || filters.endDate ? 1 : 0);
+};
+
+/**
+ * Finds the date range preset matching a start date
+ * @param startDate Start of the range in ISO format, if any
+ * @returns Preset length in days, or 0 for any time
+ */
+const getRangeDays = (startDate?: string): number => {
+  if (!startDate) {
+    return 0;
+  }
+  const days = differenceInCalendarDays(new Date(), new Date(startDate)) + 1;
+  return DATE_RANGES.some(range => range.days === days) ? days : 0;
+};
+
+/**
+ * Adds a value to a list of selected values, or removes it if already selected
+ */
+const toggleValue = <T,>(values: T[] | undefined, value: T): T[] => {
+  const current = values || [];
+  return current.includes(value) ? current.filter(item => item !== value) : [...current, value];
+};
+
+/**
+ * A bottom sheet for narrowing the health log by date range, type, tags, symptom
+ * severity and meal type. Changes are kept in the sheet until applied, and all
+ * chosen filters are combined into a single request by the health log.
+ *
+ * @param visible - Whether the sheet is visible
+ * @param filters - Filters currently applied to the health log
+ * @param onApply - Called with the chosen filters
+ * @param onClose - Called when the sheet is dismissed without applying
+ * @returns Rendered HealthFilterSheet component
+ */
+const HealthFilterSheet: React.FC<HealthFilterSheetProps> = ({
+  visible,
+  filters,
+  onApply,
+  onClose,
+}) => {
+  const { theme } = useTheme();
+
+  // Filters being edited, applied only when the user confirms
+  const [draft, setDraft] = useState<HealthDataFilters>(filters);
+  const [rangeDays, setRangeDays] = useState<number>(getRangeDays(filters.startDate));
+  const [tagText, setTagText] = useState<string>((filters.tags || []).join(', '));
+
+  // Start from the applied filters each time the sheet opens
+  useEffect(() => {
+    if (visible) {
+      setDraft(filters);
+      setRangeDays(getRangeDays(filters.startDate));
+      setTagText((filters.tags || []).join(', '));
+    }
+  }, [visible, filters]);
+
+  const handleApply = useCallback(() => {
+    const tags = tagText.split(',').map(tag => tag.trim()).filter(Boolean);
+
+    onApply({
+      types: draft.types?.length ? draft.types : undefined,
+      severity: draft.severity?.length ? draft.severity : undefined,
+      mealType: draft.mealType?.length ? draft.mealType : undefined,
+      tags: tags.length ? Array.from(new Set(tags)) : undefined,
+      startDate: rangeDays ? startOfDay(subDays(new Date(), rangeDays - 1)).toISOString() : undefined,
+    });
+  }, [draft, rangeDays, tagText, onApply]);
+
+  const handleReset = useCallback(() => {
+    setDraft({});
+    setRangeDays(0);
+    setTagText('');
+  }, []);
+
+  // Renders a selectable option; selected options are filled with the primary color
+  const renderOption = (key: string, label: string, selected: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={key}
+      onPress={onPress}
+      style={[
+        styles.option,
+        {
+          borderColor: selected ? theme.colors.PRIMARY : theme.colors.BORDER,
+          backgroundColor: selected ? theme.colors.PRIMARY : 'transparent',
+        },
+      ]}
+      accessibilityRole="button"
+      accessibilityState={{ selected }}
+      testID={`filter-option-${key}`}
+    >
+      <Text style={[styles.optionText, { color: selected ? theme.colors.WHITE : theme.colors.TEXT }]}>
+        {label}
+      </Text>
+    </TouchableOpacity>
+  );
+
+  const renderSection = (title: string, children: React.ReactNode) => (
+    <View style={styles.section}>
+      <Text style={[styles.sectionTitle, { color: theme.colors.TEXT }]}>{title}</Text>
+      <View style={styles.options}>{children}</View>
+    </View>
+  );
+
+  return (
+    <BottomSheet
+      visible={visible}
+      onClose={onClose}
+      title="Filter Health Log"
+      height={Dimensions.get('window').height * 0.8}
+    >
+      <ScrollView contentContainerStyle={styles.content}>
+        {renderSection('Date', DATE_RANGES.map(range => renderOption(
+          `range-${range.days}`,
+          range.label,
+          rangeDays === range.days,
+          () => setRangeDays(range.days)
+        )))}
+
+        {renderSection('Type', TYPE_OPTIONS.map(option => renderOption(
+          option.value,
+          option.label,
+          !!draft.types?.includes(option.value),
+          () => setDraft(prev => ({ ...prev, types: toggleValue(prev.types, option.value) }))
+        )))}
+
+        {renderSection('Symptom Severity', SEVERITY_OPTIONS.map(option => renderOption(
+          option.value,
+          option.label,
+          !!draft.severity?.includes(option.value),
+          () => setDraft(prev => ({ ...prev, severity: toggleValue(prev.severity, option.value) }))
+        )))}
+
+        {renderSection('Meal Type', MEAL_TYPE_OPTIONS.map(option => renderOption(
+          option.value,
+          option.label,
+          !!draft.mealType?.includes(option.value),
+          () => setDraft(prev => ({ ...prev, mealType: toggleValue(prev.mealType, option.value) }))
+        )))}
+
+        <TextInput
+          label="Tags"
+          value={tagText}
+          onChangeText={setTagText}
+          placeholder="e.g., migraine, low-carb"
+        />
+
+        <View style={styles.actions}>
+          <Button
+            label="Reset"
+            onPress={handleReset}
+            variant={ButtonVariant.OUTLINE}
+            style={styles.actionButton}
+          />
+          <Button
+            label="Apply Filters"
+            onPress={handleApply}
+            style={styles.actionButton}
+          />
+        </View>
+      </ScrollView>
+    </BottomSheet>
+  );
+};
+
+const styles = StyleSheet.create({
+  content: {
+    paddingBottom: 24,
+  },
+  section: {
+    marginBottom: 16,
+  },
+  sectionTitle: {
+    marginBottom: 8,
+    fontWeight: '500',
+    fontSize: 16,
+  },
+  options: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    margin: -4,
+  },
+  option: {
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    margin: 4,
+  },
+  optionText: {
+    fontSize: 14,
+  },
+  actions: {
+    flexDirection: 'row',
+    marginTop: 8,
+    marginHorizontal: -4,
+  },
+  actionButton: {
+    flex: 1,
+    marginHorizontal: 4,
+  },
+});
+
+export default HealthFilterSheet;
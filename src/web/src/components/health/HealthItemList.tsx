@@ -128,6 +128,7 @@ const HealthItemList: React.FC<HealthItemListProps> = ({
   onEndReached,
   refreshing = false,
   onRefresh,
+  groupByDate: groupItemsByDate = true,
   style,
 }) => {
   const { theme } = useTheme();
@@ -137,12 +138,16 @@ const HealthItemList: React.FC<HealthItemListProps> = ({
     return groupByDate(items, 'timestamp');
   }, [items]);
   
-  // Convert the grouped object into an array for FlatList rendering
+  // Convert the grouped object into an array for FlatList rendering. Ungrouped items
+  // form a single section without a header so they keep their order, e.g. by relevance
   const sections = React.useMemo(() => {
+    if (!groupItemsByDate) {
+      return items.length > 0 ? [{ date: '', items }] : [];
+    }
     return Object.entries(groupedItems)
       .sort((a, b) => new Date(b[0]).getTime() - new Date(a[0]).getTime())
       .map(([date, dateItems]) => ({ date, items: dateItems }));
-  }, [groupedItems]);
+  }, [groupItemsByDate, groupedItems, items]);
   
   return (
     <View 
@@ -157,10 +162,10 @@ const HealthItemList: React.FC<HealthItemListProps> = ({
     >
       <FlatList
         data={sections}
-        keyExtractor={section => section.date}
+        keyExtractor={section => section.date || 'items'}
         renderItem={({ item: section }) => (
           <View>
-            {renderSectionHeader(section.date)}
+            {section.date ? renderSectionHeader(section.date) : null}
             {section.items.map(item => (
               <View key={item.id}>
                 {renderItem({ item, onItemPress })}
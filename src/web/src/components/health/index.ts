@@ -10,5 +10,6 @@
 
 import CalendarView from './CalendarView';
 import HealthItemList from './HealthItemList';
+import HealthFilterSheet from './HealthFilterSheet';
 
-export { CalendarView, HealthItemList };
\ No newline at end of file
+export { CalendarView, HealthItemList, HealthFilterSheet };
\ No newline at end of file
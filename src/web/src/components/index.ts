@@ -15,6 +15,7 @@ import * as modals from './modals';
 import * as datainput from './datainput';
 import * as health from './health';
 import * as chat from './chat';
+import * as charts from './charts';
 
 // Re-export components
 export const Avatar = common.Avatar;
@@ -28,6 +29,7 @@ export const Button = buttons.Button;
 export const IconButton = buttons.IconButton;
 
 export const FormField = forms.FormField;
+export const HealthProfileForm = forms.HealthProfileForm;
 export const RadioGroup = forms.RadioGroup;
 export const TextInput = forms.TextInput;
 
@@ -38,13 +40,18 @@ export const Modal = modals.Modal;
 export const BottomSheet = modals.BottomSheet;
 export const ConfirmationModal = modals.ConfirmationModal;
 
+export const AnalyteInputList = datainput.AnalyteInputList;
 export const CameraView = datainput.CameraView;
 export const DataEntryOptions = datainput.DataEntryOptions;
 export const VoiceRecorder = datainput.VoiceRecorder;
 
 export const CalendarView = health.CalendarView;
 export const HealthItemList = health.HealthItemList;
+export const HealthFilterSheet = health.HealthFilterSheet;
 
 export const ChatBubble = chat.ChatBubble;
 export const ChatInput = chat.ChatInput;
-export const ChatList = chat.ChatList;
\ No newline at end of file
+export const ChatList = chat.ChatList;
+
+export const BarChart = charts.BarChart;
+export const LineChart = charts.LineChart;
\ No newline at end of file
@@ -128,6 +128,22 @@ export const HTTP_STATUS = {
   SERVICE_UNAVAILABLE: 503,
 };
 
+/**
+ * Error codes returned by the backend in the error.code field of authentication failures
+ */
+export const AUTH_ERROR_CODES = {
+  /**
+   * Access token has expired and can be renewed with the refresh token
+   */
+  TOKEN_EXPIRED: 'Authentication token has expired',
+
+  /**
+   * Too many failed logins for the account or from the IP address; the error details
+   * hold the time the lockout ends in lockedUntil
+   */
+  ACCOUNT_LOCKED: 'Account temporarily locked due to too many failed login attempts',
+};
+
 /**
  * Standard error messages for API-related errors
  */
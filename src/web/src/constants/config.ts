@@ -81,13 +81,14 @@ export const AUTH_CONFIG = {
   
   /**
    * Maximum number of failed login attempts before temporary lockout
-   * Based on F-001-RQ-002 business rules
+   * Based on F-001-RQ-002 business rules; the backend enforces the limit, this mirrors its default
    */
   MAX_FAILED_LOGIN_ATTEMPTS: 5,
   
   /**
-   * Duration of account lockout after exceeding failed login attempts (in milliseconds)
-   * Set to 30 minutes (1,800,000 ms)
+   * Duration of the first account lockout after exceeding failed login attempts (in milliseconds)
+   * Set to 30 minutes (1,800,000 ms); the backend doubles it for every further lockout.
+   * Used when a lockout response doesn't say when the lockout ends.
    */
   ACCOUNT_LOCKOUT_DURATION: 1800000
 };
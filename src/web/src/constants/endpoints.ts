@@ -18,7 +18,7 @@ const API_BASE_PATH = `${API_CONSTANTS.BASE_URL}/api/${API_CONSTANTS.VERSION}`;
  */
 export const ENDPOINTS = {
   /**
-   * Authentication-related endpoint URLs for login, signup, and token validation
+   * Authentication-related endpoint URLs for login, signup, token refresh and validation
    * Addresses F-001: User Authentication requirement
    */
   AUTH: {
@@ -27,11 +27,56 @@ export const ENDPOINTS = {
      */
     LOGIN: `${API_BASE_PATH}/authz/login`,
     
+    /**
+     * Endpoint for the second login step of users with two-factor authentication
+     */
+    LOGIN_TWO_FACTOR: `${API_BASE_PATH}/authz/login/2fa`,
+    
     /**
      * Endpoint for user registration with email and password
      */
     SIGNUP: `${API_BASE_PATH}/authz/signup`,
     
+    /**
+     * Endpoint for exchanging a refresh token for a new token pair
+     */
+    REFRESH: `${API_BASE_PATH}/authz/refresh`,
+    
+    /**
+     * Endpoint for revoking the refresh tokens of the current session
+     */
+    LOGOUT: `${API_BASE_PATH}/authz/logout`,
+    
+    /**
+     * Endpoint for changing the password of the signed-in user
+     */
+    CHANGE_PASSWORD: `${API_BASE_PATH}/authz/password/change`,
+    
+    /**
+     * Endpoint for requesting a password reset code by email
+     */
+    FORGOT_PASSWORD: `${API_BASE_PATH}/authz/password/forgot`,
+    
+    /**
+     * Endpoint for setting a new password with a reset code
+     */
+    RESET_PASSWORD: `${API_BASE_PATH}/authz/password/reset`,
+    
+    /**
+     * Endpoint for generating an authenticator secret to enroll in two-factor authentication
+     */
+    TWO_FACTOR_SETUP: `${API_BASE_PATH}/authz/2fa/setup`,
+    
+    /**
+     * Endpoint for turning two-factor authentication on with a code from the authenticator app
+     */
+    TWO_FACTOR_ENABLE: `${API_BASE_PATH}/authz/2fa/enable`,
+    
+    /**
+     * Endpoint for turning two-factor authentication off with the password and a code
+     */
+    TWO_FACTOR_DISABLE: `${API_BASE_PATH}/authz/2fa/disable`,
+    
     /**
      * Endpoint for validating JWT tokens
      */
@@ -67,6 +112,21 @@ export const ENDPOINTS = {
      * Endpoint for deleting health records
      */
     DELETE: `${API_BASE_PATH}/health/:id`,
+    
+    /**
+     * Endpoint for retrieving aggregated health insights over a date range
+     */
+    INSIGHTS: `${API_BASE_PATH}/health/insights`,
+    
+    /**
+     * Endpoint for retrieving the measurements of a lab analyte over time
+     */
+    ANALYTE_HISTORY: `${API_BASE_PATH}/health/analytes/:analyte/history`,
+    
+    /**
+     * Endpoint for reading a lab result photo into a draft with OCR
+     */
+    EXTRACT_LAB_RESULT: `${API_BASE_PATH}/health/:id/extract`,
   },
   
   /**
@@ -79,6 +139,11 @@ export const ENDPOINTS = {
      */
     SEND_MESSAGE: `${API_BASE_PATH}/chat/message`,
     
+    /**
+     * Endpoint for sending a message to the LLM and streaming the response as Server-Sent Events
+     */
+    STREAM_MESSAGE: `${API_BASE_PATH}/chat/message/stream`,
+    
     /**
      * Endpoint for retrieving all user conversations
      */
@@ -94,6 +159,16 @@ export const ENDPOINTS = {
      */
     GET_CONVERSATION: `${API_BASE_PATH}/chat/conversations/:id`,
     
+    /**
+     * Endpoint for renaming, archiving or pinning a conversation
+     */
+    UPDATE_CONVERSATION: `${API_BASE_PATH}/chat/conversations/:id`,
+    
+    /**
+     * Endpoint for deleting a conversation together with its messages
+     */
+    DELETE_CONVERSATION: `${API_BASE_PATH}/chat/conversations/:id`,
+    
     /**
      * Endpoint for retrieving messages within a specific conversation
      */
@@ -114,5 +189,25 @@ export const ENDPOINTS = {
      * Endpoint for updating user profile information
      */
     UPDATE_PROFILE: `${API_BASE_PATH}/users/me`,
+    
+    /**
+     * Endpoint for permanently deleting the user's account and all of their data
+     */
+    DELETE_ACCOUNT: `${API_BASE_PATH}/users/me`,
+    
+    /**
+     * Endpoint for starting an export of all of the user's data
+     */
+    REQUEST_EXPORT: `${API_BASE_PATH}/users/me/export`,
+    
+    /**
+     * Endpoint for retrieving the status of a data export
+     */
+    GET_EXPORT: `${API_BASE_PATH}/users/me/export/:id`,
+    
+    /**
+     * Endpoint for downloading the ZIP archive of a completed data export
+     */
+    DOWNLOAD_EXPORT: `${API_BASE_PATH}/users/me/export/:id/download`,
   },
 };
\ No newline at end of file
@@ -18,6 +18,9 @@ export const ROOT_ROUTES = {
 export const AUTH_ROUTES = {
   LOGIN: 'Login',
   SIGNUP: 'Signup',
+  FORGOT_PASSWORD: 'ForgotPassword',
+  RESET_PASSWORD: 'ResetPassword',
+  TWO_FACTOR: 'TwoFactor',
 } as const;
 
 /**
@@ -29,6 +32,7 @@ export const MAIN_TAB_ROUTES = {
   DATA_ENTRY: 'DataEntry',
   INSIGHTS: 'Insights',
   PROFILE: 'Profile',
+  TWO_FACTOR_SETUP: 'TwoFactorSetup',
 } as const;
 
 /**
@@ -23,6 +23,8 @@ import {
   AuthAction,
   LoginRequest,
   SignupRequest,
+  TwoFactorChallengeResponse,
+  TwoFactorLoginRequest,
   UserResponse
 } from '../types/auth.types';
 
@@ -71,6 +73,12 @@ const authReducer = (state: AuthState, action: AuthAction): AuthState => {
         loading: false,
         error: action.payload
       };
+    case AuthActionType.TWO_FACTOR_REQUIRED:
+      return {
+        ...state,
+        loading: false,
+        error: null
+      };
     case AuthActionType.SIGNUP_REQUEST:
       return {
         ...state,
@@ -114,7 +122,8 @@ const authReducer = (state: AuthState, action: AuthAction): AuthState => {
 // Create the authentication context with a default value
 const AuthContext = createContext<AuthContextType>({
   state: initialState,
-  login: async () => {},
+  login: async () => null,
+  verifyTwoFactor: async () => {},
   signup: async () => {},
   logout: async () => {},
   checkAuthStatus: async () => false
@@ -185,13 +194,53 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
    * Implements F-001-RQ-002: User login with email and password
    * 
    * @param credentials - Object containing email and password
+   * @returns Promise that resolves with the challenge to answer with verifyTwoFactor when the
+   * user has two-factor authentication, or null once the user is logged in
    */
-  const login = useCallback(async (credentials: LoginRequest): Promise<void> => {
+  const login = useCallback(async (credentials: LoginRequest): Promise<TwoFactorChallengeResponse | null> => {
     dispatch({ type: AuthActionType.LOGIN_REQUEST });
 
     try {
       const authResponse = await authService.login(credentials);
       
+      if ('twoFactorRequired' in authResponse) {
+        dispatch({ type: AuthActionType.TWO_FACTOR_REQUIRED });
+        return authResponse;
+      }
+      
+      dispatch({
+        type: AuthActionType.LOGIN_SUCCESS,
+        payload: {
+          user: authResponse.user,
+          token: authResponse.token
+        }
+      });
+
+      NavigationService.navigateToMain();
+      return null;
+    } catch (error) {
+      const parsedError = parseApiError(error);
+      
+      dispatch({
+        type: AuthActionType.LOGIN_FAILURE,
+        payload: parsedError.message
+      });
+
+      throw parsedError;
+    }
+  }, []);
+
+  /**
+   * Completes the login of a user with two-factor authentication
+   * 
+   * @param request - Challenge token from the login and the code the user entered
+   */
+  const verifyTwoFactor = useCallback(async (request: TwoFactorLoginRequest): Promise<void> => {
+    dispatch({ type: AuthActionType.LOGIN_REQUEST });
+
+    try {
+      const authResponse = await authService.verifyTwoFactorLogin(request);
+      
       dispatch({
         type: AuthActionType.LOGIN_SUCCESS,
         payload: {
@@ -307,11 +356,12 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     () => ({
       state,
       login,
+      verifyTwoFactor,
       signup,
       logout,
       checkAuthStatus
     }),
-    [state, login, signup, logout, checkAuthStatus]
+    [state, login, verifyTwoFactor, signup, logout, checkAuthStatus]
   );
 
   return (
@@ -24,7 +24,7 @@ import {
   ChatMessageStatus
 } from '../types/chat.types';
 import {
-  sendMessage as apiSendMessage,
+  sendMessageStream as apiSendMessageStream,
   getConversations as apiGetConversations,
   getConversation as apiGetConversation,
   getMessages as apiGetMessages,
@@ -198,7 +198,8 @@ export const ChatProvider: React.FC<{ children: React.ReactNode }> = ({ children
   }, [isAuthenticated]);
 
   /**
-   * Send a message to the LLM health advisor and handle the response
+   * Send a message to the LLM health advisor and stream the response into the
+   * active conversation as it is generated
    * 
    * @param message Text message to send
    * @param conversationId Optional ID of an existing conversation
@@ -238,6 +239,16 @@ export const ChatProvider: React.FC<{ children: React.ReactNode }> = ({ children
       status: ChatMessageStatus.SENDING
     };
     
+    // Create an empty assistant message that is filled in as the response streams
+    const streamingAssistantMessage: ChatMessage = {
+      id: uuidv4(), // Replaced with the stored message ID once streaming completes
+      conversationId: targetConversationId!,
+      role: ChatRole.ASSISTANT,
+      content: '',
+      timestamp: new Date(),
+      status: ChatMessageStatus.STREAMING
+    };
+    
     // Optimistically add user message to the conversation
     setChatState(prev => {
       // Find the target conversation
@@ -259,36 +270,58 @@ export const ChatProvider: React.FC<{ children: React.ReactNode }> = ({ children
       };
     });
     
+    /**
+     * Applies an update to the streaming assistant message, adding it to the
+     * conversation (and marking the user message as sent) on the first update
+     */
+    const updateStreamingMessage = (update: (msg: ChatMessage) => ChatMessage) => {
+      setChatState(prev => {
+        if (!prev.activeConversation) return prev;
+        
+        const messages = prev.activeConversation.messages;
+        const hasStreamingMessage = messages.some(msg => msg.id === streamingAssistantMessage.id);
+        
+        const updatedMessages = hasStreamingMessage
+          ? messages.map(msg => msg.id === streamingAssistantMessage.id ? update(msg) : msg)
+          : [
+              ...messages.map(msg =>
+                msg.id === tempUserMessage.id
+                  ? { ...msg, status: ChatMessageStatus.SENT }
+                  : msg
+              ),
+              update(streamingAssistantMessage)
+            ];
+        
+        return {
+          ...prev,
+          activeConversation: {
+            ...prev.activeConversation,
+            messages: updatedMessages
+          }
+        };
+      });
+    };
+    
     try {
-      // Send message to API
-      const response = await apiSendMessage(message, targetConversationId);
+      // Send message to API and append response text as it arrives
+      const response = await apiSendMessageStream(
+        message,
+        delta => updateStreamingMessage(msg => ({ ...msg, content: msg.content + delta })),
+        targetConversationId
+      );
       
-      // Create assistant message from response
-      const assistantMessage: ChatMessage = {
-        id: uuidv4(), // Temporary ID until we refresh the conversation
-        conversationId: targetConversationId!,
-        role: ChatRole.ASSISTANT,
+      // Replace the streamed text with the stored message, which is the source of truth
+      updateStreamingMessage(msg => ({
+        ...msg,
+        id: response.messageId || msg.id,
         content: response.response,
-        timestamp: new Date(),
         status: ChatMessageStatus.SENT
-      };
+      }));
       
-      // Update user message status to SENT and add assistant response
+      // Update the conversation timestamps
       setChatState(prev => {
         if (!prev.activeConversation) return prev;
         
-        const updatedMessages = prev.activeConversation.messages.map(msg => 
-          msg.id === tempUserMessage.id 
-            ? { ...msg, status: ChatMessageStatus.SENT } 
-            : msg
-        );
-        
-        const updatedConversation = {
-          ...prev.activeConversation,
-          messages: [...updatedMessages, assistantMessage],
-          lastMessageAt: new Date()
-        };
-        
         // Update the conversation in the list if it exists there
         const updatedConversations = prev.conversations.map(conv => 
           conv.id === targetConversationId 
@@ -299,21 +332,32 @@ export const ChatProvider: React.FC<{ children: React.ReactNode }> = ({ children
         return {
           ...prev,
           conversations: updatedConversations,
-          activeConversation: updatedConversation,
+          activeConversation: {
+            ...prev.activeConversation,
+            lastMessageAt: new Date()
+          },
           loading: false
         };
       });
       
-      return response;
+      return {
+        response: response.response,
+        conversationId: response.conversationId
+      };
     } catch (error) {
       const parsedError = parseApiError(error);
       
-      // Update message status to ERROR
+      // Mark the partial response as failed if streaming had started, otherwise the user message
       setChatState(prev => {
         if (!prev.activeConversation) return prev;
         
+        const streamStarted = prev.activeConversation.messages.some(
+          msg => msg.id === streamingAssistantMessage.id
+        );
+        const failedMessageId = streamStarted ? streamingAssistantMessage.id : tempUserMessage.id;
+        
         const updatedMessages = prev.activeConversation.messages.map(msg => 
-          msg.id === tempUserMessage.id 
+          msg.id === failedMessageId 
             ? { ...msg, status: ChatMessageStatus.ERROR } 
             : msg
         );
@@ -13,6 +13,8 @@ import { useAuthContext } from '../contexts/AuthContext';
 import { 
   LoginRequest, 
   SignupRequest, 
+  TwoFactorChallengeResponse,
+  TwoFactorLoginRequest,
   UserResponse,
   AuthState 
 } from '../types/auth.types';
@@ -26,7 +28,8 @@ export interface UseAuthResult {
   user: UserResponse | null;
   loading: boolean;
   error: string | null;
-  login: (credentials: LoginRequest) => Promise<void>;
+  login: (credentials: LoginRequest) => Promise<TwoFactorChallengeResponse | null>;
+  verifyTwoFactor: (request: TwoFactorLoginRequest) => Promise<void>;
   signup: (credentials: SignupRequest) => Promise<void>;
   logout: () => Promise<void>;
   checkAuth: () => Promise<boolean>;
@@ -47,11 +50,28 @@ export const useAuth = (): UseAuthResult => {
    * Implements F-001-RQ-002: User login with email and password
    * 
    * @param credentials - User login credentials (email and password)
+   * @returns Promise that resolves with a challenge when the user has two-factor
+   * authentication, or null when login is complete
+   */
+  const login = useCallback(async (credentials: LoginRequest): Promise<TwoFactorChallengeResponse | null> => {
+    try {
+      const response = await authService.login(credentials);
+      return 'twoFactorRequired' in response ? response : null;
+    } catch (error) {
+      // Parse and rethrow the error for consistent error handling
+      throw parseApiError(error);
+    }
+  }, []);
+
+  /**
+   * Completes the login of a user with two-factor authentication
+   * 
+   * @param request - Challenge token from the login and the code the user entered
    * @returns Promise that resolves when login is complete
    */
-  const login = useCallback(async (credentials: LoginRequest): Promise<void> => {
+  const verifyTwoFactor = useCallback(async (request: TwoFactorLoginRequest): Promise<void> => {
     try {
-      await authService.login(credentials);
+      await authService.verifyTwoFactorLogin(request);
     } catch (error) {
       // Parse and rethrow the error for consistent error handling
       throw parseApiError(error);
@@ -110,6 +130,7 @@ export const useAuth = (): UseAuthResult => {
     loading: state.loading,
     error: state.error,
     login,
+    verifyTwoFactor,
     signup,
     logout,
     checkAuth
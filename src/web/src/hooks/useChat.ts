@@ -16,14 +16,17 @@ import {
   SendMessageResponse,
   ConversationsParams,
   ChatHistoryParams,
-  PaginatedResponse
+  PaginatedResponse,
+  UpdateConversationRequest
 } from '../types/chat.types';
 import {
-  sendMessage as sendMessageService,
+  sendMessageStream as sendMessageStreamService,
   getConversations as getConversationsService,
   getConversation as getConversationService,
   getMessages as getMessagesService,
-  createConversation as createConversationService
+  createConversation as createConversationService,
+  updateConversation as updateConversationService,
+  deleteConversation as deleteConversationService
 } from '../services/chat.service';
 import { useAuth } from './useAuth';
 import { parseApiError } from '../utils/error.utils';
@@ -32,8 +35,10 @@ import { parseApiError } from '../utils/error.utils';
  * Interface defining the return type of the useChat hook
  */
 export interface UseChatResult {
-  /** List of user conversations */
+  /** List of active user conversations, pinned ones first */
   conversations: Conversation[];
+  /** List of archived user conversations, pinned ones first */
+  archivedConversations: Conversation[];
   /** Currently active conversation with messages */
   activeConversation: Conversation | null;
   /** Loading state for async operations */
@@ -48,8 +53,42 @@ export interface UseChatResult {
   loadConversation: (conversationId: string) => Promise<void>;
   /** Function to create a new conversation */
   createNewConversation: () => Promise<string>;
+  /** Function to load the archived conversations */
+  loadArchivedConversations: () => Promise<void>;
+  /** Function to rename, archive or pin a conversation */
+  updateConversation: (conversationId: string, updates: UpdateConversationRequest) => Promise<void>;
+  /** Function to delete a conversation together with its messages */
+  deleteConversation: (conversationId: string) => Promise<void>;
 }
 
+/**
+ * Sorts conversations the way the server lists them: pinned ones first, then by latest message
+ * @param conversations Conversations to sort
+ * @returns A sorted copy of the conversations
+ */
+const sortConversations = (conversations: Conversation[]): Conversation[] => 
+  [...conversations].sort((a, b) => {
+    if (a.pinned !== b.pinned) {
+      return a.pinned ? -1 : 1;
+    }
+    return new Date(b.lastMessageAt).getTime() - new Date(a.lastMessageAt).getTime();
+  });
+
+/**
+ * Adds a conversation to a list, or replaces it while keeping the messages already loaded
+ * @param conversations List to add the conversation to
+ * @param conversation Conversation to add
+ * @returns The updated list, sorted
+ */
+const upsertConversation = (conversations: Conversation[], conversation: Conversation): Conversation[] => {
+  const existing = conversations.find(c => c.id === conversation.id);
+  
+  return sortConversations([
+    ...conversations.filter(c => c.id !== conversation.id),
+    { ...conversation, messages: existing?.messages || conversation.messages }
+  ]);
+};
+
 /**
  * Custom hook that provides chat functionality and state management for the LLM health advisor
  * 
@@ -58,6 +97,7 @@ export interface UseChatResult {
 export const useChat = (): UseChatResult => {
   // State variables
   const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [archivedConversations, setArchivedConversations] = useState<Conversation[]>([]);
   const [activeConversation, setActiveConversation] = useState<Conversation | null>(null);
   const [loading, setLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
@@ -88,6 +128,24 @@ export const useChat = (): UseChatResult => {
     });
   }, []);
 
+  /**
+   * Applies an update to a message in the active conversation
+   * @param messageId ID of the message to update
+   * @param update Function returning the updated message
+   */
+  const updateMessage = useCallback((messageId: string, update: (message: ChatMessage) => ChatMessage) => {
+    setActiveConversation(prevConversation => {
+      if (!prevConversation) return null;
+      
+      return {
+        ...prevConversation,
+        messages: prevConversation.messages.map(message => 
+          message.id === messageId ? update(message) : message
+        )
+      };
+    });
+  }, []);
+
   /**
    * Adds a new message to the active conversation
    * @param message Message to add to the conversation
@@ -141,9 +199,7 @@ export const useChat = (): UseChatResult => {
           });
         });
         
-        return Array.from(conversationMap.values()).sort((a, b) => 
-          new Date(b.lastMessageAt).getTime() - new Date(a.lastMessageAt).getTime()
-        );
+        return sortConversations(Array.from(conversationMap.values()));
       });
     } catch (error) {
       const parsedError = parseApiError(error);
@@ -239,7 +295,7 @@ export const useChat = (): UseChatResult => {
       setActiveConversation(newConversation);
       
       // Add to conversations list
-      setConversations(prevConversations => [newConversation, ...prevConversations]);
+      setConversations(prevConversations => upsertConversation(prevConversations, newConversation));
       
       return newConversation.id;
     } catch (error) {
@@ -252,7 +308,88 @@ export const useChat = (): UseChatResult => {
   }, [isAuthenticated]);
   
   /**
-   * Sends a message to the LLM health advisor and handles the response
+   * Loads the archived conversations, replacing the ones loaded before
+   * @returns Promise that resolves when the archived conversations are loaded
+   */
+  const loadArchivedConversations = useCallback(async (): Promise<void> => {
+    if (!isAuthenticated) {
+      setError('User must be authenticated to load conversations');
+      return;
+    }
+    
+    setError(null);
+    
+    try {
+      const response = await getConversationsService({ page: 1, limit: 50, archived: true });
+      
+      setArchivedConversations(sortConversations(response.items));
+    } catch (error) {
+      const parsedError = parseApiError(error);
+      setError(parsedError.message);
+    }
+  }, [isAuthenticated]);
+  
+  /**
+   * Renames, archives or pins a conversation, moving it between the active and archived lists
+   * @param conversationId ID of the conversation to update
+   * @param updates Fields to update
+   * @returns Promise that resolves when the conversation is updated
+   */
+  const updateConversation = useCallback(async (
+    conversationId: string,
+    updates: UpdateConversationRequest
+  ): Promise<void> => {
+    setError(null);
+    
+    try {
+      const updated = await updateConversationService(conversationId, updates);
+      
+      setConversations(prevConversations => updated.archived
+        ? prevConversations.filter(c => c.id !== conversationId)
+        : upsertConversation(prevConversations, updated)
+      );
+      setArchivedConversations(prevConversations => updated.archived
+        ? upsertConversation(prevConversations, updated)
+        : prevConversations.filter(c => c.id !== conversationId)
+      );
+      setActiveConversation(prevConversation => 
+        prevConversation && prevConversation.id === conversationId
+          ? { ...prevConversation, title: updated.title, archived: updated.archived, pinned: updated.pinned }
+          : prevConversation
+      );
+    } catch (error) {
+      const parsedError = parseApiError(error);
+      setError(parsedError.message);
+      throw parsedError;
+    }
+  }, []);
+  
+  /**
+   * Deletes a conversation together with its messages
+   * If it is the active conversation, there is no active conversation afterwards
+   * @param conversationId ID of the conversation to delete
+   * @returns Promise that resolves when the conversation is deleted
+   */
+  const deleteConversation = useCallback(async (conversationId: string): Promise<void> => {
+    setError(null);
+    
+    try {
+      await deleteConversationService(conversationId);
+      
+      setConversations(prevConversations => prevConversations.filter(c => c.id !== conversationId));
+      setArchivedConversations(prevConversations => prevConversations.filter(c => c.id !== conversationId));
+      setActiveConversation(prevConversation => 
+        prevConversation && prevConversation.id === conversationId ? null : prevConversation
+      );
+    } catch (error) {
+      const parsedError = parseApiError(error);
+      setError(parsedError.message);
+      throw parsedError;
+    }
+  }, []);
+  
+  /**
+   * Sends a message to the LLM health advisor and streams the response into the conversation
    * @param message The message text to send
    * @param conversationId Optional ID of an existing conversation
    * @returns Promise that resolves with the LLM response
@@ -286,41 +423,76 @@ export const useChat = (): UseChatResult => {
     // Add the user message to the active conversation
     addMessage(userMessage);
     
+    // The assistant message is added on the first streamed chunk and filled in as text arrives
+    const streamingMessageId = uuidv4();
+    let streamStarted = false;
+    
     try {
-      // Send the message to the LLM service
-      const response = await sendMessageService(message, conversationId);
+      // Send the message to the LLM service, rendering the response as it streams
+      const response = await sendMessageStreamService(message, (delta) => {
+        if (!streamStarted) {
+          streamStarted = true;
+          updateMessageStatus(tempMessageId, ChatMessageStatus.SENT);
+          addMessage({
+            id: streamingMessageId,
+            conversationId: conversationId!,
+            role: ChatRole.ASSISTANT,
+            content: delta,
+            timestamp: new Date(),
+            status: ChatMessageStatus.STREAMING
+          });
+        } else {
+          updateMessage(streamingMessageId, msg => ({ ...msg, content: msg.content + delta }));
+        }
+      }, conversationId);
       
       // Update the user message status to SENT
       updateMessageStatus(tempMessageId, ChatMessageStatus.SENT);
       
-      // Create the assistant message from the response
-      const assistantMessage: ChatMessage = {
-        id: uuidv4(), // Temporary ID until we load the conversation again
-        conversationId: response.conversationId,
-        role: ChatRole.ASSISTANT,
-        content: response.response || 'I apologize, but I couldn\'t generate a response at this time.',
-        timestamp: new Date(),
-        status: ChatMessageStatus.SENT
-      };
+      const content = response.response || 'I apologize, but I couldn\'t generate a response at this time.';
       
-      // Add the assistant message to the conversation
-      addMessage(assistantMessage);
+      if (streamStarted) {
+        // Replace the streamed text with the stored message, which is the source of truth
+        updateMessage(streamingMessageId, msg => ({
+          ...msg,
+          id: response.messageId || msg.id,
+          conversationId: response.conversationId,
+          content,
+          status: ChatMessageStatus.SENT
+        }));
+      } else {
+        // Nothing was streamed, so add the assistant message from the final response
+        addMessage({
+          id: response.messageId || streamingMessageId,
+          conversationId: response.conversationId,
+          role: ChatRole.ASSISTANT,
+          content,
+          timestamp: new Date(),
+          status: ChatMessageStatus.SENT
+        });
+      }
       
       // If a new conversation was created by the server, update the active conversation
       if (conversationId !== response.conversationId) {
         await loadConversation(response.conversationId);
       }
       
-      return response;
+      return {
+        response: response.response,
+        conversationId: response.conversationId
+      };
     } catch (error) {
-      // Update the user message status to ERROR
-      updateMessageStatus(tempMessageId, ChatMessageStatus.ERROR);
+      // Mark the partial response as failed if streaming had started, otherwise the user message
+      updateMessageStatus(
+        streamStarted ? streamingMessageId : tempMessageId,
+        ChatMessageStatus.ERROR
+      );
       
       const parsedError = parseApiError(error);
       setError(parsedError.message);
       throw parsedError;
     }
-  }, [isAuthenticated, activeConversation, createNewConversation, updateMessageStatus, addMessage, loadConversation]);
+  }, [isAuthenticated, activeConversation, createNewConversation, updateMessageStatus, updateMessage, addMessage, loadConversation]);
   
   // Load conversations when the user is authenticated
   useEffect(() => {
@@ -332,12 +504,18 @@ export const useChat = (): UseChatResult => {
   // Return the chat state and methods
   return {
     conversations,
+    archivedConversations,
     activeConversation,
     loading,
     error,
     sendMessage,
     loadConversations,
     loadConversation,
-    createNewConversation
+    createNewConversation,
+    loadArchivedConversations,
+    updateConversation,
+    deleteConversation
   };
-};
\ No newline at end of file
+};
+
+export default useChat;
\ No newline at end of file
@@ -4,10 +4,13 @@ import {
   HealthDataResponse,
   HealthDataListResponse,
   CreateHealthDataRequest,
+  UpdateHealthDataRequest,
   CreateMealDataRequest,
   CreateLabResultDataRequest,
   CreateSymptomDataRequest,
-  GetHealthDataParams
+  GetHealthDataParams,
+  GetHealthInsightsParams,
+  HealthInsights
 } from '../types/health.types';
 import {
   getHealthDataById,
@@ -18,7 +21,10 @@ import {
   createLabResultData,
   createSymptomData,
   createHealthData,
-  deleteHealthData
+  updateHealthData,
+  deleteHealthData,
+  getHealthInsights,
+  extractLabResult
 } from '../api/health.api';
 import {
   formatHealthDataForDisplay,
@@ -47,6 +53,7 @@ export const useHealthData = () => {
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [isLoadingItem, setIsLoadingItem] = useState<boolean>(false);
   const [isSubmitting, setIsSubmitting] = useState<boolean>(false);
+  const [isExtracting, setIsExtracting] = useState<boolean>(false);
   
   // Error state for all health data operations
   const [error, setError] = useState<string | null>(null);
@@ -55,6 +62,10 @@ export const useHealthData = () => {
   const [totalItems, setTotalItems] = useState<number>(0);
   const [currentPage, setCurrentPage] = useState<number>(1);
   
+  // Aggregated insights for the Insights tab
+  const [insights, setInsights] = useState<HealthInsights | null>(null);
+  const [isLoadingInsights, setIsLoadingInsights] = useState<boolean>(false);
+  
   /**
    * Fetches health data with optional filtering and pagination
    * 
@@ -254,6 +265,34 @@ export const useHealthData = () => {
     }
   }, []);
   
+  /**
+   * Updates an existing health data entry
+   * 
+   * @param id ID of the health data entry to update
+   * @param data The complete updated health data
+   * @returns Promise resolving to the updated health data entry, or null on error
+   */
+  const editHealthData = useCallback(async (id: string, data: UpdateHealthDataRequest) => {
+    try {
+      setIsSubmitting(true);
+      setError(null);
+      
+      const response = await updateHealthData(id, data);
+      
+      // Replace the entry in state with the updated version
+      const formattedData = formatHealthDataForDisplay(response);
+      setHealthData(prevData => prevData.map(item => (item.id === id ? formattedData : item)));
+      
+      return formattedData;
+    } catch (error) {
+      const parsedError = parseApiError(error);
+      setError(parsedError.message);
+      return null;
+    } finally {
+      setIsSubmitting(false);
+    }
+  }, []);
+  
   /**
    * Removes a health data entry by ID
    * 
@@ -287,6 +326,51 @@ export const useHealthData = () => {
     }
   }, [selectedHealthData]);
   
+  /**
+   * Fetches aggregated health insights for a date range
+   * 
+   * @param params Date range and timezone for the insights
+   * @returns Promise resolving to the health insights, or null on error
+   */
+  const fetchHealthInsights = useCallback(async (params: GetHealthInsightsParams = {}) => {
+    try {
+      setIsLoadingInsights(true);
+      setError(null);
+      
+      const response = await getHealthInsights(params);
+      setInsights(response);
+      
+      return response;
+    } catch (error) {
+      const parsedError = parseApiError(error);
+      setError(parsedError.message);
+      return null;
+    } finally {
+      setIsLoadingInsights(false);
+    }
+  }, []);
+  
+  /**
+   * Reads the photo of a lab result into a draft of its analytes
+   * 
+   * @param id ID of the lab result
+   * @returns Promise resolving to the draft, or null on error
+   */
+  const extractLabResultDraft = useCallback(async (id: string) => {
+    try {
+      setIsExtracting(true);
+      setError(null);
+      
+      return await extractLabResult(id);
+    } catch (error) {
+      const parsedError = parseApiError(error);
+      setError(parsedError.message);
+      return null;
+    } finally {
+      setIsExtracting(false);
+    }
+  }, []);
+  
   /**
    * Groups health data items by date for organized display in Health Log
    * 
@@ -306,6 +390,7 @@ export const useHealthData = () => {
     setError(null);
     setTotalItems(0);
     setCurrentPage(1);
+    setInsights(null);
   }, []);
   
   // Return all state and functions
@@ -316,9 +401,12 @@ export const useHealthData = () => {
     isLoading,
     isLoadingItem,
     isSubmitting,
+    isExtracting,
     error,
     totalItems,
     currentPage,
+    insights,
+    isLoadingInsights,
     
     // Functions
     fetchHealthData,
@@ -326,7 +414,10 @@ export const useHealthData = () => {
     fetchHealthDataByDate,
     searchHealthDataItems,
     addHealthData,
+    editHealthData,
     removeHealthData,
+    fetchHealthInsights,
+    extractLabResultDraft,
     getGroupedHealthData,
     resetState
   };
@@ -4,13 +4,17 @@ import { createStackNavigator } from '@react-navigation/stack'; // ^6.x
 // Screens
 import LoginScreen from '../screens/auth/LoginScreen';
 import SignupScreen from '../screens/auth/SignupScreen';
+import ForgotPasswordScreen from '../screens/auth/ForgotPasswordScreen';
+import ResetPasswordScreen from '../screens/auth/ResetPasswordScreen';
+import TwoFactorScreen from '../screens/auth/TwoFactorScreen';
 
 // Types & Constants
 import { AuthStackParamList } from '../types/navigation.types';
 import { AUTH_ROUTES } from '../constants/navigation';
 
 /**
- * Authentication navigator component that manages navigation between login and signup screens.
+ * Authentication navigator component that manages navigation between the login, two-factor,
+ * signup and password reset screens.
  * Implements a stack navigator for the authentication flow and is displayed
  * when the user is not authenticated.
  * 
@@ -31,6 +35,9 @@ const AuthNavigator = () => {
     >
       <Stack.Screen name={AUTH_ROUTES.LOGIN} component={LoginScreen} />
       <Stack.Screen name={AUTH_ROUTES.SIGNUP} component={SignupScreen} />
+      <Stack.Screen name={AUTH_ROUTES.FORGOT_PASSWORD} component={ForgotPasswordScreen} />
+      <Stack.Screen name={AUTH_ROUTES.RESET_PASSWORD} component={ResetPasswordScreen} />
+      <Stack.Screen name={AUTH_ROUTES.TWO_FACTOR} component={TwoFactorScreen} />
     </Stack.Navigator>
   );
 };
@@ -7,6 +7,7 @@ import ChatScreen from '../screens/chat/ChatScreen';
 import HealthLogScreen from '../screens/health/HealthLogScreen';
 import InsightsScreen from '../screens/insights/InsightsScreen';
 import ProfileScreen from '../screens/profile/ProfileScreen';
+import TwoFactorSetupScreen from '../screens/profile/TwoFactorSetupScreen';
 
 // Internal imports for data entry options and navigation types
 import DataEntryOptions from '../components/datainput/DataEntryOptions';
@@ -210,6 +211,14 @@ const MainNavigator = (): JSX.Element => {
             tabBarLabel: 'Profile',
           }}
         />
+        {/* Opened from the profile, so it has no tab of its own */}
+        <Tab.Screen
+          name={MAIN_TAB_ROUTES.TWO_FACTOR_SETUP}
+          component={TwoFactorSetupScreen}
+          options={{
+            tabBarButton: () => null,
+          }}
+        />
       </Tab.Navigator>
 
       {showDataEntryOptions && (
@@ -0,0 +1,176 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView
+} from 'react-native';
+
+// Hooks
+import useForm from '../../hooks/useForm';
+
+// Components
+import TextInput from '../../components/forms/TextInput';
+import Button from '../../components/buttons/Button';
+import ErrorMessage from '../../components/common/ErrorMessage';
+
+// API, utils and types
+import { requestPasswordReset } from '../../api/auth.api';
+import { validateForgotPasswordForm } from '../../utils/validation.utils';
+import { ParsedError } from '../../utils/error.utils';
+import { ForgotPasswordRequest } from '../../types/auth.types';
+import { AuthScreenProps } from '../../types/navigation.types';
+import { AUTH_ROUTES } from '../../constants/navigation';
+
+// Constants and theme
+import { COLORS } from '../../constants/colors';
+import { spacing, typography } from '../../theme';
+
+/**
+ * Forgot password screen that asks for the email address of the account and has a
+ * single-use reset code sent to it. The server responds the same way whether or not the
+ * address is registered, so the screen does too.
+ *
+ * @param props - Component props including navigation
+ * @returns Rendered ForgotPasswordScreen component
+ */
+const ForgotPasswordScreen: React.FC<AuthScreenProps<'ForgotPassword'>> = ({ navigation }) => {
+  const [error, setError] = useState('');
+
+  // Initialize form with validation
+  const initialValues: ForgotPasswordRequest = { email: '' };
+  const {
+    values,
+    errors,
+    isSubmitting,
+    handleChange,
+    handleSubmit
+  } = useForm(
+    initialValues,
+    validateForgotPasswordForm,
+    handleRequestCode
+  );
+
+  /**
+   * Requests a reset code and moves on to entering it
+   * @param formValues - The form values to submit
+   */
+  async function handleRequestCode(formValues: ForgotPasswordRequest) {
+    setError('');
+    try {
+      await requestPasswordReset({ email: formValues.email });
+      navigation.navigate(AUTH_ROUTES.RESET_PASSWORD, { email: formValues.email });
+    } catch (err) {
+      setError((err as ParsedError)?.message || 'The reset code could not be sent. Please try again.');
+    }
+  }
+
+  return (
+    <KeyboardAvoidingView
+      style={styles.container}
+      behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+      keyboardVerticalOffset={Platform.OS === 'ios' ? 50 : 30}
+    >
+      <ScrollView
+        contentContainerStyle={styles.scrollContent}
+        keyboardShouldPersistTaps="handled"
+        accessibilityLabel="Forgot password form"
+      >
+        <View style={styles.headerContainer}>
+          <Text style={styles.title}>Forgot Password</Text>
+          <Text style={styles.subtitle}>
+            Enter the email address of your account and we'll send you a code to reset your password.
+          </Text>
+        </View>
+
+        <View style={styles.formContainer}>
+          <TextInput
+            label="Email"
+            value={values.email}
+            onChangeText={handleChange('email')}
+            placeholder="Enter your email"
+            error={errors.email}
+          />
+
+          {error ? <ErrorMessage message={error} /> : null}
+
+          <Button
+            label="Send Reset Code"
+            onPress={handleSubmit}
+            loading={isSubmitting}
+            disabled={isSubmitting}
+            style={styles.submitButton}
+          />
+
+          <TouchableOpacity
+            style={styles.linkContainer}
+            onPress={() => navigation.navigate(AUTH_ROUTES.RESET_PASSWORD, { email: values.email })}
+            accessibilityRole="button"
+            accessibilityLabel="I already have a code"
+            accessibilityHint="Navigate to the reset password screen"
+          >
+            <Text style={styles.link}>I already have a code</Text>
+          </TouchableOpacity>
+
+          <TouchableOpacity
+            style={styles.linkContainer}
+            onPress={() => navigation.navigate(AUTH_ROUTES.LOGIN)}
+            accessibilityRole="button"
+            accessibilityLabel="Back to Log In"
+            accessibilityHint="Navigate to login screen"
+          >
+            <Text style={styles.link}>Back to Log In</Text>
+          </TouchableOpacity>
+        </View>
+      </ScrollView>
+    </KeyboardAvoidingView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.LIGHT.BACKGROUND,
+  },
+  scrollContent: {
+    flexGrow: 1,
+    justifyContent: 'center',
+    padding: spacing.m,
+  },
+  headerContainer: {
+    alignItems: 'center',
+    marginBottom: spacing.xl,
+  },
+  title: {
+    fontSize: typography.fontSize.xxl,
+    fontWeight: 'bold',
+    color: COLORS.LIGHT.PRIMARY,
+    marginTop: spacing.s,
+  },
+  subtitle: {
+    fontSize: typography.fontSize.m,
+    color: COLORS.LIGHT.TEXT,
+    textAlign: 'center',
+    marginTop: spacing.s,
+  },
+  formContainer: {
+    width: '100%',
+  },
+  submitButton: {
+    marginTop: spacing.m,
+  },
+  linkContainer: {
+    marginTop: spacing.l,
+    alignItems: 'center',
+  },
+  link: {
+    fontSize: typography.fontSize.m,
+    color: COLORS.LIGHT.PRIMARY,
+    fontWeight: 'bold',
+  }
+});
+
+export default ForgotPasswordScreen;
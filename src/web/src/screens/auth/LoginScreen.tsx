@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import {
   View,
   Text,
@@ -22,19 +22,36 @@ import LoadingIndicator from '../../components/common/LoadingIndicator';
 
 // Utils and types
 import { validateLoginForm } from '../../utils/validation.utils';
+import { ParsedError } from '../../utils/error.utils';
+import { formatDisplayTime, formatDisplayDateTime } from '../../utils/date.utils';
 import { LoginRequest } from '../../types/auth.types';
+import { ApiErrorType } from '../../types/api.types';
 import { AuthScreenProps } from '../../types/navigation.types';
 import { AUTH_ROUTES } from '../../constants/navigation';
 
 // Constants and theme
 import { COLORS } from '../../constants/colors';
-import { spacing, typography } from '../../theme';
+import { AUTH_CONFIG } from '../../constants/config';
+import { spacing, typography, borderRadius } from '../../theme';
+
+/**
+ * Formats the time a lockout ends, with the date when it isn't today
+ * @param lockedUntil - Time the lockout ends
+ * @returns Formatted time, e.g. '2:30 PM'
+ */
+const formatLockoutEnd = (lockedUntil: Date): string => {
+  return lockedUntil.toDateString() === new Date().toDateString()
+    ? formatDisplayTime(lockedUntil)
+    : formatDisplayDateTime(lockedUntil);
+};
 
 /**
  * Login screen component for the Health Advisor mobile application that
  * allows users to authenticate with their email and password.
  * 
  * Implements F-001-RQ-002: User login with email and password requirement.
+ * After too many failed attempts the backend locks logins for a while; the screen then
+ * explains the lockout, says when it ends and disables logging in until then.
  * 
  * @param props - Component props including navigation
  * @returns Rendered LoginScreen component
@@ -43,6 +60,10 @@ const LoginScreen: React.FC<AuthScreenProps<'Login'>> = ({ navigation }) => {
   // Get authentication methods and state from auth hook
   const { login, loading, error } = useAuth();
 
+  // Lockout after too many failed login attempts
+  const [lockedUntil, setLockedUntil] = useState<Date | null>(null);
+  const [lockoutMessage, setLockoutMessage] = useState('');
+
   // Initialize form with validation
   const initialValues: LoginRequest = { email: '', password: '' };
   const { 
@@ -62,14 +83,39 @@ const LoginScreen: React.FC<AuthScreenProps<'Login'>> = ({ navigation }) => {
    */
   async function handleLogin(formValues: LoginRequest) {
     try {
-      await login(formValues);
+      const challenge = await login(formValues);
+      // Users with two-factor authentication still have to enter a code
+      if (challenge) {
+        navigation.navigate(AUTH_ROUTES.TWO_FACTOR, { challengeToken: challenge.challengeToken });
+      }
       // On successful login, navigation is handled by AuthContext
     } catch (err) {
+      const parsedError = err as ParsedError;
+      if (parsedError?.type === ApiErrorType.ACCOUNT_LOCKED) {
+        const lockedUntilTime = Date.parse(parsedError.details?.lockedUntil);
+        setLockedUntil(new Date(isNaN(lockedUntilTime)
+          ? Date.now() + AUTH_CONFIG.ACCOUNT_LOCKOUT_DURATION
+          : lockedUntilTime));
+        setLockoutMessage(parsedError.message);
+        return;
+      }
+
       // Form-specific errors are handled by the form hook
       console.error('Login error:', err);
     }
   }
 
+  // Allow logging in again once the lockout has ended
+  useEffect(() => {
+    if (!lockedUntil) {
+      return undefined;
+    }
+
+    const timer = setTimeout(() => setLockedUntil(null), Math.max(0, lockedUntil.getTime() - Date.now()));
+
+    return () => clearTimeout(timer);
+  }, [lockedUntil]);
+
   return (
     <KeyboardAvoidingView 
       style={styles.container}
@@ -103,13 +149,44 @@ const LoginScreen: React.FC<AuthScreenProps<'Login'>> = ({ navigation }) => {
             error={errors.password}
           />
 
-          {error && <ErrorMessage message={error} />}
+          <TouchableOpacity
+            style={styles.forgotPasswordContainer}
+            onPress={() => navigation.navigate(AUTH_ROUTES.FORGOT_PASSWORD)}
+            accessibilityRole="button"
+            accessibilityLabel="Forgot password?"
+            accessibilityHint="Navigate to the forgot password screen"
+          >
+            <Text style={styles.forgotPasswordText}>Forgot password?</Text>
+          </TouchableOpacity>
+
+          {lockedUntil ? (
+            <View style={styles.lockoutContainer} accessibilityRole="alert">
+              <Text style={styles.lockoutTitle}>Login temporarily locked</Text>
+              <Text style={styles.lockoutText}>
+                {lockoutMessage || 'Too many failed login attempts.'}
+              </Text>
+              <Text style={styles.lockoutText}>
+                You can log in again after {formatLockoutEnd(lockedUntil)}.
+              </Text>
+              <TouchableOpacity
+                onPress={() => navigation.navigate(AUTH_ROUTES.FORGOT_PASSWORD)}
+                accessibilityRole="button"
+                accessibilityLabel="Reset your password"
+                accessibilityHint="Navigate to the forgot password screen"
+              >
+                <Text style={styles.lockoutLink}>Reset your password</Text>
+              </TouchableOpacity>
+            </View>
+          ) : (
+            // The lockout message stays in the auth state after the lockout has ended
+            error && error !== lockoutMessage ? <ErrorMessage message={error} /> : null
+          )}
 
           <Button
             label="Log In"
             onPress={handleSubmit}
             loading={loading}
-            disabled={loading}
+            disabled={loading || !!lockedUntil}
             style={styles.loginButton}
           />
 
@@ -153,9 +230,41 @@ const styles = StyleSheet.create({
   formContainer: {
     width: '100%',
   },
+  forgotPasswordContainer: {
+    alignSelf: 'flex-end',
+    marginBottom: spacing.s,
+  },
+  forgotPasswordText: {
+    fontSize: typography.fontSize.s,
+    color: COLORS.LIGHT.PRIMARY,
+  },
   loginButton: {
     marginTop: spacing.m,
   },
+  lockoutContainer: {
+    padding: spacing.m,
+    borderRadius: borderRadius.medium,
+    borderWidth: 1,
+    borderColor: COLORS.LIGHT.ERROR,
+    backgroundColor: COLORS.LIGHT.CARD,
+  },
+  lockoutTitle: {
+    fontSize: typography.fontSize.m,
+    fontWeight: 'bold',
+    color: COLORS.LIGHT.ERROR,
+    marginBottom: spacing.xs,
+  },
+  lockoutText: {
+    fontSize: typography.fontSize.s,
+    color: COLORS.LIGHT.TEXT,
+    marginBottom: spacing.xs,
+  },
+  lockoutLink: {
+    fontSize: typography.fontSize.s,
+    color: COLORS.LIGHT.PRIMARY,
+    fontWeight: 'bold',
+    marginTop: spacing.xs,
+  },
   signupContainer: {
     marginTop: spacing.xl,
     alignItems: 'center',
@@ -0,0 +1,206 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+  Alert
+} from 'react-native';
+
+// Hooks
+import useForm from '../../hooks/useForm';
+
+// Components
+import TextInput from '../../components/forms/TextInput';
+import Button from '../../components/buttons/Button';
+import ErrorMessage from '../../components/common/ErrorMessage';
+
+// API, utils and types
+import { resetPassword } from '../../api/auth.api';
+import { validateResetPasswordForm } from '../../utils/validation.utils';
+import { ParsedError } from '../../utils/error.utils';
+import { ResetPasswordFormValues } from '../../types/auth.types';
+import { AuthScreenProps } from '../../types/navigation.types';
+import { AUTH_ROUTES } from '../../constants/navigation';
+
+// Constants and theme
+import { COLORS } from '../../constants/colors';
+import { spacing, typography } from '../../theme';
+
+/**
+ * Reset password screen where the user enters the code from the password reset email
+ * together with a new password. Resetting the password signs the user out everywhere,
+ * so the screen returns to the login screen afterwards.
+ *
+ * @param props - Component props including navigation and route
+ * @returns Rendered ResetPasswordScreen component
+ */
+const ResetPasswordScreen: React.FC<AuthScreenProps<'ResetPassword'>> = ({ navigation, route }) => {
+  const [error, setError] = useState('');
+  const email = route?.params?.email;
+
+  // Initialize form with validation, using the code from the route when there is one
+  const initialValues: ResetPasswordFormValues = {
+    token: route?.params?.token || '',
+    newPassword: '',
+    confirmPassword: ''
+  };
+  const {
+    values,
+    errors,
+    isSubmitting,
+    handleChange,
+    handleSubmit
+  } = useForm(
+    initialValues,
+    validateResetPasswordForm,
+    handleResetPassword
+  );
+
+  /**
+   * Sets the new password and returns to the login screen
+   * @param formValues - The form values to submit
+   */
+  async function handleResetPassword(formValues: ResetPasswordFormValues) {
+    setError('');
+    try {
+      await resetPassword({
+        token: formValues.token.trim(),
+        newPassword: formValues.newPassword
+      });
+      Alert.alert('Password Reset', 'Your password has been reset. Please log in with your new password.');
+      navigation.navigate(AUTH_ROUTES.LOGIN);
+    } catch (err) {
+      setError((err as ParsedError)?.message || 'Your password could not be reset. Please try again.');
+    }
+  }
+
+  return (
+    <KeyboardAvoidingView
+      style={styles.container}
+      behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+      keyboardVerticalOffset={Platform.OS === 'ios' ? 50 : 30}
+    >
+      <ScrollView
+        contentContainerStyle={styles.scrollContent}
+        keyboardShouldPersistTaps="handled"
+        accessibilityLabel="Reset password form"
+      >
+        <View style={styles.headerContainer}>
+          <Text style={styles.title}>Reset Password</Text>
+          <Text style={styles.subtitle}>
+            {email
+              ? `If an account exists for ${email}, we've sent it a reset code. Enter the code and choose a new password.`
+              : 'Enter the code from the password reset email and choose a new password.'}
+          </Text>
+        </View>
+
+        <View style={styles.formContainer}>
+          <TextInput
+            label="Reset Code"
+            value={values.token}
+            onChangeText={handleChange('token')}
+            placeholder="Enter the code from the email"
+            error={errors.token}
+          />
+
+          <TextInput
+            label="New Password"
+            value={values.newPassword}
+            onChangeText={handleChange('newPassword')}
+            placeholder="Enter a new password"
+            secureTextEntry={true}
+            error={errors.newPassword}
+          />
+
+          <TextInput
+            label="Confirm New Password"
+            value={values.confirmPassword}
+            onChangeText={handleChange('confirmPassword')}
+            placeholder="Confirm the new password"
+            secureTextEntry={true}
+            error={errors.confirmPassword}
+          />
+
+          {error ? <ErrorMessage message={error} /> : null}
+
+          <Button
+            label="Reset Password"
+            onPress={handleSubmit}
+            loading={isSubmitting}
+            disabled={isSubmitting}
+            style={styles.submitButton}
+          />
+
+          <TouchableOpacity
+            style={styles.linkContainer}
+            onPress={() => navigation.navigate(AUTH_ROUTES.FORGOT_PASSWORD)}
+            accessibilityRole="button"
+            accessibilityLabel="Send a new code"
+            accessibilityHint="Navigate to the forgot password screen"
+          >
+            <Text style={styles.link}>Send a new code</Text>
+          </TouchableOpacity>
+
+          <TouchableOpacity
+            style={styles.linkContainer}
+            onPress={() => navigation.navigate(AUTH_ROUTES.LOGIN)}
+            accessibilityRole="button"
+            accessibilityLabel="Back to Log In"
+            accessibilityHint="Navigate to login screen"
+          >
+            <Text style={styles.link}>Back to Log In</Text>
+          </TouchableOpacity>
+        </View>
+      </ScrollView>
+    </KeyboardAvoidingView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.LIGHT.BACKGROUND,
+  },
+  scrollContent: {
+    flexGrow: 1,
+    justifyContent: 'center',
+    padding: spacing.m,
+  },
+  headerContainer: {
+    alignItems: 'center',
+    marginBottom: spacing.xl,
+  },
+  title: {
+    fontSize: typography.fontSize.xxl,
+    fontWeight: 'bold',
+    color: COLORS.LIGHT.PRIMARY,
+    marginTop: spacing.s,
+  },
+  subtitle: {
+    fontSize: typography.fontSize.m,
+    color: COLORS.LIGHT.TEXT,
+    textAlign: 'center',
+    marginTop: spacing.s,
+  },
+  formContainer: {
+    width: '100%',
+  },
+  submitButton: {
+    marginTop: spacing.m,
+  },
+  linkContainer: {
+    marginTop: spacing.l,
+    alignItems: 'center',
+  },
+  link: {
+    fontSize: typography.fontSize.m,
+    color: COLORS.LIGHT.PRIMARY,
+    fontWeight: 'bold',
+  }
+});
+
+export default ResetPasswordScreen;
@@ -0,0 +1,180 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView
+} from 'react-native';
+
+// Hooks
+import { useAuth } from '../../hooks/useAuth';
+
+// Components
+import TextInput from '../../components/forms/TextInput';
+import Button from '../../components/buttons/Button';
+import ErrorMessage from '../../components/common/ErrorMessage';
+
+// Utils and types
+import { ParsedError } from '../../utils/error.utils';
+import { AuthScreenProps } from '../../types/navigation.types';
+import { AUTH_ROUTES } from '../../constants/navigation';
+
+// Constants and theme
+import { COLORS } from '../../constants/colors';
+import { spacing, typography } from '../../theme';
+
+/**
+ * Second login step for users with two-factor authentication, where they enter the code
+ * from their authenticator app, or one of their recovery codes when the app is not at hand.
+ * The challenge from the login expires after a few minutes, after which the user has to
+ * log in again.
+ *
+ * @param props - Component props including navigation and route
+ * @returns Rendered TwoFactorScreen component
+ */
+const TwoFactorScreen: React.FC<AuthScreenProps<'TwoFactor'>> = ({ navigation, route }) => {
+  const { verifyTwoFactor } = useAuth();
+  const [code, setCode] = useState('');
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [error, setError] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  /**
+   * Sends the code to complete the login; navigation is handled by AuthContext
+   */
+  const handleVerify = async () => {
+    const trimmedCode = code.trim();
+    if (!trimmedCode) {
+      setError(useRecoveryCode ? 'Enter one of your recovery codes' : 'Enter the code from your authenticator app');
+      return;
+    }
+
+    setError('');
+    setIsSubmitting(true);
+    try {
+      await verifyTwoFactor({ challengeToken: route.params.challengeToken, code: trimmedCode });
+    } catch (err) {
+      setError((err as ParsedError)?.message || 'The code could not be verified. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  /**
+   * Switches between authenticator app codes and recovery codes
+   */
+  const toggleRecoveryCode = () => {
+    setUseRecoveryCode(!useRecoveryCode);
+    setCode('');
+    setError('');
+  };
+
+  return (
+    <KeyboardAvoidingView
+      style={styles.container}
+      behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+      keyboardVerticalOffset={Platform.OS === 'ios' ? 50 : 30}
+    >
+      <ScrollView
+        contentContainerStyle={styles.scrollContent}
+        keyboardShouldPersistTaps="handled"
+        accessibilityLabel="Two-factor verification form"
+      >
+        <View style={styles.headerContainer}>
+          <Text style={styles.title}>Verification</Text>
+          <Text style={styles.subtitle}>
+            {useRecoveryCode
+              ? 'Enter one of the recovery codes you saved when you enabled two-factor authentication.'
+              : 'Enter the 6-digit code from your authenticator app.'}
+          </Text>
+        </View>
+
+        <View style={styles.formContainer}>
+          <TextInput
+            label={useRecoveryCode ? 'Recovery Code' : 'Verification Code'}
+            value={code}
+            onChangeText={setCode}
+            placeholder={useRecoveryCode ? 'xxxxx-xxxxx' : '123456'}
+          />
+
+          {error ? <ErrorMessage message={error} /> : null}
+
+          <Button
+            label="Verify"
+            onPress={handleVerify}
+            loading={isSubmitting}
+            disabled={isSubmitting}
+            style={styles.submitButton}
+          />
+
+          <TouchableOpacity
+            style={styles.linkContainer}
+            onPress={toggleRecoveryCode}
+            accessibilityRole="button"
+            accessibilityLabel={useRecoveryCode ? 'Use authenticator app' : 'Use a recovery code'}
+          >
+            <Text style={styles.link}>{useRecoveryCode ? 'Use authenticator app' : 'Use a recovery code'}</Text>
+          </TouchableOpacity>
+
+          <TouchableOpacity
+            style={styles.linkContainer}
+            onPress={() => navigation.navigate(AUTH_ROUTES.LOGIN)}
+            accessibilityRole="button"
+            accessibilityLabel="Back to Log In"
+            accessibilityHint="Navigate to login screen"
+          >
+            <Text style={styles.link}>Back to Log In</Text>
+          </TouchableOpacity>
+        </View>
+      </ScrollView>
+    </KeyboardAvoidingView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.LIGHT.BACKGROUND,
+  },
+  scrollContent: {
+    flexGrow: 1,
+    justifyContent: 'center',
+    padding: spacing.m,
+  },
+  headerContainer: {
+    alignItems: 'center',
+    marginBottom: spacing.xl,
+  },
+  title: {
+    fontSize: typography.fontSize.xxl,
+    fontWeight: 'bold',
+    color: COLORS.LIGHT.PRIMARY,
+    marginTop: spacing.s,
+  },
+  subtitle: {
+    fontSize: typography.fontSize.m,
+    color: COLORS.LIGHT.TEXT,
+    textAlign: 'center',
+    marginTop: spacing.s,
+  },
+  formContainer: {
+    width: '100%',
+  },
+  submitButton: {
+    marginTop: spacing.m,
+  },
+  linkContainer: {
+    marginTop: spacing.l,
+    alignItems: 'center',
+  },
+  link: {
+    fontSize: typography.fontSize.m,
+    color: COLORS.LIGHT.PRIMARY,
+    fontWeight: 'bold',
+  }
+});
+
+export default TwoFactorScreen;
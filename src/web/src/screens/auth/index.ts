@@ -2,7 +2,7 @@
  * Authentication screens index file for the Health Advisor mobile application.
  * 
  * Provides a centralized entry point for importing authentication-related screens
- * including login and signup components. This file supports the user authentication 
+ * including login, signup, two-factor and password reset components. This file supports the user authentication 
  * requirements (F-001) by exporting screens that handle email and password-based
  * authentication with JWT token implementation.
  */
@@ -10,12 +10,18 @@
 // Import authentication screen components
 import LoginScreen from './LoginScreen';
 import SignupScreen from './SignupScreen';
+import ForgotPasswordScreen from './ForgotPasswordScreen';
+import ResetPasswordScreen from './ResetPasswordScreen';
+import TwoFactorScreen from './TwoFactorScreen';
 
 // Export individual components as named exports for selective importing
-export { LoginScreen, SignupScreen };
+export { LoginScreen, SignupScreen, ForgotPasswordScreen, ResetPasswordScreen, TwoFactorScreen };
 
 // Export default object with all authentication screens for convenient importing
 export default {
   LoginScreen,
-  SignupScreen
+  SignupScreen,
+  ForgotPasswordScreen,
+  ResetPasswordScreen,
+  TwoFactorScreen
 };
\ No newline at end of file
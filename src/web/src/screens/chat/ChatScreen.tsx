@@ -1,7 +1,9 @@
 import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { View, StyleSheet, KeyboardAvoidingView, Platform, SafeAreaView } from 'react-native';
+import MaterialCommunityIcons from 'react-native-vector-icons/MaterialCommunityIcons'; // ^9.2.0
 import ChatList from '../../components/chat/ChatList';
 import ChatInput from '../../components/chat/ChatInput';
+import ConversationDrawer from '../../components/chat/ConversationDrawer';
 import Header from '../../components/common/Header';
 import LoadingIndicator from '../../components/common/LoadingIndicator';
 import ErrorMessage from '../../components/common/ErrorMessage';
@@ -9,6 +11,7 @@ import useChat from '../../hooks/useChat';
 import useVoiceRecorder from '../../hooks/useVoiceRecorder';
 import { useTheme } from '../../contexts/ThemeContext';
 import { MainTabScreenProps } from '../../types/navigation.types';
+import { UpdateConversationRequest } from '../../types/chat.types';
 
 /**
  * The main chat screen component that displays chat messages and input field for 
@@ -20,12 +23,18 @@ import { MainTabScreenProps } from '../../types/navigation.types';
 const ChatScreen = ({ navigation }: MainTabScreenProps<'Chat'>): JSX.Element => {
   // Get chat functionality from hook
   const { 
+    conversations,
+    archivedConversations,
     activeConversation, 
     loading, 
     error, 
     sendMessage, 
+    loadConversations,
     loadConversation, 
-    createNewConversation 
+    createNewConversation,
+    loadArchivedConversations,
+    updateConversation,
+    deleteConversation
   } = useChat();
   
   // Get theme colors and styles
@@ -34,6 +43,9 @@ const ChatScreen = ({ navigation }: MainTabScreenProps<'Chat'>): JSX.Element =>
   // State for message input field
   const [messageInput, setMessageInput] = useState<string>('');
   
+  // Whether the conversation drawer is open
+  const [drawerVisible, setDrawerVisible] = useState<boolean>(false);
+  
   // Voice recorder functionality for voice input
   const { 
     isRecording,
@@ -139,6 +151,74 @@ const ChatScreen = ({ navigation }: MainTabScreenProps<'Chat'>): JSX.Element =>
     }
   }, [activeConversation, loadConversation, createNewConversation]);
   
+  /**
+   * Opens the conversation drawer with an up-to-date list of conversations
+   */
+  const handleOpenDrawer = useCallback(() => {
+    setDrawerVisible(true);
+    loadConversations().catch(err => {
+      console.error('Error loading conversations:', err);
+    });
+  }, [loadConversations]);
+  
+  /**
+   * Opens a conversation picked in the drawer
+   */
+  const handleSelectConversation = useCallback(async (conversationId: string) => {
+    setDrawerVisible(false);
+    try {
+      await loadConversation(conversationId);
+    } catch (err) {
+      console.error('Error loading conversation:', err);
+    }
+  }, [loadConversation]);
+  
+  /**
+   * Starts a new conversation from the drawer
+   */
+  const handleNewConversation = useCallback(async () => {
+    setDrawerVisible(false);
+    try {
+      await createNewConversation();
+    } catch (err) {
+      console.error('Error creating conversation:', err);
+    }
+  }, [createNewConversation]);
+  
+  /**
+   * Renames, archives or pins a conversation from the drawer
+   */
+  const handleUpdateConversation = useCallback(async (
+    conversationId: string,
+    updates: UpdateConversationRequest
+  ) => {
+    try {
+      await updateConversation(conversationId, updates);
+    } catch (err) {
+      console.error('Error updating conversation:', err);
+    }
+  }, [updateConversation]);
+  
+  /**
+   * Deletes a conversation from the drawer; deleting the open conversation starts a new one
+   */
+  const handleDeleteConversation = useCallback(async (conversationId: string) => {
+    try {
+      await deleteConversation(conversationId);
+    } catch (err) {
+      console.error('Error deleting conversation:', err);
+    }
+  }, [deleteConversation]);
+  
+  /**
+   * Loads the archived conversations when the drawer shows them
+   */
+  const handleShowArchived = useCallback(() => {
+    loadArchivedConversations().catch(err => {
+      console.error('Error loading archived conversations:', err);
+    });
+  }, [loadArchivedConversations]);
+  
   return (
     <SafeAreaView 
       style={[
@@ -149,7 +229,11 @@ const ChatScreen = ({ navigation }: MainTabScreenProps<'Chat'>): JSX.Element =>
       accessibilityLabel="Chat with Health Advisor"
       accessibilityRole="none"
     >
-      <Header title="Health Advisor" />
+      <Header 
+        title="Health Advisor"
+        leftIcon={<MaterialCommunityIcons name="menu" size={24} color={theme.colors.PRIMARY} />}
+        onLeftPress={handleOpenDrawer}
+      />
       
       <KeyboardAvoidingView
         ref={keyboardAvoidingRef}
@@ -191,6 +275,19 @@ const ChatScreen = ({ navigation }: MainTabScreenProps<'Chat'>): JSX.Element =>
           loading={loading}
         />
       </KeyboardAvoidingView>
+      
+      <ConversationDrawer
+        visible={drawerVisible}
+        conversations={conversations}
+        archivedConversations={archivedConversations}
+        activeConversationId={activeConversation?.id}
+        onSelect={handleSelectConversation}
+        onNewConversation={handleNewConversation}
+        onUpdate={handleUpdateConversation}
+        onDelete={handleDeleteConversation}
+        onShowArchived={handleShowArchived}
+        onClose={() => setDrawerVisible(false)}
+      />
     </SafeAreaView>
   );
 };
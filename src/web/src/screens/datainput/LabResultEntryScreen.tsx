@@ -3,6 +3,7 @@ import { View, StyleSheet, ScrollView, Alert, Platform, KeyboardAvoidingView, Im
 import MaterialCommunityIcons from 'react-native-vector-icons/MaterialCommunityIcons'; // ^9.2.0
 
 import CameraView from '../../components/datainput/CameraView';
+import AnalyteInputList, { createAnalyteRow } from '../../components/datainput/AnalyteInputList';
 import TextInput from '../../components/forms/TextInput';
 import Button from '../../components/buttons/Button';
 import Header from '../../components/common/Header';
@@ -10,15 +11,15 @@ import DatePicker from '../../components/common/DatePicker';
 import ErrorMessage from '../../components/common/ErrorMessage';
 import LoadingIndicator from '../../components/common/LoadingIndicator';
 
-import useCamera from '../../hooks/useCamera';
-import useHealthData from '../../hooks/useHealthData';
+import { useCamera } from '../../hooks/useCamera';
+import { useHealthData } from '../../hooks/useHealthData';
 import useForm from '../../hooks/useForm';
 
-import { HealthDataType, CreateLabResultDataRequest } from '../../types/health.types';
+import { HealthDataType, CreateLabResultDataRequest, LabAnalyteInput, LabResultDraft } from '../../types/health.types';
 import { useTheme } from '../../contexts/ThemeContext';
 import NavigationService from '../../navigation/NavigationService';
 import { NAVIGATION_ROUTES } from '../../constants/navigation';
-import { ButtonVariant } from '../../types/components.types';
+import { ButtonVariant, AnalyteFormRow } from '../../types/components.types';
 
 /**
  * Validates the lab result form data
@@ -39,6 +40,75 @@ const validateLabResultForm = (values: { testType?: string; testDate?: string; n
   return errors;
 };
 
+/**
+ * Parses an optional numeric field of an analyte row
+ * @param text Field value as entered
+ * @returns The number, undefined if the field is blank, or NaN if it is not a number
+ */
+const parseOptionalNumber = (text: string): number | undefined => {
+  const trimmed = text.trim();
+  return trimmed ? Number(trimmed) : undefined;
+};
+
+/**
+ * Validates the analyte rows and converts them into analytes for submission.
+ * Rows left completely blank are ignored.
+ * @param rows Analyte rows as entered
+ * @returns The parsed analytes and validation errors keyed by row ID
+ */
+export const parseAnalyteRows = (rows: AnalyteFormRow[]) => {
+  const analytes: LabAnalyteInput[] = [];
+  const errors: Record<string, string> = {};
+  const names = new Set<string>();
+
+  rows.forEach(row => {
+    const name = row.name.trim();
+    const unit = row.unit.trim();
+    const value = parseOptionalNumber(row.value);
+    const referenceLow = parseOptionalNumber(row.referenceLow);
+    const referenceHigh = parseOptionalNumber(row.referenceHigh);
+
+    if (!name && !unit && value === undefined && referenceLow === undefined && referenceHigh === undefined) {
+      return;
+    }
+
+    if (!name) {
+      errors[row.id] = 'Analyte name is required';
+    } else if (names.has(name.toLowerCase())) {
+      errors[row.id] = 'Each analyte can only be entered once';
+    } else if (value === undefined || Number.isNaN(value)) {
+      errors[row.id] = 'Value must be a number';
+    } else if (!unit) {
+      errors[row.id] = 'Unit is required';
+    } else if (Number.isNaN(referenceLow) || Number.isNaN(referenceHigh)) {
+      errors[row.id] = 'Reference range must be a number';
+    } else if (referenceLow !== undefined && referenceHigh !== undefined && referenceHigh < referenceLow) {
+      errors[row.id] = 'Reference high must not be below reference low';
+    } else {
+      analytes.push({ name, value, unit, referenceLow, referenceHigh });
+    }
+
+    names.add(name.toLowerCase());
+  });
+
+  return { analytes, errors };
+};
+
+/**
+ * Converts the analytes read from a lab report photo into editable rows
+ * @param draft Draft returned by the OCR extraction
+ * @returns One row per analyte, keeping its confidence score
+ */
+export const draftToAnalyteRows = (draft: LabResultDraft): AnalyteFormRow[] =>
+  draft.analytes.map(analyte => createAnalyteRow({
+    name: analyte.name,
+    value: String(analyte.value),
+    unit: analyte.unit || '',
+    referenceLow: analyte.referenceLow !== undefined ? String(analyte.referenceLow) : '',
+    referenceHigh: analyte.referenceHigh !== undefined ? String(analyte.referenceHigh) : '',
+    confidence: analyte.confidence,
+  }));
+
 /**
  * Screen component for capturing and submitting lab result data
  */
@@ -56,7 +126,28 @@ const LabResultEntryScreen = () => {
   } = useCamera(HealthDataType.LAB_RESULT);
   
   // Set up health data hook for submission
-  const { addHealthData, isSubmitting, error: submitError } = useHealthData();
+  const {
+    addHealthData,
+    editHealthData,
+    extractLabResultDraft,
+    isSubmitting,
+    isExtracting,
+    error: submitError
+  } = useHealthData();
+  
+  // Individual analytes entered for the lab result
+  const [analyteRows, setAnalyteRows] = useState<AnalyteFormRow[]>([]);
+  const [analyteErrors, setAnalyteErrors] = useState<Record<string, string>>({});
+  
+  // ID of the saved lab result whose analytes were read from its photo and await confirmation
+  const [draftId, setDraftId] = useState<string | null>(null);
+  
+  // Initial form values are kept stable so resetForm does not change on every render
+  const [initialValues] = useState(() => ({
+    testType: '',
+    testDate: new Date().toISOString().split('T')[0],
+    notes: '',
+  }));
   
   // Set up form hook for handling form state
   const { 
@@ -67,11 +158,7 @@ const LabResultEntryScreen = () => {
     handleSubmit, 
     resetForm 
   } = useForm(
-    {
-      testType: '',
-      testDate: new Date().toISOString().split('T')[0],
-      notes: '',
-    },
+    initialValues,
     validateLabResultForm,
     onSubmit
   );
@@ -83,27 +170,71 @@ const LabResultEntryScreen = () => {
   
   // Form submission handler
   async function onSubmit(values: any) {
-    if (!image) {
-      Alert.alert('Error', 'Please take a photo of your lab result');
+    const { analytes, errors: rowErrors } = parseAnalyteRows(analyteRows);
+    setAnalyteErrors(rowErrors);
+    if (Object.keys(rowErrors).length > 0) {
+      return;
+    }
+    
+    // The lab result is already saved, so confirming the reviewed analytes updates it
+    if (draftId) {
+      const updated = await editHealthData(draftId, {
+        type: HealthDataType.LAB_RESULT,
+        data: {
+          testType: values.testType,
+          testDate: values.testDate,
+          analytes,
+          notes: values.notes
+        },
+        timestamp: new Date().toISOString()
+      });
+      
+      if (updated) {
+        finish();
+      }
+      return;
+    }
+    
+    // A photo is only needed when no results were entered by hand
+    if (!image && analytes.length === 0) {
+      Alert.alert('Error', 'Please take a photo of your lab result or enter its results');
       return;
     }
     
     const labResultData: CreateLabResultDataRequest = {
       testType: values.testType,
       testDate: values.testDate,
+      analytes,
       notes: values.notes,
-      image,
+      image: image || undefined,
       timestamp: new Date().toISOString()
     };
     
     const result = await addHealthData(labResultData, HealthDataType.LAB_RESULT);
+    if (!result) {
+      return;
+    }
     
-    if (result) {
-      // Success - navigate back to the health log
-      resetForm();
-      resetImage();
-      NavigationService.navigateToHealthLog();
+    // Read the results from the photo when none were entered, so the user can review them
+    if (image && analytes.length === 0) {
+      const draft = await extractLabResultDraft(result.id);
+      if (draft && draft.analytes.length > 0) {
+        setAnalyteRows(draftToAnalyteRows(draft));
+        setDraftId(result.id);
+        return;
+      }
     }
+    
+    finish();
+  }
+  
+  // Clears the form and navigates back to the health log after a successful save
+  function finish() {
+    resetForm();
+    resetImage();
+    setAnalyteRows([]);
+    setDraftId(null);
+    NavigationService.navigateToHealthLog();
   }
   
   // Handler for camera capture
@@ -192,6 +323,29 @@ const LabResultEntryScreen = () => {
             )}
           </View>
           
+          {isExtracting && (
+            <View style={styles.extracting}>
+              <LoadingIndicator size="small" />
+              <Text style={[styles.draftText, { color: theme.colors.TEXT }]}>Reading results from your photo...</Text>
+            </View>
+          )}
+          
+          {draftId && (
+            <View style={[styles.draftBanner, { borderColor: theme.colors.PRIMARY }]}>
+              <Text style={[styles.draftText, { color: theme.colors.TEXT }]}>
+                We read {analyteRows.length} {analyteRows.length === 1 ? 'result' : 'results'} from your photo.
+                Please check them against your report and correct anything that was misread before confirming.
+              </Text>
+            </View>
+          )}
+          
+          <AnalyteInputList
+            rows={analyteRows}
+            onChange={setAnalyteRows}
+            errors={analyteErrors}
+            style={styles.analyteList}
+          />
+          
           <TextInput
             label="Notes (Optional)"
             value={values.notes}
@@ -209,17 +363,17 @@ const LabResultEntryScreen = () => {
           
           <View style={styles.buttonContainer}>
             <Button
-              label="Save"
+              label={draftId ? 'Confirm Results' : 'Save'}
               onPress={handleSubmit}
-              disabled={isSubmitting || cameraLoading}
-              loading={isSubmitting}
+              disabled={isSubmitting || isExtracting || cameraLoading}
+              loading={isSubmitting || isExtracting}
               style={styles.submitButton}
             />
             <Button
               label="Cancel"
               onPress={handleCancel}
               variant={ButtonVariant.SECONDARY}
-              disabled={isSubmitting}
+              disabled={isSubmitting || isExtracting}
               style={styles.cancelButton}
             />
           </View>
@@ -261,6 +415,23 @@ const styles = StyleSheet.create({
   datePickerContainer: {
     marginBottom: 16,
   },
+  analyteList: {
+    marginBottom: 16,
+  },
+  extracting: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  draftBanner: {
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 16,
+  },
+  draftText: {
+    fontSize: 14,
+  },
   label: {
     marginBottom: 8,
     fontWeight: '500',
@@ -1,7 +1,7 @@
 import React, { useState, useEffect, useCallback } from 'react';
 import { View, Text, Image, StyleSheet, ScrollView, SafeAreaView } from 'react-native';
 import { HealthScreenProps } from '../../types/navigation.types';
-import { HealthDataType, HealthDataResponse } from '../../types/health.types';
+import { HealthDataType, HealthDataResponse, TranscriptionStatus } from '../../types/health.types';
 import { getHealthDataById, deleteHealthData } from '../../services/health.service';
 import { sendMessage } from '../../services/chat.service';
 import Header from '../../components/common/Header';
@@ -296,6 +296,18 @@ const HealthDataDetailScreen: React.FC<HealthScreenProps<'HealthDataDetail'>> =
               </>
             )}
             
+            {symptomData.transcriptionStatus === TranscriptionStatus.FAILED && !symptomData.transcription && (
+              <Text style={[styles.value, { color: theme.colors.TEXT }]}>
+                Your recording could not be transcribed
+              </Text>
+            )}
+            
+            {symptomData.transcriptionStatus === TranscriptionStatus.PENDING && (
+              <Text style={[styles.value, { color: theme.colors.TEXT }]}>
+                Your recording is being transcribed
+              </Text>
+            )}
+            
             {renderCommonDetails()}
           </View>
         );
@@ -4,12 +4,13 @@ import { useNavigation } from '@react-navigation/native'; // ^6.0.0
 import { StackNavigationProp } from '@react-navigation/stack'; // ^6.0.0
 
 // Custom hooks and type definitions
-import { HealthDataResponse, HealthDataType } from '../../types/health.types';
+import { HealthDataResponse, HealthDataType, HealthDataFilters, GetHealthDataParams } from '../../types/health.types';
 import { useHealthData } from '../../hooks/useHealthData';
 
 // UI Components
 import HealthItemList from '../../components/health/HealthItemList';
 import CalendarView from '../../components/health/CalendarView';
+import HealthFilterSheet, { countActiveFilters } from '../../components/health/HealthFilterSheet';
 import SearchBar from '../../components/common/SearchBar';
 import Header from '../../components/common/Header';
 import LoadingIndicator from '../../components/common/LoadingIndicator';
@@ -21,10 +22,52 @@ import { formatAPIDate } from '../../utils/date.utils';
 import { HEALTH_ROUTES } from '../../constants/navigation';
 import { useTheme } from '../../contexts/ThemeContext';
 
+// Number of entries loaded per page
+const PAGE_SIZE = 20;
+
+/**
+ * Combines the health log's filters, calendar date and search term into the parameters
+ * for a single request. A calendar date replaces the date range of the filters, since the
+ * API accepts one or the other.
+ * @param filters Filters chosen in the filter sheet
+ * @param date Day selected in the calendar (YYYY-MM-DD format), if any
+ * @param search Search term, if any
+ * @param page Page to load
+ * @returns Request parameters with only the filters that are set
+ */
+export const buildHealthLogParams = (
+  filters: HealthDataFilters,
+  date: string | undefined,
+  search: string,
+  page: number
+): GetHealthDataParams => {
+  const params: GetHealthDataParams = { page, limit: PAGE_SIZE };
+
+  if (filters.types?.length) params.types = filters.types;
+  if (filters.tags?.length) params.tags = filters.tags;
+  if (filters.severity?.length) params.severity = filters.severity;
+  if (filters.mealType?.length) params.mealType = filters.mealType;
+
+  if (date) {
+    params.date = date;
+  } else {
+    if (filters.startDate) params.startDate = filters.startDate;
+    if (filters.endDate) params.endDate = filters.endDate;
+  }
+
+  if (search.trim()) {
+    params.search = search.trim();
+  }
+
+  return params;
+};
+
 /**
  * Screen component that displays the user's health data history with filtering and search capabilities.
- * Users can filter data by date using a calendar view and search for specific entries.
- * The screen supports pagination, pull-to-refresh, and displays appropriate loading and error states.
+ * Users can filter data by date using a calendar view, narrow it by date range, type, tags, severity
+ * and meal type in a filter sheet, and search for specific entries. All of these are combined into a
+ * single request. Search results are listed by relevance with the excerpt that matched. The screen
+ * supports pagination, pull-to-refresh, and displays appropriate loading and error states.
  */
 const HealthLogScreen = (): JSX.Element => {
   // Get theme for consistent styling
@@ -36,6 +79,8 @@ const HealthLogScreen = (): JSX.Element => {
   const [showCalendar, setShowCalendar] = useState<boolean>(false);
   const [refreshing, setRefreshing] = useState<boolean>(false);
   const [dateFiltered, setDateFiltered] = useState<boolean>(false);
+  const [filters, setFilters] = useState<HealthDataFilters>({});
+  const [showFilters, setShowFilters] = useState<boolean>(false);
 
   // Get health data and related functions from custom hook
   const {
@@ -44,9 +89,7 @@ const HealthLogScreen = (): JSX.Element => {
     error,
     totalItems,
     currentPage,
-    fetchHealthData,
-    fetchHealthDataByDate,
-    searchHealthDataItems
+    fetchHealthData
   } = useHealthData();
 
   // Get navigation object
@@ -54,12 +97,24 @@ const HealthLogScreen = (): JSX.Element => {
 
   // Fetch health data on component mount
   useEffect(() => {
-    fetchHealthData({ page: 1, limit: 20 });
+    fetchHealthData({ page: 1, limit: PAGE_SIZE });
   }, [fetchHealthData]);
 
+  /**
+   * Loads a page of health data with the current filters, date and search term
+   */
+  const loadHealthData = useCallback((page: number) => (
+    fetchHealthData(buildHealthLogParams(
+      filters,
+      dateFiltered ? formatAPIDate(selectedDate) : undefined,
+      searchQuery,
+      page
+    ))
+  ), [fetchHealthData, filters, dateFiltered, selectedDate, searchQuery]);
+
   /**
    * Handles date selection from calendar view
-   * Fetches health data for the selected date
+   * Fetches health data for the selected date with the current filters
    */
   const handleDateSelect = useCallback((date: Date) => {
     setSelectedDate(date);
@@ -69,24 +124,42 @@ const HealthLogScreen = (): JSX.Element => {
     
     // Format the date to API format (YYYY-MM-DD)
     const formattedDate = formatAPIDate(date);
-    fetchHealthDataByDate(formattedDate);
-  }, [fetchHealthDataByDate]);
+    fetchHealthData(buildHealthLogParams(filters, formattedDate, '', 1));
+  }, [fetchHealthData, filters]);
 
   /**
    * Handles search input
-   * Searches health data with the provided query
+   * Searches health data with the provided query and the current filters
    */
   const handleSearch = useCallback((query: string) => {
     setSearchQuery(query);
     setDateFiltered(false);
     
-    if (query.trim()) {
-      searchHealthDataItems(query.trim());
-    } else {
-      // If search query is cleared, reset to unfiltered data
-      fetchHealthData({ page: 1, limit: 20 });
-    }
-  }, [searchHealthDataItems, fetchHealthData]);
+    // A cleared search query shows all data matching the filters
+    fetchHealthData(buildHealthLogParams(filters, undefined, query, 1));
+  }, [fetchHealthData, filters]);
+
+  /**
+   * Applies the filters chosen in the filter sheet
+   * Keeps the selected date and search term, which are combined with the filters
+   */
+  const handleApplyFilters = useCallback((newFilters: HealthDataFilters) => {
+    setFilters(newFilters);
+    setShowFilters(false);
+    fetchHealthData(buildHealthLogParams(
+      newFilters,
+      dateFiltered ? formatAPIDate(selectedDate) : undefined,
+      searchQuery,
+      1
+    ));
+  }, [fetchHealthData, dateFiltered, selectedDate, searchQuery]);
+
+  /**
+   * Clears the filters chosen in the filter sheet
+   */
+  const clearFilters = useCallback(() => {
+    handleApplyFilters({});
+  }, [handleApplyFilters]);
 
   /**
    * Handles item press
@@ -104,20 +177,13 @@ const HealthLogScreen = (): JSX.Element => {
     setRefreshing(true);
     
     try {
-      if (searchQuery.trim()) {
-        await searchHealthDataItems(searchQuery.trim());
-      } else if (dateFiltered) {
-        const formattedDate = formatAPIDate(selectedDate);
-        await fetchHealthDataByDate(formattedDate);
-      } else {
-        await fetchHealthData({ page: 1, limit: 20 });
-      }
+      await loadHealthData(1);
     } catch (error) {
       console.error('Error refreshing health data:', error);
     } finally {
       setRefreshing(false);
     }
-  }, [searchQuery, dateFiltered, selectedDate, searchHealthDataItems, fetchHealthDataByDate, fetchHealthData]);
+  }, [loadHealthData]);
 
   /**
    * Handles loading more data when reaching the end of the list
@@ -126,29 +192,9 @@ const HealthLogScreen = (): JSX.Element => {
   const handleLoadMore = useCallback(() => {
     // Only load more if not already loading and there are more items to load
     if (!isLoading && healthData.length < totalItems) {
-      const nextPage = currentPage + 1;
-      
-      if (searchQuery.trim()) {
-        searchHealthDataItems(searchQuery.trim(), undefined, nextPage);
-      } else if (dateFiltered) {
-        const formattedDate = formatAPIDate(selectedDate);
-        fetchHealthDataByDate(formattedDate, undefined, nextPage);
-      } else {
-        fetchHealthData({ page: nextPage, limit: 20 });
-      }
+      loadHealthData(currentPage + 1);
     }
-  }, [
-    isLoading, 
-    healthData.length, 
-    totalItems, 
-    currentPage, 
-    searchQuery, 
-    dateFiltered, 
-    selectedDate, 
-    searchHealthDataItems, 
-    fetchHealthDataByDate, 
-    fetchHealthData
-  ]);
+  }, [isLoading, healthData.length, totalItems, currentPage, loadHealthData]);
 
   /**
    * Toggles the visibility of the calendar view
@@ -158,13 +204,13 @@ const HealthLogScreen = (): JSX.Element => {
   }, []);
 
   /**
-   * Clears date filter and resets to all health data
+   * Clears date filter and resets to all health data matching the filters
    */
   const clearDateFilter = useCallback(() => {
     setDateFiltered(false);
     setSearchQuery('');
-    fetchHealthData({ page: 1, limit: 20 });
-  }, [fetchHealthData]);
+    fetchHealthData(buildHealthLogParams(filters, undefined, '', 1));
+  }, [fetchHealthData, filters]);
 
   /**
    * Creates a calendar icon for the header
@@ -180,6 +226,8 @@ const HealthLogScreen = (): JSX.Element => {
     </TouchableOpacity>
   ), [toggleCalendar]);
 
+  const activeFilterCount = countActiveFilters(filters);
+
   return (
     <SafeAreaView style={[styles.safeArea, { backgroundColor: theme.colors.BACKGROUND }]}>
       <Header 
@@ -193,11 +241,38 @@ const HealthLogScreen = (): JSX.Element => {
         <SearchBar 
           value={searchQuery}
           onChangeText={handleSearch}
-          onSubmit={() => searchQuery.trim() && searchHealthDataItems(searchQuery.trim())}
+          onSubmit={() => searchQuery.trim() && loadHealthData(1)}
           placeholder="Search health data..."
           style={[styles.searchBar, { backgroundColor: theme.colors.CARD }]}
         />
 
+        {/* Filter sheet toggle, with the number of filters applied */}
+        <View style={styles.filterBar}>
+          <TouchableOpacity
+            onPress={() => setShowFilters(true)}
+            accessibilityLabel="Open filters"
+            accessibilityRole="button"
+            style={[styles.filterButton, { borderColor: theme.colors.BORDER }]}
+            testID="open-filters"
+          >
+            <Text style={[styles.filterButtonText, { color: theme.colors.TEXT }]}>
+              {activeFilterCount > 0 ? `Filters (${activeFilterCount})` : 'Filters'}
+            </Text>
+          </TouchableOpacity>
+          {activeFilterCount > 0 && (
+            <TouchableOpacity
+              onPress={clearFilters}
+              accessibilityLabel="Clear filters"
+              accessibilityRole="button"
+              style={styles.clearButton}
+            >
+              <Text style={[styles.clearButtonText, { color: theme.colors.PRIMARY }]}>
+                Clear
+              </Text>
+            </TouchableOpacity>
+          )}
+        </View>
+
         {/* Date filter indicator when active */}
         {dateFiltered && (
           <View style={[styles.filterIndicator, { backgroundColor: theme.colors.PRIMARY + '20' }]}>
@@ -249,12 +324,20 @@ const HealthLogScreen = (): JSX.Element => {
                 onEndReached={handleLoadMore}
                 refreshing={refreshing}
                 onRefresh={handleRefresh}
+                groupByDate={!searchQuery.trim()}
                 style={styles.list}
               />
             )}
           </>
         )}
       </View>
+
+      <HealthFilterSheet
+        visible={showFilters}
+        filters={filters}
+        onApply={handleApplyFilters}
+        onClose={() => setShowFilters(false)}
+      />
     </SafeAreaView>
   );
 };
@@ -299,6 +382,21 @@ const styles = StyleSheet.create({
     fontWeight: '500',
     flex: 1,
   },
+  filterBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  filterButton: {
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  filterButtonText: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
   clearButton: {
     paddingHorizontal: 8,
     paddingVertical: 4,
@@ -1,112 +1,300 @@
-import React from 'react';
-import { View, Text, StyleSheet, SafeAreaView } from 'react-native'; // ^0.71.0
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { View, Text, StyleSheet, SafeAreaView, ScrollView, TouchableOpacity } from 'react-native'; // ^0.71.0
 import { Header } from '../../components/common';
 import Card from '../../components/cards/Card';
+import LoadingIndicator from '../../components/common/LoadingIndicator';
+import ErrorMessage from '../../components/common/ErrorMessage';
+import { BarChart, LineChart } from '../../components/charts';
 import { MainTabScreenProps } from '../../types/navigation.types';
+import { MealType, SymptomSeverity } from '../../types/health.types';
 import { useTheme } from '../../contexts/ThemeContext';
+import { useHealthData } from '../../hooks/useHealthData';
+import { formatDate, parseDate, DATE_FORMAT } from '../../utils/date.utils';
+import { formatMealType, formatSymptomSeverity } from '../../utils/format.utils';
 
 /**
- * A placeholder screen for future health insights functionality.
- * This screen displays a simple message explaining that health insights
- * analysis will be available in a future update.
- * 
+ * Time windows the user can choose between, in days
+ */
+export const INSIGHTS_TIME_WINDOWS = [7, 30, 90];
+
+// Window selected when the screen first opens
+const DEFAULT_TIME_WINDOW = 30;
+
+// Format of the day labels shown on chart x-axes
+const CHART_DATE_FORMAT = 'M/d';
+
+/**
+ * Returns the device's IANA timezone so entries are grouped by the user's local days
+ * @returns Timezone name, falling back to UTC when it cannot be determined
+ */
+const getDeviceTimeZone = (): string => {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+  } catch {
+    return 'UTC';
+  }
+};
+
+/**
+ * Formats a YYYY-MM-DD day returned by the API as a short chart label
+ * @param day Day in YYYY-MM-DD format
+ * @returns Short label such as 5/15
+ */
+const formatChartLabel = (day: string): string =>
+  formatDate(parseDate(day, DATE_FORMAT), CHART_DATE_FORMAT);
+
+/**
+ * Screen showing aggregated health insights for a selectable time window:
+ * meals logged per day by meal type, weekly symptom frequency and severity,
+ * and lab test history grouped by test type.
+ *
  * @param props - The navigation props from main tab navigator
  * @returns Rendered InsightsScreen component
  */
 const InsightsScreen = ({ navigation }: MainTabScreenProps<'Insights'>): JSX.Element => {
   // Get the current theme values
   const { theme } = useTheme();
+  const { insights, isLoadingInsights, error, fetchHealthInsights } = useHealthData();
+
+  // Number of days covered by the charts
+  const [timeWindow, setTimeWindow] = useState<number>(DEFAULT_TIME_WINDOW);
+
+  /**
+   * Fetches insights for the selected time window, ending now
+   */
+  const loadInsights = useCallback(() => {
+    const endDate = new Date();
+    const startDate = new Date(endDate.getTime() - (timeWindow - 1) * 24 * 60 * 60 * 1000);
+    startDate.setHours(0, 0, 0, 0);
+
+    return fetchHealthInsights({
+      startDate: startDate.toISOString(),
+      endDate: endDate.toISOString(),
+      timezone: getDeviceTimeZone()
+    });
+  }, [timeWindow, fetchHealthInsights]);
+
+  // Reload whenever the time window changes
+  useEffect(() => {
+    loadInsights();
+  }, [loadInsights]);
+
+  // Colors for each meal type in the meals chart
+  const mealSeries = useMemo(() => [
+    { key: MealType.BREAKFAST, label: formatMealType(MealType.BREAKFAST), color: theme.colors.PRIMARY },
+    { key: MealType.LUNCH, label: formatMealType(MealType.LUNCH), color: theme.colors.SECONDARY },
+    { key: MealType.DINNER, label: formatMealType(MealType.DINNER), color: theme.colors.ACCENT },
+    { key: MealType.SNACK, label: formatMealType(MealType.SNACK), color: theme.colors.SUCCESS },
+  ], [theme]);
+
+  // Colors for each severity level in the symptoms chart
+  const severitySeries = useMemo(() => [
+    { key: SymptomSeverity.MILD, label: formatSymptomSeverity(SymptomSeverity.MILD), color: theme.colors.SUCCESS },
+    { key: SymptomSeverity.MODERATE, label: formatSymptomSeverity(SymptomSeverity.MODERATE), color: theme.colors.WARNING },
+    { key: SymptomSeverity.SEVERE, label: formatSymptomSeverity(SymptomSeverity.SEVERE), color: theme.colors.ERROR },
+  ], [theme]);
+
+  const mealsData = useMemo(() => (insights?.mealsPerDay || []).map(day => ({
+    label: formatChartLabel(day.date),
+    values: day.counts,
+  })), [insights]);
+
+  const symptomCountData = useMemo(() => (insights?.symptomTrend || []).map(week => ({
+    label: formatChartLabel(week.weekStart),
+    values: week.severityCounts,
+  })), [insights]);
+
+  const symptomSeverityData = useMemo(() => (insights?.symptomTrend || []).map(week => ({
+    label: formatChartLabel(week.weekStart),
+    value: week.averageSeverity,
+  })), [insights]);
+
+  // Totals decide whether there is anything to chart
+  const totalMeals = (insights?.mealsPerDay || []).reduce((sum, day) => sum + day.total, 0);
+  const totalSymptoms = (insights?.symptomTrend || []).reduce((sum, week) => sum + week.count, 0);
+
+  const titleStyle = {
+    color: theme.colors.TEXT,
+    fontFamily: theme.typography.fontFamily.semiBold,
+    fontSize: theme.typography.fontSize.l
+  };
+
+  const bodyStyle = {
+    color: theme.colors.TEXT,
+    fontSize: theme.typography.fontSize.s
+  };
+
+  /**
+   * Renders the content below the time window selector
+   */
+  const renderContent = (): JSX.Element => {
+    if (isLoadingInsights && !insights) {
+      return <LoadingIndicator size="large" />;
+    }
+
+    if (error) {
+      return <ErrorMessage message={error} onRetry={loadInsights} />;
+    }
+
+    if (!insights) {
+      return <View />;
+    }
+
+    return (
+      <>
+        {/* Meals per day by meal type */}
+        <Card style={styles.card} elevation="small">
+          <Text style={[styles.cardTitle, titleStyle]} accessibilityRole="header">
+            Meals per day
+          </Text>
+          {totalMeals > 0 ? (
+            <BarChart
+              data={mealsData}
+              series={mealSeries}
+              accessibilityLabel={`Meals per day chart, ${totalMeals} meals logged`}
+            />
+          ) : (
+            <Text style={bodyStyle}>No meals logged in this period.</Text>
+          )}
+        </Card>
+
+        {/* Weekly symptom frequency and severity */}
+        <Card style={styles.card} elevation="small">
+          <Text style={[styles.cardTitle, titleStyle]} accessibilityRole="header">
+            Symptoms per week
+          </Text>
+          {totalSymptoms > 0 ? (
+            <>
+              <BarChart
+                data={symptomCountData}
+                series={severitySeries}
+                accessibilityLabel={`Symptoms per week chart, ${totalSymptoms} symptoms reported`}
+              />
+              <Text style={[styles.subtitle, bodyStyle]}>
+                Average severity (1 = mild, 3 = severe)
+              </Text>
+              <LineChart
+                data={symptomSeverityData}
+                minValue={1}
+                maxValue={3}
+                color={theme.colors.ERROR}
+                accessibilityLabel="Average symptom severity per week chart"
+              />
+            </>
+          ) : (
+            <Text style={bodyStyle}>No symptoms reported in this period.</Text>
+          )}
+        </Card>
+
+        {/* Lab test history by test type */}
+        <Card style={styles.card} elevation="small">
+          <Text style={[styles.cardTitle, titleStyle]} accessibilityRole="header">
+            Lab tests
+          </Text>
+          {insights.labTestHistory.length > 0 ? (
+            insights.labTestHistory.map(test => (
+              <View
+                key={test.testType}
+                style={[styles.labRow, { borderBottomColor: theme.colors.BORDER }]}
+              >
+                <Text style={[bodyStyle, { fontFamily: theme.typography.fontFamily.semiBold }]}>
+                  {test.testType}
+                </Text>
+                <Text style={bodyStyle}>
+                  {test.count} {test.count === 1 ? 'result' : 'results'}, latest{' '}
+                  {formatDate(test.entries[test.entries.length - 1]?.testDate, 'MMM d, yyyy')}
+                </Text>
+              </View>
+            ))
+          ) : (
+            <Text style={bodyStyle}>No lab results in this period.</Text>
+          )}
+        </Card>
+      </>
+    );
+  };
 
   return (
-    <SafeAreaView style={{ 
-      flex: 1, 
-      backgroundColor: theme.colors.BACKGROUND 
+    <SafeAreaView style={{
+      flex: 1,
+      backgroundColor: theme.colors.BACKGROUND
     }}>
       {/* Header with screen title */}
       <Header title="Insights" />
-      
-      {/* Main content container */}
-      <View style={[styles.container, { backgroundColor: theme.colors.BACKGROUND }]}>
-        <Card 
-          style={styles.card} 
-          elevation="medium"
-        >
-          {/* Graph icon placeholder */}
-          <View style={[
-            styles.graphIcon, 
-            { backgroundColor: `${theme.colors.PRIMARY}15` }
-          ]}>
-            <Text style={[
-              styles.graphIconText, 
-              { color: theme.colors.PRIMARY }
-            ]}>
-              📊
-            </Text>
-          </View>
-          
-          {/* Coming soon title */}
-          <Text style={[
-            styles.title, 
-            { 
-              color: theme.colors.TEXT,
-              fontFamily: theme.typography.fontFamily.bold,
-              fontSize: theme.typography.fontSize.xl
-            }
-          ]}
-          accessibilityRole="header">
-            Coming Soon: Health Insights
-          </Text>
-          
-          {/* Description text */}
-          <Text style={[
-            styles.description, 
-            { 
-              color: theme.colors.TEXT,
-              fontSize: theme.typography.fontSize.m 
-            }
-          ]}>
-            We're working on analyzing your health data to provide personalized insights.
-            Check back soon!
-          </Text>
-        </Card>
-      </View>
+
+      <ScrollView
+        style={{ backgroundColor: theme.colors.BACKGROUND }}
+        contentContainerStyle={styles.container}
+      >
+        {/* Time window selector */}
+        <View style={styles.windowSelector} accessibilityRole="radiogroup">
+          {INSIGHTS_TIME_WINDOWS.map(days => {
+            const selected = days === timeWindow;
+            return (
+              <TouchableOpacity
+                key={days}
+                style={[
+                  styles.windowOption,
+                  {
+                    borderColor: theme.colors.PRIMARY,
+                    backgroundColor: selected ? theme.colors.PRIMARY : theme.colors.CARD
+                  }
+                ]}
+                onPress={() => setTimeWindow(days)}
+                accessibilityRole="radio"
+                accessibilityState={{ selected }}
+                accessibilityLabel={`Last ${days} days`}
+                testID={`insights-window-${days}`}
+              >
+                <Text style={{
+                  color: selected ? theme.colors.WHITE : theme.colors.PRIMARY,
+                  fontSize: theme.typography.fontSize.s
+                }}>
+                  {days} days
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+
+        {renderContent()}
+      </ScrollView>
     </SafeAreaView>
   );
 };
 
 const styles = StyleSheet.create({
   container: {
-    flex: 1,
     padding: 16,
+  },
+  windowSelector: {
+    flexDirection: 'row',
     justifyContent: 'center',
-    alignItems: 'center'
+    marginBottom: 16,
+  },
+  windowOption: {
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingVertical: 6,
+    paddingHorizontal: 14,
+    marginHorizontal: 4,
   },
   card: {
     width: '100%',
-    alignItems: 'center',
-    padding: 24,
-  },
-  graphIcon: {
-    width: 80,
-    height: 80,
-    borderRadius: 40,
-    justifyContent: 'center',
-    alignItems: 'center',
-    marginBottom: 20,
+    padding: 16,
+    marginBottom: 16,
   },
-  graphIconText: {
-    fontSize: 40,
+  cardTitle: {
+    marginBottom: 12,
   },
-  title: {
-    textAlign: 'center',
-    marginBottom: 16,
+  subtitle: {
+    marginTop: 12,
+    marginBottom: 4,
   },
-  description: {
-    textAlign: 'center',
-    marginBottom: 8,
-    paddingHorizontal: 16,
-    lineHeight: 24,
+  labRow: {
+    paddingVertical: 8,
+    borderBottomWidth: StyleSheet.hairlineWidth,
   }
 });
 
-export default InsightsScreen;
\ No newline at end of file
+export default InsightsScreen;
@@ -1,4 +1,4 @@
-import React, { useCallback } from 'react';
+import React, { useCallback, useEffect, useState } from 'react';
 import {
   View,
   Text,
@@ -9,29 +9,398 @@ import {
   ActivityIndicator
 } from 'react-native';
 import { MainTabScreenProps } from '../../types/navigation.types';
+import { MAIN_TAB_ROUTES } from '../../constants/navigation';
 import { useAuth } from '../../hooks/useAuth';
 import Header from '../../components/common/Header';
 import Avatar from '../../components/common/Avatar';
 import Button from '../../components/buttons/Button';
+import TextInput from '../../components/forms/TextInput';
+import HealthProfileForm from '../../components/forms/HealthProfileForm';
+import Modal from '../../components/modals/Modal';
 import { formatDate } from '../../utils/date.utils';
+import { formatHeight, formatWeight } from '../../utils/format.utils';
 import { APP_CONFIG } from '../../constants/config';
 import { useTheme } from '../../contexts/ThemeContext';
 import { ButtonVariant } from '../../types/components.types';
+import {
+  DataExport,
+  DataExportStatus,
+  Sex,
+  UpdateProfileRequest,
+  UserProfile
+} from '../../types/user.types';
+import { ChangePasswordFormValues } from '../../types/auth.types';
+import { ParsedError } from '../../utils/error.utils';
+import { validateChangePasswordForm, isFormValid } from '../../utils/validation.utils';
+import { authService } from '../../services/auth.service';
+import {
+  getCurrentUser,
+  updateUserProfile,
+  requestDataExport,
+  getDataExport,
+  downloadDataExport,
+  deleteAccount
+} from '../../api/user.api';
+
+// Empty values of the password change form
+const EMPTY_PASSWORD_FORM: ChangePasswordFormValues = {
+  currentPassword: '',
+  newPassword: '',
+  confirmPassword: ''
+};
+
+// How often to check on a data export while it is being built
+const EXPORT_POLL_INTERVAL = 3000;
+
+// Labels of the sex values of the health profile
+const SEX_LABELS: Record<Sex, string> = {
+  [Sex.FEMALE]: 'Female',
+  [Sex.MALE]: 'Male',
+  [Sex.INTERSEX]: 'Intersex',
+  [Sex.PREFER_NOT_TO_SAY]: 'Prefer not to say'
+};
 
 /**
- * ProfileScreen component that displays user information and provides logout functionality
+ * Lists the filled-in fields of a health profile as label and value pairs
+ */
+const getHealthProfileRows = (profile: UserProfile | null): [string, string][] => {
+  if (!profile) {
+    return [];
+  }
+
+  const rows: [string, string | undefined][] = [
+    ['Name', profile.displayName],
+    // Parse as local midnight so the date doesn't shift with the time zone
+    ['Date of birth', profile.dateOfBirth && formatDate(`${profile.dateOfBirth}T00:00:00`, 'MMM d, yyyy')],
+    ['Sex', profile.sex && SEX_LABELS[profile.sex]],
+    ['Height', profile.heightCm ? formatHeight(profile.heightCm, profile.unitsPreference) : undefined],
+    ['Weight', profile.weightKg ? formatWeight(profile.weightKg, profile.unitsPreference) : undefined],
+    ['Conditions', profile.conditions?.join(', ')],
+    ['Allergies', profile.allergies?.join(', ')],
+    ['Medications', profile.medications?.join(', ')],
+    ['Diet', profile.dietaryPreferences?.join(', ')]
+  ];
+
+  return rows.filter((row): row is [string, string] => !!row[1]);
+};
+
+/**
+ * Whether a data export is still being built on the server
+ */
+const isExportInProgress = (dataExport: DataExport | null): boolean =>
+  dataExport?.status === DataExportStatus.PENDING || dataExport?.status === DataExportStatus.PROCESSING;
+
+/**
+ * ProfileScreen component that displays user information and provides health profile editing,
+ * password changes, two-factor authentication, data export, account deletion and logout functionality
  * Implements F-005: User Profile Management requirement
  * 
  * @param props Navigation props from React Navigation
  * @returns Rendered Profile screen component
  */
-const ProfileScreen = ({ navigation }: MainTabScreenProps<'Profile'>) => {
+const ProfileScreen = ({ navigation, route }: MainTabScreenProps<'Profile'>) => {
   // Access theme for styling
   const { theme } = useTheme();
   
   // Access user data and logout function from auth context
   const { user, logout, loading } = useAuth();
 
+  // Health profile and its edit form
+  const [profile, setProfile] = useState<UserProfile | null>(null);
+  const [profileModalVisible, setProfileModalVisible] = useState(false);
+  const [profileBusy, setProfileBusy] = useState(false);
+  const [profileError, setProfileError] = useState('');
+
+  // Password change form
+  const [passwordModalVisible, setPasswordModalVisible] = useState(false);
+  const [passwordValues, setPasswordValues] = useState<ChangePasswordFormValues>(EMPTY_PASSWORD_FORM);
+  const [passwordErrors, setPasswordErrors] = useState<Record<string, string>>({});
+  const [passwordError, setPasswordError] = useState('');
+  const [passwordBusy, setPasswordBusy] = useState(false);
+
+  // Password and code confirmation for turning two-factor authentication off
+  const [twoFactorModalVisible, setTwoFactorModalVisible] = useState(false);
+  const [twoFactorPassword, setTwoFactorPassword] = useState('');
+  const [twoFactorCode, setTwoFactorCode] = useState('');
+  const [twoFactorError, setTwoFactorError] = useState('');
+  const [twoFactorBusy, setTwoFactorBusy] = useState(false);
+
+  // Latest data export and whether a request for it is in flight
+  const [dataExport, setDataExport] = useState<DataExport | null>(null);
+  const [exportBusy, setExportBusy] = useState(false);
+
+  // Password confirmation for deleting the account
+  const [deleteModalVisible, setDeleteModalVisible] = useState(false);
+  const [deletePassword, setDeletePassword] = useState('');
+  const [deleteError, setDeleteError] = useState('');
+  const [deleteBusy, setDeleteBusy] = useState(false);
+
+  // Load the health profile, which the auth context doesn't hold
+  useEffect(() => {
+    let active = true;
+
+    getCurrentUser()
+      .then((response) => {
+        if (active) {
+          setProfile(response.data);
+        }
+      })
+      .catch(() => {
+        // The section offers no editing until the profile has loaded
+      });
+
+    return () => {
+      active = false;
+    };
+  }, []);
+
+  // The setup screen returns here once two-factor authentication is on
+  const twoFactorEnabledParam = route?.params?.twoFactorEnabled;
+  useEffect(() => {
+    if (twoFactorEnabledParam) {
+      setProfile(current => (current ? { ...current, twoFactorEnabled: true } : current));
+    }
+  }, [twoFactorEnabledParam]);
+
+  // Check on the export until the server has finished building the archive
+  useEffect(() => {
+    if (!dataExport || !isExportInProgress(dataExport)) {
+      return undefined;
+    }
+
+    const timer = setTimeout(async () => {
+      try {
+        const response = await getDataExport(dataExport.id);
+        setDataExport(response.data);
+      } catch (error) {
+        // Keep the current status and try again on the next poll
+        setDataExport(current => (current ? { ...current } : current));
+      }
+    }, EXPORT_POLL_INTERVAL);
+
+    return () => clearTimeout(timer);
+  }, [dataExport]);
+
+  /**
+   * Opens the health profile edit form
+   */
+  const handleEditProfile = useCallback(() => {
+    setProfileError('');
+    setProfileModalVisible(true);
+  }, []);
+
+  /**
+   * Closes the health profile edit form without saving
+   */
+  const handleCancelProfile = useCallback(() => {
+    if (!profileBusy) {
+      setProfileModalVisible(false);
+    }
+  }, [profileBusy]);
+
+  /**
+   * Saves the changes made in the health profile edit form
+   */
+  const handleSaveProfile = useCallback(async (data: UpdateProfileRequest) => {
+    setProfileBusy(true);
+    setProfileError('');
+    try {
+      const response = await updateUserProfile(data);
+      setProfile(response.data);
+      setProfileModalVisible(false);
+    } catch (error) {
+      setProfileError((error as ParsedError)?.message || 'Your profile could not be saved. Please try again.');
+    } finally {
+      setProfileBusy(false);
+    }
+  }, []);
+
+  /**
+   * Opens an empty password change form
+   */
+  const handleChangePassword = useCallback(() => {
+    setPasswordValues(EMPTY_PASSWORD_FORM);
+    setPasswordErrors({});
+    setPasswordError('');
+    setPasswordModalVisible(true);
+  }, []);
+
+  /**
+   * Closes the password change form without changing the password
+   */
+  const handleCancelPassword = useCallback(() => {
+    if (!passwordBusy) {
+      setPasswordModalVisible(false);
+    }
+  }, [passwordBusy]);
+
+  /**
+   * Changes the password; the user stays signed in on this device and is signed out
+   * everywhere else
+   */
+  const handleConfirmPassword = useCallback(async () => {
+    const validationErrors = validateChangePasswordForm(passwordValues);
+    setPasswordErrors(validationErrors);
+    if (!isFormValid(validationErrors)) {
+      return;
+    }
+
+    setPasswordBusy(true);
+    setPasswordError('');
+    try {
+      await authService.changePassword({
+        currentPassword: passwordValues.currentPassword,
+        newPassword: passwordValues.newPassword
+      });
+      setPasswordModalVisible(false);
+      Alert.alert('Password Changed', 'Your password has been changed. You have been signed out on your other devices.');
+    } catch (error) {
+      setPasswordError((error as ParsedError)?.message || 'Your password could not be changed. Please try again.');
+    } finally {
+      setPasswordBusy(false);
+    }
+  }, [passwordValues]);
+
+  /**
+   * Opens the screen that enrolls the user's authenticator app
+   */
+  const handleEnableTwoFactor = useCallback(() => {
+    navigation.navigate(MAIN_TAB_ROUTES.TWO_FACTOR_SETUP);
+  }, [navigation]);
+
+  /**
+   * Asks for the password and a code before turning two-factor authentication off
+   */
+  const handleDisableTwoFactor = useCallback(() => {
+    setTwoFactorPassword('');
+    setTwoFactorCode('');
+    setTwoFactorError('');
+    setTwoFactorModalVisible(true);
+  }, []);
+
+  /**
+   * Closes the confirmation without turning two-factor authentication off
+   */
+  const handleCancelTwoFactor = useCallback(() => {
+    if (!twoFactorBusy) {
+      setTwoFactorModalVisible(false);
+    }
+  }, [twoFactorBusy]);
+
+  /**
+   * Turns two-factor authentication off once the password and a code have been entered
+   */
+  const handleConfirmDisableTwoFactor = useCallback(async () => {
+    if (!twoFactorPassword || !twoFactorCode.trim()) {
+      setTwoFactorError('Please enter your password and a verification code');
+      return;
+    }
+
+    setTwoFactorBusy(true);
+    setTwoFactorError('');
+    try {
+      await authService.disableTwoFactor({ password: twoFactorPassword, code: twoFactorCode.trim() });
+      setProfile(current => (current ? { ...current, twoFactorEnabled: false } : current));
+      setTwoFactorModalVisible(false);
+      Alert.alert('Two-Factor Authentication Disabled', 'Logging in now only takes your password.');
+    } catch (error) {
+      setTwoFactorError(
+        (error as ParsedError)?.message || 'Two-factor authentication could not be disabled. Please try again.'
+      );
+    } finally {
+      setTwoFactorBusy(false);
+    }
+  }, [twoFactorPassword, twoFactorCode]);
+
+  /**
+   * Starts an export of the user's data
+   */
+  const handleRequestExport = useCallback(async () => {
+    setExportBusy(true);
+    try {
+      const response = await requestDataExport();
+      setDataExport(response.data);
+    } catch (error) {
+      Alert.alert('Export Failed', 'Your data export could not be started. Please try again.');
+    } finally {
+      setExportBusy(false);
+    }
+  }, []);
+
+  /**
+   * Downloads the archive of a completed export to the device
+   */
+  const handleDownloadExport = useCallback(async () => {
+    if (!dataExport) {
+      return;
+    }
+
+    setExportBusy(true);
+    try {
+      const uri = await downloadDataExport(dataExport.id);
+      Alert.alert('Export Downloaded', `Your data has been saved to:\n${uri}`);
+    } catch (error) {
+      Alert.alert('Download Failed', 'Your data export could not be downloaded. Please try again.');
+    } finally {
+      setExportBusy(false);
+    }
+  }, [dataExport]);
+
+  /**
+   * Warns about the consequences of deleting the account before asking for the password
+   */
+  const handleDeleteAccount = useCallback(() => {
+    Alert.alert(
+      'Delete Account',
+      'This permanently deletes your account and all of your health records, photos, recordings and chat history. This cannot be undone.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Continue',
+          style: 'destructive',
+          onPress: () => {
+            setDeletePassword('');
+            setDeleteError('');
+            setDeleteModalVisible(true);
+          }
+        }
+      ]
+    );
+  }, []);
+
+  /**
+   * Closes the password confirmation without deleting anything
+   */
+  const handleCancelDelete = useCallback(() => {
+    if (!deleteBusy) {
+      setDeleteModalVisible(false);
+    }
+  }, [deleteBusy]);
+
+  /**
+   * Deletes the account once the password has been entered, then signs the user out
+   */
+  const handleConfirmDelete = useCallback(async () => {
+    if (!deletePassword) {
+      setDeleteError('Please enter your password');
+      return;
+    }
+
+    setDeleteBusy(true);
+    setDeleteError('');
+    try {
+      await deleteAccount(deletePassword);
+      setDeleteModalVisible(false);
+      Alert.alert('Account Deleted', 'Your account and all of your data have been deleted.');
+      await logout();
+    } catch (error) {
+      // Repeating the request resumes a deletion that failed partway through
+      setDeleteError((error as ParsedError)?.message || 'Your account could not be deleted. Please try again.');
+    } finally {
+      setDeleteBusy(false);
+    }
+  }, [deletePassword, logout]);
+
   /**
    * Handles the logout process with confirmation
    */
@@ -55,6 +424,20 @@ const ProfileScreen = ({ navigation }: MainTabScreenProps<'Profile'>) => {
     ? formatDate(user.createdAt, 'MMM d, yyyy')
     : 'N/A';
 
+  const healthProfileRows = getHealthProfileRows(profile);
+
+  // Describe the state of the latest export, if any
+  let exportStatusText = 'Download a copy of your health records, photos, recordings and chat history.';
+  if (isExportInProgress(dataExport)) {
+    exportStatusText = 'Preparing your data export. This may take a few minutes.';
+  } else if (dataExport?.status === DataExportStatus.COMPLETED) {
+    exportStatusText = `Your data export is ready. It can be downloaded until ${formatDate(dataExport.expiresAt, 'MMM d, yyyy h:mm a')}.`;
+  } else if (dataExport?.status === DataExportStatus.FAILED) {
+    exportStatusText = dataExport.error || 'Your data export failed. Please try again.';
+  }
+
+  const exportReady = dataExport?.status === DataExportStatus.COMPLETED && !!dataExport.downloadUrl;
+
   return (
     <SafeAreaView style={[styles.safeArea, { backgroundColor: theme.colors.BACKGROUND }]}>
       <Header title="Profile" />
@@ -149,6 +532,225 @@ const ProfileScreen = ({ navigation }: MainTabScreenProps<'Profile'>) => {
               </View>
             </View>
 
+            <View style={[
+              styles.section, 
+              { 
+                backgroundColor: theme.colors.CARD,
+                borderRadius: theme.borderRadius.medium,
+                ...theme.elevation.small
+              }
+            ]}>
+              <Text style={[
+                styles.sectionTitle, 
+                {
+                  color: theme.colors.TEXT,
+                  fontFamily: theme.typography.fontFamily.semiBold
+                }
+              ]}>
+                Health Profile
+              </Text>
+
+              {healthProfileRows.length > 0 ? (
+                healthProfileRows.map(([label, value]) => (
+                  <View key={label} style={styles.infoRow}>
+                    <Text style={[
+                      styles.infoLabel,
+                      {
+                        color: theme.colors.TEXT,
+                        fontFamily: theme.typography.fontFamily.medium
+                      }
+                    ]}>
+                      {label}:
+                    </Text>
+                    <Text style={[
+                      styles.profileValue,
+                      {
+                        color: theme.colors.TEXT,
+                        fontFamily: theme.typography.fontFamily.regular
+                      }
+                    ]}>
+                      {value}
+                    </Text>
+                  </View>
+                ))
+              ) : (
+                <Text style={[
+                  styles.exportStatus,
+                  {
+                    color: theme.colors.TEXT,
+                    fontFamily: theme.typography.fontFamily.regular
+                  }
+                ]}>
+                  Add your age, conditions, allergies, medications and diet so the health advisor can tailor its advice to you.
+                </Text>
+              )}
+
+              <Button
+                label="Edit Health Profile"
+                onPress={handleEditProfile}
+                variant={ButtonVariant.OUTLINE}
+                disabled={!profile}
+                style={styles.exportButton}
+              />
+            </View>
+
+            <View style={[
+              styles.section, 
+              { 
+                backgroundColor: theme.colors.CARD,
+                borderRadius: theme.borderRadius.medium,
+                ...theme.elevation.small
+              }
+            ]}>
+              <Text style={[
+                styles.sectionTitle, 
+                {
+                  color: theme.colors.TEXT,
+                  fontFamily: theme.typography.fontFamily.semiBold
+                }
+              ]}>
+                Password
+              </Text>
+
+              <Text style={[
+                styles.exportStatus,
+                {
+                  color: theme.colors.TEXT,
+                  fontFamily: theme.typography.fontFamily.regular
+                }
+              ]}>
+                Changing your password signs you out on your other devices.
+              </Text>
+
+              <Button
+                label="Change Password"
+                onPress={handleChangePassword}
+                variant={ButtonVariant.OUTLINE}
+                disabled={passwordBusy}
+                style={styles.exportButton}
+              />
+            </View>
+
+            <View style={[
+              styles.section, 
+              { 
+                backgroundColor: theme.colors.CARD,
+                borderRadius: theme.borderRadius.medium,
+                ...theme.elevation.small
+              }
+            ]}>
+              <Text style={[
+                styles.sectionTitle, 
+                {
+                  color: theme.colors.TEXT,
+                  fontFamily: theme.typography.fontFamily.semiBold
+                }
+              ]}>
+                Two-Factor Authentication
+              </Text>
+
+              <Text
+                style={[
+                  styles.exportStatus,
+                  {
+                    color: theme.colors.TEXT,
+                    fontFamily: theme.typography.fontFamily.regular
+                  }
+                ]}
+                testID="two-factor-status"
+              >
+                {profile?.twoFactorEnabled
+                  ? 'On. Logging in takes your password and a code from your authenticator app.'
+                  : 'Protect your health data with a code from an authenticator app in addition to your password.'}
+              </Text>
+
+              <Button
+                label={profile?.twoFactorEnabled ? 'Disable Two-Factor Authentication' : 'Enable Two-Factor Authentication'}
+                onPress={profile?.twoFactorEnabled ? handleDisableTwoFactor : handleEnableTwoFactor}
+                variant={ButtonVariant.OUTLINE}
+                disabled={!profile || twoFactorBusy}
+                style={styles.exportButton}
+              />
+            </View>
+
+            <View style={[
+              styles.section, 
+              { 
+                backgroundColor: theme.colors.CARD,
+                borderRadius: theme.borderRadius.medium,
+                ...theme.elevation.small
+              }
+            ]}>
+              <Text style={[
+                styles.sectionTitle, 
+                {
+                  color: theme.colors.TEXT,
+                  fontFamily: theme.typography.fontFamily.semiBold
+                }
+              ]}>
+                Your Data
+              </Text>
+
+              <Text
+                style={[
+                  styles.exportStatus,
+                  {
+                    color: dataExport?.status === DataExportStatus.FAILED ? theme.colors.ERROR : theme.colors.TEXT,
+                    fontFamily: theme.typography.fontFamily.regular
+                  }
+                ]}
+                testID="export-status"
+              >
+                {exportStatusText}
+              </Text>
+
+              <Button
+                label={exportReady ? 'Download Export' : 'Export My Data'}
+                onPress={exportReady ? handleDownloadExport : handleRequestExport}
+                variant={ButtonVariant.OUTLINE}
+                loading={exportBusy || isExportInProgress(dataExport)}
+                disabled={exportBusy || isExportInProgress(dataExport)}
+                style={styles.exportButton}
+              />
+            </View>
+
+            <View style={[
+              styles.section, 
+              { 
+                backgroundColor: theme.colors.CARD,
+                borderRadius: theme.borderRadius.medium,
+                ...theme.elevation.small
+              }
+            ]}>
+              <Text style={[
+                styles.sectionTitle, 
+                {
+                  color: theme.colors.ERROR,
+                  fontFamily: theme.typography.fontFamily.semiBold
+                }
+              ]}>
+                Delete Account
+              </Text>
+
+              <Text style={[
+                styles.exportStatus,
+                {
+                  color: theme.colors.TEXT,
+                  fontFamily: theme.typography.fontFamily.regular
+                }
+              ]}>
+                Permanently delete your account and everything stored about you. Export your data first if you want to keep a copy.
+              </Text>
+
+              <Button
+                label="Delete My Account"
+                onPress={handleDeleteAccount}
+                variant={ButtonVariant.OUTLINE}
+                disabled={deleteBusy}
+                style={styles.exportButton}
+              />
+            </View>
+
             <Button 
               label="Log Out"
               onPress={handleLogout}
@@ -168,6 +770,164 @@ const ProfileScreen = ({ navigation }: MainTabScreenProps<'Profile'>) => {
           </>
         )}
       </ScrollView>
+
+      <Modal
+        visible={profileModalVisible}
+        onClose={handleCancelProfile}
+        title="Edit Health Profile"
+      >
+        {profile && (
+          <HealthProfileForm
+            profile={profile}
+            onSubmit={handleSaveProfile}
+            onCancel={handleCancelProfile}
+            loading={profileBusy}
+            error={profileError}
+          />
+        )}
+      </Modal>
+
+      <Modal
+        visible={passwordModalVisible}
+        onClose={handleCancelPassword}
+        title="Change Password"
+      >
+        <TextInput
+          label="Current Password"
+          value={passwordValues.currentPassword}
+          onChangeText={text => setPasswordValues(current => ({ ...current, currentPassword: text }))}
+          placeholder="Enter your current password"
+          secureTextEntry={true}
+          error={passwordErrors.currentPassword}
+        />
+
+        <TextInput
+          label="New Password"
+          value={passwordValues.newPassword}
+          onChangeText={text => setPasswordValues(current => ({ ...current, newPassword: text }))}
+          placeholder="Enter a new password"
+          secureTextEntry={true}
+          error={passwordErrors.newPassword}
+        />
+
+        <TextInput
+          label="Confirm New Password"
+          value={passwordValues.confirmPassword}
+          onChangeText={text => setPasswordValues(current => ({ ...current, confirmPassword: text }))}
+          placeholder="Confirm the new password"
+          secureTextEntry={true}
+          error={passwordErrors.confirmPassword}
+        />
+
+        {passwordError ? (
+          <Text style={[styles.modalError, { color: theme.colors.ERROR }]}>{passwordError}</Text>
+        ) : null}
+
+        <View style={styles.modalButtons}>
+          <Button
+            label="Cancel"
+            onPress={handleCancelPassword}
+            variant={ButtonVariant.OUTLINE}
+            disabled={passwordBusy}
+            style={styles.modalButton}
+          />
+          <Button
+            label="Change Password"
+            onPress={handleConfirmPassword}
+            variant={ButtonVariant.PRIMARY}
+            loading={passwordBusy}
+            disabled={passwordBusy}
+            style={styles.modalButton}
+          />
+        </View>
+      </Modal>
+
+      <Modal
+        visible={twoFactorModalVisible}
+        onClose={handleCancelTwoFactor}
+        title="Disable Two-Factor Authentication"
+      >
+        <TextInput
+          label="Password"
+          value={twoFactorPassword}
+          onChangeText={setTwoFactorPassword}
+          placeholder="Enter your password"
+          secureTextEntry={true}
+        />
+
+        <TextInput
+          label="Verification Code"
+          value={twoFactorCode}
+          onChangeText={setTwoFactorCode}
+          placeholder="Code from your app or a recovery code"
+        />
+
+        {twoFactorError ? (
+          <Text style={[styles.modalError, { color: theme.colors.ERROR }]}>{twoFactorError}</Text>
+        ) : null}
+
+        <View style={styles.modalButtons}>
+          <Button
+            label="Cancel"
+            onPress={handleCancelTwoFactor}
+            variant={ButtonVariant.OUTLINE}
+            disabled={twoFactorBusy}
+            style={styles.modalButton}
+          />
+          <Button
+            label="Disable"
+            onPress={handleConfirmDisableTwoFactor}
+            variant={ButtonVariant.PRIMARY}
+            loading={twoFactorBusy}
+            disabled={twoFactorBusy}
+            style={styles.modalButton}
+          />
+        </View>
+      </Modal>
+
+      <Modal
+        visible={deleteModalVisible}
+        onClose={handleCancelDelete}
+        title="Confirm Account Deletion"
+      >
+        <Text style={[
+          styles.exportStatus,
+          {
+            color: theme.colors.TEXT,
+            fontFamily: theme.typography.fontFamily.regular
+          }
+        ]}>
+          Enter your password to permanently delete your account.
+        </Text>
+
+        <TextInput
+          label="Password"
+          value={deletePassword}
+          onChangeText={setDeletePassword}
+          placeholder="Enter your password"
+          secureTextEntry={true}
+          error={deleteError}
+          containerStyle={styles.passwordInput}
+        />
+
+        <View style={styles.modalButtons}>
+          <Button
+            label="Cancel"
+            onPress={handleCancelDelete}
+            variant={ButtonVariant.OUTLINE}
+            disabled={deleteBusy}
+            style={styles.modalButton}
+          />
+          <Button
+            label="Delete Permanently"
+            onPress={handleConfirmDelete}
+            variant={ButtonVariant.PRIMARY}
+            loading={deleteBusy}
+            disabled={deleteBusy}
+            style={styles.modalButton}
+          />
+        </View>
+      </Modal>
     </SafeAreaView>
   );
 };
@@ -213,6 +973,32 @@ const styles = StyleSheet.create({
   infoValue: {
     fontSize: 16,
   },
+  profileValue: {
+    flex: 1,
+    fontSize: 16,
+  },
+  exportStatus: {
+    fontSize: 14,
+    lineHeight: 20,
+  },
+  exportButton: {
+    marginTop: 16,
+  },
+  passwordInput: {
+    marginTop: 16,
+  },
+  modalError: {
+    fontSize: 14,
+    marginBottom: 16,
+  },
+  modalButtons: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  modalButton: {
+    flex: 1,
+    marginHorizontal: 4,
+  },
   logoutButton: {
     width: '100%',
     marginVertical: 16,
@@ -0,0 +1,255 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  Image,
+  StyleSheet,
+  ScrollView,
+  SafeAreaView,
+  ActivityIndicator
+} from 'react-native';
+import { MainTabScreenProps } from '../../types/navigation.types';
+import { MAIN_TAB_ROUTES } from '../../constants/navigation';
+import Header from '../../components/common/Header';
+import Button from '../../components/buttons/Button';
+import TextInput from '../../components/forms/TextInput';
+import { useTheme } from '../../contexts/ThemeContext';
+import { ButtonVariant } from '../../types/components.types';
+import { TwoFactorSetupResponse } from '../../types/auth.types';
+import { ParsedError } from '../../utils/error.utils';
+import { authService } from '../../services/auth.service';
+
+/**
+ * TwoFactorSetupScreen component that enrolls an authenticator app: it shows a QR code of a
+ * new secret, turns two-factor authentication on once the user enters a code generated from
+ * it, and then shows the recovery codes, which the server never returns again
+ *
+ * @param props Navigation props from React Navigation
+ * @returns Rendered two-factor setup screen component
+ */
+const TwoFactorSetupScreen = ({ navigation }: MainTabScreenProps<'TwoFactorSetup'>) => {
+  // Access theme for styling
+  const { theme } = useTheme();
+
+  const [setup, setSetup] = useState<TwoFactorSetupResponse | null>(null);
+  const [code, setCode] = useState('');
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [error, setError] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  /**
+   * Generates a new secret, replacing any from an unfinished earlier setup
+   */
+  const startSetup = useCallback(async () => {
+    setBusy(true);
+    setError('');
+    try {
+      setSetup(await authService.setupTwoFactor());
+    } catch (err) {
+      setError((err as ParsedError)?.message || 'Two-factor setup could not be started. Please try again.');
+    } finally {
+      setBusy(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    startSetup();
+  }, [startSetup]);
+
+  /**
+   * Turns two-factor authentication on with the code from the authenticator app
+   */
+  const handleEnable = useCallback(async () => {
+    if (!code.trim()) {
+      setError('Enter the code from your authenticator app');
+      return;
+    }
+
+    setBusy(true);
+    setError('');
+    try {
+      const response = await authService.enableTwoFactor(code.trim());
+      setRecoveryCodes(response.recoveryCodes);
+    } catch (err) {
+      setError((err as ParsedError)?.message || 'Two-factor authentication could not be enabled. Please try again.');
+    } finally {
+      setBusy(false);
+    }
+  }, [code]);
+
+  /**
+   * Returns to the profile once the recovery codes have been saved
+   */
+  const handleDone = useCallback(() => {
+    navigation.navigate(MAIN_TAB_ROUTES.PROFILE, { twoFactorEnabled: true });
+  }, [navigation]);
+
+  const textStyle = {
+    color: theme.colors.TEXT,
+    fontFamily: theme.typography.fontFamily.regular
+  };
+
+  let content: React.ReactNode;
+  if (recoveryCodes) {
+    content = (
+      <>
+        <Text style={[styles.instructions, textStyle]}>
+          Two-factor authentication is on. Save these recovery codes somewhere safe. Each one logs you in once
+          if you lose your phone, and they won't be shown again.
+        </Text>
+
+        <View style={[styles.codeList, { borderColor: theme.colors.BORDER }]} testID="recovery-codes">
+          {recoveryCodes.map((recoveryCode) => (
+            <Text key={recoveryCode} style={[styles.recoveryCode, textStyle]}>
+              {recoveryCode}
+            </Text>
+          ))}
+        </View>
+
+        <Button
+          label="Done"
+          onPress={handleDone}
+          variant={ButtonVariant.PRIMARY}
+          style={styles.button}
+        />
+      </>
+    );
+  } else if (setup) {
+    content = (
+      <>
+        <Text style={[styles.instructions, textStyle]}>
+          Scan the QR code with an authenticator app such as Google Authenticator, Microsoft Authenticator or
+          1Password, then enter the 6-digit code it shows.
+        </Text>
+
+        <Image
+          source={{ uri: setup.qrCode }}
+          style={styles.qrCode}
+          accessibilityLabel="QR code for your authenticator app"
+        />
+
+        <Text style={[styles.secretLabel, textStyle]}>Can't scan it? Enter this key instead:</Text>
+        <Text style={[styles.secret, textStyle]} selectable={true}>
+          {setup.secret}
+        </Text>
+
+        <TextInput
+          label="Verification Code"
+          value={code}
+          onChangeText={setCode}
+          placeholder="123456"
+          containerStyle={styles.codeInput}
+        />
+
+        {error ? <Text style={[styles.error, { color: theme.colors.ERROR }]}>{error}</Text> : null}
+
+        <Button
+          label="Enable"
+          onPress={handleEnable}
+          variant={ButtonVariant.PRIMARY}
+          loading={busy}
+          disabled={busy}
+          style={styles.button}
+        />
+      </>
+    );
+  } else if (busy) {
+    content = <ActivityIndicator size="large" style={styles.loading} color={theme.colors.PRIMARY} />;
+  } else {
+    content = (
+      <>
+        {error ? <Text style={[styles.error, { color: theme.colors.ERROR }]}>{error}</Text> : null}
+        <Button
+          label="Try Again"
+          onPress={startSetup}
+          variant={ButtonVariant.OUTLINE}
+          style={styles.button}
+        />
+      </>
+    );
+  }
+
+  return (
+    <SafeAreaView style={[styles.safeArea, { backgroundColor: theme.colors.BACKGROUND }]}>
+      <Header title="Two-Factor Authentication" />
+
+      <ScrollView
+        style={styles.container}
+        contentContainerStyle={[styles.contentContainer, { padding: theme.spacing.m }]}
+        keyboardShouldPersistTaps="handled"
+      >
+        {content}
+
+        {!recoveryCodes && (
+          <Button
+            label="Cancel"
+            onPress={() => navigation.navigate(MAIN_TAB_ROUTES.PROFILE)}
+            variant={ButtonVariant.OUTLINE}
+            disabled={busy}
+            style={styles.button}
+          />
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+  },
+  container: {
+    flex: 1,
+  },
+  contentContainer: {
+    alignItems: 'center',
+  },
+  loading: {
+    marginTop: 20,
+  },
+  instructions: {
+    fontSize: 14,
+    lineHeight: 20,
+    textAlign: 'center',
+    marginVertical: 16,
+  },
+  qrCode: {
+    width: 200,
+    height: 200,
+    marginVertical: 16,
+  },
+  secretLabel: {
+    fontSize: 14,
+  },
+  secret: {
+    fontSize: 16,
+    letterSpacing: 1,
+    marginTop: 8,
+    marginBottom: 16,
+  },
+  codeInput: {
+    width: '100%',
+  },
+  codeList: {
+    width: '100%',
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingVertical: 8,
+    alignItems: 'center',
+  },
+  recoveryCode: {
+    fontSize: 16,
+    letterSpacing: 1,
+    marginVertical: 4,
+  },
+  error: {
+    fontSize: 14,
+    marginBottom: 16,
+  },
+  button: {
+    width: '100%',
+    marginTop: 16,
+  },
+});
+
+export default TwoFactorSetupScreen;
@@ -1,6 +1,6 @@
 /**
- * Index file for exporting the ProfileScreen component
- * Provides a centralized entry point for importing the profile screen
+ * Index file for exporting the ProfileScreen and TwoFactorSetupScreen components
+ * Provides a centralized entry point for importing the profile screens
  * 
  * The ProfileScreen displays user information and provides logout functionality,
  * implementing the F-005 User Profile Management requirement. It shows the user's
@@ -10,6 +10,7 @@
  */
 
 import ProfileScreen from './ProfileScreen';
+import TwoFactorSetupScreen from './TwoFactorSetupScreen';
 
-export { ProfileScreen };
+export { ProfileScreen, TwoFactorSetupScreen };
 export default ProfileScreen;
\ No newline at end of file
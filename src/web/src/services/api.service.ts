@@ -8,20 +8,33 @@ import axios, { AxiosInstance, AxiosRequestConfig, AxiosError } from 'axios'; //
 import { 
   API_CONSTANTS, 
   HTTP_STATUS,
-  ERROR_MESSAGES 
+  ERROR_MESSAGES,
+  AUTH_ERROR_CODES
 } from '../constants/api.constants';
-import { parseApiError } from '../utils/error.utils';
+import { ENDPOINTS } from '../constants/endpoints';
+import { parseApiError, getErrorTypeFromStatus } from '../utils/error.utils';
 import { 
   getAuthToken, 
   storeAuthToken, 
-  removeAuthToken 
+  removeAuthToken,
+  getRefreshToken,
+  storeRefreshToken,
+  removeRefreshToken
 } from './storage.service';
 import { 
   HttpMethod, 
   ApiRequestConfig, 
   ApiRequestOptions,
-  ApiServiceInterface
+  ApiServiceInterface,
+  ApiError,
+  ServerSentEvent
 } from '../types/api.types';
+import { RefreshTokenResponse } from '../types/auth.types';
+
+/**
+ * Axios request configuration with a flag marking requests already retried after a token refresh
+ */
+type RetryableRequestConfig = AxiosRequestConfig & { _retry?: boolean };
 
 /**
  * Service class for handling API requests to the backend server
@@ -30,6 +43,7 @@ import {
 export class ApiService implements ApiServiceInterface {
   private axios: AxiosInstance;
   private authToken: string | null = null;
+  private refreshPromise: Promise<string | null> | null = null;
 
   /**
    * Initializes the ApiService with default configuration
@@ -57,8 +71,28 @@ export class ApiService implements ApiServiceInterface {
     // Set up response interceptor for error handling
     this.axios.interceptors.response.use(
       (response) => response,
-      (error: AxiosError) => {
-        // Handle 401 Unauthorized errors (token expired)
+      async (error: AxiosError) => {
+        const originalConfig = error.config as RetryableRequestConfig | undefined;
+
+        // Silently refresh an expired access token and retry the request once
+        if (
+          originalConfig &&
+          !originalConfig._retry &&
+          originalConfig.url !== ENDPOINTS.AUTH.REFRESH &&
+          error.response?.status === HTTP_STATUS.UNAUTHORIZED &&
+          this.isTokenExpiredResponse(error.response.data)
+        ) {
+          originalConfig._retry = true;
+
+          const token = await this.refreshAuthToken();
+          if (token) {
+            originalConfig.headers = originalConfig.headers || {};
+            originalConfig.headers.Authorization = `Bearer ${token}`;
+            return this.axios.request(originalConfig);
+          }
+        }
+
+        // Handle 401 Unauthorized errors that could not be recovered
         if (error.response?.status === HTTP_STATUS.UNAUTHORIZED || 
             error.response?.status === HTTP_STATUS.FORBIDDEN) {
           // We'll handle token clearing in the request method to avoid
@@ -110,7 +144,8 @@ export class ApiService implements ApiServiceInterface {
     if (
       config.method === HttpMethod.POST ||
       config.method === HttpMethod.PUT ||
-      config.method === HttpMethod.PATCH
+      config.method === HttpMethod.PATCH ||
+      (config.method === HttpMethod.DELETE && config.data !== undefined)
     ) {
       axiosConfig.data = config.data;
     } else if (config.params) {
@@ -206,16 +241,19 @@ export class ApiService implements ApiServiceInterface {
    * Makes a DELETE request to the specified URL
    * @param url The URL to make the request to
    * @param options Additional request options
+   * @param data Optional request body, e.g. a password confirming the deletion
    * @returns Promise that resolves with the API response data
    */
   async delete<T>(
     url: string,
-    options: ApiRequestOptions = {}
+    options: ApiRequestOptions = {},
+    data?: any
   ): Promise<T> {
     return this.request<T>(
       {
         url,
-        method: HttpMethod.DELETE
+        method: HttpMethod.DELETE,
+        data
       },
       options
     );
@@ -268,6 +306,164 @@ export class ApiService implements ApiServiceInterface {
     );
   }
 
+  /**
+   * Makes a POST request to a Server-Sent Events endpoint and relays events as they arrive.
+   * Uses XMLHttpRequest because React Native's fetch does not expose a readable body stream.
+   * Streaming requests are not retried, since events may already have been delivered,
+   * except once after an expired access token has been refreshed.
+   * @param url The URL to make the request to
+   * @param data The data to send in the request body
+   * @param onEvent Callback invoked for each event as it arrives
+   * @param options Additional request options
+   * @returns Promise that resolves when the stream ends
+   */
+  async stream(
+    url: string,
+    data: any,
+    onEvent: (event: ServerSentEvent) => void,
+    options: ApiRequestOptions = {}
+  ): Promise<void> {
+    const { requiresAuth = true } = options;
+
+    // Check if authentication is required but no token is available
+    if (requiresAuth && !this.authToken) {
+      await this.loadAuthToken();
+
+      if (!this.authToken) {
+        throw new Error(ERROR_MESSAGES.AUTHENTICATION_ERROR);
+      }
+    }
+
+    return this.openStream(url, data, onEvent, requiresAuth, true);
+  }
+
+  /**
+   * Exchanges the stored refresh token for a new token pair.
+   * Concurrent callers share a single refresh request, since refresh tokens can only be used once.
+   * @returns Promise that resolves with the new access token, or null if the session could not be refreshed
+   */
+  async refreshAuthToken(): Promise<string | null> {
+    if (!this.refreshPromise) {
+      this.refreshPromise = this.performTokenRefresh().finally(() => {
+        this.refreshPromise = null;
+      });
+    }
+    return this.refreshPromise;
+  }
+
+  /**
+   * Opens a Server-Sent Events request with XMLHttpRequest
+   * @param url The URL to make the request to
+   * @param data The data to send in the request body
+   * @param onEvent Callback invoked for each event as it arrives
+   * @param requiresAuth Whether the request is authenticated
+   * @param canRefresh Whether an expired access token may be refreshed and the request reopened
+   * @returns Promise that resolves when the stream ends
+   */
+  private openStream(
+    url: string,
+    data: any,
+    onEvent: (event: ServerSentEvent) => void,
+    requiresAuth: boolean,
+    canRefresh: boolean
+  ): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      const xhr = new XMLHttpRequest();
+      let processedLength = 0;
+      let buffer = '';
+
+      // Parse any complete events received since the last progress update
+      const processResponseText = () => {
+        buffer += xhr.responseText.substring(processedLength);
+        processedLength = xhr.responseText.length;
+
+        const blocks = buffer.split('\n\n');
+        buffer = blocks.pop() || '';
+
+        blocks.forEach(block => {
+          const event = this.parseServerSentEvent(block);
+          if (event) {
+            onEvent(event);
+          }
+        });
+      };
+
+      xhr.open(HttpMethod.POST, url);
+
+      // Apply default headers, event stream accept header and auth token
+      Object.entries(API_CONSTANTS.DEFAULT_HEADERS).forEach(([name, value]) => {
+        xhr.setRequestHeader(name, value);
+      });
+      xhr.setRequestHeader('Accept', 'text/event-stream');
+      if (this.authToken) {
+        xhr.setRequestHeader('Authorization', `Bearer ${this.authToken}`);
+      }
+
+      xhr.onprogress = () => {
+        // Error responses are JSON rather than events, so leave them for onload
+        if (xhr.status < 400) {
+          processResponseText();
+        }
+      };
+
+      xhr.onload = async () => {
+        if (xhr.status >= 400) {
+          let responseData: any = {};
+          try {
+            responseData = JSON.parse(xhr.responseText);
+          } catch {
+            // Non-JSON error body, fall back to the default message
+          }
+
+          // The server rejects expired tokens before streaming any events, so the request
+          // can safely be reopened once the token has been refreshed
+          if (
+            requiresAuth &&
+            canRefresh &&
+            xhr.status === HTTP_STATUS.UNAUTHORIZED &&
+            this.isTokenExpiredResponse(responseData)
+          ) {
+            const token = await this.refreshAuthToken();
+            if (token) {
+              this.openStream(url, data, onEvent, requiresAuth, false).then(resolve, reject);
+              return;
+            }
+          }
+
+          // Clear token on authentication errors, matching regular requests
+          if (
+            requiresAuth &&
+            (xhr.status === HTTP_STATUS.UNAUTHORIZED || xhr.status === HTTP_STATUS.FORBIDDEN)
+          ) {
+            await this.clearAuthToken();
+          }
+
+          const apiError: ApiError = {
+            type: getErrorTypeFromStatus(xhr.status),
+            message: responseData?.error?.message || responseData?.message || ERROR_MESSAGES.SERVER_ERROR,
+            code: xhr.status,
+            details: responseData?.error?.details
+          };
+          reject(apiError);
+          return;
+        }
+
+        // Deliver any remaining events, including a final one without a trailing blank line
+        processResponseText();
+        const finalEvent = this.parseServerSentEvent(buffer);
+        if (finalEvent) {
+          onEvent(finalEvent);
+        }
+        resolve();
+      };
+
+      xhr.onerror = () => reject(new Error(ERROR_MESSAGES.NETWORK_ERROR));
+      xhr.ontimeout = () => reject(new Error(ERROR_MESSAGES.TIMEOUT_ERROR));
+
+      xhr.send(JSON.stringify(data));
+    });
+  }
+
   /**
    * Sets the authentication token for API requests
    * @param token JWT token to be used for authentication
@@ -298,6 +494,72 @@ export class ApiService implements ApiServiceInterface {
     }
   }
 
+  /**
+   * Posts the stored refresh token to the refresh endpoint and stores the rotated token pair
+   * @returns Promise that resolves with the new access token, or null if the session could not be refreshed
+   */
+  private async performTokenRefresh(): Promise<string | null> {
+    const refreshToken = await getRefreshToken();
+    if (!refreshToken) {
+      return null;
+    }
+
+    try {
+      const response = await this.axios.post(ENDPOINTS.AUTH.REFRESH, { refreshToken });
+      const tokens: RefreshTokenResponse = response.data?.data || response.data;
+
+      await this.setAuthToken(tokens.token);
+      await storeRefreshToken(tokens.refreshToken);
+      return tokens.token;
+    } catch (error: any) {
+      // A rejected refresh token means the session is over; keep it on network errors
+      if (error.response?.status === HTTP_STATUS.UNAUTHORIZED) {
+        await this.clearAuthToken();
+        await removeRefreshToken();
+      }
+      console.warn('Token refresh failed:', error.response?.status ?? error.message);
+      return null;
+    }
+  }
+
+  /**
+   * Checks whether an error response body reports an expired access token
+   * @param data Error response body
+   * @returns True if the access token has expired
+   */
+  private isTokenExpiredResponse(data: any): boolean {
+    return data?.error?.code === AUTH_ERROR_CODES.TOKEN_EXPIRED;
+  }
+
+  /**
+   * Parses a single Server-Sent Event block into its event name and JSON payload
+   * @param block Raw event block without the trailing blank line
+   * @returns Parsed event, or null for comments and empty blocks
+   */
+  private parseServerSentEvent(block: string): ServerSentEvent | null {
+    let event = 'message';
+    const dataLines: string[] = [];
+
+    block.split('\n').forEach(line => {
+      if (line.startsWith('event:')) {
+        event = line.slice('event:'.length).trim();
+      } else if (line.startsWith('data:')) {
+        dataLines.push(line.slice('data:'.length).trim());
+      }
+    });
+
+    if (dataLines.length === 0) {
+      return null;
+    }
+
+    const rawData = dataLines.join('\n');
+    try {
+      return { event, data: JSON.parse(rawData) };
+    } catch {
+      return { event, data: rawData };
+    }
+  }
+
   /**
    * Implements retry logic for failed requests
    * @param config Axios request configuration
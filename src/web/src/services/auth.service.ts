@@ -11,6 +11,12 @@
 import {
   login,
   signup,
+  logout,
+  verifyTwoFactorLogin,
+  setupTwoFactor,
+  enableTwoFactor,
+  disableTwoFactor,
+  changePassword,
   setAuthToken,
   clearAuthToken
 } from '../api/auth.api';
@@ -18,13 +24,22 @@ import {
   storeAuthToken,
   getAuthToken,
   removeAuthToken,
+  storeRefreshToken,
+  getRefreshToken,
+  removeRefreshToken,
   storeUserInfo,
   getUserInfo
 } from '../services/storage.service';
 import {
   LoginRequest,
   SignupRequest,
+  ChangePasswordRequest,
   AuthResponse,
+  LoginResponse,
+  TwoFactorLoginRequest,
+  TwoFactorSetupResponse,
+  TwoFactorRecoveryCodesResponse,
+  DisableTwoFactorRequest,
   UserResponse
 } from '../types/auth.types';
 import {
@@ -43,10 +58,12 @@ import {
  * Implements F-001-RQ-002: User login with email and password
  * 
  * @param credentials - Object containing email and password
- * @returns Promise that resolves with authentication response containing token and user data
+ * @returns Promise that resolves with authentication response containing token and user data,
+ * or with a challenge to complete with completeTwoFactorLogin when the user has two-factor
+ * authentication
  * @throws Error if validation fails or authentication fails
  */
-const authenticateUser = async (credentials: LoginRequest): Promise<AuthResponse> => {
+const authenticateUser = async (credentials: LoginRequest): Promise<LoginResponse> => {
   // Validate login credentials
   const validationErrors = validateLoginForm(credentials);
   if (!isFormValid(validationErrors)) {
@@ -57,8 +74,41 @@ const authenticateUser = async (credentials: LoginRequest): Promise<AuthResponse
     // Call login API
     const authResponse = await login(credentials);
     
+    // Nothing to store until the second step is done
+    if ('twoFactorRequired' in authResponse) {
+      return authResponse;
+    }
+    
+    // Store authentication data
+    await storeAuthToken(authResponse.token);
+    await storeRefreshToken(authResponse.refreshToken);
+    await storeUserInfo(authResponse.user);
+    
+    // Set token for API requests
+    await setAuthToken(authResponse.token);
+    
+    return authResponse;
+  } catch (error) {
+    throw parseApiError(error);
+  }
+};
+
+/**
+ * Completes the login of a user with two-factor authentication and stores the
+ * authentication data
+ * 
+ * @param request - Challenge token from the login and the code the user entered
+ * @returns Promise that resolves with authentication response containing token and user data
+ * @throws Error if the code is wrong or the challenge has expired
+ */
+const completeTwoFactorLogin = async (request: TwoFactorLoginRequest): Promise<AuthResponse> => {
+  try {
+    // Call second login step API
+    const authResponse = await verifyTwoFactorLogin(request);
+    
     // Store authentication data
     await storeAuthToken(authResponse.token);
+    await storeRefreshToken(authResponse.refreshToken);
     await storeUserInfo(authResponse.user);
     
     // Set token for API requests
@@ -92,6 +142,7 @@ const registerUser = async (credentials: SignupRequest): Promise<AuthResponse> =
     
     // Store authentication data
     await storeAuthToken(authResponse.token);
+    await storeRefreshToken(authResponse.refreshToken);
     await storeUserInfo(authResponse.user);
     
     // Set token for API requests
@@ -103,6 +154,32 @@ const registerUser = async (credentials: SignupRequest): Promise<AuthResponse> =
   }
 };
 
+/**
+ * Changes the password of the current user and stores the token pair that replaces the
+ * session revoked by the change
+ * 
+ * @param request - Object containing the current and the new password
+ * @returns Promise that resolves with authentication response containing token and user data
+ * @throws Error if the current password is incorrect or the change fails
+ */
+const changeUserPassword = async (request: ChangePasswordRequest): Promise<AuthResponse> => {
+  try {
+    // Call change password API
+    const authResponse = await changePassword(request);
+    
+    // Store the new authentication data
+    await storeAuthToken(authResponse.token);
+    await storeRefreshToken(authResponse.refreshToken);
+    
+    // Set token for API requests
+    await setAuthToken(authResponse.token);
+    
+    return authResponse;
+  } catch (error) {
+    throw parseApiError(error);
+  }
+};
+
 /**
  * Logs out the current user by clearing authentication data
  * 
@@ -110,11 +187,22 @@ const registerUser = async (credentials: SignupRequest): Promise<AuthResponse> =
  */
 const logoutUser = async (): Promise<void> => {
   try {
+    // Revoke the session on the server; local data is cleared even if this fails
+    const refreshToken = await getRefreshToken();
+    if (refreshToken) {
+      try {
+        await logout(refreshToken);
+      } catch (error) {
+        console.warn('Failed to revoke session on server:', error);
+      }
+    }
+    
     // Clear auth token from API service
     await clearAuthToken();
     
-    // Remove auth token from storage
+    // Remove auth and refresh tokens from storage
     await removeAuthToken();
+    await removeRefreshToken();
     
     // Note: If there are other user-related data to clear, handle it here
   } catch (error) {
@@ -173,12 +261,22 @@ export class AuthService {
    * Authenticates a user with email and password
    * 
    * @param credentials - Object containing email and password
-   * @returns Promise that resolves with authentication response
+   * @returns Promise that resolves with authentication response, or a two-factor challenge
    */
-  async login(credentials: LoginRequest): Promise<AuthResponse> {
+  async login(credentials: LoginRequest): Promise<LoginResponse> {
     return authenticateUser(credentials);
   }
 
+  /**
+   * Completes a login with the code from the authenticator app or a recovery code
+   * 
+   * @param request - Challenge token from the login and the code
+   * @returns Promise that resolves with authentication response
+   */
+  async verifyTwoFactorLogin(request: TwoFactorLoginRequest): Promise<AuthResponse> {
+    return completeTwoFactorLogin(request);
+  }
+
   /**
    * Registers a new user with email and password
    * 
@@ -189,6 +287,57 @@ export class AuthService {
     return registerUser(credentials);
   }
 
+  /**
+   * Changes the password of the current user, keeping them signed in
+   * 
+   * @param request - Object containing the current and the new password
+   * @returns Promise that resolves with authentication response
+   */
+  async changePassword(request: ChangePasswordRequest): Promise<AuthResponse> {
+    return changeUserPassword(request);
+  }
+
+  /**
+   * Starts two-factor enrollment of the current user
+   * 
+   * @returns Promise that resolves with the authenticator secret and its QR code
+   */
+  async setupTwoFactor(): Promise<TwoFactorSetupResponse> {
+    try {
+      return await setupTwoFactor();
+    } catch (error) {
+      throw parseApiError(error);
+    }
+  }
+
+  /**
+   * Turns two-factor authentication on with a code from the authenticator app
+   * 
+   * @param code - Code from the authenticator app
+   * @returns Promise that resolves with the recovery codes
+   */
+  async enableTwoFactor(code: string): Promise<TwoFactorRecoveryCodesResponse> {
+    try {
+      return await enableTwoFactor({ code });
+    } catch (error) {
+      throw parseApiError(error);
+    }
+  }
+
+  /**
+   * Turns two-factor authentication off
+   * 
+   * @param request - Object containing the password and a code
+   * @returns Promise that resolves when two-factor authentication is off
+   */
+  async disableTwoFactor(request: DisableTwoFactorRequest): Promise<void> {
+    try {
+      await disableTwoFactor(request);
+    } catch (error) {
+      throw parseApiError(error);
+    }
+  }
+
   /**
    * Logs out the current user
    * 
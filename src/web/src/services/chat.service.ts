@@ -18,12 +18,14 @@ import {
   ConversationResponse, 
   SendMessageRequest, 
   SendMessageResponse,
+  StreamMessageResponse,
   ChatHistoryParams,
   ConversationsParams,
+  UpdateConversationRequest,
   ChatRole,
   ChatMessageStatus
 } from '../types/chat.types';
-import { ApiResponse, PaginatedResponse } from '../types/api.types';
+import { ApiResponse, PaginatedResponse, ApiError, ApiErrorType } from '../types/api.types';
 
 /**
  * Sends a user message to the LLM health advisor and returns the response
@@ -58,9 +60,68 @@ export const sendMessage = async (
 };
 
 /**
- * Retrieves the user's chat conversations with pagination
+ * Sends a user message to the LLM health advisor and streams the response as it is generated
  * 
- * @param params - Pagination parameters (page, limit)
+ * @param message - The message text to send to the LLM
+ * @param onDelta - Callback invoked with each chunk of the response text
+ * @param conversationId - Optional ID of an existing conversation to continue
+ * @returns Promise that resolves with the complete response once it has been stored
+ */
+export const sendMessageStream = async (
+  message: string,
+  onDelta: (delta: string) => void,
+  conversationId?: string
+): Promise<StreamMessageResponse> => {
+  try {
+    // Create request payload with message and optional conversationId
+    const payload: SendMessageRequest = {
+      message,
+      ...(conversationId && { conversationId })
+    };
+
+    let result: StreamMessageResponse | null = null;
+    let streamError: ApiError | null = null;
+
+    // Relay deltas as they arrive and capture the final or error event
+    await apiService.stream(ENDPOINTS.CHAT.STREAM_MESSAGE, payload, ({ event, data }) => {
+      if (event === 'delta') {
+        onDelta(data.content);
+      } else if (event === 'done') {
+        result = data;
+      } else if (event === 'error') {
+        // The server reports failures after streaming has started as an error event
+        streamError = {
+          type: ApiErrorType.LLM_SERVICE_ERROR,
+          message: data.message,
+          code: 500
+        };
+      }
+    });
+
+    if (streamError) {
+      throw streamError;
+    }
+
+    if (!result) {
+      throw {
+        type: ApiErrorType.LLM_SERVICE_ERROR,
+        message: 'The response stream ended unexpectedly',
+        code: 500
+      } as ApiError;
+    }
+
+    return result;
+  } catch (error) {
+    // Handle and transform any API errors
+    const parsedError = parseApiError(error);
+    throw parsedError;
+  }
+};
+
+/**
+ * Retrieves the user's active or archived chat conversations with pagination, pinned ones first
+ * 
+ * @param params - Pagination parameters (page, limit) and whether to retrieve archived conversations
  * @returns Promise that resolves with paginated conversations
  */
 export const getConversations = async (
@@ -174,6 +235,51 @@ export const createConversation = async (): Promise<Conversation> => {
   }
 };
 
+/**
+ * Renames, archives or pins a conversation
+ * 
+ * @param conversationId - ID of the conversation to update
+ * @param updates - Fields to update
+ * @returns Promise that resolves with the updated conversation
+ */
+export const updateConversation = async (
+  conversationId: string,
+  updates: UpdateConversationRequest
+): Promise<Conversation> => {
+  try {
+    // Replace :id placeholder in the endpoint URL with the actual conversationId
+    const url = ENDPOINTS.CHAT.UPDATE_CONVERSATION.replace(':id', conversationId);
+    
+    // Make PATCH request to conversation endpoint
+    const response = await apiService.patch<ApiResponse<ConversationResponse>>(url, updates);
+    
+    // Transform API response data to client model
+    return transformConversation(response.data);
+  } catch (error) {
+    const parsedError = parseApiError(error);
+    throw parsedError;
+  }
+};
+
+/**
+ * Deletes a conversation together with all of its messages
+ * 
+ * @param conversationId - ID of the conversation to delete
+ * @returns Promise that resolves once the conversation is deleted
+ */
+export const deleteConversation = async (conversationId: string): Promise<void> => {
+  try {
+    // Replace :id placeholder in the endpoint URL with the actual conversationId
+    const url = ENDPOINTS.CHAT.DELETE_CONVERSATION.replace(':id', conversationId);
+    
+    // Make DELETE request to conversation endpoint
+    await apiService.delete<void>(url);
+  } catch (error) {
+    const parsedError = parseApiError(error);
+    throw parsedError;
+  }
+};
+
 /**
  * Transforms a conversation response from the API to the client model
  * 
@@ -188,6 +294,8 @@ export const transformConversation = (
     title: conversationResponse.title,
     startedAt: new Date(conversationResponse.startedAt),
     lastMessageAt: new Date(conversationResponse.lastMessageAt),
+    archived: conversationResponse.archived ?? false,
+    pinned: conversationResponse.pinned ?? false,
     messages: [] // Messages are loaded separately to avoid large payloads
   };
 };
@@ -25,7 +25,9 @@ export {
   getConversations,
   getConversation,
   getMessages,
-  createConversation
+  createConversation,
+  updateConversation,
+  deleteConversation
 } from './chat.service';
 
 // Health Service for health data management (meals, lab results, symptoms)
@@ -57,6 +59,7 @@ export {
   removeAuthToken,
   storeRefreshToken,
   getRefreshToken,
+  removeRefreshToken,
   storeUserInfo,
   getUserInfo,
   storeThemePreference,
@@ -141,6 +141,14 @@ export const getRefreshToken = async (): Promise<string | null> => {
   return getData(STORAGE_KEYS.REFRESH_TOKEN) as Promise<string | null>;
 };
 
+/**
+ * Removes refresh token from AsyncStorage
+ * @returns Promise that resolves when refresh token is removed successfully
+ */
+export const removeRefreshToken = async (): Promise<void> => {
+  return removeData(STORAGE_KEYS.REFRESH_TOKEN);
+};
+
 /**
  * Stores user information in AsyncStorage
  * @param user User information to store
@@ -270,12 +270,9 @@ export class VoiceService {
         throw new Error('Voice recognition is not available');
       }
       
-      // Start recognition on the audio file
-      // Note: react-native-voice primarily supports live transcription from microphone
-      // For a production app, you might want to use a server-side solution for file transcription
-      // such as Google Cloud Speech-to-Text API
-      
-      // For this implementation, we'll use Voice's live recognition capabilities
+      // react-native-voice only recognizes live speech from the microphone, so this gives
+      // a preview while recording. The uploaded recording is transcribed again on the server
+      // and the symptom's transcription is updated when that finishes.
       await Voice.start('en-US');
       
       this.isTranscribing = true;
@@ -25,7 +25,8 @@ export enum ApiErrorType {
   SERVER_ERROR = 'SERVER_ERROR',
   NOT_FOUND = 'NOT_FOUND',
   FORBIDDEN = 'FORBIDDEN',
-  LLM_SERVICE_ERROR = 'LLM_SERVICE_ERROR'
+  LLM_SERVICE_ERROR = 'LLM_SERVICE_ERROR',
+  ACCOUNT_LOCKED = 'ACCOUNT_LOCKED'
 }
 
 /**
@@ -95,6 +96,14 @@ export interface ApiRequestOptions {
   timeout?: number;
 }
 
+/**
+ * Interface for a single Server-Sent Event received from a streaming endpoint
+ */
+export interface ServerSentEvent {
+  event: string;
+  data: any;
+}
+
 /**
  * Interface for file upload data structure
  * Used for uploading meal photos, lab results, and voice recordings
@@ -171,6 +180,21 @@ export interface ApiServiceInterface {
    */
   uploadFile<T>(url: string, formData: FormData, options?: ApiRequestOptions): Promise<T>;
   
+  /**
+   * Streaming POST request method for Server-Sent Events endpoints
+   * @param url API endpoint
+   * @param data Request body
+   * @param onEvent Callback invoked for each event as it arrives
+   * @param options Request options
+   * @returns Promise that resolves when the stream ends
+   */
+  stream(
+    url: string,
+    data: any,
+    onEvent: (event: ServerSentEvent) => void,
+    options?: ApiRequestOptions
+  ): Promise<void>;
+  
   /**
    * Set authentication token for future requests
    * @param token JWT token
@@ -34,9 +34,108 @@ export interface UserResponse {
  */
 export interface AuthResponse {
   token: string;
+  refreshToken: string;
   user: UserResponse;
 }
 
+/**
+ * Interface for the login response of users with two-factor authentication, whose
+ * password is only the first step
+ */
+export interface TwoFactorChallengeResponse {
+  twoFactorRequired: true;
+  challengeToken: string;
+}
+
+/**
+ * Response to a login request: the token pair, or a challenge for a two-factor code
+ */
+export type LoginResponse = AuthResponse | TwoFactorChallengeResponse;
+
+/**
+ * Interface for the second login step request payload sent to the backend API
+ */
+export interface TwoFactorLoginRequest {
+  challengeToken: string;
+  code: string;
+}
+
+/**
+ * Interface for the authenticator app setup returned when two-factor enrollment starts
+ */
+export interface TwoFactorSetupResponse {
+  secret: string;
+  otpauthUrl: string;
+  qrCode: string; // PNG data URL
+}
+
+/**
+ * Interface for the request payload that turns two-factor authentication on
+ */
+export interface EnableTwoFactorRequest {
+  code: string;
+}
+
+/**
+ * Interface for the recovery codes returned when two-factor authentication is turned on
+ */
+export interface TwoFactorRecoveryCodesResponse {
+  recoveryCodes: string[];
+}
+
+/**
+ * Interface for the request payload that turns two-factor authentication off
+ */
+export interface DisableTwoFactorRequest {
+  password: string;
+  code: string;
+}
+
+/**
+ * Interface for the token pair returned when the refresh token is exchanged
+ */
+export interface RefreshTokenResponse {
+  token: string;
+  refreshToken: string;
+}
+
+/**
+ * Interface for password change request payload sent to the backend API
+ */
+export interface ChangePasswordRequest {
+  currentPassword: string;
+  newPassword: string;
+}
+
+/**
+ * Interface for forgot password request payload sent to the backend API
+ */
+export interface ForgotPasswordRequest {
+  email: string;
+}
+
+/**
+ * Interface for password reset request payload sent to the backend API
+ */
+export interface ResetPasswordRequest {
+  token: string;
+  newPassword: string;
+}
+
+/**
+ * Interface for the values of the password change form
+ */
+export interface ChangePasswordFormValues extends ChangePasswordRequest {
+  confirmPassword: string;
+}
+
+/**
+ * Interface for the values of the password reset form
+ */
+export interface ResetPasswordFormValues extends ResetPasswordRequest {
+  confirmPassword: string;
+}
+
 /**
  * Interface for authentication state in the application
  */
@@ -53,7 +152,8 @@ export interface AuthState {
  */
 export interface AuthContextType {
   state: AuthState;
-  login: (credentials: LoginRequest) => Promise<void>;
+  login: (credentials: LoginRequest) => Promise<TwoFactorChallengeResponse | null>;
+  verifyTwoFactor: (request: TwoFactorLoginRequest) => Promise<void>;
   signup: (credentials: SignupRequest) => Promise<void>;
   logout: () => Promise<void>;
   checkAuthStatus: () => Promise<boolean>;
@@ -66,6 +166,7 @@ export enum AuthActionType {
   LOGIN_REQUEST = 'LOGIN_REQUEST',
   LOGIN_SUCCESS = 'LOGIN_SUCCESS',
   LOGIN_FAILURE = 'LOGIN_FAILURE',
+  TWO_FACTOR_REQUIRED = 'TWO_FACTOR_REQUIRED',
   SIGNUP_REQUEST = 'SIGNUP_REQUEST',
   SIGNUP_SUCCESS = 'SIGNUP_SUCCESS',
   SIGNUP_FAILURE = 'SIGNUP_FAILURE',
@@ -80,6 +181,7 @@ export type AuthAction =
   | { type: AuthActionType.LOGIN_REQUEST }
   | { type: AuthActionType.LOGIN_SUCCESS; payload: { user: UserResponse; token: string } }
   | { type: AuthActionType.LOGIN_FAILURE; payload: string }
+  | { type: AuthActionType.TWO_FACTOR_REQUIRED }
   | { type: AuthActionType.SIGNUP_REQUEST }
   | { type: AuthActionType.SIGNUP_SUCCESS; payload: { user: UserResponse; token: string } }
   | { type: AuthActionType.SIGNUP_FAILURE; payload: string }
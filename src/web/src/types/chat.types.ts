@@ -20,6 +20,7 @@ export enum ChatRole {
  */
 export enum ChatMessageStatus {
   SENDING = 'sending',
+  STREAMING = 'streaming',
   SENT = 'sent',
   ERROR = 'error',
 }
@@ -56,6 +57,8 @@ export interface Conversation {
   title: string;
   startedAt: Date;
   lastMessageAt: Date;
+  archived: boolean;
+  pinned: boolean;
   messages: ChatMessage[];
 }
 
@@ -68,6 +71,8 @@ export interface ConversationResponse {
   title: string;
   startedAt: string;
   lastMessageAt: string;
+  archived?: boolean;
+  pinned?: boolean;
 }
 
 /**
@@ -86,6 +91,14 @@ export interface SendMessageResponse {
   conversationId: string;
 }
 
+/**
+ * Interface for the final payload of a streamed response, sent once the
+ * assistant message has been stored.
+ */
+export interface StreamMessageResponse extends SendMessageResponse {
+  messageId: string;
+}
+
 /**
  * Interface for parameters to retrieve chat history with pagination.
  */
@@ -101,6 +114,16 @@ export interface ChatHistoryParams {
 export interface ConversationsParams {
   page: number;
   limit: number;
+  archived?: boolean;
+}
+
+/**
+ * Interface for request payload to rename, archive or pin a conversation.
+ */
+export interface UpdateConversationRequest {
+  title?: string;
+  archived?: boolean;
+  pinned?: boolean;
 }
 
 /**
@@ -1,8 +1,9 @@
 import { ReactNode } from 'react'; // ^18.2.0
 import { StyleProp, ViewStyle, TextStyle, TextInputProps, ImageStyle } from 'react-native'; // ^0.71.0
 import { Theme } from './theme.types';
-import { ChatMessage } from './chat.types';
-import { HealthDataResponse } from './health.types';
+import { ChatMessage, Conversation, UpdateConversationRequest } from './chat.types';
+import { HealthDataResponse, HealthDataFilters } from './health.types';
+import { UserProfile, UpdateProfileRequest } from './user.types';
 
 /**
  * Enum for button style variants used throughout the application
@@ -233,6 +234,36 @@ export interface RadioGroupProps {
   style?: StyleProp<ViewStyle>;
 }
 
+/**
+ * Props interface for HealthProfileForm component
+ */
+export interface HealthProfileFormProps {
+  /**
+   * Profile the form starts from
+   */
+  profile: UserProfile;
+  
+  /**
+   * Function to call with the profile changes when the form is saved
+   */
+  onSubmit: (data: UpdateProfileRequest) => void;
+  
+  /**
+   * Function to call when editing is cancelled
+   */
+  onCancel: () => void;
+  
+  /**
+   * Whether the profile is being saved
+   */
+  loading?: boolean;
+  
+  /**
+   * Error message from saving the profile
+   */
+  error?: string;
+}
+
 /**
  * Props interface for Card component
  */
@@ -593,6 +624,71 @@ export interface VoiceRecorderProps {
   style?: StyleProp<ViewStyle>;
 }
 
+/**
+ * A lab analyte row as edited in a form, with every field kept as entered text
+ */
+export interface AnalyteFormRow {
+  /**
+   * Unique identifier of the row, used as the list key
+   */
+  id: string;
+  
+  /**
+   * Name of the analyte
+   */
+  name: string;
+  
+  /**
+   * Measured value
+   */
+  value: string;
+  
+  /**
+   * Unit of the measured value
+   */
+  unit: string;
+  
+  /**
+   * Lower bound of the reference range
+   */
+  referenceLow: string;
+  
+  /**
+   * Upper bound of the reference range
+   */
+  referenceHigh: string;
+  
+  /**
+   * OCR confidence between 0 and 1, for rows read from a lab report photo
+   */
+  confidence?: number;
+}
+
+/**
+ * Props interface for AnalyteInputList component
+ */
+export interface AnalyteInputListProps {
+  /**
+   * Analyte rows to display
+   */
+  rows: AnalyteFormRow[];
+  
+  /**
+   * Function to call with the updated rows when a row is added, edited or removed
+   */
+  onChange: (rows: AnalyteFormRow[]) => void;
+  
+  /**
+   * Validation errors keyed by row ID
+   */
+  errors?: Record<string, string>;
+  
+  /**
+   * Additional styles for the list container
+   */
+  style?: StyleProp<ViewStyle>;
+}
+
 /**
  * Props interface for DataEntryOptions component
  */
@@ -677,12 +773,42 @@ export interface HealthItemListProps {
    */
   onRefresh?: () => void;
   
+  /**
+   * Whether to group items under date headers; otherwise they are shown in the given order
+   */
+  groupByDate?: boolean;
+  
   /**
    * Additional styles for the list container
    */
   style?: StyleProp<ViewStyle>;
 }
 
+/**
+ * Props interface for HealthFilterSheet component
+ */
+export interface HealthFilterSheetProps {
+  /**
+   * Whether the filter sheet is visible
+   */
+  visible: boolean;
+  
+  /**
+   * Filters currently applied to the health log
+   */
+  filters: HealthDataFilters;
+  
+  /**
+   * Function to call with the chosen filters when they are applied
+   */
+  onApply: (filters: HealthDataFilters) => void;
+  
+  /**
+   * Function to call when the sheet is dismissed without applying
+   */
+  onClose: () => void;
+}
+
 /**
  * Props interface for ChatBubble component
  */
@@ -771,4 +897,179 @@ export interface ChatListProps {
    * Additional styles for the list container
    */
   style?: StyleProp<ViewStyle>;
-}
\ No newline at end of file
+}
+
+/**
+ * Props interface for ConversationDrawer component
+ */
+export interface ConversationDrawerProps {
+  /**
+   * Whether the drawer is visible
+   */
+  visible: boolean;
+  
+  /**
+   * Active conversations, pinned ones first
+   */
+  conversations: Conversation[];
+  
+  /**
+   * Archived conversations, pinned ones first
+   */
+  archivedConversations: Conversation[];
+  
+  /**
+   * ID of the conversation currently open in the chat
+   */
+  activeConversationId?: string;
+  
+  /**
+   * Function to call with the ID of the conversation to open
+   */
+  onSelect: (conversationId: string) => void;
+  
+  /**
+   * Function to call to start a new conversation
+   */
+  onNewConversation: () => void;
+  
+  /**
+   * Function to call to rename, archive or pin a conversation
+   */
+  onUpdate: (conversationId: string, updates: UpdateConversationRequest) => void;
+  
+  /**
+   * Function to call to delete a conversation
+   */
+  onDelete: (conversationId: string) => void;
+  
+  /**
+   * Function to call when the archived conversations are shown
+   */
+  onShowArchived: () => void;
+  
+  /**
+   * Function to call when the drawer is dismissed
+   */
+  onClose: () => void;
+}
+
+/**
+ * A data series drawn by a chart component
+ */
+export interface ChartSeries {
+  /**
+   * Key of the series in each data point's values
+   */
+  key: string;
+  
+  /**
+   * Label shown in the chart legend
+   */
+  label: string;
+  
+  /**
+   * Color used to draw the series
+   */
+  color: string;
+}
+
+/**
+ * A single bar in a BarChart, split into one segment per series
+ */
+export interface BarChartDatum {
+  /**
+   * Label shown on the x-axis
+   */
+  label: string;
+  
+  /**
+   * Value of each series, keyed by series key
+   */
+  values: Record<string, number>;
+}
+
+/**
+ * Props interface for BarChart component
+ */
+export interface BarChartProps {
+  /**
+   * Bars to display, in x-axis order
+   */
+  data: BarChartDatum[];
+  
+  /**
+   * Series stacked in each bar, from bottom to top
+   */
+  series: ChartSeries[];
+  
+  /**
+   * Height of the plot area in pixels
+   */
+  height?: number;
+  
+  /**
+   * Accessibility label describing the chart
+   */
+  accessibilityLabel?: string;
+  
+  /**
+   * Additional styles for the chart container
+   */
+  style?: StyleProp<ViewStyle>;
+}
+
+/**
+ * A single point in a LineChart
+ */
+export interface LineChartDatum {
+  /**
+   * Label shown on the x-axis
+   */
+  label: string;
+  
+  /**
+   * Value of the point, null leaves a gap in the line
+   */
+  value: number | null;
+}
+
+/**
+ * Props interface for LineChart component
+ */
+export interface LineChartProps {
+  /**
+   * Points to display, in x-axis order
+   */
+  data: LineChartDatum[];
+  
+  /**
+   * Color of the line, defaults to the theme primary color
+   */
+  color?: string;
+  
+  /**
+   * Lower bound of the y-axis, defaults to 0
+   */
+  minValue?: number;
+  
+  /**
+   * Upper bound of the y-axis, defaults to the largest value
+   */
+  maxValue?: number;
+  
+  /**
+   * Height of the plot area in pixels
+   */
+  height?: number;
+  
+  /**
+   * Accessibility label describing the chart
+   */
+  accessibilityLabel?: string;
+  
+  /**
+   * Additional styles for the chart container
+   */
+  style?: StyleProp<ViewStyle>;
+}
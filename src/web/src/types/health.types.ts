@@ -33,6 +33,15 @@ export enum SymptomSeverity {
   SEVERE = 'severe'
 }
 
+/**
+ * Enum defining the states of the server-side transcription of a symptom voice note
+ */
+export enum TranscriptionStatus {
+  PENDING = 'pending',
+  COMPLETED = 'completed',
+  FAILED = 'failed'
+}
+
 /**
  * Enum defining the different types of meals for meal logging
  */
@@ -106,6 +115,16 @@ export interface LabResultData {
    */
   results?: Record<string, any>;
   
+  /**
+   * Individual analytes measured by the test, normalized to canonical units
+   */
+  analytes?: LabAnalyte[];
+  
+  /**
+   * Details of the last OCR extraction run on the lab result photo
+   */
+  extraction?: LabResultExtraction;
+  
   /**
    * Additional notes about the lab results
    */
@@ -117,6 +136,91 @@ export interface LabResultData {
   imageUrl?: string;
 }
 
+/**
+ * Interface for the details of an OCR extraction stored on a lab result
+ */
+export interface LabResultExtraction {
+  /**
+   * OCR engine used
+   */
+  engine: string;
+  
+  /**
+   * ID of the image the text was read from
+   */
+  fileId: string;
+  
+  /**
+   * OCR confidence for the whole image, between 0 and 1
+   */
+  confidence: number;
+  
+  /**
+   * Number of analytes found
+   */
+  analyteCount: number;
+  
+  /**
+   * ISO timestamp when the extraction ran
+   */
+  extractedAt: string;
+}
+
+/**
+ * Interface for a single analyte entered for a lab result
+ */
+export interface LabAnalyteInput {
+  /**
+   * Name of the analyte (e.g., Glucose, LDL Cholesterol)
+   */
+  name: string;
+  
+  /**
+   * Measured value
+   */
+  value: number;
+  
+  /**
+   * Unit of the measured value (e.g., mg/dL, mmol/L)
+   */
+  unit: string;
+  
+  /**
+   * Lower bound of the reference range, in the same unit as the value
+   */
+  referenceLow?: number;
+  
+  /**
+   * Upper bound of the reference range, in the same unit as the value
+   */
+  referenceHigh?: number;
+}
+
+/**
+ * Interface for a stored lab analyte, normalized to its canonical unit
+ */
+export interface LabAnalyte extends LabAnalyteInput {
+  /**
+   * Stable identifier used to track the analyte across lab results
+   */
+  key: string;
+  
+  /**
+   * Whether the value falls outside the reference range
+   */
+  outOfRange: boolean;
+  
+  /**
+   * Value as entered, when it was converted to the canonical unit
+   */
+  originalValue?: number;
+  
+  /**
+   * Unit as entered, when the value was converted to the canonical unit
+   */
+  originalUnit?: string;
+}
+
 /**
  * Interface for symptom-specific health data
  */
@@ -145,6 +249,56 @@ export interface SymptomData {
    * Text transcription of the voice recording
    */
   transcription?: string;
+  
+  /**
+   * State of the server-side transcription of the recording, if one was uploaded
+   */
+  transcriptionStatus?: TranscriptionStatus;
+  
+  /**
+   * Speech-to-text engine that produced the server-side transcription
+   */
+  transcriptionEngine?: string;
+  
+  /**
+   * ISO timestamp when the server-side transcription finished
+   */
+  transcribedAt?: string;
+}
+
+/**
+ * Interface for an excerpt of a health data field that matched a text search
+ */
+export interface SearchSnippet {
+  /**
+   * Field the excerpt was taken from, e.g. description or tags
+   */
+  field: string;
+  
+  /**
+   * Excerpt of the field around the matches
+   */
+  text: string;
+  
+  /**
+   * Character ranges of the matched words and phrases within the excerpt
+   */
+  highlights: { start: number; end: number }[];
+}
+
+/**
+ * Interface for how a health data entry matched a text search
+ */
+export interface SearchMatch {
+  /**
+   * Relevance of the entry to the search, higher is more relevant
+   */
+  score: number;
+  
+  /**
+   * Excerpts showing why the entry matched, most important field first
+   */
+  snippets: SearchSnippet[];
 }
 
 /**
@@ -184,6 +338,11 @@ export interface HealthDataResponse {
    */
   metadata?: HealthDataMetadata;
   
+  /**
+   * How the entry matched the search, only present on search results
+   */
+  search?: SearchMatch;
+  
   /**
    * Formatted date string for display purposes
    */
@@ -205,12 +364,48 @@ export interface HealthDataListResponse extends PaginatedResponse<HealthDataResp
  */
 export interface HealthDataListApiResponse extends ApiResponse<HealthDataListResponse> {}
 
+/**
+ * Interface for the health log filters that can be combined in a single request.
+ * Every filter given must match, and multi-value filters match any of their values.
+ */
+export interface HealthDataFilters {
+  /**
+   * Only include entries on or after this time (ISO 8601 format)
+   */
+  startDate?: string;
+  
+  /**
+   * Only include entries on or before this time (ISO 8601 format)
+   */
+  endDate?: string;
+  
+  /**
+   * Health data types to include
+   */
+  types?: HealthDataType[];
+  
+  /**
+   * Tags, matching entries with any of them
+   */
+  tags?: string[];
+  
+  /**
+   * Symptom severities to include; only symptoms match
+   */
+  severity?: SymptomSeverity[];
+  
+  /**
+   * Meal types to include; only meals match
+   */
+  mealType?: MealType[];
+}
+
 /**
  * Interface for parameters used when retrieving health data with filtering and pagination
  */
-export interface GetHealthDataParams {
+export interface GetHealthDataParams extends HealthDataFilters {
   /**
-   * Filter by specific date (YYYY-MM-DD format)
+   * Filter by specific date (YYYY-MM-DD format), cannot be combined with startDate or endDate
    */
   date?: string;
   
@@ -260,6 +455,17 @@ export interface CreateHealthDataRequest {
   metadata?: HealthDataMetadata;
 }
 
+/**
+ * Interface for request payload when updating a health data entry. Lab results
+ * are sent with analytes as entered, which the server normalizes.
+ */
+export interface UpdateHealthDataRequest extends Omit<CreateHealthDataRequest, 'data'> {
+  /**
+   * Type-specific health data content
+   */
+  data: MealData | SymptomData | (Omit<LabResultData, 'analytes'> & { analytes?: LabAnalyteInput[] });
+}
+
 /**
  * Interface for request payload when creating new meal data entries with image
  */
@@ -303,6 +509,11 @@ export interface CreateLabResultDataRequest {
    */
   testDate: string;
   
+  /**
+   * Individual analytes measured by the test
+   */
+  analytes?: LabAnalyteInput[];
+  
   /**
    * Additional notes about the lab results
    */
@@ -380,4 +591,297 @@ export interface HealthContext {
    * Recent symptom entries to provide context for the LLM
    */
   recentSymptoms: HealthDataResponse[];
-}
\ No newline at end of file
+}
+/**
+ * Interface for parameters used when retrieving health insights
+ */
+export interface GetHealthInsightsParams {
+  /**
+   * Start of the date range (ISO timestamp), defaults to 30 days before endDate
+   */
+  startDate?: string;
+  
+  /**
+   * End of the date range (ISO timestamp), defaults to now
+   */
+  endDate?: string;
+  
+  /**
+   * IANA timezone used to group entries into days and weeks
+   */
+  timezone?: string;
+}
+
+/**
+ * Interface for the number of meals logged on a single day
+ */
+export interface MealsPerDayInsight {
+  /**
+   * Day in YYYY-MM-DD format
+   */
+  date: string;
+  
+  /**
+   * Number of meals logged per meal type
+   */
+  counts: Record<MealType, number>;
+  
+  /**
+   * Total number of meals logged on the day
+   */
+  total: number;
+}
+
+/**
+ * Interface for symptom frequency and severity in a single week
+ */
+export interface SymptomWeekInsight {
+  /**
+   * Monday of the week in YYYY-MM-DD format
+   */
+  weekStart: string;
+  
+  /**
+   * Number of symptoms reported during the week
+   */
+  count: number;
+  
+  /**
+   * Number of symptoms reported per severity level
+   */
+  severityCounts: Record<SymptomSeverity, number>;
+  
+  /**
+   * Average severity from 1 (mild) to 3 (severe), null when no symptoms were reported
+   */
+  averageSeverity: number | null;
+}
+
+/**
+ * Interface for the history of a single lab test type
+ */
+export interface LabTestHistoryInsight {
+  /**
+   * Type of lab test
+   */
+  testType: string;
+  
+  /**
+   * Number of results recorded for the test type
+   */
+  count: number;
+  
+  /**
+   * Results in chronological order
+   */
+  entries: Array<{
+    id: string;
+    testDate: string;
+    results: Record<string, any>;
+  }>;
+}
+
+/**
+ * Interface for aggregated health insights over a date range
+ */
+export interface HealthInsights {
+  /**
+   * Start of the date range (ISO timestamp)
+   */
+  startDate: string;
+  
+  /**
+   * End of the date range (ISO timestamp)
+   */
+  endDate: string;
+  
+  /**
+   * Timezone used to group entries into days and weeks
+   */
+  timezone: string;
+  
+  /**
+   * Meal counts for every day in the range
+   */
+  mealsPerDay: MealsPerDayInsight[];
+  
+  /**
+   * Symptom frequency and severity for every week in the range
+   */
+  symptomTrend: SymptomWeekInsight[];
+  
+  /**
+   * Lab test history grouped by test type
+   */
+  labTestHistory: LabTestHistoryInsight[];
+}
+
+/**
+ * Interface for API response containing health insights
+ */
+export interface HealthInsightsApiResponse extends ApiResponse<HealthInsights> {}
+
+/**
+ * Interface for query parameters when retrieving an analyte's history
+ */
+export interface GetAnalyteHistoryParams {
+  /**
+   * Start of the date range (ISO date string)
+   */
+  startDate?: string;
+  
+  /**
+   * End of the date range (ISO date string)
+   */
+  endDate?: string;
+}
+
+/**
+ * Interface for a single measurement in an analyte's history
+ */
+export interface AnalyteHistoryEntry {
+  /**
+   * ID of the lab result the measurement belongs to
+   */
+  healthDataId: string;
+  
+  /**
+   * Date when the lab test was performed
+   */
+  testDate: string;
+  
+  /**
+   * Type of the lab test
+   */
+  testType: string;
+  
+  /**
+   * Measured value
+   */
+  value: number;
+  
+  /**
+   * Unit of the measured value
+   */
+  unit: string;
+  
+  /**
+   * Lower bound of the reference range
+   */
+  referenceLow?: number;
+  
+  /**
+   * Upper bound of the reference range
+   */
+  referenceHigh?: number;
+  
+  /**
+   * Whether the value falls outside the reference range
+   */
+  outOfRange: boolean;
+}
+
+/**
+ * Interface for the measurements of one analyte over time
+ */
+export interface AnalyteHistory {
+  /**
+   * Stable identifier of the analyte
+   */
+  key: string;
+  
+  /**
+   * Display name of the analyte
+   */
+  name: string;
+  
+  /**
+   * Unit shared by all measurements, or null if they use different units
+   */
+  unit: string | null;
+  
+  /**
+   * Measurements ordered by test date
+   */
+  entries: AnalyteHistoryEntry[];
+}
+
+/**
+ * Interface for API response containing an analyte's history
+ */
+export interface AnalyteHistoryApiResponse extends ApiResponse<AnalyteHistory> {}
+
+/**
+ * Interface for an analyte read from a lab report photo, before the user confirms it
+ */
+export interface ExtractedLabAnalyte {
+  /**
+   * Analyte name as read from the report
+   */
+  name: string;
+  
+  /**
+   * Value as read from the report
+   */
+  value: number;
+  
+  /**
+   * Unit as read from the report, if one was found
+   */
+  unit?: string;
+  
+  /**
+   * Lower bound of the reference range, if one was found
+   */
+  referenceLow?: number;
+  
+  /**
+   * Upper bound of the reference range, if one was found
+   */
+  referenceHigh?: number;
+  
+  /**
+   * OCR confidence for the line the analyte was read from, between 0 and 1
+   */
+  confidence: number;
+  
+  /**
+   * Text of the line the analyte was read from
+   */
+  line: string;
+}
+
+/**
+ * Interface for the draft read from a lab result photo
+ */
+export interface LabResultDraft {
+  /**
+   * ID of the lab result the photo belongs to
+   */
+  healthDataId: string;
+  
+  /**
+   * ID of the image the text was read from
+   */
+  fileId: string;
+  
+  /**
+   * OCR confidence for the whole image, between 0 and 1
+   */
+  confidence: number;
+  
+  /**
+   * Full text read from the image
+   */
+  text: string;
+  
+  /**
+   * Analytes found, in the order they appear on the report
+   */
+  analytes: ExtractedLabAnalyte[];
+}
+
+/**
+ * Interface for API response containing a lab result draft
+ */
+export interface LabResultDraftApiResponse extends ApiResponse<LabResultDraft> {}
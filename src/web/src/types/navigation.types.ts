@@ -29,6 +29,9 @@ export interface RootStackParamList extends ParamListBase {
 export interface AuthStackParamList extends ParamListBase {
   Login: undefined;
   Signup: undefined;
+  ForgotPassword: undefined;
+  ResetPassword: { email?: string; token?: string } | undefined;
+  TwoFactor: { challengeToken: string };
 }
 
 /**
@@ -39,7 +42,8 @@ export interface MainTabParamList extends ParamListBase {
   HealthLog: undefined;
   DataEntry: undefined;
   Insights: undefined;
-  Profile: undefined;
+  Profile: { twoFactorEnabled?: boolean } | undefined;
+  TwoFactorSetup: undefined;
 }
 
 /**
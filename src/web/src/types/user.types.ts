@@ -3,26 +3,112 @@
  * These types represent user profile data structures and related state management
  */
 
+/**
+ * Enum defining the values a user can choose for their sex in the health profile
+ */
+export enum Sex {
+  FEMALE = 'female',
+  MALE = 'male',
+  INTERSEX = 'intersex',
+  PREFER_NOT_TO_SAY = 'prefer_not_to_say'
+}
+
+/**
+ * Enum defining the units in which height and weight are shown and entered
+ */
+export enum UnitsPreference {
+  METRIC = 'metric',
+  IMPERIAL = 'imperial'
+}
+
 /**
  * Interface for user profile data returned from the backend API
- * Contains the essential user information for display and identification
+ * Contains the essential user information along with the health profile that the
+ * health advisor takes into account
  */
 export interface UserProfile {
   /** Unique identifier for the user */
   id: string;
   /** User's email address, used for authentication and communication */
   email: string;
-  /** ISO timestamp when the user account was created */
+  /** ISO timestamp when the account was created */
   createdAt: string;
+  /** Whether logging in takes a code from an authenticator app */
+  twoFactorEnabled: boolean;
+  /** Name to address the user by */
+  displayName?: string;
+  /** Date of birth as YYYY-MM-DD */
+  dateOfBirth?: string;
+  /** User's sex */
+  sex?: Sex;
+  /** Height in centimetres, whatever the units preference */
+  heightCm?: number;
+  /** Weight in kilograms, whatever the units preference */
+  weightKg?: number;
+  /** Known medical conditions */
+  conditions: string[];
+  /** Allergies and intolerances */
+  allergies: string[];
+  /** Current medications */
+  medications: string[];
+  /** Dietary preferences such as vegetarian or low sodium */
+  dietaryPreferences: string[];
+  /** Units in which height and weight are shown */
+  unitsPreference: UnitsPreference;
 }
 
 /**
  * Interface for update profile request payload sent to the backend API
- * Currently only supports updating email, but can be extended for additional fields
+ * Only the fields given are changed; null clears a field
  */
 export interface UpdateProfileRequest {
-  /** Updated email address for the user */
-  email: string;
+  /** Name to address the user by */
+  displayName?: string | null;
+  /** Date of birth as YYYY-MM-DD */
+  dateOfBirth?: string | null;
+  /** User's sex */
+  sex?: Sex | null;
+  /** Height in centimetres */
+  heightCm?: number | null;
+  /** Weight in kilograms */
+  weightKg?: number | null;
+  /** Known medical conditions */
+  conditions?: string[];
+  /** Allergies and intolerances */
+  allergies?: string[];
+  /** Current medications */
+  medications?: string[];
+  /** Dietary preferences */
+  dietaryPreferences?: string[];
+  /** Units in which height and weight are shown */
+  unitsPreference?: UnitsPreference;
+}
+
+/**
+ * Interface for the health profile as edited in a form, with every field kept as entered text
+ * Height and weight are entered in the units of the selected units preference
+ */
+export interface HealthProfileFormValues {
+  /** Name to address the user by */
+  displayName: string;
+  /** Date of birth as YYYY-MM-DD */
+  dateOfBirth: string;
+  /** User's sex, or an empty string if not chosen */
+  sex: Sex | '';
+  /** Height in cm or inches */
+  height: string;
+  /** Weight in kg or lb */
+  weight: string;
+  /** Comma-separated known medical conditions */
+  conditions: string;
+  /** Comma-separated allergies */
+  allergies: string;
+  /** Comma-separated medications */
+  medications: string;
+  /** Comma-separated dietary preferences */
+  dietaryPreferences: string;
+  /** Units in which height and weight are entered */
+  unitsPreference: UnitsPreference;
 }
 
 /**
@@ -60,4 +146,36 @@ export interface UserContextType {
    * @returns Promise that resolves when the operation completes
    */
   updateProfile: (data: UpdateProfileRequest) => Promise<void>;
-}
\ No newline at end of file
+}
+/**
+ * Enum defining the states of a personal data export
+ */
+export enum DataExportStatus {
+  PENDING = 'pending',
+  PROCESSING = 'processing',
+  COMPLETED = 'completed',
+  FAILED = 'failed'
+}
+
+/**
+ * Interface for the status of a personal data export returned from the backend API
+ * The archive is built in the background and can be downloaded once completed
+ */
+export interface DataExport {
+  /** Unique identifier for the export */
+  id: string;
+  /** Current state of the export */
+  status: DataExportStatus;
+  /** Size of the ZIP archive in bytes, once completed */
+  size?: number;
+  /** Reason the export failed, if it did */
+  error?: string;
+  /** ISO timestamp when the export was requested */
+  createdAt: string;
+  /** ISO timestamp when the archive was ready */
+  completedAt?: string;
+  /** ISO timestamp after which the archive can no longer be downloaded */
+  expiresAt: string;
+  /** Path of the archive on the server, set while it can be downloaded */
+  downloadUrl?: string;
+}
@@ -6,6 +6,7 @@
 
 import { AxiosError } from 'axios'; // ^1.3.4
 import { ApiErrorType, ApiError } from '../types/api.types';
+import { AUTH_ERROR_CODES } from '../constants/api.constants';
 
 /**
  * Interface for standardized error object returned by parseApiError
@@ -61,9 +62,14 @@ export const parseApiError = (error: any): ParsedError => {
       errorMessage = axiosError.message;
     }
 
-    // Extract validation details if available
+    // Lockouts after too many failed logins carry the time the lockout ends
+    if (responseData?.error?.code === AUTH_ERROR_CODES.ACCOUNT_LOCKED) {
+      errorType = ApiErrorType.ACCOUNT_LOCKED;
+    }
+
+    // Extract validation and lockout details if available
     if (
-      errorType === ApiErrorType.VALIDATION_ERROR &&
+      (errorType === ApiErrorType.VALIDATION_ERROR || errorType === ApiErrorType.ACCOUNT_LOCKED) &&
       responseData?.error?.details
     ) {
       errorDetails = formatValidationErrors(responseData.error.details);
@@ -147,6 +153,8 @@ export const getErrorMessage = (
       return 'You do not have permission to access this resource.';
     case ApiErrorType.LLM_SERVICE_ERROR:
       return 'Unable to connect to the AI service. Please try again later.';
+    case ApiErrorType.ACCOUNT_LOCKED:
+      return 'Too many failed login attempts. Please try again later or reset your password.';
     default:
       return 'An unexpected error occurred. Please try again.';
   }
@@ -1,5 +1,6 @@
 import { formatDisplayDate, formatDisplayTime } from './date.utils'; // date-fns v2.29.3
 import { HealthDataType, SymptomSeverity, MealType } from '../types/health.types';
+import { UnitsPreference } from '../types/user.types';
 import { truncate } from 'lodash'; // lodash v4.17.21
 
 // Constants for text formatting
@@ -7,6 +8,10 @@ export const MAX_DESCRIPTION_LENGTH = 100;
 export const MAX_CHAT_PREVIEW_LENGTH = 50;
 export const DECIMAL_PRECISION = 2;
 
+// Conversion factors between metric and imperial body measurements
+export const CM_PER_INCH = 2.54;
+export const KG_PER_POUND = 0.45359237;
+
 /**
  * Formats a health data item title based on its type
  * @param type Type of health data
@@ -194,4 +199,62 @@ export const capitalizeFirstLetter = (
   }
   
   return text.charAt(0).toUpperCase() + text.slice(1);
-};
\ No newline at end of file
+};
+
+/**
+ * Formats a height in the user's preferred units
+ * @param heightCm Height in centimetres
+ * @param units Units to show the height in
+ * @returns Formatted height (e.g., '170 cm' or '5 ft 7 in')
+ */
+export const formatHeight = (
+  heightCm: number,
+  units: UnitsPreference
+): string => {
+  if (units === UnitsPreference.IMPERIAL) {
+    const totalInches = Math.round(heightCm / CM_PER_INCH);
+    return `${Math.floor(totalInches / 12)} ft ${totalInches % 12} in`;
+  }
+  
+  return `${Math.round(heightCm)} cm`;
+};
+
+/**
+ * Formats a weight in the user's preferred units
+ * @param weightKg Weight in kilograms
+ * @param units Units to show the weight in
+ * @returns Formatted weight (e.g., '68 kg' or '150 lb')
+ */
+export const formatWeight = (
+  weightKg: number,
+  units: UnitsPreference
+): string => {
+  if (units === UnitsPreference.IMPERIAL) {
+    return `${Math.round(weightKg / KG_PER_POUND)} lb`;
+  }
+  
+  return `${Math.round(weightKg * 10) / 10} kg`;
+};
+
+/**
+ * Splits comma-separated text entered by the user into a list of entries
+ * @param text Comma-separated text
+ * @returns Trimmed, non-empty entries without duplicates, ignoring case
+ */
+export const splitListInput = (
+  text: string
+): string[] => {
+  const seen = new Set<string>();
+  
+  return text
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(entry => {
+      const key = entry.toLowerCase();
+      if (!entry || seen.has(key)) {
+        return false;
+      }
+      seen.add(key);
+      return true;
+    });
+};
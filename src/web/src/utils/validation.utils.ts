@@ -1,5 +1,22 @@
 import { HealthDataType, MealType, SymptomSeverity } from '../types/health.types';
-import { LoginRequest, SignupRequest } from '../types/auth.types';
+import {
+  LoginRequest,
+  SignupRequest,
+  ForgotPasswordRequest,
+  ResetPasswordFormValues,
+  ChangePasswordFormValues
+} from '../types/auth.types';
+import { HealthProfileFormValues, UnitsPreference } from '../types/user.types';
+import { CM_PER_INCH, KG_PER_POUND, splitListInput } from './format.utils';
+
+// Limits of the health profile, matching the backend validation
+const MAX_DISPLAY_NAME_LENGTH = 50;
+const MIN_HEIGHT_CM = 30;
+const MAX_HEIGHT_CM = 300;
+const MIN_WEIGHT_KG = 1;
+const MAX_WEIGHT_KG = 500;
+const MAX_PROFILE_LIST_ITEMS = 30;
+const MAX_PROFILE_LIST_ITEM_LENGTH = 100;
 
 /**
  * Validates if a string is a properly formatted email address
@@ -229,6 +246,64 @@ export const validateSignupForm = (values: SignupRequest): Record<string, string
   return errors;
 };
 
+/**
+ * Validates forgot password form data
+ * @param values Forgot password form values
+ * @returns Object containing validation errors for each field
+ */
+export const validateForgotPasswordForm = (values: ForgotPasswordRequest): Record<string, string> => {
+  const errors: Record<string, string> = {};
+  
+  const emailError = validateEmail(values.email);
+  if (emailError) errors.email = emailError;
+  
+  return errors;
+};
+
+/**
+ * Validates password reset form data
+ * @param values Password reset form values
+ * @returns Object containing validation errors for each field
+ */
+export const validateResetPasswordForm = (values: ResetPasswordFormValues): Record<string, string> => {
+  const errors: Record<string, string> = {};
+  
+  const tokenError = validateRequired(values.token, 'Reset code');
+  if (tokenError) errors.token = tokenError;
+  
+  const passwordError = validatePassword(values.newPassword);
+  if (passwordError) errors.newPassword = passwordError;
+  
+  const passwordMatchError = validatePasswordMatch(values.newPassword, values.confirmPassword);
+  if (passwordMatchError) errors.confirmPassword = passwordMatchError;
+  
+  return errors;
+};
+
+/**
+ * Validates password change form data
+ * @param values Password change form values
+ * @returns Object containing validation errors for each field
+ */
+export const validateChangePasswordForm = (values: ChangePasswordFormValues): Record<string, string> => {
+  const errors: Record<string, string> = {};
+  
+  const currentPasswordError = validateRequired(values.currentPassword, 'Current password');
+  if (currentPasswordError) errors.currentPassword = currentPasswordError;
+  
+  const passwordError = validatePassword(values.newPassword);
+  if (passwordError) {
+    errors.newPassword = passwordError;
+  } else if (values.newPassword === values.currentPassword) {
+    errors.newPassword = 'New password must be different from the current password';
+  }
+  
+  const passwordMatchError = validatePasswordMatch(values.newPassword, values.confirmPassword);
+  if (passwordMatchError) errors.confirmPassword = passwordMatchError;
+  
+  return errors;
+};
+
 /**
  * Validates meal entry form data
  * @param values Meal form values
@@ -325,6 +400,110 @@ export const validateSymptomForm = (values: {
   return errors;
 };
 
+/**
+ * Validates a number entered as text against a range
+ * @param text Entered text, which may be empty
+ * @param min Smallest allowed value
+ * @param max Largest allowed value
+ * @param fieldName Name of the field for error message
+ * @param unit Unit shown in the error message
+ * @returns Error message if validation fails, null if valid or empty
+ */
+const validateNumberInRange = (
+  text: string,
+  min: number,
+  max: number,
+  fieldName: string,
+  unit: string
+): string | null => {
+  if (!text.trim()) return null;
+  
+  const value = Number(text);
+  if (isNaN(value) || value < min || value > max) {
+    return `${fieldName} must be between ${min} and ${max} ${unit}`;
+  }
+  
+  return null;
+};
+
+/**
+ * Validates a comma-separated list of the health profile
+ * @param text Comma-separated entries
+ * @param fieldName Name of the field for error message
+ * @returns Error message if validation fails, null if valid
+ */
+const validateProfileList = (text: string, fieldName: string): string | null => {
+  const entries = splitListInput(text);
+  
+  if (entries.length > MAX_PROFILE_LIST_ITEMS) {
+    return `${fieldName} can have at most ${MAX_PROFILE_LIST_ITEMS} entries`;
+  }
+  
+  if (entries.some(entry => entry.length > MAX_PROFILE_LIST_ITEM_LENGTH)) {
+    return `Each entry in ${fieldName.toLowerCase()} must be at most ${MAX_PROFILE_LIST_ITEM_LENGTH} characters`;
+  }
+  
+  return null;
+};
+
+/**
+ * Validates health profile form data
+ * Height and weight are checked in the units they were entered in
+ * @param values Health profile form values
+ * @returns Object containing validation errors for each field
+ */
+export const validateHealthProfileForm = (values: HealthProfileFormValues): Record<string, string> => {
+  const errors: Record<string, string> = {};
+  const imperial = values.unitsPreference === UnitsPreference.IMPERIAL;
+  
+  const displayNameError = validateMaxLength(values.displayName.trim(), MAX_DISPLAY_NAME_LENGTH, 'Name');
+  if (displayNameError) errors.displayName = displayNameError;
+  
+  if (values.dateOfBirth) {
+    const dateOfBirth = new Date(values.dateOfBirth);
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(values.dateOfBirth) || isNaN(dateOfBirth.getTime())) {
+      errors.dateOfBirth = 'Date of birth must be a date in the format YYYY-MM-DD';
+    } else if (dateOfBirth > new Date() || dateOfBirth.getUTCFullYear() < 1900) {
+      errors.dateOfBirth = 'Date of birth must be between 1900 and today';
+    }
+  }
+  
+  const heightError = imperial
+    ? validateNumberInRange(
+      values.height,
+      Math.ceil(MIN_HEIGHT_CM / CM_PER_INCH),
+      Math.floor(MAX_HEIGHT_CM / CM_PER_INCH),
+      'Height',
+      'in'
+    )
+    : validateNumberInRange(values.height, MIN_HEIGHT_CM, MAX_HEIGHT_CM, 'Height', 'cm');
+  if (heightError) errors.height = heightError;
+  
+  const weightError = imperial
+    ? validateNumberInRange(
+      values.weight,
+      Math.ceil(MIN_WEIGHT_KG / KG_PER_POUND),
+      Math.floor(MAX_WEIGHT_KG / KG_PER_POUND),
+      'Weight',
+      'lb'
+    )
+    : validateNumberInRange(values.weight, MIN_WEIGHT_KG, MAX_WEIGHT_KG, 'Weight', 'kg');
+  if (weightError) errors.weight = weightError;
+  
+  const listFields: [keyof HealthProfileFormValues, string][] = [
+    ['conditions', 'Conditions'],
+    ['allergies', 'Allergies'],
+    ['medications', 'Medications'],
+    ['dietaryPreferences', 'Dietary preferences'],
+  ];
+  listFields.forEach(([field, fieldName]) => {
+    const listError = validateProfileList(values[field], fieldName);
+    if (listError) errors[field] = listError;
+  });
+  
+  return errors;
+};
+
 /**
  * Checks if a form has any validation errors
  * @param errors Object containing validation errors